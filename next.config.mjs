@@ -43,10 +43,42 @@ const withPWAConfig = withPWA({
         },
       },
     },
+    // Páginas de la app: permite abrir un cultivo ya visitado sin conexión
+    // (los datos salen de la caché IndexedDB de src/lib/services/offline.ts)
+    {
+      urlPattern: ({ request, url }) => request.mode === 'navigate' && url.origin === self.location.origin,
+      handler: 'NetworkFirst',
+      options: {
+        cacheName: 'paginas',
+        networkTimeoutSeconds: 5,
+        expiration: {
+          maxEntries: 32,
+          maxAgeSeconds: 7 * 24 * 60 * 60, // 1 week
+        },
+      },
+    },
+    // Fotos de la galería ya vistas
+    {
+      urlPattern: /^https:\/\/res\.cloudinary\.com\/.*$/i,
+      handler: 'CacheFirst',
+      options: {
+        cacheName: 'galeria-imagenes',
+        // Las imágenes de otro origen llegan como respuestas opacas (status 0)
+        cacheableResponse: { statuses: [0, 200] },
+        expiration: {
+          maxEntries: 200,
+          maxAgeSeconds: 30 * 24 * 60 * 60, // 30 days
+        },
+      },
+    },
   ],
 });
 
 const nextConfig = {
+  // Habilita src/instrumentation.ts (verifica la configuración al arrancar el servidor)
+  experimental: {
+    instrumentationHook: true,
+  },
   // Configuración de imágenes para Next.js
   images: {
     // Permitir imágenes de dominios locales y API endpoints
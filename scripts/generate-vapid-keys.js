@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+
+/**
+ * 🔔 Generador de claves VAPID para notificaciones Web Push
+ *
+ * Genera el par de claves que identifica al servidor ante los servicios
+ * de push de los navegadores (FCM, Mozilla, Apple).
+ *
+ * Uso:
+ * - Ejecutar: npm run generate-vapid
+ * - Copiar las variables a .env.local o al entorno del deploy
+ *
+ * ⚠️ Si se cambian las claves, las suscripciones existentes dejan de funcionar
+ * y los usuarios deben volver a activar las notificaciones.
+ */
+
+const webpush = require('web-push');
+
+console.log('🔔 GENERADOR DE CLAVES VAPID\n');
+
+try {
+  const { publicKey, privateKey } = webpush.generateVAPIDKeys();
+
+  console.log('✅ Claves generadas exitosamente:\n');
+  console.log('━'.repeat(60));
+  console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+  console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+  console.log('VAPID_SUBJECT=mailto:admin@tu-dominio.com');
+  console.log('━'.repeat(60));
+  console.log('\n📋 INSTRUCCIONES:');
+  console.log('1. Copia las tres líneas de arriba a las variables de entorno');
+  console.log('2. Cambia VAPID_SUBJECT por un email o URL de contacto real');
+  console.log('3. Reinicia el servidor o haz redeploy\n');
+
+  console.log('⚠️  IMPORTANTE:');
+  console.log('• NO compartas VAPID_PRIVATE_KEY públicamente');
+  console.log('• La clave pública se entrega a los navegadores, la privada nunca\n');
+
+} catch (error) {
+  console.error('❌ Error generando claves VAPID:', error.message);
+  process.exit(1);
+}
@@ -0,0 +1,238 @@
+#!/usr/bin/env node
+
+/**
+ * Script para migrar la relación Usuario.creadoPor a organizaciones
+ *
+ * Antes de las organizaciones, un admin veía los datos de los usuarios que creó y
+ * cada usuario veía los de su admin creador. Este script convierte ese grafo en
+ * organizaciones explícitas y asigna organizacionId a los datos existentes:
+ *
+ * - Cada admin (y cada usuario sin creador) obtiene su organización como owner
+ * - Cada usuario creado por un admin se suma a la organización de ese admin como grower
+ * - Cultivos, tareas y comentarios (por creadoPor) y notas (por author) sin
+ *   organizacionId pasan a la organización activa de su creador
+ *
+ * Es idempotente: los usuarios que ya tienen organización activa se respetan y
+ * solo se completan los datos que todavía no tienen organizacionId. La excepción
+ * son los usuarios creados por un admin cuya única organización es la personal que
+ * la app les creó antes de la migración (ellos como único miembro): se suman a la
+ * organización de su admin con sus datos y la organización personal se desactiva.
+ *
+ * Uso:
+ *   node scripts/migrate-organizaciones.js
+ *
+ * Opciones:
+ *   --dry-run   - Muestra lo que haría sin modificar la base de datos
+ */
+
+const mongoose = require('mongoose');
+require('dotenv').config({ path: '.env.local' });
+
+// Configuración de conexión a MongoDB (misma base principal que usa la app)
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/bruce-app';
+const DB_NAME = 'canopia_main';
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// Modelos simplificados para el script
+const Usuario = mongoose.model('Usuario', new mongoose.Schema({
+  email: String,
+  role: String,
+  creadoPor: String,
+  organizacionId: String,
+  fechaCreacion: String,
+  activo: Boolean
+}, { strict: false }), 'usuarios');
+
+const Organizacion = mongoose.model('Organizacion', new mongoose.Schema({
+  nombre: String,
+  miembros: [{
+    _id: false,
+    email: String,
+    rol: String,
+    fechaAlta: String,
+    invitadoPor: String
+  }],
+  activo: { type: Boolean, default: true },
+  fechaCreacion: String,
+  creadoPor: String
+}, { strict: false }), 'organizaciones');
+
+const sinEsquema = () => new mongoose.Schema({}, { strict: false });
+const Cultivo = mongoose.model('Cultivo', sinEsquema(), 'cultivos');
+const Tarea = mongoose.model('Tarea', sinEsquema(), 'tareas');
+const Comentario = mongoose.model('Comentario', sinEsquema(), 'comentarios');
+const Nota = mongoose.model('Nota', sinEsquema(), 'notas');
+const AccesoCultivo = mongoose.model('AccesoCultivo', sinEsquema(), 'accesosCultivo');
+
+const hoy = () => new Date().toISOString().split('T')[0];
+
+/**
+ * Conectar a MongoDB
+ */
+async function connectDB() {
+  try {
+    await mongoose.connect(MONGODB_URI.replace(/\/[^/]*$/, `/${DB_NAME}`));
+    console.log(`✅ Conectado a MongoDB (${DB_NAME})`);
+  } catch (error) {
+    console.error('❌ Error conectando a MongoDB:', error.message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Desconectar de MongoDB
+ */
+async function disconnectDB() {
+  try {
+    await mongoose.disconnect();
+    console.log('🔌 Desconectado de MongoDB');
+  } catch (error) {
+    console.error('❌ Error desconectando:', error.message);
+  }
+}
+
+/**
+ * Organización activa vigente de un usuario (si ya tiene una y sigue siendo miembro)
+ */
+async function organizacionVigente(usuario) {
+  if (!usuario.organizacionId || !mongoose.isValidObjectId(usuario.organizacionId)) return null;
+  return Organizacion.findOne({ _id: usuario.organizacionId, activo: true, 'miembros.email': usuario.email });
+}
+
+/**
+ * Crea la organización propia de un usuario, con él como owner
+ */
+async function crearOrganizacionPropia(usuario) {
+  console.log(`🏢 ${usuario.email}: organización propia (owner)`);
+  if (DRY_RUN) return { _id: `(nueva de ${usuario.email})` };
+
+  const organizacion = await Organizacion.create({
+    nombre: `Organización de ${usuario.email}`,
+    miembros: [{ email: usuario.email, rol: 'owner', fechaAlta: hoy() }],
+    activo: true,
+    fechaCreacion: hoy(),
+    creadoPor: usuario.email
+  });
+  await Usuario.updateOne({ _id: usuario._id }, { $set: { organizacionId: organizacion._id.toString() } });
+  return organizacion;
+}
+
+/**
+ * Suma un usuario a la organización de su admin creador como grower
+ */
+async function unirAOrganizacion(usuario, organizacion, admin) {
+  console.log(`👥 ${usuario.email}: grower en la organización de ${admin}`);
+  if (DRY_RUN) return organizacion;
+
+  await Organizacion.updateOne(
+    { _id: organizacion._id, 'miembros.email': { $ne: usuario.email } },
+    { $push: { miembros: { email: usuario.email, rol: 'grower', fechaAlta: hoy(), invitadoPor: admin } } }
+  );
+  await Usuario.updateOne({ _id: usuario._id }, { $set: { organizacionId: organizacion._id.toString() } });
+  return organizacion;
+}
+
+/**
+ * Indica si la organización es la personal que la app creó automáticamente para
+ * el usuario (él como único miembro) y no pertenece a ninguna otra
+ */
+async function esOrganizacionAutomatica(usuario, organizacion) {
+  if (organizacion.creadoPor !== usuario.email || organizacion.miembros.length !== 1) return false;
+  const total = await Organizacion.countDocuments({ activo: true, 'miembros.email': usuario.email });
+  return total === 1;
+}
+
+/**
+ * Mueve a un usuario (y los datos de su organización personal) a la organización
+ * de su admin creador y desactiva la organización personal
+ */
+async function reubicarEnOrganizacion(usuario, personal, organizacion, admin) {
+  console.log(`🔀 ${usuario.email}: deja su organización automática y pasa a la de ${admin}`);
+  const filtro = { organizacionId: personal._id.toString() };
+
+  const totales = [];
+  for (const Modelo of [Cultivo, Tarea, Comentario, Nota, AccesoCultivo]) {
+    const total = DRY_RUN
+      ? await Modelo.countDocuments(filtro)
+      : (await Modelo.updateMany(filtro, { $set: { organizacionId: organizacion._id.toString() } })).modifiedCount;
+    totales.push(`${total} ${Modelo.collection.name}`);
+  }
+  console.log(`   📦 ${totales.join(', ')}`);
+
+  if (!DRY_RUN) {
+    await Organizacion.updateOne({ _id: personal._id }, { $set: { activo: false } });
+  }
+  return unirAOrganizacion(usuario, organizacion, admin);
+}
+
+/**
+ * Asigna la organización a los datos del usuario que todavía no tienen una
+ */
+async function asignarDatos(email, organizacionId) {
+  const sinOrganizacion = { organizacionId: { $exists: false } };
+  const filtros = [
+    [Cultivo, { creadoPor: email, ...sinOrganizacion }],
+    [Tarea, { creadoPor: email, ...sinOrganizacion }],
+    [Comentario, { creadoPor: email, ...sinOrganizacion }],
+    [Nota, { author: email, ...sinOrganizacion }]
+  ];
+
+  const totales = [];
+  for (const [Modelo, filtro] of filtros) {
+    const total = DRY_RUN
+      ? await Modelo.countDocuments(filtro)
+      : (await Modelo.updateMany(filtro, { $set: { organizacionId } })).modifiedCount;
+    totales.push(`${total} ${Modelo.collection.name}`);
+  }
+  console.log(`   📦 ${totales.join(', ')}`);
+}
+
+/**
+ * Función principal
+ */
+async function main() {
+  await connectDB();
+
+  try {
+    if (DRY_RUN) console.log('🧪 Modo --dry-run: no se modifica la base de datos\n');
+
+    // Admins y usuarios sin creador primero: sus organizaciones reciben a los demás
+    const usuarios = await Usuario.find({ activo: true }).sort({ fechaCreacion: 1 });
+    const esRaiz = (u) => u.role === 'admin' || !u.creadoPor;
+    const ordenados = [...usuarios.filter(esRaiz), ...usuarios.filter(u => !esRaiz(u))];
+    const organizacionPorEmail = new Map();
+
+    for (const usuario of ordenados) {
+      let organizacion = await organizacionVigente(usuario);
+      const organizacionAdmin = !esRaiz(usuario) ? organizacionPorEmail.get(usuario.creadoPor) : undefined;
+
+      if (
+        organizacion && organizacionAdmin &&
+        organizacion._id.toString() !== organizacionAdmin._id.toString() &&
+        await esOrganizacionAutomatica(usuario, organizacion)
+      ) {
+        organizacion = await reubicarEnOrganizacion(usuario, organizacion, organizacionAdmin, usuario.creadoPor);
+      } else if (organizacion) {
+        console.log(`✔️  ${usuario.email}: ya tiene organización activa`);
+      } else if (organizacionAdmin) {
+        organizacion = await unirAOrganizacion(usuario, organizacionAdmin, usuario.creadoPor);
+      } else {
+        // Usuario cuyo creador ya no existe o está inactivo: queda con su propia organización
+        organizacion = await crearOrganizacionPropia(usuario);
+      }
+
+      organizacionPorEmail.set(usuario.email, organizacion);
+      await asignarDatos(usuario.email, organizacion._id.toString());
+    }
+
+    console.log(`\n✅ Migración ${DRY_RUN ? 'simulada' : 'completada'}: ${usuarios.length} usuarios procesados`);
+
+  } catch (error) {
+    console.error('❌ Error en la migración:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await disconnectDB();
+  }
+}
+
+main();
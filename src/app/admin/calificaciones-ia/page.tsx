@@ -0,0 +1,180 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { RequireRole } from '@/lib/auth/RequireAuth';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import { obtenerReporteCalificaciones } from '@/lib/services/chat';
+import type { ReporteCalificacionesIA } from '@/types/chat';
+
+/**
+ * 📊 REPORTE DE CALIFICACIONES DE LA IA - Panel de Administración
+ *
+ * Lista las respuestas del chat con calificación baja junto con la pregunta
+ * del usuario y el contexto del cultivo que se envió al proveedor de IA.
+ * Sirve para detectar patrones (contexto incompleto, prompts ambiguos) y ajustar los prompts.
+ *
+ * @returns JSX del reporte, visible solo para administradores
+ */
+export default function CalificacionesIAPage() {
+  return (
+    <RequireRole role="admin">
+      <ReporteCalificaciones />
+    </RequireRole>
+  );
+}
+
+// Opciones de filtro por calificación máxima
+const UMBRALES = [1, 2, 3] as const;
+
+function ReporteCalificaciones() {
+  const { token } = useAuth();
+  const [umbral, setUmbral] = useState<number>(2);
+  const [reporte, setReporte] = useState<ReporteCalificacionesIA | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // 🔄 CARGA DEL REPORTE al cambiar el umbral
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    obtenerReporteCalificaciones(umbral, controller.signal, token ?? undefined)
+      .then(setReporte)
+      .catch((err) => {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        setError(err instanceof Error ? err.message : 'No se pudo cargar el reporte');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [umbral, token]);
+
+  return (
+    <section className="space-y-4" data-testid="admin-calificaciones-ia">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-xl font-semibold">Calificaciones de la IA</h1>
+
+        {/* 🎚️ FILTRO POR CALIFICACIÓN MÁXIMA */}
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Mostrar respuestas con
+          <select
+            value={umbral}
+            onChange={(e) => setUmbral(Number(e.target.value))}
+            data-testid="admin-calificaciones-umbral"
+            className="rounded-lg border px-2 py-1"
+          >
+            {UMBRALES.map((valor) => (
+              <option key={valor} value={valor}>
+                {valor === 1 ? '1 estrella' : `${valor} estrellas o menos`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {loading && !reporte && (
+        <p className="text-sm text-gray-500">Cargando reporte...</p>
+      )}
+
+      {reporte && (
+        <>
+          {/* 📈 RESUMEN */}
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4" data-testid="admin-calificaciones-resumen">
+            <div className="rounded-xl border p-3">
+              <p className="text-xs text-gray-500">Respuestas calificadas</p>
+              <p className="text-2xl font-semibold">{reporte.resumen.totalCalificadas}</p>
+            </div>
+            <div className="rounded-xl border p-3">
+              <p className="text-xs text-gray-500">Promedio</p>
+              <p className="text-2xl font-semibold">
+                {reporte.resumen.promedio !== null ? `${reporte.resumen.promedio.toFixed(2)} ★` : '—'}
+              </p>
+            </div>
+            <div className="col-span-2 rounded-xl border p-3">
+              <p className="mb-1 text-xs text-gray-500">Distribución</p>
+              <div className="flex items-end gap-3 text-sm">
+                {([1, 2, 3, 4, 5] as const).map((estrellas) => (
+                  <span key={estrellas} className="text-gray-700">
+                    {estrellas}★ <strong>{reporte.resumen.distribucion[estrellas]}</strong>
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* 📝 LISTADO DE RESPUESTAS MAL CALIFICADAS */}
+          <p className="text-sm text-gray-600">
+            {reporte.total} respuesta{reporte.total === 1 ? '' : 's'} con {reporte.umbral} estrella{reporte.umbral === 1 ? '' : 's'} o menos
+            {reporte.total > reporte.respuestas.length && ` (se muestran las ${reporte.respuestas.length} más recientes)`}
+          </p>
+
+          {reporte.respuestas.length === 0 ? (
+            <div className="rounded-xl border p-6 text-center text-sm text-gray-500">
+              No hay respuestas con calificación baja.
+            </div>
+          ) : (
+            <ul className="space-y-3">
+              {reporte.respuestas.map(({ mensaje, pregunta, contexto, versionContexto }) => (
+                <li key={mensaje.id} className="space-y-3 rounded-xl border p-4" data-testid={`admin-calificacion-${mensaje.id}`}>
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500">
+                    <span className="text-base text-yellow-500">
+                      {'★'.repeat(mensaje.calificacion || 0)}
+                      <span className="text-gray-300">{'★'.repeat(5 - (mensaje.calificacion || 0))}</span>
+                    </span>
+                    <span>
+                      {contexto?.nombre ?? mensaje.cultivoId} · {mensaje.creadoPor} · {new Date(mensaje.timestamp).toLocaleString('es-ES')}
+                    </span>
+                  </div>
+
+                  {mensaje.feedback && (
+                    <p className="rounded-lg bg-yellow-50 px-3 py-2 text-sm text-yellow-900">
+                      <strong>Comentario:</strong> {mensaje.feedback}
+                    </p>
+                  )}
+
+                  <div>
+                    <p className="text-xs font-medium uppercase tracking-wide text-gray-400">Pregunta</p>
+                    <p className="whitespace-pre-wrap text-sm text-gray-800">
+                      {pregunta ? (pregunta.contenido || '(solo imágenes)') : 'No disponible'}
+                    </p>
+                  </div>
+
+                  <div>
+                    <p className="text-xs font-medium uppercase tracking-wide text-gray-400">Respuesta</p>
+                    <p className="whitespace-pre-wrap text-sm text-gray-800">{mensaje.contenido}</p>
+                  </div>
+
+                  {mensaje.tokensUsados && (
+                    <p className="text-xs text-gray-400">
+                      Tokens: {mensaje.tokensUsados.prompt} prompt · {mensaje.tokensUsados.completion} respuesta · {mensaje.tokensUsados.total} total
+                    </p>
+                  )}
+
+                  <details className="rounded-lg bg-gray-50 p-2 text-xs">
+                    <summary className="cursor-pointer font-medium text-gray-600">
+                      Contexto enviado{versionContexto ? ` (versión ${versionContexto})` : ''}
+                    </summary>
+                    {contexto ? (
+                      <pre className="mt-2 max-h-80 overflow-auto whitespace-pre-wrap break-all text-gray-700">
+                        {JSON.stringify(contexto, null, 2)}
+                      </pre>
+                    ) : (
+                      <p className="mt-2 text-gray-500">No se guardó el contexto de esta pregunta.</p>
+                    )}
+                  </details>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
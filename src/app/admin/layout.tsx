@@ -53,6 +53,14 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
             >
               Notas
             </Link>
+            {user?.role === 'admin' && (
+              <Link
+                className="underline hover:no-underline transition-all"
+                href="/admin/calificaciones-ia"
+              >
+                Calificaciones IA
+              </Link>
+            )}
             
             {/* 🔮 ESPACIO PARA FUTURAS SECCIONES */}
             {/* Aquí se pueden agregar más links como: */}
@@ -0,0 +1,116 @@
+/**
+ * API Route del reporte de calificaciones de la IA (solo administradores)
+ *
+ * Lista las respuestas de la IA con calificación baja junto con la pregunta del
+ * usuario y el ContextoCultivo que se envió, para ajustar los prompts del proveedor.
+ *
+ * Endpoints:
+ * - GET /api/admin/chat/calificaciones?umbral=2&limite=50 - Resumen y respuestas con calificación <= umbral
+ *
+ * Alcance (multi-tenancy): el admin ve sus chats y los de los usuarios que creó.
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB, getUsuarioModel, getMensajeChatModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import type { ContextoCultivo, MensajeChat, ReporteCalificacionesIA, RespuestaCalificadaIA } from '@/types/chat';
+
+// Valores por defecto del listado
+const UMBRAL_POR_DEFECTO = 2;
+const LIMITE_POR_DEFECTO = 50;
+const LIMITE_MAXIMO = 200;
+
+/**
+ * GET /api/admin/chat/calificaciones
+ * 🔒 Solo administradores (requireAuth toma el rol de la base, no del token)
+ */
+export const GET = requireAuth({ role: 'admin' })(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const UsuarioModel = getUsuarioModel(connection);
+
+    const { searchParams } = new URL(request.url);
+    const umbral = Math.min(Math.max(parseInt(searchParams.get('umbral') || '') || UMBRAL_POR_DEFECTO, 1), 5);
+    const limite = Math.min(
+      Math.max(parseInt(searchParams.get('limite') || '') || LIMITE_POR_DEFECTO, 1),
+      LIMITE_MAXIMO
+    );
+
+    // 🔒 FILTRO DE SEGURIDAD: chats del admin y de los usuarios que creó
+    const usuariosCreados = await UsuarioModel.find({ creadoPor: userEmail, activo: true }).select('email').lean();
+    const duenos = [userEmail, ...usuariosCreados.map(u => u.email)];
+
+    const MensajeChatModel = getMensajeChatModel(connection);
+    const filtroCalificadas = {
+      tipo: 'assistant',
+      activo: true,
+      calificacion: { $exists: true, $ne: null },
+      creadoPor: { $in: duenos }
+    };
+
+    // Resumen de todas las respuestas calificadas
+    const distribucionAgregada: { _id: number; cantidad: number }[] = await MensajeChatModel.aggregate([
+      { $match: filtroCalificadas },
+      { $group: { _id: '$calificacion', cantidad: { $sum: 1 } } }
+    ]);
+
+    const distribucion: ReporteCalificacionesIA['resumen']['distribucion'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    let suma = 0;
+    let totalCalificadas = 0;
+    for (const { _id: estrellas, cantidad } of distribucionAgregada) {
+      if (estrellas >= 1 && estrellas <= 5) {
+        distribucion[estrellas as 1 | 2 | 3 | 4 | 5] = cantidad;
+        suma += estrellas * cantidad;
+        totalCalificadas += cantidad;
+      }
+    }
+
+    // Respuestas con calificación baja, más recientes primero
+    const filtroBajas = { ...filtroCalificadas, calificacion: { $lte: umbral } };
+    const [bajas, total] = await Promise.all([
+      MensajeChatModel.find(filtroBajas).sort({ timestamp: -1 }).limit(limite),
+      MensajeChatModel.countDocuments(filtroBajas)
+    ]);
+
+    // Preguntas que originaron cada respuesta, con el contexto enviado
+    const idsPreguntas = bajas.map(m => m.respuestaA).filter((id): id is string => Boolean(id));
+    const preguntas = await MensajeChatModel.find({ _id: { $in: idsPreguntas }, creadoPor: { $in: duenos } })
+      .select('+contexto');
+    const preguntasPorId = new Map(preguntas.map(p => [p._id.toString(), p]));
+
+    const respuestas: RespuestaCalificadaIA[] = bajas.map((respuesta) => {
+      const pregunta = respuesta.respuestaA ? preguntasPorId.get(respuesta.respuestaA) : undefined;
+      return {
+        mensaje: respuesta.toJSON() as MensajeChat,
+        pregunta: pregunta && {
+          id: pregunta._id.toString(),
+          contenido: pregunta.contenido,
+          timestamp: pregunta.timestamp,
+          tipoContenido: pregunta.tipoContenido
+        },
+        contexto: pregunta?.contexto as ContextoCultivo | undefined,
+        versionContexto: pregunta?.versionContexto
+      };
+    });
+
+    const reporte: ReporteCalificacionesIA = {
+      resumen: {
+        totalCalificadas,
+        promedio: totalCalificadas > 0 ? Math.round((suma / totalCalificadas) * 100) / 100 : null,
+        distribucion
+      },
+      umbral,
+      respuestas,
+      total
+    };
+
+    return NextResponse.json({ success: true, data: reporte });
+
+  } catch (error) {
+    console.error('Error en GET /api/admin/chat/calificaciones:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo generar el reporte de calificaciones' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,66 @@
+/**
+ * 🔑 OLVIDÉ MI CONTRASEÑA - Pedido de enlace de restablecimiento
+ *
+ * Ruta: POST /api/auth/forgot-password
+ * Body: { email: string }
+ *
+ * Si el email pertenece a un usuario activo se le envía un enlace de un solo uso
+ * (vence en 1 hora). La respuesta es siempre la misma para no revelar qué
+ * emails tienen cuenta, aunque falle el envío. Los pedidos se limitan por email
+ * y por IP (429 con code 'limite_envios').
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import Usuario from '@/lib/models/Usuario';
+import { enviarEmailResetPassword } from '@/lib/auth/emailsCuenta';
+import { ipDeRequest, registrarPedidoEnvio, respuestaLimiteEnvios } from '@/lib/auth/limiteEnvios';
+
+const MENSAJE_GENERICO = 'Si el email tiene una cuenta, te enviamos un enlace para restablecer la contraseña.';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+
+    if (!email || typeof email !== 'string' || !email.includes('@')) {
+      return NextResponse.json(
+        { success: false, error: 'Email inválido' },
+        { status: 400 }
+      );
+    }
+
+    // ⏱️ Límite por email y por IP (se cuenta antes de buscar la cuenta)
+    const reintentarEn = await registrarPedidoEnvio('resetPassword', email, ipDeRequest(request));
+    if (reintentarEn) return respuestaLimiteEnvios(reintentarEn);
+
+    await connectDB();
+
+    // 🔑 Token nuevo (reemplaza al anterior si lo había). Un fallo del envío solo
+    //    se registra: responder distinto revelaría que el email tiene cuenta
+    try {
+      const emitido = await Usuario.emitirToken(email, 'resetPassword');
+      if (emitido) {
+        await enviarEmailResetPassword(emitido.usuario.email, emitido.token);
+        console.log('🔑 Enlace de restablecimiento enviado a:', emitido.usuario.email);
+      }
+    } catch (emailError) {
+      console.error('🚨 No se pudo enviar el enlace de restablecimiento:', emailError);
+    }
+
+    return NextResponse.json({ success: true, message: MENSAJE_GENERICO });
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    console.error('🚨 Error en forgot-password:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
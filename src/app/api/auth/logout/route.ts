@@ -0,0 +1,30 @@
+/**
+ * 🚪 CIERRE DE SESIÓN
+ *
+ * Ruta: POST /api/auth/logout
+ *
+ * Revoca la sesión del token de refresco (sus tokens de acceso dejan de aceptarse
+ * en las API routes) y borra las cookies de sesión. Responde 200 aunque no haya
+ * sesión, para que el cliente siempre pueda limpiar su estado.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revocarSesion, borrarCookiesSesion } from '@/lib/auth/sesiones';
+import { getRefreshTokenFromCookies } from '@/lib/auth/storage';
+
+export async function POST(request: NextRequest) {
+  const response = NextResponse.json({ success: true, message: 'Sesión cerrada' });
+  borrarCookiesSesion(response);
+
+  try {
+    const tokenRefresco = getRefreshTokenFromCookies(request);
+    if (tokenRefresco) {
+      await revocarSesion(tokenRefresco, 'logout');
+    }
+  } catch (error) {
+    // Las cookies se borran igual; la sesión vencerá sola
+    console.error('🚨 Error revocando sesión en logout:', error);
+  }
+
+  return response;
+}
@@ -0,0 +1,81 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { rotarSesion } from '@/lib/auth/sesiones';
+import { GET } from './route';
+
+vi.mock('@/lib/auth/sesiones', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/auth/sesiones')>(),
+  rotarSesion: vi.fn()
+}));
+
+const rotar = vi.mocked(rotarSesion);
+
+/**
+ * GET /api/auth/refresh con las cookies indicadas
+ */
+const pedir = (next: string, cookies: Record<string, string> = { 'refresh-token': 'sid.secreto' }) =>
+  GET(new NextRequest(`https://canopia.test/api/auth/refresh?next=${encodeURIComponent(next)}`, {
+    headers: { cookie: Object.entries(cookies).map(([k, v]) => `${k}=${v}`).join('; ') }
+  }));
+
+/**
+ * Ruta (con query) a la que redirige la respuesta
+ */
+const destinoDe = (response: Response) => {
+  const url = new URL(response.headers.get('location')!);
+  return `${url.pathname}${url.search}`;
+};
+
+describe('GET /api/auth/refresh', () => {
+  beforeEach(() => {
+    rotar.mockReset();
+  });
+
+  it('vuelve a next con las cookies nuevas al renovar', async () => {
+    rotar.mockResolvedValue({ tokenAcceso: 'acceso', tokenRefresco: 'sid.nuevo', usuario: { email: 'ana@canopia.test', role: 'user' } });
+
+    const response = await pedir('/cultivo/abc');
+
+    expect(destinoDe(response)).toBe('/cultivo/abc');
+    expect(response.cookies.get('auth-token')?.value).toBe('acceso');
+    expect(response.cookies.get('refresh-token')?.value).toBe('sid.nuevo');
+  });
+
+  it('con una rotación concurrente vuelve a next sin tocar las cookies de sesión', async () => {
+    rotar.mockResolvedValue('concurrente');
+
+    const response = await pedir('/cultivo/abc');
+
+    expect(destinoDe(response)).toBe('/cultivo/abc');
+    expect(response.cookies.get('auth-token')).toBeUndefined();
+    expect(response.cookies.get('refresh-token')).toBeUndefined();
+    expect(response.cookies.get('refresh-reintento')?.value).toBe('1');
+  });
+
+  it('si la rotación sigue siendo concurrente al reintentar va al login sin cerrar la sesión', async () => {
+    rotar.mockResolvedValue('concurrente');
+
+    const response = await pedir('/cultivo/abc', { 'refresh-token': 'sid.secreto', 'refresh-reintento': '1' });
+
+    expect(destinoDe(response)).toBe('/login?next=%2Fcultivo%2Fabc');
+    expect(response.cookies.get('refresh-token')).toBeUndefined();
+  });
+
+  it('con una sesión inválida va al login y borra las cookies', async () => {
+    rotar.mockResolvedValue(null);
+
+    const response = await pedir('/cultivo/abc');
+
+    expect(destinoDe(response)).toBe('/login?next=%2Fcultivo%2Fabc');
+    expect(response.cookies.get('auth-token')?.value).toBe('');
+    expect(response.cookies.get('refresh-token')?.value).toBe('');
+  });
+
+  it('nunca redirige a destinos externos ni de vuelta a la renovación', async () => {
+    rotar.mockResolvedValue('concurrente');
+
+    expect(destinoDe(await pedir('//evil.test'))).toBe('/cultivo');
+    expect(destinoDe(await pedir('/api/auth/refresh?next=/cultivo'))).toBe('/cultivo');
+  });
+});
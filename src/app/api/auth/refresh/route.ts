@@ -0,0 +1,118 @@
+/**
+ * 🔄 RENOVACIÓN DE SESIÓN - Rotación del token de refresco
+ *
+ * Endpoints:
+ * - POST /api/auth/refresh - Renueva la sesión desde el cliente (AuthProvider)
+ *   Lee la cookie refresh-token; responde { success, token, expiresIn, user }
+ * - GET /api/auth/refresh?next=/ruta - Renovación por navegación (la usa el middleware)
+ *   Si la sesión es válida vuelve a `next`; si no, redirige a /login?next=
+ *
+ * En ambos casos el token de refresco se rota; uno ya usado revoca la sesión.
+ * Si otra pestaña lo acaba de rotar (margen de concurrencia) no se borran las cookies:
+ * la respuesta de esa pestaña trae la cookie nueva. POST responde 409 con
+ * code 'rotacion_concurrente' para que el cliente reintente; GET vuelve a `next`
+ * para que la página use la cookie nueva. Una cookie de reintento de vida corta
+ * evita el bucle si esa cookie no llega: el segundo intento va al login sin cerrar la sesión.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { rotarSesion, aplicarCookiesSesion, borrarCookiesSesion } from '@/lib/auth/sesiones';
+import { getRefreshTokenFromCookies } from '@/lib/auth/storage';
+import { DURACION_TOKEN_ACCESO } from '@/lib/auth/tokens';
+import { destinoSeguro, urlLogin } from '@/lib/auth/redireccion';
+
+// Marca de que la navegación ya volvió a `next` tras una rotación concurrente
+const COOKIE_REINTENTO = 'refresh-reintento';
+const DURACION_REINTENTO = 10; // segundos
+
+/**
+ * POST /api/auth/refresh - Devuelve un token de acceso nuevo
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tokenRefresco = getRefreshTokenFromCookies(request);
+    const renovada = tokenRefresco ? await rotarSesion(tokenRefresco) : null;
+
+    if (renovada === 'concurrente') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Renovación en curso',
+          message: 'La sesión se está renovando en otra pestaña. Intenta de nuevo.',
+          code: 'rotacion_concurrente'
+        },
+        { status: 409 }
+      );
+    }
+
+    if (!renovada) {
+      const response = NextResponse.json(
+        { success: false, error: 'Sesión expirada', message: 'Tu sesión ha expirado. Por favor inicia sesión nuevamente.' },
+        { status: 401 }
+      );
+      borrarCookiesSesion(response);
+      return response;
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      token: renovada.tokenAcceso,
+      expiresIn: DURACION_TOKEN_ACCESO,
+      user: renovada.usuario
+    });
+    aplicarCookiesSesion(response, renovada);
+    return response;
+
+  } catch (error) {
+    console.error('🚨 Error renovando sesión:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/auth/refresh?next= - Renueva y vuelve a la página pedida
+ * Nunca redirige a otra ruta que pase por aquí, así que no puede generar bucles
+ */
+export async function GET(request: NextRequest) {
+  const destino = destinoSeguro(request.nextUrl.searchParams.get('next'));
+
+  try {
+    const tokenRefresco = getRefreshTokenFromCookies(request);
+    const renovada = tokenRefresco ? await rotarSesion(tokenRefresco) : null;
+
+    // Otra pestaña acaba de renovar: volver a `next` sin tocar las cookies de sesión,
+    // así la página usa la cookie nueva de esa pestaña (una sola vez, para no generar bucles)
+    if (renovada === 'concurrente') {
+      if (request.cookies.get(COOKIE_REINTENTO)) {
+        return NextResponse.redirect(new URL(urlLogin(destino), request.url));
+      }
+      const response = NextResponse.redirect(new URL(destino, request.url));
+      response.cookies.set(COOKIE_REINTENTO, '1', {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/api/auth/refresh',
+        maxAge: DURACION_REINTENTO
+      });
+      return response;
+    }
+
+    if (!renovada) {
+      const response = NextResponse.redirect(new URL(urlLogin(destino), request.url));
+      borrarCookiesSesion(response);
+      return response;
+    }
+
+    const response = NextResponse.redirect(new URL(destino, request.url));
+    aplicarCookiesSesion(response, renovada);
+    response.cookies.set(COOKIE_REINTENTO, '', { path: '/api/auth/refresh', maxAge: 0 });
+    return response;
+
+  } catch (error) {
+    console.error('🚨 Error renovando sesión:', error);
+    return NextResponse.redirect(new URL(urlLogin(destino), request.url));
+  }
+}
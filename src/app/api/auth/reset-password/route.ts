@@ -0,0 +1,77 @@
+/**
+ * 🔑 RESTABLECER CONTRASEÑA - Consume el token del email
+ *
+ * Ruta: POST /api/auth/reset-password
+ * Body: { token: string, password: string }
+ *
+ * El token es de un solo uso: se borra al consumirlo aunque el resto falle.
+ * Al cambiar la contraseña:
+ * - El email queda verificado (el usuario demostró que lo recibe)
+ * - Se revocan todas las sesiones abiertas; hay que volver a iniciar sesión
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import Usuario from '@/lib/models/Usuario';
+import { revocarSesionesUsuario } from '@/lib/auth/sesiones';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json();
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Falta el token de restablecimiento' },
+        { status: 400 }
+      );
+    }
+
+    if (!password || typeof password !== 'string' || password.length < 6) {
+      return NextResponse.json(
+        { success: false, error: 'La contraseña debe tener al menos 6 caracteres' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    // 🔒 Consumo atómico: un segundo uso del mismo enlace ya no encuentra el token
+    const usuario = await Usuario.consumirToken(token, 'resetPassword');
+    if (!usuario) {
+      return NextResponse.json(
+        { success: false, error: 'El enlace no es válido o ya venció. Pedí uno nuevo.', code: 'token_invalido' },
+        { status: 400 }
+      );
+    }
+
+    // El hook pre-save hashea la contraseña nueva
+    usuario.password = password;
+    if (usuario.emailVerificado === false) {
+      usuario.emailVerificado = true;
+      usuario.fechaVerificacionEmail = new Date().toISOString();
+    }
+    await usuario.save();
+
+    const revocadas = await revocarSesionesUsuario(usuario.email, 'cambio_password');
+    console.log(`🔑 Contraseña restablecida para ${usuario.email} (${revocadas} sesiones revocadas)`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Contraseña actualizada. Ya podés iniciar sesión con la nueva contraseña.'
+    });
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    console.error('🚨 Error en reset-password:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
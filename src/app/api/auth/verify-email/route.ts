@@ -0,0 +1,129 @@
+/**
+ * ✉️ VERIFICACIÓN DE EMAIL
+ *
+ * Endpoints:
+ * - GET /api/auth/verify-email?token= - Enlace del email; verifica y redirige a
+ *   /login?status=email-verificado (o email-token-invalido)
+ * - POST /api/auth/verify-email { token } - Verifica desde el cliente
+ * - POST /api/auth/verify-email { email } - Reenvía el enlace; responde siempre
+ *   lo mismo para no revelar qué emails tienen cuenta (aunque falle el envío) y
+ *   limita los pedidos por email y por IP (429 con code 'limite_envios')
+ *
+ * El token es de un solo uso y vence a las 48 horas.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import Usuario from '@/lib/models/Usuario';
+import { enviarEmailVerificacion } from '@/lib/auth/emailsCuenta';
+import { ipDeRequest, registrarPedidoEnvio, respuestaLimiteEnvios } from '@/lib/auth/limiteEnvios';
+
+/**
+ * Consume el token y marca el email como verificado
+ * @returns Email verificado, o null si el token no es válido o venció
+ */
+async function verificarEmail(token: string): Promise<string | null> {
+  await connectDB();
+
+  const usuario = await Usuario.consumirToken(token, 'verificacionEmail');
+  if (!usuario) return null;
+
+  usuario.emailVerificado = true;
+  usuario.fechaVerificacionEmail = new Date().toISOString();
+  await usuario.save();
+
+  console.log('✉️ Email verificado:', usuario.email);
+  return usuario.email;
+}
+
+/**
+ * GET /api/auth/verify-email?token= - Enlace recibido por email
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+
+  try {
+    const email = token ? await verificarEmail(token) : null;
+    const status = email ? 'email-verificado' : 'email-token-invalido';
+    return NextResponse.redirect(new URL(`/login?status=${status}`, request.url));
+  } catch (error) {
+    console.error('🚨 Error verificando email:', error);
+    return NextResponse.redirect(new URL('/login?status=email-token-invalido', request.url));
+  }
+}
+
+/**
+ * POST /api/auth/verify-email - Verificar con { token } o reenviar con { email }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token, email } = await request.json();
+
+    // ✅ VERIFICACIÓN
+    if (token) {
+      if (typeof token !== 'string') {
+        return NextResponse.json(
+          { success: false, error: 'Token inválido' },
+          { status: 400 }
+        );
+      }
+
+      const verificado = await verificarEmail(token);
+      if (!verificado) {
+        return NextResponse.json(
+          { success: false, error: 'El enlace no es válido o ya venció. Pedí uno nuevo.', code: 'token_invalido' },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({ success: true, data: { email: verificado }, message: 'Email verificado' });
+    }
+
+    // 📨 REENVÍO
+    if (!email || typeof email !== 'string' || !email.includes('@')) {
+      return NextResponse.json(
+        { success: false, error: 'Se requiere el token o un email válido' },
+        { status: 400 }
+      );
+    }
+
+    // ⏱️ Límite por email y por IP (se cuenta antes de buscar la cuenta)
+    const reintentarEn = await registrarPedidoEnvio('verificacionEmail', email, ipDeRequest(request));
+    if (reintentarEn) return respuestaLimiteEnvios(reintentarEn);
+
+    await connectDB();
+
+    // Solo se reenvía a cuentas pendientes de verificación; un fallo del envío
+    // solo se registra para no revelar qué emails tienen cuenta
+    try {
+      const pendiente = await Usuario.exists({ email: email.toLowerCase().trim(), activo: true, emailVerificado: false });
+      if (pendiente) {
+        const emitido = await Usuario.emitirToken(email, 'verificacionEmail');
+        if (emitido) {
+          await enviarEmailVerificacion(emitido.usuario.email, emitido.token);
+        }
+      }
+    } catch (emailError) {
+      console.error('🚨 No se pudo reenviar el enlace de verificación:', emailError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Si la cuenta está pendiente de verificación, te enviamos un enlace nuevo.'
+    });
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    console.error('🚨 Error en verify-email:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * API Route para calificar una respuesta de la IA
+ *
+ * Endpoints:
+ * - PUT /api/chat/mensajes/[id]/calificacion - Califica la respuesta (1-5) con feedback opcional
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getMensajeChatModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+
+/**
+ * Extrae el ID del mensaje desde la URL (/api/chat/mensajes/[id]/calificacion)
+ */
+function extraerMensajeId(request: Request): string | undefined {
+  const segmentos = new URL(request.url).pathname.split('/');
+  return segmentos[segmentos.indexOf('mensajes') + 1];
+}
+
+/**
+ * PUT /api/chat/mensajes/[id]/calificacion
+ *
+ * Body: { calificacion: 1-5, feedback?: string }
+ */
+export const PUT = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const id = extraerMensajeId(request);
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del mensaje no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const { calificacion, feedback } = await request.json();
+
+    if (!Number.isInteger(calificacion) || calificacion < 1 || calificacion > 5) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'La calificación debe ser un número entero entre 1 y 5' },
+        { status: 400 }
+      );
+    }
+    if (feedback !== undefined && feedback !== null && typeof feedback !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El feedback debe ser texto' },
+        { status: 400 }
+      );
+    }
+
+    const mensaje = await getMensajeChatModel(connection).findOne({
+      _id: id,
+      creadoPor: userEmail, // 🔒 FILTRO DE SEGURIDAD
+      activo: true
+    });
+
+    if (!mensaje) {
+      return NextResponse.json(
+        { success: false, error: 'Mensaje no encontrado', message: 'No se encontró el mensaje o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    if (mensaje.tipo !== 'assistant') {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Solo se pueden calificar respuestas de IA' },
+        { status: 400 }
+      );
+    }
+
+    const calificado = await mensaje.calificar(calificacion, feedback?.trim() || undefined);
+
+    return NextResponse.json({
+      success: true,
+      data: calificado.toJSON(),
+      message: 'Calificación guardada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en PUT /api/chat/mensajes/[id]/calificacion:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo guardar la calificación' },
+      { status: 500 }
+    );
+  }
+});
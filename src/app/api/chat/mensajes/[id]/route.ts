@@ -0,0 +1,174 @@
+/**
+ * API Route para un mensaje individual del chat con IA
+ *
+ * Endpoints:
+ * - GET /api/chat/mensajes/[id] - Obtiene un mensaje
+ * - PATCH /api/chat/mensajes/[id] - Marca o desmarca el mensaje como destacado
+ * - DELETE /api/chat/mensajes/[id] - Archiva el mensaje
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getMensajeChatModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+
+/**
+ * Campos del mensaje que puede modificar el cliente
+ * (contenido, tokens, errores y cancelaciones los registra el servidor)
+ */
+const CAMPOS_EDITABLES = [
+  'destacado'
+] as const;
+
+/**
+ * Extrae y valida el ID del mensaje desde la URL
+ */
+function extraerMensajeId(request: Request): string | null {
+  const id = new URL(request.url).pathname.split('/').pop();
+  return id && mongoose.Types.ObjectId.isValid(id) ? id : null;
+}
+
+/**
+ * Respuesta 400 común para IDs inválidos
+ */
+function idInvalido() {
+  return NextResponse.json(
+    { success: false, error: 'ID inválido', message: 'El ID del mensaje no tiene un formato válido' },
+    { status: 400 }
+  );
+}
+
+/**
+ * Respuesta 404 común cuando el mensaje no existe o no es del usuario
+ */
+function mensajeNoEncontrado() {
+  return NextResponse.json(
+    { success: false, error: 'Mensaje no encontrado', message: 'No se encontró el mensaje o no tienes permisos' },
+    { status: 404 }
+  );
+}
+
+/**
+ * GET /api/chat/mensajes/[id]
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const id = extraerMensajeId(request);
+    if (!id) return idInvalido();
+
+    const mensaje = await getMensajeChatModel(connection).findOne({
+      _id: id,
+      creadoPor: userEmail, // 🔒 FILTRO DE SEGURIDAD
+      activo: true
+    });
+
+    if (!mensaje) return mensajeNoEncontrado();
+
+    return NextResponse.json({ success: true, data: mensaje.toJSON() });
+
+  } catch (error) {
+    console.error('Error en GET /api/chat/mensajes/[id]:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo cargar el mensaje' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH /api/chat/mensajes/[id]
+ */
+export const PATCH = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const id = extraerMensajeId(request);
+    if (!id) return idInvalido();
+
+    const datos = await request.json();
+    const mensaje = await getMensajeChatModel(connection).findOne({
+      _id: id,
+      creadoPor: userEmail, // 🔒 FILTRO DE SEGURIDAD
+      activo: true
+    });
+
+    if (!mensaje) return mensajeNoEncontrado();
+
+    for (const campo of CAMPOS_EDITABLES) {
+      if (campo in datos) mensaje.set(campo, datos[campo] ?? undefined);
+    }
+
+    const actualizado = await mensaje.save();
+
+    return NextResponse.json({
+      success: true,
+      data: actualizado.toJSON(),
+      message: 'Mensaje actualizado exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en PATCH /api/chat/mensajes/[id]:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo actualizar el mensaje' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/chat/mensajes/[id]
+ *
+ * Archiva el mensaje (activo = false) en lugar de borrarlo
+ */
+export const DELETE = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const id = extraerMensajeId(request);
+    if (!id) return idInvalido();
+
+    const archivado = await getMensajeChatModel(connection).findOneAndUpdate(
+      { _id: id, creadoPor: userEmail, activo: true }, // 🔒 FILTRO DE SEGURIDAD
+      { activo: false },
+      { new: true }
+    );
+
+    if (!archivado) return mensajeNoEncontrado();
+
+    return NextResponse.json({
+      success: true,
+      data: archivado.toJSON(),
+      message: 'Mensaje eliminado exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/chat/mensajes/[id]:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo eliminar el mensaje' },
+      { status: 500 }
+    );
+  }
+});
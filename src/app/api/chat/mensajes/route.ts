@@ -0,0 +1,236 @@
+/**
+ * API Route para el historial del chat con IA con MongoDB
+ *
+ * Persiste los mensajes del usuario y las respuestas de la IA por cultivo,
+ * para que la conversación sobreviva a recargas y cambios de dispositivo.
+ * El historial es personal: cada miembro de la organización o invitado al
+ * cultivo tiene su propia conversación. Los invitados con rol viewer solo
+ * pueden consultarla.
+ *
+ * Endpoints:
+ * - GET /api/chat/mensajes?cultivoId=...&limite=50&antesDe=ISO - Historial del cultivo (orden cronológico)
+ * - POST /api/chat/mensajes - Guarda un mensaje del usuario con el contexto enviado
+ *   (las respuestas de la IA y sus tokens los guarda /api/chat/stream)
+ * - DELETE /api/chat/mensajes?cultivoId=... - Archiva todo el historial del cultivo
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getMensajeChatModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+import type { ImagenMensaje, MensajeChatEntrada } from '@/types/chat';
+
+// Límites de paginación del historial
+const LIMITE_POR_DEFECTO = 50;
+const LIMITE_MAXIMO = 200;
+
+/**
+ * Busca el cultivo si es de la organización del usuario o está compartido con él
+ * @returns El cultivo y los permisos del usuario, o null
+ */
+async function cultivoAccesible(connection: mongoose.Connection, cultivoId: string, userEmail: string) {
+  const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+  return buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+}
+
+/**
+ * Respuesta 404 común cuando el cultivo no existe o no es accesible
+ */
+function cultivoNoEncontrado() {
+  return NextResponse.json(
+    { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para ver su chat' },
+    { status: 404 }
+  );
+}
+
+/**
+ * Valida el parámetro cultivoId de la query
+ */
+function cultivoIdDeQuery(request: Request): string | null {
+  const cultivoId = new URL(request.url).searchParams.get('cultivoId');
+  return cultivoId && mongoose.Types.ObjectId.isValid(cultivoId) ? cultivoId : null;
+}
+
+/**
+ * Quita los datos base64 duplicados de las imágenes (la URL ya los contiene)
+ */
+function imagenesParaGuardar(imagenes?: ImagenMensaje[]): ImagenMensaje[] | undefined {
+  return imagenes?.map(imagen => ({ ...imagen, base64: undefined }));
+}
+
+/**
+ * GET /api/chat/mensajes?cultivoId=...
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const { searchParams } = new URL(request.url);
+
+    const cultivoId = cultivoIdDeQuery(request);
+    if (!cultivoId) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'Se requiere un cultivoId válido' },
+        { status: 400 }
+      );
+    }
+
+    if (!await cultivoAccesible(connection, cultivoId, userEmail)) {
+      return cultivoNoEncontrado();
+    }
+
+    const limite = Math.min(
+      Math.max(parseInt(searchParams.get('limite') || '') || LIMITE_POR_DEFECTO, 1),
+      LIMITE_MAXIMO
+    );
+    const antesDe = searchParams.get('antesDe');
+
+    const MensajeChatModel = getMensajeChatModel(connection);
+    const consulta = MensajeChatModel.findHistorialByCultivo(cultivoId, limite)
+      .where({ creadoPor: userEmail }); // 🔒 FILTRO DE SEGURIDAD
+    if (antesDe) consulta.where({ timestamp: { $lt: antesDe } });
+
+    // findHistorialByCultivo devuelve los más recientes primero; el chat los muestra en orden cronológico
+    const mensajes = (await consulta).reverse();
+
+    const total = await MensajeChatModel.countDocuments({ cultivoId, creadoPor: userEmail, activo: true });
+
+    return NextResponse.json({
+      success: true,
+      data: mensajes.map(mensaje => mensaje.toJSON()),
+      total
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/chat/mensajes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo cargar el historial del chat' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/chat/mensajes
+ *
+ * Solo acepta mensajes del usuario: tokens, errores y cancelaciones los registra el servidor
+ */
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const datos: MensajeChatEntrada = await request.json();
+
+    if (!datos.cultivoId || !mongoose.Types.ObjectId.isValid(datos.cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'Se requiere un cultivoId válido' },
+        { status: 400 }
+      );
+    }
+
+    if (datos.tipo !== 'user') {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Solo se pueden guardar mensajes del usuario' },
+        { status: 400 }
+      );
+    }
+
+    const accesible = await cultivoAccesible(connection, datos.cultivoId, userEmail);
+    if (!accesible) {
+      return cultivoNoEncontrado();
+    }
+    if (!accesible.permisos.comentar) {
+      return respuestaSinPermisos('Tu rol no permite usar el chat de este cultivo');
+    }
+
+    const MensajeChatModel = getMensajeChatModel(connection);
+
+    const mensaje = new MensajeChatModel({
+      cultivoId: datos.cultivoId,
+      tipo: 'user',
+      contenido: datos.contenido,
+      imagenes: imagenesParaGuardar(datos.imagenes),
+      contextoEnviado: Boolean(datos.contexto),
+      versionContexto: datos.versionContexto,
+      contexto: datos.contexto,
+      usuarioId: userEmail,
+      creadoPor: userEmail // 🔒 Se asigna al usuario actual
+    });
+
+    const guardado = await mensaje.save();
+
+    return NextResponse.json({
+      success: true,
+      data: guardado.toJSON(),
+      message: 'Mensaje guardado exitosamente'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error en POST /api/chat/mensajes:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo guardar el mensaje' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/chat/mensajes?cultivoId=...
+ *
+ * Archiva (activo = false) todos los mensajes del cultivo; los destacados se conservan
+ */
+export const DELETE = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = cultivoIdDeQuery(request);
+    if (!cultivoId) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'Se requiere un cultivoId válido' },
+        { status: 400 }
+      );
+    }
+
+    if (!await cultivoAccesible(connection, cultivoId, userEmail)) {
+      return cultivoNoEncontrado();
+    }
+
+    const resultado = await getMensajeChatModel(connection).updateMany(
+      { cultivoId, creadoPor: userEmail, activo: true, destacado: { $ne: true } }, // 🔒 FILTRO DE SEGURIDAD
+      { activo: false }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { archivados: resultado.modifiedCount },
+      message: 'Historial del chat borrado exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/chat/mensajes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo borrar el historial del chat' },
+      { status: 500 }
+    );
+  }
+});
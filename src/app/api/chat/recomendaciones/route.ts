@@ -0,0 +1,126 @@
+/**
+ * API Route de recomendaciones estructuradas de objetivos del cultivo
+ *
+ * Pide a la IA, en una sola consulta, todos los objetivos del cultivo (pH, EC, agua,
+ * temperatura y humedad por fase) en JSON, cada uno con justificación y confianza.
+ * No modifica el cultivo: el usuario revisa la diferencia con los valores actuales y
+ * los valores aceptados se guardan con PATCH /api/cultivos/[id] (auditado en editadoPor).
+ *
+ * Endpoints:
+ * - POST /api/chat/recomendaciones - Body: { contexto: ContextoCultivo }
+ *
+ * La consulta consume la cuota mensual de IA del usuario (429 con ErrorCuotaIA si está agotada)
+ * y requiere suscripción activa o prueba vigente (402).
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerProveedorIA, ErrorProveedorIA } from '@/lib/services/proveedoresIA';
+import { aplicarPresupuestoContexto, excedePresupuestoContexto, MAX_CARACTERES_CONTEXTO } from '@/lib/utils/contextoCultivo';
+import { reservarCuotaIA, crearErrorCuotaIA, registrarConsumoIA } from '@/lib/utils/cuotasIA';
+import { construirPedidoRecomendacion, interpretarRecomendacion } from '@/lib/utils/recomendacionesIA';
+import type { ApiResponseChat, ContextoCultivo } from '@/types/chat';
+import type { ErrorCuotaIA } from '@/types/cuotaIA';
+import type { RecomendacionObjetivosIA } from '@/types/recomendacionIA';
+
+/**
+ * POST /api/chat/recomendaciones
+ */
+export const POST = requireAuth({ subscription: true })(async (request: Request, { email: userEmail }) => {
+  try {
+    const proveedor = obtenerProveedorIA();
+    if (!proveedor) {
+      return NextResponse.json<ApiResponseChat>({
+        success: false,
+        error: 'El servicio de inteligencia artificial no está configurado.',
+        message: 'Definir AI_PROVIDER y las credenciales del proveedor (N8N_CHAT_WEBHOOK_URL u OPENAI_API_KEY)'
+      }, { status: 503 });
+    }
+
+    const { contexto } = await request.json() as { contexto?: ContextoCultivo };
+    if (!contexto?.nombre) {
+      return NextResponse.json<ApiResponseChat>({
+        success: false,
+        error: 'Faltan datos requeridos: contexto del cultivo'
+      }, { status: 400 });
+    }
+
+    // 🔒 El contexto lo arma el cliente: recortarlo al máximo y rechazarlo si igual no entra
+    const contextoAcotado = aplicarPresupuestoContexto(contexto);
+    if (excedePresupuestoContexto(contextoAcotado)) {
+      return NextResponse.json<ApiResponseChat>({
+        success: false,
+        error: 'El contexto del cultivo es demasiado grande',
+        message: `El contexto no puede superar los ${MAX_CARACTERES_CONTEXTO} caracteres`
+      }, { status: 413 });
+    }
+
+    // 🔒 Verificar y reservar la cuota mensual del usuario
+    const connection = await connectToUserDB(userEmail);
+    const { uso, recursoAgotado } = await reservarCuotaIA(connection, userEmail);
+    if (recursoAgotado) {
+      return NextResponse.json<ErrorCuotaIA>(crearErrorCuotaIA(recursoAgotado, uso), { status: 429 });
+    }
+
+    const respuesta = await proveedor.generarRespuesta({
+      message: construirPedidoRecomendacion(),
+      cultivoContext: contextoAcotado,
+      email: userEmail,
+      formatoRespuesta: 'json'
+    }, request.signal);
+
+    // El consumo se registra aunque la respuesta no se pueda interpretar: los tokens ya se gastaron
+    await registrarConsumoIA(connection, userEmail, respuesta.tokens)
+      .catch(err => console.error('⚠️ No se pudo registrar el consumo de IA:', err));
+
+    let interpretada: Pick<RecomendacionObjetivosIA, 'objetivos' | 'resumen'>;
+    try {
+      interpretada = interpretarRecomendacion(respuesta.contenido);
+    } catch (error) {
+      console.error('❌ Recomendación de IA inválida:', respuesta.contenido.substring(0, 200));
+      return NextResponse.json<ApiResponseChat>({
+        success: false,
+        error: 'La IA no devolvió una recomendación válida. Por favor intenta de nuevo.',
+        message: error instanceof Error ? error.message : 'Formato de respuesta inesperado'
+      }, { status: 502 });
+    }
+
+    const recomendacion: RecomendacionObjetivosIA = {
+      ...interpretada,
+      proveedor: respuesta.proveedor,
+      modelo: respuesta.modelo,
+      tokens: respuesta.tokens,
+      generadaEn: new Date().toISOString()
+    };
+
+    return NextResponse.json<ApiResponseChat<RecomendacionObjetivosIA>>({
+      success: true,
+      data: recomendacion,
+      message: 'Recomendación generada',
+      tokens: respuesta.tokens,
+      proveedor: respuesta.proveedor,
+      modelo: respuesta.modelo
+    });
+
+  } catch (error) {
+    console.error('❌ Error en POST /api/chat/recomendaciones:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json<ApiResponseChat>({
+        success: false,
+        error: 'Datos inválidos',
+        message: 'El formato de los datos enviados no es válido'
+      }, { status: 400 });
+    }
+
+    const isTimeout = error instanceof ErrorProveedorIA && error.esTimeout;
+    return NextResponse.json<ApiResponseChat>({
+      success: false,
+      error: isTimeout
+        ? 'La recomendación está tomando más tiempo de lo esperado. Por favor intenta de nuevo.'
+        : 'Error al comunicarse con el servicio de inteligencia artificial.',
+      message: error instanceof Error ? error.message : 'Error desconocido'
+    }, { status: isTimeout ? 504 : 502 });
+  }
+});
@@ -1,28 +1,41 @@
 /**
  * API Route para Chat con IA especializada en Cannabis Medicinal
- * Integra con n8n para orquestar la lógica de IA y procesamiento de imágenes
- * 
- * Esta API actúa como un proxy hacia el workflow de n8n que maneja:
- * - Análisis de contexto del cultivo
- * - Procesamiento de imágenes (Cloudinary + Vision)
- * - Generación de respuestas con LLM (OpenAI/Anthropic gestionado en n8n)
+ *
+ * Delega la generación de la respuesta al proveedor de IA configurado
+ * (AI_PROVIDER: n8n, openai o local; ver src/lib/services/proveedoresIA.ts)
+ * y devuelve siempre el mismo contrato: texto, tokens, proveedor y modelo.
+ *
+ * Requiere autenticación: el consumo se descuenta de la cuota mensual del usuario
+ * (ver src/lib/utils/cuotasIA.ts). Con la cuota agotada responde 429 con un ErrorCuotaIA.
+ * Con la prueba vencida o sin suscripción activa responde 402 (requireAuth).
+ * Como /api/chat/stream, exige acceso al cultivo del contexto con permiso para comentar.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { connectToUserDB } from '@/lib/mongodb';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerProveedorIA, ErrorProveedorIA } from '@/lib/services/proveedoresIA';
+import { aplicarPresupuestoContexto, excedePresupuestoContexto, MAX_CARACTERES_CONTEXTO } from '@/lib/utils/contextoCultivo';
+import { reservarCuotaIA, crearErrorCuotaIA, registrarConsumoIA } from '@/lib/utils/cuotasIA';
 import type { PayloadOpenAI, ApiResponseChat } from '@/types/chat';
-
-// URL del Webhook de n8n definida en variables de entorno
-// URL del Webhook de n8n (hardcoded por requerimiento)
-const N8N_WEBHOOK_URL = 'https://federicosoriano.app.n8n.cloud/webhook/chat-canopia';
+import type { ErrorCuotaIA } from '@/types/cuotaIA';
 
 /**
  * Maneja peticiones POST al endpoint de chat
- * Reenvía el payload al webhook de n8n y retorna la respuesta procesada
+ * Envía el mensaje al proveedor de IA y retorna la respuesta normalizada
  */
-export async function POST(request: NextRequest) {
+export const POST = requireAuth({ subscription: true })(async (request: Request, { email: userEmail }) => {
   try {
-    // 1. Verificar configuración (ya no es necesario verificar env var)
-    // if (!N8N_WEBHOOK_URL) { ... }
+    // 1. Verificar que haya un proveedor configurado
+    const proveedor = obtenerProveedorIA();
+    if (!proveedor) {
+      return NextResponse.json<ApiResponseChat>({
+        success: false,
+        error: 'El servicio de inteligencia artificial no está configurado.',
+        message: 'Definir AI_PROVIDER y las credenciales del proveedor (N8N_CHAT_WEBHOOK_URL u OPENAI_API_KEY)'
+      }, { status: 503 });
+    }
 
     // 2. Parsear y validar el body
     const payload: PayloadOpenAI = await request.json();
@@ -34,114 +47,69 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // 3. Enviar a n8n
-    const n8nResponse = await fetch(N8N_WEBHOOK_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        email: payload.email,
-        message: payload.message,
-        contexto: payload.cultivoContext,
-        historial: payload.historialReciente || [],
-        imagenes: payload.imagenes || [],
-        timestamp: new Date().toISOString()
-      })
-    });
-
-    if (!n8nResponse.ok) {
-      const errorText = await n8nResponse.text();
-      console.error(`❌ Error en n8n (${n8nResponse.status}):`, errorText);
-      throw new Error(`Error en n8n: ${n8nResponse.status} - ${errorText.substring(0, 200)}`);
+    // 🔒 El contexto lo arma el cliente: recortarlo al máximo y rechazarlo si igual no entra
+    const contextoAcotado = aplicarPresupuestoContexto(payload.cultivoContext);
+    if (excedePresupuestoContexto(contextoAcotado)) {
+      return NextResponse.json<ApiResponseChat>({
+        success: false,
+        error: 'El contexto del cultivo es demasiado grande',
+        message: `El contexto no puede superar los ${MAX_CARACTERES_CONTEXTO} caracteres`
+      }, { status: 413 });
     }
 
-    // 4. Procesar respuesta de n8n
-    const textResponse = await n8nResponse.text();
-    let n8nData;
-
-    try {
-      if (!textResponse) {
-        throw new Error('Respuesta vacía del servicio n8n');
-      }
-
-      // Intentar parsear como JSON
-      try {
-        n8nData = JSON.parse(textResponse);
-      } catch {
-        // Si falla el parseo, verificar si es un error HTML (común en 500s/502s)
-        if (textResponse.trim().toLowerCase().startsWith('<!doctype html') ||
-          textResponse.trim().toLowerCase().startsWith('<html')) {
-          console.error('❌ Error del servicio (HTML recibido):', textResponse.substring(0, 200));
-          throw new Error('El servicio de IA no está disponible momentáneamente (Error de servidor).');
-        }
-
-        // Si no es HTML, asumir que la respuesta es texto plano válido (la IA respondió directo sin JSON)
-        console.log('⚠️ La respuesta no es JSON, usando texto plano:', textResponse.substring(0, 50));
-        n8nData = { output: textResponse };
-      }
-
-    } catch (parseError) {
-      console.error('❌ Error procesando respuesta de n8n:', parseError);
-      throw parseError instanceof Error ? parseError : new Error('Error procesando respuesta del servidor');
+    // 3. 🔒 El chat es del cultivo del contexto: hay que poder verlo y comentar en él
+    const connection = await connectToUserDB(userEmail);
+    const cultivoId = String(payload.cultivoContext.id ?? '');
+    const accesible = await buscarCultivoAccesible(connection, await obtenerContextoOrganizacion(connection, userEmail), cultivoId);
+    if (!accesible) {
+      return NextResponse.json<ApiResponseChat>({
+        success: false,
+        error: 'Cultivo no encontrado o no autorizado',
+        message: 'No se encontró el cultivo o no tienes permisos para ver su chat'
+      }, { status: 404 });
     }
-
-    // Adaptar según la estructura real que definas en n8n o el texto plano recuperado
-    // Normalizar la respuesta (n8n a veces devuelve un array)
-    // Normalizar la respuesta (n8n puede devolver array, o array de arrays)
-    let responseItem = n8nData;
-    while (Array.isArray(responseItem) && responseItem.length > 0) {
-      responseItem = responseItem[0];
+    if (!accesible.permisos.comentar) {
+      return respuestaSinPermisos('Tu rol no permite usar el chat de este cultivo');
     }
 
-    // Log para depuración profunda
-    console.log('🔍 Estructura n8n procesada:', JSON.stringify(responseItem, null, 2));
-
-    // Adaptar según la estructura real que definas en n8n o el texto plano recuperado
-    const respuestaIA = responseItem?.output ||
-      responseItem?.reply ||
-      responseItem?.response ||
-      responseItem?.text ||
-      responseItem?.content ||
-      responseItem?.message ||
-      responseItem?.json?.output || // Estructura común n8n
-      responseItem?.json?.reply ||
-      responseItem?.json?.response ||
-      responseItem?.json?.text ||
-      responseItem?.body?.output ||
-      responseItem?.body?.reply ||
-      responseItem?.data || // A veces devuelve directo data
-      (typeof responseItem === 'string' ? responseItem : null);
-
-    if (!respuestaIA) {
-      console.error('❌ Estructura de respuesta n8n final no reconocida. Keys:', responseItem ? Object.keys(responseItem) : 'null');
-      console.error('Raw content:', textResponse);
-      const fallback = "No se recibió respuesta interpretables.";
-
-      // Intentar una última búsqueda recursiva o flexible si es necesario, 
-      // por ahora devolvemos el fallback
-      return NextResponse.json<ApiResponseChat>({
-        success: true,
-        data: fallback,
-        message: 'Respuesta generada (fallback)',
-      });
+    // 4. 🔒 Verificar y reservar la cuota mensual del usuario
+    const imagenesSolicitadas = payload.imagenes?.length ?? 0;
+    const { uso, recursoAgotado } = await reservarCuotaIA(connection, userEmail, imagenesSolicitadas);
+    if (recursoAgotado) {
+      return NextResponse.json<ErrorCuotaIA>(crearErrorCuotaIA(recursoAgotado, uso), { status: 429 });
     }
 
-    console.log('✅ Respuesta extraída correctamente:', typeof respuestaIA === 'string' ? respuestaIA.substring(0, 50) + '...' : respuestaIA);
+    // 5. Generar la respuesta con el proveedor (el email siempre es el del token)
+    const respuesta = await proveedor.generarRespuesta({ ...payload, cultivoContext: contextoAcotado, email: userEmail }, request.signal);
 
-    return NextResponse.json<ApiResponseChat>({
+    // 6. Registrar el consumo (un fallo aquí no debe perder la respuesta ya generada)
+    await registrarConsumoIA(connection, userEmail, respuesta.tokens)
+      .catch(err => console.error('⚠️ No se pudo registrar el consumo de IA:', err));
+
+    console.log(`✅ Respuesta de IA (${respuesta.proveedor}, ${respuesta.tokens.total} tokens):`, respuesta.contenido.substring(0, 50) + '...');
+
+    return NextResponse.json<ApiResponseChat<string>>({
       success: true,
-      data: respuestaIA,
-      message: 'Respuesta generada', // Mensaje genérico
-      tokens: n8nData.tokens // Opcional
+      data: respuesta.contenido,
+      message: 'Respuesta generada',
+      tokens: respuesta.tokens,
+      proveedor: respuesta.proveedor,
+      modelo: respuesta.modelo
     });
 
   } catch (error) {
-    console.error('❌ Error en API de chat (Proxy n8n):', error);
+    console.error('❌ Error en API de chat:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json<ApiResponseChat>({
+        success: false,
+        error: 'Datos inválidos',
+        message: 'El formato de los datos enviados no es válido'
+      }, { status: 400 });
+    }
 
-    // Identificar timeout
     const errorMessage = error instanceof Error ? error.message : 'Error desconocido';
-    const isTimeout = errorMessage.includes('timeout') || errorMessage.includes('abort');
+    const isTimeout = error instanceof ErrorProveedorIA && error.esTimeout;
 
     return NextResponse.json<ApiResponseChat>({
       success: false,
@@ -149,17 +117,19 @@ export async function POST(request: NextRequest) {
         ? 'El análisis de la imagen está tomando más tiempo de lo esperado. Por favor intenta de nuevo.'
         : 'Error al comunicarse con el servicio de inteligencia artificial.',
       message: errorMessage
-    }, { status: 500 });
+    }, { status: isTimeout ? 504 : 502 });
   }
-}
+});
 
 /**
  * Maneja peticiones GET para verificar el estado del servicio
  */
 export async function GET() {
+  const proveedor = obtenerProveedorIA();
   return NextResponse.json({
     success: true,
-    message: 'Servicio de chat (Proxy n8n) activo',
-    configured: !!process.env.N8N_CHAT_WEBHOOK_URL
+    message: proveedor ? `Servicio de chat activo (${proveedor.nombre})` : 'Servicio de chat sin proveedor configurado',
+    configured: Boolean(proveedor),
+    proveedor: proveedor?.nombre ?? null
   });
 }
@@ -0,0 +1,211 @@
+/**
+ * API Route para Chat con IA en streaming (server-sent events)
+ *
+ * Misma entrada que POST /api/chat, pero la respuesta se emite a medida que el
+ * proveedor la genera. Cada evento SSE lleva en `data` un EventoStreamChat en JSON:
+ * - inicio: proveedor que atiende la petición
+ * - fragmento: texto a concatenar al mensaje parcial
+ * - fin: respuesta completa normalizada (contenido, tokens, proveedor, modelo)
+ * - error: la generación falló
+ *
+ * Si el cliente cierra la conexión (cancelar), se aborta la petición al proveedor.
+ * La cuota mensual se verifica antes de abrir el stream (429 con ErrorCuotaIA) y el
+ * consumo se registra al emitir el evento `fin`; si la generación se cancela o falla,
+ * se registra una estimación de lo consumido. Sin suscripción activa responde 402.
+ *
+ * Requiere acceso al cultivo del contexto con permiso para comentar. Con `respuestaA`
+ * (mensaje del usuario ya guardado) la respuesta se guarda en el historial con sus
+ * tokens, también si se cancela o falla; `fin` informa su ID en `mensajeId`.
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB } from '@/lib/mongodb';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+import { existeMensajeUsuario, guardarRespuestaIA } from '@/lib/utils/historialChat';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerProveedorIA, transmitirRespuestaIA, estimarTokensParciales, ErrorProveedorIA } from '@/lib/services/proveedoresIA';
+import { aplicarPresupuestoContexto, excedePresupuestoContexto, MAX_CARACTERES_CONTEXTO } from '@/lib/utils/contextoCultivo';
+import { reservarCuotaIA, crearErrorCuotaIA, registrarConsumoIA } from '@/lib/utils/cuotasIA';
+import type { PayloadOpenAI, ApiResponseChat, EventoStreamChat, TokensUsados } from '@/types/chat';
+import type { ErrorCuotaIA } from '@/types/cuotaIA';
+
+// Intervalo del comentario keep-alive para que los proxies no corten la conexión
+const INTERVALO_KEEPALIVE_MS = 15000;
+
+/**
+ * Serializa un evento en formato SSE
+ */
+function formatearEvento(evento: EventoStreamChat): string {
+  return `event: ${evento.tipo}\ndata: ${JSON.stringify(evento)}\n\n`;
+}
+
+/**
+ * Maneja peticiones POST al endpoint de chat en streaming
+ */
+export const POST = requireAuth({ subscription: true })(async (request: Request, { email: userEmail }) => {
+  const proveedor = obtenerProveedorIA();
+  if (!proveedor) {
+    return NextResponse.json<ApiResponseChat>({
+      success: false,
+      error: 'El servicio de inteligencia artificial no está configurado.',
+      message: 'Definir AI_PROVIDER y las credenciales del proveedor (N8N_CHAT_WEBHOOK_URL u OPENAI_API_KEY)'
+    }, { status: 503 });
+  }
+
+  let payload: PayloadOpenAI;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json<ApiResponseChat>({
+      success: false,
+      error: 'Datos inválidos',
+      message: 'El formato de los datos enviados no es válido'
+    }, { status: 400 });
+  }
+
+  if (!payload.message || !payload.cultivoContext) {
+    return NextResponse.json<ApiResponseChat>({
+      success: false,
+      error: 'Faltan datos requeridos: message y contexto del cultivo'
+    }, { status: 400 });
+  }
+
+  // 🔒 El contexto lo arma el cliente: recortarlo al máximo y rechazarlo si igual no entra
+  const contextoAcotado = aplicarPresupuestoContexto(payload.cultivoContext);
+  if (excedePresupuestoContexto(contextoAcotado)) {
+    return NextResponse.json<ApiResponseChat>({
+      success: false,
+      error: 'El contexto del cultivo es demasiado grande',
+      message: `El contexto no puede superar los ${MAX_CARACTERES_CONTEXTO} caracteres`
+    }, { status: 413 });
+  }
+
+  // 🔒 El chat es del cultivo del contexto: hay que poder verlo y comentar en él
+  const connection = await connectToUserDB(userEmail);
+  const cultivoId = String(payload.cultivoContext.id ?? '');
+  const accesible = await buscarCultivoAccesible(connection, await obtenerContextoOrganizacion(connection, userEmail), cultivoId);
+  if (!accesible) {
+    return NextResponse.json<ApiResponseChat>({
+      success: false,
+      error: 'Cultivo no encontrado o no autorizado',
+      message: 'No se encontró el cultivo o no tienes permisos para ver su chat'
+    }, { status: 404 });
+  }
+  if (!accesible.permisos.comentar) {
+    return respuestaSinPermisos('Tu rol no permite usar el chat de este cultivo');
+  }
+
+  // La respuesta se guarda vinculada a un mensaje del usuario en su historial de este cultivo
+  const respuestaA = payload.respuestaA;
+  if (respuestaA && !await existeMensajeUsuario(connection, cultivoId, respuestaA, userEmail)) {
+    return NextResponse.json<ApiResponseChat>({
+      success: false,
+      error: 'Datos inválidos',
+      message: 'El mensaje al que responde no existe en este chat'
+    }, { status: 400 });
+  }
+
+  // 🔒 Verificar y reservar la cuota mensual del usuario
+  const imagenesSolicitadas = payload.imagenes?.length ?? 0;
+  const { uso, recursoAgotado } = await reservarCuotaIA(connection, userEmail, imagenesSolicitadas);
+  if (recursoAgotado) {
+    return NextResponse.json<ErrorCuotaIA>(crearErrorCuotaIA(recursoAgotado, uso), { status: 429 });
+  }
+
+  const encoder = new TextEncoder();
+  const signal = request.signal;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let cerrado = false;
+      let textoParcial = '';
+
+      const enviar = (contenido: string) => {
+        if (cerrado) return;
+        try {
+          controller.enqueue(encoder.encode(contenido));
+        } catch {
+          // El cliente ya cerró la conexión
+          cerrado = true;
+        }
+      };
+
+      const keepAlive = setInterval(() => enviar(': keep-alive\n\n'), INTERVALO_KEEPALIVE_MS);
+
+      // Guarda la respuesta en el historial (un fallo no debe cortar el stream)
+      const guardarRespuesta = async (datos: { contenido: string; tokensUsados: TokensUsados; error?: string; cancelado?: boolean }) => {
+        if (!respuestaA) return undefined;
+        try {
+          const guardada = await guardarRespuestaIA(connection, { ...datos, cultivoId, respuestaA, creadoPor: userEmail });
+          return guardada.id;
+        } catch (err) {
+          console.error('⚠️ No se pudo guardar la respuesta de IA en el historial:', err);
+          return undefined;
+        }
+      };
+
+      try {
+        enviar(formatearEvento({ tipo: 'inicio', proveedor: proveedor.nombre }));
+
+        const respuesta = await transmitirRespuestaIA(
+          proveedor,
+          { ...payload, cultivoContext: contextoAcotado, email: userEmail },
+          (texto) => {
+            textoParcial += texto;
+            enviar(formatearEvento({ tipo: 'fragmento', texto }));
+          },
+          signal
+        );
+
+        console.log(`✅ Respuesta de IA en streaming (${respuesta.proveedor}, ${respuesta.tokens.total} tokens)`);
+        await registrarConsumoIA(connection, userEmail, respuesta.tokens)
+          .catch(err => console.error('⚠️ No se pudo registrar el consumo de IA:', err));
+        const mensajeId = await guardarRespuesta({ contenido: respuesta.contenido, tokensUsados: respuesta.tokens });
+        enviar(formatearEvento({ tipo: 'fin', respuesta, mensajeId }));
+
+      } catch (error) {
+        // El proveedor no informa el uso de una respuesta interrumpida: registrar una estimación
+        const tokensParciales = estimarTokensParciales({ ...payload, cultivoContext: contextoAcotado }, textoParcial);
+        await registrarConsumoIA(connection, userEmail, tokensParciales)
+          .catch(err => console.error('⚠️ No se pudo registrar el consumo parcial de IA:', err));
+
+        if (error instanceof ErrorProveedorIA && error.esCancelado) {
+          console.log('⏹️ Streaming de chat cancelado por el cliente');
+          await guardarRespuesta({ contenido: textoParcial || 'Respuesta cancelada.', tokensUsados: tokensParciales, cancelado: true });
+        } else {
+          console.error('❌ Error en API de chat (streaming):', error);
+          const detalle = error instanceof Error ? error.message : 'Error desconocido';
+          // Si ya llegó parte de la respuesta se conserva y se marca el error
+          await guardarRespuesta({ contenido: textoParcial || `❌ Error: ${detalle}`, tokensUsados: tokensParciales, error: detalle });
+          const isTimeout = error instanceof ErrorProveedorIA && error.esTimeout;
+          enviar(formatearEvento({
+            tipo: 'error',
+            error: isTimeout
+              ? 'El análisis de la imagen está tomando más tiempo de lo esperado. Por favor intenta de nuevo.'
+              : 'Error al comunicarse con el servicio de inteligencia artificial.',
+            message: detalle
+          }));
+        }
+      } finally {
+        clearInterval(keepAlive);
+        if (!cerrado) {
+          cerrado = true;
+          try {
+            controller.close();
+          } catch {
+            // Ya estaba cerrado
+          }
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+});
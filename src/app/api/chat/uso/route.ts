@@ -0,0 +1,32 @@
+/**
+ * API Route del consumo de IA del usuario
+ *
+ * Endpoints:
+ * - GET /api/chat/uso - Tokens e imágenes analizadas en el mes, con los límites del plan
+ *
+ * Los límites dependen de Usuario.subscriptionStatus (ver src/lib/utils/cuotasIA.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerUsoIA } from '@/lib/utils/cuotasIA';
+
+/**
+ * GET /api/chat/uso
+ */
+export const GET = requireAuth()(async (_request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const uso = await obtenerUsoIA(connection, userEmail);
+
+    return NextResponse.json({ success: true, data: uso });
+
+  } catch (error) {
+    console.error('Error en GET /api/chat/uso:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo obtener el consumo de IA' },
+      { status: 500 }
+    );
+  }
+});
@@ -4,11 +4,21 @@
 
 import { NextResponse } from 'next/server';
 import mongoose from 'mongoose';
-import { withUserDB, connectToUserDB, getComentarioModel } from '@/lib/mongodb';
-
-export const GET = withUserDB(async (request, userEmail) => {
+import { connectToUserDB, getComentarioModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import {
+  obtenerContextoOrganizacion,
+  construirFiltroUsuario,
+  puedeCrearRecursos,
+  puedeEliminarRecurso,
+  respuestaSinPermisos
+} from '@/lib/utils/multiTenancy';
+import { notificarComentarioCritico } from '@/lib/utils/notificacionesPush';
+
+export const GET = requireAuth()(async (request, { email: userEmail }) => {
   try {
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const ComentarioModel = getComentarioModel(connection) as any;
 
@@ -19,13 +29,10 @@ export const GET = withUserDB(async (request, userEmail) => {
       return NextResponse.json({ success: false, error: 'ID inválido' }, { status: 400 });
     }
 
-    // Buscar comentario
-    // 🔒 TODO: Verificar si necesitamos filtrar por 'creadoPor' aquí también o si los comentarios son públicos para el cultivo. 
-    // Por ahora, al estar en DB única, SI necesitamos filtrar por autor O por cultivo que pertenezca al autor.
-    // Asumiremos que el comentario tiene 'creadoPor' por consistencia.
+    // Buscar comentario de la organización
     const comentario = await ComentarioModel.findOne({
       _id: id,
-      creadoPor: userEmail // 🔒 FILTRO DE SEGURIDAD
+      ...construirFiltroUsuario(contexto) // 🔒 FILTRO DE SEGURIDAD
     }).lean();
 
     if (!comentario) {
@@ -42,9 +49,10 @@ export const GET = withUserDB(async (request, userEmail) => {
   }
 });
 
-export const PATCH = withUserDB(async (request, userEmail) => {
+export const PATCH = requireAuth()(async (request, { email: userEmail }) => {
   try {
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const ComentarioModel = getComentarioModel(connection) as any;
 
@@ -55,12 +63,30 @@ export const PATCH = withUserDB(async (request, userEmail) => {
       return NextResponse.json({ success: false, error: 'ID inválido' }, { status: 400 });
     }
 
-    const updates = await request.json();
+    // 🔒 Los viewers solo pueden consultar
+    if (!puedeCrearRecursos(contexto)) {
+      return respuestaSinPermisos('Tu rol en la organización no permite modificar comentarios');
+    }
+
+    // Los operadores de MongoDB ($set, $unset...) no se aceptan desde el cliente
+    const updates: Record<string, unknown> = Object.fromEntries(
+      Object.entries(await request.json()).filter(([campo]) => !campo.startsWith('$'))
+    );
     delete updates._id; delete updates.id;
     delete updates.creadoPor; // No permitir cambiar autor
+    delete updates.organizacionId; // Ni moverlo a otra organización
+    if (updates.plantaId === '') {
+      delete updates.plantaId;
+      updates.$unset = { plantaId: '' }; // Quitar la asociación con la planta
+    }
+
+    // Solo se avisa por push cuando el comentario pasa a ser crítico
+    const anterior = updates.prioridad === 'critica'
+      ? await ComentarioModel.findOne({ _id: id, ...construirFiltroUsuario(contexto) }).select('prioridad').lean() // 🔒 FILTRO DE SEGURIDAD
+      : null;
 
     const comentario = await ComentarioModel.findOneAndUpdate(
-      { _id: id, creadoPor: userEmail }, // 🔒 FILTRO DE SEGURIDAD
+      { _id: id, ...construirFiltroUsuario(contexto) }, // 🔒 FILTRO DE SEGURIDAD
       { ...updates, fechaActualizacion: new Date().toISOString() },
       { new: true, runValidators: true, lean: true }
     );
@@ -69,6 +95,10 @@ export const PATCH = withUserDB(async (request, userEmail) => {
       return NextResponse.json({ success: false, error: 'Comentario no encontrado o no autorizado' }, { status: 404 });
     }
 
+    if (anterior && anterior.prioridad !== 'critica') {
+      await notificarComentarioCritico(connection, { ...comentario, id: comentario._id.toString() });
+    }
+
     return NextResponse.json({
       success: true,
       data: { ...comentario, id: comentario._id.toString(), _id: undefined }
@@ -79,9 +109,10 @@ export const PATCH = withUserDB(async (request, userEmail) => {
   }
 });
 
-export const DELETE = withUserDB(async (request, userEmail) => {
+export const DELETE = requireAuth()(async (request, { email: userEmail }) => {
   try {
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const ComentarioModel = getComentarioModel(connection) as any;
 
@@ -92,15 +123,22 @@ export const DELETE = withUserDB(async (request, userEmail) => {
       return NextResponse.json({ success: false, error: 'ID inválido' }, { status: 400 });
     }
 
-    const comentario = await ComentarioModel.findOneAndDelete({
+    const comentario = await ComentarioModel.findOne({
       _id: id,
-      creadoPor: userEmail // 🔒 FILTRO DE SEGURIDAD
+      ...construirFiltroUsuario(contexto) // 🔒 FILTRO DE SEGURIDAD
     }).lean();
 
     if (!comentario) {
       return NextResponse.json({ success: false, error: 'Comentario no encontrado o no autorizado' }, { status: 404 });
     }
 
+    // 🔒 Los growers solo eliminan lo que crearon; los viewers nada
+    if (!puedeEliminarRecurso(contexto, comentario)) {
+      return respuestaSinPermisos('Tu rol en la organización no permite eliminar este comentario');
+    }
+
+    await ComentarioModel.deleteOne({ _id: comentario._id });
+
     return NextResponse.json({
       success: true,
       data: { ...comentario, id: comentario._id.toString(), _id: undefined }
@@ -1,16 +1,29 @@
 /**
  * API Route para gestión de comentarios con MongoDB - Sistema Multi-tenant
+ *
+ * Los invitados de la lista de acceso de un cultivo leen sus comentarios y,
+ * con rol commenter o editor, pueden crearlos; el comentario queda en la
+ * organización dueña del cultivo.
  */
 
 import { NextResponse } from 'next/server';
 // import mongoose from 'mongoose';
-import { withUserDB, connectToUserDB, getComentarioModel } from '@/lib/mongodb';
+import { connectToUserDB, getComentarioModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import {
+  obtenerContextoOrganizacion,
+  construirFiltroCultivo,
+  buscarCultivoAccesible,
+  respuestaSinPermisos
+} from '@/lib/utils/multiTenancy';
+import { notificarComentarioCritico } from '@/lib/utils/notificacionesPush';
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-export const GET = withUserDB(async (request: Request, userEmail: string) => {
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
   try {
     // Conectar a la base de datos principal
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
 
     // Obtener el modelo Comentario específico para esta conexión
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -18,19 +31,21 @@ export const GET = withUserDB(async (request: Request, userEmail: string) => {
 
     const url = new URL(request.url);
     const cultivoId = url.searchParams.get('cultivoId');
+    const plantaId = url.searchParams.get('plantaId');
     const tipo = url.searchParams.get('tipo');
     const prioridad = url.searchParams.get('prioridad');
     const resuelto = url.searchParams.get('resuelto');
     const page = parseInt(url.searchParams.get('_page') || '1');
     const limit = parseInt(url.searchParams.get('_limit') || '50');
 
-    // FILTRO DE SEGURIDAD: Solo comentarios creados por el usuario
+    // FILTRO DE SEGURIDAD: Solo comentarios de la organización (o del cultivo compartido)
     const query: Record<string, unknown> = {
       activo: true,
-      creadoPor: userEmail // 🔒 Filtrar por creador
+      ...await construirFiltroCultivo(connection, contexto, cultivoId) // 🔒 Filtrar por organización
     };
 
     if (cultivoId) query.cultivoId = cultivoId;
+    if (plantaId) query.plantaId = plantaId;
     if (tipo) query.tipo = tipo;
     if (prioridad) query.prioridad = prioridad;
     if (resuelto !== null) query.resuelto = resuelto === 'true';
@@ -61,16 +76,29 @@ export const GET = withUserDB(async (request: Request, userEmail: string) => {
 });
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-export const POST = withUserDB(async (request: Request, userEmail: string) => {
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
   try {
     // Conectar a la base de datos principal
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
 
     // Obtener el modelo Comentario específico para esta conexión
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const ComentarioModel = getComentarioModel(connection) as any;
 
     const comentarioData = await request.json();
+
+    // 🔒 El cultivo debe ser visible para el usuario; los viewers solo pueden consultar
+    const accesible = await buscarCultivoAccesible(connection, contexto, comentarioData.cultivoId);
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.comentar) {
+      return respuestaSinPermisos('Tu rol no permite comentar este cultivo');
+    }
     const comentarioConFechas = {
       ...comentarioData,
       fecha: new Date().toISOString(),
@@ -79,12 +107,16 @@ export const POST = withUserDB(async (request: Request, userEmail: string) => {
       activo: true,
       destacado: false,
       numeroEdiciones: 0,
-      creadoPor: userEmail // 🔒 Asignar creador automáticamente
+      creadoPor: userEmail, // 🔒 Asignar creador automáticamente
+      organizacionId: accesible.cultivo.organizacionId // 🔒 Y la organización dueña del cultivo
     };
 
     const nuevoComentario = new ComentarioModel(comentarioConFechas);
     const comentarioGuardado = await nuevoComentario.save();
 
+    // 🔔 Aviso push al dueño del cultivo si es crítico
+    await notificarComentarioCritico(connection, comentarioGuardado.toJSON());
+
     return NextResponse.json({
       success: true,
       data: comentarioGuardado.toJSON(),
@@ -0,0 +1,76 @@
+/**
+ * Tarea programada de envío de recordatorios
+ *
+ * Ruta: GET|POST /api/cron/recordatorios
+ * Headers: Authorization: Bearer <CRON_SECRET>
+ *
+ * Este endpoint:
+ * 1. Verifica el secreto compartido con el programador (Vercel Cron u otro)
+ * 2. Busca los recordatorios de tareas vencidos de todos los usuarios
+ * 3. Los entrega por email, web push y webhook según la configuración de cada usuario
+ * 4. Marca las tareas vencidas y las avisa por web push
+ * 5. Devuelve el resumen de la ejecución
+ */
+
+import { NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { connectToUserDB, getDatabaseName } from '@/lib/mongodb';
+import { despacharRecordatorios } from '@/lib/utils/recordatorios';
+import { notificarTareasVencidas } from '@/lib/utils/notificacionesPush';
+
+/**
+ * Compara el secreto recibido con CRON_SECRET en tiempo constante
+ */
+function esSecretoValido(request: Request, secreto: string): boolean {
+  const autorizacion = request.headers.get('authorization');
+  const recibido = autorizacion?.startsWith('Bearer ')
+    ? autorizacion.slice(7)
+    : request.headers.get('x-cron-secret') || '';
+
+  const a = Buffer.from(recibido);
+  const b = Buffer.from(secreto);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+async function ejecutar(request: Request) {
+  try {
+    const secreto = process.env.CRON_SECRET;
+    if (!secreto) {
+      console.error('CRON_SECRET no configurado');
+      return NextResponse.json(
+        { success: false, error: 'Servicio no configurado', message: 'El envío programado de recordatorios no está configurado' },
+        { status: 503 }
+      );
+    }
+
+    if (!esSecretoValido(request, secreto)) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado', message: 'Secreto de cron inválido' },
+        { status: 401 }
+      );
+    }
+
+    const connection = await connectToUserDB(getDatabaseName());
+    const resumen = await despacharRecordatorios(connection);
+    resumen.tareasVencidas = await notificarTareasVencidas(connection);
+
+    console.log('⏰ Despacho de recordatorios:', JSON.stringify(resumen));
+
+    return NextResponse.json({
+      success: true,
+      data: resumen,
+      message: `${resumen.enviados} notificaciones enviadas, ${resumen.fallidos} fallidas`
+    });
+
+  } catch (error) {
+    console.error('Error en /api/cron/recordatorios:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudieron despachar los recordatorios' },
+      { status: 500 }
+    );
+  }
+}
+
+// Vercel Cron invoca con GET; POST queda para programadores externos
+export const GET = ejecutar;
+export const POST = ejecutar;
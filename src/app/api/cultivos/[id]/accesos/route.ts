@@ -0,0 +1,217 @@
+/**
+ * API Route para la lista de acceso de un cultivo
+ *
+ * Permite compartir un único cultivo con alguien de fuera de la organización
+ * (por ejemplo un consultor) sin darle acceso al resto de la cuenta.
+ *
+ * Endpoints:
+ * - GET /api/cultivos/[id]/accesos - Lista las personas invitadas y su estado
+ * - POST /api/cultivos/[id]/accesos - Invita por email o cambia el rol de un invitado
+ *   Body: { email, rol: 'viewer' | 'commenter' | 'editor' }
+ *   Si la invitación sigue pendiente se reenvía con un enlace nuevo
+ * - DELETE /api/cultivos/[id]/accesos?email=... - Revoca el acceso (o la invitación pendiente)
+ *
+ * Solo owners y growers de la organización dueña del cultivo administran la lista.
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB, getAccesoCultivoModel, getOrganizacionModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import {
+  obtenerContextoOrganizacion,
+  buscarCultivoAccesible,
+  respuestaSinPermisos,
+  type ContextoOrganizacion
+} from '@/lib/utils/multiTenancy';
+import { enviarEmailInvitacionCultivo } from '@/lib/auth/emailsCuenta';
+import type mongoose from 'mongoose';
+import type { RolAccesoCultivo } from '@/types/accesoCultivo';
+
+/**
+ * Roles que se pueden asignar
+ */
+const ROLES: RolAccesoCultivo[] = ['viewer', 'commenter', 'editor'];
+
+/**
+ * Extrae el ID del cultivo desde la URL
+ */
+function extraerCultivoId(request: Request): string | undefined {
+  const partes = new URL(request.url).pathname.split('/');
+  const indice = partes.indexOf('cultivos');
+  return indice >= 0 ? partes[indice + 1] : undefined;
+}
+
+/**
+ * Busca el cultivo y verifica que el usuario pueda administrar su lista de acceso
+ * @returns El cultivo, o la respuesta de error a devolver
+ */
+async function cultivoCompartible(
+  connection: mongoose.Connection,
+  contexto: ContextoOrganizacion,
+  request: Request
+) {
+  const accesible = await buscarCultivoAccesible(connection, contexto, extraerCultivoId(request));
+  if (!accesible) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para verlo' },
+        { status: 404 }
+      )
+    };
+  }
+  if (!accesible.permisos.compartir) {
+    return { error: respuestaSinPermisos('Solo los owners y growers de la organización pueden compartir este cultivo') };
+  }
+  return { cultivo: accesible.cultivo };
+}
+
+/**
+ * GET /api/cultivos/[id]/accesos - Personas con acceso al cultivo
+ */
+export const GET = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+
+    const { cultivo, error } = await cultivoCompartible(connection, contexto, request);
+    if (error) return error;
+
+    const accesos = await getAccesoCultivoModel(connection)
+      .find({ cultivoId: cultivo._id.toString() })
+      .sort({ fechaCreacion: 1 });
+
+    return NextResponse.json({
+      success: true,
+      data: accesos.map(doc => doc.toJSON()),
+      total: accesos.length
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/cultivos/[id]/accesos:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo cargar la lista de acceso' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/cultivos/[id]/accesos - Invita a una persona o cambia su rol
+ */
+export const POST = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+
+    const { cultivo, error } = await cultivoCompartible(connection, contexto, request);
+    if (error) return error;
+
+    const datos = await request.json();
+    const email = typeof datos.email === 'string' ? datos.email.toLowerCase().trim() : '';
+    const rol = datos.rol as RolAccesoCultivo;
+
+    if (!email || !ROLES.includes(rol)) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Se requieren un email y un rol válido (viewer, commenter o editor)' },
+        { status: 400 }
+      );
+    }
+
+    // Los miembros de la organización ya tienen acceso según su rol
+    const esMiembro = await getOrganizacionModel(connection).exists({
+      _id: cultivo.organizacionId,
+      'miembros.email': email
+    });
+    if (esMiembro) {
+      return NextResponse.json(
+        { success: false, error: 'Ya es miembro', message: `${email} ya pertenece a la organización del cultivo` },
+        { status: 409 }
+      );
+    }
+
+    const { acceso, token } = await getAccesoCultivoModel(connection).invitar({
+      cultivoId: cultivo._id.toString(),
+      organizacionId: cultivo.organizacionId as string,
+      email,
+      rol,
+      invitadoPor: userEmail
+    });
+
+    // ✉️ Solo las invitaciones nuevas o pendientes llevan enlace
+    if (token) {
+      await enviarEmailInvitacionCultivo(email, token, { nombreCultivo: cultivo.nombre, rol, invitadoPor: userEmail });
+      console.log(`✉️ Invitación al cultivo ${cultivo._id} enviada a:`, email);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: acceso.toJSON(),
+      message: token ? 'Invitación enviada exitosamente' : 'Rol actualizado exitosamente'
+    }, { status: token ? 201 : 200 });
+
+  } catch (error) {
+    console.error('Error en POST /api/cultivos/[id]/accesos:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo enviar la invitación' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/cultivos/[id]/accesos?email=... - Revoca el acceso de una persona
+ */
+export const DELETE = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+
+    const { cultivo, error } = await cultivoCompartible(connection, contexto, request);
+    if (error) return error;
+
+    const email = new URL(request.url).searchParams.get('email')?.toLowerCase().trim();
+    const resultado = email
+      ? await getAccesoCultivoModel(connection).deleteOne({ cultivoId: cultivo._id.toString(), email })
+      : null;
+
+    if (!resultado?.deletedCount) {
+      return NextResponse.json(
+        { success: false, error: 'Acceso no encontrado', message: 'El email no figura en la lista de acceso del cultivo' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Acceso revocado exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/cultivos/[id]/accesos:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo revocar el acceso' },
+      { status: 500 }
+    );
+  }
+});
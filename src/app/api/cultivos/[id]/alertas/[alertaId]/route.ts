@@ -0,0 +1,121 @@
+/**
+ * API Route para operaciones sobre una alerta específica
+ *
+ * Endpoints:
+ * - PATCH /api/cultivos/[id]/alertas/[alertaId] - Reconoce o resuelve la alerta
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getAlertaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+import { resolverComentarioAlerta } from '@/lib/utils/alertas';
+import type { EstadoAlerta } from '@/types/alerta';
+
+/**
+ * Extrae los IDs de cultivo y alerta desde la URL
+ */
+function extraerIds(request: Request): { cultivoId?: string; alertaId?: string } {
+  const segmentos = new URL(request.url).pathname.split('/');
+  return {
+    cultivoId: segmentos[segmentos.indexOf('cultivos') + 1],
+    alertaId: segmentos[segmentos.indexOf('alertas') + 1]
+  };
+}
+
+/**
+ * PATCH /api/cultivos/[id]/alertas/[alertaId]
+ *
+ * Body: { estado: 'reconocida' | 'resuelta' }
+ * Una alerta resuelta no puede volver a abrirse: si la desviación persiste,
+ * la próxima evaluación abrirá una nueva.
+ */
+export const PATCH = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const { cultivoId, alertaId } = extraerIds(request);
+    if (!cultivoId || !alertaId || !mongoose.Types.ObjectId.isValid(alertaId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID de la alerta no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const { estado } = await request.json() as { estado?: EstadoAlerta };
+    if (estado !== 'reconocida' && estado !== 'resuelta') {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El estado debe ser "reconocida" o "resuelta"' },
+        { status: 400 }
+      );
+    }
+
+    // 🔒 El cultivo debe ser accesible y el rol debe permitir editarlo
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId);
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para verlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite gestionar las alertas de este cultivo');
+    }
+
+    const AlertaModel = getAlertaModel(connection);
+    const alerta = await AlertaModel.findOne({ _id: alertaId, cultivoId }); // 🔒 FILTRO DE SEGURIDAD
+
+    if (!alerta) {
+      return NextResponse.json(
+        { success: false, error: 'Alerta no encontrada o no autorizada', message: 'No se encontró la alerta o no tienes permisos para modificarla' },
+        { status: 404 }
+      );
+    }
+
+    if (alerta.estado === 'resuelta') {
+      return NextResponse.json(
+        { success: false, error: 'Transición inválida', message: 'La alerta ya está resuelta' },
+        { status: 409 }
+      );
+    }
+
+    const ahora = new Date().toISOString();
+    if (estado === 'reconocida') {
+      alerta.estado = 'reconocida';
+      alerta.fechaReconocimiento = ahora;
+      alerta.reconocidaPor = userEmail;
+    } else {
+      alerta.estado = 'resuelta';
+      alerta.fechaResolucion = ahora;
+      alerta.resueltaPor = userEmail;
+    }
+    const alertaGuardada = await alerta.save();
+
+    if (estado === 'resuelta') {
+      await resolverComentarioAlerta(connection, alerta.comentarioId, userEmail);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: alertaGuardada.toJSON(),
+      message: estado === 'reconocida' ? 'Alerta reconocida' : 'Alerta resuelta'
+    });
+
+  } catch (error) {
+    console.error('Error en PATCH /api/cultivos/[id]/alertas/[alertaId]:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo actualizar la alerta' },
+      { status: 500 }
+    );
+  }
+});
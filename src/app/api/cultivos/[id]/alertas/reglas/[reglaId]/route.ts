@@ -0,0 +1,160 @@
+/**
+ * API Route para operaciones sobre una regla de alerta específica
+ *
+ * Endpoints:
+ * - PATCH /api/cultivos/[id]/alertas/reglas/[reglaId] - Actualiza la regla (ej: activar/desactivar)
+ * - DELETE /api/cultivos/[id]/alertas/reglas/[reglaId] - Elimina la regla (las alertas se conservan)
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getReglaAlertaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+
+/**
+ * Extrae los IDs de cultivo y regla desde la URL
+ */
+function extraerIds(request: Request): { cultivoId?: string; reglaId?: string } {
+  const segmentos = new URL(request.url).pathname.split('/');
+  return {
+    cultivoId: segmentos[segmentos.indexOf('cultivos') + 1],
+    reglaId: segmentos[segmentos.indexOf('reglas') + 1]
+  };
+}
+
+/**
+ * PATCH /api/cultivos/[id]/alertas/reglas/[reglaId]
+ */
+export const PATCH = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const { cultivoId, reglaId } = extraerIds(request);
+    if (!cultivoId || !reglaId || !mongoose.Types.ObjectId.isValid(reglaId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID de la regla no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const cambios = await request.json();
+    // Campos que no se pueden modificar
+    delete cambios._id;
+    delete cambios.id;
+    delete cambios.cultivoId;
+    delete cambios.creadoPor;
+    delete cambios.fechaCreacion;
+
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite configurar alertas en este cultivo');
+    }
+
+    const ReglaAlertaModel = getReglaAlertaModel(connection);
+    const regla = await ReglaAlertaModel.findOneAndUpdate(
+      { _id: reglaId, cultivoId }, // 🔒 FILTRO DE SEGURIDAD
+      { $set: cambios },
+      { new: true, runValidators: true }
+    );
+
+    if (!regla) {
+      return NextResponse.json(
+        { success: false, error: 'Regla no encontrada o no autorizada', message: 'No se encontró la regla o no tienes permisos para modificarla' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: regla.toJSON(),
+      message: 'Regla de alerta actualizada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en PATCH /api/cultivos/[id]/alertas/reglas/[reglaId]:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo actualizar la regla' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/cultivos/[id]/alertas/reglas/[reglaId]
+ */
+export const DELETE = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const { cultivoId, reglaId } = extraerIds(request);
+    if (!cultivoId || !reglaId || !mongoose.Types.ObjectId.isValid(reglaId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID de la regla no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite configurar alertas en este cultivo');
+    }
+
+    const ReglaAlertaModel = getReglaAlertaModel(connection);
+    const eliminada = await ReglaAlertaModel.findOneAndDelete({ _id: reglaId, cultivoId }); // 🔒 FILTRO DE SEGURIDAD
+
+    if (!eliminada) {
+      return NextResponse.json(
+        { success: false, error: 'Regla no encontrada o no autorizada', message: 'No se encontró la regla o no tienes permisos para eliminarla' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Regla de alerta eliminada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/cultivos/[id]/alertas/reglas/[reglaId]:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo eliminar la regla' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,142 @@
+/**
+ * API Route para reglas de alerta de un cultivo con MongoDB
+ *
+ * Endpoints:
+ * - GET /api/cultivos/[id]/alertas/reglas - Lista las reglas del cultivo
+ * - POST /api/cultivos/[id]/alertas/reglas - Crea una nueva regla
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getReglaAlertaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+
+/**
+ * Extrae el ID del cultivo desde la URL (/api/cultivos/[id]/alertas/reglas)
+ */
+function extraerCultivoId(request: Request): string | undefined {
+  const segmentos = new URL(request.url).pathname.split('/');
+  return segmentos[segmentos.indexOf('cultivos') + 1];
+}
+
+/**
+ * GET /api/cultivos/[id]/alertas/reglas
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para verlo' },
+        { status: 404 }
+      );
+    }
+
+    const ReglaAlertaModel = getReglaAlertaModel(connection);
+    const reglasDocs = await ReglaAlertaModel.find({ cultivoId })
+      .sort({ fechaCreacion: -1 });
+
+    return NextResponse.json({
+      success: true,
+      data: reglasDocs.map(doc => doc.toJSON()),
+      total: reglasDocs.length
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/cultivos/[id]/alertas/reglas:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudieron cargar las reglas' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/cultivos/[id]/alertas/reglas
+ *
+ * Crea una regla. Ejemplo: { nombre, variable: 'humedad', condicion: 'mayor', margen: 5, duracionMinutos: 120 }
+ */
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite configurar alertas en este cultivo');
+    }
+
+    const reglaData = await request.json();
+    delete reglaData._id;
+    delete reglaData.id;
+
+    const ReglaAlertaModel = getReglaAlertaModel(connection);
+    const nuevaRegla = new ReglaAlertaModel({
+      ...reglaData,
+      cultivoId,
+      fechaCreacion: new Date().toISOString().split('T')[0],
+      creadoPor: userEmail // 🔒 Se asigna al usuario actual
+    });
+    const reglaGuardada = await nuevaRegla.save();
+
+    return NextResponse.json({
+      success: true,
+      data: reglaGuardada.toJSON(),
+      message: 'Regla de alerta creada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/cultivos/[id]/alertas/reglas:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo crear la regla' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,130 @@
+/**
+ * API Route para alertas de umbral de un cultivo con MongoDB
+ *
+ * Las alertas se generan cuando las lecturas se desvían de los objetivos
+ * de la fase actual según las reglas configuradas.
+ *
+ * Endpoints:
+ * - GET /api/cultivos/[id]/alertas - Lista alertas (filtrable por estado)
+ * - POST /api/cultivos/[id]/alertas - Fuerza la evaluación de las reglas del cultivo
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getAlertaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+import { evaluarAlertasCultivo } from '@/lib/utils/alertas';
+
+/**
+ * Extrae el ID del cultivo desde la URL (/api/cultivos/[id]/alertas)
+ */
+function extraerCultivoId(request: Request): string | undefined {
+  const segmentos = new URL(request.url).pathname.split('/');
+  return segmentos[segmentos.indexOf('cultivos') + 1];
+}
+
+/**
+ * GET /api/cultivos/[id]/alertas
+ *
+ * Parámetros de query soportados:
+ * - estado: abierta | reconocida | resuelta (varios separados por coma)
+ * - _limit: límite de alertas (por defecto 100)
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    // Verificar que el cultivo sea de la organización o esté compartido con el usuario
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para verlo' },
+        { status: 404 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const estado = url.searchParams.get('estado');
+    const limit = Math.min(parseInt(url.searchParams.get('_limit') || '100'), 500);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const query: any = { cultivoId };
+    if (estado) query.estado = { $in: estado.split(',') };
+
+    const AlertaModel = getAlertaModel(connection);
+    const alertasDocs = await AlertaModel.find(query)
+      .sort({ fechaApertura: -1 })
+      .limit(limit);
+
+    const total = await AlertaModel.countDocuments(query);
+
+    return NextResponse.json({
+      success: true,
+      data: alertasDocs.map(doc => doc.toJSON()),
+      total
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/cultivos/[id]/alertas:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudieron cargar las alertas' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/cultivos/[id]/alertas
+ *
+ * Evalúa las reglas activas del cultivo contra sus lecturas actuales
+ */
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para verlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite evaluar las alertas de este cultivo');
+    }
+
+    const resultado = await evaluarAlertasCultivo(connection, cultivoId);
+
+    return NextResponse.json({
+      success: true,
+      data: resultado,
+      message: `${resultado.abiertas} alertas abiertas, ${resultado.resueltas} resueltas`
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/cultivos/[id]/alertas:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudieron evaluar las alertas' },
+      { status: 500 }
+    );
+  }
+});
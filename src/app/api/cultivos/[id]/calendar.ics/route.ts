@@ -0,0 +1,59 @@
+/**
+ * API Route del feed iCalendar de las tareas de un cultivo
+ *
+ * GET /api/cultivos/[id]/calendar.ics?token=... - Tareas del cultivo en formato .ics
+ * Se autentica con el token del calendario (ver /api/tareas/calendario), no con JWT.
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { withCalendarioDB, connectToUserDB, getCultivoModel } from '@/lib/mongodb';
+import { responderFeedTareas } from '@/lib/utils/feedCalendario';
+import { obtenerContextoOrganizacion, construirFiltroUsuario } from '@/lib/utils/multiTenancy';
+
+/**
+ * Extrae el ID del cultivo desde la URL
+ */
+function extraerCultivoId(request: Request): string | undefined {
+  const partes = new URL(request.url).pathname.split('/');
+  const indice = partes.indexOf('cultivos');
+  return indice >= 0 ? partes[indice + 1] : undefined;
+}
+
+export const GET = withCalendarioDB(async (request: Request, userEmail: string) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const cultivoId = extraerCultivoId(request);
+
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no es válido' },
+        { status: 400 }
+      );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const CultivoModel = getCultivoModel(connection) as any;
+    const cultivo = await CultivoModel.findOne({ _id: cultivoId, ...construirFiltroUsuario(contexto) }).select('nombre').lean(); // 🔒 FILTRO DE SEGURIDAD
+    if (!cultivo) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado', message: 'No se encontró el cultivo o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    return await responderFeedTareas(connection, contexto, {
+      cultivoId,
+      nombre: `Tareas - ${cultivo.nombre}`,
+      request
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/cultivos/[id]/calendar.ics:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo generar el calendario' },
+      { status: 500 }
+    );
+  }
+});
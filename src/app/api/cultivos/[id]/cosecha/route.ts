@@ -0,0 +1,243 @@
+/**
+ * API Route para la cosecha de un cultivo con MongoDB
+ *
+ * Registra lo cosechado (pesos, secado, curado y calidad) y devuelve las
+ * métricas de rendimiento calculadas con los datos actuales del cultivo.
+ *
+ * Endpoints:
+ * - GET /api/cultivos/[id]/cosecha - Cosecha del cultivo con sus métricas
+ * - PUT /api/cultivos/[id]/cosecha - Crea o reemplaza la cosecha del cultivo
+ * - DELETE /api/cultivos/[id]/cosecha - Elimina la cosecha registrada
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getCosechaModel, getPlantaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+import { conMetricas } from '@/lib/utils/cosecha';
+import type { Cosecha, PesoPlanta } from '@/types/cosecha';
+
+/**
+ * Campos de la cosecha que puede enviar el cliente
+ */
+const CAMPOS_EDITABLES = [
+  'fechaCorte',
+  'pesoHumedo',
+  'pesoSeco',
+  'pesoTrim',
+  'fechaInicioSecado',
+  'fechaFinSecado',
+  'fechaInicioCurado',
+  'fechaFinCurado',
+  'calidad',
+  'notasCalidad',
+  'pesosPorPlanta'
+] as const;
+
+/**
+ * Extrae el ID del cultivo desde la URL (/api/cultivos/[id]/cosecha)
+ */
+function extraerCultivoId(request: Request): string | undefined {
+  const segmentos = new URL(request.url).pathname.split('/');
+  return segmentos[segmentos.indexOf('cultivos') + 1];
+}
+
+/**
+ * Busca el cultivo si es de la organización del usuario o está compartido con él
+ * @returns El cultivo (con los campos de las métricas) y los permisos, o null
+ */
+async function buscarCultivo(connection: mongoose.Connection, cultivoId: string, userEmail: string) {
+  const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+  return buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+}
+
+/**
+ * GET /api/cultivos/[id]/cosecha
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const accesible = await buscarCultivo(connection, cultivoId, userEmail);
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para verlo' },
+        { status: 404 }
+      );
+    }
+    const { cultivo } = accesible;
+
+    const cosecha = await getCosechaModel(connection).findOne({ cultivoId });
+    if (!cosecha) {
+      return NextResponse.json(
+        { success: false, error: 'Cosecha no encontrada', message: 'Este cultivo todavía no tiene una cosecha registrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: conMetricas(cosecha.toJSON() as Cosecha, cultivo)
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/cultivos/[id]/cosecha:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo cargar la cosecha' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/cultivos/[id]/cosecha
+ *
+ * Crea la cosecha o reemplaza sus datos; los campos enviados como null o '' se borran
+ */
+export const PUT = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const accesible = await buscarCultivo(connection, cultivoId, userEmail);
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite registrar la cosecha de este cultivo');
+    }
+    const { cultivo } = accesible;
+
+    const datos = await request.json();
+
+    // El desglose por planta solo admite plantas del cultivo y filas con algún peso
+    if (Array.isArray(datos.pesosPorPlanta)) {
+      const PlantaModel = getPlantaModel(connection);
+      const plantasCultivo = await PlantaModel.find({ cultivoId }).distinct('_id');
+      const idsValidos = new Set(plantasCultivo.map(id => id.toString()));
+      const pesos = (datos.pesosPorPlanta as PesoPlanta[]).filter(p =>
+        p && idsValidos.has(p.plantaId) && (p.pesoHumedo !== undefined || p.pesoSeco !== undefined)
+      );
+      datos.pesosPorPlanta = pesos.length > 0 ? pesos : null;
+    }
+
+    const CosechaModel = getCosechaModel(connection);
+    const cosecha = await CosechaModel.findOne({ cultivoId })
+      ?? new CosechaModel({ cultivoId, creadoPor: userEmail }); // 🔒 Se asigna al usuario actual
+
+    for (const campo of CAMPOS_EDITABLES) {
+      if (!(campo in datos)) continue;
+      const valor = datos[campo];
+      cosecha.set(campo, valor === '' || valor === null ? undefined : valor);
+    }
+    if (!cosecha.isNew) {
+      cosecha.fechaActualizacion = new Date().toISOString();
+      cosecha.editadoPor = userEmail;
+    }
+
+    const guardada = await cosecha.save();
+
+    return NextResponse.json({
+      success: true,
+      data: conMetricas(guardada.toJSON() as Cosecha, cultivo),
+      message: 'Cosecha guardada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en PUT /api/cultivos/[id]/cosecha:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo guardar la cosecha' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/cultivos/[id]/cosecha
+ */
+export const DELETE = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const accesible = await buscarCultivo(connection, cultivoId, userEmail);
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite eliminar la cosecha de este cultivo');
+    }
+
+    const eliminada = await getCosechaModel(connection).findOneAndDelete({ cultivoId });
+
+    if (!eliminada) {
+      return NextResponse.json(
+        { success: false, error: 'Cosecha no encontrada', message: 'No se encontró la cosecha o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: eliminada.toJSON(),
+      message: 'Cosecha eliminada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/cultivos/[id]/cosecha:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo eliminar la cosecha' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,164 @@
+/**
+ * API Route para diagnósticos individuales de un cultivo
+ *
+ * Endpoints:
+ * - PATCH /api/cultivos/[id]/diagnosticos/[diagnosticoId] - Cambia el estado de seguimiento
+ *   Body: { estado: 'abierto' | 'en_seguimiento' | 'resuelto' }
+ * - DELETE /api/cultivos/[id]/diagnosticos/[diagnosticoId] - Elimina el diagnóstico (las tareas creadas se conservan)
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getDiagnosticoModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+import { adjuntarEstadoTareas } from '@/lib/utils/seguimientoDiagnosticos';
+import type { Diagnostico, EstadoDiagnostico } from '@/types/diagnostico';
+
+const ESTADOS: EstadoDiagnostico[] = ['abierto', 'en_seguimiento', 'resuelto'];
+
+/**
+ * Extrae los IDs de cultivo y diagnóstico desde la URL
+ */
+function extraerIds(request: Request): { cultivoId?: string; diagnosticoId?: string } {
+  const segmentos = new URL(request.url).pathname.split('/');
+  return {
+    cultivoId: segmentos[segmentos.indexOf('cultivos') + 1],
+    diagnosticoId: segmentos[segmentos.indexOf('diagnosticos') + 1]
+  };
+}
+
+/**
+ * PATCH /api/cultivos/[id]/diagnosticos/[diagnosticoId] - Actualiza el estado verificando permisos sobre el cultivo
+ */
+export const PATCH = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const { cultivoId, diagnosticoId } = extraerIds(request);
+
+    if (!diagnosticoId || !mongoose.Types.ObjectId.isValid(diagnosticoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID proporcionado no es válido' },
+        { status: 400 }
+      );
+    }
+
+    const { estado } = await request.json() as { estado?: EstadoDiagnostico };
+    if (!estado || !ESTADOS.includes(estado)) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: `El estado debe ser uno de: ${ESTADOS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite editar los diagnósticos de este cultivo');
+    }
+
+    const DiagnosticoModel = getDiagnosticoModel(connection);
+    const diagnosticoActualizado = await DiagnosticoModel.findOneAndUpdate(
+      { _id: diagnosticoId, cultivoId }, // 🔒 FILTRO DE SEGURIDAD
+      {
+        estado,
+        fechaResolucion: estado === 'resuelto' ? new Date().toISOString() : undefined,
+        fechaActualizacion: new Date().toISOString(),
+        editadoPor: userEmail
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!diagnosticoActualizado) {
+      return NextResponse.json(
+        { success: false, error: 'Diagnóstico no encontrado', message: 'No se encontró el diagnóstico o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    const [diagnostico] = await adjuntarEstadoTareas(
+      connection,
+      [diagnosticoActualizado.toJSON() as unknown as Diagnostico],
+      diagnosticoActualizado.cultivoId
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: diagnostico,
+      message: 'Diagnóstico actualizado exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en PATCH /api/cultivos/[id]/diagnosticos/[diagnosticoId]:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo actualizar el diagnóstico' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/cultivos/[id]/diagnosticos/[diagnosticoId] - Elimina diagnóstico verificando permisos sobre el cultivo
+ */
+export const DELETE = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const { cultivoId, diagnosticoId } = extraerIds(request);
+
+    if (!diagnosticoId || !mongoose.Types.ObjectId.isValid(diagnosticoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID proporcionado no es válido' },
+        { status: 400 }
+      );
+    }
+
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite eliminar diagnósticos de este cultivo');
+    }
+
+    const DiagnosticoModel = getDiagnosticoModel(connection);
+    const diagnosticoEliminado = await DiagnosticoModel.findOneAndDelete({ _id: diagnosticoId, cultivoId }); // 🔒 FILTRO DE SEGURIDAD
+
+    if (!diagnosticoEliminado) {
+      return NextResponse.json(
+        { success: false, error: 'Diagnóstico no encontrado', message: 'No se encontró el diagnóstico o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: diagnosticoEliminado.toJSON(),
+      message: 'Diagnóstico eliminado exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/cultivos/[id]/diagnosticos/[diagnosticoId]:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo eliminar el diagnóstico' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,177 @@
+/**
+ * API Route para convertir las acciones sugeridas de un diagnóstico en tareas
+ *
+ * Endpoints:
+ * - POST /api/cultivos/[id]/diagnosticos/[diagnosticoId]/tareas - Crea tareas de monitoreo o mantenimiento
+ *   Body opcional: { accionIds?: string[] } (por defecto, todas las acciones sin tarea)
+ *
+ * Cada acción guarda el ID de su tarea, por lo que repetir la llamada no duplica tareas.
+ * El diagnóstico pasa a 'en_seguimiento' si estaba abierto.
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getDiagnosticoModel, getTareaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+import { accionesATareas } from '@/lib/utils/diagnosticosIA';
+import { adjuntarEstadoTareas } from '@/lib/utils/seguimientoDiagnosticos';
+import type { Diagnostico } from '@/types/diagnostico';
+
+/**
+ * Interpreta el body opcional { accionIds }
+ * @returns Los IDs pedidos, undefined si no se indicaron (todas las acciones) o null si el body no es válido
+ */
+function leerAccionIds(texto: string): string[] | undefined | null {
+  if (!texto.trim()) return undefined;
+
+  let datos: unknown;
+  try {
+    datos = JSON.parse(texto);
+  } catch {
+    return null;
+  }
+
+  const accionIds = (datos as { accionIds?: unknown } | null)?.accionIds;
+  if (accionIds === undefined) return undefined;
+  return Array.isArray(accionIds) && accionIds.every(id => typeof id === 'string' && id) ? accionIds : null;
+}
+
+/**
+ * POST /api/cultivos/[id]/diagnosticos/[diagnosticoId]/tareas
+ */
+export const POST = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const segmentos = new URL(request.url).pathname.split('/');
+    const cultivoId = segmentos[segmentos.indexOf('cultivos') + 1];
+    const diagnosticoId = segmentos[segmentos.indexOf('diagnosticos') + 1];
+
+    if (!diagnosticoId || !mongoose.Types.ObjectId.isValid(diagnosticoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID proporcionado no es válido' },
+        { status: 400 }
+      );
+    }
+
+    // El body es opcional; si viene, debe ser JSON con una lista de IDs de acciones
+    const accionIds = leerAccionIds(await request.text());
+    if (accionIds === null) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El cuerpo debe ser JSON con accionIds: una lista de IDs de acciones del diagnóstico' },
+        { status: 422 }
+      );
+    }
+
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite crear tareas en este cultivo');
+    }
+
+    const DiagnosticoModel = getDiagnosticoModel(connection);
+    const diagnosticoDoc = await DiagnosticoModel.findOne({ _id: diagnosticoId, cultivoId }); // 🔒 FILTRO DE SEGURIDAD
+
+    if (!diagnosticoDoc) {
+      return NextResponse.json(
+        { success: false, error: 'Diagnóstico no encontrado', message: 'No se encontró el diagnóstico o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    // Las acciones cuya tarea fue eliminada vuelven a estar disponibles
+    const [diagnostico] = await adjuntarEstadoTareas(
+      connection,
+      [diagnosticoDoc.toJSON() as unknown as Diagnostico],
+      cultivoId
+    );
+    const pendientes = diagnostico.acciones.filter(accion =>
+      !accion.tareaId && (!accionIds || accionIds.includes(accion.id))
+    );
+
+    if (pendientes.length === 0) {
+      return NextResponse.json({
+        success: true,
+        data: { diagnostico, creadas: 0 },
+        message: 'Todas las acciones seleccionadas ya tienen una tarea'
+      });
+    }
+
+    const hoy = new Date().toISOString().split('T')[0];
+    const ahora = new Date().toISOString();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const TareaModel = getTareaModel(connection) as any;
+    const tareasCreadas = await TareaModel.insertMany(
+      accionesATareas(diagnostico, pendientes, hoy).map(tarea => ({
+        ...tarea,
+        fechaCreacion: hoy,
+        fechaActualizacion: ahora,
+        creadoPor: userEmail, // 🔒 Se asigna al usuario actual
+        organizacionId: accesible.cultivo.organizacionId, // 🔒 Y a la organización dueña del cultivo
+        recordatorioEnviado: false
+      }))
+    );
+
+    const tareaPorAccion = new Map<string, string>(
+      pendientes.map((accion, indice) => [accion.id, tareasCreadas[indice]._id.toString()])
+    );
+
+    // estadoTarea se calcula al leer; no se guarda
+    diagnosticoDoc.acciones = diagnostico.acciones.map(accion => ({
+      ...accion,
+      tareaId: tareaPorAccion.get(accion.id) ?? accion.tareaId,
+      estadoTarea: undefined
+    }));
+    if (diagnosticoDoc.estado === 'abierto') diagnosticoDoc.estado = 'en_seguimiento';
+    diagnosticoDoc.fechaActualizacion = ahora;
+    diagnosticoDoc.editadoPor = userEmail;
+    await diagnosticoDoc.save();
+
+    const [actualizado] = await adjuntarEstadoTareas(
+      connection,
+      [diagnosticoDoc.toJSON() as unknown as Diagnostico],
+      cultivoId
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { diagnostico: actualizado, creadas: tareasCreadas.length },
+      message: `Se crearon ${tareasCreadas.length} tareas a partir del diagnóstico`
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/cultivos/[id]/diagnosticos/[diagnosticoId]/tareas:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudieron crear las tareas' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,243 @@
+/**
+ * API Route para el historial de diagnósticos de salud de un cultivo
+ *
+ * El Doctor IA analiza una imagen del cultivo y el resultado se guarda como un
+ * diagnóstico con problemas detectados, severidad y acciones sugeridas, vinculado
+ * a la imagen de la galería cuando se eligió desde allí.
+ *
+ * Endpoints:
+ * - GET /api/cultivos/[id]/diagnosticos - Historial de diagnósticos (más recientes primero)
+ * - POST /api/cultivos/[id]/diagnosticos - Analiza una imagen y guarda el diagnóstico
+ *   Body: { contexto: ContextoCultivo, imagen: ImagenPayload, imagenId?: string }
+ *
+ * El análisis consume la cuota mensual de IA del usuario (429 con ErrorCuotaIA si está agotada)
+ * y requiere suscripción activa o prueba vigente (402).
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getDiagnosticoModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+import { obtenerProveedorIA, ErrorProveedorIA } from '@/lib/services/proveedoresIA';
+import { reservarCuotaIA, crearErrorCuotaIA, registrarConsumoIA } from '@/lib/utils/cuotasIA';
+import { construirPedidoDiagnostico, interpretarDiagnostico } from '@/lib/utils/diagnosticosIA';
+import { adjuntarEstadoTareas } from '@/lib/utils/seguimientoDiagnosticos';
+import type { ContextoCultivo, ImagenPayload } from '@/types/chat';
+import type { ImagenCultivo } from '@/types/cultivo';
+import type { ErrorCuotaIA } from '@/types/cuotaIA';
+import type { Diagnostico } from '@/types/diagnostico';
+
+/**
+ * Extrae el ID del cultivo desde la URL (/api/cultivos/[id]/diagnosticos)
+ */
+function extraerCultivoId(request: Request): string | undefined {
+  const segmentos = new URL(request.url).pathname.split('/');
+  return segmentos[segmentos.indexOf('cultivos') + 1];
+}
+
+/**
+ * GET /api/cultivos/[id]/diagnosticos
+ *
+ * Parámetros de query soportados:
+ * - estado: abierto | en_seguimiento | resuelto
+ * - _limit: límite de diagnósticos (por defecto 50)
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    // Verificar que el cultivo sea de la organización o esté compartido con el usuario
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para verlo' },
+        { status: 404 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const estado = url.searchParams.get('estado');
+    const limit = Math.min(parseInt(url.searchParams.get('_limit') || '50'), 200);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const query: any = { cultivoId };
+    if (estado) query.estado = estado;
+
+    const DiagnosticoModel = getDiagnosticoModel(connection);
+    const diagnosticosDocs = await DiagnosticoModel.find(query)
+      .sort({ fechaCreacion: -1 })
+      .limit(limit);
+
+    const total = await DiagnosticoModel.countDocuments(query);
+    const diagnosticos = await adjuntarEstadoTareas(
+      connection,
+      diagnosticosDocs.map(doc => doc.toJSON() as unknown as Diagnostico),
+      cultivoId
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: diagnosticos,
+      total
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/cultivos/[id]/diagnosticos:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudieron cargar los diagnósticos' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/cultivos/[id]/diagnosticos
+ *
+ * Envía la imagen al proveedor de IA, interpreta el diagnóstico y lo guarda
+ */
+export const POST = requireAuth({ subscription: true })(async (request: Request, { email: userEmail }) => {
+  try {
+    const proveedor = obtenerProveedorIA();
+    if (!proveedor) {
+      return NextResponse.json({
+        success: false,
+        error: 'El servicio de inteligencia artificial no está configurado.',
+        message: 'Definir AI_PROVIDER y las credenciales del proveedor (N8N_CHAT_WEBHOOK_URL u OPENAI_API_KEY)'
+      }, { status: 503 });
+    }
+
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const { contexto, imagen, imagenId } = await request.json() as {
+      contexto?: ContextoCultivo;
+      imagen?: ImagenPayload;
+      imagenId?: string;
+    };
+
+    if (!contexto?.nombre || !imagen?.base64 || !imagen.mimeType) {
+      return NextResponse.json(
+        { success: false, error: 'Faltan datos requeridos', message: 'Se requiere el contexto del cultivo y la imagen a analizar' },
+        { status: 400 }
+      );
+    }
+
+    const contextoOrganizacion = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contextoOrganizacion, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite diagnosticar este cultivo');
+    }
+    const { cultivo } = accesible;
+
+    // La imagen de la galería debe pertenecer al cultivo
+    let imagenGaleria: ImagenCultivo | undefined;
+    if (imagenId) {
+      imagenGaleria = (cultivo.galeria as ImagenCultivo[] | undefined)?.find(img => img.id === imagenId);
+      if (!imagenGaleria) {
+        return NextResponse.json(
+          { success: false, error: 'Imagen no encontrada', message: 'La imagen no pertenece a la galería del cultivo' },
+          { status: 404 }
+        );
+      }
+    }
+
+    // 🔒 Verificar y reservar la cuota mensual del usuario (una imagen por diagnóstico)
+    const { uso, recursoAgotado } = await reservarCuotaIA(connection, userEmail, 1);
+    if (recursoAgotado) {
+      return NextResponse.json<ErrorCuotaIA>(crearErrorCuotaIA(recursoAgotado, uso), { status: 429 });
+    }
+
+    const respuesta = await proveedor.generarRespuesta({
+      message: construirPedidoDiagnostico(),
+      cultivoContext: contexto,
+      email: userEmail,
+      imagenes: [imagen],
+      formatoRespuesta: 'json'
+    }, request.signal);
+
+    // El consumo se registra aunque la respuesta no se pueda interpretar: los tokens ya se gastaron
+    await registrarConsumoIA(connection, userEmail, respuesta.tokens)
+      .catch(err => console.error('⚠️ No se pudo registrar el consumo de IA:', err));
+
+    let interpretado: ReturnType<typeof interpretarDiagnostico>;
+    try {
+      interpretado = interpretarDiagnostico(respuesta.contenido);
+    } catch (error) {
+      console.error('❌ Diagnóstico de IA inválido:', respuesta.contenido.substring(0, 200));
+      return NextResponse.json({
+        success: false,
+        error: 'La IA no devolvió un diagnóstico válido. Por favor intenta de nuevo.',
+        message: error instanceof Error ? error.message : 'Formato de respuesta inesperado'
+      }, { status: 502 });
+    }
+
+    const DiagnosticoModel = getDiagnosticoModel(connection);
+    const nuevoDiagnostico = new DiagnosticoModel({
+      ...interpretado,
+      cultivoId,
+      imagenId: imagenGaleria?.id,
+      imagenUrl: imagenGaleria?.url,
+      estado: 'abierto',
+      proveedor: respuesta.proveedor,
+      modelo: respuesta.modelo,
+      tokens: respuesta.tokens,
+      fechaCreacion: new Date().toISOString(),
+      creadoPor: userEmail // 🔒 Se asigna al usuario actual
+    });
+    const diagnosticoGuardado = await nuevoDiagnostico.save();
+
+    return NextResponse.json({
+      success: true,
+      data: diagnosticoGuardado.toJSON(),
+      message: 'Diagnóstico guardado exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/cultivos/[id]/diagnosticos:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ErrorProveedorIA) {
+      return NextResponse.json({
+        success: false,
+        error: error.esTimeout
+          ? 'El análisis de la imagen está tomando más tiempo de lo esperado. Por favor intenta de nuevo.'
+          : 'Error al comunicarse con el servicio de inteligencia artificial.',
+        message: error.message
+      }, { status: error.esTimeout ? 504 : 502 });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo guardar el diagnóstico' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,70 @@
+/**
+ * API Route para lecturas individuales de un cultivo
+ *
+ * Endpoints:
+ * - DELETE /api/cultivos/[id]/lecturas/[lecturaId] - Elimina una lectura cargada por error
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getLecturaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+
+/**
+ * DELETE /api/cultivos/[id]/lecturas/[lecturaId] - Elimina lectura verificando permisos sobre el cultivo
+ */
+export const DELETE = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const LecturaModel = getLecturaModel(connection);
+
+    // Extraer IDs desde la URL
+    const segmentos = new URL(request.url).pathname.split('/');
+    const lecturaId = segmentos.pop();
+    const cultivoId = segmentos[segmentos.indexOf('cultivos') + 1];
+
+    if (!lecturaId || !mongoose.Types.ObjectId.isValid(lecturaId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID proporcionado no es válido' },
+        { status: 400 }
+      );
+    }
+
+    // 🔒 El cultivo debe ser accesible y el rol debe permitir editarlo
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId);
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite eliminar lecturas de este cultivo');
+    }
+
+    // Eliminar SOLO si pertenece al cultivo indicado
+    const lecturaEliminada = await LecturaModel.findOneAndDelete({ _id: lecturaId, cultivoId }); // 🔒 FILTRO DE SEGURIDAD
+
+    if (!lecturaEliminada) {
+      return NextResponse.json(
+        { success: false, error: 'Lectura no encontrada', message: 'No se encontró la lectura o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: lecturaEliminada.toJSON(),
+      message: 'Lectura eliminada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/cultivos/[id]/lecturas/[lecturaId]:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo eliminar la lectura' },
+      { status: 500 }
+    );
+  }
+});
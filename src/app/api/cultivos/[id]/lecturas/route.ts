@@ -0,0 +1,210 @@
+/**
+ * API Route para lecturas ambientales de un cultivo con MongoDB
+ *
+ * Registra y consulta las mediciones reales (temperatura, humedad, EC, pH, agua)
+ * asociadas a un cultivo, complementando los objetivos definidos en el mismo.
+ *
+ * Endpoints:
+ * - GET /api/cultivos/[id]/lecturas - Lista lecturas por rango de fechas o agregados diarios
+ * - POST /api/cultivos/[id]/lecturas - Registra una nueva lectura
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getLecturaModel } from '@/lib/mongodb';
+import { normalizarFechaLectura } from '@/lib/models/Lectura';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+import { evaluarAlertasCultivo } from '@/lib/utils/alertas';
+
+/**
+ * Extrae el ID del cultivo desde la URL (/api/cultivos/[id]/lecturas)
+ */
+function extraerCultivoId(request: Request): string | undefined {
+  const segmentos = new URL(request.url).pathname.split('/');
+  return segmentos[segmentos.indexOf('cultivos') + 1];
+}
+
+/**
+ * Normaliza los límites del rango para compararlos contra fechas ISO
+ * Una fecha YYYY-MM-DD en "hasta" incluye el día completo
+ */
+function normalizarRango(desde: string | null, hasta: string | null) {
+  return {
+    desde: desde ? normalizarFechaLectura(desde) ?? desde : undefined,
+    hasta: hasta && /^\d{4}-\d{2}-\d{2}$/.test(hasta) ? `${hasta}T23:59:59.999Z` : hasta ? normalizarFechaLectura(hasta) ?? hasta : undefined
+  };
+}
+
+/**
+ * GET /api/cultivos/[id]/lecturas
+ *
+ * Parámetros de query soportados:
+ * - desde / hasta: rango de fechas (ISO o YYYY-MM-DD)
+ * - agregado=diario: devuelve promedio, mínimo y máximo por día
+ * - _limit: límite de lecturas (por defecto 500)
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    // Verificar que el cultivo sea de la organización o esté compartido con el usuario
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para verlo' },
+        { status: 404 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const { desde, hasta } = normalizarRango(url.searchParams.get('desde'), url.searchParams.get('hasta'));
+    const agregado = url.searchParams.get('agregado');
+    const limit = Math.min(parseInt(url.searchParams.get('_limit') || '500'), 5000);
+
+    const LecturaModel = getLecturaModel(connection);
+
+    if (agregado === 'diario') {
+      const agregados = await LecturaModel.getAgregadosDiarios(cultivoId, desde, hasta);
+      return NextResponse.json({
+        success: true,
+        data: agregados,
+        total: agregados.length
+      });
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const query: any = { cultivoId }; // Las lecturas son del cultivo, las haya cargado quien las haya cargado
+    if (desde || hasta) {
+      query.fecha = {};
+      if (desde) query.fecha.$gte = desde;
+      if (hasta) query.fecha.$lte = hasta;
+    }
+
+    const lecturasDocs = await LecturaModel.find(query)
+      .sort({ fecha: -1 })
+      .limit(limit);
+
+    const total = await LecturaModel.countDocuments(query);
+
+    return NextResponse.json({
+      success: true,
+      data: lecturasDocs.map(doc => doc.toJSON()),
+      total
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/cultivos/[id]/lecturas:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudieron cargar las lecturas' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/cultivos/[id]/lecturas
+ *
+ * Registra una nueva lectura para el cultivo
+ */
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite registrar lecturas en este cultivo');
+    }
+
+    const lecturaData = await request.json();
+    delete lecturaData._id;
+    delete lecturaData.id;
+    delete lecturaData.dispositivoId; // Solo la ingesta de dispositivos asigna estos campos
+    delete lecturaData.claveIdempotencia;
+
+    // Fecha en ISO UTC para que los rangos y agregados diarios comparen bien
+    const fecha = lecturaData.fecha ? normalizarFechaLectura(lecturaData.fecha) : new Date().toISOString();
+    if (!fecha) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'La fecha debe ser una fecha ISO válida (ej: 2026-10-20T08:30:00-03:00)' },
+        { status: 400 }
+      );
+    }
+
+    const LecturaModel = getLecturaModel(connection);
+    const nuevaLectura = new LecturaModel({
+      ...lecturaData,
+      cultivoId,
+      fecha,
+      fechaCreacion: new Date().toISOString().split('T')[0],
+      origen: 'manual', // Solo la ingesta de dispositivos registra lecturas de sensor
+      creadoPor: userEmail // 🔒 Se asigna al usuario actual
+    });
+    const lecturaGuardada = await nuevaLectura.save();
+
+    // Evaluar reglas de alerta con la nueva medición (no bloquea el registro si falla)
+    try {
+      await evaluarAlertasCultivo(connection, cultivoId);
+    } catch (alertaError) {
+      console.error('Error evaluando alertas tras registrar lectura:', alertaError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: lecturaGuardada.toJSON(),
+      message: 'Lectura registrada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/cultivos/[id]/lecturas:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo registrar la lectura' },
+      { status: 500 }
+    );
+  }
+});
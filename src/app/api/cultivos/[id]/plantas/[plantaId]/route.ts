@@ -0,0 +1,198 @@
+/**
+ * API Route para plantas individuales de un cultivo
+ *
+ * Endpoints:
+ * - PATCH /api/cultivos/[id]/plantas/[plantaId] - Edita etiqueta, genética, fenotipo, posición o estado
+ *   Body: Partial<PlantaEntrada> (posicion: null la quita de la grilla)
+ * - DELETE /api/cultivos/[id]/plantas/[plantaId] - Elimina la planta y quita su referencia de
+ *   tareas, comentarios, imágenes y pesos de cosecha (los registros se conservan a nivel cultivo)
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import {
+  connectToUserDB,
+  getPlantaModel,
+  getTareaModel,
+  getComentarioModel,
+  getCultivoModel,
+  getCosechaModel
+} from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+
+/**
+ * Campos de la planta que puede modificar el cliente
+ */
+const CAMPOS_EDITABLES = ['etiqueta', 'genetica', 'notasFenotipo', 'posicion', 'estado'] as const;
+
+/**
+ * Extrae los IDs de cultivo y planta desde la URL
+ */
+function extraerIds(request: Request): { cultivoId?: string; plantaId?: string } {
+  const segmentos = new URL(request.url).pathname.split('/');
+  return {
+    cultivoId: segmentos[segmentos.indexOf('cultivos') + 1],
+    plantaId: segmentos[segmentos.indexOf('plantas') + 1]
+  };
+}
+
+/**
+ * PATCH /api/cultivos/[id]/plantas/[plantaId] - Actualiza la planta verificando permisos sobre el cultivo
+ */
+export const PATCH = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const { cultivoId, plantaId } = extraerIds(request);
+
+    if (!plantaId || !mongoose.Types.ObjectId.isValid(plantaId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID proporcionado no es válido' },
+        { status: 400 }
+      );
+    }
+
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite editar las plantas de este cultivo');
+    }
+
+    const datos = await request.json();
+    const PlantaModel = getPlantaModel(connection);
+    const planta = await PlantaModel.findOne({ _id: plantaId, cultivoId }); // 🔒 FILTRO DE SEGURIDAD
+
+    if (!planta) {
+      return NextResponse.json(
+        { success: false, error: 'Planta no encontrada', message: 'No se encontró la planta o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    for (const campo of CAMPOS_EDITABLES) {
+      if (datos[campo] === undefined) continue;
+      planta.set(campo, datos[campo] === null || datos[campo] === '' ? undefined : datos[campo]);
+    }
+    planta.fechaActualizacion = new Date().toISOString().split('T')[0];
+    planta.editadoPor = userEmail;
+
+    const plantaGuardada = await planta.save();
+
+    return NextResponse.json({
+      success: true,
+      data: plantaGuardada.toJSON(),
+      message: 'Planta actualizada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en PATCH /api/cultivos/[id]/plantas/[plantaId]:', error);
+
+    if (typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000) {
+      return NextResponse.json(
+        { success: false, error: 'Planta duplicada', message: 'Ya existe una planta con esa etiqueta o en esa posición' },
+        { status: 409 }
+      );
+    }
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo actualizar la planta' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/cultivos/[id]/plantas/[plantaId] - Elimina la planta verificando permisos sobre el cultivo
+ */
+export const DELETE = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const { cultivoId, plantaId } = extraerIds(request);
+
+    if (!plantaId || !mongoose.Types.ObjectId.isValid(plantaId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID proporcionado no es válido' },
+        { status: 400 }
+      );
+    }
+
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite eliminar plantas de este cultivo');
+    }
+
+    const PlantaModel = getPlantaModel(connection);
+    const plantaEliminada = await PlantaModel.findOneAndDelete({ _id: plantaId, cultivoId }); // 🔒 FILTRO DE SEGURIDAD
+
+    if (!plantaEliminada) {
+      return NextResponse.json(
+        { success: false, error: 'Planta no encontrada', message: 'No se encontró la planta o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    // Quitar la referencia de los registros asociados (quedan como registros del cultivo)
+    const filtro = { cultivoId, plantaId, organizacionId: accesible.cultivo.organizacionId }; // 🔒 FILTRO DE SEGURIDAD
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const CultivoModel = getCultivoModel(connection) as any;
+    await Promise.all([
+      getTareaModel(connection).updateMany(filtro, { $unset: { plantaId: '' } }),
+      getComentarioModel(connection).updateMany(filtro, { $unset: { plantaId: '' } }),
+      CultivoModel.updateOne(
+        { _id: cultivoId },
+        { $unset: { 'galeria.$[imagen].plantaId': '' } },
+        { arrayFilters: [{ 'imagen.plantaId': plantaId }] }
+      ),
+      getCosechaModel(connection).updateMany(
+        { cultivoId },
+        { $pull: { pesosPorPlanta: { plantaId } } }
+      )
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: plantaEliminada.toJSON(),
+      message: 'Planta eliminada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/cultivos/[id]/plantas/[plantaId]:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo eliminar la planta' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,220 @@
+/**
+ * API Route para las plantas individuales de un cultivo
+ *
+ * Cada planta tiene etiqueta, código para QR, genética, notas de fenotipo, posición
+ * en la grilla y estado. Tareas, comentarios, imágenes y pesos de cosecha la
+ * referencian con plantaId.
+ *
+ * Endpoints:
+ * - GET /api/cultivos/[id]/plantas - Lista las plantas del cultivo (por fila y columna)
+ * - POST /api/cultivos/[id]/plantas - Registra una planta
+ *   Body: PlantaEntrada, o { cantidad: n } para generar n plantas P1..Pn en posiciones libres
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getPlantaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+import { siguientesEtiquetas, posicionesLibres, columnasGrilla, MAX_PLANTAS_POR_CULTIVO } from '@/lib/utils/plantas';
+import type { Planta, PosicionPlanta } from '@/types/planta';
+
+/**
+ * Campos de la planta que puede enviar el cliente
+ */
+const CAMPOS_EDITABLES = ['etiqueta', 'genetica', 'notasFenotipo', 'posicion', 'estado'] as const;
+
+/**
+ * Extrae el ID del cultivo desde la URL (/api/cultivos/[id]/plantas)
+ */
+function extraerCultivoId(request: Request): string | undefined {
+  const segmentos = new URL(request.url).pathname.split('/');
+  return segmentos[segmentos.indexOf('cultivos') + 1];
+}
+
+/**
+ * Indica si el error es por etiqueta o posición repetida (índices únicos)
+ */
+const esDuplicado = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+/**
+ * GET /api/cultivos/[id]/plantas
+ *
+ * Parámetros de query soportados:
+ * - estado: viva | madre | descartada
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    // Verificar que el cultivo sea de la organización o esté compartido con el usuario
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para verlo' },
+        { status: 404 }
+      );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const query: any = { cultivoId };
+    const estado = new URL(request.url).searchParams.get('estado');
+    if (estado) query.estado = estado;
+
+    const PlantaModel = getPlantaModel(connection);
+    const plantasDocs = await PlantaModel.find(query)
+      .sort({ 'posicion.fila': 1, 'posicion.columna': 1, etiqueta: 1 });
+
+    return NextResponse.json({
+      success: true,
+      data: plantasDocs.map(doc => doc.toJSON()),
+      total: plantasDocs.length
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/cultivos/[id]/plantas:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudieron cargar las plantas' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/cultivos/[id]/plantas
+ *
+ * Registra una planta o genera varias con etiquetas y posiciones automáticas
+ */
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const cultivoId = extraerCultivoId(request);
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite registrar plantas en este cultivo');
+    }
+    const { cultivo } = accesible;
+
+    const datos = await request.json();
+    const PlantaModel = getPlantaModel(connection);
+    const existentes: Pick<Planta, 'etiqueta' | 'posicion'>[] = await PlantaModel
+      .find({ cultivoId })
+      .select('etiqueta posicion')
+      .lean();
+
+    const cantidad = Number(datos.cantidad);
+    const aCrear = Number.isInteger(cantidad) && cantidad > 0 ? cantidad : 1;
+    if (existentes.length + aCrear > MAX_PLANTAS_POR_CULTIVO) {
+      return NextResponse.json(
+        { success: false, error: 'Límite de plantas alcanzado', message: `Un cultivo puede tener como máximo ${MAX_PLANTAS_POR_CULTIVO} plantas` },
+        { status: 400 }
+      );
+    }
+
+    const base = {
+      cultivoId,
+      fechaCreacion: new Date().toISOString().split('T')[0],
+      creadoPor: userEmail // 🔒 Se asigna al usuario actual
+    };
+
+    // Generación automática: etiquetas P1..Pn y posiciones libres de la grilla
+    if (datos.cantidad !== undefined) {
+      const ocupadas = existentes.map(p => p.posicion).filter((p): p is PosicionPlanta => Boolean(p));
+      const columnas = columnasGrilla(existentes, existentes.length + aCrear);
+      const etiquetas = siguientesEtiquetas(existentes.map(p => p.etiqueta), aCrear);
+      const posiciones = posicionesLibres(ocupadas, aCrear, columnas);
+
+      const creadas = await PlantaModel.insertMany(etiquetas.map((etiqueta, indice) => ({
+        ...base,
+        etiqueta,
+        genetica: cultivo.genetica,
+        posicion: posiciones[indice],
+        estado: 'viva'
+      })));
+
+      return NextResponse.json({
+        success: true,
+        data: creadas.map(doc => doc.toJSON()),
+        total: creadas.length,
+        message: `Se registraron ${creadas.length} plantas`
+      });
+    }
+
+    const plantaData: Record<string, unknown> = {};
+    for (const campo of CAMPOS_EDITABLES) {
+      if (datos[campo] !== undefined && datos[campo] !== null && datos[campo] !== '') plantaData[campo] = datos[campo];
+    }
+    if (!plantaData.etiqueta) {
+      plantaData.etiqueta = siguientesEtiquetas(existentes.map(p => p.etiqueta), 1)[0];
+    }
+
+    const nuevaPlanta = new PlantaModel({ ...plantaData, ...base });
+    const plantaGuardada = await nuevaPlanta.save();
+
+    return NextResponse.json({
+      success: true,
+      data: plantaGuardada.toJSON(),
+      message: 'Planta registrada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/cultivos/[id]/plantas:', error);
+
+    if (esDuplicado(error)) {
+      return NextResponse.json(
+        { success: false, error: 'Planta duplicada', message: 'Ya existe una planta con esa etiqueta o en esa posición' },
+        { status: 409 }
+      );
+    }
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo registrar la planta' },
+      { status: 500 }
+    );
+  }
+});
@@ -5,24 +5,36 @@
  * Proporciona validaciones automáticas del esquema y manejo optimizado de errores.
  *
  * Endpoints:
- * - GET /api/cultivos/[id] - Obtiene un cultivo específico
+ * - GET /api/cultivos/[id] - Obtiene un cultivo específico, con los permisos del usuario sobre él
  * - PATCH /api/cultivos/[id] - Actualiza un cultivo existente
  * - DELETE /api/cultivos/[id] - Elimina un cultivo
+ *
+ * GET y PATCH también aceptan a los invitados de la lista de acceso del cultivo
+ * (PATCH solo con rol editor); DELETE es exclusivo de la organización.
  */
 
 import { NextResponse } from 'next/server';
-import { withUserDB, getCultivoModel, connectToUserDB } from '@/lib/mongodb';
+import { getCultivoModel, connectToUserDB } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import {
+  obtenerContextoOrganizacion,
+  construirFiltroUsuario,
+  buscarCultivoAccesible,
+  puedeEliminarRecurso,
+  respuestaSinPermisos
+} from '@/lib/utils/multiTenancy';
 
 /**
  * GET /api/cultivos/[id]
  *
  * Obtiene un cultivo específico por su ID desde la base de datos global
- * Verifica que el cultivo pertenezca al usuario solicitante
+ * Verifica que el cultivo pertenezca a la organización del usuario o esté compartido con él
  */
-export const GET = withUserDB(async (request, userEmail) => {
+export const GET = requireAuth()(async (request, { email: userEmail }) => {
   try {
     // Obtener la conexión a la base de datos principal
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
 
     // Extraer ID desde la URL
     const url = new URL(request.url);
@@ -40,17 +52,10 @@ export const GET = withUserDB(async (request, userEmail) => {
       );
     }
 
-    // Obtener el modelo específico para esta conexión
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const CultivoModel = getCultivoModel(connection) as any;
-
-    // Buscar el cultivo por ID Y por creador (seguridad)
-    const cultivo = await CultivoModel.findOne({
-      _id: id,
-      creadoPor: userEmail // 🔒 FILTRO DE SEGURIDAD
-    }).lean();
+    // Buscar el cultivo por ID Y por organización o lista de acceso (seguridad)
+    const accesible = await buscarCultivoAccesible(connection, contexto, id); // 🔒 FILTRO DE SEGURIDAD
 
-    if (!cultivo) {
+    if (!accesible) {
       return NextResponse.json(
         {
           success: false,
@@ -61,12 +66,13 @@ export const GET = withUserDB(async (request, userEmail) => {
       );
     }
 
-    // Devolver el cultivo encontrado
+    // Devolver el cultivo encontrado junto con lo que el usuario puede hacer con él
     return NextResponse.json({
       success: true,
       data: {
-        ...cultivo,
-        id: cultivo._id.toString()
+        ...accesible.cultivo,
+        id: accesible.cultivo._id.toString(),
+        permisos: accesible.permisos
       }
     });
 
@@ -86,15 +92,17 @@ export const GET = withUserDB(async (request, userEmail) => {
 /**
  * PATCH /api/cultivos/[id]
  *
- * Actualiza un cultivo existente verificando la propiedad del usuario
+ * Actualiza un cultivo existente de la organización del usuario (owner o grower)
+ * o compartido con él como editor
  */
-export const PATCH = withUserDB(async (request, userEmail) => {
+export const PATCH = requireAuth()(async (request, { email: userEmail }) => {
   try {
     // console.log('🔍 PATCH /api/cultivos/[id] - Iniciando actualización...');
     // console.log('👤 Usuario:', userEmail);
 
     // Obtener la conexión a la base de datos principal
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
 
     // Extraer ID desde la URL
     const url = new URL(request.url);
@@ -124,8 +132,38 @@ export const PATCH = withUserDB(async (request, userEmail) => {
       );
     }
 
-    // Leer datos del request
-    const updates = await request.json();
+    // 🔒 Los viewers y los invitados sin rol editor solo pueden consultar
+    const accesible = await buscarCultivoAccesible(connection, contexto, id);
+    if (!accesible) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Cultivo no encontrado o no autorizado',
+          message: `No se encontró el cultivo o no tienes permisos para modificarlo`
+        },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite modificar este cultivo');
+    }
+    const { organizacionId } = accesible.cultivo;
+
+    // Leer datos del request (fechaActualizacionBase es solo para control de concurrencia)
+    const { fechaActualizacionBase, ...datos } = await request.json();
+
+    // Los operadores de MongoDB ($set, $unset...) no se aceptan desde el cliente
+    const updates: Record<string, unknown> = Object.fromEntries(
+      Object.entries(datos).filter(([campo]) => !campo.startsWith('$'))
+    );
+    delete updates._id; delete updates.id;
+    delete updates.creadoPor; // No permitir cambiar el creador
+    delete updates.organizacionId; // Ni moverlo a otra organización
+    delete updates.permisos; // Calculados por la API, no se guardan
+    if (updates.geneticaId === '') {
+      delete updates.geneticaId;
+      updates.$unset = { geneticaId: '' }; // Genética escrita a mano, fuera del catálogo
+    }
 
     // Obtener el modelo específico para esta conexión
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -134,13 +172,21 @@ export const PATCH = withUserDB(async (request, userEmail) => {
     // Agregar auditoría automáticamente
     const updatesConAuditoria = {
       ...updates,
-      fechaActualizacion: new Date().toISOString().split('T')[0],
+      organizacionId, // No se puede mover a otra organización
+      fechaActualizacion: new Date().toISOString(),
       editadoPor: userEmail
     };
 
-    // Actualizar el cultivo en MongoDB SOLO si pertenece al usuario
+    // Control de concurrencia optimista: con fechaActualizacionBase solo se aplica
+    // el cambio si nadie modificó el cultivo desde esa versión
+    const filtro: Record<string, unknown> = { _id: id, organizacionId }; // 🔒 FILTRO DE SEGURIDAD
+    if (typeof fechaActualizacionBase === 'string') {
+      filtro.fechaActualizacion = fechaActualizacionBase;
+    }
+
+    // Actualizar el cultivo en MongoDB SOLO si sigue en la organización verificada
     const cultivoActualizado = await CultivoModel.findOneAndUpdate(
-      { _id: id, creadoPor: userEmail }, // 🔒 FILTRO DE SEGURIDAD
+      filtro,
       updatesConAuditoria,
       {
         new: true,
@@ -149,6 +195,21 @@ export const PATCH = withUserDB(async (request, userEmail) => {
     ).lean();
 
     if (!cultivoActualizado) {
+      const actual = typeof fechaActualizacionBase === 'string'
+        ? await CultivoModel.findOne({ _id: id, organizacionId }).lean() // 🔒 FILTRO DE SEGURIDAD
+        : null;
+      if (actual) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Conflicto de edición',
+            message: 'El cultivo fue modificado después de tu última sincronización',
+            data: { ...actual, id: actual._id.toString(), permisos: accesible.permisos }
+          },
+          { status: 409 }
+        );
+      }
+
       return NextResponse.json(
         {
           success: false,
@@ -164,7 +225,8 @@ export const PATCH = withUserDB(async (request, userEmail) => {
       success: true,
       data: {
         ...cultivoActualizado,
-        id: cultivoActualizado._id.toString()
+        id: cultivoActualizado._id.toString(),
+        permisos: accesible.permisos
       },
       message: 'Cultivo actualizado exitosamente'
     });
@@ -187,12 +249,13 @@ export const PATCH = withUserDB(async (request, userEmail) => {
 /**
  * DELETE /api/cultivos/[id]
  *
- * Elimina un cultivo existente verificando la propiedad del usuario
+ * Elimina un cultivo existente de la organización (owner, o el grower que lo creó)
  */
-export const DELETE = withUserDB(async (request, userEmail) => {
+export const DELETE = requireAuth()(async (request, { email: userEmail }) => {
   try {
     // Obtener la conexión a la base de datos principal
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
 
     // Extraer ID desde la URL
     const url = new URL(request.url);
@@ -214,10 +277,10 @@ export const DELETE = withUserDB(async (request, userEmail) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const CultivoModel = getCultivoModel(connection) as any;
 
-    // Buscar y eliminar el cultivo SOLO si pertenece al usuario
-    const cultivoEliminado = await CultivoModel.findOneAndDelete({
+    // Buscar el cultivo SOLO si pertenece a la organización
+    const cultivoEliminado = await CultivoModel.findOne({
       _id: id,
-      creadoPor: userEmail // 🔒 FILTRO DE SEGURIDAD
+      ...construirFiltroUsuario(contexto) // 🔒 FILTRO DE SEGURIDAD
     }).lean();
 
     if (!cultivoEliminado) {
@@ -231,6 +294,13 @@ export const DELETE = withUserDB(async (request, userEmail) => {
       );
     }
 
+    // 🔒 Los growers solo eliminan lo que crearon; los viewers nada
+    if (!puedeEliminarRecurso(contexto, cultivoEliminado)) {
+      return respuestaSinPermisos('Tu rol en la organización no permite eliminar este cultivo');
+    }
+
+    await CultivoModel.deleteOne({ _id: cultivoEliminado._id });
+
     // Log de auditoría
     console.log(`🗑️ Cultivo eliminado por ${userEmail}:`, {
       id: cultivoEliminado._id,
@@ -17,7 +17,14 @@
  */
 
 import { NextResponse } from 'next/server';
-import { withUserDB, getCultivoModel, connectToUserDB } from '@/lib/mongodb';
+import { getCultivoModel, connectToUserDB } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import {
+  obtenerContextoOrganizacion,
+  construirFiltroCultivos,
+  puedeCrearRecursos,
+  respuestaSinPermisos
+} from '@/lib/utils/multiTenancy';
 import type { Cultivo as CultivoType } from '@/types/cultivo';
 import { FilterQuery } from 'mongoose';
 import type { CultivoDocument } from '@/lib/models/Cultivo';
@@ -38,11 +45,12 @@ import type { CultivoDocument } from '@/lib/models/Cultivo';
  * - _page: número de página para paginación
  * - _limit: límite de resultados por página
  */
-export const GET = withUserDB(async (request: Request, userEmail: string) => {
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
   try {
     // Obtener la conexión a la base de datos principal
     // El parámetro userEmail ya no determina la DB, pero lo mantenemos para compatibilidad de firma
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
 
     // Obtener parámetros de la URL
     const url = new URL(request.url);
@@ -55,7 +63,7 @@ export const GET = withUserDB(async (request: Request, userEmail: string) => {
 
     // Construir query de MongoDB con filtros base Y filtro de usuario
     const query: FilterQuery<CultivoDocument> = {
-      creadoPor: userEmail // 🔒 FILTRO DE SEGURIDAD: Solo cultivos del usuario
+      ...await construirFiltroCultivos(connection, contexto) // 🔒 FILTRO DE SEGURIDAD: Cultivos de la organización y compartidos
     };
 
     // Aplicar filtro por estado activo
@@ -155,10 +163,16 @@ export const GET = withUserDB(async (request: Request, userEmail: string) => {
  *
  * Crea un nuevo cultivo en la base de datos específica del usuario
  */
-export const POST = withUserDB(async (request: Request, userEmail: string) => {
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
   try {
     // Obtener la conexión específica del usuario
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+
+    // 🔒 Los viewers solo pueden consultar
+    if (!puedeCrearRecursos(contexto)) {
+      return respuestaSinPermisos('Tu rol en la organización no permite crear cultivos');
+    }
 
     // Leer el body de la petición
     const newCultivoData = await request.json();
@@ -168,7 +182,8 @@ export const POST = withUserDB(async (request: Request, userEmail: string) => {
       ...newCultivoData,
       fechaCreacion: newCultivoData.fechaCreacion || new Date().toISOString().split('T')[0],
       activo: newCultivoData.activo ?? true,
-      creadoPor: userEmail, // Todos los cultivos en esta DB pertenecen al usuario
+      creadoPor: userEmail,
+      organizacionId: contexto.organizacionId, // 🔒 El cultivo pertenece a la organización activa
     };
 
     // Obtener el modelo específico para esta conexión
@@ -0,0 +1,178 @@
+/**
+ * API Route para operaciones sobre un dispositivo específico
+ *
+ * Endpoints:
+ * - PATCH /api/dispositivos/[id] - Renombra, revoca/reactiva o rota la API key
+ * - DELETE /api/dispositivos/[id] - Elimina el dispositivo (sus lecturas se conservan)
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getDispositivoModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { generarApiKey } from '@/lib/models/Dispositivo';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+
+/**
+ * Extrae el ID del dispositivo desde la URL (/api/dispositivos/[id])
+ */
+function extraerDispositivoId(request: Request): string | undefined {
+  const segmentos = new URL(request.url).pathname.split('/');
+  return segmentos[segmentos.indexOf('dispositivos') + 1];
+}
+
+/**
+ * Verifica que el dispositivo sea de un cultivo que el usuario puede editar
+ * @returns null si puede modificarlo, o la respuesta de error a devolver
+ */
+async function verificarPermisoDispositivo(connection: mongoose.Connection, id: string, userEmail: string) {
+  const dispositivo = await getDispositivoModel(connection).findById(id).select('cultivoId').lean();
+  const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+  const accesible = dispositivo && await buscarCultivoAccesible(connection, contexto, dispositivo.cultivoId); // 🔒 FILTRO DE SEGURIDAD
+  if (!accesible) {
+    return NextResponse.json(
+      { success: false, error: 'Dispositivo no encontrado o no autorizado', message: 'No se encontró el dispositivo o no tienes permisos para modificarlo' },
+      { status: 404 }
+    );
+  }
+  if (!accesible.permisos.editar) {
+    return respuestaSinPermisos('Tu rol no permite administrar los dispositivos de este cultivo');
+  }
+  return null;
+}
+
+/**
+ * PATCH /api/dispositivos/[id]
+ *
+ * Campos soportados en el body:
+ * - nombre: nuevo nombre del dispositivo
+ * - activo: false revoca la API key, true la reactiva
+ * - rotarApiKey: true genera una nueva API key e invalida la anterior
+ */
+export const PATCH = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const id = extraerDispositivoId(request);
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del dispositivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const sinPermiso = await verificarPermisoDispositivo(connection, id, userEmail);
+    if (sinPermiso) return sinPermiso;
+
+    const { nombre, activo, rotarApiKey } = await request.json();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cambios: any = {};
+    if (nombre !== undefined) cambios.nombre = nombre;
+    if (typeof activo === 'boolean') cambios.activo = activo;
+
+    let apiKey: string | undefined;
+    if (rotarApiKey === true) {
+      const nuevaClave = generarApiKey();
+      apiKey = nuevaClave.apiKey;
+      cambios.apiKeyHash = nuevaClave.apiKeyHash;
+      cambios.prefijoApiKey = nuevaClave.prefijoApiKey;
+    }
+
+    const DispositivoModel = getDispositivoModel(connection);
+    const dispositivo = await DispositivoModel.findOneAndUpdate(
+      { _id: id },
+      { $set: cambios },
+      { new: true, runValidators: true }
+    );
+
+    if (!dispositivo) {
+      return NextResponse.json(
+        { success: false, error: 'Dispositivo no encontrado o no autorizado', message: 'No se encontró el dispositivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: apiKey
+        ? { dispositivo: dispositivo.toJSON(), apiKey }
+        : dispositivo.toJSON(),
+      message: apiKey
+        ? 'API key rotada exitosamente. Guarda la nueva clave: no se volverá a mostrar'
+        : 'Dispositivo actualizado exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en PATCH /api/dispositivos/[id]:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo actualizar el dispositivo' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/dispositivos/[id]
+ *
+ * Elimina el dispositivo. Las lecturas ya recibidas permanecen en el cultivo.
+ */
+export const DELETE = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const id = extraerDispositivoId(request);
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del dispositivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    const sinPermiso = await verificarPermisoDispositivo(connection, id, userEmail);
+    if (sinPermiso) return sinPermiso;
+
+    const DispositivoModel = getDispositivoModel(connection);
+    const eliminado = await DispositivoModel.findOneAndDelete({ _id: id });
+
+    if (!eliminado) {
+      return NextResponse.json(
+        { success: false, error: 'Dispositivo no encontrado o no autorizado', message: 'No se encontró el dispositivo o no tienes permisos para eliminarlo' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Dispositivo eliminado exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/dispositivos/[id]:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo eliminar el dispositivo' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,157 @@
+/**
+ * API Route para gestión de dispositivos de sensores con MongoDB
+ *
+ * Permite registrar controladores (ej: ESP32) asociados a un cultivo.
+ * Cada dispositivo recibe una API key propia para enviar lecturas sin JWT.
+ *
+ * Endpoints:
+ * - GET /api/dispositivos - Lista los dispositivos de los cultivos accesibles (filtrable por cultivoId)
+ * - POST /api/dispositivos - Registra un dispositivo y devuelve su API key (una sola vez)
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getCultivoModel, getDispositivoModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import {
+  obtenerContextoOrganizacion,
+  buscarCultivoAccesible,
+  construirFiltroCultivos,
+  respuestaSinPermisos
+} from '@/lib/utils/multiTenancy';
+import { generarApiKey } from '@/lib/models/Dispositivo';
+
+/**
+ * GET /api/dispositivos
+ *
+ * Parámetros de query soportados:
+ * - cultivoId: filtra los dispositivos de un cultivo
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const DispositivoModel = getDispositivoModel(connection);
+
+    const url = new URL(request.url);
+    const cultivoId = url.searchParams.get('cultivoId');
+
+    // 🔒 FILTRO DE SEGURIDAD: Solo dispositivos de cultivos de la organización o compartidos
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const query: any = {};
+    if (cultivoId) {
+      if (!await buscarCultivoAccesible(connection, contexto, cultivoId)) {
+        return NextResponse.json(
+          { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para verlo' },
+          { status: 404 }
+        );
+      }
+      query.cultivoId = cultivoId;
+    } else {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const CultivoModel = getCultivoModel(connection) as any;
+      const cultivoIds = await CultivoModel.find(await construirFiltroCultivos(connection, contexto)).distinct('_id');
+      query.cultivoId = { $in: cultivoIds.map((id: mongoose.Types.ObjectId) => id.toString()) };
+    }
+
+    const dispositivosDocs = await DispositivoModel.find(query).sort({ fechaCreacion: -1 });
+
+    return NextResponse.json({
+      success: true,
+      data: dispositivosDocs.map(doc => doc.toJSON()),
+      total: dispositivosDocs.length
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/dispositivos:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudieron cargar los dispositivos' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/dispositivos
+ *
+ * Registra un dispositivo para un cultivo que el usuario puede editar.
+ * La API key en texto plano solo se devuelve en esta respuesta.
+ */
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const { nombre, cultivoId } = await request.json();
+
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID del cultivo no tiene un formato válido' },
+        { status: 400 }
+      );
+    }
+
+    // Verificar que el cultivo sea accesible y que el rol permita editarlo
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const accesible = await buscarCultivoAccesible(connection, contexto, cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado o no autorizado', message: 'No se encontró el cultivo o no tienes permisos para modificarlo' },
+        { status: 404 }
+      );
+    }
+    if (!accesible.permisos.editar) {
+      return respuestaSinPermisos('Tu rol no permite registrar dispositivos en este cultivo');
+    }
+
+    const { apiKey, apiKeyHash, prefijoApiKey } = generarApiKey();
+
+    const DispositivoModel = getDispositivoModel(connection);
+    const nuevoDispositivo = new DispositivoModel({
+      nombre,
+      cultivoId,
+      apiKeyHash,
+      prefijoApiKey,
+      activo: true,
+      fechaCreacion: new Date().toISOString().split('T')[0],
+      creadoPor: userEmail // 🔒 Se asigna al usuario actual
+    });
+    const dispositivoGuardado = await nuevoDispositivo.save();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        dispositivo: dispositivoGuardado.toJSON(),
+        apiKey
+      },
+      message: 'Dispositivo registrado exitosamente. Guarda la API key: no se volverá a mostrar'
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/dispositivos:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo registrar el dispositivo' },
+      { status: 500 }
+    );
+  }
+});
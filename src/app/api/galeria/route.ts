@@ -4,6 +4,7 @@
  */
 import { NextResponse } from 'next/server';
 import { v2 as cloudinary } from 'cloudinary';
+import { requireAuth } from '@/lib/auth/requireAuth';
 
 /**
  * Tamaño máximo permitido para las imágenes (10MB)
@@ -58,7 +59,7 @@ const buildErrorResponse = (mensaje: string, status = 400) => {
  * Procesa la subida de imágenes de la galería de cultivos
  * Valida el archivo y lo sube directamente a Cloudinary
  */
-export async function POST(request: Request) {
+export const POST = requireAuth()(async (request: Request) => {
   try {
     // Verificar que las credenciales de Cloudinary estén configuradas
     if (!process.env.CLOUDINARY_CLOUD_NAME || !process.env.CLOUDINARY_API_KEY || !process.env.CLOUDINARY_API_SECRET) {
@@ -156,4 +157,4 @@ export async function POST(request: Request) {
 
     return buildErrorResponse('No se pudo procesar la imagen, intenta nuevamente más tarde.', 500);
   }
-}
+});
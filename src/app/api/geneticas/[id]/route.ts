@@ -0,0 +1,167 @@
+/**
+ * API Route para genéticas individuales del catálogo
+ *
+ * Endpoints:
+ * - PATCH /api/geneticas/[id] - Edita el perfil de la genética
+ *   Body: Partial<GeneticaEntrada> (null o '' borran los campos opcionales)
+ * - DELETE /api/geneticas/[id] - Elimina la genética; los cultivos que la usaban
+ *   conservan el nombre como texto
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getGeneticaModel, getCultivoModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+
+/**
+ * Campos de la genética que puede modificar el cliente
+ */
+const CAMPOS_EDITABLES = [
+  'nombre',
+  'banco',
+  'porcentajeIndica',
+  'semanasFloracion',
+  'autofloreciente',
+  'estiramiento',
+  'notas'
+] as const;
+
+/**
+ * PATCH /api/geneticas/[id] - Actualiza la genética verificando propiedad
+ */
+export const PATCH = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const id = new URL(request.url).pathname.split('/').pop();
+
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID proporcionado no es válido' },
+        { status: 400 }
+      );
+    }
+
+    const datos = await request.json();
+    const GeneticaModel = getGeneticaModel(connection);
+    const genetica = await GeneticaModel.findOne({ _id: id, creadoPor: userEmail }); // 🔒 FILTRO DE SEGURIDAD
+
+    if (!genetica) {
+      return NextResponse.json(
+        { success: false, error: 'Genética no encontrada', message: 'No se encontró la genética o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    const nombreAnterior = genetica.nombre;
+    for (const campo of CAMPOS_EDITABLES) {
+      if (datos[campo] === undefined) continue;
+      genetica.set(campo, datos[campo] === null || datos[campo] === '' ? undefined : datos[campo]);
+    }
+    genetica.fechaActualizacion = new Date().toISOString().split('T')[0];
+    genetica.editadoPor = userEmail;
+
+    const geneticaGuardada = await genetica.save();
+
+    // Los cultivos vinculados muestran el nombre nuevo
+    if (geneticaGuardada.nombre !== nombreAnterior) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const CultivoModel = getCultivoModel(connection) as any;
+      await CultivoModel.updateMany(
+        { geneticaId: id, creadoPor: userEmail }, // 🔒 FILTRO DE SEGURIDAD
+        { genetica: geneticaGuardada.nombre }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: geneticaGuardada.toJSON(),
+      message: 'Genética actualizada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en PATCH /api/geneticas/[id]:', error);
+
+    if (typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000) {
+      return NextResponse.json(
+        { success: false, error: 'Genética duplicada', message: 'Ya tienes una genética con ese nombre en el catálogo' },
+        { status: 409 }
+      );
+    }
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo actualizar la genética' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/geneticas/[id] - Elimina la genética verificando propiedad
+ */
+export const DELETE = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const id = new URL(request.url).pathname.split('/').pop();
+
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'El ID proporcionado no es válido' },
+        { status: 400 }
+      );
+    }
+
+    const GeneticaModel = getGeneticaModel(connection);
+    const geneticaEliminada = await GeneticaModel.findOneAndDelete({
+      _id: id,
+      creadoPor: userEmail // 🔒 FILTRO DE SEGURIDAD
+    });
+
+    if (!geneticaEliminada) {
+      return NextResponse.json(
+        { success: false, error: 'Genética no encontrada', message: 'No se encontró la genética o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    // Los cultivos conservan el nombre como texto libre
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const CultivoModel = getCultivoModel(connection) as any;
+    await CultivoModel.updateMany(
+      { geneticaId: id, creadoPor: userEmail }, // 🔒 FILTRO DE SEGURIDAD
+      { $unset: { geneticaId: '' } }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: geneticaEliminada.toJSON(),
+      message: 'Genética eliminada del catálogo'
+    });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/geneticas/[id]:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo eliminar la genética' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,130 @@
+/**
+ * API Route para el catálogo de genéticas del usuario
+ *
+ * Endpoints:
+ * - GET /api/geneticas - Lista las genéticas del catálogo (orden alfabético)
+ *   Query: q (busca en nombre y banco)
+ * - POST /api/geneticas - Agrega una genética al catálogo
+ *   Body: GeneticaEntrada
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB, getGeneticaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+
+/**
+ * Campos de la genética que puede enviar el cliente
+ */
+const CAMPOS_EDITABLES = [
+  'nombre',
+  'banco',
+  'porcentajeIndica',
+  'semanasFloracion',
+  'autofloreciente',
+  'estiramiento',
+  'notas'
+] as const;
+
+/**
+ * Escapa un texto para usarlo dentro de una expresión regular
+ */
+const escaparRegex = (texto: string): string => texto.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * GET /api/geneticas - Lista el catálogo del usuario
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const query: any = { creadoPor: userEmail }; // 🔒 FILTRO DE SEGURIDAD
+    const busqueda = new URL(request.url).searchParams.get('q')?.trim();
+    if (busqueda) {
+      const patron = new RegExp(escaparRegex(busqueda), 'i');
+      query.$or = [{ nombre: patron }, { banco: patron }];
+    }
+
+    const GeneticaModel = getGeneticaModel(connection);
+    const geneticasDocs = await GeneticaModel.find(query)
+      .collation({ locale: 'es', strength: 2 })
+      .sort({ nombre: 1 });
+
+    return NextResponse.json({
+      success: true,
+      data: geneticasDocs.map(doc => doc.toJSON()),
+      total: geneticasDocs.length
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/geneticas:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo cargar el catálogo de genéticas' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/geneticas - Crea una genética asignada al usuario actual
+ */
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const datos = await request.json();
+
+    const geneticaData: Record<string, unknown> = {};
+    for (const campo of CAMPOS_EDITABLES) {
+      if (datos[campo] !== undefined && datos[campo] !== null && datos[campo] !== '') geneticaData[campo] = datos[campo];
+    }
+
+    const GeneticaModel = getGeneticaModel(connection);
+    const nuevaGenetica = new GeneticaModel({
+      ...geneticaData,
+      fechaCreacion: new Date().toISOString().split('T')[0],
+      creadoPor: userEmail // 🔒 Se asigna al usuario actual
+    });
+    const geneticaGuardada = await nuevaGenetica.save();
+
+    return NextResponse.json({
+      success: true,
+      data: geneticaGuardada.toJSON(),
+      message: 'Genética agregada al catálogo'
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/geneticas:', error);
+
+    if (typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000) {
+      return NextResponse.json(
+        { success: false, error: 'Genética duplicada', message: 'Ya tienes una genética con ese nombre en el catálogo' },
+        { status: 409 }
+      );
+    }
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo guardar la genética' },
+      { status: 500 }
+    );
+  }
+});
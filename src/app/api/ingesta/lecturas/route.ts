@@ -0,0 +1,206 @@
+/**
+ * API Route para ingesta automática de lecturas desde dispositivos
+ *
+ * Los controladores (ej: ESP32) envían lotes de lecturas autenticándose con su
+ * API key en lugar de un JWT. Las lecturas se asignan al cultivo y al dueño
+ * del dispositivo, con origen 'sensor'.
+ *
+ * Endpoints:
+ * - POST /api/ingesta/lecturas - Registra un lote de lecturas con claves de idempotencia
+ */
+
+import { NextResponse } from 'next/server';
+import { withDispositivoDB, connectToUserDB, getLecturaModel, getDispositivoModel } from '@/lib/mongodb';
+import type { DispositivoDocument } from '@/lib/models/Dispositivo';
+import { normalizarFechaLectura } from '@/lib/models/Lectura';
+import { evaluarAlertasCultivo } from '@/lib/utils/alertas';
+import { obtenerContextoOrganizacion, buscarCultivoAccesible } from '@/lib/utils/multiTenancy';
+import type { ResultadoIngestaLectura, ResumenIngestaLecturas } from '@/types/dispositivo';
+
+// Máximo de lecturas aceptadas por lote
+const MAX_LECTURAS_POR_LOTE = 500;
+
+/**
+ * POST /api/ingesta/lecturas
+ *
+ * Headers:
+ * - x-api-key: API key del dispositivo (también se acepta Authorization: Bearer)
+ *
+ * Body: { lecturas: [{ claveIdempotencia, fecha?, temperatura?, humedad?, ec?, ph?, volumenAgua?, notas? }] }
+ *
+ * Cada lectura se valida por separado: las inválidas o fuera de rango se reportan
+ * como rechazadas sin afectar al resto del lote. Una clave de idempotencia ya
+ * recibida devuelve la lectura existente como duplicada.
+ */
+export const POST = withDispositivoDB(async (request: Request, dispositivo: DispositivoDocument) => {
+  try {
+    const connection = await connectToUserDB(dispositivo.creadoPor);
+
+    const body = await request.json();
+    const lecturas: unknown[] | undefined = Array.isArray(body) ? body : body?.lecturas;
+
+    if (!Array.isArray(lecturas) || lecturas.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El cuerpo debe incluir un arreglo "lecturas" con al menos un elemento' },
+        { status: 400 }
+      );
+    }
+
+    if (lecturas.length > MAX_LECTURAS_POR_LOTE) {
+      return NextResponse.json(
+        { success: false, error: 'Lote demasiado grande', message: `Se permiten como máximo ${MAX_LECTURAS_POR_LOTE} lecturas por envío` },
+        { status: 413 }
+      );
+    }
+
+    // Verificar que el cultivo siga existiendo y que quien registró el dispositivo pueda editarlo
+    const contexto = await obtenerContextoOrganizacion(connection, dispositivo.creadoPor);
+    const accesible = await buscarCultivoAccesible(connection, contexto, dispositivo.cultivoId); // 🔒 FILTRO DE SEGURIDAD
+    if (!accesible?.permisos.editar) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado', message: 'El cultivo asociado al dispositivo ya no existe o quien lo registró perdió el acceso' },
+        { status: 404 }
+      );
+    }
+
+    const LecturaModel = getLecturaModel(connection);
+    const dispositivoId = dispositivo._id.toString();
+
+    // Buscar claves ya registradas para este dispositivo
+    const claves = lecturas
+      .map(l => (l as { claveIdempotencia?: unknown })?.claveIdempotencia)
+      .filter((c): c is string => typeof c === 'string' && c.trim() !== '');
+    const existentes = await LecturaModel.find(
+      { dispositivoId, claveIdempotencia: { $in: claves } },
+      { _id: 1, claveIdempotencia: 1 }
+    );
+    const idsPorClave = new Map<string, string>(
+      existentes.map(doc => [doc.claveIdempotencia as string, doc._id.toString()])
+    );
+
+    const resultados: ResultadoIngestaLectura[] = [];
+    const ahora = new Date().toISOString();
+
+    for (let indice = 0; indice < lecturas.length; indice++) {
+      const item = lecturas[indice];
+
+      if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        resultados.push({ success: false, indice, estado: 'rechazada', error: 'Datos inválidos', message: 'Cada lectura debe ser un objeto' });
+        continue;
+      }
+
+      // Ignorar campos que asigna el servidor
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { _id, id, cultivoId, origen, creadoPor, dispositivoId: _d, fechaCreacion, ...datos } = item as Record<string, unknown>;
+      const claveIdempotencia = typeof datos.claveIdempotencia === 'string' ? datos.claveIdempotencia.trim() : '';
+
+      if (!claveIdempotencia) {
+        resultados.push({ success: false, indice, estado: 'rechazada', error: 'Datos inválidos', message: 'La clave de idempotencia es obligatoria' });
+        continue;
+      }
+
+      // Clave ya recibida (en un envío anterior o antes en este mismo lote)
+      const idExistente = idsPorClave.get(claveIdempotencia);
+      if (idExistente) {
+        resultados.push({ success: true, indice, claveIdempotencia, estado: 'duplicada', data: { id: idExistente }, message: 'Lectura ya registrada' });
+        continue;
+      }
+
+      // Fecha en ISO UTC para que los rangos y agregados diarios comparen bien
+      const fecha = datos.fecha ? normalizarFechaLectura(datos.fecha) : ahora;
+      if (!fecha) {
+        resultados.push({ success: false, indice, claveIdempotencia, estado: 'rechazada', error: 'Datos inválidos', message: 'La fecha debe ser una fecha ISO válida' });
+        continue;
+      }
+
+      const nuevaLectura = new LecturaModel({
+        ...datos,
+        claveIdempotencia,
+        cultivoId: dispositivo.cultivoId,
+        fecha,
+        fechaCreacion: ahora.split('T')[0],
+        origen: 'sensor',
+        dispositivoId,
+        creadoPor: dispositivo.creadoPor // 🔒 Se asigna al dueño del dispositivo
+      });
+
+      const errorValidacion = nuevaLectura.validateSync();
+      if (errorValidacion) {
+        resultados.push({
+          success: false,
+          indice,
+          claveIdempotencia,
+          estado: 'rechazada',
+          error: 'Datos inválidos',
+          message: 'Errores de validación',
+          details: Object.values(errorValidacion.errors).map(err => err.message)
+        });
+        continue;
+      }
+
+      try {
+        const guardada = await nuevaLectura.save();
+        idsPorClave.set(claveIdempotencia, guardada._id.toString());
+        resultados.push({ success: true, indice, claveIdempotencia, estado: 'creada', data: { id: guardada._id.toString() } });
+      } catch (saveError) {
+        // Envío concurrente con la misma clave: el índice único lo detecta
+        if ((saveError as { code?: number })?.code === 11000) {
+          const existente = await LecturaModel.findOne({ dispositivoId, claveIdempotencia }, { _id: 1 });
+          resultados.push({ success: true, indice, claveIdempotencia, estado: 'duplicada', data: existente ? { id: existente._id.toString() } : undefined, message: 'Lectura ya registrada' });
+          continue;
+        }
+        throw saveError;
+      }
+    }
+
+    const resumen: ResumenIngestaLecturas = {
+      recibidas: lecturas.length,
+      creadas: resultados.filter(r => r.estado === 'creada').length,
+      duplicadas: resultados.filter(r => r.estado === 'duplicada').length,
+      rechazadas: resultados.filter(r => r.estado === 'rechazada').length,
+      resultados
+    };
+
+    // Registrar la actividad del dispositivo
+    await getDispositivoModel(connection).updateOne(
+      { _id: dispositivo._id },
+      { $set: { ultimaConexion: ahora }, $inc: { totalLecturas: resumen.creadas } }
+    );
+
+    // Evaluar reglas de alerta con las nuevas mediciones (no bloquea la ingesta si falla)
+    if (resumen.creadas > 0) {
+      try {
+        await evaluarAlertasCultivo(connection, dispositivo.cultivoId);
+      } catch (alertaError) {
+        console.error('Error evaluando alertas tras la ingesta:', alertaError);
+      }
+    }
+
+    const todasRechazadas = resumen.rechazadas === resumen.recibidas;
+
+    return NextResponse.json(
+      {
+        success: !todasRechazadas,
+        data: resumen,
+        message: `${resumen.creadas} lecturas registradas, ${resumen.duplicadas} duplicadas, ${resumen.rechazadas} rechazadas`,
+        ...(todasRechazadas && { error: 'Datos inválidos' })
+      },
+      { status: todasRechazadas ? 400 : 200 }
+    );
+
+  } catch (error) {
+    console.error('Error en POST /api/ingesta/lecturas:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudieron registrar las lecturas' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,67 @@
+/**
+ * API Route para aceptar invitaciones a cultivos compartidos
+ *
+ * Endpoints:
+ * - POST /api/invitaciones - Acepta la invitación del enlace enviado por email
+ *   Body: { token }
+ *
+ * La invitación solo puede aceptarla el usuario autenticado con el mismo email
+ * al que se envió. El token es de un solo uso y vence a los 7 días.
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB, getAccesoCultivoModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+
+/**
+ * POST /api/invitaciones - Acepta una invitación
+ */
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const { token } = await request.json();
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Falta el token de la invitación' },
+        { status: 400 }
+      );
+    }
+
+    const connection = await connectToUserDB(userEmail);
+    const acceso = await getAccesoCultivoModel(connection).aceptarInvitacion(token, userEmail);
+
+    if (!acceso) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invitación inválida',
+          message: `La invitación no existe, ya fue usada, venció o no corresponde a ${userEmail}`
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🤝 ${userEmail} aceptó el acceso ${acceso.rol} al cultivo ${acceso.cultivoId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: acceso.toJSON(),
+      message: 'Invitación aceptada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/invitaciones:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo aceptar la invitación' },
+      { status: 500 }
+    );
+  }
+});
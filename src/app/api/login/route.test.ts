@@ -0,0 +1,80 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import Usuario from '@/lib/models/Usuario';
+import { abrirSesion } from '@/lib/auth/sesiones';
+import { POST } from './route';
+
+vi.mock('@/lib/mongodb', () => ({ default: async () => ({}) }));
+
+vi.mock('@/lib/auth/sesiones', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/auth/sesiones')>(),
+  abrirSesion: vi.fn(async () => ({ tokenAcceso: 'acceso', tokenRefresco: 'sid.secreto' }))
+}));
+
+/**
+ * Usuario encontrado por email con la contraseña "correcta"
+ */
+const usuario = (datos: { emailVerificado?: boolean }) => ({
+  email: 'ana@canopia.test',
+  role: 'user',
+  comparePassword: async (password: string) => password === 'correcta',
+  ...datos
+});
+
+const login = (password = 'correcta') =>
+  POST(new NextRequest('https://canopia.test/api/login', {
+    method: 'POST',
+    body: JSON.stringify({ email: 'ana@canopia.test', password })
+  }));
+
+describe('POST /api/login con verificación de email', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.mocked(abrirSesion).mockClear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('rechaza una cuenta sin verificar cuando la verificación es obligatoria', async () => {
+    vi.stubEnv('REQUIRE_EMAIL_VERIFICATION', 'true');
+    vi.spyOn(Usuario, 'findByEmail').mockResolvedValue(usuario({ emailVerificado: false }) as never);
+
+    const response = await login();
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ success: false, code: 'email_no_verificado' });
+    expect(abrirSesion).not.toHaveBeenCalled();
+    expect(response.cookies.get('refresh-token')).toBeUndefined();
+  });
+
+  it('no revela que la cuenta está sin verificar si la contraseña es incorrecta', async () => {
+    vi.stubEnv('REQUIRE_EMAIL_VERIFICATION', 'true');
+    vi.spyOn(Usuario, 'findByEmail').mockResolvedValue(usuario({ emailVerificado: false }) as never);
+
+    expect((await login('incorrecta')).status).toBe(401);
+  });
+
+  it('deja entrar a cuentas verificadas y a las anteriores a la verificación', async () => {
+    vi.stubEnv('REQUIRE_EMAIL_VERIFICATION', 'true');
+
+    vi.spyOn(Usuario, 'findByEmail').mockResolvedValue(usuario({ emailVerificado: true }) as never);
+    expect((await login()).status).toBe(200);
+
+    vi.spyOn(Usuario, 'findByEmail').mockResolvedValue(usuario({}) as never);
+    expect((await login()).status).toBe(200);
+  });
+
+  it('deja entrar a cuentas sin verificar si la verificación no es obligatoria', async () => {
+    vi.stubEnv('REQUIRE_EMAIL_VERIFICATION', 'false');
+    vi.spyOn(Usuario, 'findByEmail').mockResolvedValue(usuario({ emailVerificado: false }) as never);
+
+    const response = await login();
+
+    expect(response.status).toBe(200);
+    expect(response.cookies.get('refresh-token')?.value).toBe('sid.secreto');
+  });
+});
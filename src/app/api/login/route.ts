@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import Usuario from '@/lib/models/Usuario';
-import jwt from 'jsonwebtoken';
+import { abrirSesion, aplicarCookiesSesion } from '@/lib/auth/sesiones';
+import { DURACION_TOKEN_ACCESO } from '@/lib/auth/tokens';
+import { destinoSeguro } from '@/lib/auth/redireccion';
+import { verificacionEmailObligatoria } from '@/lib/auth/emailsCuenta';
 
 /**
  * 🔐 ENDPOINT DE LOGIN - Autenticación de Usuarios
  *
- * Este endpoint maneja la autenticación de usuarios generando tokens JWT válidos.
+ * Este endpoint maneja la autenticación de usuarios abriendo una sesión:
+ * un token de acceso JWT de 15 minutos y un token de refresco rotativo
+ * (cookie HTTP-only) que se renueva en /api/auth/refresh.
  * Valida credenciales contra la base de datos MongoDB.
  *
  * Ruta: POST /api/login
@@ -21,30 +26,17 @@ import jwt from 'jsonwebtoken';
  * {
  *   "success": true,
  *   "token": "jwt_token_aqui",
+ *   "expiresIn": 900,
  *   "user": {
  *     "email": "usuario@ejemplo.com",
  *     "role": "admin" | "user"
  *   }
  * }
+ *
+ * Con REQUIRE_EMAIL_VERIFICATION=true las cuentas con el email sin confirmar
+ * reciben 403 { success: false, error, code: "email_no_verificado" }.
  */
 
-/**
- * 🔑 CONFIGURACIÓN JWT
- * JWT secret para firmar tokens - debe coincidir con las APIs del servidor
- */
-const JWT_SECRET = process.env.JWT_SECRET || 'bruce-app-development-secret-key-2024';
-
-/**
- * 🍪 CONFIGURACIÓN DE COOKIES HTTP-ONLY PARA PRODUCCIÓN
- */
-const COOKIE_OPTIONS = {
-  httpOnly: true,
-  secure: process.env.NODE_ENV === 'production', // Solo HTTPS en producción  
-  sameSite: 'lax' as const, // Mantener lax para evitar problemas
-  path: '/',
-  maxAge: 60 * 60 * 24 * 7, // 7 días
-};
-
 export async function POST(request: NextRequest) {
   try {
     console.log('🔐 Login request recibido');
@@ -92,17 +84,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 🔐 GENERACIÓN DE TOKEN JWT
-    const tokenPayload = {
-      email: usuario.email,
-      role: usuario.role,
-      iat: Math.floor(Date.now() / 1000), // Issued at time
-      exp: Math.floor(Date.now() / 1000) + (24 * 60 * 60), // Expires in 24 hours
-    };
+    // ✉️ EMAIL SIN VERIFICAR (las cuentas anteriores a la verificación no tienen el flag)
+    if (verificacionEmailObligatoria() && usuario.emailVerificado === false) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Tenés que confirmar tu email antes de iniciar sesión. Revisá tu bandeja de entrada.',
+          code: 'email_no_verificado'
+        },
+        { status: 403 }
+      );
+    }
 
-    const jwtToken = jwt.sign(tokenPayload, JWT_SECRET);
+    // 🔐 APERTURA DE SESIÓN (token de acceso + token de refresco)
+    const tokens = await abrirSesion(
+      { email: usuario.email, role: usuario.role },
+      request.headers.get('user-agent')
+    );
 
-    console.log('✅ Token JWT generado exitosamente');
+    console.log('✅ Sesión abierta exitosamente');
 
     // 🚀 REDIRECCIÓN SOLICITADA - DEVOLVER INFO PARA REDIRECCIÓN
     if (redirectUrl && redirectUrl.startsWith('/')) {
@@ -110,17 +110,17 @@ export async function POST(request: NextRequest) {
 
       const response = NextResponse.json({
         success: true,
-        token: jwtToken,
+        token: tokens.tokenAcceso,
+        expiresIn: DURACION_TOKEN_ACCESO,
         user: {
           email: usuario.email,
           role: usuario.role
         },
-        redirectTo: redirectUrl // 👈 URL de redirección solicitada
+        redirectTo: destinoSeguro(redirectUrl) // 👈 URL de redirección solicitada (solo rutas internas)
       });
 
-      // 🍪 SETEAR COOKIE HTTP-ONLY PARA MIDDLEWARE
-      response.cookies.set('auth-token', jwtToken, COOKIE_OPTIONS);
-      console.log('🍪 Cookie establecida con opciones:', COOKIE_OPTIONS);
+      // 🍪 SETEAR COOKIES HTTP-ONLY (acceso y refresco)
+      aplicarCookiesSesion(response, tokens);
 
       return response;
     }
@@ -128,15 +128,16 @@ export async function POST(request: NextRequest) {
     // ✅ RESPUESTA NORMAL CON COOKIE HTTP-ONLY
     const response = NextResponse.json({
       success: true,
-      token: jwtToken,
+      token: tokens.tokenAcceso,
+      expiresIn: DURACION_TOKEN_ACCESO,
       user: {
         email: usuario.email,
         role: usuario.role
       }
     });
 
-    // 🍪 SETEAR COOKIE HTTP-ONLY PARA MIDDLEWARE
-    response.cookies.set('auth-token', jwtToken, COOKIE_OPTIONS);
+    // 🍪 SETEAR COOKIES HTTP-ONLY (acceso y refresco)
+    aplicarCookiesSesion(response, tokens);
 
     return response;
 
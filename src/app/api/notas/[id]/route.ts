@@ -7,14 +7,23 @@
 
 import { NextResponse } from 'next/server';
 import mongoose from 'mongoose';
-import { withUserDB, connectToUserDB, getNotaModel } from '@/lib/mongodb';
+import { connectToUserDB, getNotaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import {
+  obtenerContextoOrganizacion,
+  construirFiltroUsuario,
+  puedeCrearRecursos,
+  puedeEliminarRecurso,
+  respuestaSinPermisos
+} from '@/lib/utils/multiTenancy';
 
 /**
- * GET /api/notas/[id] - Obtiene nota específica verificando propiedad
+ * GET /api/notas/[id] - Obtiene nota específica de la organización
  */
-export const GET = withUserDB(async (request, userEmail) => {
+export const GET = requireAuth()(async (request, { email: userEmail }) => {
   try {
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const NotaModel = getNotaModel(connection) as any;
 
@@ -25,10 +34,10 @@ export const GET = withUserDB(async (request, userEmail) => {
       return NextResponse.json({ success: false, error: 'ID inválido' }, { status: 400 });
     }
 
-    // Buscar nota por ID Y autor (seguridad)
+    // Buscar nota por ID Y organización (seguridad)
     const nota = await NotaModel.findOne({
       _id: id,
-      author: userEmail // 🔒 FILTRO DE SEGURIDAD
+      ...construirFiltroUsuario(contexto) // 🔒 FILTRO DE SEGURIDAD
     }).lean();
 
     if (!nota) {
@@ -46,11 +55,12 @@ export const GET = withUserDB(async (request, userEmail) => {
 });
 
 /**
- * PATCH /api/notas/[id] - Actualiza nota específica verificando propiedad
+ * PATCH /api/notas/[id] - Actualiza nota específica de la organización (owner o grower)
  */
-export const PATCH = withUserDB(async (request, userEmail) => {
+export const PATCH = requireAuth()(async (request, { email: userEmail }) => {
   try {
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const NotaModel = getNotaModel(connection) as any;
 
@@ -61,18 +71,27 @@ export const PATCH = withUserDB(async (request, userEmail) => {
       return NextResponse.json({ success: false, error: 'ID inválido' }, { status: 400 });
     }
 
-    const updates = await request.json();
+    // 🔒 Los viewers solo pueden consultar
+    if (!puedeCrearRecursos(contexto)) {
+      return respuestaSinPermisos('Tu rol en la organización no permite modificar notas');
+    }
+
+    // Los operadores de MongoDB ($set, $unset...) no se aceptan desde el cliente
+    const updates: Record<string, unknown> = Object.fromEntries(
+      Object.entries(await request.json()).filter(([campo]) => !campo.startsWith('$'))
+    );
     delete updates._id; delete updates.id;
     delete updates.author; // No permitir cambiar autor
+    delete updates.organizacionId; // Ni moverla a otra organización
 
     const updatesConAuditoria = {
       ...updates,
       fechaActualizacion: new Date().toISOString().split('T')[0]
     };
 
-    // Actualizar SOLO si pertenece al usuario
+    // Actualizar SOLO si pertenece a la organización
     const nota = await NotaModel.findOneAndUpdate(
-      { _id: id, author: userEmail }, // 🔒 FILTRO DE SEGURIDAD
+      { _id: id, ...construirFiltroUsuario(contexto) }, // 🔒 FILTRO DE SEGURIDAD
       updatesConAuditoria,
       { new: true, runValidators: true, lean: true }
     );
@@ -92,11 +111,12 @@ export const PATCH = withUserDB(async (request, userEmail) => {
 });
 
 /**
- * DELETE /api/notas/[id] - Elimina nota específica verificando propiedad
+ * DELETE /api/notas/[id] - Elimina nota específica (owner, o el grower que la escribió)
  */
-export const DELETE = withUserDB(async (request, userEmail) => {
+export const DELETE = requireAuth()(async (request, { email: userEmail }) => {
   try {
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const NotaModel = getNotaModel(connection) as any;
 
@@ -107,16 +127,23 @@ export const DELETE = withUserDB(async (request, userEmail) => {
       return NextResponse.json({ success: false, error: 'ID inválido' }, { status: 400 });
     }
 
-    // Eliminar SOLO si pertenece al usuario
-    const nota = await NotaModel.findOneAndDelete({
+    // Buscar SOLO si pertenece a la organización
+    const nota = await NotaModel.findOne({
       _id: id,
-      author: userEmail // 🔒 FILTRO DE SEGURIDAD
+      ...construirFiltroUsuario(contexto) // 🔒 FILTRO DE SEGURIDAD
     }).lean();
 
     if (!nota) {
       return NextResponse.json({ success: false, error: 'Nota no encontrada o no autorizada' }, { status: 404 });
     }
 
+    // 🔒 Los growers solo eliminan lo que escribieron; los viewers nada
+    if (!puedeEliminarRecurso(contexto, { organizacionId: nota.organizacionId, creadoPor: nota.author })) {
+      return respuestaSinPermisos('Tu rol en la organización no permite eliminar esta nota');
+    }
+
+    await NotaModel.deleteOne({ _id: nota._id });
+
     return NextResponse.json({
       success: true,
       data: { ...nota, id: nota._id.toString(), _id: undefined }
@@ -4,16 +4,18 @@
  */
 
 import { NextResponse } from 'next/server';
-import { withUserDB, connectToUserDB, getNotaModel } from '@/lib/mongodb';
+import { connectToUserDB, getNotaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, construirFiltroUsuario, puedeCrearRecursos, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
 import type { NotaDocument } from '@/lib/models';
 import type { FilterQuery, Model } from 'mongoose';
 
 
 /**
- * GET /api/notas - Lista notas desde la base de datos compartida filtrando por usuario
+ * GET /api/notas - Lista notas desde la base de datos compartida filtrando por organización
  */
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-export const GET = withUserDB(async (request: Request, userEmail: string) => {
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
   try {
     // Obtener la conexión a la base de datos principal
     const connection = await connectToUserDB(userEmail);
@@ -31,6 +33,8 @@ export const GET = withUserDB(async (request: Request, userEmail: string) => {
       });
     }
 
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+
     const url = new URL(request.url);
     const searchQuery = url.searchParams.get('q');
     const category = url.searchParams.get('category');
@@ -41,11 +45,11 @@ export const GET = withUserDB(async (request: Request, userEmail: string) => {
     const page = parseInt(url.searchParams.get('_page') || '1');
     const limit = parseInt(url.searchParams.get('_limit') || '50');
 
-    // FILTRO DE SEGURIDAD: Solo notas del usuario
-    // Asumimos que el modelo Nota usa 'author' para el email del propietario
+    // FILTRO DE SEGURIDAD: Solo notas de la organización
+    // 'author' sigue guardando el email de quien escribió la nota
     const query: FilterQuery<NotaDocument> = {
       activo: true,
-      author: userEmail // 🔒 FILTRO DE SEGURIDAD
+      ...construirFiltroUsuario(contexto) // 🔒 FILTRO DE SEGURIDAD
     };
 
     if (category) query.category = category;
@@ -110,7 +114,7 @@ export const GET = withUserDB(async (request: Request, userEmail: string) => {
  * POST /api/notas - Crea nueva nota en la base de datos compartida
  */
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-export const POST = withUserDB(async (request: Request, userEmail: string) => {
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
   try {
     // Obtener la conexión a la base de datos principal
     const connection = await connectToUserDB(userEmail);
@@ -123,13 +127,21 @@ export const POST = withUserDB(async (request: Request, userEmail: string) => {
       );
     }
 
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+
+    // 🔒 Los viewers solo pueden consultar
+    if (!puedeCrearRecursos(contexto)) {
+      return respuestaSinPermisos('Tu rol en la organización no permite crear notas');
+    }
+
     const notaData = await request.json();
     const notaConFechas = {
       ...notaData,
       date: notaData.date || new Date().toISOString().split('T')[0],
       fechaCreacion: new Date().toISOString().split('T')[0],
       fechaActualizacion: new Date().toISOString().split('T')[0],
-      author: userEmail // 🔒 Forzar autor al usuario autenticado
+      author: userEmail, // 🔒 Forzar autor al usuario autenticado
+      organizacionId: contexto.organizacionId // 🔒 Y su organización activa
     };
 
     // Obtener el modelo específico para esta conexión
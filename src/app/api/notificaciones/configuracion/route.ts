@@ -0,0 +1,128 @@
+/**
+ * API Route para la configuración de notificaciones del usuario
+ *
+ * - GET: configuración actual (valores por defecto si nunca se guardó)
+ * - PUT: actualiza las preferencias y los canales de entrega
+ *
+ * El secreto del webhook solo se puede escribir: las respuestas indican si
+ * está configurado (webhookSecretoConfigurado) pero nunca lo devuelven.
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB, getConfiguracionNotificacionesModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import type { ConfiguracionNotificaciones } from '@/types/planificacion';
+
+/**
+ * Campos que el usuario puede modificar
+ */
+const CAMPOS_EDITABLES: (keyof ConfiguracionNotificaciones)[] = [
+  'recordatoriosActivados',
+  'tiempoRecordatorioDefecto',
+  'notificacionesSonido',
+  'notificacionesDesktop',
+  'diasAnticipacion',
+  'notificacionesEmail',
+  'emailDestino',
+  'notificacionesWebhook',
+  'webhookUrl',
+  'webhookSecreto'
+];
+
+/**
+ * Quita el secreto y los campos internos antes de responder
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const serializarConfiguracion = (configuracion: any) => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { _id, __v, creadoPor, webhookSecreto, ...resto } = configuracion;
+  return { ...resto, webhookSecretoConfigurado: Boolean(webhookSecreto) };
+};
+
+/**
+ * GET /api/notificaciones/configuracion - Configuración del usuario
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const configuracion = await getConfiguracionNotificacionesModel(connection).obtenerParaUsuario(userEmail); // 🔒 FILTRO DE SEGURIDAD
+
+    return NextResponse.json({ success: true, data: serializarConfiguracion(configuracion) });
+
+  } catch (error) {
+    console.error('Error en GET /api/notificaciones/configuracion:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo obtener la configuración de notificaciones' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/notificaciones/configuracion - Actualiza la configuración del usuario
+ */
+export const PUT = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const body = await request.json();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cambios: Record<string, any> = {};
+    const eliminar: Record<string, ''> = {};
+    for (const campo of CAMPOS_EDITABLES) {
+      if (!(campo in body)) continue;
+      // Un texto vacío borra los campos opcionales (email alternativo, URL y secreto del webhook)
+      if (body[campo] === '' || body[campo] === null) {
+        eliminar[campo] = '';
+      } else {
+        cambios[campo] = body[campo];
+      }
+    }
+
+    const ConfiguracionModel = getConfiguracionNotificacionesModel(connection);
+    await ConfiguracionModel.findOneAndUpdate(
+      { creadoPor: userEmail }, // 🔒 FILTRO DE SEGURIDAD
+      {
+        $set: { ...cambios, fechaActualizacion: new Date().toISOString() },
+        ...(Object.keys(eliminar).length > 0 && { $unset: eliminar })
+      },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    const configuracion = await ConfiguracionModel.obtenerParaUsuario(userEmail);
+
+    return NextResponse.json({
+      success: true,
+      data: serializarConfiguracion(configuracion),
+      message: 'Configuración de notificaciones actualizada'
+    });
+
+  } catch (error) {
+    console.error('Error en PUT /api/notificaciones/configuracion:', error);
+
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const validationErrors = Object.values(error.errors).map((err: any) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'JSON inválido', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo actualizar la configuración de notificaciones' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,46 @@
+/**
+ * API Route para el historial de entregas de recordatorios
+ *
+ * GET /api/notificaciones/intentos - Intentos de entrega del usuario, del más reciente al más antiguo
+ *
+ * Filtros opcionales: cultivoId, tareaId, canal, estado, _page, _limit
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB, getIntentoEntregaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const url = new URL(request.url);
+    const page = Math.max(1, parseInt(url.searchParams.get('_page') || '1'));
+    const limit = Math.min(200, Math.max(1, parseInt(url.searchParams.get('_limit') || '50')));
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const query: any = { creadoPor: userEmail }; // 🔒 FILTRO DE SEGURIDAD
+    for (const filtro of ['cultivoId', 'tareaId', 'canal', 'estado']) {
+      const valor = url.searchParams.get(filtro);
+      if (valor) query[filtro] = valor;
+    }
+
+    const IntentoModel = getIntentoEntregaModel(connection);
+    const [intentos, total] = await Promise.all([
+      IntentoModel.find(query).sort({ fecha: -1 }).skip((page - 1) * limit).limit(limit),
+      IntentoModel.countDocuments(query)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: intentos.map(intento => intento.toJSON()),
+      total
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/notificaciones/intentos:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo obtener el historial de entregas' },
+      { status: 500 }
+    );
+  }
+});
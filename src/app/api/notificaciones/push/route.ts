@@ -0,0 +1,152 @@
+/**
+ * API Route para las suscripciones Web Push del usuario
+ *
+ * - GET: clave pública VAPID y navegadores suscritos
+ * - POST: guarda la suscripción de este navegador (PushSubscription.toJSON())
+ * - DELETE: elimina la suscripción de un navegador (?endpoint=...)
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB, getSuscripcionPushModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerClavePublicaVapid } from '@/lib/services/webPush';
+
+/**
+ * GET /api/notificaciones/push - Estado del push para el usuario
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const suscripciones = await getSuscripcionPushModel(connection)
+      .find({ creadoPor: userEmail }) // 🔒 FILTRO DE SEGURIDAD
+      .sort({ fechaCreacion: -1 });
+
+    const clavePublica = obtenerClavePublicaVapid();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        configurado: Boolean(clavePublica),
+        clavePublica,
+        suscripciones: suscripciones.map(suscripcion => suscripcion.toJSON())
+      }
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/notificaciones/push:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo obtener el estado de las notificaciones push' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/notificaciones/push - Registra la suscripción del navegador
+ */
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    if (!obtenerClavePublicaVapid()) {
+      return NextResponse.json(
+        { success: false, error: 'Servicio no configurado', message: 'Las notificaciones push no están configuradas en el servidor' },
+        { status: 503 }
+      );
+    }
+
+    const connection = await connectToUserDB(userEmail);
+    const { endpoint, keys } = await request.json();
+
+    if (typeof endpoint !== 'string' || typeof keys?.p256dh !== 'string' || typeof keys?.auth !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'La suscripción debe incluir endpoint y las claves p256dh y auth' },
+        { status: 400 }
+      );
+    }
+
+    // El endpoint identifica al navegador: si ya existía, pasa al usuario actual
+    const suscripcion = await getSuscripcionPushModel(connection).findOneAndUpdate(
+      { endpoint },
+      {
+        $set: {
+          keys: { p256dh: keys.p256dh, auth: keys.auth },
+          userAgent: request.headers.get('user-agent')?.slice(0, 500),
+          creadoPor: userEmail // 🔒 Se asigna al usuario actual
+        },
+        $setOnInsert: { fechaCreacion: new Date().toISOString() }
+      },
+      { upsert: true, new: true, runValidators: true }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: suscripcion.toJSON(),
+      message: 'Notificaciones push activadas en este navegador'
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/notificaciones/push:', error);
+
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const validationErrors = Object.values(error.errors).map((err: any) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'JSON inválido', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo guardar la suscripción push' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/notificaciones/push?endpoint=... - Elimina la suscripción de un navegador
+ */
+export const DELETE = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const endpoint = new URL(request.url).searchParams.get('endpoint');
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Se requiere el endpoint de la suscripción' },
+        { status: 400 }
+      );
+    }
+
+    const resultado = await getSuscripcionPushModel(connection).deleteOne({
+      endpoint,
+      creadoPor: userEmail // 🔒 FILTRO DE SEGURIDAD
+    });
+
+    if (resultado.deletedCount === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Suscripción no encontrada', message: 'No se encontró la suscripción o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Notificaciones push desactivadas en este navegador' });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/notificaciones/push:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo eliminar la suscripción push' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,204 @@
+/**
+ * API Route para los miembros de una organización
+ *
+ * Endpoints:
+ * - GET /api/organizaciones/[id]/miembros - Lista los miembros y sus roles (cualquier miembro)
+ * - POST /api/organizaciones/[id]/miembros - Agrega un usuario registrado o cambia su rol (solo owner)
+ *   Body: { email, rol: 'owner' | 'grower' | 'viewer' }
+ * - DELETE /api/organizaciones/[id]/miembros?email=... - Quita un miembro (owner, o el propio miembro al salir)
+ *
+ * La organización siempre conserva al menos un owner (lo valida el modelo).
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getOrganizacionModel, getUsuarioModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { agregarMiembroOrganizacion, respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+import type { RolOrganizacion } from '@/types/organizacion';
+
+/**
+ * Roles que se pueden asignar
+ */
+const ROLES: RolOrganizacion[] = ['owner', 'grower', 'viewer'];
+
+/**
+ * Extrae el ID de la organización desde la URL
+ */
+function extraerOrganizacionId(request: Request): string | undefined {
+  const partes = new URL(request.url).pathname.split('/');
+  const indice = partes.indexOf('organizaciones');
+  return indice >= 0 ? partes[indice + 1] : undefined;
+}
+
+/**
+ * Busca la organización solo si el usuario es miembro
+ */
+async function buscarOrganizacion(connection: mongoose.Connection, id: string | undefined, userEmail: string) {
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) return null;
+  return await getOrganizacionModel(connection).findOne({
+    _id: id,
+    activo: true,
+    'miembros.email': userEmail // 🔒 FILTRO DE SEGURIDAD
+  });
+}
+
+/**
+ * Respuesta 404 cuando la organización no existe o el usuario no es miembro
+ */
+const organizacionNoEncontrada = () => NextResponse.json(
+  { success: false, error: 'Organización no encontrada', message: 'No se encontró la organización o no eres miembro' },
+  { status: 404 }
+);
+
+/**
+ * GET /api/organizaciones/[id]/miembros - Miembros de la organización
+ */
+export const GET = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const organizacion = await buscarOrganizacion(connection, extraerOrganizacionId(request), userEmail);
+    if (!organizacion) return organizacionNoEncontrada();
+
+    return NextResponse.json({
+      success: true,
+      data: organizacion.toJSON().miembros,
+      total: organizacion.miembros.length
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/organizaciones/[id]/miembros:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudieron cargar los miembros' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/organizaciones/[id]/miembros - Agrega un miembro o cambia su rol
+ */
+export const POST = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const organizacion = await buscarOrganizacion(connection, extraerOrganizacionId(request), userEmail);
+    if (!organizacion) return organizacionNoEncontrada();
+
+    if (organizacion.miembros.find(m => m.email === userEmail)?.rol !== 'owner') {
+      return respuestaSinPermisos('Solo el owner puede administrar los miembros');
+    }
+
+    const datos = await request.json();
+    const email = typeof datos.email === 'string' ? datos.email.toLowerCase().trim() : '';
+    const rol = datos.rol as RolOrganizacion;
+
+    if (!email || !ROLES.includes(rol)) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Se requieren un email y un rol válido (owner, grower o viewer)' },
+        { status: 400 }
+      );
+    }
+
+    // Solo se pueden agregar cuentas existentes
+    const usuario = await getUsuarioModel(connection).exists({ email, activo: true });
+    if (!usuario) {
+      return NextResponse.json(
+        { success: false, error: 'Usuario no encontrado', message: `No hay una cuenta activa con el email ${email}` },
+        { status: 404 }
+      );
+    }
+
+    const actualizada = await agregarMiembroOrganizacion(connection, organizacion._id.toString(), email, rol, userEmail);
+
+    return NextResponse.json({
+      success: true,
+      data: actualizada?.toJSON().miembros ?? [],
+      message: 'Miembro guardado exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/organizaciones/[id]/miembros:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo guardar el miembro' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/organizaciones/[id]/miembros?email=... - Quita un miembro
+ */
+export const DELETE = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const organizacion = await buscarOrganizacion(connection, extraerOrganizacionId(request), userEmail);
+    if (!organizacion) return organizacionNoEncontrada();
+
+    const email = new URL(request.url).searchParams.get('email')?.toLowerCase().trim();
+    if (!email || !organizacion.miembros.some(m => m.email === email)) {
+      return NextResponse.json(
+        { success: false, error: 'Miembro no encontrado', message: 'El email no corresponde a un miembro de la organización' },
+        { status: 404 }
+      );
+    }
+
+    // 🔒 El owner quita a cualquiera; el resto solo puede salir por su cuenta
+    const esOwner = organizacion.miembros.find(m => m.email === userEmail)?.rol === 'owner';
+    if (!esOwner && email !== userEmail) {
+      return respuestaSinPermisos('Solo el owner puede quitar a otros miembros');
+    }
+
+    organizacion.miembros = organizacion.miembros.filter(m => m.email !== email);
+    organizacion.fechaActualizacion = new Date().toISOString();
+    await organizacion.save();
+
+    return NextResponse.json({
+      success: true,
+      data: organizacion.toJSON().miembros,
+      message: 'Miembro quitado exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/organizaciones/[id]/miembros:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    // Quitar al único owner deja a la organización sin administrador
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo quitar el miembro' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,97 @@
+/**
+ * API Route para una organización
+ *
+ * Endpoints:
+ * - PATCH /api/organizaciones/[id] - Actualiza la organización
+ *   Body: { nombre?, activa? }
+ *   - nombre: solo el owner puede renombrarla
+ *   - activa: true la convierte en la organización activa del usuario (cualquier miembro);
+ *     desde ese momento cultivos, tareas, comentarios y notas se filtran por ella
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getOrganizacionModel, getUsuarioModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { respuestaSinPermisos } from '@/lib/utils/multiTenancy';
+
+/**
+ * PATCH /api/organizaciones/[id] - Renombra o activa la organización
+ */
+export const PATCH = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    const id = new URL(request.url).pathname.split('/').pop();
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'ID inválido' }, { status: 400 });
+    }
+
+    // Solo organizaciones de las que el usuario es miembro
+    const organizacion = await getOrganizacionModel(connection).findOne({
+      _id: id,
+      activo: true,
+      'miembros.email': userEmail // 🔒 FILTRO DE SEGURIDAD
+    });
+
+    if (!organizacion) {
+      return NextResponse.json(
+        { success: false, error: 'Organización no encontrada', message: 'No se encontró la organización o no eres miembro' },
+        { status: 404 }
+      );
+    }
+
+    const rol = organizacion.miembros.find(m => m.email === userEmail)?.rol;
+    const { nombre, activa } = await request.json();
+
+    if (nombre !== undefined) {
+      if (rol !== 'owner') {
+        return respuestaSinPermisos('Solo el owner puede renombrar la organización');
+      }
+      organizacion.nombre = nombre;
+      organizacion.fechaActualizacion = new Date().toISOString();
+      await organizacion.save();
+    }
+
+    if (activa === true) {
+      await getUsuarioModel(connection).updateOne(
+        { email: userEmail },
+        { $set: { organizacionId: organizacion._id.toString() } }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...organizacion.toJSON(), rol },
+      message: 'Organización actualizada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en PATCH /api/organizaciones/[id]:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo actualizar la organización' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,101 @@
+/**
+ * API Route para las organizaciones del usuario
+ *
+ * Endpoints:
+ * - GET /api/organizaciones - Lista las organizaciones de las que el usuario es miembro,
+ *   con su rol en cada una y cuál está activa
+ * - POST /api/organizaciones - Crea una organización (el usuario queda como owner y la activa)
+ *   Body: { nombre }
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB, getOrganizacionModel, getUsuarioModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion } from '@/lib/utils/multiTenancy';
+
+/**
+ * GET /api/organizaciones - Organizaciones del usuario
+ */
+export const GET = requireAuth()(async (_request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+
+    const organizaciones = await getOrganizacionModel(connection)
+      .find({ activo: true, 'miembros.email': userEmail }) // 🔒 FILTRO DE SEGURIDAD
+      .sort({ fechaCreacion: 1 });
+
+    return NextResponse.json({
+      success: true,
+      data: organizaciones.map(doc => ({
+        ...doc.toJSON(),
+        rol: doc.miembros.find(m => m.email === userEmail)?.rol,
+        activa: doc._id.toString() === contexto.organizacionId
+      })),
+      total: organizaciones.length
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/organizaciones:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudieron cargar las organizaciones' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/organizaciones - Crea una organización nueva
+ */
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const { nombre } = await request.json();
+
+    const organizacion = await getOrganizacionModel(connection).create({
+      nombre,
+      miembros: [{ email: userEmail, rol: 'owner' }],
+      creadoPor: userEmail
+    });
+
+    // La organización recién creada pasa a ser la activa
+    await getUsuarioModel(connection).updateOne(
+      { email: userEmail },
+      { $set: { organizacionId: organizacion._id.toString() } }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { ...organizacion.toJSON(), rol: 'owner', activa: true },
+      message: 'Organización creada exitosamente'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error en POST /api/organizaciones:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo crear la organización' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB, { connectToUserDB, getDatabaseName } from '@/lib/mongodb';
 import Usuario from '@/lib/models/Usuario';
-import jwt from 'jsonwebtoken';
+import { abrirSesion, aplicarCookiesSesion } from '@/lib/auth/sesiones';
+import { DURACION_TOKEN_ACCESO } from '@/lib/auth/tokens';
+import { destinoSeguro } from '@/lib/auth/redireccion';
 import { createSubscriptionPreference } from '@/lib/services/mercadopago';
+import { enviarEmailVerificacion, verificacionEmailObligatoria } from '@/lib/auth/emailsCuenta';
 
 /**
  * 🔐 REGISTRO PÚBLICO - Crea un admin con período de prueba y preferencia de pago
  *
  * Ruta: POST /api/register
  * Body: { email: string, password: string }
- * Respuesta: { success, token, user, database: dbName, requiresPayment, paymentUrl, trialEndsAt }
+ * Respuesta: { success, token, expiresIn, user, database: dbName, requiresPayment, paymentUrl, trialEndsAt }
+ * Con REQUIRE_EMAIL_VERIFICATION=true: { success, requiresEmailVerification: true, user, message } (sin sesión)
  *
  * Este endpoint:
  * 1. Crea el usuario en la DB global (para login/verificación)
@@ -17,21 +21,10 @@ import { createSubscriptionPreference } from '@/lib/services/mercadopago';
  * 3. Crea preferencia de pago en MercadoPago
  * 4. Guarda el usuario con período de prueba de 7 días
  * 5. Prepara la base de datos específica del admin
- * 6. Devuelve JWT para autenticación inmediata
+ * 6. Envía el enlace de verificación de email
+ * 7. Abre una sesión (token de acceso + cookie de refresco) para autenticación inmediata,
+ *    salvo que el login exija el email verificado
  */
-const JWT_SECRET = process.env.JWT_SECRET || 'bruce-app-development-secret-key-2024';
-
-/**
- * 🍪 CONFIGURACIÓN DE COOKIES HTTP-ONLY
- */
-const COOKIE_OPTIONS = {
-  httpOnly: true,
-  secure: process.env.NODE_ENV === 'production',
-  sameSite: 'lax' as const,
-  path: '/',
-  maxAge: 60 * 60 * 24 * 7, // 7 días
-};
-
 export async function POST(request: NextRequest) {
   let globalConnection;
 
@@ -104,7 +97,8 @@ export async function POST(request: NextRequest) {
       subscriptionStatus: 'trial', // Inicia con período de prueba
       mercadopagoPreferenceId: preference?.id,
       trialEndDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), // 7 días
-      exemptFromPayments: false // Por defecto no exento, cambiar manualmente si es necesario
+      exemptFromPayments: false, // Por defecto no exento, cambiar manualmente si es necesario
+      emailVerificado: false // Se confirma con el enlace enviado por email
     });
 
     const guardado = await nuevoUsuario.save();
@@ -120,34 +114,52 @@ export async function POST(request: NextRequest) {
       // No fallar el registro si no se puede crear la DB inmediatamente
     }
 
-    // 4. Generar token JWT
-    const tokenPayload = {
-      email: guardado.email,
-      role: guardado.role,
-      iat: Math.floor(Date.now() / 1000),
-      exp: Math.floor(Date.now() / 1000) + 24 * 60 * 60
-    };
+    // 7. Enviar el enlace de verificación (un fallo del envío no cancela el registro;
+    //    el usuario puede pedir otro desde el login)
+    try {
+      const emitido = await Usuario.emitirToken(guardado.email, 'verificacionEmail');
+      if (emitido) {
+        await enviarEmailVerificacion(guardado.email, emitido.token);
+      }
+    } catch (emailError) {
+      console.warn('⚠️ No se pudo enviar el email de verificación, registro continúa:', emailError);
+    }
+
+    // ✉️ Si el login exige el email verificado, no se abre sesión todavía
+    if (verificacionEmailObligatoria()) {
+      return NextResponse.json({
+        success: true,
+        requiresEmailVerification: true,
+        user: { email: guardado.email, role: guardado.role },
+        message: 'Cuenta creada. Revisá tu email para confirmarla antes de iniciar sesión.'
+      });
+    }
 
-    const jwtToken = jwt.sign(tokenPayload, JWT_SECRET);
+    // 8. Abrir sesión: token de acceso corto + token de refresco rotativo
+    const tokens = await abrirSesion(
+      { email: guardado.email, role: guardado.role },
+      request.headers.get('user-agent')
+    );
 
     // 🚀 REDIRECCIÓN SOLICITADA - DEVOLVER INFO PARA REDIRECCIÓN
     if (redirectUrl && redirectUrl.startsWith('/')) {
       const response = NextResponse.json({
         success: true,
-        token: jwtToken,
+        token: tokens.tokenAcceso,
+        expiresIn: DURACION_TOKEN_ACCESO,
         user: { email: guardado.email, role: guardado.role },
         database: dbName,
         requiresPayment: !!preference?.init_point, // Indica si necesita completar el pago
         paymentUrl: preference?.init_point, // URL para completar el pago
         trialEndsAt: guardado.trialEndDate,
-        redirectTo: redirectUrl, // 👈 URL de redirección solicitada
+        redirectTo: destinoSeguro(redirectUrl), // 👈 URL de redirección solicitada (solo rutas internas)
         message: preference?.init_point
           ? `Cuenta creada exitosamente. Tienes 7 días de prueba gratuita.`
           : `Admin registrado exitosamente. Base de datos: ${dbName}`
       });
 
-      // 🍪 SETEAR COOKIE HTTP-ONLY PARA MIDDLEWARE
-      response.cookies.set('auth-token', jwtToken, COOKIE_OPTIONS);
+      // 🍪 SETEAR COOKIES HTTP-ONLY (acceso y refresco)
+      aplicarCookiesSesion(response, tokens);
 
       return response;
     }
@@ -155,7 +167,8 @@ export async function POST(request: NextRequest) {
     // ✅ RESPUESTA NORMAL CON COOKIE HTTP-ONLY
     const response = NextResponse.json({
       success: true,
-      token: jwtToken,
+      token: tokens.tokenAcceso,
+      expiresIn: DURACION_TOKEN_ACCESO,
       user: { email: guardado.email, role: guardado.role },
       database: dbName,
       requiresPayment: !!preference?.init_point, // Indica si necesita completar el pago
@@ -166,8 +179,8 @@ export async function POST(request: NextRequest) {
         : `Admin registrado exitosamente. Base de datos: ${dbName}`
     });
 
-    // 🍪 SETEAR COOKIE HTTP-ONLY PARA MIDDLEWARE
-    response.cookies.set('auth-token', jwtToken, COOKIE_OPTIONS);
+    // 🍪 SETEAR COOKIES HTTP-ONLY (acceso y refresco)
+    aplicarCookiesSesion(response, tokens);
 
     return response;
 
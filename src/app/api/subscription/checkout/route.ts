@@ -12,40 +12,18 @@
  * 4. Devuelve URL de pago
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
+import { NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import Usuario from '@/lib/models/Usuario';
 import { createPaymentLink } from '@/lib/services/mercadopago';
+import { requireAuth } from '@/lib/auth/requireAuth';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'bruce-app-development-secret-key-2024';
-
-export async function POST(request: NextRequest) {
+// 1. Autenticación con requireAuth (sin exigir suscripción: esta ruta es la que permite pagar)
+export const POST = requireAuth()(async (_request: Request, { email }) => {
   try {
-    // 1. Verificar autenticación
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { success: false, error: 'Token de autenticación requerido' },
-        { status: 401 }
-      );
-    }
-
-    const token = authHeader.substring(7);
-    let decoded;
-
-    try {
-      decoded = jwt.verify(token, JWT_SECRET) as { email: string; role: string };
-    } catch {
-      return NextResponse.json(
-        { success: false, error: 'Token inválido' },
-        { status: 401 }
-      );
-    }
-
     // 2. Conectar a DB y buscar usuario
     await connectDB();
-    const usuario = await Usuario.findOne({ email: decoded.email, activo: true });
+    const usuario = await Usuario.findOne({ email, activo: true });
 
     if (!usuario) {
       return NextResponse.json(
@@ -91,4 +69,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
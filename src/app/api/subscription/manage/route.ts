@@ -7,31 +7,18 @@
  * - POST /api/subscription/manage?action=check-payment - Verificar estado de pago
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
+import { NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import Usuario, { UsuarioDocument } from '@/lib/models/Usuario';
 import { checkPaymentStatus } from '@/lib/services/mercadopago';
+import { requireAuth } from '@/lib/auth/requireAuth';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'bruce-app-development-secret-key-2024';
-
-export async function GET(request: NextRequest) {
+// Sin `subscription`: estas rutas son justamente las que permiten pagar
+export const GET = requireAuth()(async (_request: Request, { email }) => {
   try {
-    // Verificar autenticación
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { success: false, error: 'Token de autenticación requerido' },
-        { status: 401 }
-      );
-    }
-
-    const token = authHeader.substring(7);
-    const decoded = jwt.verify(token, JWT_SECRET) as { email: string; role: string };
-
     // Buscar usuario
     await connectDB();
-    const usuario = await Usuario.findOne({ email: decoded.email, activo: true });
+    const usuario = await Usuario.findOne({ email, activo: true });
 
     if (!usuario) {
       return NextResponse.json(
@@ -72,27 +59,15 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = requireAuth()(async (request: Request, { email }) => {
   try {
-    // Verificar autenticación
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { success: false, error: 'Token de autenticación requerido' },
-        { status: 401 }
-      );
-    }
-
-    const token = authHeader.substring(7);
-    const decoded = jwt.verify(token, JWT_SECRET) as { email: string; role: string };
-
     const { action, paymentId } = await request.json();
 
     // Buscar usuario
     await connectDB();
-    const usuario = await Usuario.findOne({ email: decoded.email, activo: true });
+    const usuario = await Usuario.findOne({ email, activo: true });
 
     if (!usuario) {
       return NextResponse.json(
@@ -130,7 +105,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 async function handleCancelSubscription(usuario: UsuarioDocument) {
   try {
@@ -0,0 +1,267 @@
+/**
+ * API Route para ocurrencias puntuales de tareas recurrentes
+ *
+ * Las ocurrencias de una serie se calculan al consultar y no existen en la base de datos.
+ * - PATCH guarda un reemplazo de la ocurrencia (tarea con tareaPadreId y fechaOcurrencia)
+ * - DELETE omite la ocurrencia agregando la fecha a las excepciones de la serie
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getTareaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import {
+  obtenerContextoOrganizacion,
+  construirFiltroUsuario,
+  puedeCrearRecursos,
+  respuestaSinPermisos,
+  type ContextoOrganizacion
+} from '@/lib/utils/multiTenancy';
+import { esFechaValida, esFechaDeSerie } from '@/lib/utils/recurrencia';
+
+/**
+ * Campos que definen la serie y no se pueden cambiar desde una ocurrencia
+ */
+const CAMPOS_DE_SERIE = [
+  '_id',
+  'id',
+  'creadoPor',
+  'organizacionId',
+  'tareaPadreId',
+  'fechaOcurrencia',
+  'esRecurrente',
+  'frecuencia',
+  'intervaloPersonalizado',
+  'fechaFinRepeticion',
+  'excepciones',
+  'esOcurrenciaVirtual'
+];
+
+/**
+ * Extrae el ID de la tarea original y la fecha de la ocurrencia desde la URL
+ */
+function extraerParametros(request: Request): { id?: string; fecha?: string } {
+  const partes = new URL(request.url).pathname.split('/');
+  const indice = partes.indexOf('tareas');
+  return {
+    id: indice >= 0 ? partes[indice + 1] : undefined,
+    fecha: partes[partes.length - 1]
+  };
+}
+
+/**
+ * Filtro de reemplazos de una fecha de la serie
+ * Los reemplazos antiguos no tienen fechaOcurrencia y se identifican por su fecha programada
+ */
+function filtroReemplazo(id: string, fecha: string, contexto: ContextoOrganizacion) {
+  return {
+    tareaPadreId: id,
+    ...construirFiltroUsuario(contexto), // 🔒 FILTRO DE SEGURIDAD
+    $or: [
+      { fechaOcurrencia: fecha },
+      { fechaOcurrencia: { $exists: false }, fechaProgramada: fecha }
+    ]
+  };
+}
+
+/**
+ * PATCH /api/tareas/[id]/ocurrencias/[fecha] - Edita una ocurrencia puntual de la serie
+ */
+export const PATCH = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const TareaModel = getTareaModel(connection) as any;
+
+    const { id, fecha } = extraerParametros(request);
+
+    if (!id || !mongoose.Types.ObjectId.isValid(id) || !esFechaValida(fecha)) {
+      return NextResponse.json(
+        { success: false, error: 'Parámetros inválidos', message: 'El ID o la fecha de la ocurrencia no son válidos' },
+        { status: 400 }
+      );
+    }
+
+    // 🔒 Los viewers solo pueden consultar
+    if (!puedeCrearRecursos(contexto)) {
+      return respuestaSinPermisos('Tu rol en la organización no permite modificar tareas');
+    }
+
+    // La serie debe pertenecer a la organización
+    const serie = await TareaModel.findOne({
+      _id: id,
+      ...construirFiltroUsuario(contexto), // 🔒 FILTRO DE SEGURIDAD
+      esRecurrente: true,
+      tareaPadreId: { $exists: false }
+    }).lean();
+
+    if (!serie) {
+      return NextResponse.json(
+        { success: false, error: 'Tarea no encontrada', message: 'No se encontró la tarea recurrente o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    if (fecha === serie.fechaProgramada) {
+      return NextResponse.json(
+        { success: false, error: 'Ocurrencia inválida', message: 'La primera ocurrencia es la propia tarea: edítala directamente' },
+        { status: 400 }
+      );
+    }
+
+    if (!esFechaDeSerie(serie, fecha)) {
+      return NextResponse.json(
+        { success: false, error: 'Ocurrencia inválida', message: `La fecha ${fecha} no corresponde a una ocurrencia de la serie` },
+        { status: 400 }
+      );
+    }
+
+    const updates = await request.json();
+    for (const campo of CAMPOS_DE_SERIE) delete updates[campo];
+
+    const hoy = new Date().toISOString().split('T')[0];
+    const existente = await TareaModel.findOne(filtroReemplazo(id, fecha, contexto));
+
+    let reemplazo;
+    if (existente) {
+      existente.set({ ...updates, fechaOcurrencia: fecha, editadoPor: userEmail });
+      reemplazo = await existente.save();
+    } else {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { _id, __v, excepciones, frecuencia, intervaloPersonalizado, fechaFinRepeticion, ...datosSerie } = serie;
+      reemplazo = await new TareaModel({
+        ...datosSerie,
+        estado: 'pendiente',
+        fechaCompletada: undefined,
+        notas: undefined,
+        recordatorioEnviado: false,
+        fechaProgramada: fecha,
+        ...updates,
+        esRecurrente: false,
+        tareaPadreId: id,
+        fechaOcurrencia: fecha,
+        fechaCreacion: hoy,
+        fechaActualizacion: new Date().toISOString(),
+        creadoPor: userEmail, // 🔒 Se asigna al usuario actual
+        organizacionId: contexto.organizacionId,
+        editadoPor: userEmail
+      }).save();
+    }
+
+    // Editar una ocurrencia omitida la vuelve a incluir en la serie
+    if (serie.excepciones?.includes(fecha)) {
+      await TareaModel.updateOne({ _id: id, ...construirFiltroUsuario(contexto) }, { $pull: { excepciones: fecha } });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: reemplazo.toJSON(),
+      message: 'Ocurrencia actualizada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en PATCH /api/tareas/[id]/ocurrencias/[fecha]:', error);
+
+    // Type guard para verificar si es un error de validación de Mongoose
+    const isValidationError = (err: unknown): err is { name: string; errors: Record<string, { message: string }> } => {
+      return typeof err === 'object' && err !== null && 'name' in err && 'errors' in err;
+    };
+
+    if (isValidationError(error) && error.name === 'ValidationError') {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const validationErrors = Object.values(error.errors).map((err: any) => err.message);
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', message: 'Errores de validación', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'JSON inválido', message: 'El formato de los datos enviados no es válido' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo actualizar la ocurrencia' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/tareas/[id]/ocurrencias/[fecha] - Omite una ocurrencia puntual de la serie
+ */
+export const DELETE = requireAuth()(async (request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const TareaModel = getTareaModel(connection) as any;
+
+    const { id, fecha } = extraerParametros(request);
+
+    if (!id || !mongoose.Types.ObjectId.isValid(id) || !esFechaValida(fecha)) {
+      return NextResponse.json(
+        { success: false, error: 'Parámetros inválidos', message: 'El ID o la fecha de la ocurrencia no son válidos' },
+        { status: 400 }
+      );
+    }
+
+    // 🔒 Los viewers solo pueden consultar
+    if (!puedeCrearRecursos(contexto)) {
+      return respuestaSinPermisos('Tu rol en la organización no permite modificar tareas');
+    }
+
+    const serie = await TareaModel.findOne({
+      _id: id,
+      ...construirFiltroUsuario(contexto), // 🔒 FILTRO DE SEGURIDAD
+      esRecurrente: true,
+      tareaPadreId: { $exists: false }
+    }).lean();
+
+    if (!serie) {
+      return NextResponse.json(
+        { success: false, error: 'Tarea no encontrada', message: 'No se encontró la tarea recurrente o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    if (!esFechaDeSerie(serie, fecha)) {
+      return NextResponse.json(
+        { success: false, error: 'Ocurrencia inválida', message: `La fecha ${fecha} no corresponde a una ocurrencia de la serie` },
+        { status: 400 }
+      );
+    }
+
+    const tareaActualizada = await TareaModel.findOneAndUpdate(
+      { _id: id, ...construirFiltroUsuario(contexto) }, // 🔒 FILTRO DE SEGURIDAD
+      {
+        $addToSet: { excepciones: fecha },
+        fechaActualizacion: new Date().toISOString(),
+        editadoPor: userEmail
+      },
+      { new: true, lean: true }
+    );
+
+    // Un reemplazo guardado de esa fecha también deja de existir
+    const { deletedCount } = await TareaModel.deleteMany(filtroReemplazo(id, fecha, contexto));
+
+    return NextResponse.json({
+      success: true,
+      data: { ...tareaActualizada, id: tareaActualizada._id.toString(), _id: undefined },
+      message: deletedCount > 0
+        ? 'Ocurrencia y su reemplazo eliminados exitosamente'
+        : 'Ocurrencia eliminada exitosamente'
+    });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/tareas/[id]/ocurrencias/[fecha]:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo eliminar la ocurrencia' },
+      { status: 500 }
+    );
+  }
+});
@@ -7,14 +7,23 @@
 
 import { NextResponse } from 'next/server';
 import mongoose from 'mongoose';
-import { withUserDB, connectToUserDB, getTareaModel } from '@/lib/mongodb';
+import { connectToUserDB, getTareaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import {
+  obtenerContextoOrganizacion,
+  construirFiltroUsuario,
+  puedeCrearRecursos,
+  puedeEliminarRecurso,
+  respuestaSinPermisos
+} from '@/lib/utils/multiTenancy';
 
 /**
- * GET /api/tareas/[id] - Obtiene tarea específica verificando propiedad
+ * GET /api/tareas/[id] - Obtiene tarea específica de la organización
  */
-export const GET = withUserDB(async (request, userEmail) => {
+export const GET = requireAuth()(async (request, { email: userEmail }) => {
   try {
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const TareaModel = getTareaModel(connection) as any;
 
@@ -29,10 +38,10 @@ export const GET = withUserDB(async (request, userEmail) => {
       );
     }
 
-    // Buscar tarea por ID Y usuario creador
+    // Buscar tarea por ID Y organización
     const tarea = await TareaModel.findOne({
       _id: id,
-      creadoPor: userEmail // 🔒 FILTRO DE SEGURIDAD
+      ...construirFiltroUsuario(contexto) // 🔒 FILTRO DE SEGURIDAD
     }).lean();
 
     if (!tarea) {
@@ -58,11 +67,12 @@ export const GET = withUserDB(async (request, userEmail) => {
 });
 
 /**
- * PATCH /api/tareas/[id] - Actualiza tarea específica verificando propiedad
+ * PATCH /api/tareas/[id] - Actualiza tarea específica de la organización (owner o grower)
  */
-export const PATCH = withUserDB(async (request, userEmail) => {
+export const PATCH = requireAuth()(async (request, { email: userEmail }) => {
   try {
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const TareaModel = getTareaModel(connection) as any;
 
@@ -77,25 +87,61 @@ export const PATCH = withUserDB(async (request, userEmail) => {
       );
     }
 
-    const updates = await request.json();
+    // 🔒 Los viewers solo pueden consultar
+    if (!puedeCrearRecursos(contexto)) {
+      return respuestaSinPermisos('Tu rol en la organización no permite modificar tareas');
+    }
+
+    const { fechaActualizacionBase, ...datos } = await request.json();
+
+    // Los operadores de MongoDB ($set, $unset...) no se aceptan desde el cliente
+    const updates: Record<string, unknown> = Object.fromEntries(
+      Object.entries(datos).filter(([campo]) => !campo.startsWith('$'))
+    );
     delete updates._id;
     delete updates.id;
     delete updates.creadoPor; // No permitir cambiar el creador
+    delete updates.organizacionId; // Ni moverla a otra organización
+    if (updates.plantaId === '') {
+      delete updates.plantaId;
+      updates.$unset = { plantaId: '' }; // Quitar la asociación con la planta
+    }
 
     const updatesConAuditoria = {
       ...updates,
-      fechaActualizacion: new Date().toISOString().split('T')[0],
+      fechaActualizacion: new Date().toISOString(),
       editadoPor: userEmail
     };
 
-    // Actualizar SOLO si pertenece al usuario
+    // Control de concurrencia optimista: si el cliente envía la versión sobre la que
+    // editó (p. ej. al reproducir la cola offline), solo se aplica si sigue vigente
+    const filtro: Record<string, unknown> = { _id: id, ...construirFiltroUsuario(contexto) }; // 🔒 FILTRO DE SEGURIDAD
+    if (typeof fechaActualizacionBase === 'string') {
+      filtro.fechaActualizacion = fechaActualizacionBase;
+    }
+
+    // Actualizar SOLO si pertenece a la organización
     const tareaActualizada = await TareaModel.findOneAndUpdate(
-      { _id: id, creadoPor: userEmail }, // 🔒 FILTRO DE SEGURIDAD
+      filtro,
       updatesConAuditoria,
       { new: true, runValidators: true, lean: true }
     );
 
     if (!tareaActualizada) {
+      const actual = typeof fechaActualizacionBase === 'string'
+        ? await TareaModel.findOne({ _id: id, ...construirFiltroUsuario(contexto) }).lean() // 🔒 FILTRO DE SEGURIDAD
+        : null;
+      if (actual) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Conflicto de edición',
+            message: 'La tarea fue modificada después de tu última sincronización',
+            data: { ...actual, id: actual._id.toString(), _id: undefined }
+          },
+          { status: 409 }
+        );
+      }
       return NextResponse.json(
         { success: false, error: 'Tarea no encontrada', message: `No se encontró la tarea o no tienes permisos` },
         { status: 404 }
@@ -133,11 +179,12 @@ export const PATCH = withUserDB(async (request, userEmail) => {
 });
 
 /**
- * DELETE /api/tareas/[id] - Elimina tarea específica verificando propiedad
+ * DELETE /api/tareas/[id] - Elimina tarea específica (owner, o el grower que la creó)
  */
-export const DELETE = withUserDB(async (request, userEmail) => {
+export const DELETE = requireAuth()(async (request, { email: userEmail }) => {
   try {
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const TareaModel = getTareaModel(connection) as any;
 
@@ -152,10 +199,10 @@ export const DELETE = withUserDB(async (request, userEmail) => {
       );
     }
 
-    // Eliminar SOLO si pertenece al usuario
-    const tareaEliminada = await TareaModel.findOneAndDelete({
+    // Buscar SOLO si pertenece a la organización
+    const tareaEliminada = await TareaModel.findOne({
       _id: id,
-      creadoPor: userEmail // 🔒 FILTRO DE SEGURIDAD
+      ...construirFiltroUsuario(contexto) // 🔒 FILTRO DE SEGURIDAD
     }).lean();
 
     if (!tareaEliminada) {
@@ -165,6 +212,13 @@ export const DELETE = withUserDB(async (request, userEmail) => {
       );
     }
 
+    // 🔒 Los growers solo eliminan lo que crearon; los viewers nada
+    if (!puedeEliminarRecurso(contexto, tareaEliminada)) {
+      return respuestaSinPermisos('Tu rol en la organización no permite eliminar esta tarea');
+    }
+
+    await TareaModel.deleteOne({ _id: tareaEliminada._id });
+
     console.log(`🗑️ Tarea eliminada por ${userEmail}:`, {
       id: tareaEliminada._id,
       titulo: tareaEliminada.titulo,
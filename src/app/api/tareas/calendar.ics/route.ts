@@ -0,0 +1,33 @@
+/**
+ * API Route del feed iCalendar de tareas
+ *
+ * GET /api/tareas/calendar.ics?token=... - Todas las tareas de la organización en formato .ics
+ * Opcional: &cultivoId=... para limitar el feed a un cultivo.
+ * Se autentica con el token del calendario (ver /api/tareas/calendario), no con JWT.
+ */
+
+import { NextResponse } from 'next/server';
+import { withCalendarioDB, connectToUserDB } from '@/lib/mongodb';
+import { responderFeedTareas } from '@/lib/utils/feedCalendario';
+import { obtenerContextoOrganizacion } from '@/lib/utils/multiTenancy';
+
+export const GET = withCalendarioDB(async (request: Request, userEmail: string) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const cultivoId = new URL(request.url).searchParams.get('cultivoId') || undefined;
+
+    return await responderFeedTareas(connection, contexto, {
+      cultivoId,
+      nombre: 'Tareas de cultivo',
+      request
+    });
+
+  } catch (error) {
+    console.error('Error en GET /api/tareas/calendar.ics:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo generar el calendario' },
+      { status: 500 }
+    );
+  }
+});
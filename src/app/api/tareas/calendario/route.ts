@@ -0,0 +1,104 @@
+/**
+ * API Route para gestionar el token del feed iCalendar del usuario
+ *
+ * - GET: indica si hay un feed activo (solo el prefijo del token)
+ * - POST: genera o rota el token y devuelve la URL del feed (única vez que se muestra)
+ * - DELETE: revoca el token; las suscripciones existentes dejan de actualizarse
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB, getUsuarioModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { generarTokenCalendario } from '@/lib/models/Usuario';
+import type { FeedCalendario } from '@/types/planificacion';
+
+/**
+ * GET /api/tareas/calendario - Estado del feed del usuario
+ */
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const usuario = await getUsuarioModel(connection).findOne({ email: userEmail, activo: true }); // 🔒 FILTRO DE SEGURIDAD
+
+    const feed: FeedCalendario = {
+      activo: Boolean(usuario?.calendarioTokenHash),
+      prefijo: usuario?.calendarioTokenPrefijo
+    };
+
+    return NextResponse.json({ success: true, data: feed });
+
+  } catch (error) {
+    console.error('Error en GET /api/tareas/calendario:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo obtener el feed de calendario' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/tareas/calendario - Genera un nuevo token (invalida el anterior)
+ */
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const { token, tokenHash, prefijo } = generarTokenCalendario();
+
+    const usuario = await getUsuarioModel(connection).findOneAndUpdate(
+      { email: userEmail, activo: true }, // 🔒 FILTRO DE SEGURIDAD
+      { calendarioTokenHash: tokenHash, calendarioTokenPrefijo: prefijo },
+      { new: true }
+    );
+
+    if (!usuario) {
+      return NextResponse.json(
+        { success: false, error: 'Usuario no encontrado', message: 'No se encontró el usuario' },
+        { status: 404 }
+      );
+    }
+
+    const feed: FeedCalendario = {
+      activo: true,
+      prefijo,
+      token,
+      url: `${new URL(request.url).origin}/api/tareas/calendar.ics?token=${token}`
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: feed,
+      message: 'Feed de calendario generado. Guarda la URL: no se volverá a mostrar'
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/tareas/calendario:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo generar el feed de calendario' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/tareas/calendario - Revoca el token del feed
+ */
+export const DELETE = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+
+    await getUsuarioModel(connection).updateOne(
+      { email: userEmail }, // 🔒 FILTRO DE SEGURIDAD
+      { $unset: { calendarioTokenHash: 1, calendarioTokenPrefijo: 1 } }
+    );
+
+    const feed: FeedCalendario = { activo: false };
+    return NextResponse.json({ success: true, data: feed, message: 'Feed de calendario revocado' });
+
+  } catch (error) {
+    console.error('Error en DELETE /api/tareas/calendario:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo revocar el feed de calendario' },
+      { status: 500 }
+    );
+  }
+});
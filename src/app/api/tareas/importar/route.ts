@@ -0,0 +1,165 @@
+/**
+ * API Route para importar tareas desde archivos iCalendar (.ics)
+ *
+ * POST /api/tareas/importar - Convierte los VEVENT de un .ics en tareas de un cultivo
+ *
+ * Formatos aceptados:
+ * - multipart/form-data con los campos `archivo` (.ics), `cultivoId`, y `guardar` y `zonaHoraria` opcionales
+ * - text/calendar en el body, con `cultivoId`, `guardar` y `zonaHoraria` como parámetros de la URL
+ *
+ * `zonaHoraria` (IANA, ej: Europe/Madrid) es la zona a la que se pasan las horas en UTC o con TZID;
+ * por defecto se usa la del servidor.
+ *
+ * Sin `guardar=true` solo devuelve la vista previa (TareaCreacion[]) sin crear nada.
+ */
+
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToUserDB, getCultivoModel, getTareaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import {
+  obtenerContextoOrganizacion,
+  construirFiltroUsuario,
+  puedeCrearRecursos,
+  respuestaSinPermisos
+} from '@/lib/utils/multiTenancy';
+import { parsearCalendarioICS } from '@/lib/utils/ical';
+import type { TareaCultivo } from '@/types/planificacion';
+
+/**
+ * Tamaño máximo del archivo importado (1 MB)
+ */
+const TAMANO_MAXIMO_BYTES = 1024 * 1024;
+
+/**
+ * Máximo de eventos que se crean en una sola importación
+ */
+const MAX_TAREAS_IMPORTACION = 500;
+
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
+  try {
+    const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+    const url = new URL(request.url);
+
+    let contenido: string;
+    let cultivoId = url.searchParams.get('cultivoId');
+    let guardar = url.searchParams.get('guardar') === 'true';
+    let zonaHoraria = url.searchParams.get('zonaHoraria') || undefined;
+
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const archivo = formData.get('archivo');
+
+      if (!(archivo instanceof Blob)) {
+        return NextResponse.json(
+          { success: false, error: 'Archivo requerido', message: 'No se recibió ningún archivo .ics' },
+          { status: 400 }
+        );
+      }
+      if (archivo.size > TAMANO_MAXIMO_BYTES) {
+        return NextResponse.json(
+          { success: false, error: 'Archivo demasiado grande', message: 'El archivo supera el límite de 1MB' },
+          { status: 413 }
+        );
+      }
+
+      contenido = await archivo.text();
+      cultivoId = (formData.get('cultivoId') as string | null) || cultivoId;
+      guardar = formData.get('guardar') === 'true' || guardar;
+      zonaHoraria = (formData.get('zonaHoraria') as string | null) || zonaHoraria;
+    } else {
+      contenido = await request.text();
+      if (contenido.length > TAMANO_MAXIMO_BYTES) {
+        return NextResponse.json(
+          { success: false, error: 'Archivo demasiado grande', message: 'El archivo supera el límite de 1MB' },
+          { status: 413 }
+        );
+      }
+    }
+
+    if (!cultivoId || !mongoose.Types.ObjectId.isValid(cultivoId)) {
+      return NextResponse.json(
+        { success: false, error: 'ID inválido', message: 'Se requiere un cultivoId válido para importar tareas' },
+        { status: 400 }
+      );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const CultivoModel = getCultivoModel(connection) as any;
+    const cultivo = await CultivoModel.exists({ _id: cultivoId, ...construirFiltroUsuario(contexto) }); // 🔒 FILTRO DE SEGURIDAD
+    if (!cultivo) {
+      return NextResponse.json(
+        { success: false, error: 'Cultivo no encontrado', message: 'No se encontró el cultivo o no tienes permisos' },
+        { status: 404 }
+      );
+    }
+
+    if (!contenido.includes('BEGIN:VCALENDAR')) {
+      return NextResponse.json(
+        { success: false, error: 'Formato inválido', message: 'El archivo no es un calendario iCalendar (.ics) válido' },
+        { status: 400 }
+      );
+    }
+
+    const { tareas, omitidos } = parsearCalendarioICS(contenido, cultivoId, zonaHoraria);
+
+    if (tareas.length > MAX_TAREAS_IMPORTACION) {
+      return NextResponse.json(
+        { success: false, error: 'Demasiados eventos', message: `Se pueden importar hasta ${MAX_TAREAS_IMPORTACION} eventos por archivo` },
+        { status: 413 }
+      );
+    }
+
+    if (!guardar) {
+      return NextResponse.json({
+        success: true,
+        data: { tareas, omitidos },
+        total: tareas.length,
+        message: `${tareas.length} eventos listos para importar`
+      });
+    }
+
+    // 🔒 La vista previa es de lectura; guardar requiere poder crear tareas
+    if (!puedeCrearRecursos(contexto)) {
+      return respuestaSinPermisos('Tu rol en la organización no permite crear tareas');
+    }
+
+    // Crear cada tarea con las mismas validaciones que POST /api/tareas
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const TareaModel = getTareaModel(connection) as any;
+    const hoy = new Date().toISOString().split('T')[0];
+    const creadas: TareaCultivo[] = [];
+
+    for (const tarea of tareas) {
+      try {
+        const guardada = await new TareaModel({
+          ...tarea,
+          fechaCreacion: hoy,
+          fechaActualizacion: new Date().toISOString(),
+          creadoPor: userEmail, // 🔒 Se asigna al usuario actual
+          organizacionId: contexto.organizacionId,
+          recordatorioEnviado: false
+        }).save();
+        creadas.push(guardada.toJSON());
+      } catch (error) {
+        const detalle = error instanceof Error ? error.message : 'error desconocido';
+        omitidos.push(`"${tarea.titulo}": ${detalle}`);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { tareas: creadas, omitidos },
+      total: creadas.length,
+      message: `${creadas.length} tareas importadas exitosamente`
+    });
+
+  } catch (error) {
+    console.error('Error en POST /api/tareas/importar:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor', message: 'No se pudo importar el calendario' },
+      { status: 500 }
+    );
+  }
+});
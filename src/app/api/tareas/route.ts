@@ -6,44 +6,62 @@
  */
 
 import { NextResponse } from 'next/server';
-// import connectDB, { withUserDB, connectToUserDB, getTareaModel } from '@/lib/mongodb';
-import { withUserDB, connectToUserDB, getTareaModel } from '@/lib/mongodb';
-// import type { TareaCultivo } from '@/types/planificacion';
+import { connectToUserDB, getTareaModel } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import {
+  obtenerContextoOrganizacion,
+  construirFiltroCultivo,
+  puedeCrearRecursos,
+  respuestaSinPermisos
+} from '@/lib/utils/multiTenancy';
+import type { TareaCultivo } from '@/types/planificacion';
 import type { TareaDocument } from '@/lib/models';
 import type { Model } from 'mongoose';
-// import { construirFiltroUsuario, UsuarioValidado } from '@/lib/utils/multiTenancy';
+import { esFechaValida, expandirOcurrencias } from '@/lib/utils/recurrencia';
 
 /**
- * 🔐 JWT CONFIGURATION
- * JWT secret for token verification (must match frontend)
+ * Convierte un documento lean de tarea al formato de la API (id en lugar de _id)
  */
-
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const serializarTarea = (tarea: any): TareaCultivo => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { _id, __v, ...resto } = tarea;
+  return { ...resto, id: _id.toString() };
+};
 
 /**
- * GET /api/tareas - Lista tareas desde la base de datos compartida filtrando por usuario
+ * GET /api/tareas - Lista tareas desde la base de datos compartida filtrando por organización
+ *
+ * Con fechaDesde y fechaHasta incluye las ocurrencias virtuales de las tareas
+ * recurrentes dentro del rango (desactivable con expandir=false).
+ * Con cultivoId de un cultivo compartido con el usuario, lista las tareas de ese
+ * cultivo en la organización dueña (solo lectura).
  */
-export const GET = withUserDB(async (request: Request, userEmail: string) => {
+export const GET = requireAuth()(async (request: Request, { email: userEmail }) => {
   try {
     // Obtener la conexión a la base de datos principal
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
 
     const url = new URL(request.url);
     const cultivoId = url.searchParams.get('cultivoId');
+    const plantaId = url.searchParams.get('plantaId');
     const tipo = url.searchParams.get('tipo');
     const estado = url.searchParams.get('estado');
     const fechaDesde = url.searchParams.get('fechaDesde');
     const fechaHasta = url.searchParams.get('fechaHasta');
     const page = parseInt(url.searchParams.get('_page') || '1');
     const limit = parseInt(url.searchParams.get('_limit') || '50');
+    const filtroOrganizacion = await construirFiltroCultivo(connection, contexto, cultivoId);
 
-    // Construir query de MongoDB con filtros base Y filtro de usuario
-    // Construir query de MongoDB con filtros base Y filtro de usuario
+    // Construir query de MongoDB con filtros base Y filtro de organización
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const query: any = {
-      creadoPor: userEmail // 🔒 FILTRO DE SEGURIDAD
+      ...filtroOrganizacion // 🔒 FILTRO DE SEGURIDAD
     };
 
     if (cultivoId) query.cultivoId = cultivoId;
+    if (plantaId) query.plantaId = plantaId;
     if (tipo) query.tipo = tipo;
     if (estado) query.estado = estado;
     if (fechaDesde || fechaHasta) {
@@ -55,21 +73,80 @@ export const GET = withUserDB(async (request: Request, userEmail: string) => {
     // Obtener el modelo específico para esta conexión
     const TareaModel = getTareaModel(connection) as Model<TareaDocument>;
 
-    // Ejecutar consulta con paginación
-    const tareas = await TareaModel.find(query)
-      .sort({ fechaProgramada: 1, horaProgramada: 1 })
-      .skip((page - 1) * limit)
-      .limit(limit)
-      .lean();
+    // Sin rango completo no se pueden acotar las series: devolver solo tareas guardadas
+    const expandir = url.searchParams.get('expandir') !== 'false' && esFechaValida(fechaDesde) && esFechaValida(fechaHasta);
+
+    if (!expandir) {
+      // Ejecutar consulta con paginación
+      const tareas = await TareaModel.find(query)
+        .sort({ fechaProgramada: 1, horaProgramada: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean();
+
+      const total = await TareaModel.countDocuments(query);
+
+      return NextResponse.json({
+        success: true,
+        data: tareas.map(serializarTarea),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit)
+      });
+    }
 
-    const total = await TareaModel.countDocuments(query);
+    // Series recurrentes que pueden tener ocurrencias dentro del rango
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const querySeries: any = {
+      ...filtroOrganizacion, // 🔒 FILTRO DE SEGURIDAD
+      esRecurrente: true,
+      tareaPadreId: { $exists: false },
+      fechaProgramada: { $lte: fechaHasta },
+      $or: [
+        { fechaFinRepeticion: { $exists: false } },
+        { fechaFinRepeticion: null },
+        { fechaFinRepeticion: { $gte: fechaDesde } }
+      ]
+    };
+    if (cultivoId) querySeries.cultivoId = cultivoId;
+    if (tipo) querySeries.tipo = tipo;
+
+    const [guardadas, maestras] = await Promise.all([
+      TareaModel.find(query).lean(),
+      TareaModel.find(querySeries).lean()
+    ]);
+
+    // Reemplazos de cualquier fecha: una ocurrencia movida fuera del rango no debe reaparecer
+    const reemplazos = maestras.length > 0
+      ? await TareaModel.find({
+        ...filtroOrganizacion, // 🔒 FILTRO DE SEGURIDAD
+        tareaPadreId: { $in: maestras.map(m => m._id.toString()) }
+      }).lean()
+      : [];
+
+    const virtuales = expandirOcurrencias(
+      maestras.map(serializarTarea),
+      reemplazos.map(serializarTarea),
+      fechaDesde,
+      fechaHasta
+    ).filter(ocurrencia => !estado || ocurrencia.estado === estado);
+
+    // Una tarea original cuya propia fecha fue omitida sigue definiendo la serie, pero no se muestra
+    const visibles = guardadas
+      .map(serializarTarea)
+      .filter(tarea => !(tarea.esRecurrente && !tarea.tareaPadreId && tarea.excepciones?.includes(tarea.fechaProgramada)));
+
+    const todas = [...visibles, ...virtuales].sort((a, b) =>
+      a.fechaProgramada.localeCompare(b.fechaProgramada) ||
+      (a.horaProgramada || '').localeCompare(b.horaProgramada || '')
+    );
 
     return NextResponse.json({
       success: true,
-      data: tareas,
-      total,
+      data: todas.slice((page - 1) * limit, page * limit),
+      total: todas.length,
       page,
-      totalPages: Math.ceil(total / limit)
+      totalPages: Math.ceil(todas.length / limit)
     });
 
   } catch (error) {
@@ -84,18 +161,25 @@ export const GET = withUserDB(async (request: Request, userEmail: string) => {
 /**
  * POST /api/tareas - Crea nueva tarea en la base de datos compartida
  */
-export const POST = withUserDB(async (request: Request, userEmail: string) => {
+export const POST = requireAuth()(async (request: Request, { email: userEmail }) => {
   try {
     // Obtener la conexión a la base de datos principal
     const connection = await connectToUserDB(userEmail);
+    const contexto = await obtenerContextoOrganizacion(connection, userEmail);
+
+    // 🔒 Los viewers solo pueden consultar
+    if (!puedeCrearRecursos(contexto)) {
+      return respuestaSinPermisos('Tu rol en la organización no permite crear tareas');
+    }
 
     // Leer datos y agregar auditoría
     const tareaData = await request.json();
     const tareaConAuditoria = {
       ...tareaData,
       fechaCreacion: new Date().toISOString().split('T')[0],
-      fechaActualizacion: new Date().toISOString().split('T')[0],
+      fechaActualizacion: new Date().toISOString(),
       creadoPor: userEmail, // 🔒 Se asigna al usuario actual
+      organizacionId: contexto.organizacionId, // 🔒 Y a su organización activa
       recordatorioEnviado: false
     };
 
@@ -9,55 +9,18 @@
  * - POST /api/usuarios - Crea un nuevo usuario (solo admins)
  *
  * Características:
- * - Solo administradores pueden gestionar usuarios
- * - Los usuarios creados quedan asociados al admin que los creó
+ * - Solo administradores pueden gestionar usuarios (requireAuth responde 403 al resto)
+ * - Los usuarios creados quedan asociados al admin que los creó y se suman a su
+ *   organización activa como grower (si el admin es owner)
  * - Validación automática de datos
  * - Hash automático de passwords
  */
 
 import { NextResponse } from 'next/server';
-import connectDB from '@/lib/mongodb';
+import connectDB, { connectToUserDB } from '@/lib/mongodb';
 import Usuario from '@/lib/models/Usuario';
-import jwt from 'jsonwebtoken';
-
-/**
- * 🔐 JWT CONFIGURATION
- * JWT secret for token verification (must match frontend)
- */
-const JWT_SECRET = process.env.JWT_SECRET || 'bruce-app-development-secret-key-2024';
-
-/**
- * 🔍 Función para validar permisos desde token JWT
- * Extrae la información del usuario del token JWT válido
- */
-function validarPermisos(token: string | null): { email: string; role: 'admin' | 'user' } | null {
-  if (!token) return null;
-
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as {
-      email: string;
-      role: 'admin' | 'user';
-      exp: number;
-    };
-
-    const currentTime = Math.floor(Date.now() / 1000);
-    if (decoded.exp < currentTime) {
-      console.warn('🚨 Token JWT expirado');
-      return null;
-    }
-
-    if (decoded.email && decoded.role) {
-      return { email: decoded.email, role: decoded.role };
-    }
-
-    console.warn('🚨 Token JWT con datos inválidos');
-    return null;
-
-  } catch (error) {
-    console.error('🚨 Error al validar token JWT:', error);
-    return null;
-  }
-}
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { obtenerContextoOrganizacion, agregarMiembroOrganizacion } from '@/lib/utils/multiTenancy';
 
 /**
  * GET /api/usuarios
@@ -70,26 +33,11 @@ function validarPermisos(token: string | null): { email: string; role: 'admin' |
  * - activo: filtrar por estado (true/false)
  * - creadoPor: filtrar usuarios creados por un admin específico
  */
-export async function GET(request: Request) {
+export const GET = requireAuth({ role: 'admin' })(async (request: Request) => {
   try {
     // Conectar a MongoDB
     await connectDB();
 
-    // 🔒 VALIDACIÓN DE PERMISOS
-    const token = request.headers.get('authorization')?.replace('Bearer ', '') || null;
-    const user = validarPermisos(token);
-
-    if (!user || user.role !== 'admin') {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Permisos insuficientes',
-          message: 'Solo los administradores pueden gestionar usuarios'
-        },
-        { status: 403 }
-      );
-    }
-
     // Obtener parámetros de la URL
     const url = new URL(request.url);
     const roleFilter = url.searchParams.get('role');
@@ -150,7 +98,7 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/usuarios
@@ -158,26 +106,11 @@ export async function GET(request: Request) {
  * Crea un nuevo usuario en el sistema
  * Solo accesible para administradores
  */
-export async function POST(request: Request) {
+export const POST = requireAuth({ role: 'admin' })(async (request: Request, admin) => {
   try {
     // Conectar a MongoDB
     await connectDB();
 
-    // 🔒 VALIDACIÓN DE PERMISOS
-    const token = request.headers.get('authorization')?.replace('Bearer ', '') || null;
-    const user = validarPermisos(token);
-
-    if (!user || user.role !== 'admin') {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Permisos insuficientes',
-          message: 'Solo los administradores pueden crear usuarios'
-        },
-        { status: 403 }
-      );
-    }
-
     // Leer datos de la petición
     const { email, password, role } = await request.json();
 
@@ -232,13 +165,22 @@ export async function POST(request: Request) {
       email: email.toLowerCase().trim(),
       password, // Se hashea automáticamente en el pre-save middleware
       role: role || 'user',
-      creadoPor: user.email, // Asociar al admin que lo creó
+      creadoPor: admin.email, // Asociar al admin que lo creó
       activo: true
     });
 
     // Guardar en MongoDB (validaciones automáticas del schema)
     const usuarioGuardado = await nuevoUsuario.save();
 
+    // Sumar al usuario a la organización del admin para que vea sus cultivos
+    const connection = await connectToUserDB(admin.email);
+    const contexto = await obtenerContextoOrganizacion(connection, admin.email);
+    if (contexto.rol === 'owner') {
+      await agregarMiembroOrganizacion(connection, contexto.organizacionId, usuarioGuardado.email, 'grower', admin.email);
+      usuarioGuardado.organizacionId = contexto.organizacionId;
+      await usuarioGuardado.save();
+    }
+
     // Devolver respuesta exitosa (sin incluir password)
     return NextResponse.json({
       success: true,
@@ -247,6 +189,7 @@ export async function POST(request: Request) {
         email: usuarioGuardado.email,
         role: usuarioGuardado.role,
         creadoPor: usuarioGuardado.creadoPor,
+        organizacionId: usuarioGuardado.organizacionId,
         fechaCreacion: usuarioGuardado.fechaCreacion,
         activo: usuarioGuardado.activo
       },
@@ -314,4 +257,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
+import { verificarTokenAcceso, ErrorTokenAcceso } from '@/lib/auth/tokens';
+import { sesionActiva } from '@/lib/auth/sesiones';
 
 /**
  * 🔍 ENDPOINT DE VERIFICACIÓN DE TOKEN
  *
- * Verifica si un token JWT es válido sin necesidad de decodificarlo en el cliente.
- * Esto permite validar tokens existentes de manera segura usando el secreto del servidor.
+ * Verifica si un token de acceso es válido sin necesidad de decodificarlo en el cliente.
+ * Además de la firma y la expiración comprueba que su sesión no haya sido revocada.
+ * Si responde `expired: true` el cliente puede renovar en /api/auth/refresh.
  *
  * Ruta: POST /api/verify-token
  *
@@ -26,16 +28,11 @@ import jwt from 'jsonwebtoken';
  * Respuesta inválida:
  * {
  *   "valid": false,
- *   "error": "Token inválido o expirado"
+ *   "error": "Token inválido o expirado",
+ *   "expired": true | false
  * }
  */
 
-/**
- * 🔑 CONFIGURACIÓN JWT
- * JWT secret para verificar tokens - debe coincidir con las APIs del servidor
- */
-const JWT_SECRET = process.env.JWT_SECRET || 'bruce-app-development-secret-key-2024';
-
 export async function POST(request: NextRequest) {
   try {
     // 📥 OBTENER TOKEN DEL REQUEST
@@ -49,12 +46,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 🔐 VERIFICACIÓN DEL TOKEN JWT
-    const decoded = jwt.verify(token, JWT_SECRET) as {
-      email: string;
-      role: 'admin' | 'user';
-      exp: number;
-    };
+    // 🔐 VERIFICACIÓN DEL TOKEN DE ACCESO
+    const decoded = await verificarTokenAcceso(token);
+
+    // 🚫 Sesión revocada (logout o token de refresco reutilizado)
+    if (!(await sesionActiva(decoded.sid))) {
+      return NextResponse.json(
+        { valid: false, error: 'Sesión revocada', expired: false },
+        { status: 401 }
+      );
+    }
 
     // ✅ TOKEN VÁLIDO
     return NextResponse.json({
@@ -62,25 +63,23 @@ export async function POST(request: NextRequest) {
       user: {
         email: decoded.email,
         role: decoded.role
-      }
+      },
+      exp: decoded.exp
     });
 
   } catch (error) {
     // 🚨 TOKEN INVÁLIDO O EXPIRADO
-    let errorMessage = 'Token inválido o expirado';
-    
-    if (error instanceof jwt.JsonWebTokenError) {
-      errorMessage = 'Token malformado';
-    } else if (error instanceof jwt.TokenExpiredError) {
-      errorMessage = 'Token expirado';
-    } else if (error instanceof jwt.NotBeforeError) {
-      errorMessage = 'Token no válido aún';
+    if (error instanceof ErrorTokenAcceso) {
+      return NextResponse.json(
+        { valid: false, error: error.message, expired: error.expirado },
+        { status: 401 }
+      );
     }
-    
-    console.error('🚨 Error verificando token:', errorMessage, error);
+
+    console.error('🚨 Error verificando token:', error);
     return NextResponse.json(
-      { valid: false, error: errorMessage },
-      { status: 401 }
+      { valid: false, error: 'No se pudo verificar el token' },
+      { status: 500 }
     );
   }
 }
@@ -0,0 +1,367 @@
+/**
+ * Componente para alertas de umbral de un cultivo
+ * Muestra las alertas vigentes (abiertas y reconocidas), permite atenderlas
+ * y configurar las reglas que comparan lecturas con los objetivos de la fase
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Alerta, ReglaAlerta, VariableAlerta, CondicionAlerta, TipoMargenAlerta } from '@/types/alerta';
+import type { PrioridadComentario } from '@/types/chat';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import {
+  listAlertas,
+  updateEstadoAlerta,
+  listReglasAlerta,
+  createReglaAlerta,
+  setReglaAlertaActiva,
+  removeReglaAlerta
+} from '@/lib/services/alertas';
+import { formatearFechaCompleta } from '@/lib/utils/date';
+
+/**
+ * Props del componente AlertasCultivo
+ */
+interface Props {
+  /** ID del cultivo */
+  cultivoId: string;
+  /** Oculta la atención de alertas y la edición de reglas */
+  soloLectura?: boolean;
+  /** Clase CSS adicional */
+  className?: string;
+}
+
+/**
+ * Etiquetas de las variables vigilables
+ */
+const VARIABLES: { clave: VariableAlerta; etiqueta: string }[] = [
+  { clave: 'temperatura', etiqueta: 'Temperatura' },
+  { clave: 'humedad', etiqueta: 'Humedad' },
+  { clave: 'ec', etiqueta: 'EC' },
+  { clave: 'ph', etiqueta: 'pH' }
+];
+
+/**
+ * Colores por prioridad (mismos tonos que ComentariosCultivo)
+ */
+const COLORES_PRIORIDAD: Record<PrioridadComentario, string> = {
+  baja: 'bg-gray-50 border-gray-200 text-gray-900',
+  media: 'bg-yellow-50 border-yellow-200 text-yellow-900',
+  alta: 'bg-orange-50 border-orange-200 text-orange-900',
+  critica: 'bg-red-50 border-red-200 text-red-900'
+};
+
+/**
+ * Estado inicial del formulario de regla
+ */
+const REGLA_INICIAL = {
+  nombre: '',
+  variable: 'humedad' as VariableAlerta,
+  condicion: 'mayor' as CondicionAlerta,
+  margen: '5',
+  tipoMargen: 'absoluto' as TipoMargenAlerta,
+  duracionMinutos: '120',
+  prioridad: 'alta' as PrioridadComentario,
+  crearComentario: true
+};
+
+/**
+ * Componente principal AlertasCultivo
+ */
+export default function AlertasCultivo({ cultivoId, soloLectura = false, className = '' }: Props) {
+  const { token } = useAuth();
+
+  // Estados de datos
+  const [alertas, setAlertas] = useState<Alerta[]>([]);
+  const [reglas, setReglas] = useState<ReglaAlerta[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Estados del formulario de reglas
+  const [mostrarReglas, setMostrarReglas] = useState(false);
+  const [nuevaRegla, setNuevaRegla] = useState(REGLA_INICIAL);
+  const [guardando, setGuardando] = useState(false);
+
+  /**
+   * Carga las alertas vigentes y las reglas configuradas
+   */
+  const cargarDatos = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [vigentes, reglasCultivo] = await Promise.all([
+        listAlertas(cultivoId, ['abierta', 'reconocida'], signal, token || undefined),
+        listReglasAlerta(cultivoId, signal, token || undefined)
+      ]);
+      if (!signal?.aborted) {
+        setAlertas(vigentes);
+        setReglas(reglasCultivo);
+      }
+    } catch (e) {
+      const err = e as Error;
+      if (err?.name !== 'AbortError' && !signal?.aborted) {
+        setError(err?.message ?? 'Error al cargar alertas');
+      }
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  }, [cultivoId, token]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    cargarDatos(controller.signal);
+    return () => controller.abort();
+  }, [cargarDatos]);
+
+  /**
+   * Ejecuta una acción y recarga los datos
+   */
+  const ejecutar = async (accion: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await accion();
+      await cargarDatos();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al actualizar las alertas');
+    }
+  };
+
+  /**
+   * Crea una nueva regla de alerta
+   */
+  const handleCrearRegla = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!nuevaRegla.nombre.trim()) {
+      setError('El nombre de la regla es obligatorio');
+      return;
+    }
+
+    setGuardando(true);
+    await ejecutar(async () => {
+      await createReglaAlerta(cultivoId, {
+        nombre: nuevaRegla.nombre.trim(),
+        variable: nuevaRegla.variable,
+        condicion: nuevaRegla.condicion,
+        margen: parseFloat(nuevaRegla.margen) || 0,
+        tipoMargen: nuevaRegla.tipoMargen,
+        duracionMinutos: parseInt(nuevaRegla.duracionMinutos) || 0,
+        prioridad: nuevaRegla.prioridad,
+        crearComentario: nuevaRegla.crearComentario
+      }, token || undefined);
+      setNuevaRegla(REGLA_INICIAL);
+    });
+    setGuardando(false);
+  };
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6 ${className}`} data-testid="cultivo-alertas">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <svg className="h-5 w-5 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+          Alertas
+          {alertas.length > 0 && (
+            <span className="px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-800" data-testid="cultivo-alertas-contador">
+              {alertas.length}
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={() => setMostrarReglas(!mostrarReglas)}
+          className="px-3 py-2 bg-orange-600 hover:bg-orange-700 text-white text-sm font-medium rounded-lg transition-colors duration-200"
+          data-testid="cultivo-alertas-reglas-toggle"
+        >
+          {mostrarReglas ? 'Ocultar reglas' : `Reglas (${reglas.length})`}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700" data-testid="cultivo-alertas-error">
+          {error}
+        </div>
+      )}
+
+      {/* Configuración de reglas */}
+      {mostrarReglas && (
+        <div className="mb-6 p-4 bg-orange-50 rounded-lg border border-orange-200" data-testid="cultivo-alertas-reglas">
+          {soloLectura && reglas.length === 0 && (
+            <p className="text-sm text-orange-900" data-testid="cultivo-alertas-reglas-vacio">No hay reglas configuradas</p>
+          )}
+          {reglas.length > 0 && (
+            <ul className="mb-4 divide-y divide-orange-100">
+              {reglas.map(regla => (
+                <li key={regla.id} className="py-2 flex flex-wrap items-center justify-between gap-2 text-sm" data-testid={`cultivo-alertas-regla-${regla.id}`}>
+                  <span className={regla.activa ? 'text-gray-900' : 'text-gray-400 line-through'}>
+                    <strong>{regla.nombre}</strong>: {regla.variable} {regla.condicion === 'mayor' ? '>' : '<'} objetivo {regla.condicion === 'mayor' ? '+' : '-'} {regla.margen}{regla.tipoMargen === 'porcentaje' ? '%' : ''}
+                    {regla.duracionMinutos > 0 && ` durante ${regla.duracionMinutos} min`}
+                  </span>
+                  {!soloLectura && (
+                    <span className="flex gap-2">
+                      <button
+                        onClick={() => ejecutar(() => setReglaAlertaActiva(cultivoId, regla.id, !regla.activa, token || undefined))}
+                        className="text-gray-700 hover:text-gray-900"
+                      >
+                        {regla.activa ? 'Pausar' : 'Activar'}
+                      </button>
+                      <button
+                        onClick={() => confirm(`¿Eliminar la regla "${regla.nombre}"?`) && ejecutar(() => removeReglaAlerta(cultivoId, regla.id, token || undefined))}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Eliminar
+                      </button>
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!soloLectura && (
+            <form onSubmit={handleCrearRegla} className="grid gap-3 grid-cols-2 md:grid-cols-4" data-testid="cultivo-alertas-regla-form">
+              <label className="grid gap-1 text-sm font-medium text-orange-900 col-span-2">
+                Nombre
+                <input
+                  type="text"
+                  value={nuevaRegla.nombre}
+                  onChange={(e) => setNuevaRegla(r => ({ ...r, nombre: e.target.value }))}
+                  placeholder="Ej: Humedad alta en floración"
+                  maxLength={100}
+                  className="rounded-lg border border-orange-200 bg-white px-3 py-2 text-gray-900"
+                />
+              </label>
+              <label className="grid gap-1 text-sm font-medium text-orange-900">
+                Variable
+                <select
+                  value={nuevaRegla.variable}
+                  onChange={(e) => setNuevaRegla(r => ({ ...r, variable: e.target.value as VariableAlerta }))}
+                  className="rounded-lg border border-orange-200 bg-white px-3 py-2 text-gray-900"
+                >
+                  {VARIABLES.map(v => <option key={v.clave} value={v.clave}>{v.etiqueta}</option>)}
+                </select>
+              </label>
+              <label className="grid gap-1 text-sm font-medium text-orange-900">
+                Condición
+                <select
+                  value={nuevaRegla.condicion}
+                  onChange={(e) => setNuevaRegla(r => ({ ...r, condicion: e.target.value as CondicionAlerta }))}
+                  className="rounded-lg border border-orange-200 bg-white px-3 py-2 text-gray-900"
+                >
+                  <option value="mayor">Por encima del objetivo</option>
+                  <option value="menor">Por debajo del objetivo</option>
+                </select>
+              </label>
+              <label className="grid gap-1 text-sm font-medium text-orange-900">
+                Margen
+                <div className="flex gap-1">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={nuevaRegla.margen}
+                    onChange={(e) => setNuevaRegla(r => ({ ...r, margen: e.target.value }))}
+                    className="w-full rounded-lg border border-orange-200 bg-white px-3 py-2 text-gray-900"
+                  />
+                  <select
+                    value={nuevaRegla.tipoMargen}
+                    onChange={(e) => setNuevaRegla(r => ({ ...r, tipoMargen: e.target.value as TipoMargenAlerta }))}
+                    className="rounded-lg border border-orange-200 bg-white px-2 py-2 text-gray-900"
+                  >
+                    <option value="absoluto">abs</option>
+                    <option value="porcentaje">%</option>
+                  </select>
+                </div>
+              </label>
+              <label className="grid gap-1 text-sm font-medium text-orange-900">
+                Durante (min)
+                <input
+                  type="number"
+                  min="0"
+                  step="5"
+                  value={nuevaRegla.duracionMinutos}
+                  onChange={(e) => setNuevaRegla(r => ({ ...r, duracionMinutos: e.target.value }))}
+                  className="rounded-lg border border-orange-200 bg-white px-3 py-2 text-gray-900"
+                />
+              </label>
+              <label className="grid gap-1 text-sm font-medium text-orange-900">
+                Prioridad
+                <select
+                  value={nuevaRegla.prioridad}
+                  onChange={(e) => setNuevaRegla(r => ({ ...r, prioridad: e.target.value as PrioridadComentario }))}
+                  className="rounded-lg border border-orange-200 bg-white px-3 py-2 text-gray-900"
+                >
+                  <option value="baja">Baja</option>
+                  <option value="media">Media</option>
+                  <option value="alta">Alta</option>
+                  <option value="critica">Crítica</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm font-medium text-orange-900">
+                <input
+                  type="checkbox"
+                  checked={nuevaRegla.crearComentario}
+                  onChange={(e) => setNuevaRegla(r => ({ ...r, crearComentario: e.target.checked }))}
+                />
+                Crear comentario
+              </label>
+              <button
+                type="submit"
+                disabled={guardando}
+                className="col-span-2 md:col-span-4 px-4 py-2 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors duration-200"
+                data-testid="cultivo-alertas-regla-guardar"
+              >
+                {guardando ? 'Guardando...' : 'Agregar regla'}
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+
+      {/* Alertas vigentes */}
+      {loading ? (
+        <p className="text-sm text-gray-500" data-testid="cultivo-alertas-loading">Cargando alertas...</p>
+      ) : alertas.length === 0 ? (
+        <p className="text-sm text-gray-600 text-center" data-testid="cultivo-alertas-empty">
+          Sin alertas activas: las lecturas están dentro de los objetivos
+        </p>
+      ) : (
+        <ul className="space-y-3" data-testid="cultivo-alertas-lista">
+          {alertas.map(alerta => (
+            <li key={alerta.id} className={`p-3 rounded-lg border ${COLORES_PRIORIDAD[alerta.prioridad]}`} data-testid={`cultivo-alerta-${alerta.id}`}>
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium">{alerta.mensaje}</p>
+                  <p className="text-xs opacity-70">
+                    Desde {formatearFechaCompleta(alerta.fechaApertura)} · última detección {formatearFechaCompleta(alerta.ultimaDeteccion)}
+                    {alerta.estado === 'reconocida' && ' · reconocida'}
+                  </p>
+                </div>
+                {!soloLectura && (
+                  <div className="flex gap-2 text-sm">
+                    {alerta.estado === 'abierta' && (
+                      <button
+                        onClick={() => ejecutar(() => updateEstadoAlerta(cultivoId, alerta.id, 'reconocida', token || undefined))}
+                        className="px-2 py-1 rounded bg-white/70 hover:bg-white"
+                        data-testid={`cultivo-alerta-reconocer-${alerta.id}`}
+                      >
+                        Reconocer
+                      </button>
+                    )}
+                    <button
+                      onClick={() => ejecutar(() => updateEstadoAlerta(cultivoId, alerta.id, 'resuelta', token || undefined))}
+                      className="px-2 py-1 rounded bg-white/70 hover:bg-white"
+                      data-testid={`cultivo-alerta-resolver-${alerta.id}`}
+                    >
+                      Resolver
+                    </button>
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
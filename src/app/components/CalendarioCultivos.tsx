@@ -6,10 +6,29 @@
 
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { usePlanificacion } from '@/lib/hooks/usePlanificacion';
 import type { TareaCultivo, TipoTarea, EstadoTarea, EventoCalendario } from '@/types/planificacion';
 
+/**
+ * Máximo de tareas que se piden para un mes (las series diarias suman muchas ocurrencias)
+ */
+const LIMITE_TAREAS_MES = 500;
+
+/**
+ * Rango de fechas (YYYY-MM-DD) de un mes del calendario
+ * @param mes - Mes de 1 a 12
+ * @param anio - Año
+ */
+function rangoDelMes(mes: number, anio: number): { fechaDesde: string; fechaHasta: string } {
+  const mesTexto = String(mes).padStart(2, '0');
+  const ultimoDia = new Date(anio, mes, 0).getDate();
+  return {
+    fechaDesde: `${anio}-${mesTexto}-01`,
+    fechaHasta: `${anio}-${mesTexto}-${String(ultimoDia).padStart(2, '0')}`
+  };
+}
+
 /**
  * Props del componente CalendarioCultivos
  */
@@ -103,13 +122,23 @@ export default function CalendarioCultivos({
   const [mesActual, setMesActual] = useState(new Date().getMonth() + 1);
   const [anioActual, setAnioActual] = useState(new Date().getFullYear());
 
-  // Hook para obtener tareas
-  const { tareas, loading, error } = usePlanificacion({
+  // Hook para obtener tareas del mes visible (incluye ocurrencias de tareas recurrentes)
+  const { tareas, loading, error, params, setFiltroFechas } = usePlanificacion({
     cultivoId,
+    ...rangoDelMes(mesActual, anioActual),
+    _limit: LIMITE_TAREAS_MES,
     _sort: 'fechaProgramada',
     _order: 'asc'
   });
 
+  // Al cambiar de mes, pedir al servidor el nuevo rango para expandir las series
+  useEffect(() => {
+    const { fechaDesde, fechaHasta } = rangoDelMes(mesActual, anioActual);
+    if (params.fechaDesde !== fechaDesde || params.fechaHasta !== fechaHasta) {
+      setFiltroFechas(fechaDesde, fechaHasta);
+    }
+  }, [mesActual, anioActual, params.fechaDesde, params.fechaHasta, setFiltroFechas]);
+
   /**
    * Filtra tareas según los criterios especificados
    */
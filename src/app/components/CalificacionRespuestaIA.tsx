@@ -0,0 +1,149 @@
+/**
+ * Componente para calificar una respuesta de la IA
+ * Pulgares para una valoración rápida (👍 = 5, 👎 = 1) y estrellas de 1 a 5.
+ * Con calificaciones bajas pide un comentario opcional que llega al reporte de administración.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import type { MensajeChat } from '@/types/chat';
+import { calificarMensajeChat } from '@/lib/services/chat';
+import { useAuth } from '@/lib/auth/AuthProvider';
+
+/**
+ * Props del componente CalificacionRespuestaIA
+ */
+interface CalificacionRespuestaIAProps {
+  /** Respuesta de la IA ya guardada en el historial */
+  mensaje: MensajeChat;
+  /** Callback con el mensaje actualizado tras guardar la calificación */
+  onCalificado: (mensaje: MensajeChat) => void;
+}
+
+// Calificación a partir de la cual se pide un comentario
+const CALIFICACION_CON_FEEDBACK = 2;
+
+const CalificacionRespuestaIA: React.FC<CalificacionRespuestaIAProps> = ({ mensaje, onCalificado }) => {
+  const { token } = useAuth();
+  const [guardando, setGuardando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState(mensaje.feedback || '');
+  const [mostrarFeedback, setMostrarFeedback] = useState(false);
+
+  const calificacion = mensaje.calificacion;
+
+  /**
+   * Guarda la calificación (y el comentario, si se envía)
+   */
+  const guardar = async (valor: number, comentario?: string) => {
+    if (guardando) return;
+    setGuardando(true);
+    setError(null);
+
+    try {
+      const actualizado = await calificarMensajeChat(mensaje.id, valor, comentario, token ?? undefined);
+      onCalificado(actualizado);
+      setMostrarFeedback(valor <= CALIFICACION_CON_FEEDBACK && !comentario && !actualizado.feedback);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo guardar la calificación');
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  /**
+   * Envía el comentario sobre una respuesta mal calificada
+   */
+  const handleEnviarFeedback = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!calificacion || !feedback.trim()) return;
+    await guardar(calificacion, feedback.trim());
+  };
+
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-100" data-testid={`chat-rating-${mensaje.id}`}>
+      <div className="flex items-center gap-3 text-gray-400">
+        {/* Pulgares */}
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => guardar(5)}
+            disabled={guardando}
+            data-testid="chat-rating-thumbs-up"
+            className={`p-1 rounded-lg transition-colors hover:bg-green-50 hover:text-green-600 disabled:opacity-50 ${calificacion === 5 ? 'text-green-600' : ''}`}
+            title="Respuesta útil"
+            aria-pressed={calificacion === 5}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => guardar(1)}
+            disabled={guardando}
+            data-testid="chat-rating-thumbs-down"
+            className={`p-1 rounded-lg transition-colors hover:bg-red-50 hover:text-red-500 disabled:opacity-50 ${calificacion === 1 ? 'text-red-500' : ''}`}
+            title="Respuesta poco útil"
+            aria-pressed={calificacion === 1}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Estrellas */}
+        <div className="flex items-center" role="radiogroup" aria-label="Calificación de la respuesta">
+          {[1, 2, 3, 4, 5].map((valor) => (
+            <button
+              key={valor}
+              type="button"
+              onClick={() => guardar(valor)}
+              disabled={guardando}
+              data-testid={`chat-rating-star-${valor}`}
+              className={`px-0.5 text-base leading-none transition-colors hover:text-yellow-400 disabled:opacity-50 ${calificacion && valor <= calificacion ? 'text-yellow-400' : 'text-gray-300'}`}
+              title={`${valor} estrella${valor > 1 ? 's' : ''}`}
+              role="radio"
+              aria-checked={calificacion === valor}
+            >
+              ★
+            </button>
+          ))}
+        </div>
+
+        {calificacion && !mostrarFeedback && (
+          <span className="text-[11px] font-medium text-gray-400">¡Gracias por tu opinión!</span>
+        )}
+      </div>
+
+      {/* Comentario para calificaciones bajas */}
+      {mostrarFeedback && (
+        <form onSubmit={handleEnviarFeedback} className="mt-2 flex items-center gap-2">
+          <input
+            type="text"
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            maxLength={1000}
+            placeholder="¿Qué faltó o estuvo mal?"
+            data-testid="chat-rating-feedback-input"
+            className="flex-1 rounded-lg border border-gray-200 bg-white/70 px-2 py-1 text-xs text-gray-700 focus:ring-2 focus:ring-green-400/50"
+          />
+          <button
+            type="submit"
+            disabled={guardando || !feedback.trim()}
+            data-testid="chat-rating-feedback-submit"
+            className="rounded-lg bg-green-600 px-2 py-1 text-xs font-medium text-white hover:bg-green-500 disabled:opacity-50"
+          >
+            Enviar
+          </button>
+        </form>
+      )}
+
+      {error && <p className="mt-1 text-[11px] text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default CalificacionRespuestaIA;
@@ -1,26 +1,37 @@
 /**
  * Componente de Chat con IA especializada en Cannabis Medicinal
  * Interfaz completa para conversar con la IA, subir imágenes y recibir consejos
- * expertos basados en el contexto específico del cultivo
+ * expertos basados en el contexto específico del cultivo.
+ * Las respuestas llegan en streaming y se muestran a medida que se generan;
+ * el usuario puede detenerlas en cualquier momento.
+ * La conversación se guarda en el servidor y se recupera al volver al cultivo.
  */
 
 'use client';
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import Image from 'next/image';
 import type {
   MensajeChat,
   ContextoCultivo,
-  ImagenMensaje
+  ImagenMensaje,
+  DatosContextoCultivo
 } from '@/types/chat';
 import type { Cultivo } from '@/types/cultivo';
 import {
   gestionarConversacionIA,
   procesarImagenes,
   limpiarImagenes,
-  prepararContextoCultivo
+  prepararContextoCultivo,
+  cargarDatosContextoCultivo,
+  obtenerHistorialChat,
+  borrarHistorialChat
 } from '@/lib/services/chat';
 import { useAuth } from '@/lib/auth/AuthProvider';
+import CalificacionRespuestaIA from './CalificacionRespuestaIA';
+
+// Los mensajes guardados en el historial tienen ID de MongoDB; los temporales no se pueden calificar
+const ID_GUARDADO = /^[a-f0-9]{24}$/i;
 
 /**
  * Props del componente ChatIA
@@ -28,6 +39,8 @@ import { useAuth } from '@/lib/auth/AuthProvider';
 interface ChatIAProps {
   /** Datos completos del cultivo para contexto */
   cultivo: Cultivo;
+  /** Muestra la conversación sin permitir enviar mensajes (invitados con rol viewer) */
+  soloLectura?: boolean;
   /** Clase CSS adicional para el contenedor */
   className?: string;
 }
@@ -36,24 +49,50 @@ interface ChatIAProps {
  * Componente principal del chat con IA
  * Maneja toda la lógica de conversación, subida de imágenes y renderizado
  */
-const ChatIA: React.FC<ChatIAProps> = ({ cultivo, className = '' }) => {
+const ChatIA: React.FC<ChatIAProps> = ({ cultivo, soloLectura = false, className = '' }) => {
   // Estados principales
   const [mensajes, setMensajes] = useState<MensajeChat[]>([]);
   const [mensaje, setMensaje] = useState('');
   const [imagenes, setImagenes] = useState<ImagenMensaje[]>([]);
   const [enviando, setEnviando] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [cargandoHistorial, setCargandoHistorial] = useState(true);
 
   // Hook de autenticación
-  const { user } = useAuth();
+  const { user, token } = useAuth();
 
   // Referencias para el DOM
   const inputFileRef = useRef<HTMLInputElement>(null);
   const mensajesContainerRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Controlador para cancelar la respuesta en curso
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Cancelar la respuesta en curso al desmontar el componente
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Tareas, lecturas y comentarios que enriquecen el contexto (se cargan al abrir el chat)
+  const [datosContexto, setDatosContexto] = useState<DatosContextoCultivo>({});
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    cargarDatosContextoCultivo(cultivo.id, controller.signal, token ?? undefined)
+      .then((datos) => {
+        if (!controller.signal.aborted) setDatosContexto(datos);
+      });
+
+    return () => controller.abort();
+  }, [cultivo.id, token]);
+
   // Contexto del cultivo preparado para la IA
-  const contexto: ContextoCultivo = prepararContextoCultivo(cultivo);
+  const contexto: ContextoCultivo = useMemo(
+    () => prepararContextoCultivo(cultivo, datosContexto),
+    [cultivo, datosContexto]
+  );
 
   /**
    * Auto-scroll al último mensaje cuando se agregan nuevos mensajes
@@ -70,6 +109,29 @@ const ChatIA: React.FC<ChatIAProps> = ({ cultivo, className = '' }) => {
     scrollToBottom();
   }, [mensajes, scrollToBottom]);
 
+  /**
+   * Carga el historial guardado del cultivo
+   */
+  useEffect(() => {
+    const controller = new AbortController();
+    setCargandoHistorial(true);
+
+    obtenerHistorialChat(cultivo.id, controller.signal, token ?? undefined)
+      .then(({ mensajes: historial }) => {
+        // Conservar los mensajes enviados mientras se cargaba el historial
+        setMensajes(prev => [...historial, ...prev.filter(m => !historial.some(h => h.id === m.id))]);
+      })
+      .catch((err) => {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        setError('No se pudo cargar el historial del chat');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setCargandoHistorial(false);
+      });
+
+    return () => controller.abort();
+  }, [cultivo.id, token]);
+
   /**
    * Ajusta automáticamente la altura del textarea según el contenido
    */
@@ -137,15 +199,45 @@ const ChatIA: React.FC<ChatIAProps> = ({ cultivo, className = '' }) => {
   }, []);
 
   /**
-   * Actualiza un mensaje existente (útil para remover estado de "procesando")
-   
-  const actualizarMensaje = useCallback((mensajeId: string, cambios: Partial<MensajeChat>) => {
-    setMensajes(prev => prev.map(m => 
-      m.id === mensajeId ? { ...m, ...cambios } : m
-    ));
+   * Reemplaza un mensaje existente por su versión más reciente (o lo agrega si no existe)
+   * Se usa con la respuesta en streaming y cuando el servidor asigna el ID definitivo
+   * (idAnterior); al llegar texto de la IA se quita el aviso del sistema
+   */
+  const reemplazarMensaje = useCallback((actualizado: MensajeChat, idAnterior: string = actualizado.id) => {
+    setMensajes(prev => {
+      const sinSistema = actualizado.tipo === 'assistant' && actualizado.contenido
+        ? prev.filter(m => m.tipo !== 'system')
+        : prev;
+      return sinSistema.some(m => m.id === idAnterior)
+        ? sinSistema.map(m => m.id === idAnterior ? actualizado : m)
+        : [...sinSistema, actualizado];
+    });
   }, []);
 
-  
+  /**
+   * Borra el historial guardado del cultivo (los mensajes destacados se conservan)
+   */
+  const handleBorrarHistorial = async () => {
+    if (enviando || mensajes.length === 0) return;
+    if (!window.confirm('¿Borrar el historial de este chat?')) return;
+
+    try {
+      setError(null);
+      await borrarHistorialChat(cultivo.id, token ?? undefined);
+      setMensajes(prev => prev.filter(m => m.destacado));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'No se pudo borrar el historial');
+    }
+  };
+
+  /**
+   * Detiene la respuesta en curso; se conserva el texto recibido hasta el momento
+   */
+  const handleCancelar = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  /**
    * Envía mensaje a la IA y maneja toda la conversación
    */
   const handleEnviarMensaje = async () => {
@@ -156,8 +248,11 @@ const ChatIA: React.FC<ChatIAProps> = ({ cultivo, className = '' }) => {
     setEnviando(true);
     setError(null);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
-      // Gestionar conversación completa con la IA
+      // Gestionar conversación completa con la IA (respuesta en streaming)
       const mensajeIA = await gestionarConversacionIA(
         cultivo.id,
         mensaje,
@@ -165,11 +260,19 @@ const ChatIA: React.FC<ChatIAProps> = ({ cultivo, className = '' }) => {
         imagenes.length > 0 ? imagenes : undefined,
         mensajes,
         agregarMensaje,
-        user?.email
+        user?.email,
+        {
+          streaming: true,
+          onMensajeActualizado: reemplazarMensaje,
+          signal: controller.signal,
+          persistir: true,
+          token: token ?? undefined
+        }
       );
 
-      // Agregar respuesta de la IA
-      agregarMensaje(mensajeIA);
+      // Versión final de la respuesta de la IA
+      reemplazarMensaje(mensajeIA);
+      setMensajes(prev => prev.filter(m => m.tipo !== 'system'));
 
       // Limpiar inputs
       setMensaje('');
@@ -184,6 +287,7 @@ const ChatIA: React.FC<ChatIAProps> = ({ cultivo, className = '' }) => {
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Error al enviar mensaje');
     } finally {
+      abortControllerRef.current = null;
       setEnviando(false);
     }
   };
@@ -236,10 +340,15 @@ const ChatIA: React.FC<ChatIAProps> = ({ cultivo, className = '' }) => {
             </div>
           )}
 
-          {/* Contenido del mensaje */}
-          <div className="whitespace-pre-wrap text-[15px] leading-relaxed font-normal">
-            {msg.contenido}
-          </div>
+          {/* Contenido del mensaje (parcial mientras llega en streaming) */}
+          {msg.contenido && (
+            <div className="whitespace-pre-wrap text-[15px] leading-relaxed font-normal" data-testid={msg.procesando ? 'chat-streaming-message' : undefined}>
+              {msg.contenido}
+              {msg.procesando && !isSystem && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-current opacity-60 animate-pulse"></span>
+              )}
+            </div>
+          )}
 
           {/* Timestamp */}
           <div className={`text-xs mt-2 opacity-70 font-medium ${isUser ? 'text-green-100' : 'text-gray-400'
@@ -250,8 +359,8 @@ const ChatIA: React.FC<ChatIAProps> = ({ cultivo, className = '' }) => {
             })}
           </div>
 
-          {/* Indicador de procesando */}
-          {msg.procesando && (
+          {/* Indicador de procesando (hasta que llega el primer fragmento) */}
+          {msg.procesando && (isSystem || !msg.contenido) && (
             <div className="flex items-center gap-2 mt-2">
               <div className="flex space-x-1">
                 <div className="w-1.5 h-1.5 bg-current rounded-full animate-bounce"></div>
@@ -271,6 +380,18 @@ const ChatIA: React.FC<ChatIAProps> = ({ cultivo, className = '' }) => {
               Error al enviar
             </div>
           )}
+
+          {/* Calificación de la respuesta de la IA */}
+          {msg.tipo === 'assistant' && !msg.procesando && !msg.error && ID_GUARDADO.test(msg.id) && (
+            <CalificacionRespuestaIA mensaje={msg} onCalificado={reemplazarMensaje} />
+          )}
+
+          {/* Indicador de respuesta detenida por el usuario */}
+          {msg.cancelado && (
+            <div className="text-xs text-gray-500 mt-2 font-medium" data-testid="chat-message-cancelled">
+              Respuesta detenida
+            </div>
+          )}
         </div>
       </div>
     );
@@ -293,6 +414,19 @@ const ChatIA: React.FC<ChatIAProps> = ({ cultivo, className = '' }) => {
               En línea • {cultivo.nombre}
             </p>
           </div>
+          {mensajes.length > 0 && !soloLectura && (
+            <button
+              onClick={handleBorrarHistorial}
+              disabled={enviando}
+              data-testid="chat-clear-history-button"
+              className="ml-auto p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-xl transition-colors disabled:opacity-50"
+              title="Borrar historial"
+            >
+              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
+          )}
         </div>
       </div>
 
@@ -302,7 +436,12 @@ const ChatIA: React.FC<ChatIAProps> = ({ cultivo, className = '' }) => {
         className="h-[60vh] sm:h-[500px] overflow-y-auto p-6 space-y-2 bg-gradient-to-b from-transparent to-white/20 scroll-smooth"
         data-testid="chat-messages-container"
       >
-        {mensajes.length === 0 ? (
+        {cargandoHistorial && mensajes.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-sm text-gray-400" data-testid="chat-history-loading">
+            <div className="w-5 h-5 border-2 border-green-400 border-t-transparent rounded-full animate-spin mr-2"></div>
+            Cargando conversación...
+          </div>
+        ) : mensajes.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-center p-8 opacity-60" data-testid="chat-empty-state">
             <div className="bg-green-50 p-6 rounded-full mb-4">
               <svg className="h-10 w-10 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -358,70 +497,85 @@ const ChatIA: React.FC<ChatIAProps> = ({ cultivo, className = '' }) => {
       )}
 
       {/* Input de mensaje */}
-      <div className="p-5 border-t border-white/30 bg-white/60 backdrop-blur-md" data-testid="chat-input-section">
-        <div className="flex items-end gap-3">
-          {/* Botón para agregar imágenes */}
-          <button
-            onClick={() => inputFileRef.current?.click()}
-            disabled={enviando}
-            data-testid="chat-add-image-button"
-            className="flex-shrink-0 p-3 text-gray-500 hover:text-green-600 hover:bg-green-100/50 rounded-2xl transition-all duration-200 disabled:opacity-50 hover:scale-105 active:scale-95"
-            title="Agregar imágenes"
-          >
-            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-            </svg>
-          </button>
-
-          {/* Textarea del mensaje */}
-          <div className="flex-grow shadow-inner rounded-2xl bg-white/50">
-            <textarea
-              ref={textareaRef}
-              value={mensaje}
-              onChange={handleMensajeChange}
-              onKeyDown={handleKeyDown}
-              placeholder="Escribe tu mensaje..."
+      {soloLectura ? (
+        <div className="p-5 border-t border-white/30 bg-white/60 backdrop-blur-md text-sm text-gray-600 text-center" data-testid="chat-solo-lectura">
+          Tu acceso a este cultivo es de solo lectura: no puedes usar el chat con IA.
+        </div>
+      ) : (
+        <div className="p-5 border-t border-white/30 bg-white/60 backdrop-blur-md" data-testid="chat-input-section">
+          <div className="flex items-end gap-3">
+            {/* Botón para agregar imágenes */}
+            <button
+              onClick={() => inputFileRef.current?.click()}
               disabled={enviando}
-              data-testid="chat-message-input"
-              className="w-full resize-none rounded-2xl border-0 bg-transparent px-4 py-3 text-sm focus:ring-2 focus:ring-green-400/50 placeholder-gray-400 disabled:opacity-50 min-h-[48px] max-h-32 text-gray-800"
-              rows={1}
-            />
-          </div>
+              data-testid="chat-add-image-button"
+              className="flex-shrink-0 p-3 text-gray-500 hover:text-green-600 hover:bg-green-100/50 rounded-2xl transition-all duration-200 disabled:opacity-50 hover:scale-105 active:scale-95"
+              title="Agregar imágenes"
+            >
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+            </button>
+
+            {/* Textarea del mensaje */}
+            <div className="flex-grow shadow-inner rounded-2xl bg-white/50">
+              <textarea
+                ref={textareaRef}
+                value={mensaje}
+                onChange={handleMensajeChange}
+                onKeyDown={handleKeyDown}
+                placeholder="Escribe tu mensaje..."
+                disabled={enviando}
+                data-testid="chat-message-input"
+                className="w-full resize-none rounded-2xl border-0 bg-transparent px-4 py-3 text-sm focus:ring-2 focus:ring-green-400/50 placeholder-gray-400 disabled:opacity-50 min-h-[48px] max-h-32 text-gray-800"
+                rows={1}
+              />
+            </div>
 
-          {/* Botón de enviar */}
-          <button
-            onClick={handleEnviarMensaje}
-            disabled={enviando || (!mensaje.trim() && imagenes.length === 0)}
-            data-testid="chat-send-button"
-            className="flex-shrink-0 p-3 bg-gradient-to-br from-green-600 to-emerald-600 text-white rounded-2xl hover:shadow-lg hover:from-green-500 hover:to-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 hover:scale-105 active:scale-95 shadow-green-600/20 shadow-md"
-            title="Enviar mensaje"
-          >
+            {/* Botón de enviar (o detener mientras llega la respuesta) */}
             {enviando ? (
-              <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+              <button
+                onClick={handleCancelar}
+                data-testid="chat-cancel-button"
+                className="flex-shrink-0 p-3 bg-white text-red-600 border border-red-200 rounded-2xl hover:bg-red-50 transition-all duration-200 hover:scale-105 active:scale-95 shadow-md"
+                title="Detener respuesta"
+              >
+                <svg className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24">
+                  <rect x="6" y="6" width="12" height="12" rx="2" />
+                </svg>
+              </button>
             ) : (
-              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-              </svg>
+              <button
+                onClick={handleEnviarMensaje}
+                disabled={!mensaje.trim() && imagenes.length === 0}
+                data-testid="chat-send-button"
+                className="flex-shrink-0 p-3 bg-gradient-to-br from-green-600 to-emerald-600 text-white rounded-2xl hover:shadow-lg hover:from-green-500 hover:to-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 hover:scale-105 active:scale-95 shadow-green-600/20 shadow-md"
+                title="Enviar mensaje"
+              >
+                <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                </svg>
+              </button>
             )}
-          </button>
-        </div>
+          </div>
 
-        {/* Input file oculto */}
-        <input
-          ref={inputFileRef}
-          type="file"
-          multiple
-          accept="image/*"
-          onChange={handleFileSelect}
-          className="hidden"
-        />
-
-        {/* Ayuda sobre controles */}
-        <div className="flex justify-between items-center mt-3 px-1 text-[11px] font-medium text-gray-400 uppercase tracking-wide">
-          <span>Shift + Enter: Nueva línea</span>
-          <span>Max 10MB</span>
+          {/* Input file oculto */}
+          <input
+            ref={inputFileRef}
+            type="file"
+            multiple
+            accept="image/*"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+
+          {/* Ayuda sobre controles */}
+          <div className="flex justify-between items-center mt-3 px-1 text-[11px] font-medium text-gray-400 uppercase tracking-wide">
+            <span>Shift + Enter: Nueva línea</span>
+            <span>Max 10MB</span>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -17,9 +17,13 @@ import {
   actualizarComentario,
   eliminarComentario,
   crearComentarioRapido,
-  obtenerEstadisticasComentarios
+  obtenerEstadisticasComentarios,
+  esComentarioPendiente
 } from '@/lib/services/comentarios';
+import { listarPlantas } from '@/lib/services/plantas';
+import { useAuth } from '@/lib/auth/AuthProvider';
 import { formatearFechaCompleta } from '@/lib/utils/date';
+import type { Planta } from '@/types/planta';
 
 /**
  * Props del componente ComentariosCultivo
@@ -31,6 +35,8 @@ interface ComentariosCultivoProps {
   nombreCultivo: string;
   /** Clase CSS adicional */
   className?: string;
+  /** false oculta los controles para comentar (viewers e invitados de solo lectura) */
+  puedeComentar?: boolean;
 }
 
 /**
@@ -39,6 +45,7 @@ interface ComentariosCultivoProps {
 interface FormularioComentarioProps {
   cultivoId: string;
   comentarioAEditar?: ComentarioCultivo; // Si existe, estamos editando
+  plantas: Planta[]; // Plantas del cultivo a las que se puede referir el comentario
   onComentarioGuardado: (comentario: ComentarioCultivo) => void;
   onCancelar: () => void;
 }
@@ -46,6 +53,7 @@ interface FormularioComentarioProps {
 const FormularioComentario: React.FC<FormularioComentarioProps> = ({
   cultivoId,
   comentarioAEditar,
+  plantas,
   onComentarioGuardado,
   onCancelar
 }) => {
@@ -55,6 +63,7 @@ const FormularioComentario: React.FC<FormularioComentarioProps> = ({
   const [tipo, setTipo] = useState<TipoComentario>(comentarioAEditar?.tipo || 'observacion');
   const [prioridad, setPrioridad] = useState<PrioridadComentario>(comentarioAEditar?.prioridad || 'media');
   const [autor, setAutor] = useState(comentarioAEditar?.autor || 'Usuario'); // En producción, obtener del contexto de auth
+  const [plantaId, setPlantaId] = useState(comentarioAEditar?.plantaId || '');
   const [guardando, setGuardando] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -81,7 +90,8 @@ const FormularioComentario: React.FC<FormularioComentarioProps> = ({
           contenido: contenido.trim(),
           autor,
           tipo,
-          prioridad
+          prioridad,
+          plantaId // '' quita la planta asociada
         });
       } else {
         // Crear nuevo comentario
@@ -93,7 +103,7 @@ const FormularioComentario: React.FC<FormularioComentarioProps> = ({
           tipo,
           prioridad
         );
-        comentarioGuardado = await crearComentario(nuevoComentario);
+        comentarioGuardado = await crearComentario({ ...nuevoComentario, plantaId: plantaId || undefined });
       }
 
       onComentarioGuardado(comentarioGuardado);
@@ -104,6 +114,7 @@ const FormularioComentario: React.FC<FormularioComentarioProps> = ({
         setContenido('');
         setTipo('observacion');
         setPrioridad('media');
+        setPlantaId('');
       }
     } catch (error) {
       setError(error instanceof Error ? error.message : `Error al ${esEdicion ? 'actualizar' : 'crear'} comentario`);
@@ -214,6 +225,30 @@ const FormularioComentario: React.FC<FormularioComentarioProps> = ({
         </div>
       </div>
 
+      {/* Planta individual */}
+      {plantas.length > 0 && (
+        <div>
+          <label htmlFor="plantaId" className="block text-sm font-medium text-gray-700 mb-1">
+            Planta
+          </label>
+          <select
+            id="plantaId"
+            value={plantaId}
+            onChange={(e) => setPlantaId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-200 focus:border-green-500"
+            disabled={guardando}
+            data-testid="comentario-form-planta"
+          >
+            <option value="">Todo el cultivo</option>
+            {plantas.map((planta) => (
+              <option key={planta.id} value={planta.id}>
+                {planta.etiqueta}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Autor */}
       <div>
         <label htmlFor="autor" className="block text-sm font-medium text-gray-700 mb-1">
@@ -256,12 +291,14 @@ const FormularioComentario: React.FC<FormularioComentarioProps> = ({
  */
 interface TarjetaComentarioProps {
   comentario: ComentarioCultivo;
+  planta?: Planta; // Planta a la que se refiere el comentario
   onEliminar: (id: string) => void;
   onEditar: (comentario: ComentarioCultivo) => void;
 }
 
 const TarjetaComentario: React.FC<TarjetaComentarioProps> = ({
   comentario,
+  planta,
   onEliminar,
   onEditar
 }) => {
@@ -293,6 +330,11 @@ const TarjetaComentario: React.FC<TarjetaComentarioProps> = ({
         <div className="flex items-center gap-2">
           <span className="text-lg">{tipoIconos[comentario.tipo]}</span>
           <h4 className="font-medium text-gray-900">{comentario.titulo}</h4>
+          {planta && (
+            <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800" data-testid="comentario-planta">
+              🌱 {planta.etiqueta}
+            </span>
+          )}
         </div>
         
         <div className="flex items-center gap-2">
@@ -301,48 +343,57 @@ const TarjetaComentario: React.FC<TarjetaComentarioProps> = ({
             {comentario.prioridad}
           </span>
           
+          {/* Creado sin conexión: no se puede editar hasta que se sincronice */}
+          {esComentarioPendiente(comentario) && (
+            <span className="px-2 py-1 text-xs font-medium rounded-full border text-gray-600 bg-gray-50 border-gray-200" data-testid="comentario-pendiente-sincronizar">
+              Pendiente de sincronizar
+            </span>
+          )}
+
           {/* Menú de acciones */}
-          <div className="relative">
-            <button
-              onClick={() => setMostrarAcciones(!mostrarAcciones)}
-              className="p-1 text-gray-400 hover:text-gray-600 rounded transition-colors"
-            >
-              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
-              </svg>
-            </button>
+          {!esComentarioPendiente(comentario) && (
+            <div className="relative">
+              <button
+                onClick={() => setMostrarAcciones(!mostrarAcciones)}
+                className="p-1 text-gray-400 hover:text-gray-600 rounded transition-colors"
+              >
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                  <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
+                </svg>
+              </button>
             
-            {mostrarAcciones && (
-              <div className="absolute right-0 top-6 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-10">
-                <button
-                  onClick={() => {
-                    onEditar(comentario);
-                    setMostrarAcciones(false);
-                  }}
-                  className="flex items-center gap-2 w-full text-left px-3 py-2 text-sm text-blue-600 hover:bg-blue-50"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                  </svg>
-                  Editar
-                </button>
-                <button
-                  onClick={() => {
-                    if (confirm('¿Estás seguro de eliminar este comentario? Esta acción no se puede deshacer.')) {
-                      onEliminar(comentario.id);
-                    }
-                    setMostrarAcciones(false);
-                  }}
-                  className="flex items-center gap-2 w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                  </svg>
-                  Eliminar
-                </button>
-              </div>
-            )}
-          </div>
+              {mostrarAcciones && (
+                <div className="absolute right-0 top-6 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-10">
+                  <button
+                    onClick={() => {
+                      onEditar(comentario);
+                      setMostrarAcciones(false);
+                    }}
+                    className="flex items-center gap-2 w-full text-left px-3 py-2 text-sm text-blue-600 hover:bg-blue-50"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    </svg>
+                    Editar
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm('¿Estás seguro de eliminar este comentario? Esta acción no se puede deshacer.')) {
+                        onEliminar(comentario.id);
+                      }
+                      setMostrarAcciones(false);
+                    }}
+                    className="flex items-center gap-2 w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                    Eliminar
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -380,13 +431,16 @@ const TarjetaComentario: React.FC<TarjetaComentarioProps> = ({
 const ComentariosCultivo: React.FC<ComentariosCultivoProps> = ({
   cultivoId,
   nombreCultivo,
-  className = ''
+  className = '',
+  puedeComentar = true
 }) => {
   const [comentarios, setComentarios] = useState<ComentarioCultivo[]>([]);
   const [mostrandoFormulario, setMostrandoFormulario] = useState(false);
   const [comentarioEditando, setComentarioEditando] = useState<ComentarioCultivo | null>(null);
   const [cargando, setCargando] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [plantas, setPlantas] = useState<Planta[]>([]);
+  const { token } = useAuth();
 
   /**
    * Carga los comentarios del cultivo
@@ -409,6 +463,17 @@ const ComentariosCultivo: React.FC<ComentariosCultivoProps> = ({
     cargarComentarios();
   }, [cargarComentarios]);
 
+  // Plantas del cultivo para referir comentarios a una planta individual
+  useEffect(() => {
+    const controller = new AbortController();
+    listarPlantas(cultivoId, controller.signal, token || undefined)
+      .then(setPlantas)
+      .catch(() => {
+        // Sin plantas registradas los comentarios quedan a nivel cultivo
+      });
+    return () => controller.abort();
+  }, [cultivoId, token]);
+
   /**
    * Maneja la creación o actualización de un comentario
    */
@@ -473,24 +538,27 @@ const ComentariosCultivo: React.FC<ComentariosCultivoProps> = ({
             </div>
           </div>
           
-          <button
-            onClick={() => setMostrandoFormulario(!mostrandoFormulario)}
-            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            Nuevo Comentario
-          </button>
+          {puedeComentar && (
+            <button
+              onClick={() => setMostrandoFormulario(!mostrandoFormulario)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Nuevo Comentario
+            </button>
+          )}
         </div>
       </div>
 
       {/* Formulario de nuevo comentario */}
-      {mostrandoFormulario && (
+      {puedeComentar && mostrandoFormulario && (
         <div className="p-6 border-b border-gray-200 bg-gray-50">
           <h4 className="text-lg font-medium text-gray-900 mb-4">Nuevo Comentario</h4>
           <FormularioComentario
             cultivoId={cultivoId}
+            plantas={plantas}
             onComentarioGuardado={handleComentarioGuardado}
             onCancelar={() => setMostrandoFormulario(false)}
           />
@@ -518,6 +586,7 @@ const ComentariosCultivo: React.FC<ComentariosCultivoProps> = ({
               <FormularioComentario
                 cultivoId={cultivoId}
                 comentarioAEditar={comentarioEditando}
+                plantas={plantas}
                 onComentarioGuardado={handleComentarioGuardado}
                 onCancelar={handleCancelarEdicion}
               />
@@ -555,15 +624,19 @@ const ComentariosCultivo: React.FC<ComentariosCultivoProps> = ({
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
             </svg>
             <p className="text-gray-500 mb-2">No hay comentarios aún</p>
-            <p className="text-sm text-gray-400 mb-4">
-              Agrega el primer comentario para comenzar a documentar tu cultivo
-            </p>
-            <button
-              onClick={() => setMostrandoFormulario(true)}
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              Agregar Comentario
-            </button>
+            {puedeComentar && (
+              <>
+                <p className="text-sm text-gray-400 mb-4">
+                  Agrega el primer comentario para comenzar a documentar tu cultivo
+                </p>
+                <button
+                  onClick={() => setMostrandoFormulario(true)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Agregar Comentario
+                </button>
+              </>
+            )}
           </div>
         ) : (
           <div className="space-y-4">
@@ -571,6 +644,7 @@ const ComentariosCultivo: React.FC<ComentariosCultivoProps> = ({
               <TarjetaComentario
                 key={comentario.id}
                 comentario={comentario}
+                planta={plantas.find(p => p.id === comentario.plantaId)}
                 onEliminar={handleEliminar}
                 onEditar={handleEditarComentario}
               />
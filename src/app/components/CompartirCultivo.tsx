@@ -0,0 +1,189 @@
+/**
+ * Componente para compartir un cultivo con personas de fuera de la organización
+ * Invita por email con rol viewer, commenter o editor y permite revocar el acceso
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { AccesoCultivo, RolAccesoCultivo } from '@/types/accesoCultivo';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import { listarAccesos, invitarAcceso, revocarAcceso } from '@/lib/services/accesosCultivo';
+
+/**
+ * Props del componente CompartirCultivo
+ */
+interface Props {
+  /** ID del cultivo a compartir */
+  cultivoId: string;
+  /** Clase CSS adicional */
+  className?: string;
+}
+
+// Etiquetas de cada rol de invitado
+const ETIQUETAS_ROL: Record<RolAccesoCultivo, string> = {
+  viewer: 'Solo ver',
+  commenter: 'Ver y comentar',
+  editor: 'Ver, comentar y editar'
+};
+
+/**
+ * Componente principal CompartirCultivo
+ */
+export default function CompartirCultivo({ cultivoId, className = '' }: Props) {
+  const { token } = useAuth();
+
+  // Estados de la lista de acceso
+  const [accesos, setAccesos] = useState<AccesoCultivo[]>([]);
+  const [procesando, setProcesando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mensaje, setMensaje] = useState<string | null>(null);
+
+  // Estados del formulario de invitación
+  const [email, setEmail] = useState('');
+  const [rol, setRol] = useState<RolAccesoCultivo>('viewer');
+
+  /**
+   * Carga las personas invitadas al cultivo
+   */
+  const cargarAccesos = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setError(null);
+      const data = await listarAccesos(cultivoId, signal, token || undefined);
+      if (!signal?.aborted) setAccesos(data);
+    } catch (e) {
+      const err = e as Error;
+      if (err?.name !== 'AbortError' && !signal?.aborted) {
+        setError(err?.message ?? 'Error al cargar la lista de acceso');
+      }
+    }
+  }, [cultivoId, token]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    cargarAccesos(controller.signal);
+    return () => controller.abort();
+  }, [cargarAccesos]);
+
+  /**
+   * Envía la invitación (o cambia el rol si la persona ya tiene acceso)
+   */
+  const handleInvitar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setProcesando(true);
+    setError(null);
+    setMensaje(null);
+    try {
+      const acceso = await invitarAcceso(cultivoId, email.trim(), rol, token || undefined);
+      setAccesos(prev => [...prev.filter(a => a.email !== acceso.email), acceso]);
+      setMensaje(acceso.estado === 'pendiente' ? `Invitación enviada a ${acceso.email}` : `Rol de ${acceso.email} actualizado`);
+      setEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al enviar la invitación');
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  /**
+   * Revoca el acceso de una persona
+   */
+  const handleRevocar = async (acceso: AccesoCultivo) => {
+    if (!confirm(`${acceso.email} dejará de ver este cultivo. ¿Revocar el acceso?`)) return;
+    setProcesando(true);
+    setError(null);
+    setMensaje(null);
+    try {
+      await revocarAcceso(cultivoId, acceso.email, token || undefined);
+      setAccesos(prev => prev.filter(a => a.email !== acceso.email));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al revocar el acceso');
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6 ${className}`} data-testid="cultivo-compartir">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-4">
+        <svg className="h-5 w-5 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+        </svg>
+        Compartir cultivo
+      </h2>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Invitá a alguien de fuera de tu organización (por ejemplo un consultor) a ver solo este cultivo.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700" data-testid="cultivo-compartir-error">
+          {error}
+        </div>
+      )}
+
+      {mensaje && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700" data-testid="cultivo-compartir-mensaje">
+          {mensaje}
+        </div>
+      )}
+
+      {/* Formulario de invitación */}
+      <form onSubmit={handleInvitar} className="flex flex-col sm:flex-row gap-2 mb-4" data-testid="cultivo-compartir-form">
+        <input
+          type="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          placeholder="email@consultor.com"
+          required
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+          data-testid="cultivo-compartir-email"
+        />
+        <select
+          value={rol}
+          onChange={e => setRol(e.target.value as RolAccesoCultivo)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+          data-testid="cultivo-compartir-rol"
+        >
+          {(Object.keys(ETIQUETAS_ROL) as RolAccesoCultivo[]).map(valor => (
+            <option key={valor} value={valor}>{ETIQUETAS_ROL[valor]}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={procesando || !email}
+          className="px-4 py-2 text-sm font-medium bg-teal-600 hover:bg-teal-700 text-white rounded-lg transition-colors duration-200 disabled:opacity-50"
+          data-testid="cultivo-compartir-invitar"
+        >
+          {procesando ? 'Enviando…' : 'Invitar'}
+        </button>
+      </form>
+
+      {/* Personas con acceso */}
+      {accesos.length === 0 ? (
+        <p className="text-sm text-gray-500" data-testid="cultivo-compartir-vacio">Todavía no compartiste este cultivo.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100" data-testid="cultivo-compartir-lista">
+          {accesos.map(acceso => (
+            <li key={acceso.id} className="flex items-center justify-between gap-3 py-2" data-testid="cultivo-compartir-item">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{acceso.email}</p>
+                <p className="text-xs text-gray-500">
+                  {ETIQUETAS_ROL[acceso.rol]} · {acceso.estado === 'pendiente' ? 'Invitación pendiente' : 'Con acceso'}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevocar(acceso)}
+                disabled={procesando}
+                className="px-2 py-1 text-xs font-medium text-red-700 bg-red-50 hover:bg-red-100 rounded transition-colors duration-200 disabled:opacity-50"
+                data-testid="cultivo-compartir-revocar"
+              >
+                Revocar
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
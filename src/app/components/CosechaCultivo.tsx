@@ -0,0 +1,455 @@
+/**
+ * Componente de cosecha y rendimiento de un cultivo
+ * Registra pesos en húmedo, seco y trim, fechas de secado y curado y la calidad,
+ * y muestra las métricas derivadas: g/m², g/W y g/planta
+ * Con plantas registradas permite desglosar los pesos por planta para comparar fenotipos
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Cultivo } from '@/types/cultivo';
+import type { CosechaConMetricas, CosechaEntrada, PesoPlanta } from '@/types/cosecha';
+import type { Planta } from '@/types/planta';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import { getCosecha, guardarCosecha } from '@/lib/services/cosechas';
+import { listarPlantas } from '@/lib/services/plantas';
+import { formatearFechaCorta } from '@/lib/utils/date';
+
+/**
+ * Props del componente CosechaCultivo
+ */
+interface Props {
+  /** Cultivo cosechado (se usan superficie, potencia y plantas para las métricas) */
+  cultivo: Cultivo;
+  /** Cosecha ya cargada (por ejemplo, la que devuelve finalizarCultivo); si no se pasa, se pide a la API */
+  cosechaInicial?: CosechaConMetricas | null;
+  /** Abre el formulario al montar cuando todavía no hay cosecha */
+  abrirFormulario?: boolean;
+  /** Se llama después de guardar la cosecha */
+  onGuardada?: (cosecha: CosechaConMetricas) => void;
+  /** Oculta el registro y la edición de la cosecha */
+  soloLectura?: boolean;
+  /** Clase CSS adicional */
+  className?: string;
+}
+
+/**
+ * Campos simples del formulario (el desglose por planta se edita aparte)
+ */
+type CampoCosecha = Exclude<keyof CosechaEntrada, 'pesosPorPlanta'>;
+
+/**
+ * Campos del formulario (como texto, tal cual los escribe el usuario)
+ */
+type FormularioCosecha = Record<CampoCosecha, string>;
+
+/**
+ * Pesos de cada planta en el formulario, por ID de planta
+ */
+type FormularioPesosPlantas = Record<string, { pesoHumedo: string; pesoSeco: string }>;
+
+const CAMPOS_NUMERICOS: CampoCosecha[] = ['pesoHumedo', 'pesoSeco', 'pesoTrim', 'calidad'];
+
+/**
+ * Convierte una cosecha en los valores iniciales del formulario
+ */
+const aFormulario = (cosecha: CosechaConMetricas | null): FormularioCosecha => ({
+  fechaCorte: cosecha?.fechaCorte ?? new Date().toISOString().split('T')[0],
+  pesoHumedo: cosecha?.pesoHumedo?.toString() ?? '',
+  pesoSeco: cosecha?.pesoSeco?.toString() ?? '',
+  pesoTrim: cosecha?.pesoTrim?.toString() ?? '',
+  fechaInicioSecado: cosecha?.fechaInicioSecado ?? '',
+  fechaFinSecado: cosecha?.fechaFinSecado ?? '',
+  fechaInicioCurado: cosecha?.fechaInicioCurado ?? '',
+  fechaFinCurado: cosecha?.fechaFinCurado ?? '',
+  calidad: cosecha?.calidad?.toString() ?? '',
+  notasCalidad: cosecha?.notasCalidad ?? ''
+});
+
+/**
+ * Convierte el formulario en el cuerpo de la petición ('' borra el campo)
+ */
+const desdeFormulario = (formulario: FormularioCosecha): Partial<CosechaEntrada> => {
+  const datos: Record<string, string | number | null> = {};
+  for (const [campo, valor] of Object.entries(formulario)) {
+    const texto = valor.trim();
+    if (!texto) {
+      datos[campo] = null;
+    } else if (CAMPOS_NUMERICOS.includes(campo as CampoCosecha)) {
+      datos[campo] = Number(texto.replace(',', '.'));
+    } else {
+      datos[campo] = texto;
+    }
+  }
+  return datos as Partial<CosechaEntrada>;
+};
+
+/**
+ * Convierte el desglose guardado en los valores del formulario
+ */
+const aFormularioPesos = (cosecha: CosechaConMetricas | null): FormularioPesosPlantas =>
+  Object.fromEntries((cosecha?.pesosPorPlanta ?? []).map(p => [p.plantaId, {
+    pesoHumedo: p.pesoHumedo?.toString() ?? '',
+    pesoSeco: p.pesoSeco?.toString() ?? ''
+  }]));
+
+/**
+ * Convierte el desglose del formulario en filas con algún peso
+ */
+const desdeFormularioPesos = (pesos: FormularioPesosPlantas): PesoPlanta[] => {
+  const numero = (texto: string) => (texto.trim() ? Number(texto.trim().replace(',', '.')) : undefined);
+  return Object.entries(pesos)
+    .map(([plantaId, valores]) => ({ plantaId, pesoHumedo: numero(valores.pesoHumedo), pesoSeco: numero(valores.pesoSeco) }))
+    .filter(p => p.pesoHumedo !== undefined || p.pesoSeco !== undefined);
+};
+
+/**
+ * Formatea una métrica o muestra un guion si no se pudo calcular
+ */
+const mostrar = (valor: number | null, unidad: string): string =>
+  valor === null ? '—' : `${valor.toLocaleString('es-ES')} ${unidad}`;
+
+/**
+ * Componente principal CosechaCultivo
+ */
+export default function CosechaCultivo({
+  cultivo,
+  cosechaInicial,
+  abrirFormulario = false,
+  onGuardada,
+  soloLectura = false,
+  className = ''
+}: Props) {
+  const { token } = useAuth();
+
+  const [cosecha, setCosecha] = useState<CosechaConMetricas | null>(cosechaInicial ?? null);
+  const [cargando, setCargando] = useState(cosechaInicial === undefined);
+  const [editando, setEditando] = useState(false);
+  const [formulario, setFormulario] = useState<FormularioCosecha>(aFormulario(cosechaInicial ?? null));
+  const [pesosPlantas, setPesosPlantas] = useState<FormularioPesosPlantas>(aFormularioPesos(cosechaInicial ?? null));
+  const [plantas, setPlantas] = useState<Planta[]>([]);
+  const [guardando, setGuardando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Carga la cosecha del cultivo
+   */
+  const cargarCosecha = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setCargando(true);
+      setError(null);
+      const data = await getCosecha(cultivo.id, signal, token || undefined);
+      if (signal?.aborted) return;
+      setCosecha(data);
+      if (!data && abrirFormulario) {
+        setFormulario(aFormulario(null));
+        setEditando(true);
+      }
+    } catch (e) {
+      const err = e as Error;
+      if (err?.name !== 'AbortError' && !signal?.aborted) {
+        setError(err?.message ?? 'Error al cargar la cosecha');
+      }
+    } finally {
+      if (!signal?.aborted) setCargando(false);
+    }
+  }, [cultivo.id, token, abrirFormulario]);
+
+  useEffect(() => {
+    if (cosechaInicial !== undefined) {
+      if (!cosechaInicial && abrirFormulario) setEditando(true);
+      return;
+    }
+    const controller = new AbortController();
+    cargarCosecha(controller.signal);
+    return () => controller.abort();
+  }, [cosechaInicial, abrirFormulario, cargarCosecha]);
+
+  // Plantas del cultivo para el desglose de pesos
+  useEffect(() => {
+    const controller = new AbortController();
+    listarPlantas(cultivo.id, controller.signal, token || undefined)
+      .then(setPlantas)
+      .catch(() => {
+        // Sin plantas registradas solo se registra el total del cultivo
+      });
+    return () => controller.abort();
+  }, [cultivo.id, token]);
+
+  /**
+   * Abre el formulario con los datos actuales
+   */
+  const handleEditar = () => {
+    setFormulario(aFormulario(cosecha));
+    setPesosPlantas(aFormularioPesos(cosecha));
+    setError(null);
+    setEditando(true);
+  };
+
+  /**
+   * Actualiza un campo del formulario
+   */
+  const handleCambio = (campo: CampoCosecha) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    setFormulario(prev => ({ ...prev, [campo]: e.target.value }));
+  };
+
+  /**
+   * Actualiza el peso de una planta del desglose
+   */
+  const handleCambioPesoPlanta = (plantaId: string, campo: 'pesoHumedo' | 'pesoSeco') => (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    setPesosPlantas(prev => ({
+      ...prev,
+      [plantaId]: { ...(prev[plantaId] ?? { pesoHumedo: '', pesoSeco: '' }), [campo]: e.target.value }
+    }));
+  };
+
+  /**
+   * Guarda la cosecha y recalcula las métricas
+   */
+  const handleGuardar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formulario.fechaCorte) {
+      setError('La fecha de corte es obligatoria');
+      return;
+    }
+
+    setGuardando(true);
+    setError(null);
+    try {
+      const datos = desdeFormulario(formulario);
+      if (plantas.length > 0) datos.pesosPorPlanta = desdeFormularioPesos(pesosPlantas);
+      const guardada = await guardarCosecha(cultivo.id, datos, token || undefined);
+      setCosecha(guardada);
+      setEditando(false);
+      onGuardada?.(guardada);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar la cosecha');
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  const metricas = cosecha?.metricas;
+
+  // En el desglose se ofrecen las plantas no descartadas y las que ya tienen pesos
+  const plantasCosechables = plantas.filter(p => p.estado !== 'descartada' || pesosPlantas[p.id]);
+  const etiquetaPlanta = (plantaId: string) => plantas.find(p => p.id === plantaId)?.etiqueta ?? '—';
+  const desglose = [...(cosecha?.pesosPorPlanta ?? [])].sort((a, b) => (b.pesoSeco ?? 0) - (a.pesoSeco ?? 0));
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6 ${className}`} data-testid="cosecha-cultivo">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <svg className="h-5 w-5 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3" />
+          </svg>
+          Cosecha y rendimiento
+        </h2>
+        {!editando && !cargando && !soloLectura && (
+          <button
+            onClick={handleEditar}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white transition-colors duration-200"
+            data-testid="cosecha-editar"
+          >
+            {cosecha ? 'Editar' : 'Registrar cosecha'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700" data-testid="cosecha-error">
+          {error}
+        </div>
+      )}
+
+      {cargando ? (
+        <p className="text-sm text-gray-500" data-testid="cosecha-cargando">Cargando cosecha...</p>
+      ) : editando && !soloLectura ? (
+        <form onSubmit={handleGuardar} className="space-y-4" data-testid="cosecha-formulario">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Fecha de corte *</span>
+              <input type="date" required value={formulario.fechaCorte} onChange={handleCambio('fechaCorte')}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg" data-testid="cosecha-fecha-corte" />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Peso húmedo (g)</span>
+              <input type="number" min="0" step="0.1" value={formulario.pesoHumedo} onChange={handleCambio('pesoHumedo')}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg" data-testid="cosecha-peso-humedo" />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Peso seco de flor (g)</span>
+              <input type="number" min="0" step="0.1" value={formulario.pesoSeco} onChange={handleCambio('pesoSeco')}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg" data-testid="cosecha-peso-seco" />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Peso de trim (g)</span>
+              <input type="number" min="0" step="0.1" value={formulario.pesoTrim} onChange={handleCambio('pesoTrim')}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg" data-testid="cosecha-peso-trim" />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Inicio del secado</span>
+              <input type="date" value={formulario.fechaInicioSecado} onChange={handleCambio('fechaInicioSecado')}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg" data-testid="cosecha-inicio-secado" />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Fin del secado</span>
+              <input type="date" value={formulario.fechaFinSecado} onChange={handleCambio('fechaFinSecado')}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg" data-testid="cosecha-fin-secado" />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Inicio del curado</span>
+              <input type="date" value={formulario.fechaInicioCurado} onChange={handleCambio('fechaInicioCurado')}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg" data-testid="cosecha-inicio-curado" />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Fin del curado</span>
+              <input type="date" value={formulario.fechaFinCurado} onChange={handleCambio('fechaFinCurado')}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg" data-testid="cosecha-fin-curado" />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Calidad</span>
+              <select value={formulario.calidad} onChange={handleCambio('calidad')}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg" data-testid="cosecha-calidad">
+                <option value="">Sin valorar</option>
+                {[1, 2, 3, 4, 5].map(n => (
+                  <option key={n} value={n}>{'★'.repeat(n)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Notas de calidad</span>
+            <textarea rows={3} maxLength={2000} value={formulario.notasCalidad} onChange={handleCambio('notasCalidad')}
+              placeholder="Aroma, densidad, tricomas, problemas de secado..."
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg" data-testid="cosecha-notas" />
+          </label>
+          {plantasCosechables.length > 0 && (
+            <fieldset className="space-y-2" data-testid="cosecha-pesos-plantas">
+              <legend className="text-sm font-medium text-gray-700">Pesos por planta (g)</legend>
+              <div className="grid grid-cols-[auto_1fr_1fr] gap-2 items-center text-sm">
+                <span />
+                <span className="text-xs text-gray-500">Húmedo</span>
+                <span className="text-xs text-gray-500">Seco</span>
+                {plantasCosechables.map(planta => (
+                  <React.Fragment key={planta.id}>
+                    <span className="font-medium text-gray-700">{planta.etiqueta}</span>
+                    <input type="number" min="0" step="0.1" value={pesosPlantas[planta.id]?.pesoHumedo ?? ''}
+                      onChange={handleCambioPesoPlanta(planta.id, 'pesoHumedo')}
+                      className="w-full px-2 py-1 border border-gray-300 rounded-lg" data-testid={`cosecha-planta-humedo-${planta.etiqueta}`} />
+                    <input type="number" min="0" step="0.1" value={pesosPlantas[planta.id]?.pesoSeco ?? ''}
+                      onChange={handleCambioPesoPlanta(planta.id, 'pesoSeco')}
+                      className="w-full px-2 py-1 border border-gray-300 rounded-lg" data-testid={`cosecha-planta-seco-${planta.etiqueta}`} />
+                  </React.Fragment>
+                ))}
+              </div>
+            </fieldset>
+          )}
+          <div className="flex gap-2 justify-end">
+            <button type="button" onClick={() => setEditando(false)} disabled={guardando}
+              className="px-3 py-2 text-sm font-medium rounded-lg bg-white hover:bg-gray-50 text-gray-700 border border-gray-300"
+              data-testid="cosecha-cancelar">
+              Cancelar
+            </button>
+            <button type="submit" disabled={guardando}
+              className="px-3 py-2 text-sm font-medium rounded-lg bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white"
+              data-testid="cosecha-guardar">
+              {guardando ? 'Guardando...' : 'Guardar cosecha'}
+            </button>
+          </div>
+        </form>
+      ) : !cosecha || !metricas ? (
+        <p className="text-sm text-gray-500" data-testid="cosecha-vacia">
+          Todavía no se registró la cosecha de este cultivo.
+        </p>
+      ) : (
+        <div className="space-y-4" data-testid="cosecha-resumen">
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="p-3 bg-emerald-50 rounded-lg" data-testid="cosecha-gramos-m2">
+              <dt className="text-sm font-medium text-emerald-700">Rendimiento por m²</dt>
+              <dd className="text-2xl font-bold text-emerald-900">{mostrar(metricas.gramosPorM2, 'g/m²')}</dd>
+              {metricas.gramosPorM2 === null && <p className="text-xs text-emerald-700">Falta la superficie del cultivo</p>}
+            </div>
+            <div className="p-3 bg-yellow-50 rounded-lg" data-testid="cosecha-gramos-watt">
+              <dt className="text-sm font-medium text-yellow-700">Rendimiento por watt</dt>
+              <dd className="text-2xl font-bold text-yellow-900">{mostrar(metricas.gramosPorWatt, 'g/W')}</dd>
+              {metricas.gramosPorWatt === null && <p className="text-xs text-yellow-700">Falta la potencia de las lámparas</p>}
+            </div>
+            <div className="p-3 bg-blue-50 rounded-lg" data-testid="cosecha-gramos-planta">
+              <dt className="text-sm font-medium text-blue-700">Rendimiento por planta</dt>
+              <dd className="text-2xl font-bold text-blue-900">{mostrar(metricas.gramosPorPlanta, 'g')}</dd>
+              {metricas.gramosPorPlanta === null && <p className="text-xs text-blue-700">Falta el número de plantas</p>}
+            </div>
+          </dl>
+
+          <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+            <div>
+              <dt className="text-gray-500">Corte</dt>
+              <dd className="font-medium text-gray-900">{formatearFechaCorta(cosecha.fechaCorte)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Húmedo / seco / trim</dt>
+              <dd className="font-medium text-gray-900">
+                {[cosecha.pesoHumedo, cosecha.pesoSeco, cosecha.pesoTrim].map(p => (p === undefined ? '—' : `${p} g`)).join(' / ')}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Pérdida en secado</dt>
+              <dd className="font-medium text-gray-900">{mostrar(metricas.porcentajePerdidaSecado, '%')}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Trim sobre total seco</dt>
+              <dd className="font-medium text-gray-900">{mostrar(metricas.proporcionTrim, '%')}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Días de secado</dt>
+              <dd className="font-medium text-gray-900">{mostrar(metricas.diasSecado, 'días')}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Días de curado</dt>
+              <dd className="font-medium text-gray-900">{mostrar(metricas.diasCurado, 'días')}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Ciclo completo</dt>
+              <dd className="font-medium text-gray-900">{mostrar(metricas.diasCicloTotal, 'días')}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Calidad</dt>
+              <dd className="font-medium text-amber-600">{cosecha.calidad ? '★'.repeat(cosecha.calidad) : '—'}</dd>
+            </div>
+          </dl>
+
+          {desglose.length > 0 && (
+            <table className="w-full text-sm" data-testid="cosecha-desglose-plantas">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="font-normal">Planta</th>
+                  <th className="font-normal">Húmedo</th>
+                  <th className="font-normal">Seco</th>
+                </tr>
+              </thead>
+              <tbody>
+                {desglose.map(p => (
+                  <tr key={p.plantaId} className="text-gray-900">
+                    <td className="font-medium">{etiquetaPlanta(p.plantaId)}</td>
+                    <td>{p.pesoHumedo === undefined ? '—' : `${p.pesoHumedo} g`}</td>
+                    <td>{p.pesoSeco === undefined ? '—' : `${p.pesoSeco} g`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {cosecha.notasCalidad && (
+            <p className="text-sm text-gray-700 whitespace-pre-line" data-testid="cosecha-notas-calidad">{cosecha.notasCalidad}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
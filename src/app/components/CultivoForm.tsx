@@ -8,14 +8,13 @@
 
 import React, { useEffect, useMemo, useState } from 'react';
 import type { Cultivo, CultivoCreacion } from '@/types/cultivo';
-import {
-  prepararContextoCultivo,
-  consultarRecomendacionPH,
-  consultarRecomendacionEC,
-  consultarRecomendacionTemperatura,
-  consultarRecomendacionHumedad
-} from '@/lib/services/chat';
+import { prepararContextoCultivo } from '@/lib/services/chat';
 import type { ContextoCultivo } from '@/types/chat';
+import type { CampoObjetivoCultivo } from '@/types/recomendacionIA';
+import type { EstiramientoGenetica, Genetica } from '@/types/genetica';
+import { useGeneticas } from '@/lib/hooks/useGeneticas';
+import { filtrarGeneticas, describirProporcion, ETIQUETAS_ESTIRAMIENTO, SEMANAS_FLORACION_GENERICAS } from '@/lib/utils/geneticas';
+import RecomendacionesObjetivosIA from './RecomendacionesObjetivosIA';
 
 type Props = {
   initial?: Partial<Cultivo>;
@@ -33,6 +32,7 @@ export default function CultivoForm({
   // Estado Principal
   const [nombre, setNombre] = useState(initial?.nombre ?? '');
   const [genetica, setGenetica] = useState(initial?.genetica ?? '');
+  const [geneticaId, setGeneticaId] = useState(initial?.geneticaId ?? '');
   const [activo, setActivo] = useState<boolean>(initial?.activo ?? true);
 
   // Detalles del Espacio
@@ -48,6 +48,7 @@ export default function CultivoForm({
   // IA y Parámetros
   const [phObjetivo, setPhObjetivo] = useState<number | string>(initial?.phObjetivo ?? '');
   const [ecObjetivo, setEcObjetivo] = useState<number | string>(initial?.ecObjetivo ?? '');
+  const [aguaDiariaObjetivo, setAguaDiariaObjetivo] = useState<number | string>(initial?.aguaDiariaObjetivo ?? '');
 
   // Condiciones Ambientales
   const [tempObjetivoVegetacion, setTempObjetivoVegetacion] = useState<number | string>(initial?.tempObjetivoVegetacion ?? '');
@@ -58,25 +59,85 @@ export default function CultivoForm({
   // Notas
   const [notas, setNotas] = useState(initial?.notas ?? '');
 
-  // Estados de carga (IA)
-  const [cargandoPH, setCargandoPH] = useState(false);
-  const [cargandoEC, setCargandoEC] = useState(false);
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [cargandoTempVegetacion, setCargandoTempVegetacion] = useState(false);
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [cargandoTempFloracion, setCargandoTempFloracion] = useState(false);
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [cargandoHumedadVegetacion, setCargandoHumedadVegetacion] = useState(false);
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [cargandoHumedadFloracion, setCargandoHumedadFloracion] = useState(false);
-
   // Validación
   const [error, setError] = useState<string | null>(null);
   const disabled = useMemo(() => nombre.trim().length === 0, [nombre]);
 
   useEffect(() => setError(null), [nombre]);
 
-  // Manejadores de IA (Sin cambios en lógica, solo reubicados)
+  // Catálogo de genéticas (autocompletado y alta rápida)
+  const { geneticas, agregar: agregarGenetica } = useGeneticas();
+  const [mostrarSugerencias, setMostrarSugerencias] = useState(false);
+  const [nuevaGenetica, setNuevaGenetica] = useState<{
+    banco: string;
+    porcentajeIndica: string;
+    semanasFloracion: string;
+    autofloreciente: boolean;
+    estiramiento: EstiramientoGenetica | '';
+  } | null>(null);
+  const [guardandoGenetica, setGuardandoGenetica] = useState(false);
+
+  const sugerencias = useMemo(() => filtrarGeneticas(geneticas, genetica), [geneticas, genetica]);
+  const geneticaSeleccionada = useMemo(
+    () => geneticas.find(g => g.id === geneticaId),
+    [geneticas, geneticaId]
+  );
+  const existeEnCatalogo = useMemo(
+    () => geneticas.some(g => g.nombre.toLowerCase() === genetica.trim().toLowerCase()),
+    [geneticas, genetica]
+  );
+
+  /**
+   * Escribir a mano desvincula la genética del catálogo
+   */
+  const handleGeneticaChange = (valor: string) => {
+    setGenetica(valor);
+    setGeneticaId('');
+    setMostrarSugerencias(true);
+  };
+
+  const handleElegirGenetica = (elegida: Genetica) => {
+    setGenetica(elegida.nombre);
+    setGeneticaId(elegida.id);
+    setMostrarSugerencias(false);
+    setNuevaGenetica(null);
+  };
+
+  /**
+   * Agrega al catálogo la genética escrita y la vincula al cultivo
+   */
+  const handleGuardarGenetica = async () => {
+    if (!nuevaGenetica || !genetica.trim()) return;
+    setGuardandoGenetica(true);
+    try {
+      const creada = await agregarGenetica({
+        nombre: genetica.trim(),
+        banco: nuevaGenetica.banco.trim() || undefined,
+        porcentajeIndica: nuevaGenetica.porcentajeIndica ? parseInt(nuevaGenetica.porcentajeIndica) : undefined,
+        semanasFloracion: parseFloat(nuevaGenetica.semanasFloracion),
+        autofloreciente: nuevaGenetica.autofloreciente,
+        estiramiento: nuevaGenetica.estiramiento || undefined
+      });
+      handleElegirGenetica(creada);
+    } catch (errorGenetica) {
+      setError(errorGenetica instanceof Error ? errorGenetica.message : 'No se pudo agregar la genética');
+    } finally {
+      setGuardandoGenetica(false);
+    }
+  };
+
+  // Objetivos actuales del formulario (se comparan con la recomendación de la IA)
+  const objetivosActuales = useMemo((): Partial<Pick<Cultivo, CampoObjetivoCultivo>> => ({
+    phObjetivo: phObjetivo ? parseFloat(phObjetivo.toString()) : undefined,
+    ecObjetivo: ecObjetivo ? parseFloat(ecObjetivo.toString()) : undefined,
+    aguaDiariaObjetivo: aguaDiariaObjetivo ? parseFloat(aguaDiariaObjetivo.toString()) : undefined,
+    tempObjetivoVegetacion: tempObjetivoVegetacion ? parseFloat(tempObjetivoVegetacion.toString()) : undefined,
+    tempObjetivoFloracion: tempObjetivoFloracion ? parseFloat(tempObjetivoFloracion.toString()) : undefined,
+    humedadObjetivoVegetacion: humedadObjetivoVegetacion ? parseFloat(humedadObjetivoVegetacion.toString()) : undefined,
+    humedadObjetivoFloracion: humedadObjetivoFloracion ? parseFloat(humedadObjetivoFloracion.toString()) : undefined
+  }), [phObjetivo, ecObjetivo, aguaDiariaObjetivo, tempObjetivoVegetacion, tempObjetivoFloracion, humedadObjetivoVegetacion, humedadObjetivoFloracion]);
+
+  // Contexto para la recomendación de objetivos con IA
   const crearContextoCultivo = useMemo((): ContextoCultivo => {
     const cultivoTemporal: Cultivo = {
       id: initial?.id || 'temp',
@@ -95,39 +156,28 @@ export default function CultivoForm({
       fechaCreacion: initial?.fechaCreacion,
       fechaActualizacion: initial?.fechaActualizacion,
       fechaInicioFloracion: initial?.fechaInicioFloracion,
-      phObjetivo: phObjetivo ? parseFloat(phObjetivo.toString()) : undefined,
-      ecObjetivo: ecObjetivo ? parseFloat(ecObjetivo.toString()) : undefined,
-      tempObjetivoVegetacion: tempObjetivoVegetacion ? parseFloat(tempObjetivoVegetacion.toString()) : undefined,
-      tempObjetivoFloracion: tempObjetivoFloracion ? parseFloat(tempObjetivoFloracion.toString()) : undefined,
-      humedadObjetivoVegetacion: humedadObjetivoVegetacion ? parseFloat(humedadObjetivoVegetacion.toString()) : undefined,
-      humedadObjetivoFloracion: humedadObjetivoFloracion ? parseFloat(humedadObjetivoFloracion.toString()) : undefined,
+      ...objetivosActuales
     };
     return prepararContextoCultivo(cultivoTemporal);
-  }, [nombre, sustrato, metrosCuadrados, fechaComienzo, numeroplantas, litrosMaceta, potenciaLamparas, genetica, activo, notas, phObjetivo, ecObjetivo, tempObjetivoVegetacion, tempObjetivoFloracion, humedadObjetivoVegetacion, humedadObjetivoFloracion, initial]);
-
-  const handleConsultarPH = async () => {
-    setCargandoPH(true);
-    try {
-      const recomendacion = await consultarRecomendacionPH(crearContextoCultivo);
-      if (recomendacion !== null) setPhObjetivo(recomendacion.toString());
-    } catch (e) { console.error(e); } finally { setCargandoPH(false); }
-  };
-
-  const handleConsultarEC = async () => {
-    setCargandoEC(true);
-    try {
-      const recomendacion = await consultarRecomendacionEC(crearContextoCultivo);
-      if (recomendacion !== null) setEcObjetivo(recomendacion.toString());
-    } catch (e) { console.error(e); } finally { setCargandoEC(false); }
-  };
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const wrapConsulta = async (setter: (val: string) => void, loader: (val: boolean) => void, fetcher: (ctx: any, ...args: any[]) => Promise<any>, ...args: any[]) => {
-    loader(true);
-    try {
-      const res = await fetcher(crearContextoCultivo, ...args);
-      if (res !== null) setter(res.toString());
-    } catch (e) { console.error(e); } finally { loader(false); }
+  }, [nombre, sustrato, metrosCuadrados, fechaComienzo, numeroplantas, litrosMaceta, potenciaLamparas, genetica, activo, notas, objetivosActuales, initial]);
+
+  /**
+   * Vuelca en el formulario los valores recomendados que el usuario aceptó
+   * (se guardan, con la auditoría de editadoPor, al enviar el formulario)
+   */
+  const handleAplicarRecomendacion = (valores: Partial<Pick<Cultivo, CampoObjetivoCultivo>>) => {
+    const setters: Record<CampoObjetivoCultivo, (valor: string) => void> = {
+      phObjetivo: setPhObjetivo,
+      ecObjetivo: setEcObjetivo,
+      aguaDiariaObjetivo: setAguaDiariaObjetivo,
+      tempObjetivoVegetacion: setTempObjetivoVegetacion,
+      tempObjetivoFloracion: setTempObjetivoFloracion,
+      humedadObjetivoVegetacion: setHumedadObjetivoVegetacion,
+      humedadObjetivoFloracion: setHumedadObjetivoFloracion
+    };
+    for (const [campo, valor] of Object.entries(valores) as [CampoObjetivoCultivo, number | undefined][]) {
+      if (valor !== undefined) setters[campo](valor.toString());
+    }
   };
 
   async function handleSubmit(e: React.FormEvent) {
@@ -143,14 +193,11 @@ export default function CultivoForm({
       litrosMaceta: litrosMaceta ? parseFloat(litrosMaceta.toString()) : undefined,
       potenciaLamparas: potenciaLamparas ? parseFloat(potenciaLamparas.toString()) : undefined,
       genetica: genetica || undefined,
+      // '' desvincula una genética que antes venía del catálogo
+      geneticaId: geneticaId || (initial?.geneticaId ? '' : undefined),
       notas: notas || undefined,
       activo,
-      phObjetivo: phObjetivo ? parseFloat(phObjetivo.toString()) : undefined,
-      ecObjetivo: ecObjetivo ? parseFloat(ecObjetivo.toString()) : undefined,
-      tempObjetivoVegetacion: tempObjetivoVegetacion ? parseFloat(tempObjetivoVegetacion.toString()) : undefined,
-      tempObjetivoFloracion: tempObjetivoFloracion ? parseFloat(tempObjetivoFloracion.toString()) : undefined,
-      humedadObjetivoVegetacion: humedadObjetivoVegetacion ? parseFloat(humedadObjetivoVegetacion.toString()) : undefined,
-      humedadObjetivoFloracion: humedadObjetivoFloracion ? parseFloat(humedadObjetivoFloracion.toString()) : undefined,
+      ...objetivosActuales
     };
 
     try {
@@ -187,15 +234,152 @@ export default function CultivoForm({
             />
           </div>
 
-          <div className="grid gap-2">
+          <div className="grid gap-2 relative">
             <label htmlFor="genetica" className="text-sm font-semibold text-gray-700">Genética / Variedad</label>
             <input
               id="genetica"
               value={genetica}
-              onChange={e => setGenetica(e.target.value)}
+              onChange={e => handleGeneticaChange(e.target.value)}
+              onFocus={() => setMostrarSugerencias(true)}
+              onBlur={() => setMostrarSugerencias(false)}
               className="w-full rounded-lg border border-gray-300 p-3 focus:ring-2 focus:ring-green-400 focus:border-transparent outline-none transition-all"
               placeholder="Ej: White Widow..."
+              autoComplete="off"
+              role="combobox"
+              aria-expanded={mostrarSugerencias && sugerencias.length > 0}
+              aria-controls="genetica-sugerencias"
+              data-testid="genetica-input"
             />
+
+            {/* Sugerencias del catálogo (onMouseDown para elegir antes del blur) */}
+            {mostrarSugerencias && sugerencias.length > 0 && (
+              <ul
+                id="genetica-sugerencias"
+                role="listbox"
+                className="absolute top-full left-0 right-0 z-20 mt-1 max-h-64 overflow-y-auto rounded-lg border border-gray-200 bg-white shadow-lg"
+                data-testid="genetica-sugerencias"
+              >
+                {sugerencias.map(sugerencia => (
+                  <li
+                    key={sugerencia.id}
+                    role="option"
+                    aria-selected={sugerencia.id === geneticaId}
+                    onMouseDown={e => { e.preventDefault(); handleElegirGenetica(sugerencia); }}
+                    className="cursor-pointer px-3 py-2 hover:bg-green-50"
+                  >
+                    <span className="font-medium text-gray-800">{sugerencia.nombre}</span>
+                    <span className="block text-xs text-gray-500">
+                      {[
+                        sugerencia.banco,
+                        `${sugerencia.semanasFloracion} semanas de floración`,
+                        sugerencia.autofloreciente ? 'Autofloreciente' : null
+                      ].filter(Boolean).join(' · ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {geneticaSeleccionada ? (
+              <p className="text-xs text-green-700" data-testid="genetica-perfil">
+                📚 Del catálogo: {[
+                  geneticaSeleccionada.banco,
+                  describirProporcion(geneticaSeleccionada.porcentajeIndica),
+                  `${geneticaSeleccionada.semanasFloracion} semanas de floración`,
+                  geneticaSeleccionada.autofloreciente ? 'autofloreciente' : null,
+                  geneticaSeleccionada.estiramiento ? `estiramiento ${geneticaSeleccionada.estiramiento}` : null
+                ].filter(Boolean).join(' · ')}
+              </p>
+            ) : genetica.trim() && !existeEnCatalogo && !nuevaGenetica && (
+              <button
+                type="button"
+                onClick={() => setNuevaGenetica({
+                  banco: '',
+                  porcentajeIndica: '',
+                  semanasFloracion: String(SEMANAS_FLORACION_GENERICAS),
+                  autofloreciente: false,
+                  estiramiento: ''
+                })}
+                className="justify-self-start text-xs font-medium text-green-700 hover:underline"
+                data-testid="genetica-agregar-catalogo"
+              >
+                + Agregar &quot;{genetica.trim()}&quot; al catálogo para estimar la cosecha
+              </button>
+            )}
+
+            {/* Alta rápida en el catálogo */}
+            {nuevaGenetica && !geneticaSeleccionada && (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3 rounded-lg border border-green-200 bg-green-50 p-3" data-testid="genetica-nueva-form">
+                <div>
+                  <label className="text-xs font-semibold text-gray-600 block mb-1">Banco</label>
+                  <input
+                    value={nuevaGenetica.banco}
+                    onChange={e => setNuevaGenetica({ ...nuevaGenetica, banco: e.target.value })}
+                    className="w-full p-2 border rounded-md text-sm"
+                    placeholder="Ej: Sensi Seeds"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-semibold text-gray-600 block mb-1">% Índica</label>
+                  <input
+                    type="number" min="0" max="100" step="1"
+                    value={nuevaGenetica.porcentajeIndica}
+                    onChange={e => setNuevaGenetica({ ...nuevaGenetica, porcentajeIndica: e.target.value })}
+                    className="w-full p-2 border rounded-md text-sm"
+                    placeholder="Ej: 60"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-semibold text-gray-600 block mb-1">Semanas de floración *</label>
+                  <input
+                    type="number" min="4" max="20" step="0.5"
+                    value={nuevaGenetica.semanasFloracion}
+                    onChange={e => setNuevaGenetica({ ...nuevaGenetica, semanasFloracion: e.target.value })}
+                    className="w-full p-2 border rounded-md text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-semibold text-gray-600 block mb-1">Estiramiento</label>
+                  <select
+                    value={nuevaGenetica.estiramiento}
+                    onChange={e => setNuevaGenetica({ ...nuevaGenetica, estiramiento: e.target.value as EstiramientoGenetica | '' })}
+                    className="w-full p-2 border rounded-md text-sm bg-white"
+                  >
+                    <option value="">Sin dato</option>
+                    {(Object.keys(ETIQUETAS_ESTIRAMIENTO) as EstiramientoGenetica[]).map(valor => (
+                      <option key={valor} value={valor}>{ETIQUETAS_ESTIRAMIENTO[valor]}</option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 self-end pb-2">
+                  <input
+                    type="checkbox"
+                    checked={nuevaGenetica.autofloreciente}
+                    onChange={e => setNuevaGenetica({ ...nuevaGenetica, autofloreciente: e.target.checked })}
+                    className="h-4 w-4"
+                  />
+                  Autofloreciente
+                </label>
+                <div className="flex items-end gap-2">
+                  <button
+                    type="button"
+                    onClick={handleGuardarGenetica}
+                    disabled={guardandoGenetica || !nuevaGenetica.semanasFloracion}
+                    className="px-3 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700 disabled:opacity-50"
+                    data-testid="genetica-nueva-guardar"
+                  >
+                    {guardandoGenetica ? 'Guardando...' : 'Agregar'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setNuevaGenetica(null)}
+                    className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800"
+                  >
+                    Cancelar
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -280,27 +464,29 @@ export default function CultivoForm({
           <span className="text-xs font-normal bg-green-200 text-green-800 px-2 py-1 rounded-full">Recomendaciones Automáticas</span>
         </h3>
 
+        <RecomendacionesObjetivosIA
+          contexto={crearContextoCultivo}
+          actuales={objetivosActuales}
+          onAplicar={handleAplicarRecomendacion}
+          etiquetaAplicar="Usar valores aceptados"
+        />
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* pH & EC */}
           <div className="space-y-4">
             <div className="bg-white/60 p-4 rounded-lg border border-green-100">
-              <div className="flex justify-between items-center mb-2">
-                <label className="text-sm font-semibold text-gray-700">pH Objetivo</label>
-                <button type="button" onClick={handleConsultarPH} disabled={cargandoPH} className="text-xs bg-green-600 text-white px-2 py-1 rounded hover:bg-green-700 transition">
-                  {cargandoPH ? '...' : 'Consultar IA'}
-                </button>
-              </div>
+              <label className="text-sm font-semibold text-gray-700 block mb-2">pH Objetivo</label>
               <input type="number" step="0.1" value={phObjetivo} onChange={e => setPhObjetivo(e.target.value)} className="w-full p-2 border rounded-md" placeholder="6.2" />
             </div>
 
             <div className="bg-white/60 p-4 rounded-lg border border-green-100">
-              <div className="flex justify-between items-center mb-2">
-                <label className="text-sm font-semibold text-gray-700">EC Objetivo</label>
-                <button type="button" onClick={handleConsultarEC} disabled={cargandoEC} className="text-xs bg-green-600 text-white px-2 py-1 rounded hover:bg-green-700 transition">
-                  {cargandoEC ? '...' : 'Consultar IA'}
-                </button>
-              </div>
-              <input type="number" step="0.1" value={ecObjetivo} onChange={e => setEcObjetivo(e.target.value)} className="w-full p-2 border rounded-md" placeholder="1.2" />
+              <label className="text-sm font-semibold text-gray-700 block mb-2">EC Objetivo (ppm)</label>
+              <input type="number" step="1" value={ecObjetivo} onChange={e => setEcObjetivo(e.target.value)} className="w-full p-2 border rounded-md" placeholder="1200" />
+            </div>
+
+            <div className="bg-white/60 p-4 rounded-lg border border-green-100">
+              <label className="text-sm font-semibold text-gray-700 block mb-2">Agua Diaria (L)</label>
+              <input type="number" step="0.1" value={aguaDiariaObjetivo} onChange={e => setAguaDiariaObjetivo(e.target.value)} className="w-full p-2 border rounded-md" placeholder="5" />
             </div>
           </div>
 
@@ -310,17 +496,11 @@ export default function CultivoForm({
             <div className="grid grid-cols-2 gap-2">
               <div>
                 <label className="text-xs font-semibold text-gray-600 block mb-1">Temp (°C)</label>
-                <div className="relative">
-                  <input type="number" step="0.1" value={tempObjetivoVegetacion} onChange={e => setTempObjetivoVegetacion(e.target.value)} className="w-full p-2 border rounded-md" />
-                  <button type="button" onClick={() => wrapConsulta(setTempObjetivoVegetacion, setCargandoTempVegetacion, consultarRecomendacionTemperatura, 'vegetacion')} className="absolute right-1 top-1 text-[10px] bg-gray-200 hover:bg-gray-300 px-1 rounded">IA</button>
-                </div>
+                <input type="number" step="0.1" value={tempObjetivoVegetacion} onChange={e => setTempObjetivoVegetacion(e.target.value)} className="w-full p-2 border rounded-md" />
               </div>
               <div>
                 <label className="text-xs font-semibold text-gray-600 block mb-1">Humedad (%)</label>
-                <div className="relative">
-                  <input type="number" step="1" value={humedadObjetivoVegetacion} onChange={e => setHumedadObjetivoVegetacion(e.target.value)} className="w-full p-2 border rounded-md" />
-                  <button type="button" onClick={() => wrapConsulta(setHumedadObjetivoVegetacion, setCargandoHumedadVegetacion, consultarRecomendacionHumedad, 'vegetacion')} className="absolute right-1 top-1 text-[10px] bg-gray-200 hover:bg-gray-300 px-1 rounded">IA</button>
-                </div>
+                <input type="number" step="1" value={humedadObjetivoVegetacion} onChange={e => setHumedadObjetivoVegetacion(e.target.value)} className="w-full p-2 border rounded-md" />
               </div>
             </div>
           </div>
@@ -331,17 +511,11 @@ export default function CultivoForm({
             <div className="grid grid-cols-2 gap-2">
               <div>
                 <label className="text-xs font-semibold text-gray-600 block mb-1">Temp (°C)</label>
-                <div className="relative">
-                  <input type="number" step="0.1" value={tempObjetivoFloracion} onChange={e => setTempObjetivoFloracion(e.target.value)} className="w-full p-2 border rounded-md" />
-                  <button type="button" onClick={() => wrapConsulta(setTempObjetivoFloracion, setCargandoTempFloracion, consultarRecomendacionTemperatura, 'floracion')} className="absolute right-1 top-1 text-[10px] bg-gray-200 hover:bg-gray-300 px-1 rounded">IA</button>
-                </div>
+                <input type="number" step="0.1" value={tempObjetivoFloracion} onChange={e => setTempObjetivoFloracion(e.target.value)} className="w-full p-2 border rounded-md" />
               </div>
               <div>
                 <label className="text-xs font-semibold text-gray-600 block mb-1">Humedad (%)</label>
-                <div className="relative">
-                  <input type="number" step="1" value={humedadObjetivoFloracion} onChange={e => setHumedadObjetivoFloracion(e.target.value)} className="w-full p-2 border rounded-md" />
-                  <button type="button" onClick={() => wrapConsulta(setHumedadObjetivoFloracion, setCargandoHumedadFloracion, consultarRecomendacionHumedad, 'floracion')} className="absolute right-1 top-1 text-[10px] bg-gray-200 hover:bg-gray-300 px-1 rounded">IA</button>
-                </div>
+                <input type="number" step="1" value={humedadObjetivoFloracion} onChange={e => setHumedadObjetivoFloracion(e.target.value)} className="w-full p-2 border rounded-md" />
               </div>
             </div>
           </div>
@@ -0,0 +1,137 @@
+/**
+ * Componente de historial de diagnósticos de un cultivo
+ * Lista los diagnósticos del Doctor IA (más recientes primero) con sus problemas,
+ * acciones sugeridas y el estado de las tareas creadas a partir de ellas
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { Diagnostico } from '@/types/diagnostico';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import { listarDiagnosticos, eliminarDiagnostico } from '@/lib/services/diagnosticos';
+import TarjetaDiagnostico from './TarjetaDiagnostico';
+
+/**
+ * Props del componente DiagnosticosCultivo
+ */
+interface Props {
+  /** ID del cultivo */
+  cultivoId: string;
+  /** Oculta los nuevos diagnósticos, la creación de tareas y los cambios de estado */
+  soloLectura?: boolean;
+  /** Clase CSS adicional */
+  className?: string;
+}
+
+export default function DiagnosticosCultivo({ cultivoId, soloLectura = false, className = '' }: Props) {
+  const { token } = useAuth();
+  const [diagnosticos, setDiagnosticos] = useState<Diagnostico[]>([]);
+  const [cargando, setCargando] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [mostrarResueltos, setMostrarResueltos] = useState(false);
+
+  /**
+   * Carga el historial de diagnósticos
+   */
+  const cargarDiagnosticos = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setCargando(true);
+      setError(null);
+      const data = await listarDiagnosticos(cultivoId, signal, token || undefined);
+      if (signal?.aborted) return;
+      setDiagnosticos(data);
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') return;
+      setError(err instanceof Error ? err.message : 'No se pudieron cargar los diagnósticos');
+    } finally {
+      if (!signal?.aborted) setCargando(false);
+    }
+  }, [cultivoId, token]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    cargarDiagnosticos(controller.signal);
+    return () => controller.abort();
+  }, [cargarDiagnosticos]);
+
+  const handleActualizado = (actualizado: Diagnostico) => {
+    setDiagnosticos(prev => prev.map(d => d.id === actualizado.id ? actualizado : d));
+  };
+
+  const handleEliminar = async (diagnostico: Diagnostico) => {
+    if (!confirm('¿Eliminar este diagnóstico del historial? Las tareas creadas se conservan.')) return;
+    try {
+      await eliminarDiagnostico(cultivoId, diagnostico.id, token || undefined);
+      setDiagnosticos(prev => prev.filter(d => d.id !== diagnostico.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo eliminar el diagnóstico');
+    }
+  };
+
+  const resueltos = diagnosticos.filter(d => d.estado === 'resuelto').length;
+  const visibles = mostrarResueltos ? diagnosticos : diagnosticos.filter(d => d.estado !== 'resuelto');
+
+  return (
+    <div className={`space-y-4 ${className}`} data-testid="diagnosticos-cultivo">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <span>🚑</span> Diagnósticos
+        </h3>
+        <div className="flex items-center gap-3">
+          {resueltos > 0 && (
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={mostrarResueltos}
+                onChange={e => setMostrarResueltos(e.target.checked)}
+                data-testid="diagnosticos-mostrar-resueltos"
+              />
+              Mostrar resueltos ({resueltos})
+            </label>
+          )}
+          {!soloLectura && (
+            <Link
+              href={`/laboratorio/simulador?cultivo=${cultivoId}`}
+              className="rounded-lg bg-indigo-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-indigo-700"
+              data-testid="diagnosticos-nuevo"
+            >
+              Nuevo diagnóstico
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700" data-testid="diagnosticos-error">
+          {error}
+        </p>
+      )}
+
+      {cargando ? (
+        <p className="text-sm text-gray-500">Cargando diagnósticos...</p>
+      ) : visibles.length === 0 ? (
+        <p className="rounded-lg border border-gray-200 bg-gray-50 p-4 text-center text-sm text-gray-600" data-testid="diagnosticos-vacio">
+          {diagnosticos.length === 0
+            ? soloLectura
+              ? 'Todavía no hay diagnósticos.'
+              : 'Todavía no hay diagnósticos. Analiza una foto con el Doctor IA para detectar problemas.'
+            : 'No hay problemas abiertos.'}
+        </p>
+      ) : (
+        <div className="space-y-3" data-testid="diagnosticos-lista">
+          {visibles.map(diagnostico => (
+            <TarjetaDiagnostico
+              key={diagnostico.id}
+              diagnostico={diagnostico}
+              onActualizado={handleActualizado}
+              onEliminar={soloLectura ? undefined : handleEliminar}
+              soloLectura={soloLectura}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
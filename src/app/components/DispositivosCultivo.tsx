@@ -0,0 +1,235 @@
+/**
+ * Componente para gestión de dispositivos de sensores de un cultivo
+ * Permite registrar controladores (ej: ESP32), mostrar su API key una única vez,
+ * revocarlos, rotar la clave y eliminarlos
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Dispositivo } from '@/types/dispositivo';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import {
+  listDispositivos,
+  createDispositivo,
+  setDispositivoActivo,
+  rotarApiKeyDispositivo,
+  removeDispositivo
+} from '@/lib/services/dispositivos';
+import { formatearFechaCompleta } from '@/lib/utils/date';
+
+/**
+ * Props del componente DispositivosCultivo
+ */
+interface Props {
+  /** ID del cultivo al que reportan los dispositivos */
+  cultivoId: string;
+  /** Oculta el registro y la administración de dispositivos */
+  soloLectura?: boolean;
+  /** Clase CSS adicional */
+  className?: string;
+}
+
+/**
+ * Componente principal DispositivosCultivo
+ */
+export default function DispositivosCultivo({ cultivoId, soloLectura = false, className = '' }: Props) {
+  const { token } = useAuth();
+
+  // Estados de datos
+  const [dispositivos, setDispositivos] = useState<Dispositivo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Estados del formulario
+  const [nombre, setNombre] = useState('');
+  const [guardando, setGuardando] = useState(false);
+  const [apiKeyVisible, setApiKeyVisible] = useState<{ nombre: string; apiKey: string } | null>(null);
+
+  /**
+   * Carga los dispositivos del cultivo
+   */
+  const cargarDispositivos = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await listDispositivos(cultivoId, signal, token || undefined);
+      if (!signal?.aborted) setDispositivos(data);
+    } catch (e) {
+      const err = e as Error;
+      if (err?.name !== 'AbortError' && !signal?.aborted) {
+        setError(err?.message ?? 'Error al cargar dispositivos');
+      }
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  }, [cultivoId, token]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    cargarDispositivos(controller.signal);
+    return () => controller.abort();
+  }, [cargarDispositivos]);
+
+  /**
+   * Ejecuta una acción sobre un dispositivo y recarga la lista
+   */
+  const ejecutar = async (accion: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await accion();
+      await cargarDispositivos();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al actualizar el dispositivo');
+    }
+  };
+
+  /**
+   * Registra un nuevo dispositivo y muestra su API key
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!nombre.trim()) return;
+
+    setGuardando(true);
+    await ejecutar(async () => {
+      const registrado = await createDispositivo({ nombre: nombre.trim(), cultivoId }, token || undefined);
+      setApiKeyVisible({ nombre: registrado.dispositivo.nombre, apiKey: registrado.apiKey });
+      setNombre('');
+    });
+    setGuardando(false);
+  };
+
+  /**
+   * Rota la API key de un dispositivo y muestra la nueva
+   */
+  const handleRotar = (dispositivo: Dispositivo) => {
+    if (!confirm(`¿Generar una nueva API key para "${dispositivo.nombre}"? La clave actual dejará de funcionar.`)) return;
+    ejecutar(async () => {
+      const registrado = await rotarApiKeyDispositivo(dispositivo.id, token || undefined);
+      setApiKeyVisible({ nombre: dispositivo.nombre, apiKey: registrado.apiKey });
+    });
+  };
+
+  /**
+   * Elimina un dispositivo tras confirmación
+   */
+  const handleEliminar = (dispositivo: Dispositivo) => {
+    if (!confirm(`¿Eliminar el dispositivo "${dispositivo.nombre}"? Las lecturas ya recibidas se conservan.`)) return;
+    ejecutar(() => removeDispositivo(dispositivo.id, token || undefined));
+  };
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6 ${className}`} data-testid="cultivo-dispositivos">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <svg className="h-5 w-5 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" />
+        </svg>
+        Sensores conectados
+      </h2>
+
+      {/* API key recién generada: solo se muestra una vez */}
+      {apiKeyVisible && (
+        <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg" data-testid="cultivo-dispositivos-apikey">
+          <p className="text-sm font-medium text-amber-900">
+            API key de &quot;{apiKeyVisible.nombre}&quot;. Cópiala ahora: no se volverá a mostrar.
+          </p>
+          <code className="mt-2 block break-all rounded bg-white px-3 py-2 text-sm text-gray-900 border border-amber-200">
+            {apiKeyVisible.apiKey}
+          </code>
+          <p className="mt-2 text-xs text-amber-800">
+            Envía las lecturas a <code>POST /api/ingesta/lecturas</code> con el header <code>x-api-key</code>.
+          </p>
+          <button
+            onClick={() => setApiKeyVisible(null)}
+            className="mt-2 text-sm font-medium text-amber-900 hover:underline"
+            data-testid="cultivo-dispositivos-apikey-cerrar"
+          >
+            Ya la guardé
+          </button>
+        </div>
+      )}
+
+      {/* Formulario de registro */}
+      {!soloLectura && (
+        <form onSubmit={handleSubmit} className="mb-4 flex gap-2" data-testid="cultivo-dispositivos-form">
+          <input
+            type="text"
+            value={nombre}
+            onChange={(e) => setNombre(e.target.value)}
+            placeholder="Nombre del dispositivo (ej: ESP32 carpa 1)"
+            maxLength={100}
+            className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900"
+            data-testid="cultivo-dispositivos-nombre"
+          />
+          <button
+            type="submit"
+            disabled={guardando || !nombre.trim()}
+            className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors duration-200"
+            data-testid="cultivo-dispositivos-registrar"
+          >
+            {guardando ? 'Registrando...' : 'Registrar'}
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700" data-testid="cultivo-dispositivos-error">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500" data-testid="cultivo-dispositivos-loading">Cargando dispositivos...</p>
+      ) : dispositivos.length === 0 ? (
+        <p className="text-sm text-gray-600 text-center" data-testid="cultivo-dispositivos-empty">
+          No hay sensores registrados para este cultivo
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100" data-testid="cultivo-dispositivos-lista">
+          {dispositivos.map(dispositivo => (
+            <li key={dispositivo.id} className="py-3 flex flex-wrap items-center justify-between gap-2" data-testid={`cultivo-dispositivo-${dispositivo.id}`}>
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {dispositivo.nombre}
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${dispositivo.activo ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'}`}>
+                    {dispositivo.activo ? 'Activo' : 'Revocado'}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {dispositivo.prefijoApiKey}… · {dispositivo.totalLecturas ?? 0} lecturas
+                  {dispositivo.ultimaConexion && ` · última conexión ${formatearFechaCompleta(dispositivo.ultimaConexion)}`}
+                </p>
+              </div>
+              {!soloLectura && (
+                <div className="flex gap-2 text-sm">
+                  <button
+                    onClick={() => ejecutar(() => setDispositivoActivo(dispositivo.id, !dispositivo.activo, token || undefined))}
+                    className="text-gray-700 hover:text-gray-900"
+                    data-testid={`cultivo-dispositivo-toggle-${dispositivo.id}`}
+                  >
+                    {dispositivo.activo ? 'Revocar' : 'Reactivar'}
+                  </button>
+                  <button
+                    onClick={() => handleRotar(dispositivo)}
+                    className="text-indigo-600 hover:text-indigo-800"
+                    data-testid={`cultivo-dispositivo-rotar-${dispositivo.id}`}
+                  >
+                    Nueva clave
+                  </button>
+                  <button
+                    onClick={() => handleEliminar(dispositivo)}
+                    className="text-red-600 hover:text-red-800"
+                    data-testid={`cultivo-dispositivo-eliminar-${dispositivo.id}`}
+                  >
+                    Eliminar
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
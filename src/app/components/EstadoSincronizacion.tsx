@@ -0,0 +1,121 @@
+/**
+ * Aviso de modo sin conexión para la página de un cultivo
+ * Muestra si se está trabajando offline, cuántos cambios esperan sincronizarse
+ * y permite resolver los que el servidor rechazó o que entraron en conflicto
+ */
+
+'use client';
+
+import React from 'react';
+import type { MutacionOffline, ResumenSincronizacion } from '@/types/offline';
+import { useSincronizacionOffline } from '@/lib/hooks/useSincronizacionOffline';
+
+/**
+ * Props del componente EstadoSincronizacion
+ */
+interface Props {
+  /** ID del cultivo cuya cola se muestra */
+  cultivoId: string;
+  /** Se llama después de aplicar cambios en el servidor (para recargar datos) */
+  onSincronizado?: (resumen: ResumenSincronizacion) => void;
+  /** Clase CSS adicional */
+  className?: string;
+}
+
+/**
+ * Texto que explica por qué un cambio no se aplicó
+ */
+const describirProblema = (mutacion: MutacionOffline): string => {
+  if (mutacion.estado !== 'conflicto') {
+    return mutacion.error || 'El servidor rechazó el cambio';
+  }
+  if (mutacion.tipo === 'actualizar_tarea' && mutacion.versionServidor?.editadoPor) {
+    return `Se modificó mientras estabas sin conexión (por ${mutacion.versionServidor.editadoPor})`;
+  }
+  return 'Se modificó mientras estabas sin conexión';
+};
+
+/**
+ * Componente principal EstadoSincronizacion
+ * No se muestra nada si hay conexión y la cola está vacía
+ */
+export default function EstadoSincronizacion({ cultivoId, onSincronizado, className = '' }: Props) {
+  const {
+    enLinea,
+    pendientes,
+    conflictos,
+    sincronizando,
+    sincronizar,
+    resolverConflicto
+  } = useSincronizacionOffline(cultivoId, onSincronizado);
+
+  if (enLinea && pendientes === 0 && conflictos.length === 0) return null;
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-4 ${className}`} data-testid="estado-sincronizacion">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm">
+          <span className={`h-2.5 w-2.5 rounded-full ${enLinea ? 'bg-green-500' : 'bg-amber-500'}`} />
+          {enLinea ? (
+            <span className="text-gray-700">Conectado</span>
+          ) : (
+            <span className="text-amber-800" data-testid="estado-sincronizacion-offline">
+              Sin conexión: se muestran los últimos datos guardados en este dispositivo
+            </span>
+          )}
+          {pendientes > 0 && (
+            <span className="text-gray-600" data-testid="estado-sincronizacion-pendientes">
+              · {pendientes} {pendientes === 1 ? 'cambio pendiente' : 'cambios pendientes'}
+            </span>
+          )}
+        </div>
+
+        {enLinea && pendientes > 0 && (
+          <button
+            onClick={() => sincronizar()}
+            disabled={sincronizando}
+            className="px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors duration-200"
+            data-testid="estado-sincronizacion-sincronizar"
+          >
+            {sincronizando ? 'Sincronizando...' : 'Sincronizar ahora'}
+          </button>
+        )}
+      </div>
+
+      {conflictos.length > 0 && (
+        <ul className="mt-3 space-y-2" data-testid="estado-sincronizacion-conflictos">
+          {conflictos.map(mutacion => (
+            <li
+              key={mutacion.id}
+              className="flex flex-wrap items-center justify-between gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm"
+              data-testid={`estado-sincronizacion-conflicto-${mutacion.id}`}
+            >
+              <div>
+                <p className="font-medium text-gray-900">{mutacion.descripcion}</p>
+                <p className="text-red-700">{describirProblema(mutacion)}</p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => resolverConflicto(mutacion.id!, 'mantener_mios')}
+                  disabled={sincronizando}
+                  className="px-3 py-1.5 bg-white hover:bg-gray-50 disabled:opacity-50 text-gray-700 border border-gray-300 text-xs font-medium rounded-lg"
+                  data-testid="estado-sincronizacion-mantener"
+                >
+                  {mutacion.estado === 'conflicto' ? 'Aplicar mis cambios' : 'Reintentar'}
+                </button>
+                <button
+                  onClick={() => resolverConflicto(mutacion.id!, 'descartar')}
+                  disabled={sincronizando}
+                  className="px-3 py-1.5 bg-white hover:bg-red-100 disabled:opacity-50 text-red-700 border border-red-200 text-xs font-medium rounded-lg"
+                  data-testid="estado-sincronizacion-descartar"
+                >
+                  Descartar
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
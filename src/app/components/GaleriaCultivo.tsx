@@ -6,11 +6,15 @@
 
 'use client';
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import Image from 'next/image';
 import type { Cultivo, ImagenCultivo } from '@/types/cultivo';
+import type { Planta } from '@/types/planta';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import { listarPlantas } from '@/lib/services/plantas';
 import imageCompression from 'browser-image-compression';
 import { subirImagenGaleria } from '../../lib/services/galeria';
+import { esErrorDeRed, encolarMutacion } from '../../lib/services/offline';
 import { formatearFechaCorta } from '@/lib/utils/date';
 
 /**
@@ -23,6 +27,8 @@ interface GaleriaCultivoProps {
   onActualizarCultivo: (cultivo: Cultivo) => void;
   /** Clase CSS adicional para el contenedor */
   className?: string;
+  /** Oculta los controles para subir, editar y eliminar imágenes */
+  soloLectura?: boolean;
 }
 
 /**
@@ -43,15 +49,19 @@ interface ArchivoSubida {
 const GaleriaCultivo: React.FC<GaleriaCultivoProps> = ({
   cultivo,
   onActualizarCultivo,
-  className = ''
+  className = '',
+  soloLectura = false
 }) => {
   // Estados locales
   const [imagenSeleccionada, setImagenSeleccionada] = useState<ImagenCultivo | null>(null);
   const [archivosSubiendo, setArchivosSubiendo] = useState<ArchivoSubida[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [fotosEnCola, setFotosEnCola] = useState(0);
   const [mostrarVistaDetalle, setMostrarVistaDetalle] = useState(false);
   const [modoEdicion, setModoEdicion] = useState(false);
   const [descripcionTemporal, setDescripcionTemporal] = useState('');
+  const [plantas, setPlantas] = useState<Planta[]>([]);
+  const { token } = useAuth();
 
   // Referencias
   const inputFileRef = useRef<HTMLInputElement>(null);
@@ -59,6 +69,17 @@ const GaleriaCultivo: React.FC<GaleriaCultivoProps> = ({
   // Obtener imágenes de la galería del cultivo
   const imagenes = cultivo.galeria || [];
 
+  // Plantas del cultivo para asociar cada foto a una planta individual
+  useEffect(() => {
+    const controller = new AbortController();
+    listarPlantas(cultivo.id, controller.signal, token || undefined)
+      .then(setPlantas)
+      .catch(() => {
+        // Sin plantas registradas la galería funciona igual
+      });
+    return () => controller.abort();
+  }, [cultivo.id, token]);
+
   /**
    * Genera un ID único para nuevas imágenes
    */
@@ -113,6 +134,7 @@ const GaleriaCultivo: React.FC<GaleriaCultivoProps> = ({
     if (!files || files.length === 0) return;
 
     setError(null);
+    setFotosEnCola(0);
 
     // Validar archivos
     const archivosValidos: ArchivoSubida[] = [];
@@ -177,6 +199,18 @@ const GaleriaCultivo: React.FC<GaleriaCultivoProps> = ({
           // Solo enviar la información de la galería, no las imágenes completas
           onActualizarCultivo(cultivoActualizado);
         } catch (error) {
+          // Sin conexión: la foto se guarda en el dispositivo y se sube al recuperar la señal
+          if (esErrorDeRed(error)) {
+            await encolarMutacion({
+              tipo: 'subir_imagen',
+              cultivoId: cultivo.id,
+              descripcion: `Foto: ${archivo.file.name}`,
+              archivo: archivo.file,
+              nombreArchivo: archivo.file.name
+            });
+            setFotosEnCola(prev => prev + 1);
+            continue;
+          }
           setError(`Error al subir ${archivo.file.name}: ${error instanceof Error ? error.message : 'Error desconocido'}`);
         }
       }
@@ -240,6 +274,26 @@ const GaleriaCultivo: React.FC<GaleriaCultivoProps> = ({
     }
   };
 
+  /**
+   * Asocia una imagen a una planta del cultivo (o la deja a nivel cultivo)
+   */
+  const handleAsignarPlanta = (imagenId: string, plantaId: string) => {
+    const galeriaActualizada = imagenes.map(img =>
+      img.id === imagenId
+        ? { ...img, plantaId: plantaId || undefined }
+        : img
+    );
+
+    onActualizarCultivo({
+      ...cultivo,
+      galeria: galeriaActualizada,
+    });
+
+    if (imagenSeleccionada?.id === imagenId) {
+      setImagenSeleccionada({ ...imagenSeleccionada, plantaId: plantaId || undefined });
+    }
+  };
+
   /**
    * Abre la vista detalle de una imagen
    */
@@ -307,20 +361,28 @@ const GaleriaCultivo: React.FC<GaleriaCultivoProps> = ({
           </div>
 
           {/* Botón para agregar imágenes */}
-          <button
-            onClick={() => inputFileRef.current?.click()}
-            disabled={archivosSubiendo.length > 0}
-            className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            Agregar Imágenes
-          </button>
+          {!soloLectura && (
+            <button
+              onClick={() => inputFileRef.current?.click()}
+              disabled={archivosSubiendo.length > 0}
+              className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Agregar Imágenes
+            </button>
+          )}
         </div>
       </div>
 
       {/* Mostrar error si existe */}
+      {fotosEnCola > 0 && (
+        <div className="mx-6 mt-6 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800" data-testid="galeria-fotos-en-cola">
+          Sin conexión: {fotosEnCola === 1 ? 'la foto se guardó' : `${fotosEnCola} fotos se guardaron`} en este dispositivo y se {fotosEnCola === 1 ? 'subirá' : 'subirán'} al recuperar la señal.
+        </div>
+      )}
+
       {error && (
         <div className="mx-6 mt-6 p-4 bg-red-50 border border-red-200 rounded-lg">
           <div className="flex items-center gap-2 text-red-700 text-sm">
@@ -342,9 +404,11 @@ const GaleriaCultivo: React.FC<GaleriaCultivoProps> = ({
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
             </svg>
             <p className="text-gray-500 font-medium">No hay imágenes en la galería</p>
-            <p className="text-gray-400 text-sm mt-1">
-              Haz clic en &quot;Agregar Imágenes&quot; para comenzar a documentar tu cultivo
-            </p>
+            {!soloLectura && (
+              <p className="text-gray-400 text-sm mt-1">
+                Haz clic en &quot;Agregar Imágenes&quot; para comenzar a documentar tu cultivo
+              </p>
+            )}
           </div>
         ) : (
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
@@ -361,6 +425,11 @@ const GaleriaCultivo: React.FC<GaleriaCultivoProps> = ({
                     className="object-cover"
                     unoptimized={true}
                   />
+                  {imagen.plantaId && plantas.some(p => p.id === imagen.plantaId) && (
+                    <span className="absolute left-1 top-1 rounded bg-green-600/90 px-1.5 py-0.5 text-[10px] font-semibold text-white">
+                      {plantas.find(p => p.id === imagen.plantaId)?.etiqueta}
+                    </span>
+                  )}
                 </div>
 
                 {/* Overlay con acciones */}
@@ -378,18 +447,20 @@ const GaleriaCultivo: React.FC<GaleriaCultivoProps> = ({
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
                     </svg>
                   </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleEliminarImagen(imagen.id);
-                    }}
-                    className="p-2 bg-red-500/80 text-white rounded-lg hover:bg-red-600 transition-colors"
-                    title="Eliminar imagen"
-                  >
-                    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                    </svg>
-                  </button>
+                  {!soloLectura && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleEliminarImagen(imagen.id);
+                      }}
+                      className="p-2 bg-red-500/80 text-white rounded-lg hover:bg-red-600 transition-colors"
+                      title="Eliminar imagen"
+                    >
+                      <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  )}
                 </div>
 
                 {/* Nombre de la imagen */}
@@ -453,7 +524,9 @@ const GaleriaCultivo: React.FC<GaleriaCultivoProps> = ({
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Descripción
                   </label>
-                  {modoEdicion ? (
+                  {soloLectura ? (
+                    <p className="text-gray-900">{imagenSeleccionada.descripcion || 'Sin descripción'}</p>
+                  ) : modoEdicion ? (
                     <div className="space-y-3">
                       <textarea
                         value={descripcionTemporal}
@@ -492,6 +565,27 @@ const GaleriaCultivo: React.FC<GaleriaCultivoProps> = ({
                   )}
                 </div>
 
+                {/* Planta fotografiada */}
+                {plantas.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Planta
+                    </label>
+                    <select
+                      value={imagenSeleccionada.plantaId || ''}
+                      onChange={(e) => handleAsignarPlanta(imagenSeleccionada.id, e.target.value)}
+                      disabled={soloLectura}
+                      className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                      data-testid="galeria-imagen-planta"
+                    >
+                      <option value="">Todo el cultivo</option>
+                      {plantas.map(planta => (
+                        <option key={planta.id} value={planta.id}>{planta.etiqueta}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 {/* Metadatos */}
                 <div className="space-y-3 text-sm">
                   <div className="flex justify-between">
@@ -521,17 +615,19 @@ const GaleriaCultivo: React.FC<GaleriaCultivoProps> = ({
                 </div>
 
                 {/* Acciones */}
-                <div className="pt-4 border-t border-gray-200">
-                  <button
-                    onClick={() => handleEliminarImagen(imagenSeleccionada.id)}
-                    className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white font-medium rounded-lg transition-colors duration-200"
-                  >
-                    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                    </svg>
-                    Eliminar Imagen
-                  </button>
-                </div>
+                {!soloLectura && (
+                  <div className="pt-4 border-t border-gray-200">
+                    <button
+                      onClick={() => handleEliminarImagen(imagenSeleccionada.id)}
+                      className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white font-medium rounded-lg transition-colors duration-200"
+                    >
+                      <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                      Eliminar Imagen
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -6,9 +6,11 @@
 
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { usePlanificacion } from '@/lib/hooks/usePlanificacion';
 import { useAuth } from '@/lib/auth/AuthProvider';
+import { listarPlantas } from '@/lib/services/plantas';
+import type { Planta } from '@/types/planta';
 import type {
   TareaCultivo,
   TareaCreacion,
@@ -113,7 +115,7 @@ export default function GestionTareasCultivo({
   const [busqueda, setBusqueda] = useState('');
 
   // Hook de autenticación para permisos
-  const { canCreateTarea, canDeleteTarea, canEditRecursos } = useAuth();
+  const { canCreateTarea, canDeleteTarea, canEditRecursos, token } = useAuth();
   const [filtroTipo, setFiltroTipo] = useState<TipoTarea | 'todos'>('todos');
   const [filtroEstado, setFiltroEstado] = useState<EstadoTarea | 'todos'>('todos');
   const [filtroPrioridad, setFiltroPrioridad] = useState<PrioridadTarea | 'todos'>('todos');
@@ -136,6 +138,19 @@ export default function GestionTareasCultivo({
     _order: 'asc'
   });
 
+  // Plantas del cultivo para asociar tareas a una planta individual
+  const [plantas, setPlantas] = useState<Planta[]>([]);
+  useEffect(() => {
+    if (!cultivoId) return;
+    const controller = new AbortController();
+    listarPlantas(cultivoId, controller.signal, token || undefined)
+      .then(setPlantas)
+      .catch(() => {
+        // Sin plantas registradas las tareas quedan a nivel cultivo
+      });
+    return () => controller.abort();
+  }, [cultivoId, token]);
+
   /**
    * Filtra tareas según los criterios de búsqueda y filtros
    */
@@ -283,6 +298,11 @@ export default function GestionTareasCultivo({
           <div className="flex-1">
             <div className="flex items-center gap-2 mb-2">
               <h4 className="font-semibold text-gray-900">{tarea.titulo}</h4>
+              {tarea.plantaId && plantas.some(p => p.id === tarea.plantaId) && (
+                <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800" data-testid="tarea-planta">
+                  🌱 {plantas.find(p => p.id === tarea.plantaId)?.etiqueta}
+                </span>
+              )}
               <span className={`px-2 py-1 text-xs rounded-full ${colores.bg} ${colores.text} ${colores.border}`}>
                 {NOMBRES_TIPOS[tarea.tipo]}
               </span>
@@ -426,8 +446,12 @@ export default function GestionTareasCultivo({
                 e.preventDefault();
                 const formData = new FormData(e.currentTarget);
 
+                // Al editar, '' quita la planta asociada
+                const plantaId = formData.get('plantaId') as string | null;
+
                 const datos: TareaCreacion = {
                   cultivoId: cultivoId || '',
+                  plantaId: tareaEditando ? plantaId ?? undefined : plantaId || undefined,
                   titulo: formData.get('titulo') as string,
                   descripcion: formData.get('descripcion') as string,
                   tipo: formData.get('tipo') as TipoTarea,
@@ -480,6 +504,25 @@ export default function GestionTareasCultivo({
                 </div>
               </div>
 
+              {plantas.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Planta
+                  </label>
+                  <select
+                    name="plantaId"
+                    defaultValue={tareaEditando?.plantaId || ''}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                    data-testid="tarea-form-planta"
+                  >
+                    <option value="">Todo el cultivo</option>
+                    {plantas.map(planta => (
+                      <option key={planta.id} value={planta.id}>{planta.etiqueta}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Descripción
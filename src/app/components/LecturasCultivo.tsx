@@ -0,0 +1,281 @@
+/**
+ * Componente para registro y visualización de lecturas ambientales
+ * Muestra los valores medidos junto a los objetivos del cultivo y permite
+ * cargar nuevas lecturas manuales (temperatura, humedad, EC, pH, agua)
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Cultivo } from '@/types/cultivo';
+import type { Lectura, AgregadoDiarioLecturas, VariableLectura, LecturaCreacion } from '@/types/lectura';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import {
+  listLecturas,
+  getAgregadosDiarios,
+  createLectura,
+  getObjetivoVariable,
+  getUltimosValores
+} from '@/lib/services/lecturas';
+import { formatearFechaCompleta, formatearFechaCorta } from '@/lib/utils/date';
+
+/**
+ * Props del componente LecturasCultivo
+ */
+interface Props {
+  /** Cultivo cuyos objetivos se comparan con las lecturas */
+  cultivo: Cultivo;
+  /** Oculta el registro de lecturas manuales */
+  soloLectura?: boolean;
+  /** Clase CSS adicional */
+  className?: string;
+}
+
+/**
+ * Configuración visual de cada variable medida
+ */
+const VARIABLES: { clave: VariableLectura; etiqueta: string; unidad: string; paso: string }[] = [
+  { clave: 'temperatura', etiqueta: 'Temperatura', unidad: '°C', paso: '0.1' },
+  { clave: 'humedad', etiqueta: 'Humedad', unidad: '%', paso: '1' },
+  { clave: 'ec', etiqueta: 'EC', unidad: 'ppm', paso: '1' },
+  { clave: 'ph', etiqueta: 'pH', unidad: '', paso: '0.1' },
+  { clave: 'volumenAgua', etiqueta: 'Agua', unidad: 'L', paso: '0.1' }
+];
+
+/**
+ * Tolerancia relativa para considerar un valor dentro del objetivo
+ */
+const TOLERANCIA = 0.1;
+
+/**
+ * Clases de color según la desviación respecto al objetivo
+ */
+function claseDesviacion(valor?: number, objetivo?: number): string {
+  if (valor === undefined || objetivo === undefined || objetivo === 0) {
+    return 'bg-gray-50 border-gray-200 text-gray-900';
+  }
+  const desviacion = Math.abs(valor - objetivo) / objetivo;
+  if (desviacion <= TOLERANCIA) return 'bg-green-50 border-green-200 text-green-900';
+  if (desviacion <= TOLERANCIA * 2) return 'bg-yellow-50 border-yellow-200 text-yellow-900';
+  return 'bg-red-50 border-red-200 text-red-900';
+}
+
+/**
+ * Componente principal LecturasCultivo
+ */
+export default function LecturasCultivo({ cultivo, soloLectura = false, className = '' }: Props) {
+  const { token } = useAuth();
+
+  // Estados de datos
+  const [lecturas, setLecturas] = useState<Lectura[]>([]);
+  const [agregados, setAgregados] = useState<AgregadoDiarioLecturas[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Estados del formulario
+  const [mostrarFormulario, setMostrarFormulario] = useState(false);
+  const [valores, setValores] = useState<Partial<Record<VariableLectura, string>>>({});
+  const [guardando, setGuardando] = useState(false);
+
+  /**
+   * Carga las últimas lecturas y los agregados de los últimos 7 días
+   */
+  const cargarLecturas = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const hace7Dias = new Date();
+      hace7Dias.setDate(hace7Dias.getDate() - 6);
+      const desde = hace7Dias.toISOString().split('T')[0];
+
+      const [ultimas, diarios] = await Promise.all([
+        listLecturas(cultivo.id, { _limit: 50 }, signal, token || undefined),
+        getAgregadosDiarios(cultivo.id, { desde }, signal, token || undefined)
+      ]);
+
+      if (!signal?.aborted) {
+        setLecturas(ultimas);
+        setAgregados(diarios);
+      }
+    } catch (e) {
+      const err = e as Error;
+      if (err?.name !== 'AbortError' && !signal?.aborted) {
+        setError(err?.message ?? 'Error al cargar lecturas');
+      }
+    } finally {
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
+    }
+  }, [cultivo.id, token]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    cargarLecturas(controller.signal);
+    return () => controller.abort();
+  }, [cargarLecturas]);
+
+  /**
+   * Registra una nueva lectura manual
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const lectura: LecturaCreacion = {};
+    for (const { clave } of VARIABLES) {
+      const valor = valores[clave];
+      if (valor !== undefined && valor.trim() !== '') {
+        lectura[clave] = parseFloat(valor);
+      }
+    }
+
+    if (Object.keys(lectura).length === 0) {
+      setError('Ingresa al menos una medición');
+      return;
+    }
+
+    setGuardando(true);
+    setError(null);
+
+    try {
+      await createLectura(cultivo.id, lectura, token || undefined);
+      setValores({});
+      setMostrarFormulario(false);
+      await cargarLecturas();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al registrar la lectura');
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  const ultimos = getUltimosValores(lecturas);
+  const hoy = new Date().toISOString().split('T')[0];
+  const agregadoHoy = agregados.find(a => a.fecha === hoy);
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6 ${className}`} data-testid="cultivo-lecturas">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <svg className="h-5 w-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+          </svg>
+          Medido vs Objetivo
+        </h2>
+        {!soloLectura && (
+          <button
+            onClick={() => setMostrarFormulario(!mostrarFormulario)}
+            data-testid="cultivo-lecturas-nueva"
+            className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors duration-200"
+          >
+            {mostrarFormulario ? 'Cancelar' : 'Registrar lectura'}
+          </button>
+        )}
+      </div>
+
+      {/* Formulario de nueva lectura */}
+      {mostrarFormulario && !soloLectura && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-200" data-testid="cultivo-lecturas-form">
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-5">
+            {VARIABLES.map(({ clave, etiqueta, unidad, paso }) => (
+              <label key={clave} className="grid gap-1 text-sm font-medium text-blue-900">
+                {etiqueta}{unidad && ` (${unidad})`}
+                <input
+                  type="number"
+                  step={paso}
+                  value={valores[clave] ?? ''}
+                  onChange={(e) => setValores(v => ({ ...v, [clave]: e.target.value }))}
+                  className="rounded-lg border border-blue-200 bg-white px-3 py-2 text-gray-900"
+                  data-testid={`cultivo-lecturas-input-${clave}`}
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={guardando}
+            className="mt-4 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors duration-200"
+            data-testid="cultivo-lecturas-guardar"
+          >
+            {guardando ? 'Guardando...' : 'Guardar lectura'}
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700" data-testid="cultivo-lecturas-error">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500" data-testid="cultivo-lecturas-loading">Cargando lecturas...</p>
+      ) : (
+        <>
+          {/* Comparación de la última medición con el objetivo de la fase actual */}
+          <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-5" data-testid="cultivo-lecturas-comparacion">
+            {VARIABLES.map(({ clave, etiqueta, unidad }) => {
+              const objetivo = getObjetivoVariable(cultivo, clave);
+              const ultimo = ultimos[clave];
+              // El agua se compara contra el total del día, el resto contra la última medición
+              const medido = clave === 'volumenAgua' ? agregadoHoy?.volumenAguaTotal : ultimo?.valor;
+
+              return (
+                <div key={clave} className={`p-3 rounded-lg border ${claseDesviacion(medido, objetivo)}`} data-testid={`cultivo-lecturas-${clave}`}>
+                  <dt className="text-sm font-medium">{etiqueta}</dt>
+                  <dd className="text-xl font-semibold">
+                    {medido !== undefined ? `${medido}${unidad && ` ${unidad}`}` : '—'}
+                  </dd>
+                  <p className="text-xs opacity-80">
+                    Objetivo: {objetivo !== undefined ? `${objetivo}${unidad && ` ${unidad}`}` : 'sin definir'}
+                  </p>
+                  {ultimo && clave !== 'volumenAgua' && (
+                    <p className="text-xs opacity-60">{formatearFechaCompleta(ultimo.fecha)}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Promedios diarios de la última semana */}
+          {agregados.length > 0 ? (
+            <div className="mt-6 overflow-x-auto" data-testid="cultivo-lecturas-agregados">
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Promedios diarios (últimos 7 días)</h3>
+              <table className="w-full text-sm text-left">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="py-1 pr-4">Día</th>
+                    <th className="py-1 pr-4">Temp.</th>
+                    <th className="py-1 pr-4">Humedad</th>
+                    <th className="py-1 pr-4">EC</th>
+                    <th className="py-1 pr-4">pH</th>
+                    <th className="py-1 pr-4">Agua</th>
+                    <th className="py-1">Lecturas</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-900">
+                  {agregados.map(agregado => (
+                    <tr key={agregado.fecha} className="border-t border-gray-100">
+                      <td className="py-1 pr-4">{formatearFechaCorta(agregado.fecha)}</td>
+                      <td className="py-1 pr-4">{agregado.temperatura?.promedio ?? '—'}</td>
+                      <td className="py-1 pr-4">{agregado.humedad?.promedio ?? '—'}</td>
+                      <td className="py-1 pr-4">{agregado.ec?.promedio ?? '—'}</td>
+                      <td className="py-1 pr-4">{agregado.ph?.promedio ?? '—'}</td>
+                      <td className="py-1 pr-4">{agregado.volumenAguaTotal ?? '—'}</td>
+                      <td className="py-1">{agregado.totalLecturas}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="mt-4 text-sm text-gray-600 text-center" data-testid="cultivo-lecturas-empty">
+              Todavía no hay lecturas registradas para este cultivo
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
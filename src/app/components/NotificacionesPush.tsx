@@ -0,0 +1,139 @@
+/**
+ * Componente para activar las notificaciones push en este navegador
+ * Recibe recordatorios de tareas, tareas vencidas y comentarios críticos
+ * aunque la app esté cerrada (requiere la PWA o un navegador compatible)
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { EstadoPush } from '@/types/notificacion';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import {
+  getEstadoPush,
+  soportaPush,
+  activarNotificacionesPush,
+  desactivarNotificacionesPush,
+  getEndpointPushActual
+} from '@/lib/services/notificaciones';
+
+/**
+ * Props del componente NotificacionesPush
+ */
+interface Props {
+  /** Clase CSS adicional */
+  className?: string;
+}
+
+/**
+ * Componente principal NotificacionesPush
+ */
+export default function NotificacionesPush({ className = '' }: Props) {
+  const { token } = useAuth();
+
+  const [estado, setEstado] = useState<EstadoPush | null>(null);
+  const [suscritoAqui, setSuscritoAqui] = useState(false);
+  const [soportado, setSoportado] = useState(true);
+  const [procesando, setProcesando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Carga el estado del servidor y la suscripción de este navegador
+   */
+  const cargarEstado = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setError(null);
+      setSoportado(soportaPush());
+      const [data, endpoint] = await Promise.all([
+        getEstadoPush(signal, token || undefined),
+        getEndpointPushActual()
+      ]);
+      if (signal?.aborted) return;
+      setEstado(data);
+      setSuscritoAqui(Boolean(endpoint && data.suscripciones.some(s => s.endpoint === endpoint)));
+    } catch (e) {
+      const err = e as Error;
+      if (err?.name !== 'AbortError' && !signal?.aborted) {
+        setError(err?.message ?? 'Error al cargar las notificaciones push');
+      }
+    }
+  }, [token]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    cargarEstado(controller.signal);
+    return () => controller.abort();
+  }, [cargarEstado]);
+
+  /**
+   * Activa o desactiva el push en este navegador
+   */
+  const handleAlternar = async () => {
+    if (!estado?.clavePublica) return;
+    setProcesando(true);
+    setError(null);
+    try {
+      if (suscritoAqui) {
+        await desactivarNotificacionesPush(token || undefined);
+      } else {
+        await activarNotificacionesPush(estado.clavePublica, token || undefined);
+      }
+      await cargarEstado();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cambiar las notificaciones push');
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  const otrosDispositivos = estado ? estado.suscripciones.length - (suscritoAqui ? 1 : 0) : 0;
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6 ${className}`} data-testid="notificaciones-push">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-4">
+        <svg className="h-5 w-5 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        Notificaciones push
+      </h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700" data-testid="notificaciones-push-error">
+          {error}
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600 mb-3">
+        Recibe recordatorios de tareas, tareas vencidas y comentarios críticos en este dispositivo, aunque la app esté cerrada.
+      </p>
+
+      {!soportado ? (
+        <p className="text-sm text-amber-700" data-testid="notificaciones-push-no-soportado">
+          Este navegador no soporta notificaciones push. En iOS, instala la app en la pantalla de inicio.
+        </p>
+      ) : estado && !estado.configurado ? (
+        <p className="text-sm text-gray-500" data-testid="notificaciones-push-no-configurado">
+          Las notificaciones push no están disponibles en este servidor.
+        </p>
+      ) : (
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleAlternar}
+            disabled={procesando || estado === null}
+            className={`px-3 py-2 disabled:opacity-50 text-sm font-medium rounded-lg transition-colors duration-200 ${suscritoAqui
+              ? 'bg-white hover:bg-red-50 text-red-700 border border-red-200'
+              : 'bg-amber-600 hover:bg-amber-700 text-white'}`}
+            data-testid="notificaciones-push-alternar"
+          >
+            {suscritoAqui ? 'Desactivar en este dispositivo' : 'Activar en este dispositivo'}
+          </button>
+          {otrosDispositivos > 0 && (
+            <span className="text-xs text-gray-500" data-testid="notificaciones-push-otros">
+              Activas en {otrosDispositivos} {otrosDispositivos === 1 ? 'dispositivo más' : 'dispositivos más'}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,560 @@
+/**
+ * Componente de seguimiento individual de plantas
+ * Muestra la grilla del espacio de cultivo con cada planta según su posición y estado,
+ * y el detalle de la planta seleccionada: datos de fenotipo, etiqueta para imprimir,
+ * y las tareas, comentarios y fotos asociadas a ella
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Image from 'next/image';
+import type { Cultivo } from '@/types/cultivo';
+import type { Planta, EstadoPlanta } from '@/types/planta';
+import type { TareaCultivo } from '@/types/planificacion';
+import type { ComentarioCultivo } from '@/types/chat';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import {
+  listarPlantas,
+  crearPlanta,
+  generarPlantas,
+  actualizarPlanta,
+  eliminarPlanta
+} from '@/lib/services/plantas';
+import { listTareas } from '@/lib/services/planificacion';
+import { obtenerComentarios } from '@/lib/services/comentarios';
+import { armarGrilla, ETIQUETAS_ESTADO_PLANTA, MAX_PLANTAS_POR_CULTIVO } from '@/lib/utils/plantas';
+
+/**
+ * Props del componente PlantasCultivo
+ */
+interface Props {
+  /** Cultivo al que pertenecen las plantas */
+  cultivo: Cultivo;
+  /** Muestra las plantas sin permitir registrarlas, editarlas ni eliminarlas */
+  soloLectura?: boolean;
+  /** Clase CSS adicional */
+  className?: string;
+}
+
+/**
+ * Valores del formulario de planta (los números se editan como texto)
+ */
+interface FormularioPlanta {
+  etiqueta: string;
+  genetica: string;
+  notasFenotipo: string;
+  fila: string;
+  columna: string;
+  estado: EstadoPlanta;
+}
+
+const FORMULARIO_VACIO: FormularioPlanta = {
+  etiqueta: '',
+  genetica: '',
+  notasFenotipo: '',
+  fila: '',
+  columna: '',
+  estado: 'viva'
+};
+
+const COLORES_ESTADO: Record<EstadoPlanta, string> = {
+  viva: 'bg-green-100 border-green-300 text-green-900',
+  madre: 'bg-purple-100 border-purple-300 text-purple-900',
+  descartada: 'bg-gray-100 border-gray-300 text-gray-400 line-through'
+};
+
+/**
+ * Convierte una planta en valores del formulario
+ */
+const aFormulario = (planta: Planta): FormularioPlanta => ({
+  etiqueta: planta.etiqueta,
+  genetica: planta.genetica || '',
+  notasFenotipo: planta.notasFenotipo || '',
+  fila: planta.posicion ? String(planta.posicion.fila) : '',
+  columna: planta.posicion ? String(planta.posicion.columna) : '',
+  estado: planta.estado
+});
+
+export default function PlantasCultivo({ cultivo, soloLectura = false, className = '' }: Props) {
+  const { token } = useAuth();
+  const [plantas, setPlantas] = useState<Planta[]>([]);
+  const [cargando, setCargando] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [guardando, setGuardando] = useState(false);
+
+  // Planta seleccionada en la grilla (null = ninguna, 'nueva' = formulario de alta)
+  const [seleccion, setSeleccion] = useState<string | 'nueva' | null>(null);
+  const [formulario, setFormulario] = useState<FormularioPlanta>(FORMULARIO_VACIO);
+  const [cantidadGenerar, setCantidadGenerar] = useState('');
+
+  // Registros asociados a la planta seleccionada
+  const [tareas, setTareas] = useState<TareaCultivo[]>([]);
+  const [comentarios, setComentarios] = useState<ComentarioCultivo[]>([]);
+
+  const plantaSeleccionada = plantas.find(p => p.id === seleccion) || null;
+  const { filas, sinPosicion } = useMemo(() => armarGrilla(plantas), [plantas]);
+  const fotos = (cultivo.galeria || []).filter(img => plantaSeleccionada && img.plantaId === plantaSeleccionada.id);
+
+  /**
+   * Carga las plantas del cultivo
+   * Con ?planta=CODIGO en la URL (etiqueta escaneada) se selecciona esa planta
+   */
+  const cargarPlantas = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setCargando(true);
+      setError(null);
+      const data = await listarPlantas(cultivo.id, signal, token || undefined);
+      if (signal?.aborted) return;
+      setPlantas(data);
+
+      const codigo = new URLSearchParams(window.location.search).get('planta');
+      const escaneada = codigo ? data.find(p => p.codigo === codigo) : undefined;
+      if (escaneada) {
+        setSeleccion(escaneada.id);
+        setFormulario(aFormulario(escaneada));
+      }
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') return;
+      setError(err instanceof Error ? err.message : 'No se pudieron cargar las plantas');
+    } finally {
+      if (!signal?.aborted) setCargando(false);
+    }
+  }, [cultivo.id, token]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    cargarPlantas(controller.signal);
+    return () => controller.abort();
+  }, [cargarPlantas]);
+
+  // Cargar tareas y comentarios de la planta seleccionada
+  const plantaId = plantaSeleccionada?.id;
+  useEffect(() => {
+    setTareas([]);
+    setComentarios([]);
+    if (!plantaId) return;
+
+    const controller = new AbortController();
+    Promise.all([
+      listTareas({ cultivoId: cultivo.id, plantaId, _sort: 'fechaProgramada', _order: 'asc' }, controller.signal, token || undefined),
+      obtenerComentarios({ cultivoId: cultivo.id, plantaId, _sort: 'fecha', _order: 'desc' }, controller.signal)
+    ])
+      .then(([tareasPlanta, comentariosPlanta]) => {
+        if (controller.signal.aborted) return;
+        setTareas(tareasPlanta);
+        setComentarios(comentariosPlanta);
+      })
+      .catch(() => {
+        // Los registros asociados son informativos: si fallan, el detalle se muestra igual
+      });
+    return () => controller.abort();
+  }, [cultivo.id, plantaId, token]);
+
+  const seleccionar = (planta: Planta) => {
+    setSeleccion(planta.id);
+    setFormulario(aFormulario(planta));
+  };
+
+  const nuevaPlanta = (fila?: number, columna?: number) => {
+    setSeleccion('nueva');
+    setFormulario({
+      ...FORMULARIO_VACIO,
+      genetica: cultivo.genetica || '',
+      fila: fila ? String(fila) : '',
+      columna: columna ? String(columna) : ''
+    });
+  };
+
+  const cerrarDetalle = () => {
+    setSeleccion(null);
+    setFormulario(FORMULARIO_VACIO);
+  };
+
+  const handleGenerar = async () => {
+    const cantidad = parseInt(cantidadGenerar, 10);
+    if (!cantidad || cantidad < 1) return;
+    try {
+      setGuardando(true);
+      setError(null);
+      const creadas = await generarPlantas(cultivo.id, cantidad, token || undefined);
+      setPlantas(prev => [...prev, ...creadas]);
+      setCantidadGenerar('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudieron generar las plantas');
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  const handleGuardar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const fila = parseInt(formulario.fila, 10);
+    const columna = parseInt(formulario.columna, 10);
+    const posicion = fila && columna ? { fila, columna } : null;
+
+    try {
+      setGuardando(true);
+      setError(null);
+      if (seleccion === 'nueva') {
+        const creada = await crearPlanta(cultivo.id, {
+          etiqueta: formulario.etiqueta.trim() || undefined,
+          genetica: formulario.genetica.trim() || undefined,
+          notasFenotipo: formulario.notasFenotipo.trim() || undefined,
+          posicion: posicion || undefined,
+          estado: formulario.estado
+        }, token || undefined);
+        setPlantas(prev => [...prev, creada]);
+        seleccionar(creada);
+      } else if (plantaSeleccionada) {
+        const actualizada = await actualizarPlanta(cultivo.id, plantaSeleccionada.id, {
+          etiqueta: formulario.etiqueta.trim(),
+          genetica: formulario.genetica.trim(),
+          notasFenotipo: formulario.notasFenotipo.trim(),
+          posicion,
+          estado: formulario.estado
+        }, token || undefined);
+        setPlantas(prev => prev.map(p => p.id === actualizada.id ? actualizada : p));
+        setFormulario(aFormulario(actualizada));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo guardar la planta');
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  const handleEliminar = async () => {
+    if (!plantaSeleccionada) return;
+    if (!confirm(`¿Eliminar la planta ${plantaSeleccionada.etiqueta}? Sus tareas, comentarios y fotos se conservan en el cultivo.`)) return;
+    try {
+      await eliminarPlanta(cultivo.id, plantaSeleccionada.id, token || undefined);
+      setPlantas(prev => prev.filter(p => p.id !== plantaSeleccionada.id));
+      cerrarDetalle();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo eliminar la planta');
+    }
+  };
+
+  /**
+   * Abre la etiqueta de la planta lista para imprimir
+   * El enlace abre el cultivo con la planta seleccionada (para codificar como QR)
+   */
+  const handleImprimirEtiqueta = () => {
+    if (!plantaSeleccionada) return;
+    const enlace = `${window.location.origin}/cultivo/${cultivo.id}?planta=${plantaSeleccionada.codigo}`;
+    const ventana = window.open('', '_blank', 'width=400,height=300');
+    if (!ventana) return;
+    ventana.document.title = `Etiqueta ${plantaSeleccionada.etiqueta}`;
+    ventana.document.body.style.fontFamily = 'sans-serif';
+    ventana.document.body.style.textAlign = 'center';
+    ventana.document.body.innerHTML = '<h1></h1><h2></h2><p></p><small></small>';
+    ventana.document.querySelector('h1')!.textContent = plantaSeleccionada.etiqueta;
+    ventana.document.querySelector('h2')!.textContent = plantaSeleccionada.codigo;
+    ventana.document.querySelector('p')!.textContent = `${cultivo.nombre}${plantaSeleccionada.genetica ? ` · ${plantaSeleccionada.genetica}` : ''}`;
+    ventana.document.querySelector('small')!.textContent = enlace;
+    ventana.print();
+  };
+
+  const faltantes = Math.max(0, (cultivo.numeroplantas || 0) - plantas.length);
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6 space-y-4 ${className}`} data-testid="plantas-cultivo">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <span>🌱</span> Plantas
+          {plantas.length > 0 && <span className="text-sm font-normal text-gray-500">({plantas.length})</span>}
+        </h2>
+        {!soloLectura && (
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={MAX_PLANTAS_POR_CULTIVO}
+              value={cantidadGenerar}
+              placeholder={faltantes > 0 ? String(faltantes) : 'Cantidad'}
+              onChange={e => setCantidadGenerar(e.target.value)}
+              onFocus={() => { if (!cantidadGenerar && faltantes > 0) setCantidadGenerar(String(faltantes)); }}
+              className="w-24 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+              data-testid="plantas-generar-cantidad"
+            />
+            <button
+              type="button"
+              onClick={handleGenerar}
+              disabled={guardando || !cantidadGenerar}
+              className="rounded-lg bg-green-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-green-700 disabled:opacity-50"
+              data-testid="plantas-generar"
+            >
+              Generar plantas
+            </button>
+            <button
+              type="button"
+              onClick={() => nuevaPlanta()}
+              className="rounded-lg border border-green-600 px-3 py-1.5 text-xs font-medium text-green-700 hover:bg-green-50"
+              data-testid="plantas-agregar"
+            >
+              Agregar planta
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700" data-testid="plantas-error">
+          {error}
+        </p>
+      )}
+
+      {cargando ? (
+        <p className="text-sm text-gray-500">Cargando plantas...</p>
+      ) : plantas.length === 0 ? (
+        <p className="rounded-lg border border-gray-200 bg-gray-50 p-4 text-center text-sm text-gray-600" data-testid="plantas-vacio">
+          {soloLectura
+            ? 'Todavía no se registraron plantas en este cultivo.'
+            : 'Registra las plantas para seguir cada fenotipo por separado: genera una por cada planta del cultivo o agrégalas de a una.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {/* Grilla del espacio de cultivo */}
+          <div className="overflow-x-auto">
+            <div
+              className="grid gap-1.5"
+              style={{ gridTemplateColumns: `repeat(${filas[0]?.length || 1}, minmax(3rem, 1fr))` }}
+              data-testid="plantas-grilla"
+            >
+              {filas.flatMap((fila, indiceFila) => fila.map((planta, indiceColumna) => planta ? (
+                <button
+                  key={planta.id}
+                  type="button"
+                  onClick={() => seleccionar(planta)}
+                  title={`${planta.etiqueta} · ${ETIQUETAS_ESTADO_PLANTA[planta.estado]}${planta.genetica ? ` · ${planta.genetica}` : ''}`}
+                  className={`h-12 rounded-lg border text-xs font-semibold ${COLORES_ESTADO[planta.estado]} ${seleccion === planta.id ? 'ring-2 ring-green-600' : ''}`}
+                  data-testid={`planta-celda-${planta.etiqueta}`}
+                >
+                  {planta.etiqueta}
+                </button>
+              ) : soloLectura ? (
+                <div key={`vacia-${indiceFila}-${indiceColumna}`} className="h-12 rounded-lg border border-dashed border-gray-200" />
+              ) : (
+                <button
+                  key={`vacia-${indiceFila}-${indiceColumna}`}
+                  type="button"
+                  onClick={() => nuevaPlanta(indiceFila + 1, indiceColumna + 1)}
+                  title={`Agregar planta en fila ${indiceFila + 1}, columna ${indiceColumna + 1}`}
+                  className="h-12 rounded-lg border border-dashed border-gray-200 text-gray-300 hover:border-green-300 hover:text-green-500"
+                >
+                  +
+                </button>
+              )))}
+            </div>
+          </div>
+
+          {sinPosicion.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5" data-testid="plantas-sin-posicion">
+              <span className="text-xs text-gray-500">Sin posición:</span>
+              {sinPosicion.map(planta => (
+                <button
+                  key={planta.id}
+                  type="button"
+                  onClick={() => seleccionar(planta)}
+                  className={`rounded-lg border px-2 py-1 text-xs font-semibold ${COLORES_ESTADO[planta.estado]} ${seleccion === planta.id ? 'ring-2 ring-green-600' : ''}`}
+                  data-testid={`planta-celda-${planta.etiqueta}`}
+                >
+                  {planta.etiqueta}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-3 text-xs text-gray-500">
+            {(Object.keys(ETIQUETAS_ESTADO_PLANTA) as EstadoPlanta[]).map(estado => (
+              <span key={estado} className="flex items-center gap-1">
+                <span className={`inline-block h-3 w-3 rounded border ${COLORES_ESTADO[estado]}`} />
+                {ETIQUETAS_ESTADO_PLANTA[estado]}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Detalle de la planta seleccionada o alta de una nueva */}
+      {seleccion && (seleccion === 'nueva' || plantaSeleccionada) && (
+        <div className="rounded-xl border border-gray-200 p-4 space-y-4" data-testid="planta-detalle">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900">
+              {plantaSeleccionada ? `Planta ${plantaSeleccionada.etiqueta}` : 'Nueva planta'}
+              {plantaSeleccionada && (
+                <span className="ml-2 font-mono text-xs text-gray-500" data-testid="planta-codigo">{plantaSeleccionada.codigo}</span>
+              )}
+            </h3>
+            <button type="button" onClick={cerrarDetalle} className="text-sm text-gray-500 hover:text-gray-700">
+              Cerrar
+            </button>
+          </div>
+
+          <form onSubmit={handleGuardar} className="grid grid-cols-1 gap-3 sm:grid-cols-2" data-testid="planta-form">
+            <label className="text-sm text-gray-700">
+              Etiqueta
+              <input
+                value={formulario.etiqueta}
+                onChange={e => setFormulario(f => ({ ...f, etiqueta: e.target.value }))}
+                placeholder="Automática (P1, P2...)"
+                maxLength={30}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1"
+                disabled={soloLectura}
+                data-testid="planta-form-etiqueta"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Estado
+              <select
+                value={formulario.estado}
+                onChange={e => setFormulario(f => ({ ...f, estado: e.target.value as EstadoPlanta }))}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1"
+                disabled={soloLectura}
+                data-testid="planta-form-estado"
+              >
+                {(Object.keys(ETIQUETAS_ESTADO_PLANTA) as EstadoPlanta[]).map(estado => (
+                  <option key={estado} value={estado}>{ETIQUETAS_ESTADO_PLANTA[estado]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Genética
+              <input
+                value={formulario.genetica}
+                onChange={e => setFormulario(f => ({ ...f, genetica: e.target.value }))}
+                maxLength={100}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1"
+                disabled={soloLectura}
+                data-testid="planta-form-genetica"
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-sm text-gray-700">
+                Fila
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={formulario.fila}
+                  onChange={e => setFormulario(f => ({ ...f, fila: e.target.value }))}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1"
+                  disabled={soloLectura}
+                  data-testid="planta-form-fila"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Columna
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={formulario.columna}
+                  onChange={e => setFormulario(f => ({ ...f, columna: e.target.value }))}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1"
+                  disabled={soloLectura}
+                  data-testid="planta-form-columna"
+                />
+              </label>
+            </div>
+            <label className="text-sm text-gray-700 sm:col-span-2">
+              Notas de fenotipo
+              <textarea
+                value={formulario.notasFenotipo}
+                onChange={e => setFormulario(f => ({ ...f, notasFenotipo: e.target.value }))}
+                rows={3}
+                maxLength={2000}
+                placeholder="Estructura, aroma, vigor, resistencia..."
+                className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1"
+                disabled={soloLectura}
+                data-testid="planta-form-notas"
+              />
+            </label>
+            <div className="flex flex-wrap gap-2 sm:col-span-2">
+              {!soloLectura && (
+                <button
+                  type="submit"
+                  disabled={guardando}
+                  className="rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                  data-testid="planta-form-guardar"
+                >
+                  {guardando ? 'Guardando...' : 'Guardar'}
+                </button>
+              )}
+              {plantaSeleccionada && (
+                <>
+                  <button
+                    type="button"
+                    onClick={handleImprimirEtiqueta}
+                    className="rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                    data-testid="planta-imprimir-etiqueta"
+                  >
+                    Imprimir etiqueta
+                  </button>
+                  {!soloLectura && (
+                    <button
+                      type="button"
+                      onClick={handleEliminar}
+                      className="rounded-lg border border-red-200 px-4 py-2 text-sm text-red-600 hover:bg-red-50"
+                      data-testid="planta-eliminar"
+                    >
+                      Eliminar
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </form>
+
+          {plantaSeleccionada && (
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3" data-testid="planta-registros">
+              <div>
+                <h4 className="mb-2 text-sm font-semibold text-gray-800">Tareas ({tareas.length})</h4>
+                {tareas.length === 0 ? (
+                  <p className="text-xs text-gray-500">Sin tareas para esta planta.</p>
+                ) : (
+                  <ul className="space-y-1 text-sm" data-testid="planta-tareas">
+                    {tareas.map(tarea => (
+                      <li key={tarea.id} className={tarea.estado === 'completada' ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                        {tarea.fechaProgramada} · {tarea.titulo}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <h4 className="mb-2 text-sm font-semibold text-gray-800">Comentarios ({comentarios.length})</h4>
+                {comentarios.length === 0 ? (
+                  <p className="text-xs text-gray-500">Sin comentarios para esta planta.</p>
+                ) : (
+                  <ul className="space-y-1 text-sm text-gray-700" data-testid="planta-comentarios">
+                    {comentarios.map(comentario => (
+                      <li key={comentario.id}>
+                        <span className="text-xs text-gray-500">{comentario.fecha.split('T')[0]}</span> {comentario.titulo || comentario.contenido}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <h4 className="mb-2 text-sm font-semibold text-gray-800">Fotos ({fotos.length})</h4>
+                {fotos.length === 0 ? (
+                  <p className="text-xs text-gray-500">Asigna fotos a esta planta desde la galería.</p>
+                ) : (
+                  <div className="grid grid-cols-3 gap-1" data-testid="planta-fotos">
+                    {fotos.map(imagen => (
+                      <div key={imagen.id} className="relative aspect-square overflow-hidden rounded bg-gray-100">
+                        <Image src={imagen.url} alt={imagen.nombre} fill className="object-cover" unoptimized={true} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
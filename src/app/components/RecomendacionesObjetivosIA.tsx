@@ -0,0 +1,234 @@
+/**
+ * Componente de recomendaciones de objetivos con IA
+ * Pide a la IA todos los objetivos del cultivo en una sola consulta y muestra la diferencia
+ * con los valores actuales, con justificación y confianza de cada uno.
+ * El usuario acepta o rechaza cada valor; solo los aceptados se entregan a onAplicar.
+ */
+
+'use client';
+
+import React, { useMemo, useRef, useEffect, useState } from 'react';
+import type { Cultivo } from '@/types/cultivo';
+import type { ContextoCultivo } from '@/types/chat';
+import type { CampoObjetivoCultivo, RecomendacionObjetivosIA } from '@/types/recomendacionIA';
+import { obtenerRecomendacionObjetivos } from '@/lib/services/chat';
+import { CAMPOS_OBJETIVO, calcularDiferencias } from '@/lib/utils/recomendacionesIA';
+import { useAuth } from '@/lib/auth/AuthProvider';
+
+type ValoresObjetivo = Partial<Pick<Cultivo, CampoObjetivoCultivo>>;
+
+/**
+ * Props del componente RecomendacionesObjetivosIA
+ */
+interface RecomendacionesObjetivosIAProps {
+  /** Contexto del cultivo que se envía a la IA */
+  contexto: ContextoCultivo;
+  /** Valores actuales contra los que se compara la recomendación */
+  actuales: ValoresObjetivo;
+  /** Recibe los valores aceptados (guardarlos en el cultivo o en el formulario) */
+  onAplicar: (valores: ValoresObjetivo) => Promise<void> | void;
+  /** Texto del botón de aplicar */
+  etiquetaAplicar?: string;
+}
+
+/**
+ * Formatea un valor con la unidad del campo
+ */
+const formatearValor = (campo: CampoObjetivoCultivo, valor?: number): string => {
+  if (valor === undefined) return '—';
+  const { unidad } = CAMPOS_OBJETIVO[campo];
+  return unidad ? `${valor} ${unidad}` : String(valor);
+};
+
+const RecomendacionesObjetivosIA: React.FC<RecomendacionesObjetivosIAProps> = ({
+  contexto,
+  actuales,
+  onAplicar,
+  etiquetaAplicar = 'Aplicar'
+}) => {
+  const { token } = useAuth();
+  const [recomendacion, setRecomendacion] = useState<RecomendacionObjetivosIA | null>(null);
+  const [aceptados, setAceptados] = useState<Set<CampoObjetivoCultivo>>(new Set());
+  const [cargando, setCargando] = useState(false);
+  const [aplicando, setAplicando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [aviso, setAviso] = useState<string | null>(null);
+
+  // Cancelar la consulta en curso al desmontar el componente
+  const abortControllerRef = useRef<AbortController | null>(null);
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const diferencias = useMemo(
+    () => recomendacion ? calcularDiferencias(actuales, recomendacion.objetivos) : [],
+    [recomendacion, actuales]
+  );
+
+  /**
+   * Consulta la recomendación; por defecto se marcan como aceptados los valores que cambian
+   */
+  const handleConsultar = async () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setCargando(true);
+    setError(null);
+    setAviso(null);
+
+    try {
+      const nueva = await obtenerRecomendacionObjetivos(contexto, controller.signal, token ?? undefined);
+      setRecomendacion(nueva);
+      setAceptados(new Set(calcularDiferencias(actuales, nueva.objetivos).filter(d => d.cambia).map(d => d.campo)));
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') return;
+      setError(err instanceof Error ? err.message : 'No se pudo obtener la recomendación');
+    } finally {
+      if (!controller.signal.aborted) setCargando(false);
+    }
+  };
+
+  /**
+   * Acepta o rechaza un valor recomendado
+   */
+  const alternar = (campo: CampoObjetivoCultivo, aceptar: boolean) => {
+    setAceptados(prev => {
+      const siguiente = new Set(prev);
+      if (aceptar) siguiente.add(campo);
+      else siguiente.delete(campo);
+      return siguiente;
+    });
+  };
+
+  /**
+   * Entrega los valores aceptados
+   */
+  const handleAplicar = async () => {
+    if (!recomendacion || aceptados.size === 0) return;
+
+    const valores: ValoresObjetivo = {};
+    for (const campo of aceptados) {
+      valores[campo] = recomendacion.objetivos[campo]?.valor;
+    }
+
+    setAplicando(true);
+    setError(null);
+    try {
+      await onAplicar(valores);
+      setAviso(`Se aplicaron ${aceptados.size} valor${aceptados.size === 1 ? '' : 'es'} recomendado${aceptados.size === 1 ? '' : 's'}.`);
+      setRecomendacion(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudieron aplicar los valores');
+    } finally {
+      setAplicando(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3" data-testid="recomendaciones-ia">
+      {!recomendacion && (
+        <button
+          type="button"
+          onClick={handleConsultar}
+          disabled={cargando}
+          data-testid="recomendaciones-ia-consultar"
+          className="text-xs bg-green-600 text-white px-3 py-1.5 rounded-lg hover:bg-green-700 transition disabled:opacity-50"
+        >
+          {cargando ? 'Consultando IA...' : '🤖 Recomendar objetivos con IA'}
+        </button>
+      )}
+
+      {aviso && (
+        <p className="text-xs text-green-700" data-testid="recomendaciones-ia-aviso">{aviso}</p>
+      )}
+
+      {error && (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700" data-testid="recomendaciones-ia-error">
+          {error}
+        </p>
+      )}
+
+      {recomendacion && (
+        <div className="rounded-lg border border-green-200 bg-white/80 p-3" data-testid="recomendaciones-ia-diff">
+          {recomendacion.resumen && (
+            <p className="mb-3 text-sm text-gray-700">{recomendacion.resumen}</p>
+          )}
+
+          <ul className="divide-y divide-gray-100">
+            {diferencias.map(({ campo, actual, recomendado, cambia }) => {
+              const aceptado = aceptados.has(campo);
+              return (
+                <li key={campo} className="py-2" data-testid={`recomendaciones-ia-campo-${campo}`}>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-sm">
+                      <span className="font-medium text-gray-800">{CAMPOS_OBJETIVO[campo].etiqueta}</span>
+                      {cambia && (
+                        <span className="ml-2 text-gray-500 line-through decoration-red-400">
+                          {formatearValor(campo, actual)}
+                        </span>
+                      )}
+                      <span className={`ml-2 font-semibold ${cambia ? 'text-green-700' : 'text-gray-600'}`}>
+                        {formatearValor(campo, recomendado.valor)}
+                      </span>
+                      <span className="ml-2 text-[11px] text-gray-400" title="Confianza de la IA">
+                        {Math.round(recomendado.confianza * 100)}% confianza
+                      </span>
+                    </div>
+
+                    {cambia ? (
+                      <div className="flex gap-1">
+                        <button
+                          type="button"
+                          onClick={() => alternar(campo, true)}
+                          data-testid={`recomendaciones-ia-aceptar-${campo}`}
+                          aria-pressed={aceptado}
+                          className={`rounded px-2 py-0.5 text-xs border ${aceptado ? 'bg-green-600 border-green-600 text-white' : 'border-gray-300 text-gray-600 hover:bg-green-50'}`}
+                        >
+                          Aceptar
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => alternar(campo, false)}
+                          data-testid={`recomendaciones-ia-rechazar-${campo}`}
+                          aria-pressed={!aceptado}
+                          className={`rounded px-2 py-0.5 text-xs border ${!aceptado ? 'bg-gray-600 border-gray-600 text-white' : 'border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+                        >
+                          Rechazar
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-gray-400">Sin cambios</span>
+                    )}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">{recomendado.justificacion}</p>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setRecomendacion(null)}
+              disabled={aplicando}
+              data-testid="recomendaciones-ia-descartar"
+              className="rounded-lg border border-gray-300 px-3 py-1 text-xs text-gray-700 hover:bg-gray-50"
+            >
+              Descartar
+            </button>
+            <button
+              type="button"
+              onClick={handleAplicar}
+              disabled={aplicando || aceptados.size === 0}
+              data-testid="recomendaciones-ia-aplicar"
+              className="rounded-lg bg-green-600 px-3 py-1 text-xs font-medium text-white hover:bg-green-700 disabled:opacity-50"
+            >
+              {aplicando ? 'Aplicando...' : `${etiquetaAplicar} (${aceptados.size})`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecomendacionesObjetivosIA;
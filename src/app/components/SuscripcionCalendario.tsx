@@ -0,0 +1,281 @@
+/**
+ * Componente para sincronizar tareas con calendarios externos
+ * Genera la URL del feed iCalendar (Google Calendar, Thunderbird, etc.)
+ * y permite importar eventos desde un archivo .ics al cultivo
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { FeedCalendario, ResultadoImportacionICS } from '@/types/planificacion';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import {
+  getFeedCalendario,
+  generarFeedCalendario,
+  revocarFeedCalendario,
+  construirUrlFeedCultivo,
+  importarTareasICS
+} from '@/lib/services/planificacion';
+
+/**
+ * Props del componente SuscripcionCalendario
+ */
+interface Props {
+  /** ID del cultivo para el feed por cultivo y la importación */
+  cultivoId: string;
+  /** Callback después de importar tareas */
+  onImportado?: () => void;
+  /** Clase CSS adicional */
+  className?: string;
+}
+
+/**
+ * Componente principal SuscripcionCalendario
+ */
+export default function SuscripcionCalendario({ cultivoId, onImportado, className = '' }: Props) {
+  const { token } = useAuth();
+
+  // Estados del feed
+  const [feed, setFeed] = useState<FeedCalendario | null>(null);
+  const [procesando, setProcesando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiado, setCopiado] = useState<string | null>(null);
+
+  // Estados de la importación
+  const [archivo, setArchivo] = useState<File | null>(null);
+  const [vistaPrevia, setVistaPrevia] = useState<ResultadoImportacionICS | null>(null);
+  const [mensajeImportacion, setMensajeImportacion] = useState<string | null>(null);
+
+  /**
+   * Carga el estado del feed del usuario
+   */
+  const cargarFeed = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setError(null);
+      const data = await getFeedCalendario(signal, token || undefined);
+      if (!signal?.aborted) setFeed(data);
+    } catch (e) {
+      const err = e as Error;
+      if (err?.name !== 'AbortError' && !signal?.aborted) {
+        setError(err?.message ?? 'Error al cargar el feed de calendario');
+      }
+    }
+  }, [token]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    cargarFeed(controller.signal);
+    return () => controller.abort();
+  }, [cargarFeed]);
+
+  /**
+   * Genera o rota el token del feed
+   */
+  const handleGenerar = async () => {
+    if (feed?.activo && !confirm('Se generará una nueva URL y las suscripciones actuales dejarán de actualizarse. ¿Continuar?')) {
+      return;
+    }
+    setProcesando(true);
+    setError(null);
+    try {
+      setFeed(await generarFeedCalendario(token || undefined));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al generar el feed');
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  /**
+   * Revoca el token del feed
+   */
+  const handleRevocar = async () => {
+    if (!confirm('Las suscripciones existentes dejarán de actualizarse. ¿Revocar el feed?')) return;
+    setProcesando(true);
+    setError(null);
+    try {
+      await revocarFeedCalendario(token || undefined);
+      setFeed({ activo: false });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al revocar el feed');
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  /**
+   * Copia una URL al portapapeles
+   */
+  const copiar = async (clave: string, url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiado(clave);
+      setTimeout(() => setCopiado(null), 2000);
+    } catch {
+      setError('No se pudo copiar la URL');
+    }
+  };
+
+  /**
+   * Analiza el archivo seleccionado y muestra la vista previa
+   */
+  const handleArchivo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const seleccionado = e.target.files?.[0] || null;
+    setArchivo(seleccionado);
+    setVistaPrevia(null);
+    setMensajeImportacion(null);
+    if (!seleccionado) return;
+
+    setProcesando(true);
+    setError(null);
+    try {
+      setVistaPrevia(await importarTareasICS(cultivoId, seleccionado, false, token || undefined));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al leer el archivo');
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  /**
+   * Crea las tareas de la vista previa
+   */
+  const handleImportar = async () => {
+    if (!archivo) return;
+    setProcesando(true);
+    setError(null);
+    try {
+      const resultado = await importarTareasICS(cultivoId, archivo, true, token || undefined);
+      setMensajeImportacion(`${resultado.tareas.length} tareas importadas`);
+      setVistaPrevia(resultado.omitidos.length > 0 ? { tareas: [], omitidos: resultado.omitidos } : null);
+      setArchivo(null);
+      onImportado?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al importar las tareas');
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  const urls = feed?.url
+    ? [
+      { clave: 'todas', etiqueta: 'Todas mis tareas', url: feed.url },
+      { clave: 'cultivo', etiqueta: 'Solo este cultivo', url: construirUrlFeedCultivo(feed.url, cultivoId) }
+    ]
+    : [];
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6 ${className}`} data-testid="cultivo-suscripcion-calendario">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-4">
+        <svg className="h-5 w-5 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+        Calendario externo
+      </h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700" data-testid="cultivo-suscripcion-error">
+          {error}
+        </div>
+      )}
+
+      {/* Feed de suscripción */}
+      <div className="space-y-3" data-testid="cultivo-suscripcion-feed">
+        <p className="text-sm text-gray-600">
+          Suscríbete desde Google Calendar, Thunderbird u otra aplicación compatible con iCalendar.
+          {feed?.activo && !feed.url && feed.prefijo && ` Feed activo (${feed.prefijo}…).`}
+        </p>
+
+        {urls.map(({ clave, etiqueta, url }) => (
+          <div key={clave} className="p-3 bg-indigo-50 border border-indigo-200 rounded-lg" data-testid={`cultivo-suscripcion-url-${clave}`}>
+            <p className="text-xs font-medium text-indigo-900 mb-1">{etiqueta}</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs text-indigo-800 break-all">{url}</code>
+              <button
+                onClick={() => copiar(clave, url)}
+                className="px-2 py-1 text-xs font-medium bg-indigo-600 hover:bg-indigo-700 text-white rounded transition-colors duration-200"
+                data-testid={`cultivo-suscripcion-copiar-${clave}`}
+              >
+                {copiado === clave ? 'Copiado' : 'Copiar'}
+              </button>
+            </div>
+          </div>
+        ))}
+        {feed?.url && (
+          <p className="text-xs text-gray-500">Guarda estas URLs: por seguridad no se vuelven a mostrar.</p>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleGenerar}
+            disabled={procesando || feed === null}
+            className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors duration-200"
+            data-testid="cultivo-suscripcion-generar"
+          >
+            {feed?.activo ? 'Generar nueva URL' : 'Generar URL de suscripción'}
+          </button>
+          {feed?.activo && (
+            <button
+              onClick={handleRevocar}
+              disabled={procesando}
+              className="px-3 py-2 bg-white hover:bg-red-50 disabled:opacity-50 text-red-700 border border-red-200 text-sm font-medium rounded-lg transition-colors duration-200"
+              data-testid="cultivo-suscripcion-revocar"
+            >
+              Revocar
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Importación de archivos .ics */}
+      <div className="mt-6 pt-4 border-t border-gray-100 space-y-3" data-testid="cultivo-suscripcion-importar">
+        <h3 className="text-sm font-medium text-gray-900">Importar desde archivo .ics</h3>
+        <input
+          type="file"
+          accept=".ics,text/calendar"
+          onChange={handleArchivo}
+          disabled={procesando}
+          className="block w-full text-sm text-gray-700"
+          data-testid="cultivo-suscripcion-archivo"
+        />
+
+        {mensajeImportacion && (
+          <p className="text-sm text-green-700" data-testid="cultivo-suscripcion-importado">{mensajeImportacion}</p>
+        )}
+
+        {vistaPrevia && (
+          <div className="text-sm text-gray-700 space-y-2" data-testid="cultivo-suscripcion-vista-previa">
+            {vistaPrevia.tareas.length > 0 && (
+              <ul className="max-h-40 overflow-y-auto divide-y divide-gray-100">
+                {vistaPrevia.tareas.map((tarea, indice) => (
+                  <li key={indice} className="py-1 flex justify-between gap-2">
+                    <span className="truncate">{tarea.titulo}</span>
+                    <span className="text-gray-500 whitespace-nowrap">
+                      {tarea.fechaProgramada}{tarea.horaProgramada && ` ${tarea.horaProgramada}`}
+                      {tarea.esRecurrente && ' 🔄'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {vistaPrevia.omitidos.length > 0 && (
+              <ul className="text-xs text-amber-700 list-disc list-inside" data-testid="cultivo-suscripcion-omitidos">
+                {vistaPrevia.omitidos.map((motivo, indice) => <li key={indice}>{motivo}</li>)}
+              </ul>
+            )}
+            {vistaPrevia.tareas.length > 0 && (
+              <button
+                onClick={handleImportar}
+                disabled={procesando}
+                className="px-3 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors duration-200"
+                data-testid="cultivo-suscripcion-confirmar"
+              >
+                Importar {vistaPrevia.tareas.length} tareas
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+/**
+ * Tarjeta de un diagnóstico del Doctor IA
+ * Muestra los problemas detectados con su severidad y las acciones sugeridas,
+ * permite convertir las acciones en tareas y seguir su estado hasta marcar el problema como resuelto
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import type { Diagnostico, SeveridadDiagnostico } from '@/types/diagnostico';
+import type { EstadoTarea } from '@/types/planificacion';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import { crearTareasDiagnostico, actualizarEstadoDiagnostico } from '@/lib/services/diagnosticos';
+import { ETIQUETAS_SEVERIDAD } from '@/lib/utils/diagnosticosIA';
+import { formatearFechaCorta } from '@/lib/utils/date';
+
+/**
+ * Props del componente TarjetaDiagnostico
+ */
+interface Props {
+  /** Diagnóstico a mostrar */
+  diagnostico: Diagnostico;
+  /** Se llama con el diagnóstico actualizado (tareas creadas o cambio de estado) */
+  onActualizado?: (diagnostico: Diagnostico) => void;
+  /** Se llama al pedir eliminar el diagnóstico */
+  onEliminar?: (diagnostico: Diagnostico) => void;
+  /** Oculta la creación de tareas y los cambios de estado */
+  soloLectura?: boolean;
+}
+
+const ESTILOS_SEVERIDAD: Record<SeveridadDiagnostico, string> = {
+  baja: 'bg-green-100 text-green-800',
+  media: 'bg-yellow-100 text-yellow-800',
+  alta: 'bg-orange-100 text-orange-800',
+  critica: 'bg-red-100 text-red-800'
+};
+
+const ETIQUETAS_ESTADO_TAREA: Record<EstadoTarea, string> = {
+  pendiente: 'Pendiente',
+  en_progreso: 'En progreso',
+  completada: 'Completada',
+  cancelada: 'Cancelada',
+  vencida: 'Vencida'
+};
+
+export default function TarjetaDiagnostico({ diagnostico, onActualizado, onEliminar, soloLectura = false }: Props) {
+  const { token } = useAuth();
+  const [procesando, setProcesando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [aviso, setAviso] = useState<string | null>(null);
+
+  const accionesSinTarea = diagnostico.acciones.filter(a => !a.tareaId);
+  const accionesConTarea = diagnostico.acciones.filter(a => a.tareaId);
+  const tareasTerminadas = accionesConTarea.length > 0 && accionesConTarea.every(a => a.estadoTarea === 'completada');
+  const resuelto = diagnostico.estado === 'resuelto';
+
+  /**
+   * Ejecuta una acción sobre el diagnóstico y notifica el resultado
+   */
+  const ejecutar = async (accion: () => Promise<Diagnostico>, mensaje?: (d: Diagnostico) => string) => {
+    setProcesando(true);
+    setError(null);
+    setAviso(null);
+    try {
+      const actualizado = await accion();
+      onActualizado?.(actualizado);
+      if (mensaje) setAviso(mensaje(actualizado));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo actualizar el diagnóstico');
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  const handleCrearTareas = (accionIds?: string[]) => {
+    let creadas = 0;
+    return ejecutar(async () => {
+      const resultado = await crearTareasDiagnostico(diagnostico.cultivoId, diagnostico.id, accionIds, token || undefined);
+      creadas = resultado.creadas;
+      return resultado.diagnostico;
+    }, () => creadas === 1 ? 'Se creó 1 tarea.' : `Se crearon ${creadas} tareas.`);
+  };
+
+  const handleEstado = (estado: Diagnostico['estado']) =>
+    ejecutar(() => actualizarEstadoDiagnostico(diagnostico.cultivoId, diagnostico.id, estado, token || undefined));
+
+  return (
+    <article
+      className={`rounded-xl border bg-white p-4 shadow-sm ${resuelto ? 'border-gray-200 opacity-80' : 'border-indigo-100'}`}
+      data-testid={`diagnostico-${diagnostico.id}`}
+    >
+      <header className="flex flex-wrap items-start justify-between gap-3">
+        <div className="flex items-start gap-3">
+          {diagnostico.imagenUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={diagnostico.imagenUrl}
+              alt="Imagen diagnosticada"
+              className="h-16 w-16 flex-shrink-0 rounded-lg object-cover"
+            />
+          )}
+          <div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span
+                className={`rounded-full px-2 py-0.5 text-xs font-semibold ${ESTILOS_SEVERIDAD[diagnostico.severidad]}`}
+                data-testid="diagnostico-severidad"
+              >
+                Severidad {ETIQUETAS_SEVERIDAD[diagnostico.severidad].toLowerCase()}
+              </span>
+              <span className="text-xs text-gray-500">{formatearFechaCorta(diagnostico.fechaCreacion)}</span>
+              {resuelto && (
+                <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700" data-testid="diagnostico-resuelto">
+                  ✅ Resuelto
+                </span>
+              )}
+            </div>
+            <p className="mt-1 text-sm text-gray-800">{diagnostico.resumen}</p>
+          </div>
+        </div>
+
+        {onEliminar && (
+          <button
+            type="button"
+            onClick={() => onEliminar(diagnostico)}
+            disabled={procesando}
+            className="text-xs text-gray-400 hover:text-red-600"
+            data-testid="diagnostico-eliminar"
+          >
+            Eliminar
+          </button>
+        )}
+      </header>
+
+      {diagnostico.problemas.length > 0 && (
+        <section className="mt-3">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Problemas detectados</h4>
+          <ul className="mt-1 space-y-1" data-testid="diagnostico-problemas">
+            {diagnostico.problemas.map((problema, indice) => (
+              <li key={indice} className="text-sm text-gray-700">
+                <span className="font-medium">{problema.nombre}</span>
+                <span className={`ml-2 rounded px-1.5 py-0.5 text-[11px] ${ESTILOS_SEVERIDAD[problema.severidad]}`}>
+                  {ETIQUETAS_SEVERIDAD[problema.severidad]}
+                </span>
+                {problema.descripcion && <p className="text-xs text-gray-500">{problema.descripcion}</p>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {diagnostico.acciones.length > 0 && (
+        <section className="mt-3">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Acciones sugeridas</h4>
+          <ul className="mt-1 space-y-1" data-testid="diagnostico-acciones">
+            {diagnostico.acciones.map(accion => (
+              <li key={accion.id} className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-700">
+                <span>
+                  {accion.tipoTarea === 'mantenimiento' ? '🛠️' : '🔍'} {accion.descripcion}
+                  <span className="ml-1 text-xs text-gray-400">
+                    ({accion.plazoDias === 0 ? 'hoy' : `en ${accion.plazoDias} días`})
+                  </span>
+                </span>
+                {accion.tareaId ? (
+                  <span
+                    className={`rounded px-2 py-0.5 text-xs ${accion.estadoTarea === 'completada' ? 'bg-green-100 text-green-800' : 'bg-blue-50 text-blue-700'}`}
+                    data-testid={`diagnostico-accion-estado-${accion.id}`}
+                  >
+                    Tarea: {accion.estadoTarea ? ETIQUETAS_ESTADO_TAREA[accion.estadoTarea] : 'creada'}
+                  </span>
+                ) : !resuelto && !soloLectura && (
+                  <button
+                    type="button"
+                    onClick={() => handleCrearTareas([accion.id])}
+                    disabled={procesando}
+                    className="text-xs text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                    data-testid={`diagnostico-accion-tarea-${accion.id}`}
+                  >
+                    Crear tarea
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {aviso && <p className="mt-3 text-xs text-green-700" data-testid="diagnostico-aviso">{aviso}</p>}
+      {error && (
+        <p className="mt-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700" data-testid="diagnostico-error">
+          {error}
+        </p>
+      )}
+
+      <footer className="mt-4 flex flex-wrap items-center justify-end gap-2">
+        {tareasTerminadas && !resuelto && (
+          <span className="mr-auto text-xs text-green-700">Todas las tareas están completadas.</span>
+        )}
+        {!soloLectura && !resuelto && accionesSinTarea.length > 0 && (
+          <button
+            type="button"
+            onClick={() => handleCrearTareas()}
+            disabled={procesando}
+            className="rounded-lg bg-indigo-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+            data-testid="diagnostico-crear-tareas"
+          >
+            {procesando ? 'Procesando...' : `Convertir ${accionesSinTarea.length === 1 ? 'acción' : 'acciones'} en tareas`}
+          </button>
+        )}
+        {soloLectura ? null : resuelto ? (
+          <button
+            type="button"
+            onClick={() => handleEstado(accionesConTarea.length > 0 ? 'en_seguimiento' : 'abierto')}
+            disabled={procesando}
+            className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            data-testid="diagnostico-reabrir"
+          >
+            Reabrir
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => handleEstado('resuelto')}
+            disabled={procesando}
+            className="rounded-lg border border-green-600 px-3 py-1.5 text-xs font-medium text-green-700 hover:bg-green-50 disabled:opacity-50"
+            data-testid="diagnostico-marcar-resuelto"
+          >
+            Marcar como resuelto
+          </button>
+        )}
+      </footer>
+    </article>
+  );
+}
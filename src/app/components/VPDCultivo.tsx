@@ -0,0 +1,177 @@
+/**
+ * Componente de VPD para un cultivo
+ * Calcula el déficit de presión de vapor, el punto de rocío y la humedad absoluta
+ * con la última lectura de temperatura y humedad (o con los objetivos de la fase
+ * si todavía no hay lecturas) y lo compara con el rango de la fase actual
+ */
+
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Cultivo } from '@/types/cultivo';
+import type { EstadoVPD } from '@/types/vpd';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import { listLecturas, getObjetivoVariable, getUltimosValores } from '@/lib/services/lecturas';
+import { analizarAmbiente, obtenerFaseVPD, OFFSET_HOJA_POR_DEFECTO, ETIQUETAS_FASE_VPD } from '@/lib/utils/vpd';
+import { formatearFechaCompleta } from '@/lib/utils/date';
+
+/**
+ * Props del componente VPDCultivo
+ */
+interface Props {
+  /** Cultivo analizado */
+  cultivo: Cultivo;
+  /** Clase CSS adicional */
+  className?: string;
+}
+
+/**
+ * Presentación de cada estado de VPD
+ */
+const ESTADOS_VPD: Record<EstadoVPD, { etiqueta: string; clases: string; consejo: string }> = {
+  bajo: {
+    etiqueta: 'VPD bajo',
+    clases: 'bg-blue-50 border-blue-200 text-blue-900',
+    consejo: 'Transpiración lenta y riesgo de hongos: baja la humedad o sube la temperatura.'
+  },
+  optimo: {
+    etiqueta: 'VPD óptimo',
+    clases: 'bg-green-50 border-green-200 text-green-900',
+    consejo: 'El ambiente está dentro del rango recomendado para la fase.'
+  },
+  alto: {
+    etiqueta: 'VPD alto',
+    clases: 'bg-orange-50 border-orange-200 text-orange-900',
+    consejo: 'Transpiración excesiva y estrés hídrico: sube la humedad o baja la temperatura.'
+  }
+};
+
+/**
+ * Componente principal VPDCultivo
+ */
+export default function VPDCultivo({ cultivo, className = '' }: Props) {
+  const { token } = useAuth();
+
+  const [medicion, setMedicion] = useState<{ temperatura: number; humedad: number; fecha?: string } | null>(null);
+  const [offsetHoja, setOffsetHoja] = useState(OFFSET_HOJA_POR_DEFECTO);
+  const [loading, setLoading] = useState(true);
+
+  /**
+   * Carga la última temperatura y humedad medidas
+   * Si no hay lecturas, usa los objetivos de la fase actual
+   */
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const cargar = async () => {
+      const objetivoTemp = getObjetivoVariable(cultivo, 'temperatura');
+      const objetivoHumedad = getObjetivoVariable(cultivo, 'humedad');
+
+      try {
+        const lecturas = await listLecturas(cultivo.id, { _limit: 50 }, controller.signal, token || undefined);
+        const ultimos = getUltimosValores(lecturas);
+        const temperatura = ultimos.temperatura?.valor ?? objetivoTemp;
+        const humedad = ultimos.humedad?.valor ?? objetivoHumedad;
+
+        if (!controller.signal.aborted) {
+          setMedicion(temperatura !== undefined && humedad !== undefined
+            ? { temperatura, humedad, fecha: ultimos.temperatura?.fecha ?? ultimos.humedad?.fecha }
+            : null);
+        }
+      } catch (e) {
+        const err = e as Error;
+        if (err?.name !== 'AbortError' && !controller.signal.aborted) {
+          // Sin lecturas disponibles: recurrir a los objetivos
+          setMedicion(objetivoTemp !== undefined && objetivoHumedad !== undefined
+            ? { temperatura: objetivoTemp, humedad: objetivoHumedad }
+            : null);
+        }
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    cargar();
+    return () => controller.abort();
+  }, [cultivo, token]);
+
+  const ambiente = useMemo(
+    () => medicion ? analizarAmbiente(medicion.temperatura, medicion.humedad, obtenerFaseVPD(cultivo), offsetHoja) : null,
+    [medicion, cultivo, offsetHoja]
+  );
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6 ${className}`} data-testid="cultivo-vpd">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <svg className="h-5 w-5 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3c3.5 4.5 6 8 6 11a6 6 0 01-12 0c0-3 2.5-6.5 6-11z" />
+        </svg>
+        VPD y humedad
+      </h2>
+
+      {loading ? (
+        <p className="text-sm text-gray-500" data-testid="cultivo-vpd-loading">Calculando VPD...</p>
+      ) : !ambiente ? (
+        <p className="text-sm text-gray-600 text-center" data-testid="cultivo-vpd-empty">
+          Registra una lectura o define objetivos de temperatura y humedad para calcular el VPD
+        </p>
+      ) : (
+        <>
+          <div className={`p-4 rounded-lg border mb-4 ${ESTADOS_VPD[ambiente.estado].clases}`} data-testid="cultivo-vpd-estado">
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm font-medium">{ESTADOS_VPD[ambiente.estado].etiqueta}</span>
+              <span className="text-2xl font-semibold">{ambiente.vpd} kPa</span>
+            </div>
+            <p className="text-xs opacity-80">
+              Objetivo {ETIQUETAS_FASE_VPD[ambiente.fase]}: {ambiente.rango.minimo} - {ambiente.rango.maximo} kPa
+            </p>
+            <p className="text-sm mt-2">{ESTADOS_VPD[ambiente.estado].consejo}</p>
+            {ambiente.estado !== 'optimo' && (
+              <p className="text-xs mt-1">
+                A {ambiente.temperatura}°C la humedad recomendada es {ambiente.humedadRecomendada.minimo}-{ambiente.humedadRecomendada.maximo}%
+              </p>
+            )}
+          </div>
+
+          <dl className="grid gap-3 grid-cols-2 md:grid-cols-4 text-sm">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <dt className="text-gray-500">Aire</dt>
+              <dd className="font-semibold text-gray-900">{ambiente.temperatura}°C · {ambiente.humedad}%</dd>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <dt className="text-gray-500">Hoja</dt>
+              <dd className="font-semibold text-gray-900">{ambiente.temperaturaHoja}°C</dd>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <dt className="text-gray-500">Punto de rocío</dt>
+              <dd className="font-semibold text-gray-900" data-testid="cultivo-vpd-rocio">{ambiente.puntoRocio}°C</dd>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <dt className="text-gray-500">Humedad absoluta</dt>
+              <dd className="font-semibold text-gray-900" data-testid="cultivo-vpd-absoluta">{ambiente.humedadAbsoluta} g/m³</dd>
+            </div>
+          </dl>
+
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500">
+            <span>
+              {medicion?.fecha ? `Última lectura: ${formatearFechaCompleta(medicion.fecha)}` : 'Calculado con los objetivos de la fase'}
+            </span>
+            <label className="flex items-center gap-2">
+              Temperatura de hoja
+              <select
+                value={offsetHoja}
+                onChange={(e) => setOffsetHoja(parseFloat(e.target.value))}
+                className="rounded border border-gray-300 px-2 py-1 text-gray-900"
+                data-testid="cultivo-vpd-offset"
+              >
+                {[-4, -3, -2, -1, 0, 1, 2].map(offset => (
+                  <option key={offset} value={offset}>{offset > 0 ? `+${offset}` : offset}°C</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
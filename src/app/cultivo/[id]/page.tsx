@@ -9,9 +9,25 @@ import ComentariosCultivo from "../../components/ComentariosCultivo";
 import GaleriaCultivo from "../../components/GaleriaCultivo";
 import CalendarioCultivos from "../../components/CalendarioCultivos";
 import GestionTareasCultivo from "../../components/GestionTareasCultivo";
+import LecturasCultivo from "../../components/LecturasCultivo";
+import DispositivosCultivo from "../../components/DispositivosCultivo";
+import AlertasCultivo from "../../components/AlertasCultivo";
+import VPDCultivo from "../../components/VPDCultivo";
+import SuscripcionCalendario from "../../components/SuscripcionCalendario";
+import NotificacionesPush from "../../components/NotificacionesPush";
+import EstadoSincronizacion from "../../components/EstadoSincronizacion";
+import CosechaCultivo from "../../components/CosechaCultivo";
+import RecomendacionesObjetivosIA from "../../components/RecomendacionesObjetivosIA";
+import DiagnosticosCultivo from "../../components/DiagnosticosCultivo";
+import PlantasCultivo from "../../components/PlantasCultivo";
+import CompartirCultivo from "../../components/CompartirCultivo";
 import { useCultivos } from "@/lib/hooks/useCultivos";
-import { calcularMetricasFases, iniciarFloracion } from "@/lib/services/cultivos";
+import { useAuth } from "@/lib/auth/AuthProvider";
+import { calcularMetricasFases, iniciarFloracion, finalizarCultivo } from "@/lib/services/cultivos";
+import { prepararContextoCultivo } from "@/lib/services/chat";
 import type { Cultivo } from "@/types/cultivo";
+import type { PermisosCultivo } from "@/types/accesoCultivo";
+import type { ResultadoFinalizacion } from "@/types/cosecha";
 import type { TareaCultivo } from "@/types/planificacion";
 import { formatearFechaCorta } from "@/lib/utils/date";
 
@@ -44,15 +60,24 @@ export default function CultivoDetailPage() {
   const cultivoId = params.id as string;
 
   // Hook para operaciones de cultivos
-  const { getById, update, remove, finalizar, reactivar } = useCultivos();
+  const { getById, update, remove, reactivar } = useCultivos();
+  const { token } = useAuth();
 
   // Estados locales
   const [cultivo, setCultivo] = useState<Cultivo | null>(null);
+  // Permisos del usuario sobre el cultivo (los calcula la API al cargarlo)
+  const [permisos, setPermisos] = useState<PermisosCultivo | undefined>(undefined);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [editing, setEditing] = useState(false);
   const [vistaActiva, setVistaActiva] = useState<'detalles' | 'chat' | 'comentarios' | 'galeria' | 'planificacion'>('detalles');
   const [tareaSeleccionada, setTareaSeleccionada] = useState<TareaCultivo | null>(null);
+  // Se incrementa para recargar calendario y tareas después de importar un .ics
+  const [versionTareas, setVersionTareas] = useState(0);
+  // Resultado de finalizar el cultivo: se muestra el rendimiento de la cosecha
+  const [finalizacion, setFinalizacion] = useState<ResultadoFinalizacion | null>(null);
+  // Se incrementa para recargar la cosecha después de registrarla desde el modal
+  const [versionCosecha, setVersionCosecha] = useState(0);
 
   // Función para cargar los datos del cultivo
   // useCallback previene recreaciones innecesarias y optimiza el rendimiento
@@ -62,6 +87,7 @@ export default function CultivoDetailPage() {
       setError(null);
       const cultivoData = await getById(cultivoId);
       setCultivo(cultivoData);
+      setPermisos(cultivoData.permisos);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Error al cargar el cultivo');
     } finally {
@@ -76,6 +102,18 @@ export default function CultivoDetailPage() {
     }
   }, [cultivoId, loadCultivo]); // Ahora incluye loadCultivo en las dependencias
 
+  // Al sincronizar cambios hechos sin conexión, recargar cultivo y tareas sin mostrar el spinner
+  const handleSincronizado = useCallback(async () => {
+    setVersionTareas(v => v + 1);
+    try {
+      const cultivoData = await getById(cultivoId);
+      setCultivo(cultivoData);
+      setPermisos(cultivoData.permisos);
+    } catch (err) {
+      console.warn('Error al recargar el cultivo después de sincronizar:', err);
+    }
+  }, [cultivoId, getById]);
+
   // Manejar actualización del cultivo
   const handleUpdate = async (payload: Partial<Cultivo>) => {
     if (!cultivo) return;
@@ -89,6 +127,12 @@ export default function CultivoDetailPage() {
     }
   };
 
+  // Guardar los objetivos aceptados de la recomendación de IA (el PATCH registra editadoPor)
+  const handleAplicarRecomendacion = async (valores: Partial<Cultivo>) => {
+    if (!cultivo) return;
+    setCultivo(await update(cultivo.id, valores));
+  };
+
   // Manejar actualización del cultivo para la galería (persiste cambios en DB)
   const handleActualizarCultivo = async (cultivoActualizado: Cultivo) => {
     if (!cultivo) return;
@@ -125,14 +169,18 @@ export default function CultivoDetailPage() {
   };
 
   // Manejar cambio de estado activo/inactivo
+  // Al finalizar se muestra el rendimiento de la cosecha (o el formulario para registrarla)
   const handleToggleStatus = async () => {
     if (!cultivo) return;
 
     try {
-      const updated = cultivo.activo
-        ? await finalizar(cultivo.id)
-        : await reactivar(cultivo.id);
-      setCultivo(updated);
+      if (cultivo.activo) {
+        const resultado = await finalizarCultivo(cultivo.id, token || undefined);
+        setCultivo(resultado.cultivo);
+        setFinalizacion(resultado);
+      } else {
+        setCultivo(await reactivar(cultivo.id));
+      }
     } catch (err) {
       alert('Error al cambiar el estado: ' + (err instanceof Error ? err.message : 'Error desconocido'));
     }
@@ -221,6 +269,13 @@ export default function CultivoDetailPage() {
 
   const metricas = calcularMetricas(cultivo);
 
+  // Sin permisos calculados (copia offline anterior) se muestran los controles y la API decide
+  const puedeEditar = permisos?.editar ?? true;
+  const puedeEliminar = permisos?.eliminar ?? true;
+  const puedeComentar = permisos?.comentar ?? true;
+  // Las tareas son de la organización: los invitados al cultivo no las administran
+  const esInvitado = !!permisos?.acceso;
+
   return (
     <main data-testid="cultivo-main" className="min-h-screen bg-gradient-to-br from-slate-50 via-green-50 to-emerald-100">
       <div data-testid="cultivo-main-content" className="mx-auto max-w-7xl p-8 space-y-8">
@@ -250,41 +305,55 @@ export default function CultivoDetailPage() {
               >
                 {cultivo.activo ? 'Activo' : 'Finalizado'}
               </span>
+              {esInvitado && (
+                <span
+                  data-testid="cultivo-compartido-chip"
+                  className="px-3 py-1 rounded-full text-sm font-medium bg-teal-100 text-teal-800"
+                >
+                  Compartido contigo{puedeEditar ? '' : puedeComentar ? ' · Puede comentar' : ' · Solo lectura'}
+                </span>
+              )}
             </div>
 
             <div className="flex flex-wrap gap-3">
-              <button
-                onClick={() => setEditing(!editing)}
-                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors duration-200"
-                data-testid="cultivo-editar-boton"
-              >
-                <svg data-testid="cultivo-editar-icon" className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                </svg>
-                {editing ? 'Cancelar edición' : 'Editar cultivo'}
-              </button>
-
-              <button
-                onClick={handleToggleStatus}
-                data-testid="cultivo-toggle-estado-boton"
-                className={`flex items-center gap-2 px-4 py-2 font-medium rounded-lg transition-colors duration-200 ${cultivo.activo
-                    ? 'bg-yellow-600 hover:bg-yellow-700 text-white'
-                    : 'bg-green-600 hover:bg-green-700 text-white'
-                  }`}
-              >
-                {cultivo.activo ? 'Finalizar' : 'Reactivar'}
-              </button>
+              {puedeEditar && (
+                <>
+                  <button
+                    onClick={() => setEditing(!editing)}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors duration-200"
+                    data-testid="cultivo-editar-boton"
+                  >
+                    <svg data-testid="cultivo-editar-icon" className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    </svg>
+                    {editing ? 'Cancelar edición' : 'Editar cultivo'}
+                  </button>
 
-              <button
-                onClick={handleDelete}
-                data-testid="cultivo-eliminar-boton"
-                className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white font-medium rounded-lg transition-colors duration-200"
-              >
-                <svg data-testid="cultivo-eliminar-icon" className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                </svg>
-                Eliminar
-              </button>
+                  <button
+                    onClick={handleToggleStatus}
+                    data-testid="cultivo-toggle-estado-boton"
+                    className={`flex items-center gap-2 px-4 py-2 font-medium rounded-lg transition-colors duration-200 ${cultivo.activo
+                        ? 'bg-yellow-600 hover:bg-yellow-700 text-white'
+                        : 'bg-green-600 hover:bg-green-700 text-white'
+                      }`}
+                  >
+                    {cultivo.activo ? 'Finalizar' : 'Reactivar'}
+                  </button>
+                </>
+              )}
+
+              {puedeEliminar && (
+                <button
+                  onClick={handleDelete}
+                  data-testid="cultivo-eliminar-boton"
+                  className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white font-medium rounded-lg transition-colors duration-200"
+                >
+                  <svg data-testid="cultivo-eliminar-icon" className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                  Eliminar
+                </button>
+              )}
             </div>
           </div>
 
@@ -358,8 +427,11 @@ export default function CultivoDetailPage() {
           </div>
         </div>
 
+        {/* Modo sin conexión y cambios pendientes de sincronizar */}
+        <EstadoSincronizacion cultivoId={cultivo.id} onSincronizado={handleSincronizado} />
+
         {/* Formulario de edición */}
-        {editing && (
+        {editing && puedeEditar && (
           <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-8" data-testid="cultivo-form-edicion-box">
             <div className="flex items-center gap-3 mb-6">
               <div className="p-3 rounded-xl bg-blue-100 text-blue-600" data-testid="cultivo-form-edicion-icon">
@@ -515,7 +587,7 @@ export default function CultivoDetailPage() {
                   </div>
 
                   {/* Botón para cambiar a floración si está en vegetación */}
-                  {metricas.faseActual === 'vegetacion' && !cultivo.fechaInicioFloracion && (
+                  {puedeEditar && metricas.faseActual === 'vegetacion' && !cultivo.fechaInicioFloracion && (
                     <div className="mt-4 p-4 bg-yellow-50 rounded-lg border border-yellow-200" data-testid="cultivo-iniciar-floracion-box">
                       <div className="flex items-center justify-between">
                         <div>
@@ -578,6 +650,22 @@ export default function CultivoDetailPage() {
                           </p>
                         </div>
                       )}
+                      {puedeEditar && cultivo.activo !== false && (
+                        <RecomendacionesObjetivosIA
+                          contexto={prepararContextoCultivo(cultivo)}
+                          actuales={{
+                            phObjetivo: cultivo.phObjetivo,
+                            ecObjetivo: cultivo.ecObjetivo,
+                            aguaDiariaObjetivo: cultivo.aguaDiariaObjetivo,
+                            tempObjetivoVegetacion: cultivo.tempObjetivoVegetacion,
+                            tempObjetivoFloracion: cultivo.tempObjetivoFloracion,
+                            humedadObjetivoVegetacion: cultivo.humedadObjetivoVegetacion,
+                            humedadObjetivoFloracion: cultivo.humedadObjetivoFloracion
+                          }}
+                          onAplicar={handleAplicarRecomendacion}
+                          etiquetaAplicar="Guardar aceptados"
+                        />
+                      )}
                     </div>
                   </div>
 
@@ -641,6 +729,31 @@ export default function CultivoDetailPage() {
                 </div>
               </div>
 
+              {/* Plantas individuales en la grilla del espacio de cultivo */}
+              <PlantasCultivo cultivo={cultivo} soloLectura={!puedeEditar} />
+
+              {/* Cosecha y rendimiento (desde la floración o al finalizar) */}
+              {(cultivo.fechaInicioFloracion || !cultivo.activo) && (
+                <CosechaCultivo key={`cosecha-${versionCosecha}`} cultivo={cultivo} soloLectura={!puedeEditar} />
+              )}
+
+              {/* Alertas por desviación de los objetivos */}
+              <AlertasCultivo cultivoId={cultivo.id} soloLectura={!puedeEditar} />
+
+              {/* Diagnósticos del Doctor IA y su seguimiento */}
+              <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6">
+                <DiagnosticosCultivo cultivoId={cultivo.id} soloLectura={!puedeEditar} />
+              </div>
+
+              {/* Lecturas medidas frente a objetivos */}
+              <LecturasCultivo cultivo={cultivo} soloLectura={!puedeEditar} />
+
+              {/* VPD calculado con la última lectura */}
+              <VPDCultivo cultivo={cultivo} />
+
+              {/* Sensores que envían lecturas automáticamente */}
+              <DispositivosCultivo cultivoId={cultivo.id} soloLectura={!puedeEditar} />
+
               {/* Notas */}
               {cultivo.notas && (
                 <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6" data-testid="cultivo-notas">
@@ -696,34 +809,39 @@ export default function CultivoDetailPage() {
               </div>
 
               {/* Acciones rápidas */}
-              <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6" data-testid="cultivo-acciones-rapidas-box">
-                <h2 className="text-lg font-semibold text-gray-900 mb-4">Acciones Rápidas</h2>
-                <div className="space-y-3">
-                  <button
-                    onClick={() => setEditing(true)}
-                    data-testid="cultivo-accion-editar"
-                    className="w-full flex items-center gap-2 px-4 py-3 text-left bg-blue-50 hover:bg-blue-100 text-blue-700 rounded-lg transition-colors duration-200"
-                  >
-                    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                    </svg>
-                    Editar información
-                  </button>
-                  <button
-                    onClick={handleToggleStatus}
-                    data-testid="cultivo-accion-toggle-estado"
-                    className={`w-full flex items-center gap-2 px-4 py-3 text-left rounded-lg transition-colors duration-200 ${cultivo.activo
-                        ? 'bg-yellow-50 hover:bg-yellow-100 text-yellow-700'
-                        : 'bg-green-50 hover:bg-green-100 text-green-700'
-                      }`}
-                  >
-                    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={cultivo.activo ? "M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" : "M14.828 14.828a4 4 0 01-5.656 0M9 10h1.586a1 1 0 01.707.293l2.414 2.414a1 1 0 00.707.293H15a2 2 0 002-2V9a2 2 0 00-2-2h-1.172a1 1 0 01-.707-.293L10.707 4.293A1 1 0 0010 4H9a2 2 0 00-2 2v5z"} />
-                    </svg>
-                    {cultivo.activo ? 'Finalizar cultivo' : 'Reactivar cultivo'}
-                  </button>
+              {puedeEditar && (
+                <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6" data-testid="cultivo-acciones-rapidas-box">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">Acciones Rápidas</h2>
+                  <div className="space-y-3">
+                    <button
+                      onClick={() => setEditing(true)}
+                      data-testid="cultivo-accion-editar"
+                      className="w-full flex items-center gap-2 px-4 py-3 text-left bg-blue-50 hover:bg-blue-100 text-blue-700 rounded-lg transition-colors duration-200"
+                    >
+                      <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                      </svg>
+                      Editar información
+                    </button>
+                    <button
+                      onClick={handleToggleStatus}
+                      data-testid="cultivo-accion-toggle-estado"
+                      className={`w-full flex items-center gap-2 px-4 py-3 text-left rounded-lg transition-colors duration-200 ${cultivo.activo
+                          ? 'bg-yellow-50 hover:bg-yellow-100 text-yellow-700'
+                          : 'bg-green-50 hover:bg-green-100 text-green-700'
+                        }`}
+                    >
+                      <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={cultivo.activo ? "M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" : "M14.828 14.828a4 4 0 01-5.656 0M9 10h1.586a1 1 0 01.707.293l2.414 2.414a1 1 0 00.707.293H15a2 2 0 002-2V9a2 2 0 00-2-2h-1.172a1 1 0 01-.707-.293L10.707 4.293A1 1 0 0010 4H9a2 2 0 00-2 2v5z"} />
+                      </svg>
+                      {cultivo.activo ? 'Finalizar cultivo' : 'Reactivar cultivo'}
+                    </button>
+                  </div>
                 </div>
-              </div>
+              )}
+
+              {/* Lista de acceso: compartir el cultivo fuera de la organización */}
+              {permisos?.compartir && <CompartirCultivo cultivoId={cultivo.id} />}
             </div>
           </div>
         )}
@@ -731,7 +849,7 @@ export default function CultivoDetailPage() {
         {/* Vista del Chat con IA */}
         {vistaActiva === 'chat' && (
           <div className="max-w-4xl mx-auto" data-testid="cultivo-tabview-chat">
-            <ChatIA cultivo={cultivo} />
+            <ChatIA cultivo={cultivo} soloLectura={!puedeComentar} />
           </div>
         )}
 
@@ -741,6 +859,7 @@ export default function CultivoDetailPage() {
             <ComentariosCultivo
               cultivoId={cultivo.id}
               nombreCultivo={cultivo.nombre}
+              puedeComentar={puedeComentar}
             />
           </div>
         )}
@@ -751,6 +870,7 @@ export default function CultivoDetailPage() {
             <GaleriaCultivo
               cultivo={cultivo}
               onActualizarCultivo={handleActualizarCultivo}
+              soloLectura={!puedeEditar}
             />
           </div>
         )}
@@ -759,6 +879,7 @@ export default function CultivoDetailPage() {
         {vistaActiva === 'planificacion' && (
           <div className="space-y-8" data-testid="cultivo-tabview-planificacion">
             <CalendarioCultivos
+              key={`calendario-${versionTareas}`}
               cultivoId={cultivo.id}
               onTareaClick={(tarea) => {
                 // Abrir modal con detalles de la tarea
@@ -767,15 +888,65 @@ export default function CultivoDetailPage() {
               data-testid="cultivo-calendario"
             />
 
-            <GestionTareasCultivo
-              cultivoId={cultivo.id}
-              data-testid="cultivo-gestion-tareas"
-            />
+            {!esInvitado && (
+              <>
+                <GestionTareasCultivo
+                  key={`tareas-${versionTareas}`}
+                  cultivoId={cultivo.id}
+                  data-testid="cultivo-gestion-tareas"
+                />
+
+                <SuscripcionCalendario
+                  cultivoId={cultivo.id}
+                  onImportado={() => setVersionTareas(v => v + 1)}
+                />
+              </>
+            )}
+
+            <NotificacionesPush />
           </div>
         )}
 
       </div>
 
+      {/* Modal de cultivo finalizado con el rendimiento de la cosecha */}
+      {finalizacion && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" data-testid="cultivo-modal-finalizado-overlay">
+          <div className="bg-white rounded-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto shadow-2xl" data-testid="cultivo-modal-finalizado">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-xl font-bold text-gray-900">Cultivo finalizado</h3>
+                  <p className="text-gray-600 text-sm">
+                    {finalizacion.cosecha
+                      ? 'Rendimiento obtenido en este cultivo'
+                      : 'Registra lo cosechado para calcular el rendimiento'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => {
+                    setFinalizacion(null);
+                    setVersionCosecha(v => v + 1);
+                  }}
+                  className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                  data-testid="cultivo-modal-finalizado-cerrar"
+                >
+                  <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <CosechaCultivo
+                cultivo={finalizacion.cultivo}
+                cosechaInicial={finalizacion.cosecha}
+                abrirFormulario
+                className="shadow-none border-gray-100"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Modal de detalles de tarea */}
       {tareaSeleccionada && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" data-testid="cultivo-modal-tarea-overlay">
@@ -0,0 +1,92 @@
+"use client";
+
+import { useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import { aceptarInvitacion } from '@/lib/services/accesosCultivo';
+
+/**
+ * 🤝 PÁGINA DE INVITACIÓN A UN CULTIVO COMPARTIDO
+ *
+ * Funcionalidades:
+ * - Llega desde el enlace del email (?token=); el middleware exige sesión y
+ *   vuelve acá después del login o registro
+ * - Acepta la invitación con el email de la sesión y abre el cultivo
+ * - La aceptación es explícita (botón) porque el enlace sirve una sola vez
+ */
+function InvitacionForm() {
+  // 🎣 HOOKS
+  const sp = useSearchParams();
+  const router = useRouter();
+  const { token, user } = useAuth();
+  const tokenInvitacion = sp.get('token');
+
+  // 📊 ESTADOS
+  const [err, setErr] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // ✅ Aceptar y abrir el cultivo
+  async function handleAceptar() {
+    if (!tokenInvitacion) return;
+    try {
+      setLoading(true);
+      setErr(null);
+      const acceso = await aceptarInvitacion(tokenInvitacion, token || undefined);
+      router.replace(`/cultivo/${acceso.cultivoId}`);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : 'No se pudo aceptar la invitación');
+      setLoading(false);
+    }
+  }
+
+  return (
+    <main className="mx-auto max-w-sm p-6 space-y-4" data-testid="invitacion-page">
+      <h1 className="text-2xl font-bold">Invitación a un cultivo</h1>
+
+      {!tokenInvitacion ? (
+        <p className="text-sm text-gray-600" data-testid="invitacion-sin-token">
+          El enlace no es válido. Pedile a quien te invitó que te envíe una invitación nueva.
+        </p>
+      ) : (
+        <div className="space-y-3 rounded-xl border p-4" data-testid="invitacion-box">
+          <p className="text-sm text-gray-600">
+            Te compartieron un cultivo. Al aceptar vas a poder verlo{user?.email ? ` con tu cuenta ${user.email}` : ''}.
+          </p>
+          {err && <p className="text-red-600 text-sm" role="alert" data-testid="invitacion-error-message">{err}</p>}
+          <button
+            onClick={handleAceptar}
+            disabled={loading}
+            data-testid="invitacion-aceptar-boton"
+            className="rounded-lg border px-3 py-2 disabled:opacity-50 w-full hover:bg-gray-50 transition-colors"
+            aria-busy={loading}
+          >
+            {loading ? 'Aceptando…' : 'Aceptar invitación'}
+          </button>
+        </div>
+      )}
+
+      <div className="text-center">
+        <Link href="/" className="text-sm text-blue-600 hover:underline" data-testid="invitacion-inicio-link">
+          Ir al inicio
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+// Componente principal de la página que envuelve el formulario en Suspense
+export default function InvitacionPage() {
+  return (
+    <Suspense fallback={
+      <main className="mx-auto max-w-sm p-6 space-y-4">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Cargando...</p>
+        </div>
+      </main>
+    }>
+      <InvitacionForm />
+    </Suspense>
+  );
+}
@@ -4,6 +4,8 @@ import React, { useState, useMemo } from "react";
 import RequireAuth from "@/lib/auth/RequireAuth";
 import Link from "next/link";
 import { useCultivos } from "@/lib/hooks/useCultivos";
+import { useGeneticas } from "@/lib/hooks/useGeneticas";
+import { buscarGeneticaDeCultivo, estimarCosecha, estimarFase } from "@/lib/utils/geneticas";
 
 // Definition of the detailed content structure
 // Definition of the detailed content structure
@@ -15,6 +17,7 @@ import { useCultivos } from "@/lib/hooks/useCultivos";
 
 const AcademiaPage = () => {
     const { cultivos, loading } = useCultivos();
+    const { geneticas } = useGeneticas();
     const [selectedCropId, setSelectedCropId] = useState<string>('');
 
     // State for the modal
@@ -33,16 +36,20 @@ const AcademiaPage = () => {
         return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     }, [selectedCrop]);
 
-    // Determine current stage logic (Simplified for demo)
+    // Strain profile from the catalog (generic thresholds when missing)
+    const genetica = useMemo(() =>
+        selectedCrop ? buscarGeneticaDeCultivo(selectedCrop, geneticas) : undefined,
+        [selectedCrop, geneticas]);
+
+    const estimacionCosecha = useMemo(() =>
+        selectedCrop ? estimarCosecha(selectedCrop, genetica) : null,
+        [selectedCrop, genetica]);
+
+    // Determine current stage from the strain's vegetative and flowering durations
     const currentStageId = useMemo(() => {
         if (!selectedCrop) return null;
-        if (selectedCrop.fechaInicioFloracion && new Date(selectedCrop.fechaInicioFloracion) <= new Date()) {
-            return 'floracion';
-        }
-        if (daysSinceStart < 10) return 'germinacion';
-        if (daysSinceStart < 60) return 'vegetacion'; // Generic threshold
-        return 'floracion';
-    }, [selectedCrop, daysSinceStart]);
+        return estimarFase(selectedCrop, genetica) ?? 'germinacion';
+    }, [selectedCrop, genetica]);
 
     const stages = [
         {
@@ -233,6 +240,19 @@ const AcademiaPage = () => {
                                         Edad: <span className="font-semibold text-white">{daysSinceStart} días</span>
                                         {' '}| Fase probable: <span className="font-semibold text-white uppercase">{currentStageId}</span>
                                     </p>
+                                    {estimacionCosecha && (
+                                        <p className="text-green-100 text-sm mt-1" data-testid="academia-cosecha-estimada">
+                                            Cosecha estimada: <span className="font-semibold text-white">
+                                                {new Date(estimacionCosecha.fechaEstimada + 'T00:00:00').toLocaleDateString('es-AR')}
+                                            </span>
+                                            {' '}({estimacionCosecha.diasRestantes > 0
+                                                ? `faltan ${estimacionCosecha.diasRestantes} días`
+                                                : 'ya se cumplió la floración'})
+                                            {' '}· {genetica
+                                                ? `${genetica.nombre}: ${genetica.semanasFloracion} semanas de floración${genetica.autofloreciente ? ' (autofloreciente)' : ''}`
+                                                : `valores genéricos (${estimacionCosecha.semanasFloracion} semanas de floración)`}
+                                        </p>
+                                    )}
                                 </div>
                                 {/* Dynamic Tip */}
                                 <div className="bg-white/10 backdrop-blur-sm rounded-lg p-3 max-w-md border border-white/20">
@@ -242,7 +262,9 @@ const AcademiaPage = () => {
                                             ? 'Asegúrate de mantener la humedad alta (~65%) para potenciar el crecimiento foliar.'
                                             : currentStageId === 'floracion'
                                                 ? 'Reduce la humedad al 45% para evitar hongos en los cogollos.'
-                                                : 'Mantén el sustrato húmedo pero no empapado.'}
+                                                : currentStageId === 'cosecha'
+                                                    ? 'Revisa los tricomas con lupa: cuando la mayoría estén lechosos es momento de cortar.'
+                                                    : 'Mantén el sustrato húmedo pero no empapado.'}
                                     </p>
                                 </div>
                             </div>
@@ -4,10 +4,14 @@ import React, { useState, useMemo } from "react";
 import RequireAuth from "@/lib/auth/RequireAuth";
 import Link from "next/link";
 import { useCultivos } from "@/lib/hooks/useCultivos";
+import { useGeneticas } from "@/lib/hooks/useGeneticas";
+import { analizarAmbiente, obtenerFaseVPD, ETIQUETAS_FASE_VPD } from "@/lib/utils/vpd";
+import { buscarGeneticaDeCultivo, describirProporcion, estimarCosecha, ETIQUETAS_ESTIRAMIENTO } from "@/lib/utils/geneticas";
 // import type { Cultivo } from "@/types/cultivo";
 
 const RecomendacionesPage = () => {
     const { cultivos, loading } = useCultivos();
+    const { geneticas } = useGeneticas();
     const [selectedCropId, setSelectedCropId] = useState<string>('all');
 
     const selectedCrop = useMemo(() =>
@@ -34,9 +38,27 @@ const RecomendacionesPage = () => {
         }
     ];
 
+    // Strain profile and harvest estimate (generic durations when the strain is not in the catalog)
+    const genetica = useMemo(() =>
+        selectedCrop ? buscarGeneticaDeCultivo(selectedCrop, geneticas) : undefined,
+        [selectedCrop, geneticas]);
+
+    const estimacionCosecha = useMemo(() =>
+        selectedCrop ? estimarCosecha(selectedCrop, genetica) : null,
+        [selectedCrop, genetica]);
+
     // Helper to determine phase
     const isFlowering = selectedCrop?.fechaInicioFloracion && new Date(selectedCrop.fechaInicioFloracion) <= new Date();
 
+    // VPD resultante de los objetivos de temperatura y humedad de la fase actual
+    const ambienteObjetivo = useMemo(() => {
+        if (!selectedCrop) return null;
+        const temp = isFlowering ? selectedCrop.tempObjetivoFloracion : selectedCrop.tempObjetivoVegetacion;
+        const humedad = isFlowering ? selectedCrop.humedadObjetivoFloracion : selectedCrop.humedadObjetivoVegetacion;
+        if (temp === undefined || humedad === undefined) return null;
+        return analizarAmbiente(temp, humedad, obtenerFaseVPD(selectedCrop));
+    }, [selectedCrop, isFlowering]);
+
     return (
         <RequireAuth>
             <div className="min-h-screen bg-gray-50 pb-20">
@@ -157,6 +179,26 @@ const RecomendacionesPage = () => {
                                                         <span className="text-gray-400 text-xs text-center border px-2 py-1 rounded bg-gray-50">Verificar</span>
                                                     </td>
                                                 </tr>
+                                                {/* VPD Row */}
+                                                <tr className="hover:bg-gray-50/50">
+                                                    <td className="px-6 py-4 font-medium text-gray-900">VPD (hoja)</td>
+                                                    <td className="px-6 py-4 font-bold text-gray-800">
+                                                        {ambienteObjetivo ? `${ambienteObjetivo.vpd} kPa` : '---'}
+                                                    </td>
+                                                    <td className="px-6 py-4 text-green-600 font-medium">
+                                                        {ambienteObjetivo
+                                                            ? `${ambienteObjetivo.rango.minimo} - ${ambienteObjetivo.rango.maximo} kPa (${ETIQUETAS_FASE_VPD[ambienteObjetivo.fase]})`
+                                                            : '---'}
+                                                    </td>
+                                                    <td className="px-6 py-4">
+                                                        {!ambienteObjetivo ? <span className="text-gray-400">Sin datos</span> :
+                                                            ambienteObjetivo.estado === 'optimo'
+                                                                ? <span className="text-green-600 font-bold text-xs bg-green-50 px-2 py-1 rounded-full">Óptimo</span>
+                                                                : <span className="text-red-500 font-bold text-xs bg-red-50 px-2 py-1 rounded-full" title={`Humedad sugerida: ${ambienteObjetivo.humedadRecomendada.minimo}-${ambienteObjetivo.humedadRecomendada.maximo}%`}>
+                                                                    {ambienteObjetivo.estado === 'bajo' ? 'VPD bajo' : 'VPD alto'}
+                                                                </span>}
+                                                    </td>
+                                                </tr>
                                             </tbody>
                                         </table>
                                     </div>
@@ -169,6 +211,63 @@ const RecomendacionesPage = () => {
                                 </div>
                             )}
 
+                            {/* STRAIN & HARVEST CARD */}
+                            {selectedCrop && (
+                                <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6" data-testid="recomendaciones-genetica">
+                                    <h3 className="font-bold text-lg text-gray-900 flex items-center gap-2 mb-4">
+                                        <span className="text-2xl">🧬</span> Genética y Cosecha
+                                    </h3>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+                                        <div className="space-y-1">
+                                            {genetica ? (
+                                                <>
+                                                    <p className="font-semibold text-gray-900">{genetica.nombre}</p>
+                                                    {genetica.banco && <p className="text-gray-600">Banco: {genetica.banco}</p>}
+                                                    {describirProporcion(genetica.porcentajeIndica) && (
+                                                        <p className="text-gray-600">{describirProporcion(genetica.porcentajeIndica)}</p>
+                                                    )}
+                                                    <p className="text-gray-600">
+                                                        {genetica.semanasFloracion} semanas de floración
+                                                        {genetica.autofloreciente ? ' · Autofloreciente' : ' · Fotoperiódica'}
+                                                    </p>
+                                                    {genetica.estiramiento && (
+                                                        <p className="text-gray-600">Estiramiento: {ETIQUETAS_ESTIRAMIENTO[genetica.estiramiento]}</p>
+                                                    )}
+                                                </>
+                                            ) : (
+                                                <p className="text-gray-500">
+                                                    {selectedCrop.genetica
+                                                        ? `"${selectedCrop.genetica}" no está en tu catálogo de genéticas.`
+                                                        : 'El cultivo no tiene genética asignada.'}
+                                                    {' '}Agrégala desde la edición del cultivo para afinar la estimación.
+                                                </p>
+                                            )}
+                                        </div>
+                                        <div className="space-y-1">
+                                            {estimacionCosecha ? (
+                                                <>
+                                                    <p className="text-gray-500 uppercase text-xs font-semibold tracking-wider">Cosecha estimada</p>
+                                                    <p className="text-2xl font-bold text-green-700">
+                                                        {new Date(estimacionCosecha.fechaEstimada + 'T00:00:00').toLocaleDateString('es-AR')}
+                                                    </p>
+                                                    <p className="text-gray-600">
+                                                        {estimacionCosecha.diasRestantes > 0
+                                                            ? `Faltan ${estimacionCosecha.diasRestantes} días`
+                                                            : 'Ya se cumplió la floración esperada'}
+                                                    </p>
+                                                    <p className="text-xs text-gray-400">
+                                                        {estimacionCosecha.desdeInicioFloracion ? 'Contando desde el inicio de floración' : 'Contando desde la fecha de comienzo'}
+                                                        {' '}con {estimacionCosecha.fuente === 'genetica' ? 'la duración de la genética' : 'valores genéricos'}.
+                                                    </p>
+                                                </>
+                                            ) : (
+                                                <p className="text-gray-500">Carga la fecha de comienzo o de inicio de floración para estimar la cosecha.</p>
+                                            )}
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Recommendations Feed */}
                             <h3 className="font-bold text-gray-900 text-lg">
                                 {selectedCrop ? 'Alertas Específicas' : 'Alertas Recientes'}
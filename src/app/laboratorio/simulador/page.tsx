@@ -6,11 +6,16 @@ import Link from "next/link";
 import { useAuth } from "@/lib/auth/AuthProvider";
 import { useCultivos } from "@/lib/hooks/useCultivos";
 import { enviarMensajeIA, procesarImagenes, convertirUrlABase64, prepararContextoCultivo } from "@/lib/services/chat";
+import { diagnosticarImagen } from "@/lib/services/diagnosticos";
+import TarjetaDiagnostico from "@/app/components/TarjetaDiagnostico";
 import type { ImagenMensaje } from "@/types/chat";
+import type { Diagnostico } from "@/types/diagnostico";
 import type { Cultivo } from "@/types/cultivo";
+import type { FaseVPD } from "@/types/vpd";
+import { analizarAmbiente, OFFSET_HOJA_POR_DEFECTO, ETIQUETAS_FASE_VPD } from "@/lib/utils/vpd";
 
 const SimuladorPage = () => {
-    const { user } = useAuth();
+    const { user, token } = useAuth();
     const { cultivos, loading: loadingCultivos } = useCultivos();
 
     // Tabs
@@ -21,6 +26,7 @@ const SimuladorPage = () => {
     const [selectedImage, setSelectedImage] = useState<{ url: string; file?: File; id?: string; fromGallery?: boolean } | null>(null);
     const [analyzing, setAnalyzing] = useState(false);
     const [diagnosis, setDiagnosis] = useState<string | null>(null);
+    const [diagnosticoGuardado, setDiagnosticoGuardado] = useState<Diagnostico | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [cultivoSeleccionadoId, setCultivoSeleccionadoId] = useState<string>('');
     const [galleryImages, setGalleryImages] = useState<Cultivo['galeria']>([]);
@@ -28,6 +34,18 @@ const SimuladorPage = () => {
     // States for Environment Simulator
     const [temp, setTemp] = useState(24);
     const [humidity, setHumidity] = useState(60);
+    const [leafOffset, setLeafOffset] = useState(OFFSET_HOJA_POR_DEFECTO);
+    const [faseVPD, setFaseVPD] = useState<FaseVPD>('vegetacion');
+    const ambiente = React.useMemo(
+        () => analizarAmbiente(temp, humidity, faseVPD, leafOffset),
+        [temp, humidity, faseVPD, leafOffset]
+    );
+
+    // Preseleccionar el cultivo indicado en la URL (?cultivo=ID, desde el historial de diagnósticos)
+    React.useEffect(() => {
+        const cultivoId = new URLSearchParams(window.location.search).get('cultivo');
+        if (cultivoId) setCultivoSeleccionadoId(cultivoId);
+    }, []);
 
     // Update gallery images when crop selection changes
     React.useEffect(() => {
@@ -37,6 +55,8 @@ const SimuladorPage = () => {
         } else {
             setGalleryImages([]);
         }
+        // Una imagen de la galería solo se puede vincular a su propio cultivo
+        setSelectedImage(prev => prev?.fromGallery ? null : prev);
     }, [cultivoSeleccionadoId, cultivos]);
 
     // Handle file upload
@@ -47,6 +67,7 @@ const SimuladorPage = () => {
             const url = URL.createObjectURL(file);
             setSelectedImage({ url, file, fromGallery: false });
             setDiagnosis(null);
+            setDiagnosticoGuardado(null);
             setError(null);
         }
     };
@@ -63,6 +84,7 @@ const SimuladorPage = () => {
                 const url = URL.createObjectURL(file);
                 setSelectedImage({ url, file, fromGallery: false });
                 setDiagnosis(null);
+                setDiagnosticoGuardado(null);
                 setError(null);
             }
         }
@@ -77,6 +99,7 @@ const SimuladorPage = () => {
             fromGallery: true
         });
         setDiagnosis(null);
+        setDiagnosticoGuardado(null);
         setError(null);
         // Scroll to diagnosis area
         window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -89,6 +112,7 @@ const SimuladorPage = () => {
         setAnalyzing(true);
         setError(null);
         setDiagnosis(null);
+        setDiagnosticoGuardado(null);
 
         try {
             let processedImages: ImagenMensaje[] = [];
@@ -116,6 +140,18 @@ const SimuladorPage = () => {
             const cultivo = cultivos.find(c => c.id === cultivoSeleccionadoId);
             const contexto = cultivo ? prepararContextoCultivo(cultivo) : { id: 'simulador', nombre: 'Simulador' };
 
+            // Con un cultivo seleccionado el diagnóstico se guarda en su historial
+            const imagen = processedImages[0];
+            if (cultivo && imagen?.base64) {
+                const guardado = await diagnosticarImagen(cultivo.id, {
+                    contexto,
+                    imagen: { base64: imagen.base64, mimeType: imagen.mimeType, nombre: imagen.name },
+                    imagenId: selectedImage.fromGallery ? selectedImage.id : undefined
+                }, undefined, token || undefined);
+                setDiagnosticoGuardado(guardado);
+                return;
+            }
+
             // Send to AI
             const prompt = "Actúa como un agrónomo experto. Analiza esta imagen detalladamente para detectar plagas, deficiencias de nutrientes, enfermedades o problemas de salud en la planta. Proporciona un diagnóstico claro, posibles causas y recomendaciones de tratamiento paso a paso.";
 
@@ -125,7 +161,8 @@ const SimuladorPage = () => {
                 contexto,
                 processedImages,
                 undefined,
-                user?.email
+                user?.email,
+                token || undefined
             );
 
             setDiagnosis(response);
@@ -235,6 +272,7 @@ const SimuladorPage = () => {
                                                 onClick={() => {
                                                     setSelectedImage(null);
                                                     setDiagnosis(null);
+                                                    setDiagnosticoGuardado(null);
                                                 }}
                                                 className="absolute top-4 right-4 bg-white/90 p-2 rounded-full shadow-lg hover:bg-red-50 hover:text-red-600 transition"
                                                 title="Eliminar imagen"
@@ -283,6 +321,26 @@ const SimuladorPage = () => {
                                 </div>
                             )}
 
+                            {diagnosticoGuardado && (
+                                <div className="space-y-2 animate-fade-in" data-testid="simulador-diagnostico-guardado">
+                                    <div className="flex items-center justify-between">
+                                        <h3 className="font-bold text-indigo-900 flex items-center gap-2">
+                                            <span className="text-xl">📋</span> Resultado del Análisis
+                                        </h3>
+                                        <Link
+                                            href={`/cultivo/${diagnosticoGuardado.cultivoId}`}
+                                            className="text-sm text-indigo-600 hover:text-indigo-800"
+                                        >
+                                            Ver historial del cultivo →
+                                        </Link>
+                                    </div>
+                                    <TarjetaDiagnostico
+                                        diagnostico={diagnosticoGuardado}
+                                        onActualizado={setDiagnosticoGuardado}
+                                    />
+                                </div>
+                            )}
+
                             {diagnosis && (
                                 <div className="bg-white rounded-2xl shadow-lg border border-indigo-100 overflow-hidden animate-fade-in">
                                     <div className="bg-indigo-50/50 p-4 border-b border-indigo-100 flex items-center gap-2">
@@ -293,6 +351,9 @@ const SimuladorPage = () => {
                                         <div className="whitespace-pre-wrap text-gray-700 leading-relaxed">
                                             {diagnosis}
                                         </div>
+                                        <p className="mt-4 text-sm text-gray-500">
+                                            Selecciona un cultivo para guardar los diagnósticos en su historial y convertir las acciones en tareas.
+                                        </p>
                                     </div>
                                 </div>
                             )}
@@ -412,6 +473,38 @@ const SimuladorPage = () => {
                                             <span>90%</span>
                                         </div>
                                     </div>
+
+                                    <div>
+                                        <div className="flex justify-between mb-2">
+                                            <label className="font-medium text-gray-700">Temperatura de hoja (°C respecto al aire)</label>
+                                            <span className="font-bold text-blue-600">{leafOffset > 0 ? `+${leafOffset}` : leafOffset}°C</span>
+                                        </div>
+                                        <input
+                                            type="range" min="-5" max="2" step="0.5"
+                                            value={leafOffset}
+                                            onChange={(e) => setLeafOffset(parseFloat(e.target.value))}
+                                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                                        />
+                                        <div className="flex justify-between text-xs text-gray-400 mt-1">
+                                            <span>-5°C (LED)</span>
+                                            <span>+2°C (HPS)</span>
+                                        </div>
+                                    </div>
+
+                                    <div>
+                                        <label className="font-medium text-gray-700 block mb-2">Fase</label>
+                                        <div className="grid grid-cols-3 gap-2">
+                                            {(Object.keys(ETIQUETAS_FASE_VPD) as FaseVPD[]).map(fase => (
+                                                <button
+                                                    key={fase}
+                                                    onClick={() => setFaseVPD(fase)}
+                                                    className={`px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${faseVPD === fase ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}`}
+                                                >
+                                                    {ETIQUETAS_FASE_VPD[fase]}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
                                 </div>
                             </div>
 
@@ -422,9 +515,28 @@ const SimuladorPage = () => {
                                 <h2 className="text-xl font-bold mb-6 relative z-10">Predicción IA</h2>
 
                                 <div className="space-y-6 relative z-10">
-                                    <div className="flex items-center justify-between p-4 bg-white/10 rounded-xl">
-                                        <span className="text-sm text-gray-300">VPD (Déficit de Presión)</span>
-                                        <span className="text-xl font-mono font-bold text-emerald-400">1.2 kPa</span>
+                                    <div className="p-4 bg-white/10 rounded-xl">
+                                        <div className="flex items-center justify-between">
+                                            <span className="text-sm text-gray-300">VPD (Déficit de Presión)</span>
+                                            <span className={`text-xl font-mono font-bold ${ambiente.estado === 'optimo' ? 'text-emerald-400' : ambiente.estado === 'bajo' ? 'text-sky-400' : 'text-orange-400'}`}>
+                                                {ambiente.vpd} kPa
+                                            </span>
+                                        </div>
+                                        <span className="text-xs text-gray-400">
+                                            Objetivo {ETIQUETAS_FASE_VPD[ambiente.fase]}: {ambiente.rango.minimo} - {ambiente.rango.maximo} kPa
+                                            {ambiente.estado !== 'optimo' && ` · humedad sugerida ${ambiente.humedadRecomendada.minimo}-${ambiente.humedadRecomendada.maximo}%`}
+                                        </span>
+                                    </div>
+
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div className="p-4 bg-white/10 rounded-xl">
+                                            <span className="text-sm text-gray-300 block">Punto de rocío</span>
+                                            <span className="text-lg font-mono font-bold">{ambiente.puntoRocio} °C</span>
+                                        </div>
+                                        <div className="p-4 bg-white/10 rounded-xl">
+                                            <span className="text-sm text-gray-300 block">Humedad absoluta</span>
+                                            <span className="text-lg font-mono font-bold">{ambiente.humedadAbsoluta} g/m³</span>
+                                        </div>
                                     </div>
 
                                     <div className="p-4 bg-white/10 rounded-xl">
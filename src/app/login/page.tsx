@@ -1,8 +1,11 @@
 "use client";
 
 import { useState, Suspense, useEffect } from 'react';
-import { useAuth } from '@/lib/auth/AuthProvider';
+import Link from 'next/link';
+import { useAuth, ErrorAutenticacion } from '@/lib/auth/AuthProvider';
 import { useSearchParams } from 'next/navigation';
+import { destinoSeguro } from '@/lib/auth/redireccion';
+import { reenviarVerificacionEmail } from '@/lib/services/cuenta';
 
 /**
  * 🔐 PÁGINA DE LOGIN/REGISTRO - Autenticación de Usuarios
@@ -12,6 +15,7 @@ import { useSearchParams } from 'next/navigation';
  * - Validaciones y errores
  * - Estados de carga
  * - Redirección post-auth
+ * - Verificación de email pendiente (reenvío del enlace) y acceso a recuperar contraseña
  * - UI accesible y simple
  */
 function LoginForm() {
@@ -27,9 +31,11 @@ function LoginForm() {
   const [err, setErr] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [emailSinVerificar, setEmailSinVerificar] = useState(false); // Ofrece reenviar el enlace
+  const [reenviando, setReenviando] = useState(false);
 
-  // 🎯 Destino post-auth - Decodificar URL
-  const next = sp.get('next') ? decodeURIComponent(sp.get('next')!) : '/cultivo';
+  // 🎯 Destino post-auth - Solo rutas internas y nunca /login (evita bucles)
+  const next = destinoSeguro(sp.get('next'));
 
   // 🔄 REDIRECCIÓN AUTOMÁTICA PARA USUARIOS YA AUTENTICADOS
   useEffect(() => {
@@ -56,7 +62,17 @@ function LoginForm() {
       setErr('El pago fue cancelado. Puedes intentarlo nuevamente.');
     } else if (status === 'pending') {
       setErr('El pago está siendo procesado. Te notificaremos cuando se complete.');
+    } else if (status === 'email-verificado') {
+      setSuccessMessage('¡Email confirmado! Ya podés iniciar sesión.');
+    } else if (status === 'email-token-invalido') {
+      setErr('El enlace de verificación no es válido o ya venció. Iniciá sesión para pedir uno nuevo.');
+    } else if (status === 'verificar-email') {
+      setSuccessMessage('Cuenta creada. Te enviamos un email para confirmarla antes de iniciar sesión.');
+      setEmailSinVerificar(true);
     }
+
+    const emailParam = sp.get('email');
+    if (emailParam) setEmail(emailParam);
   }, [sp]);
 
   // 🧮 Helpers de validación
@@ -68,9 +84,24 @@ function LoginForm() {
   const handleToggleMode = () => {
     setErr(null);
     setSuccessMessage(null);
+    setEmailSinVerificar(false);
     setMode((m) => (m === 'login' ? 'register' : 'login'));
   };
 
+  // ✉️ Reenviar el enlace de verificación
+  async function handleReenviarVerificacion() {
+    try {
+      setReenviando(true);
+      setErr(null);
+      const mensaje = await reenviarVerificacionEmail(email.trim());
+      setSuccessMessage(mensaje || 'Te enviamos un enlace nuevo.');
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : 'No se pudo reenviar el email');
+    } finally {
+      setReenviando(false);
+    }
+  }
+
   // 🚀 Submit
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -78,6 +109,7 @@ function LoginForm() {
       setLoading(true);
       setErr(null);
       setSuccessMessage(null);
+      setEmailSinVerificar(false);
 
       if (!isEmailValid) {
         throw new Error('Email inválido');
@@ -104,6 +136,7 @@ function LoginForm() {
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : 'Error de autenticación';
       setErr(msg);
+      setEmailSinVerificar(e instanceof ErrorAutenticacion && e.code === 'email_no_verificado');
     } finally {
       setLoading(false);
     }
@@ -121,6 +154,18 @@ function LoginForm() {
 
       {err && <p className="text-red-600 text-sm" role="alert" data-testid="login-error-message">{err}</p>}
 
+      {emailSinVerificar && (
+        <button
+          type="button"
+          onClick={handleReenviarVerificacion}
+          disabled={reenviando || !isEmailValid}
+          data-testid="login-reenviar-verificacion"
+          className="text-sm text-blue-600 hover:underline disabled:opacity-50"
+        >
+          {reenviando ? 'Enviando…' : 'Reenviar email de confirmación'}
+        </button>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-3 rounded-xl border p-4" aria-label={mode === 'login' ? 'Formulario de inicio de sesión' : 'Formulario de registro'} data-testid="login-form">
         <div className="grid gap-2">
           <label htmlFor="email" className="text-sm font-medium">Email</label>
@@ -192,6 +237,14 @@ function LoginForm() {
           {loading ? (mode === 'login' ? 'Ingresando…' : 'Creando cuenta…') : (mode === 'login' ? 'Entrar' : 'Crear cuenta')}
         </button>
 
+        {mode === 'login' && (
+          <div className="text-right">
+            <Link href="/reset-password" className="text-sm text-gray-600 hover:underline" data-testid="login-forgot-password-link">
+              ¿Olvidaste tu contraseña?
+            </Link>
+          </div>
+        )}
+
         <div className="text-center">
           <button
             type="button"
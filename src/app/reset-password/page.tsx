@@ -0,0 +1,176 @@
+"use client";
+
+import { useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { solicitarRestablecimiento, restablecerPassword } from '@/lib/services/cuenta';
+
+/**
+ * 🔑 PÁGINA DE RESTABLECIMIENTO DE CONTRASEÑA
+ *
+ * Funcionalidades:
+ * - Sin token: pide el email y envía el enlace de restablecimiento
+ * - Con ?token=: formulario para elegir la contraseña nueva
+ * - Al terminar vuelve al login (las sesiones abiertas se cierran en el servidor)
+ */
+function ResetPasswordForm() {
+  // 🎣 HOOKS
+  const sp = useSearchParams();
+  const token = sp.get('token');
+
+  // 📊 ESTADOS
+  const [email, setEmail] = useState('');
+  const [pwd, setPwd] = useState('');
+  const [pwd2, setPwd2] = useState('');
+  const [err, setErr] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // 🧮 Helpers de validación
+  const isEmailValid = email.includes('@');
+  const isPwdValid = pwd.length >= 6;
+  const isPwdMatch = pwd === pwd2;
+
+  // 📨 Pedir el enlace
+  async function handleSolicitar(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setLoading(true);
+      setErr(null);
+      if (!isEmailValid) {
+        throw new Error('Email inválido');
+      }
+      setSuccessMessage(await solicitarRestablecimiento(email.trim()));
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : 'No se pudo enviar el enlace');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // 🔑 Guardar la contraseña nueva
+  async function handleRestablecer(e: React.FormEvent) {
+    e.preventDefault();
+    if (!token) return;
+    try {
+      setLoading(true);
+      setErr(null);
+      if (!isPwdValid) {
+        throw new Error('La contraseña debe tener al menos 6 caracteres');
+      }
+      if (!isPwdMatch) {
+        throw new Error('Las contraseñas no coinciden');
+      }
+      setSuccessMessage(await restablecerPassword(token, pwd));
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : 'No se pudo restablecer la contraseña');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <main className="mx-auto max-w-sm p-6 space-y-4" data-testid="reset-password-page">
+      <h1 className="text-2xl font-bold">{token ? 'Elegí una contraseña nueva' : 'Restablecer contraseña'}</h1>
+
+      {successMessage && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3" data-testid="reset-password-success-message">
+          <p className="text-green-800 text-sm">{successMessage}</p>
+        </div>
+      )}
+
+      {err && <p className="text-red-600 text-sm" role="alert" data-testid="reset-password-error-message">{err}</p>}
+
+      {!successMessage && !token && (
+        <form onSubmit={handleSolicitar} className="space-y-3 rounded-xl border p-4" aria-label="Pedir enlace de restablecimiento" data-testid="reset-password-request-form">
+          <p className="text-sm text-gray-600">Ingresá el email de tu cuenta y te enviamos un enlace para elegir una contraseña nueva.</p>
+          <div className="grid gap-2">
+            <label htmlFor="email" className="text-sm font-medium">Email</label>
+            <input
+              id="email"
+              data-testid="reset-password-email-input"
+              type="email"
+              className="rounded border p-2"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              placeholder="tu@email.com"
+              required
+              aria-invalid={!isEmailValid}
+            />
+          </div>
+          <button
+            disabled={loading || !email}
+            data-testid="reset-password-submit-button"
+            className="rounded-lg border px-3 py-2 disabled:opacity-50 w-full hover:bg-gray-50 transition-colors"
+            aria-busy={loading}
+          >
+            {loading ? 'Enviando…' : 'Enviar enlace'}
+          </button>
+        </form>
+      )}
+
+      {!successMessage && token && (
+        <form onSubmit={handleRestablecer} className="space-y-3 rounded-xl border p-4" aria-label="Elegir contraseña nueva" data-testid="reset-password-form">
+          <div className="grid gap-2">
+            <label htmlFor="pwd" className="text-sm font-medium">Contraseña nueva</label>
+            <input
+              id="pwd"
+              data-testid="reset-password-password-input"
+              type="password"
+              className="rounded border p-2"
+              value={pwd}
+              onChange={e => setPwd(e.target.value)}
+              placeholder="Al menos 6 caracteres"
+              required
+              aria-invalid={!isPwdValid}
+            />
+          </div>
+          <div className="grid gap-2">
+            <label htmlFor="pwd2" className="text-sm font-medium">Confirmar contraseña</label>
+            <input
+              id="pwd2"
+              data-testid="reset-password-confirm-input"
+              type="password"
+              className="rounded border p-2"
+              value={pwd2}
+              onChange={e => setPwd2(e.target.value)}
+              placeholder="Repite tu contraseña"
+              required
+              aria-invalid={!isPwdMatch}
+            />
+          </div>
+          <button
+            disabled={loading || !pwd || !pwd2}
+            data-testid="reset-password-submit-button"
+            className="rounded-lg border px-3 py-2 disabled:opacity-50 w-full hover:bg-gray-50 transition-colors"
+            aria-busy={loading}
+          >
+            {loading ? 'Guardando…' : 'Guardar contraseña'}
+          </button>
+        </form>
+      )}
+
+      <div className="text-center">
+        <Link href="/login" className="text-sm text-blue-600 hover:underline" data-testid="reset-password-login-link">
+          Volver a iniciar sesión
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+// Componente principal de la página que envuelve el formulario en Suspense
+export default function ResetPasswordPage() {
+  return (
+    <Suspense fallback={
+      <main className="mx-auto max-w-sm p-6 space-y-4">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Cargando...</p>
+        </div>
+      </main>
+    }>
+      <ResetPasswordForm />
+    </Suspense>
+  );
+}
@@ -1,7 +1,69 @@
 "use client";
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useAuth } from '@/lib/auth/AuthProvider';
+import { obtenerUsoIA } from '@/lib/services/chat';
+import type { ContadorCuotaIA, UsoCuotaIA } from '@/types/cuotaIA';
+
+/**
+ * Barra de consumo de un recurso de IA
+ */
+function BarraConsumo({ etiqueta, contador, testId }: { etiqueta: string; contador: ContadorCuotaIA; testId: string }) {
+  const porcentaje = contador.limite
+    ? Math.min(Math.round((contador.usados / contador.limite) * 100), 100)
+    : contador.limite === 0 ? 100 : 0;
+  const colorBarra = porcentaje >= 100 ? 'bg-red-500' : porcentaje >= 80 ? 'bg-yellow-500' : 'bg-green-500';
+
+  return (
+    <div data-testid={testId}>
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>{etiqueta}</span>
+        <span data-testid={`${testId}-valor`}>
+          {contador.usados.toLocaleString('es-ES')}
+          {contador.limite === null ? ' (sin límite)' : ` / ${contador.limite.toLocaleString('es-ES')}`}
+        </span>
+      </div>
+      {contador.limite !== null && (
+        <div className="mt-1 h-1.5 rounded-full bg-gray-200">
+          <div className={`h-1.5 rounded-full ${colorBarra}`} style={{ width: `${porcentaje}%` }} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Consumo de IA del mes (tokens y análisis de imágenes) con los límites del plan
+ */
+function UsoIA() {
+  const { token } = useAuth();
+  const [uso, setUso] = useState<UsoCuotaIA | null>(null);
+
+  // 🔄 CARGA DEL CONSUMO
+  useEffect(() => {
+    const controller = new AbortController();
+
+    obtenerUsoIA(controller.signal, token ?? undefined)
+      .then(setUso)
+      .catch(() => {
+        // El consumo es informativo: si falla, simplemente no se muestra
+      });
+
+    return () => controller.abort();
+  }, [token]);
+
+  if (!uso) return null;
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-black/5 pt-3" data-testid="subscription-ai-usage">
+      <BarraConsumo etiqueta="Tokens de IA este mes" contador={uso.tokens} testId="subscription-ai-usage-tokens" />
+      <BarraConsumo etiqueta="Análisis de imágenes" contador={uso.analisisImagenes} testId="subscription-ai-usage-images" />
+      <p className="text-[11px] text-gray-500">
+        Se renueva el {new Date(uso.reinicio).toLocaleDateString('es-ES', { timeZone: 'UTC' })}
+      </p>
+    </div>
+  );
+}
 
 /**
  * Componente para mostrar y gestionar el estado de suscripción
@@ -50,6 +112,8 @@ export default function SubscriptionStatus() {
             </p>
           </div>
         </div>
+
+        <UsoIA />
       </div>
     );
   }
@@ -136,6 +200,8 @@ export default function SubscriptionStatus() {
           Tu período de prueba ha expirado. Suscríbete para continuar usando la aplicación.
         </div>
       )}
+
+      <UsoIA />
     </div>
   );
 }
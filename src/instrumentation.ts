@@ -0,0 +1,13 @@
+/**
+ * 🚀 ARRANQUE DEL SERVIDOR (Next.js instrumentation)
+ *
+ * Next.js llama a register() una vez al iniciar cada runtime, antes de atender
+ * requests. Si falta configuración obligatoria, el servidor no arranca.
+ */
+
+import { verificarSecretoJwt } from '@/lib/auth/tokens';
+
+export function register() {
+  // 🔒 Sin JWT_SECRET en producción los tokens se firmarían con el secreto de desarrollo
+  verificarSecretoJwt();
+}
@@ -3,6 +3,7 @@
 import { createContext, useContext, useEffect, useMemo, useState, useCallback } from 'react';
 import { getToken, setTokenWithCookies, clearTokenWithCookies } from './storage';
 import { puedeCrearRecursos, puedeEditarRecursoCliente, puedeEliminarRecursoCliente } from '@/lib/utils/multiTenancy.client';
+import { borrarDatosOffline } from '@/lib/services/offline';
 
 /**
  * 👤 TIPOS TYPESCRIPT - Definición de estructuras de datos
@@ -47,12 +48,27 @@ type AuthContextType = {
   isExemptFromPayments: () => boolean; // ✅ ¿Está exento de pagos?
 };
 
+/**
+ * 🚫 ERROR DE AUTENTICACIÓN
+ * Lleva el `code` del servidor (p. ej. email_no_verificado) para que la UI
+ * pueda ofrecer la acción que corresponde
+ */
+export class ErrorAutenticacion extends Error {
+  constructor(message: string, public readonly code?: string) {
+    super(message);
+    this.name = 'ErrorAutenticacion';
+  }
+}
+
 /**
  * 🏗️ CONTEXTO DE AUTENTICACIÓN
  * Context API de React para estado global de autenticación
  */
 const AuthCtx = createContext<AuthContextType | null>(null);
 
+// Espera antes de reintentar cuando otra pestaña está renovando la sesión
+const ESPERA_RENOVACION_CONCURRENTE_MS = 1000;
+
 /**
  * 🎯 PROVEEDOR DE AUTENTICACIÓN
  * 
@@ -70,6 +86,42 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [token, setTok] = useState<string | null>(null);  // Token actual
   const [user, setUser] = useState<User | null>(null);    // Usuario actual
   const [isVerifying, setIsVerifying] = useState(false); // Control para evitar múltiples verificaciones
+  const [expiraEn, setExpiraEn] = useState<number | null>(null); // Vencimiento del token de acceso (ms)
+
+  /**
+   * 🔄 RENOVAR SESIÓN
+   *
+   * Pide un token de acceso nuevo con la cookie HTTP-only de refresco
+   * (el servidor rota el token de refresco en cada llamada).
+   *
+   * Si otra pestaña está renovando a la vez (409), espera su cookie y reintenta una vez.
+   *
+   * @returns true si la sesión se renovó, false si hay que volver a iniciar sesión
+   */
+  const renovarSesion = useCallback(async (reintentos = 1): Promise<boolean> => {
+    try {
+      const response = await fetch('/api/auth/refresh', { method: 'POST' });
+      const data = await response.json().catch(() => ({ success: false }));
+
+      if (response.status === 409 && reintentos > 0) {
+        await new Promise(resolve => setTimeout(resolve, ESPERA_RENOVACION_CONCURRENTE_MS));
+        return renovarSesion(reintentos - 1);
+      }
+
+      if (!response.ok || !data.success) {
+        return false;
+      }
+
+      setTokenWithCookies(data.token);
+      setTok(data.token);
+      setUser(prev => prev && prev.email === data.user.email ? { ...prev, role: data.user.role } : data.user);
+      setExpiraEn(Date.now() + data.expiresIn * 1000);
+      return true;
+    } catch (error) {
+      console.error('🚨 Error renovando la sesión:', error);
+      return false;
+    }
+  }, []);
 
   /**
    * 🚀 INICIALIZACIÓN Y HIDRATACIÓN
@@ -107,9 +159,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             // ✅ TOKEN VÁLIDO
             setTok(t);
             setUser(data.user);
+            setExpiraEn(data.exp * 1000);
             console.log('✅ Sesión restaurada exitosamente para:', data.user.email, 'con rol:', data.user.role);
+          } else if (data.expired && await renovarSesion()) {
+            // 🔄 TOKEN DE ACCESO VENCIDO - renovado con el token de refresco
+            console.log('🔄 Sesión renovada con el token de refresco');
           } else {
-            // 🚨 TOKEN INVÁLIDO
+            // 🚨 TOKEN INVÁLIDO O SESIÓN REVOCADA
             console.warn('🚨 Token inválido, limpiando...', data.error);
             clearTokenWithCookies();
           }
@@ -131,6 +187,29 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // ✅ Dependencia vacía: Solo ejecutar al montar el componente
 
+  /**
+   * ⏰ RENOVACIÓN AUTOMÁTICA
+   *
+   * Renueva el token de acceso un minuto antes de que venza; si el token de
+   * refresco ya no es válido se limpia la sesión local y RequireAuth manda al login.
+   */
+  useEffect(() => {
+    if (!token || !expiraEn) return;
+
+    const espera = Math.max(expiraEn - Date.now() - 60 * 1000, 0);
+    const timeoutId = setTimeout(async () => {
+      const renovada = await renovarSesion();
+      if (!renovada) {
+        clearTokenWithCookies();
+        setTok(null);
+        setUser(null);
+        setExpiraEn(null);
+      }
+    }, espera);
+
+    return () => clearTimeout(timeoutId);
+  }, [token, expiraEn, renovarSesion]);
+
   /**
    * 🔐 FUNCIÓN DE LOGIN
    *
@@ -143,7 +222,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
    * @param email - Email del usuario
    * @param password - Password del usuario
    * @param redirectUrl - URL opcional para redirección automática desde el servidor
-   * @throws Error si las credenciales son inválidas o hay error de conexión
+   * @throws ErrorAutenticacion si las credenciales son inválidas o el email no está verificado
    */
   const login = useCallback(async (email: string, password: string, redirectUrl?: string) => {
     try {
@@ -172,16 +251,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       // 🛡️ VALIDACIÓN DE RESPUESTA
       if (!response.ok || !data.success) {
-        throw new Error(data.error || 'Error de autenticación');
+        throw new ErrorAutenticacion(data.error || 'Error de autenticación', data.code);
       }
 
       // ✅ LOGIN EXITOSO
-      const { token, user: userData, redirectTo } = data;
+      const { token, expiresIn, user: userData, redirectTo } = data;
 
       // 💾 PERSISTENCIA - Guardar en localStorage, cookies y estado
       setTokenWithCookies(token); // Guarda en localStorage y cookies
       setTok(token);             // Actualiza estado local
       setUser(userData);         // Actualiza datos del usuario
+      setExpiraEn(Date.now() + expiresIn * 1000); // Programa la renovación
 
       console.log('✅ Login exitoso para:', userData.email, 'con rol:', userData.role);
 
@@ -205,6 +285,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
    * 🆕 FUNCIÓN DE REGISTRO (CREAR ADMIN/TENANT)
    *
    * Crea un nuevo admin con su propio tenant y autentica de inmediato.
+   * Si el servidor exige el email verificado, vuelve al login a esperar la confirmación.
    *
    * @param email - Email del usuario
    * @param password - Password del usuario
@@ -246,7 +327,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         throw new Error(data.error || 'No se pudo crear la cuenta');
       }
 
-      const { token, user: userData, requiresPayment, paymentUrl, trialEndsAt, redirectTo } = data;
+      // ✉️ Sin sesión hasta confirmar el email
+      if (data.requiresEmailVerification) {
+        console.log('✉️ Registro pendiente de verificación de email:', data.user.email);
+        window.location.replace(`/login?status=verificar-email&email=${encodeURIComponent(data.user.email)}`);
+        return;
+      }
+
+      const { token, expiresIn, user: userData, requiresPayment, paymentUrl, trialEndsAt, redirectTo } = data;
 
       // Actualizar userData con info de suscripción
       const userWithSubscription = {
@@ -260,6 +348,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setTokenWithCookies(token);
       setTok(token);
       setUser(userWithSubscription);
+      setExpiraEn(Date.now() + expiresIn * 1000);
 
       console.log('✅ Registro exitoso para:', userData.email);
 
@@ -290,15 +379,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
    * 🚪 FUNCIÓN DE LOGOUT
    * 
    * Limpia toda la información de autenticación:
-   * 1. Elimina token de localStorage
-   * 2. Resetea estado local del token
-   * 3. Resetea datos del usuario
-   * 4. Limpia flags de redirección
+   * 1. Revoca la sesión en el servidor y borra las cookies HTTP-only
+   * 2. Elimina token de localStorage
+   * 3. Resetea estado local del token
+   * 4. Resetea datos del usuario
    */
   function logout() {
-    clearTokenWithCookies(); // 🗑️ Elimina de localStorage y cookies
+    void fetch('/api/auth/logout', { method: 'POST' }).catch(error => {
+      console.error('🚨 Error cerrando la sesión en el servidor:', error);
+    });
+    clearTokenWithCookies(); // 🗑️ Elimina de localStorage
     setTok(null);    // 🔄 Resetea estado del token
     setUser(null);   // 🔄 Resetea datos del usuario
+    setExpiraEn(null);
+    void borrarDatosOffline(); // 🗑️ Caché y cola offline pertenecen a esta sesión
 
     console.log('✅ Logout exitoso - sesión terminada');
   }
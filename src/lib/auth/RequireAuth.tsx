@@ -3,6 +3,7 @@
 import { useEffect, Suspense } from 'react';
 import { useAuth } from './AuthProvider';
 import { usePathname, useSearchParams, useRouter } from 'next/navigation';
+import { urlLogin } from './redireccion';
 
 /**
  * 🛡️ COMPONENTE REQUIREAUTH - Guardián de Rutas Protegidas
@@ -58,7 +59,7 @@ function RequireAuthContent({ children }: { children: React.ReactNode }) {
     // 🚨 Sin token -> Redirige a login con URL de retorno
     if (!token) {
       console.log('🚨 Acceso denegado - redirigiendo a login desde:', here);
-      router.replace(`/login?next=${encodeURIComponent(here)}`);
+      router.replace(urlLogin(here));
     }
   }, [ready, token, router, here]);
 
@@ -208,14 +209,14 @@ function RequireRoleContent({
     // 🚨 Sin usuario -> Redirige a login
     if (!user) {
       console.log('🚨 Acceso denegado - usuario no autenticado, redirigiendo a login desde:', here);
-      router.replace(`/login?next=${encodeURIComponent(here)}`);
+      router.replace(urlLogin(here));
       return;
     }
 
     // 🚨 Sin rol requerido -> Redirige a login
     if (!hasRole(role)) {
       console.log('🚨 Acceso denegado - usuario no tiene rol', role, ', redirigiendo a login desde:', here);
-      router.replace(`/login?next=${encodeURIComponent(here)}`);
+      router.replace(urlLogin(here));
       return;
     }
   }, [ready, user, hasRole, role, router, here]);
@@ -0,0 +1,95 @@
+/**
+ * ✉️ EMAILS DE CUENTA - Verificación de email, restablecimiento de contraseña e
+ * invitaciones a cultivos compartidos (solo servidor)
+ *
+ * Arma los enlaces con el token de un solo uso y los envía con el transporte
+ * configurado (ver lib/services/email.ts). El token solo viaja en el email;
+ * en la base se guarda su hash.
+ */
+
+import { enviarEmail, escaparHtml, urlAbsoluta } from '@/lib/services/email';
+import type { RolAccesoCultivo } from '@/types/accesoCultivo';
+
+// Descripción de cada rol de invitado para el cuerpo del email
+const DESCRIPCION_ROL_ACCESO: Record<RolAccesoCultivo, string> = {
+  viewer: 'ver',
+  commenter: 'ver y comentar',
+  editor: 'ver, comentar y editar'
+};
+
+/**
+ * Indica si el login exige el email verificado (REQUIRE_EMAIL_VERIFICATION=true)
+ */
+export function verificacionEmailObligatoria(): boolean {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+}
+
+/**
+ * Cuerpo HTML con un único botón de acción
+ */
+function htmlConEnlace(parrafo: string, enlace: string, accion: string, aviso: string): string {
+  return [
+    `<p>${escaparHtml(parrafo)}</p>`,
+    `<p><a href="${escaparHtml(enlace)}">${escaparHtml(accion)}</a></p>`,
+    `<p style="color:#6b7280;font-size:12px">${escaparHtml(aviso)}</p>`
+  ].join('');
+}
+
+/**
+ * Envía el enlace de verificación de email (vigente 48 horas)
+ * @param email - Destinatario
+ * @param token - Token de verificación en texto plano
+ */
+export async function enviarEmailVerificacion(email: string, token: string): Promise<void> {
+  const enlace = urlAbsoluta(`/api/auth/verify-email?token=${encodeURIComponent(token)}`) as string;
+  const parrafo = 'Confirmá tu email para activar tu cuenta de CanopIA.';
+  const aviso = 'El enlace vence en 48 horas. Si no creaste una cuenta, ignorá este mensaje.';
+
+  await enviarEmail({
+    para: email,
+    asunto: 'Confirmá tu email',
+    texto: `${parrafo}\n\n${enlace}\n\n${aviso}`,
+    html: htmlConEnlace(parrafo, enlace, 'Confirmar email', aviso)
+  });
+}
+
+/**
+ * Envía el enlace para elegir una contraseña nueva (vigente 1 hora)
+ * @param email - Destinatario
+ * @param token - Token de restablecimiento en texto plano
+ */
+export async function enviarEmailResetPassword(email: string, token: string): Promise<void> {
+  const enlace = urlAbsoluta(`/reset-password?token=${encodeURIComponent(token)}`) as string;
+  const parrafo = 'Recibimos un pedido para restablecer la contraseña de tu cuenta.';
+  const aviso = 'El enlace vence en 1 hora y sirve una sola vez. Si no lo pediste, ignorá este mensaje: tu contraseña no cambia.';
+
+  await enviarEmail({
+    para: email,
+    asunto: 'Restablecer contraseña',
+    texto: `${parrafo}\n\n${enlace}\n\n${aviso}`,
+    html: htmlConEnlace(parrafo, enlace, 'Elegir contraseña nueva', aviso)
+  });
+}
+
+/**
+ * Envía la invitación para acceder a un cultivo compartido (vigente 7 días)
+ * @param email - Persona invitada
+ * @param token - Token de invitación en texto plano
+ * @param datos - Nombre del cultivo, rol otorgado y quién invita
+ */
+export async function enviarEmailInvitacionCultivo(
+  email: string,
+  token: string,
+  datos: { nombreCultivo: string; rol: RolAccesoCultivo; invitadoPor: string }
+): Promise<void> {
+  const enlace = urlAbsoluta(`/invitaciones?token=${encodeURIComponent(token)}`) as string;
+  const parrafo = `${datos.invitadoPor} te invitó a ${DESCRIPCION_ROL_ACCESO[datos.rol]} el cultivo "${datos.nombreCultivo}" en CanopIA.`;
+  const aviso = `El enlace vence en 7 días y sirve una sola vez. Iniciá sesión (o creá tu cuenta) con ${email} para aceptarla.`;
+
+  await enviarEmail({
+    para: email,
+    asunto: `Te compartieron el cultivo ${datos.nombreCultivo}`,
+    texto: `${parrafo}\n\n${enlace}\n\n${aviso}`,
+    html: htmlConEnlace(parrafo, enlace, 'Aceptar invitación', aviso)
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * ⏱️ LÍMITE DE ENVÍOS - Frena los pedidos de emails de cuenta (solo servidor)
+ *
+ * Olvidé mi contraseña y el reenvío de la verificación mandan un email a
+ * cualquier dirección que se indique, así que cada pedido se cuenta por email
+ * destino y por IP en ventanas fijas (modelo LimiteEnvio). El conteo se hace
+ * antes de buscar la cuenta, de modo que el límite no revela si el email existe.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToUserDB, getDatabaseName, getLimiteEnvioModel } from '@/lib/mongodb';
+
+// Duración de cada ventana de conteo
+const VENTANA_MS = 60 * 60 * 1000;
+
+// Pedidos permitidos por ventana
+export const MAX_ENVIOS_POR_EMAIL = 3;
+export const MAX_ENVIOS_POR_IP = 10;
+
+/**
+ * Acción que envía un email de cuenta
+ */
+export type AccionEnvio = 'resetPassword' | 'verificacionEmail';
+
+/**
+ * IP del cliente según el proxy (primera de X-Forwarded-For)
+ */
+export function ipDeRequest(request: NextRequest): string {
+  const reenviada = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return reenviada || request.headers.get('x-real-ip')?.trim() || 'desconocida';
+}
+
+/**
+ * Suma un pedido a la clave en la ventana actual
+ * @returns Total de pedidos de la clave en la ventana, contando este
+ */
+async function contarPedido(clave: string, ahora: number): Promise<number> {
+  const connection = await connectToUserDB(getDatabaseName());
+  const LimiteEnvioModel = getLimiteEnvioModel(connection);
+  const inicio = Math.floor(ahora / VENTANA_MS) * VENTANA_MS;
+  const filtro = { clave, ventana: new Date(inicio).toISOString() };
+  const cambios = { $inc: { total: 1 }, $setOnInsert: { expiraEn: new Date(inicio + VENTANA_MS) } };
+
+  try {
+    const limite = await LimiteEnvioModel.findOneAndUpdate(filtro, cambios, { upsert: true, new: true });
+    return limite.total;
+  } catch (error) {
+    // Dos pedidos simultáneos pueden crear el mismo contador: el segundo lo incrementa
+    if ((error as { code?: number })?.code !== 11000) throw error;
+    const limite = await LimiteEnvioModel.findOneAndUpdate(filtro, { $inc: { total: 1 } }, { new: true });
+    return limite?.total ?? 1;
+  }
+}
+
+/**
+ * Registra un pedido de email de cuenta y verifica los límites por email e IP
+ * @param accion - Email que se pide
+ * @param email - Destinatario indicado en el pedido
+ * @param ip - IP del cliente
+ * @returns Segundos hasta la próxima ventana si se superó algún límite, o null
+ */
+export async function registrarPedidoEnvio(
+  accion: AccionEnvio,
+  email: string,
+  ip: string,
+  ahora: number = Date.now()
+): Promise<number | null> {
+  const [porEmail, porIp] = await Promise.all([
+    contarPedido(`${accion}:email:${email.toLowerCase().trim()}`, ahora),
+    contarPedido(`${accion}:ip:${ip}`, ahora)
+  ]);
+
+  if (porEmail <= MAX_ENVIOS_POR_EMAIL && porIp <= MAX_ENVIOS_POR_IP) return null;
+  return Math.ceil((VENTANA_MS - (ahora % VENTANA_MS)) / 1000);
+}
+
+/**
+ * Respuesta 429 para pedidos de emails de cuenta por encima del límite
+ * @param reintentarEn - Segundos hasta poder volver a pedir
+ */
+export function respuestaLimiteEnvios(reintentarEn: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Demasiados pedidos. Esperá un rato antes de volver a intentarlo.',
+      code: 'limite_envios'
+    },
+    { status: 429, headers: { 'Retry-After': String(reintentarEn) } }
+  );
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { destinoSeguro, urlLogin, DESTINO_POR_DEFECTO } from './redireccion';
+
+describe('destinoSeguro', () => {
+  it('acepta rutas internas con query y hash', () => {
+    expect(destinoSeguro('/cultivo/abc?tab=tareas#hoy')).toBe('/cultivo/abc?tab=tareas#hoy');
+    expect(destinoSeguro('/notas')).toBe('/notas');
+  });
+
+  it.each([
+    ['https://evil.test/cultivo'],
+    ['//evil.test'],
+    ['/\\evil.test'],
+    ['\\\\evil.test'],
+    ['javascript:alert(1)'],
+    ['cultivo'],
+    [''],
+    [null],
+    [undefined]
+  ])('rechaza %s (open redirect o valor vacío)', destino => {
+    expect(destinoSeguro(destino)).toBe(DESTINO_POR_DEFECTO);
+  });
+
+  it('nunca vuelve al login ni a una API (evita bucles con /api/auth/refresh)', () => {
+    expect(destinoSeguro('/login')).toBe(DESTINO_POR_DEFECTO);
+    expect(destinoSeguro('/login?next=/cultivo')).toBe(DESTINO_POR_DEFECTO);
+    expect(destinoSeguro('/api/auth/refresh?next=/cultivo')).toBe(DESTINO_POR_DEFECTO);
+  });
+});
+
+describe('urlLogin', () => {
+  it('conserva el destino codificado', () => {
+    expect(urlLogin('/cultivo/abc?tab=tareas')).toBe('/login?next=%2Fcultivo%2Fabc%3Ftab%3Dtareas');
+  });
+
+  it('reemplaza destinos inseguros o que generarían un bucle', () => {
+    expect(urlLogin('//evil.test')).toBe(`/login?next=${encodeURIComponent(DESTINO_POR_DEFECTO)}`);
+    expect(urlLogin(urlLogin('/cultivo'))).toBe(`/login?next=${encodeURIComponent(DESTINO_POR_DEFECTO)}`);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * 🧭 DESTINOS DE REDIRECCIÓN POST-LOGIN
+ *
+ * Valida el parámetro `next` de /login y de /api/auth/refresh para que solo se
+ * redirija a rutas internas y nunca de vuelta a /login (evita bucles y open redirects).
+ */
+
+export const DESTINO_POR_DEFECTO = '/cultivo';
+
+/**
+ * Devuelve el destino si es una ruta interna segura, o el destino por defecto
+ * @param destino - Valor recibido (ya decodificado) del parámetro next
+ */
+export function destinoSeguro(destino: string | null | undefined): string {
+  if (!destino || !destino.startsWith('/') || destino.startsWith('//') || destino.includes('\\')) {
+    return DESTINO_POR_DEFECTO;
+  }
+  const ruta = destino.split(/[?#]/)[0];
+  if (ruta === '/login' || ruta.startsWith('/api/')) {
+    return DESTINO_POR_DEFECTO;
+  }
+  return destino;
+}
+
+/**
+ * Arma la URL de login conservando la ruta a la que se quería entrar
+ * @param destino - Ruta (con query) a recuperar después del login
+ */
+export function urlLogin(destino: string): string {
+  return `/login?next=${encodeURIComponent(destinoSeguro(destino))}`;
+}
@@ -0,0 +1,192 @@
+/**
+ * 🔐 REQUIRE AUTH - Autenticación y autorización de las API routes (solo Node)
+ *
+ * Único punto de entrada para las API routes de usuario. Verifica el token de
+ * acceso (header Authorization: Bearer o cookie auth-token), que la sesión siga
+ * vigente y, según las opciones, el rol y la suscripción del usuario.
+ *
+ * Uso:
+ *   export const GET = requireAuth()(async (request, { email }) => { ... });
+ *   export const POST = requireAuth({ role: 'admin' })(async (request, usuario) => { ... });
+ *   export const POST = requireAuth({ subscription: true })(async (request, { email }) => { ... });
+ *
+ * Errores (ErrorAutorizacion → JSON { success: false, error, message, code }):
+ * - 401 no_autenticado / sesion_expirada: sin token, token inválido o sesión revocada
+ * - 403 sin_permisos: el rol del usuario no alcanza
+ * - 402 suscripcion_requerida: prueba vencida o suscripción inactiva
+ */
+
+import { NextResponse } from 'next/server';
+import { connectToUserDB, getDatabaseName, getUsuarioModel } from '@/lib/mongodb';
+import { verificarTokenAcceso, ErrorTokenAcceso } from './tokens';
+import { sesionActiva } from './sesiones';
+import { getTokenFromCookies } from './storage';
+
+/**
+ * Requisitos de la ruta
+ */
+export interface OpcionesRequireAuth {
+  /** Rol mínimo: 'admin' solo deja pasar administradores */
+  role?: 'admin' | 'user';
+  /** Exige prueba vigente, suscripción activa o exención de pagos */
+  subscription?: boolean;
+}
+
+/**
+ * Usuario autenticado que recibe el handler
+ */
+export interface UsuarioAutenticado {
+  email: string;
+  role: 'admin' | 'user';
+  sid: string; // Sesión que emitió el token de acceso
+}
+
+/**
+ * Código de cada error de autorización
+ */
+export type CodigoErrorAutorizacion = 'no_autenticado' | 'sesion_expirada' | 'sin_permisos' | 'suscripcion_requerida';
+
+/**
+ * Error de autenticación o autorización con su status HTTP
+ */
+export class ErrorAutorizacion extends Error {
+  constructor(
+    public readonly status: 401 | 402 | 403,
+    public readonly code: CodigoErrorAutorizacion,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ErrorAutorizacion';
+  }
+}
+
+// Título del error según el status
+const ERROR_POR_STATUS: Record<ErrorAutorizacion['status'], string> = {
+  401: 'No autorizado',
+  402: 'Suscripción requerida',
+  403: 'Permisos insuficientes'
+};
+
+/**
+ * Handler de una API route autenticada
+ */
+export type HandlerAutenticado<T> = (req: Request, usuario: UsuarioAutenticado, context?: unknown) => Promise<T>;
+
+/**
+ * Respuesta JSON de un error de autorización
+ */
+function respuestaErrorAutorizacion(error: ErrorAutorizacion): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: ERROR_POR_STATUS[error.status],
+      message: error.message,
+      code: error.code
+    },
+    { status: error.status }
+  );
+}
+
+/**
+ * Token de acceso del request (header Authorization o cookie HTTP-only)
+ */
+function obtenerTokenAcceso(req: Request): string | null {
+  const header = req.headers.get('authorization');
+  if (header?.startsWith('Bearer ')) return header.slice(7) || null;
+  return getTokenFromCookies(req);
+}
+
+/**
+ * Autentica el request: token de acceso válido y sesión vigente
+ * @throws ErrorAutorizacion 401 si no hay sesión válida
+ */
+async function autenticar(req: Request): Promise<UsuarioAutenticado> {
+  const token = obtenerTokenAcceso(req);
+  if (!token) {
+    throw new ErrorAutorizacion(401, 'no_autenticado', 'Se requiere iniciar sesión para usar este recurso.');
+  }
+
+  let payload;
+  try {
+    payload = await verificarTokenAcceso(token);
+  } catch (error) {
+    const expirado = error instanceof ErrorTokenAcceso && error.expirado;
+    throw new ErrorAutorizacion(
+      401,
+      expirado ? 'sesion_expirada' : 'no_autenticado',
+      'Tu sesión ha expirado o no es válida. Por favor inicia sesión nuevamente.'
+    );
+  }
+
+  // 🚫 Rechazar tokens de sesiones revocadas (logout, cambio de contraseña o refresco reutilizado)
+  if (!(await sesionActiva(payload.sid))) {
+    throw new ErrorAutorizacion(401, 'sesion_expirada', 'Tu sesión ha expirado o no es válida. Por favor inicia sesión nuevamente.');
+  }
+
+  return { email: payload.email, role: payload.role, sid: payload.sid };
+}
+
+/**
+ * Verifica rol y suscripción contra la base (el rol del token puede tener hasta 15 minutos)
+ * Los usuarios creados por un admin usan la suscripción de ese admin
+ * @throws ErrorAutorizacion 401, 403 o 402 según lo que falte
+ */
+async function autorizar(usuario: UsuarioAutenticado, opciones: OpcionesRequireAuth): Promise<UsuarioAutenticado> {
+  const connection = await connectToUserDB(getDatabaseName());
+  const UsuarioModel = getUsuarioModel(connection);
+
+  const registrado = await UsuarioModel.findOne({ email: usuario.email, activo: true });
+  if (!registrado) {
+    throw new ErrorAutorizacion(401, 'no_autenticado', 'La cuenta no existe o fue desactivada.');
+  }
+
+  if (opciones.role === 'admin' && registrado.role !== 'admin') {
+    throw new ErrorAutorizacion(403, 'sin_permisos', 'Solo los administradores pueden usar este recurso.');
+  }
+
+  if (opciones.subscription) {
+    const titular = registrado.role === 'user' && registrado.creadoPor
+      ? await UsuarioModel.findOne({ email: registrado.creadoPor, activo: true })
+      : registrado;
+
+    if (!titular?.hasActiveSubscription) {
+      throw new ErrorAutorizacion(
+        402,
+        'suscripcion_requerida',
+        titular?.trialExpired
+          ? 'El período de prueba terminó. Activa tu suscripción para seguir usando esta función.'
+          : 'Se requiere una suscripción activa para usar esta función.'
+      );
+    }
+  }
+
+  return { ...usuario, role: registrado.role };
+}
+
+/**
+ * Envuelve una API route con autenticación y, opcionalmente, rol y suscripción
+ * @param opciones - Requisitos de la ruta ({ role, subscription })
+ * @returns Función que recibe el handler y devuelve la API route protegida
+ */
+export function requireAuth(opciones: OpcionesRequireAuth = {}) {
+  return function <T = Response>(handler: HandlerAutenticado<T>) {
+    return async (req: Request, context?: unknown): Promise<T> => {
+      let usuario: UsuarioAutenticado;
+
+      try {
+        usuario = await autenticar(req);
+        if (opciones.role === 'admin' || opciones.subscription) {
+          usuario = await autorizar(usuario, opciones);
+        }
+      } catch (error) {
+        if (error instanceof ErrorAutorizacion) {
+          return respuestaErrorAutorizacion(error) as unknown as T;
+        }
+        console.error('💥 requireAuth: Error verificando la sesión:', error);
+        throw error;
+      }
+
+      return handler(req, usuario, context);
+    };
+  };
+}
@@ -0,0 +1,160 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import mongoose from 'mongoose';
+import { abrirSesion, rotarSesion, sesionActiva } from './sesiones';
+import { verificarTokenAcceso } from './tokens';
+
+/**
+ * Sesión simulada con los campos que usa sesiones.ts
+ */
+interface SesionSimulada {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  tokenHash: string;
+  expiraEn: Date;
+  revocada: boolean;
+  motivoRevocacion?: string;
+  ultimaRotacion?: string;
+  rotaciones: number;
+}
+
+// Sesiones y usuarios que devuelven los modelos simulados
+const db = vi.hoisted(() => ({
+  sesiones: new Map<string, SesionSimulada>(),
+  usuarios: new Map<string, { email: string; role: string; activo: boolean }>(),
+  // Hash que gana la rotación antes que el pedido en curso (simula otra pestaña)
+  rotacionAjena: null as string | null
+}));
+
+vi.mock('@/lib/mongodb', () => ({
+  getDatabaseName: () => 'canopia_main',
+  connectToUserDB: async () => ({}),
+  getUsuarioModel: () => ({
+    findOne: (filtro: { email: string }) => ({ select: async () => db.usuarios.get(filtro.email) ?? null })
+  }),
+  getSesionModel: () => ({
+    create: async (datos: Omit<SesionSimulada, '_id' | 'revocada' | 'rotaciones'>) => {
+      const sesion = { _id: new mongoose.Types.ObjectId(), revocada: false, rotaciones: 0, ...datos };
+      db.sesiones.set(sesion._id.toString(), sesion);
+      return sesion;
+    },
+    findById: async (id: string) => {
+      const sesion = db.sesiones.get(id);
+      return sesion ? { ...sesion } : null;
+    },
+    findOneAndUpdate: async (
+      filtro: { _id: string; tokenHash: string; revocada: boolean },
+      cambios: { tokenHash: string; expiraEn: Date; ultimaRotacion: string }
+    ) => {
+      const sesion = db.sesiones.get(filtro._id);
+      if (sesion && db.rotacionAjena) {
+        sesion.tokenHash = db.rotacionAjena;
+        sesion.ultimaRotacion = new Date().toISOString();
+      }
+      if (!sesion || sesion.tokenHash !== filtro.tokenHash || sesion.revocada !== filtro.revocada) return null;
+      const anterior = { ...sesion };
+      Object.assign(sesion, { tokenHash: cambios.tokenHash, expiraEn: cambios.expiraEn, ultimaRotacion: cambios.ultimaRotacion });
+      sesion.rotaciones += 1;
+      return anterior;
+    },
+    updateOne: async (filtro: { _id: string; revocada: boolean }, cambios: { revocada: boolean; motivoRevocacion: string }) => {
+      const sesion = db.sesiones.get(filtro._id);
+      if (sesion && !sesion.revocada) Object.assign(sesion, cambios);
+    },
+    exists: async (filtro: { _id: string }) => {
+      const sesion = db.sesiones.get(filtro._id);
+      return sesion && !sesion.revocada && sesion.expiraEn.getTime() > Date.now() ? { _id: sesion._id } : null;
+    }
+  })
+}));
+
+const USUARIO = { email: 'ana@canopia.test', role: 'user' as const };
+
+describe('rotarSesion', () => {
+  beforeEach(() => {
+    db.sesiones.clear();
+    db.usuarios.clear();
+    db.usuarios.set(USUARIO.email, { ...USUARIO, activo: true });
+    db.rotacionAjena = null;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('rota el token de refresco y emite un token de acceso de la misma sesión', async () => {
+    const inicial = await abrirSesion(USUARIO);
+    const sid = inicial.tokenRefresco.split('.')[0];
+
+    const renovada = await rotarSesion(inicial.tokenRefresco);
+
+    expect(renovada).not.toBeNull();
+    expect(renovada).not.toBe('concurrente');
+    if (!renovada || renovada === 'concurrente') return;
+    expect(renovada.tokenRefresco).not.toBe(inicial.tokenRefresco);
+    expect(renovada.tokenRefresco.startsWith(`${sid}.`)).toBe(true);
+    expect(renovada.usuario).toEqual(USUARIO);
+    expect(await verificarTokenAcceso(renovada.tokenAcceso)).toMatchObject({ email: USUARIO.email, sid });
+    expect(db.sesiones.get(sid)?.rotaciones).toBe(1);
+  });
+
+  it('dentro del margen de 30 s un token recién rotado es concurrente y no revoca la sesión', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const inicial = await abrirSesion(USUARIO);
+    const sid = inicial.tokenRefresco.split('.')[0];
+    await rotarSesion(inicial.tokenRefresco);
+
+    vi.setSystemTime(Date.now() + 29 * 1000);
+
+    expect(await rotarSesion(inicial.tokenRefresco)).toBe('concurrente');
+    expect(db.sesiones.get(sid)?.revocada).toBe(false);
+    expect(await sesionActiva(sid)).toBe(true);
+  });
+
+  it('pasado el margen, reutilizar un token ya rotado revoca la sesión', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const inicial = await abrirSesion(USUARIO);
+    const sid = inicial.tokenRefresco.split('.')[0];
+    const renovada = await rotarSesion(inicial.tokenRefresco);
+
+    vi.setSystemTime(Date.now() + 31 * 1000);
+
+    expect(await rotarSesion(inicial.tokenRefresco)).toBeNull();
+    expect(db.sesiones.get(sid)).toMatchObject({ revocada: true, motivoRevocacion: 'reutilizacion' });
+    expect(await sesionActiva(sid)).toBe(false);
+
+    // El token vigente tampoco sirve: la sesión completa quedó revocada
+    if (!renovada || renovada === 'concurrente') throw new Error('La primera rotación falló');
+    expect(await rotarSesion(renovada.tokenRefresco)).toBeNull();
+  });
+
+  it('quien pierde la rotación atómica recibe concurrente', async () => {
+    const inicial = await abrirSesion(USUARIO);
+    db.rotacionAjena = 'hash-de-la-otra-pestaña';
+
+    expect(await rotarSesion(inicial.tokenRefresco)).toBe('concurrente');
+  });
+
+  it('revoca la sesión si el usuario fue desactivado', async () => {
+    const inicial = await abrirSesion(USUARIO);
+    const sid = inicial.tokenRefresco.split('.')[0];
+    db.usuarios.set(USUARIO.email, { ...USUARIO, activo: false });
+
+    expect(await rotarSesion(inicial.tokenRefresco)).toBeNull();
+    expect(db.sesiones.get(sid)).toMatchObject({ revocada: true, motivoRevocacion: 'usuario_inactivo' });
+  });
+
+  it('rechaza sesiones vencidas y tokens mal formados', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const inicial = await abrirSesion(USUARIO);
+
+    expect(await rotarSesion('sin-punto')).toBeNull();
+    expect(await rotarSesion('no-es-un-id.secreto')).toBeNull();
+    expect(await rotarSesion(`${inicial.tokenRefresco}.extra`)).toBeNull();
+
+    vi.setSystemTime(Date.now() + 8 * 24 * 60 * 60 * 1000);
+    expect(await rotarSesion(inicial.tokenRefresco)).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * 🔄 SESIONES CON TOKEN DE REFRESCO ROTATIVO (solo Node)
+ *
+ * Emite el par token de acceso + token de refresco en login y registro, rota el
+ * token de refresco en cada renovación y revoca la sesión al cerrar sesión o al
+ * detectar la reutilización de un token ya rotado.
+ *
+ * El token de refresco es `<idSesion>.<secreto>`; en la base solo se guarda el
+ * hash del secreto vigente (colección `sesiones`).
+ */
+
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import type { NextResponse } from 'next/server';
+import { connectToUserDB, getDatabaseName, getSesionModel, getUsuarioModel } from '@/lib/mongodb';
+import type { MotivoRevocacionSesion } from '@/lib/models/Sesion';
+import { hashToken } from '@/lib/utils/hash';
+import { firmarTokenAcceso, DURACION_TOKEN_ACCESO, DURACION_TOKEN_REFRESCO } from './tokens';
+import { AUTH_COOKIE_NAME, AUTH_REFRESH_COOKIE_NAME } from './storage';
+
+// Margen en el que un token recién rotado se rechaza sin revocar la sesión
+// (dos pestañas que renuevan a la vez no deben cerrar la sesión)
+const MARGEN_ROTACION_CONCURRENTE_MS = 30 * 1000;
+
+/**
+ * Par de tokens emitido al abrir o renovar una sesión
+ */
+export interface TokensSesion {
+  tokenAcceso: string;
+  tokenRefresco: string;
+}
+
+/**
+ * Usuario asociado a la sesión
+ */
+export interface UsuarioSesion {
+  email: string;
+  role: 'admin' | 'user';
+}
+
+/**
+ * Genera un secreto aleatorio para el token de refresco
+ */
+const nuevoSecreto = (): string => crypto.randomBytes(32).toString('base64url');
+
+/**
+ * Fecha de vencimiento del token de refresco a partir de ahora
+ */
+const vencimientoRefresco = (): Date => new Date(Date.now() + DURACION_TOKEN_REFRESCO * 1000);
+
+/**
+ * Separa el token de refresco en id de sesión y secreto
+ */
+function separarTokenRefresco(tokenRefresco: string): { sid: string; secreto: string } | null {
+  const [sid, secreto, ...resto] = tokenRefresco.split('.');
+  if (!sid || !secreto || resto.length > 0 || !mongoose.Types.ObjectId.isValid(sid)) return null;
+  return { sid, secreto };
+}
+
+/**
+ * Modelo de sesiones sobre la base principal
+ */
+async function modeloSesion() {
+  const connection = await connectToUserDB(getDatabaseName());
+  return { connection, SesionModel: getSesionModel(connection) };
+}
+
+/**
+ * Abre una sesión nueva (login o registro)
+ * @param usuario - Email y rol del usuario autenticado
+ * @param userAgent - Navegador que inicia la sesión (opcional)
+ * @returns Token de acceso y token de refresco
+ */
+export async function abrirSesion(usuario: UsuarioSesion, userAgent?: string | null): Promise<TokensSesion> {
+  const { SesionModel } = await modeloSesion();
+  const secreto = nuevoSecreto();
+
+  const sesion = await SesionModel.create({
+    email: usuario.email,
+    tokenHash: hashToken(secreto),
+    expiraEn: vencimientoRefresco(),
+    userAgent: userAgent?.slice(0, 500) || undefined
+  });
+  const sid = sesion._id.toString();
+
+  return {
+    tokenAcceso: await firmarTokenAcceso({ email: usuario.email, role: usuario.role, sid }),
+    tokenRefresco: `${sid}.${secreto}`
+  };
+}
+
+/**
+ * Renueva la sesión: valida el token de refresco, lo rota y emite un token de acceso nuevo
+ * Un token ya rotado (fuera del margen de concurrencia) revoca la sesión completa
+ * @param tokenRefresco - Token de refresco recibido en la cookie
+ * @returns Tokens nuevos y usuario; 'concurrente' si otro pedido lo acaba de rotar
+ *          (la sesión sigue vigente y la cookie nueva está en camino); null si la sesión no es válida
+ */
+export async function rotarSesion(
+  tokenRefresco: string
+): Promise<(TokensSesion & { usuario: UsuarioSesion }) | 'concurrente' | null> {
+  const partes = separarTokenRefresco(tokenRefresco);
+  if (!partes) return null;
+
+  const { connection, SesionModel } = await modeloSesion();
+  const sesion = await SesionModel.findById(partes.sid);
+  if (!sesion || sesion.revocada || sesion.expiraEn.getTime() <= Date.now()) return null;
+
+  const hashPresentado = hashToken(partes.secreto);
+  if (hashPresentado !== sesion.tokenHash) {
+    const rotadaHaceMs = sesion.ultimaRotacion ? Date.now() - new Date(sesion.ultimaRotacion).getTime() : Infinity;
+    if (rotadaHaceMs > MARGEN_ROTACION_CONCURRENTE_MS) {
+      console.warn('🚨 Token de refresco reutilizado, revocando sesión:', partes.sid);
+      await revocarSesion(partes.sid, 'reutilizacion');
+      return null;
+    }
+    return 'concurrente';
+  }
+
+  // El rol vigente se toma del usuario (puede haber cambiado desde el login)
+  const usuario = await getUsuarioModel(connection).findOne({ email: sesion.email }).select('email role activo');
+  if (!usuario || !usuario.activo) {
+    await revocarSesion(partes.sid, 'usuario_inactivo');
+    return null;
+  }
+
+  // Rotación atómica: solo gana quien presenta el hash vigente
+  const secreto = nuevoSecreto();
+  const rotada = await SesionModel.findOneAndUpdate(
+    { _id: partes.sid, tokenHash: hashPresentado, revocada: false },
+    {
+      tokenHash: hashToken(secreto),
+      expiraEn: vencimientoRefresco(),
+      ultimaRotacion: new Date().toISOString(),
+      $inc: { rotaciones: 1 }
+    }
+  );
+  if (!rotada) return 'concurrente';
+
+  const datosUsuario: UsuarioSesion = { email: usuario.email, role: usuario.role };
+  return {
+    tokenAcceso: await firmarTokenAcceso({ ...datosUsuario, sid: partes.sid }),
+    tokenRefresco: `${partes.sid}.${secreto}`,
+    usuario: datosUsuario
+  };
+}
+
+/**
+ * Revoca una sesión; sus tokens de acceso dejan de aceptarse en las API routes
+ * @param sidOToken - ID de la sesión o token de refresco completo
+ * @param motivo - Motivo de la revocación
+ */
+export async function revocarSesion(sidOToken: string, motivo: MotivoRevocacionSesion): Promise<void> {
+  const sid = separarTokenRefresco(sidOToken)?.sid ?? sidOToken;
+  if (!mongoose.Types.ObjectId.isValid(sid)) return;
+
+  const { SesionModel } = await modeloSesion();
+  await SesionModel.updateOne(
+    { _id: sid, revocada: false },
+    { revocada: true, motivoRevocacion: motivo, fechaRevocacion: new Date().toISOString() }
+  );
+}
+
+/**
+ * Revoca todas las sesiones abiertas de un usuario (p. ej. al restablecer la contraseña)
+ * @param email - Email del usuario
+ * @param motivo - Motivo de la revocación
+ * @returns Cantidad de sesiones revocadas
+ */
+export async function revocarSesionesUsuario(email: string, motivo: MotivoRevocacionSesion): Promise<number> {
+  const { SesionModel } = await modeloSesion();
+  const resultado = await SesionModel.updateMany(
+    { email, revocada: false },
+    { revocada: true, motivoRevocacion: motivo, fechaRevocacion: new Date().toISOString() }
+  );
+  return resultado.modifiedCount;
+}
+
+/**
+ * Indica si la sesión de un token de acceso sigue vigente (no revocada ni vencida)
+ * @param sid - ID de la sesión incluido en el token de acceso
+ */
+export async function sesionActiva(sid: string): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(sid)) return false;
+  const { SesionModel } = await modeloSesion();
+  const sesion = await SesionModel.exists({ _id: sid, revocada: false, expiraEn: { $gt: new Date() } });
+  return Boolean(sesion);
+}
+
+/**
+ * 🍪 Opciones comunes de las cookies de sesión (HTTP-only)
+ */
+const opcionesCookie = (maxAge: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production', // Solo HTTPS en producción
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge
+});
+
+/**
+ * Guarda ambos tokens en cookies HTTP-only de la respuesta
+ */
+export function aplicarCookiesSesion(response: NextResponse, tokens: TokensSesion): void {
+  response.cookies.set(AUTH_COOKIE_NAME, tokens.tokenAcceso, opcionesCookie(DURACION_TOKEN_ACCESO));
+  response.cookies.set(AUTH_REFRESH_COOKIE_NAME, tokens.tokenRefresco, opcionesCookie(DURACION_TOKEN_REFRESCO));
+}
+
+/**
+ * Elimina las cookies de sesión de la respuesta
+ */
+export function borrarCookiesSesion(response: NextResponse): void {
+  response.cookies.set(AUTH_COOKIE_NAME, '', opcionesCookie(0));
+  response.cookies.set(AUTH_REFRESH_COOKIE_NAME, '', opcionesCookie(0));
+}
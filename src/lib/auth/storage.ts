@@ -22,14 +22,7 @@
  */
 const KEY = 'auth_token';
 const COOKIE_NAME = 'auth-token';
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-const COOKIE_OPTIONS = {
-  httpOnly: true,
-  secure: process.env.NODE_ENV === 'production',
-  sameSite: 'lax' as const,
-  path: '/',
-  maxAge: 60 * 60 * 24 * 7, // 7 días
-};
+const REFRESH_COOKIE_NAME = 'refresh-token';
 
 /**
  * 📖 OBTENER TOKEN DE AUTENTICACIÓN
@@ -112,15 +105,15 @@ export function clearToken() {
 }
 
 /**
- * 🍪 OBTENER TOKEN DESDE COOKIES (para middleware)
+ * 🍪 LEER UNA COOKIE DEL REQUEST
  *
- * Función que recupera el token de autenticación desde las cookies HTTP-only.
- * Utilizada principalmente por el middleware de Next.js para validación server-side.
+ * Parsea el header Cookie manualmente (compatible con el Edge Runtime).
  *
- * @param {Request} request - Objeto Request de Next.js (solo en middleware)
- * @returns {string | null} Token si existe en las cookies, null en caso contrario
+ * @param {Request} request - Objeto Request de Next.js
+ * @param {string} nombre - Nombre de la cookie
+ * @returns {string | null} Valor decodificado o null si no existe
  */
-export function getTokenFromCookies(request: Request): string | null {
+function leerCookie(request: Request, nombre: string): string | null {
   const cookies = request.headers.get('cookie');
   if (!cookies) return null;
 
@@ -128,15 +121,41 @@ export function getTokenFromCookies(request: Request): string | null {
   const cookiePairs = cookies.split(';').map(c => c.trim());
   for (const pair of cookiePairs) {
     const [name, ...valueParts] = pair.split('=');
-    if (name === COOKIE_NAME && valueParts.length > 0) {
+    if (name === nombre && valueParts.length > 0) {
       const value = valueParts.join('='); // Rejoin in case JWT contains '='
-      return decodeURIComponent(value);
+      return value ? decodeURIComponent(value) : null;
     }
   }
 
   return null;
 }
 
+/**
+ * 🍪 OBTENER TOKEN DESDE COOKIES (para middleware)
+ *
+ * Función que recupera el token de acceso desde las cookies HTTP-only.
+ * Utilizada principalmente por el middleware de Next.js para validación server-side.
+ *
+ * @param {Request} request - Objeto Request de Next.js (solo en middleware)
+ * @returns {string | null} Token si existe en las cookies, null en caso contrario
+ */
+export function getTokenFromCookies(request: Request): string | null {
+  return leerCookie(request, COOKIE_NAME);
+}
+
+/**
+ * 🔄 OBTENER TOKEN DE REFRESCO DESDE COOKIES
+ *
+ * El token de refresco solo viaja en cookie HTTP-only; lo usan el middleware
+ * (para renovar antes de mandar al login) y /api/auth/refresh.
+ *
+ * @param {Request} request - Objeto Request de Next.js
+ * @returns {string | null} Token de refresco o null si no existe
+ */
+export function getRefreshTokenFromCookies(request: Request): string | null {
+  return leerCookie(request, REFRESH_COOKIE_NAME);
+}
+
 /**
  * 💾 GUARDAR TOKEN EN LOCALSTORAGE
  *
@@ -172,4 +191,4 @@ export function clearTokenWithCookies() {
  * Exporta las claves de storage y cookies para uso en otros módulos
  * que necesiten acceder directamente o hacer debugging.
  */
-export { KEY as AUTH_STORAGE_KEY, COOKIE_NAME as AUTH_COOKIE_NAME };
+export { KEY as AUTH_STORAGE_KEY, COOKIE_NAME as AUTH_COOKIE_NAME, REFRESH_COOKIE_NAME as AUTH_REFRESH_COOKIE_NAME };
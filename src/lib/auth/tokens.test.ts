@@ -0,0 +1,78 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SignJWT } from 'jose';
+import { firmarTokenAcceso, verificarTokenAcceso, ErrorTokenAcceso, DURACION_TOKEN_ACCESO } from './tokens';
+
+const DATOS = { email: 'ana@canopia.test', role: 'user' as const, sid: '64b7f0a1c2d3e4f5a6b7c8d9' };
+
+/**
+ * Verifica el token y devuelve el error de verificación
+ */
+const errorDe = async (token: string): Promise<ErrorTokenAcceso> => {
+  try {
+    await verificarTokenAcceso(token);
+  } catch (error) {
+    return error as ErrorTokenAcceso;
+  }
+  throw new Error('El token se aceptó');
+};
+
+describe('tokens de acceso', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('verifica un token recién firmado', async () => {
+    const payload = await verificarTokenAcceso(await firmarTokenAcceso(DATOS));
+    expect(payload).toMatchObject(DATOS);
+    expect(payload.exp).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  it('marca como expirado un token vencido', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T10:00:00Z'));
+    const token = await firmarTokenAcceso(DATOS);
+
+    vi.setSystemTime(new Date(Date.now() + (DURACION_TOKEN_ACCESO + 1) * 1000));
+    const error = await errorDe(token);
+
+    expect(error).toBeInstanceOf(ErrorTokenAcceso);
+    expect(error.expirado).toBe(true);
+  });
+
+  it('rechaza un token firmado con otro secreto sin marcarlo como expirado', async () => {
+    vi.stubEnv('JWT_SECRET', 'otro-secreto');
+    const token = await firmarTokenAcceso(DATOS);
+    vi.unstubAllEnvs();
+
+    const error = await errorDe(token);
+    expect(error).toBeInstanceOf(ErrorTokenAcceso);
+    expect(error.expirado).toBe(false);
+  });
+
+  it('rechaza tokens alterados o mal formados', async () => {
+    const token = await firmarTokenAcceso(DATOS);
+    const [cabecera, , firma] = token.split('.');
+    const payloadAlterado = Buffer.from(JSON.stringify({ ...DATOS, role: 'admin', typ: 'access' })).toString('base64url');
+
+    expect((await errorDe(`${cabecera}.${payloadAlterado}.${firma}`)).expirado).toBe(false);
+    expect(await errorDe('no-es-un-jwt')).toBeInstanceOf(ErrorTokenAcceso);
+  });
+
+  it('rechaza JWT válidos que no son de acceso', async () => {
+    const clave = new TextEncoder().encode(process.env.JWT_SECRET || 'bruce-app-development-secret-key-2024');
+    const token = await new SignJWT({ email: DATOS.email, sid: DATOS.sid, typ: 'refresh' })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setExpirationTime('1h')
+      .sign(clave);
+
+    expect((await errorDe(token)).message).toMatch(/no es un token de acceso/);
+  });
+
+  it('rechaza el algoritmo none', async () => {
+    const cabecera = Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({ ...DATOS, typ: 'access', exp: Math.floor(Date.now() / 1000) + 60 })).toString('base64url');
+    expect(await errorDe(`${cabecera}.${payload}.`)).toBeInstanceOf(ErrorTokenAcceso);
+  });
+});
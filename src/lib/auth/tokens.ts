@@ -0,0 +1,110 @@
+/**
+ * 🔑 TOKENS DE ACCESO - Firma y verificación de JWT con jose
+ *
+ * Módulo compatible con el Edge Runtime (usa Web Crypto a través de jose), por lo
+ * que lo comparten el middleware y las API routes de Node.
+ *
+ * Esquema de sesión:
+ * - Token de acceso: JWT HS256 de vida corta (15 minutos) con email, rol y sid
+ * - Token de refresco: opaco, rotativo y guardado hasheado en la colección
+ *   `sesiones` (ver lib/auth/sesiones.ts); el sid del JWT apunta a esa sesión
+ */
+
+import { SignJWT, jwtVerify, errors } from 'jose';
+
+/**
+ * ⏱️ DURACIONES (en segundos)
+ */
+export const DURACION_TOKEN_ACCESO = 15 * 60;            // 15 minutos
+export const DURACION_TOKEN_REFRESCO = 7 * 24 * 60 * 60; // 7 días desde la última rotación
+
+// Algoritmo de firma (secreto compartido)
+const ALGORITMO = 'HS256';
+
+// Secreto de firma solo para desarrollo y tests; en producción JWT_SECRET es obligatorio
+const SECRETO_DESARROLLO = 'bruce-app-development-secret-key-2024';
+
+/**
+ * Datos que viajan en el token de acceso
+ */
+export interface PayloadTokenAcceso {
+  email: string;
+  role: 'admin' | 'user';
+  sid: string;   // ID de la sesión de refresco que emitió el token
+  exp: number;   // Expiración (segundos desde epoch)
+}
+
+/**
+ * Error de verificación del token de acceso
+ * `expirado` permite distinguir una sesión vencida (se puede refrescar) de un token inválido
+ */
+export class ErrorTokenAcceso extends Error {
+  constructor(message: string, public readonly expirado = false) {
+    super(message);
+    this.name = 'ErrorTokenAcceso';
+  }
+}
+
+/**
+ * Verifica que el secreto de firma esté configurado
+ * La llama instrumentation.ts al arrancar el servidor para que producción no
+ * arranque firmando tokens con el secreto de desarrollo
+ * @throws Error si falta JWT_SECRET en producción
+ */
+export function verificarSecretoJwt(): void {
+  if (process.env.NODE_ENV === 'production' && !process.env.JWT_SECRET) {
+    throw new Error(
+      '❌ JWT_SECRET no está definida. En producción es obligatoria para firmar y verificar los tokens de acceso.'
+    );
+  }
+}
+
+/**
+ * Secreto de firma como bytes para jose
+ */
+function obtenerClave(): Uint8Array {
+  verificarSecretoJwt();
+  return new TextEncoder().encode(process.env.JWT_SECRET || SECRETO_DESARROLLO);
+}
+
+/**
+ * Firma un token de acceso de vida corta
+ * @param datos - Email, rol y sesión del usuario
+ * @returns JWT firmado
+ */
+export async function firmarTokenAcceso(datos: Omit<PayloadTokenAcceso, 'exp'>): Promise<string> {
+  return new SignJWT({ email: datos.email, role: datos.role, sid: datos.sid, typ: 'access' })
+    .setProtectedHeader({ alg: ALGORITMO })
+    .setIssuedAt()
+    .setExpirationTime(`${DURACION_TOKEN_ACCESO}s`)
+    .sign(obtenerClave());
+}
+
+/**
+ * Verifica firma, expiración y tipo de un token de acceso
+ * @param token - JWT recibido en header o cookie
+ * @returns Payload del token
+ * @throws ErrorTokenAcceso si el token está vencido, mal formado o no es de acceso
+ */
+export async function verificarTokenAcceso(token: string): Promise<PayloadTokenAcceso> {
+  try {
+    const { payload } = await jwtVerify(token, obtenerClave(), { algorithms: [ALGORITMO] });
+
+    if (payload.typ !== 'access' || typeof payload.email !== 'string' || typeof payload.sid !== 'string') {
+      throw new ErrorTokenAcceso('Token inválido - no es un token de acceso');
+    }
+
+    return {
+      email: payload.email,
+      role: payload.role === 'admin' ? 'admin' : 'user',
+      sid: payload.sid,
+      exp: payload.exp ?? 0
+    };
+  } catch (error) {
+    if (error instanceof ErrorTokenAcceso) throw error;
+    if (error instanceof errors.JWTExpired) {
+      throw new ErrorTokenAcceso('Token expirado', true);
+    }
+    throw new ErrorTokenAcceso('Token inválido o mal formado');
+  }
+}
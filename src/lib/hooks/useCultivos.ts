@@ -23,6 +23,7 @@ import {
   getCultivo,
   getEstadisticasCultivos
 } from '../services/cultivos';
+import { conCacheOffline } from '../services/offline';
 
 /**
  * Hook personalizado para manejar el estado completo de los cultivos
@@ -46,6 +47,9 @@ export function useCultivos(initial: ListaCultivosParams = { _sort: 'nombre', _o
   // Estado de error (string con mensaje de error o null si no hay error)
   const [error, setError] = useState<string | null>(null);
 
+  // true cuando no hay conexión y los cultivos se leyeron de la caché offline
+  const [sinConexion, setSinConexion] = useState(false);
+
   // Estado adicional para estadísticas de cultivos
   const [estadisticas, setEstadisticas] = useState<{
     total: number;
@@ -68,15 +72,20 @@ export function useCultivos(initial: ListaCultivosParams = { _sort: 'nombre', _o
         setError(null);
 
         // Llama al servicio para obtener los cultivos con los parámetros actuales
-        const data = await listCultivos(params, controller.signal, token || undefined);
+        // Sin conexión se usa la última lista guardada en la caché offline
+        const { datos: data, desdeCache } = await conCacheOffline(
+          `cultivos:${JSON.stringify(params)}`,
+          () => listCultivos(params, controller.signal, token || undefined)
+        );
 
         // Solo actualiza el estado si la petición no fue abortada
         if (!controller.signal.aborted) {
           setCultivos(data);
+          setSinConexion(desdeCache);
         }
 
         // Carga estadísticas si es la primera carga o cambió el filtro de activos
-        if (!params.q && !controller.signal.aborted) {
+        if (!params.q && !desdeCache && !controller.signal.aborted) {
           try {
             const stats = await getEstadisticasCultivos(token || undefined);
             if (!controller.signal.aborted) {
@@ -295,12 +304,14 @@ export function useCultivos(initial: ListaCultivosParams = { _sort: 'nombre', _o
 
   /**
    * Obtiene un cultivo específico por ID
+   * Sin conexión devuelve la última versión guardada en la caché offline
    * @param id - ID del cultivo a obtener
    * @returns Promise con el cultivo
    */
   const getById = useCallback(async (id: string) => {
     try {
-      return await getCultivo(id, undefined, token || undefined);
+      const { datos } = await conCacheOffline(`cultivo:${id}`, () => getCultivo(id, undefined, token || undefined));
+      return datos;
     } catch (error) {
       console.error(`Error al obtener cultivo ${id}:`, error);
       throw error;
@@ -314,6 +325,7 @@ export function useCultivos(initial: ListaCultivosParams = { _sort: 'nombre', _o
     error,          // Mensaje de error (o null)
     params,         // Parámetros actuales de consulta
     estadisticas,   // Estadísticas calculadas de cultivos
+    sinConexion,    // true si se muestran datos de la caché offline
     setQuery,       // Función para cambiar el filtro de búsqueda
     setSort,        // Función para cambiar el ordenamiento
     setFiltroActivo, // Función para filtrar por estado activo/inactivo
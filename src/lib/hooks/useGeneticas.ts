@@ -0,0 +1,54 @@
+/**
+ * Hook personalizado para el catálogo de genéticas del usuario
+ * Lo comparten el formulario de cultivo, la academia y las recomendaciones
+ * 'use client' indica que este código se ejecuta solo en el cliente (no en SSR)
+ */
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import type { Genetica, GeneticaEntrada } from '@/types/genetica';
+import { listarGeneticas, crearGenetica } from '../services/geneticas';
+
+/**
+ * Carga el catálogo de genéticas y permite agregar variedades nuevas
+ * @returns Objeto con { geneticas, loading, error, agregar }
+ */
+export function useGeneticas() {
+  const { token } = useAuth();
+
+  const [geneticas, setGeneticas] = useState<Genetica[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+
+    listarGeneticas(controller.signal, token || undefined)
+      .then(lista => {
+        setGeneticas(lista);
+        setError(null);
+      })
+      .catch(err => {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        setError(err instanceof Error ? err.message : 'No se pudo cargar el catálogo de genéticas');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [token]);
+
+  /**
+   * Agrega una genética al catálogo y la inserta en orden alfabético
+   */
+  const agregar = useCallback(async (datos: Partial<GeneticaEntrada>): Promise<Genetica> => {
+    const nueva = await crearGenetica(datos, token || undefined);
+    setGeneticas(prev => [...prev, nueva].sort((a, b) => a.nombre.localeCompare(b.nombre)));
+    return nueva;
+  }, [token]);
+
+  return { geneticas, loading, error, agregar };
+}
@@ -34,6 +34,13 @@ import {
   getTareasParaRecordatorio,
   marcarRecordatoriosEnviados
 } from '../services/planificacion';
+import {
+  conCacheOffline,
+  esErrorDeRed,
+  encolarMutacion,
+  listarMutaciones,
+  aplicarCambiosPendientesATareas
+} from '../services/offline';
 
 /**
  * Hook personalizado para manejar el estado completo de la planificación
@@ -62,6 +69,9 @@ export function usePlanificacion(
   // Estado para tareas que necesitan recordatorio
   const [tareasParaRecordatorio, setTareasParaRecordatorio] = useState<TareaCultivo[]>([]);
 
+  // true cuando no hay conexión y las tareas se leyeron de la caché offline
+  const [sinConexion, setSinConexion] = useState(false);
+
   // Autenticación para obtener el token
   const { token } = useAuth();
 
@@ -78,10 +88,16 @@ export function usePlanificacion(
         setError(null);
 
         // Llama al servicio para obtener las tareas con los parámetros actuales
-        const data = await sListTareas(params, controller.signal, token || undefined);
+        // Sin conexión se usa la última lista guardada, con los cambios aún no sincronizados
+        const { datos, desdeCache } = await conCacheOffline(
+          `tareas:${JSON.stringify(params)}`,
+          () => sListTareas(params, controller.signal, token || undefined)
+        );
+        const data = desdeCache ? aplicarCambiosPendientesATareas(datos, await listarMutaciones()) : datos;
 
         // Actualiza el estado con las tareas obtenidas
         setTareas(data);
+        setSinConexion(desdeCache);
 
         // Carga estadísticas si no hay filtros específicos
         if (!params.cultivoId && !params.q) {
@@ -236,6 +252,7 @@ export function usePlanificacion(
   /**
    * Actualiza una tarea con UI optimista
    * Aplica cambios inmediatamente en UI, mantiene backup para poder revertir si falla
+   * Sin conexión el cambio se encola y se conserva en UI hasta sincronizar
    * @param id - ID de la tarea a actualizar
    * @param patch - Campos a actualizar
    * @returns Promise con la tarea actualizada
@@ -272,6 +289,20 @@ export function usePlanificacion(
 
       return updated;
     } catch (e) {
+      // Sin conexión: se encola el cambio sobre la versión que se estaba viendo
+      if (backup && esErrorDeRed(e)) {
+        await encolarMutacion({
+          tipo: 'actualizar_tarea',
+          cultivoId: backup.cultivoId,
+          descripcion: `${backup.titulo}: ${patch.estado ? `marcar como ${patch.estado.replace('_', ' ')}` : 'editar'}`,
+          tareaId: id,
+          cambios: patch,
+          fechaActualizacionBase: backup.esOcurrenciaVirtual ? undefined : backup.fechaActualizacion
+        });
+        setSinConexion(true);
+        return { ...backup, ...patch };
+      }
+
       // En caso de error, revierte al estado original usando el backup
       if (backup) {
         setTareas(prev => prev.map(t => (t.id === id ? backup! : t)));
@@ -462,6 +493,7 @@ export function usePlanificacion(
     params,              // Parámetros actuales de consulta
     estadisticas,        // Estadísticas calculadas de planificación
     tareasParaRecordatorio, // Tareas que necesitan recordatorio
+    sinConexion,         // true si se muestran datos de la caché offline
 
     // Funciones de filtrado y ordenamiento
     setQuery,            // Función para cambiar el filtro de búsqueda
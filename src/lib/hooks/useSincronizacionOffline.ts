@@ -0,0 +1,109 @@
+/**
+ * Hook para seguir el estado de conexión y la cola de cambios offline
+ * Sincroniza automáticamente al montar y cada vez que vuelve la conexión
+ * 'use client' indica que este código se ejecuta solo en el cliente (no en SSR)
+ */
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth/AuthProvider';
+import type { MutacionOffline, ResumenSincronizacion } from '@/types/offline';
+import {
+  EVENTO_COLA_OFFLINE,
+  listarMutaciones,
+  sincronizarMutaciones,
+  resolverConflicto as sResolverConflicto
+} from '../services/offline';
+
+/**
+ * Hook de sincronización offline
+ * @param cultivoId - Limita la cola mostrada a los cambios de un cultivo
+ * @param onSincronizado - Se llama cuando se aplicó al menos un cambio (para recargar datos)
+ * @returns Estado de conexión, cola y acciones
+ */
+export function useSincronizacionOffline(
+  cultivoId?: string,
+  onSincronizado?: (resumen: ResumenSincronizacion) => void
+) {
+  const { token } = useAuth();
+
+  // Estado de conexión del navegador
+  const [enLinea, setEnLinea] = useState(true);
+
+  // Cambios encolados (pendientes, en conflicto o rechazados)
+  const [mutaciones, setMutaciones] = useState<MutacionOffline[]>([]);
+
+  // true mientras se reproduce la cola
+  const [sincronizando, setSincronizando] = useState(false);
+
+  /**
+   * Relee la cola desde IndexedDB
+   */
+  const cargarCola = useCallback(async () => {
+    setMutaciones(await listarMutaciones(cultivoId));
+  }, [cultivoId]);
+
+  /**
+   * Reproduce los cambios pendientes contra la API
+   */
+  const sincronizar = useCallback(async () => {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+    setSincronizando(true);
+    try {
+      const resumen = await sincronizarMutaciones(token || undefined);
+      if (resumen.aplicadas > 0) onSincronizado?.(resumen);
+    } catch (error) {
+      console.warn('Error al sincronizar cambios offline:', error);
+    } finally {
+      setSincronizando(false);
+      await cargarCola();
+    }
+  }, [token, onSincronizado, cargarCola]);
+
+  /**
+   * Resuelve un conflicto y, si se mantienen los cambios, vuelve a sincronizar
+   * @param id - ID del cambio en la cola
+   * @param decision - 'mantener_mios' o 'descartar'
+   */
+  const resolverConflicto = useCallback(async (id: number, decision: 'mantener_mios' | 'descartar') => {
+    await sResolverConflicto(id, decision);
+    if (decision === 'mantener_mios') await sincronizar();
+  }, [sincronizar]);
+
+  // Escucha cambios de conexión y de la cola
+  useEffect(() => {
+    setEnLinea(navigator.onLine);
+
+    const alConectar = () => {
+      setEnLinea(true);
+      sincronizar();
+    };
+    const alDesconectar = () => setEnLinea(false);
+    const alCambiarCola = () => {
+      cargarCola();
+    };
+
+    window.addEventListener('online', alConectar);
+    window.addEventListener('offline', alDesconectar);
+    window.addEventListener(EVENTO_COLA_OFFLINE, alCambiarCola);
+
+    // Cambios que quedaron de una sesión anterior
+    sincronizar();
+
+    return () => {
+      window.removeEventListener('online', alConectar);
+      window.removeEventListener('offline', alDesconectar);
+      window.removeEventListener(EVENTO_COLA_OFFLINE, alCambiarCola);
+    };
+  }, [sincronizar, cargarCola]);
+
+  return {
+    enLinea,             // false si el navegador está sin conexión
+    mutaciones,          // Cola de cambios
+    pendientes: mutaciones.filter(m => m.estado === 'pendiente').length,
+    conflictos: mutaciones.filter(m => m.estado !== 'pendiente'),
+    sincronizando,       // true mientras se reproduce la cola
+    sincronizar,         // Fuerza una sincronización
+    resolverConflicto    // Resuelve un conflicto o error
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Modelo de Mongoose para la lista de acceso de un cultivo
+ *
+ * Define el esquema y modelo de MongoDB para compartir un único cultivo con
+ * alguien de fuera de la organización (por ejemplo un consultor) sin darle
+ * acceso al resto de la cuenta.
+ *
+ * Características:
+ * - Una entrada por cultivo y email, con rol viewer, commenter o editor
+ * - Invitación por email con token hasheado, de un solo uso y con vencimiento
+ * - La entrada solo da acceso una vez aceptada, y solo al email invitado
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import crypto from 'crypto';
+import { hashToken } from '@/lib/utils/hash';
+import type {
+  AccesoCultivo as AccesoCultivoType,
+  EstadoAccesoCultivo,
+  RolAccesoCultivo
+} from '@/types/accesoCultivo';
+
+// Vigencia del enlace de invitación (ms)
+const VIGENCIA_INVITACION = 7 * 24 * 60 * 60 * 1000; // 7 días
+
+// Extender el tipo base con las propiedades de Mongoose Document
+export interface AccesoCultivoDocument extends Omit<AccesoCultivoType, 'id'>, Document {
+  _id: mongoose.Types.ObjectId;
+  tokenHash?: string; // sha256 del token de invitación (nunca se guarda en claro)
+}
+
+/**
+ * Datos para invitar a una persona a un cultivo
+ */
+export interface DatosInvitacionCultivo {
+  cultivoId: string;
+  organizacionId: string;
+  email: string;
+  rol: RolAccesoCultivo;
+  invitadoPor: string;
+}
+
+/**
+ * Interfaz para el modelo AccesoCultivo con métodos estáticos
+ */
+export interface AccesoCultivoModel extends Model<AccesoCultivoDocument> {
+  invitar(datos: DatosInvitacionCultivo): Promise<{ acceso: AccesoCultivoDocument; token?: string }>;
+  aceptarInvitacion(token: string, email: string): Promise<AccesoCultivoDocument | null>;
+}
+
+// Schema principal de AccesoCultivo
+const AccesoCultivoSchema = new Schema<AccesoCultivoDocument>({
+  // ===== RELACIONES =====
+  cultivoId: {
+    type: String,
+    required: [true, 'El cultivo es obligatorio'],
+    index: true
+  },
+  organizacionId: {
+    type: String,
+    required: [true, 'La organización es obligatoria'],
+    index: true // 🔒 Para filtrar por organización
+  },
+
+  // ===== PERSONA INVITADA =====
+  email: {
+    type: String,
+    required: [true, 'El email es obligatorio'],
+    lowercase: true,
+    trim: true,
+    validate: {
+      validator: function (v: string) {
+        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+      },
+      message: 'El email no es válido'
+    }
+  },
+  rol: {
+    type: String,
+    required: true,
+    enum: {
+      values: ['viewer', 'commenter', 'editor'] as RolAccesoCultivo[],
+      message: 'Rol no válido: {VALUE}'
+    },
+    default: 'viewer'
+  },
+  estado: {
+    type: String,
+    required: true,
+    enum: {
+      values: ['pendiente', 'aceptada'] as EstadoAccesoCultivo[],
+      message: 'Estado no válido: {VALUE}'
+    },
+    default: 'pendiente'
+  },
+
+  // ===== INVITACIÓN =====
+  tokenHash: {
+    type: String,
+    select: false // Nunca se devuelve en las consultas
+  },
+  tokenExpira: {
+    type: String
+  },
+
+  // ===== CONTROL TEMPORAL =====
+  fechaCreacion: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString().split('T')[0]
+  },
+  fechaAceptacion: {
+    type: String
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  invitadoPor: {
+    type: String,
+    required: [true, 'El email de quien invita es obligatorio'],
+    trim: true
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'accesosCultivo', // Nombre explícito de la colección
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).tokenHash;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// ===== ÍNDICES =====
+AccesoCultivoSchema.index({ cultivoId: 1, email: 1 }, { unique: true }); // Una entrada por persona y cultivo
+AccesoCultivoSchema.index({ email: 1, estado: 1 }); // Para listar los cultivos compartidos con un usuario
+AccesoCultivoSchema.index({ tokenHash: 1 }, { sparse: true }); // Para aceptar invitaciones
+
+// ===== MÉTODOS ESTÁTICOS =====
+
+/**
+ * Crea o actualiza la entrada de una persona en la lista de acceso
+ *
+ * Si la invitación ya fue aceptada solo cambia el rol. Si es nueva o sigue
+ * pendiente, emite un token nuevo (el anterior deja de servir) y lo devuelve
+ * en texto plano para enviarlo por email.
+ * @param datos - Cultivo, organización, email, rol y quién invita
+ */
+AccesoCultivoSchema.statics.invitar = async function (datos: DatosInvitacionCultivo) {
+  const email = datos.email.toLowerCase().trim();
+  const existente = await this.findOne({ cultivoId: datos.cultivoId, email });
+
+  if (existente?.estado === 'aceptada') {
+    existente.rol = datos.rol;
+    return { acceso: await existente.save() };
+  }
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const acceso = existente ?? new this({ ...datos, email });
+  acceso.rol = datos.rol;
+  acceso.invitadoPor = datos.invitadoPor;
+  acceso.tokenHash = hashToken(token);
+  acceso.tokenExpira = new Date(Date.now() + VIGENCIA_INVITACION).toISOString();
+
+  return { acceso: await acceso.save(), token };
+};
+
+/**
+ * Acepta una invitación: si el token es válido, no venció y corresponde al email
+ * del usuario, la marca como aceptada y borra el token de forma atómica
+ * (un segundo uso ya no la encuentra)
+ * @param token - Token en texto plano recibido del enlace
+ * @param email - Email del usuario autenticado que acepta
+ */
+AccesoCultivoSchema.statics.aceptarInvitacion = function (token: string, email: string) {
+  return this.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      tokenExpira: { $gt: new Date().toISOString() },
+      estado: 'pendiente',
+      email: email.toLowerCase().trim()
+    },
+    {
+      $set: { estado: 'aceptada', fechaAceptacion: new Date().toISOString() },
+      $unset: { tokenHash: '', tokenExpira: '' }
+    },
+    { new: true }
+  );
+};
+
+// Crear y exportar el modelo
+const AccesoCultivo: AccesoCultivoModel = (mongoose.models.AccesoCultivo as AccesoCultivoModel) || mongoose.model<AccesoCultivoDocument, AccesoCultivoModel>('AccesoCultivo', AccesoCultivoSchema);
+
+export default AccesoCultivo;
@@ -0,0 +1,171 @@
+/**
+ * Modelo de Mongoose para Alertas de Cultivo
+ *
+ * Define el esquema y modelo de MongoDB para las alertas generadas por las reglas
+ * de umbral cuando una medición se desvía del objetivo de la fase.
+ *
+ * Características:
+ * - Ciclo de vida abierta → reconocida → resuelta
+ * - Registro del objetivo, umbral y valor observado al detectarse
+ * - Vínculo opcional con un comentario tipo 'problema'
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { Alerta as AlertaType, EstadoAlerta, VariableAlerta } from '@/types/alerta';
+import type { PrioridadComentario } from '@/types/chat';
+
+// Extender el tipo base con las propiedades de Mongoose Document
+export interface AlertaDocument extends Omit<AlertaType, 'id'>, Document {
+  _id: mongoose.Types.ObjectId;
+}
+
+// Validador reutilizable para fechas ISO opcionales
+const fechaISOOpcional = {
+  validator: function (v: string) {
+    return !v || /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(v);
+  },
+  message: 'La fecha debe estar en formato ISO string'
+};
+
+// Schema principal de Alerta
+const AlertaSchema = new Schema<AlertaDocument>({
+  // ===== RELACIONES =====
+  cultivoId: {
+    type: String,
+    required: [true, 'El ID del cultivo es obligatorio'],
+    index: true
+  },
+  reglaId: {
+    type: String,
+    required: [true, 'El ID de la regla es obligatorio'],
+    index: true
+  },
+  comentarioId: {
+    type: String
+  },
+
+  // ===== DETALLE DE LA DESVIACIÓN =====
+  variable: {
+    type: String,
+    required: true,
+    enum: {
+      values: ['temperatura', 'humedad', 'ec', 'ph'] as VariableAlerta[],
+      message: 'Variable de alerta no válida: {VALUE}'
+    }
+  },
+  fase: {
+    type: String,
+    required: true,
+    enum: {
+      values: ['vegetacion', 'floracion'],
+      message: 'Fase no válida: {VALUE}'
+    }
+  },
+  objetivo: {
+    type: Number,
+    required: true
+  },
+  umbral: {
+    type: Number,
+    required: true
+  },
+  valorObservado: {
+    type: Number,
+    required: true
+  },
+  mensaje: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [500, 'El mensaje no puede exceder 500 caracteres']
+  },
+  prioridad: {
+    type: String,
+    enum: {
+      values: ['baja', 'media', 'alta', 'critica'] as PrioridadComentario[],
+      message: 'Prioridad no válida: {VALUE}'
+    },
+    default: 'alta'
+  },
+
+  // ===== ESTADO Y SEGUIMIENTO =====
+  estado: {
+    type: String,
+    required: true,
+    enum: {
+      values: ['abierta', 'reconocida', 'resuelta'] as EstadoAlerta[],
+      message: 'Estado de alerta no válido: {VALUE}'
+    },
+    default: 'abierta',
+    index: true
+  },
+  fechaApertura: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString(),
+    validate: fechaISOOpcional
+  },
+  ultimaDeteccion: {
+    type: String,
+    required: true,
+    validate: fechaISOOpcional
+  },
+  fechaReconocimiento: {
+    type: String,
+    validate: fechaISOOpcional
+  },
+  reconocidaPor: {
+    type: String,
+    trim: true
+  },
+  fechaResolucion: {
+    type: String,
+    validate: fechaISOOpcional
+  },
+  resueltaPor: {
+    type: String,
+    trim: true
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    trim: true,
+    validate: {
+      validator: function (v: string) {
+        return !v || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+      },
+      message: 'El email del creador no es válido'
+    },
+    index: true
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'alertas', // Nombre explícito de la colección
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// ===== ÍNDICES COMPUESTOS =====
+AlertaSchema.index({ cultivoId: 1, estado: 1, fechaApertura: -1 }); // Para listar alertas pendientes por cultivo
+AlertaSchema.index({ reglaId: 1, estado: 1 }); // Para encontrar la alerta vigente de una regla
+AlertaSchema.index(
+  { reglaId: 1 },
+  { unique: true, partialFilterExpression: { estado: { $in: ['abierta', 'reconocida'] } } }
+); // Una sola alerta vigente por regla aunque dos ingestas evalúen a la vez
+
+// Crear y exportar el modelo
+const Alerta: Model<AlertaDocument> = mongoose.models.Alerta || mongoose.model<AlertaDocument>('Alerta', AlertaSchema);
+
+export default Alerta;
@@ -88,6 +88,10 @@ const ComentarioSchema = new Schema<ComentarioDocument>({
     required: [true, 'El ID del cultivo es obligatorio'],
     index: true // Índice para consultas rápidas por cultivo
   },
+  plantaId: {
+    type: String,
+    index: true // Planta individual a la que se refiere (opcional)
+  },
 
   // ===== INFORMACIÓN BÁSICA =====
   titulo: {
@@ -251,6 +255,24 @@ const ComentarioSchema = new Schema<ComentarioDocument>({
     type: Boolean,
     default: false,
     index: true // Para comentarios importantes
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    trim: true,
+    validate: {
+      validator: function(v: string) {
+        return !v || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+      },
+      message: 'El email del creador no es válido'
+    },
+    index: true // Para filtrar comentarios del usuario
+  },
+  organizacionId: {
+    type: String,
+    trim: true,
+    index: true // 🔒 Para filtrar por organización
   }
 }, {
   // Opciones del schema
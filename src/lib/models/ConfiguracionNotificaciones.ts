@@ -0,0 +1,161 @@
+/**
+ * Modelo de Mongoose para la Configuración de Notificaciones
+ *
+ * Define el esquema y modelo de MongoDB para las preferencias de notificación
+ * de cada usuario (una configuración por email).
+ *
+ * Características:
+ * - Interruptor global de recordatorios y tiempo de aviso por defecto
+ * - Activación por canal: email, Web Push (notificacionesDesktop) y webhook
+ * - El secreto del webhook nunca se devuelve en JSON
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { ConfiguracionNotificaciones as ConfiguracionNotificacionesType } from '@/types/planificacion';
+
+/**
+ * Valores por defecto para usuarios que nunca guardaron su configuración
+ */
+export const CONFIGURACION_NOTIFICACIONES_DEFECTO: ConfiguracionNotificacionesType = {
+  recordatoriosActivados: true,
+  tiempoRecordatorioDefecto: 60,
+  notificacionesSonido: true,
+  notificacionesDesktop: true,
+  diasAnticipacion: 7,
+  notificacionesEmail: true,
+  notificacionesWebhook: false
+};
+
+/**
+ * Interfaz para documentos de ConfiguracionNotificaciones en MongoDB
+ */
+export interface ConfiguracionNotificacionesDocument extends ConfiguracionNotificacionesType, Document {
+  _id: mongoose.Types.ObjectId;
+  creadoPor: string;
+  fechaActualizacion: string;
+}
+
+/**
+ * Interfaz para el modelo ConfiguracionNotificaciones con métodos estáticos
+ */
+export interface ConfiguracionNotificacionesModel extends Model<ConfiguracionNotificacionesDocument> {
+  obtenerParaUsuario(email: string): Promise<ConfiguracionNotificacionesType>;
+}
+
+// Validador reutilizable para emails opcionales
+const emailOpcional = {
+  validator: function (v: string) {
+    return !v || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+  },
+  message: 'El email no es válido'
+};
+
+/**
+ * Schema principal de ConfiguracionNotificaciones
+ */
+const ConfiguracionNotificacionesSchema = new Schema<ConfiguracionNotificacionesDocument>({
+  // ===== PREFERENCIAS GENERALES =====
+  recordatoriosActivados: {
+    type: Boolean,
+    default: CONFIGURACION_NOTIFICACIONES_DEFECTO.recordatoriosActivados
+  },
+  tiempoRecordatorioDefecto: {
+    type: Number,
+    min: [1, 'El tiempo de recordatorio debe ser al menos 1 minuto'],
+    max: [10080, 'El tiempo de recordatorio no puede exceder una semana (10080 minutos)'],
+    default: CONFIGURACION_NOTIFICACIONES_DEFECTO.tiempoRecordatorioDefecto
+  },
+  notificacionesSonido: {
+    type: Boolean,
+    default: CONFIGURACION_NOTIFICACIONES_DEFECTO.notificacionesSonido
+  },
+  notificacionesDesktop: {
+    type: Boolean,
+    default: CONFIGURACION_NOTIFICACIONES_DEFECTO.notificacionesDesktop
+  },
+  diasAnticipacion: {
+    type: Number,
+    min: [0, 'Los días de anticipación no pueden ser negativos'],
+    max: [90, 'Los días de anticipación no pueden exceder 90'],
+    default: CONFIGURACION_NOTIFICACIONES_DEFECTO.diasAnticipacion
+  },
+
+  // ===== CANAL EMAIL =====
+  notificacionesEmail: {
+    type: Boolean,
+    default: CONFIGURACION_NOTIFICACIONES_DEFECTO.notificacionesEmail
+  },
+  emailDestino: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    validate: emailOpcional
+  },
+
+  // ===== CANAL WEBHOOK =====
+  notificacionesWebhook: {
+    type: Boolean,
+    default: CONFIGURACION_NOTIFICACIONES_DEFECTO.notificacionesWebhook
+  },
+  webhookUrl: {
+    type: String,
+    trim: true,
+    validate: {
+      validator: function (v: string) {
+        return !v || /^https?:\/\/\S+$/.test(v);
+      },
+      message: 'La URL del webhook debe empezar con http:// o https://'
+    }
+  },
+  webhookSecreto: {
+    type: String,
+    maxlength: [200, 'El secreto no puede exceder 200 caracteres']
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    required: [true, 'El email del usuario es obligatorio'],
+    unique: true, // Una configuración por usuario
+    trim: true,
+    validate: emailOpcional
+  },
+  fechaActualizacion: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString()
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'configuracion_notificaciones', // Nombre explícito de la colección
+  toJSON: {
+    transform: function (doc, ret) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).webhookSecreto; // Nunca devolver el secreto del webhook
+      return ret;
+    }
+  }
+});
+
+// ===== MÉTODOS ESTÁTICOS =====
+
+/**
+ * Obtiene la configuración de un usuario completando con los valores por defecto
+ * @param email - Email del usuario
+ */
+ConfiguracionNotificacionesSchema.statics.obtenerParaUsuario = async function (email: string) {
+  const configuracion = await this.findOne({ creadoPor: email }).lean();
+  return { ...CONFIGURACION_NOTIFICACIONES_DEFECTO, ...(configuracion || {}) };
+};
+
+// Crear y exportar el modelo
+const ConfiguracionNotificaciones: ConfiguracionNotificacionesModel =
+  (mongoose.models.ConfiguracionNotificaciones as ConfiguracionNotificacionesModel) ||
+  mongoose.model<ConfiguracionNotificacionesDocument, ConfiguracionNotificacionesModel>('ConfiguracionNotificaciones', ConfiguracionNotificacionesSchema);
+
+export default ConfiguracionNotificaciones;
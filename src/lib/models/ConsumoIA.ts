@@ -0,0 +1,89 @@
+/**
+ * Modelo de Mongoose para el Consumo de IA
+ *
+ * Define el esquema y modelo de MongoDB para los contadores mensuales de uso de la IA
+ * por usuario: tokens consumidos, imágenes analizadas y respuestas generadas.
+ *
+ * Características:
+ * - Un documento por usuario y mes (usuarioEmail + periodo únicos)
+ * - Los contadores se incrementan de forma atómica con $inc (ver utils/cuotasIA.ts)
+ * - Los límites no se guardan: dependen del plan vigente del usuario
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Documento de consumo mensual
+export interface ConsumoIADocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  usuarioEmail: string;          // 🔒 Usuario que consumió
+  periodo: string;               // Mes del consumo (YYYY-MM, UTC)
+  tokensPrompt: number;          // Tokens de entrada acumulados
+  tokensCompletion: number;      // Tokens de respuesta acumulados
+  tokensTotal: number;           // Tokens totales acumulados
+  analisisImagenes: number;      // Imágenes enviadas a analizar
+  mensajes: number;              // Respuestas generadas
+  fechaCreacion: string;
+  fechaActualizacion?: string;
+}
+
+// Definición reutilizable para contadores
+const contador = {
+  type: Number,
+  default: 0,
+  min: [0, 'Los contadores de consumo no pueden ser negativos'] as [number, string]
+};
+
+// Schema principal de ConsumoIA
+const ConsumoIASchema = new Schema<ConsumoIADocument>({
+  usuarioEmail: {
+    type: String,
+    required: [true, 'El email del usuario es obligatorio'],
+    trim: true,
+    lowercase: true
+  },
+  periodo: {
+    type: String,
+    required: [true, 'El período es obligatorio'],
+    match: [/^\d{4}-\d{2}$/, 'El período debe estar en formato YYYY-MM']
+  },
+
+  // ===== CONTADORES =====
+  tokensPrompt: contador,
+  tokensCompletion: contador,
+  tokensTotal: contador,
+  analisisImagenes: contador,
+  mensajes: contador,
+
+  // ===== FECHAS =====
+  fechaCreacion: {
+    type: String,
+    default: () => new Date().toISOString()
+  },
+  fechaActualizacion: {
+    type: String
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'consumos_ia', // Nombre explícito de la colección
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// ===== ÍNDICES =====
+ConsumoIASchema.index({ usuarioEmail: 1, periodo: 1 }, { unique: true }); // Un contador por usuario y mes
+
+// Crear y exportar el modelo
+const ConsumoIA: Model<ConsumoIADocument> = mongoose.models.ConsumoIA || mongoose.model<ConsumoIADocument>('ConsumoIA', ConsumoIASchema);
+
+export default ConsumoIA;
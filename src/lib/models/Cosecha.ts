@@ -0,0 +1,182 @@
+/**
+ * Modelo de Mongoose para Cosechas
+ *
+ * Define el esquema y modelo de MongoDB para el registro de lo cosechado en un
+ * cultivo: pesos en húmedo, seco y trim, fechas de secado y curado, y calidad.
+ *
+ * Características:
+ * - Una cosecha por cultivo (cultivoId único)
+ * - Pesos en gramos; las métricas (g/m², g/W, g/planta) se calculan al leer
+ * - Validación de orden entre las fechas de corte, secado y curado
+ * - Desglose opcional de pesos por planta (pesosPorPlanta)
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { Cosecha as CosechaType } from '@/types/cosecha';
+
+// Extender el tipo base con las propiedades de Mongoose Document
+export interface CosechaDocument extends Omit<CosechaType, 'id'>, Document {
+  _id: mongoose.Types.ObjectId;
+}
+
+// Validador reutilizable para fechas YYYY-MM-DD opcionales
+const fechaDiaOpcional = {
+  validator: function (v: string) {
+    return !v || /^\d{4}-\d{2}-\d{2}$/.test(v);
+  },
+  message: 'La fecha debe estar en formato YYYY-MM-DD'
+};
+
+// Definición reutilizable para pesos en gramos
+const peso = (nombre: string) => ({
+  type: Number,
+  min: [0, `El ${nombre} no puede ser negativo`],
+  max: [1000000, `El ${nombre} no puede exceder 1.000 kg`]
+});
+
+// Sub-schema de pesos por planta
+const PesoPlantaSchema = new Schema({
+  plantaId: {
+    type: String,
+    required: [true, 'El ID de la planta es obligatorio']
+  },
+  pesoHumedo: peso('peso húmedo de la planta'),
+  pesoSeco: peso('peso seco de la planta')
+}, { _id: false });
+
+// Schema principal de Cosecha
+const CosechaSchema = new Schema<CosechaDocument>({
+  // ===== RELACIONES =====
+  cultivoId: {
+    type: String,
+    required: [true, 'El ID del cultivo es obligatorio'],
+    unique: true
+  },
+
+  // ===== PESOS =====
+  fechaCorte: {
+    type: String,
+    required: [true, 'La fecha de corte es obligatoria'],
+    validate: fechaDiaOpcional
+  },
+  pesoHumedo: peso('peso húmedo'),
+  pesoSeco: peso('peso seco'),
+  pesoTrim: peso('peso de trim'),
+
+  // ===== SECADO Y CURADO =====
+  fechaInicioSecado: {
+    type: String,
+    validate: fechaDiaOpcional
+  },
+  fechaFinSecado: {
+    type: String,
+    validate: fechaDiaOpcional
+  },
+  fechaInicioCurado: {
+    type: String,
+    validate: fechaDiaOpcional
+  },
+  fechaFinCurado: {
+    type: String,
+    validate: fechaDiaOpcional
+  },
+
+  // ===== CALIDAD =====
+  calidad: {
+    type: Number,
+    min: [1, 'La calidad debe estar entre 1 y 5'],
+    max: [5, 'La calidad debe estar entre 1 y 5']
+  },
+  notasCalidad: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Las notas de calidad no pueden exceder 2,000 caracteres']
+  },
+
+  // ===== DESGLOSE POR PLANTA =====
+  pesosPorPlanta: {
+    type: [PesoPlantaSchema],
+    default: undefined
+  },
+
+  // ===== CONTROL TEMPORAL =====
+  fechaCreacion: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString().split('T')[0]
+  },
+  fechaActualizacion: {
+    type: String
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    trim: true,
+    validate: {
+      validator: function (v: string) {
+        return !v || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+      },
+      message: 'El email del creador no es válido'
+    },
+    index: true
+  },
+  editadoPor: {
+    type: String,
+    trim: true
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'cosechas', // Nombre explícito de la colección
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// ===== VALIDACIONES PERSONALIZADAS =====
+
+// Las etapas posteriores al corte no pueden ser anteriores a la etapa previa
+CosechaSchema.pre('validate', function (next) {
+  const etapas: [string, string | undefined][] = [
+    ['corte', this.fechaCorte],
+    ['inicio del secado', this.fechaInicioSecado],
+    ['fin del secado', this.fechaFinSecado],
+    ['inicio del curado', this.fechaInicioCurado],
+    ['fin del curado', this.fechaFinCurado]
+  ];
+
+  let anterior: [string, string] | null = null;
+  for (const [nombre, fecha] of etapas) {
+    if (!fecha) continue;
+    if (anterior && fecha < anterior[1]) {
+      this.invalidate('fechaCorte', `La fecha de ${nombre} no puede ser anterior a la de ${anterior[0]}`);
+      break;
+    }
+    anterior = [nombre, fecha];
+  }
+
+  if (this.pesoHumedo !== undefined && this.pesoSeco !== undefined && this.pesoSeco > this.pesoHumedo) {
+    this.invalidate('pesoSeco', 'El peso seco no puede superar al peso húmedo');
+  }
+
+  const plantas = (this.pesosPorPlanta ?? []).map(p => p.plantaId);
+  if (new Set(plantas).size !== plantas.length) {
+    this.invalidate('pesosPorPlanta', 'Cada planta puede aparecer una sola vez en el desglose');
+  }
+  next();
+});
+
+// Crear y exportar el modelo
+const Cosecha: Model<CosechaDocument> = mongoose.models.Cosecha || mongoose.model<CosechaDocument>('Cosecha', CosechaSchema);
+
+export default Cosecha;
@@ -73,6 +73,9 @@ const ImagenCultivoSchema = new Schema<ImagenCultivo>({
       },
       message: 'El tipo debe ser un MIME type de imagen válido'
     }
+  },
+  plantaId: {
+    type: String // Planta individual fotografiada (opcional)
   }
 }, { _id: false }); // No crear _id automático para subdocumentos
 
@@ -128,6 +131,9 @@ const CultivoSchema = new Schema<CultivoDocument>({
     trim: true,
     maxlength: [200, 'La genética no puede exceder 200 caracteres']
   },
+  geneticaId: {
+    type: String // Perfil del catálogo de genéticas
+  },
 
   // ===== CONTROL TEMPORAL =====
   fechaCreacion: {
@@ -138,7 +144,7 @@ const CultivoSchema = new Schema<CultivoDocument>({
   },
   fechaActualizacion: {
     type: String,
-    default: () => new Date().toISOString().split('T')[0]
+    default: () => new Date().toISOString()
   },
   activo: {
     type: Boolean,
@@ -173,6 +179,11 @@ const CultivoSchema = new Schema<CultivoDocument>({
       message: 'El email del creador no es válido'
     }
   },
+  organizacionId: {
+    type: String,
+    trim: true,
+    index: true // 🔒 Para filtrar por organización
+  },
   editadoPor: {
     type: String,
     trim: true,
@@ -309,7 +320,7 @@ CultivoSchema.index({ nombre: 'text', genetica: 'text', notas: 'text' }); // Bú
 // Pre-save: Actualizar fecha de modificación
 CultivoSchema.pre('save', function (next) {
   if (this.isModified() && !this.isNew) {
-    this.fechaActualizacion = new Date().toISOString().split('T')[0];
+    this.fechaActualizacion = new Date().toISOString();
   }
   next();
 });
@@ -0,0 +1,209 @@
+/**
+ * Modelo de Mongoose para Diagnósticos
+ *
+ * Define el esquema y modelo de MongoDB para el historial de diagnósticos de salud
+ * del Doctor IA: problemas detectados, severidad y acciones sugeridas, vinculados
+ * al cultivo y a la imagen de la galería analizada.
+ *
+ * Características:
+ * - Varios diagnósticos por cultivo, ordenados por fecha
+ * - Las acciones guardan el ID de la tarea creada para seguir su estado
+ * - El estado pasa a 'en_seguimiento' al crear tareas y a 'resuelto' manualmente
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { Diagnostico as DiagnosticoType, SeveridadDiagnostico, CategoriaProblema } from '@/types/diagnostico';
+
+// Extender el tipo base con las propiedades de Mongoose Document
+export interface DiagnosticoDocument extends Omit<DiagnosticoType, 'id'>, Document {
+  _id: mongoose.Types.ObjectId;
+}
+
+const SEVERIDADES: SeveridadDiagnostico[] = ['baja', 'media', 'alta', 'critica'];
+const CATEGORIAS: CategoriaProblema[] = ['plaga', 'enfermedad', 'deficiencia', 'ambiental', 'otro'];
+
+// Definición reutilizable para la severidad
+const severidad = {
+  type: String,
+  enum: {
+    values: SEVERIDADES,
+    message: 'Severidad no válida: {VALUE}'
+  },
+  required: [true, 'La severidad es obligatoria'] as [boolean, string]
+};
+
+// Sub-schema de problemas detectados
+const ProblemaSchema = new Schema({
+  nombre: {
+    type: String,
+    required: [true, 'El nombre del problema es obligatorio'],
+    trim: true,
+    maxlength: [200, 'El nombre del problema no puede exceder 200 caracteres']
+  },
+  categoria: {
+    type: String,
+    enum: {
+      values: CATEGORIAS,
+      message: 'Categoría de problema no válida: {VALUE}'
+    },
+    default: 'otro'
+  },
+  severidad,
+  descripcion: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'La descripción del problema no puede exceder 1,000 caracteres']
+  }
+}, { _id: false });
+
+// Sub-schema de acciones sugeridas
+const AccionSchema = new Schema({
+  id: {
+    type: String,
+    required: true
+  },
+  descripcion: {
+    type: String,
+    required: [true, 'La descripción de la acción es obligatoria'],
+    trim: true,
+    maxlength: [500, 'La descripción de la acción no puede exceder 500 caracteres']
+  },
+  tipoTarea: {
+    type: String,
+    enum: {
+      values: ['monitoreo', 'mantenimiento'],
+      message: 'Tipo de tarea no válido para una acción: {VALUE}'
+    },
+    default: 'monitoreo'
+  },
+  prioridad: {
+    type: String,
+    enum: {
+      values: ['baja', 'media', 'alta', 'urgente'],
+      message: 'Prioridad no válida: {VALUE}'
+    },
+    default: 'media'
+  },
+  plazoDias: {
+    type: Number,
+    min: [0, 'El plazo no puede ser negativo'],
+    max: [90, 'El plazo no puede exceder 90 días'],
+    default: 0
+  },
+  tareaId: {
+    type: String
+  }
+}, { _id: false });
+
+// Schema principal de Diagnostico
+const DiagnosticoSchema = new Schema<DiagnosticoDocument>({
+  // ===== RELACIONES =====
+  cultivoId: {
+    type: String,
+    required: [true, 'El ID del cultivo es obligatorio'],
+    index: true
+  },
+  imagenId: {
+    type: String
+  },
+  imagenUrl: {
+    type: String,
+    trim: true
+  },
+
+  // ===== RESULTADO =====
+  resumen: {
+    type: String,
+    required: [true, 'El resumen del diagnóstico es obligatorio'],
+    trim: true,
+    maxlength: [2000, 'El resumen no puede exceder 2,000 caracteres']
+  },
+  severidad,
+  problemas: {
+    type: [ProblemaSchema],
+    default: []
+  },
+  acciones: {
+    type: [AccionSchema],
+    default: []
+  },
+
+  // ===== SEGUIMIENTO =====
+  estado: {
+    type: String,
+    enum: {
+      values: ['abierto', 'en_seguimiento', 'resuelto'],
+      message: 'Estado de diagnóstico no válido: {VALUE}'
+    },
+    default: 'abierto'
+  },
+  fechaResolucion: {
+    type: String
+  },
+
+  // ===== PROVEEDOR DE IA =====
+  proveedor: {
+    type: String,
+    enum: ['n8n', 'openai', 'local'],
+    required: true
+  },
+  modelo: {
+    type: String
+  },
+  tokens: {
+    prompt: Number,
+    completion: Number,
+    total: Number
+  },
+
+  // ===== CONTROL TEMPORAL =====
+  fechaCreacion: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString()
+  },
+  fechaActualizacion: {
+    type: String
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    trim: true,
+    validate: {
+      validator: function (v: string) {
+        return !v || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+      },
+      message: 'El email del creador no es válido'
+    },
+    index: true
+  },
+  editadoPor: {
+    type: String,
+    trim: true
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'diagnosticos', // Nombre explícito de la colección
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// ===== ÍNDICES =====
+DiagnosticoSchema.index({ cultivoId: 1, fechaCreacion: -1 }); // Historial del cultivo
+
+// Crear y exportar el modelo
+const Diagnostico: Model<DiagnosticoDocument> = mongoose.models.Diagnostico || mongoose.model<DiagnosticoDocument>('Diagnostico', DiagnosticoSchema);
+
+export default Diagnostico;
@@ -0,0 +1,146 @@
+/**
+ * Modelo de Mongoose para Dispositivos de Sensores
+ *
+ * Define el esquema y modelo de MongoDB para los controladores (ej: placas ESP32)
+ * que envían lecturas ambientales sin un JWT de usuario.
+ *
+ * Características:
+ * - Cada dispositivo pertenece a un cultivo y al email dueño del mismo
+ * - La API key se guarda hasheada (SHA-256); nunca en texto plano
+ * - Revocación mediante el flag activo
+ * - Registro de última conexión y total de lecturas recibidas
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import crypto from 'crypto';
+import type { Dispositivo as DispositivoType } from '@/types/dispositivo';
+import { hashToken } from '@/lib/utils/hash';
+
+// Prefijo de las API keys para reconocerlas fácilmente
+const PREFIJO_API_KEY = 'cnp_';
+
+/**
+ * Interfaz para documentos de Dispositivo en MongoDB
+ */
+export interface DispositivoDocument extends Omit<DispositivoType, 'id'>, Document {
+  _id: mongoose.Types.ObjectId;
+  apiKeyHash: string;
+}
+
+/**
+ * Interfaz para el modelo Dispositivo con métodos estáticos
+ */
+export interface DispositivoModel extends Model<DispositivoDocument> {
+  findByApiKey(apiKey: string): Promise<DispositivoDocument | null>;
+}
+
+/**
+ * Genera una nueva API key aleatoria junto con su hash y prefijo visible
+ */
+export function generarApiKey(): { apiKey: string; apiKeyHash: string; prefijoApiKey: string } {
+  const apiKey = `${PREFIJO_API_KEY}${crypto.randomBytes(24).toString('hex')}`;
+  return {
+    apiKey,
+    apiKeyHash: hashToken(apiKey),
+    prefijoApiKey: apiKey.slice(0, PREFIJO_API_KEY.length + 6)
+  };
+}
+
+/**
+ * Schema principal de Dispositivo
+ */
+const DispositivoSchema = new Schema<DispositivoDocument>({
+  // ===== INFORMACIÓN BÁSICA =====
+  nombre: {
+    type: String,
+    required: [true, 'El nombre del dispositivo es obligatorio'],
+    trim: true,
+    maxlength: [100, 'El nombre no puede exceder 100 caracteres']
+  },
+  cultivoId: {
+    type: String,
+    required: [true, 'El ID del cultivo es obligatorio'],
+    index: true
+  },
+
+  // ===== CREDENCIALES =====
+  apiKeyHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  prefijoApiKey: {
+    type: String,
+    required: true
+  },
+
+  // ===== ESTADO =====
+  activo: {
+    type: Boolean,
+    default: true,
+    index: true
+  },
+  fechaCreacion: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString().split('T')[0]
+  },
+  ultimaConexion: {
+    type: String
+  },
+  totalLecturas: {
+    type: Number,
+    default: 0,
+    min: [0, 'El total de lecturas no puede ser negativo']
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    required: [true, 'El email del dueño es obligatorio'],
+    trim: true,
+    validate: {
+      validator: function (v: string) {
+        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+      },
+      message: 'El email del creador no es válido'
+    },
+    index: true
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'dispositivos',
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).apiKeyHash; // Nunca incluir el hash en JSON
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// ===== ÍNDICES COMPUESTOS =====
+DispositivoSchema.index({ creadoPor: 1, cultivoId: 1 }); // Para listar dispositivos por cultivo
+
+// ===== MÉTODOS ESTÁTICOS =====
+
+/**
+ * Buscar dispositivo activo por API key en texto plano
+ * @param apiKey - API key enviada por el dispositivo
+ */
+DispositivoSchema.statics.findByApiKey = function (apiKey: string) {
+  return this.findOne({ apiKeyHash: hashToken(apiKey), activo: true });
+};
+
+// Crear y exportar el modelo
+const Dispositivo: DispositivoModel = (mongoose.models.Dispositivo as DispositivoModel) || mongoose.model<DispositivoDocument, DispositivoModel>('Dispositivo', DispositivoSchema);
+
+export default Dispositivo;
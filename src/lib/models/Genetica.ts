@@ -0,0 +1,118 @@
+/**
+ * Modelo de Mongoose para Genéticas
+ *
+ * Define el esquema y modelo de MongoDB para el catálogo de variedades de cada
+ * usuario: banco, proporción índica/sativa, semanas de floración, si es
+ * autofloreciente y el estiramiento típico.
+ *
+ * Características:
+ * - Nombre único por usuario (sin distinguir mayúsculas)
+ * - Los cultivos la referencian con geneticaId y conservan el nombre en genetica
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { Genetica as GeneticaType, EstiramientoGenetica } from '@/types/genetica';
+
+// Extender el tipo base con las propiedades de Mongoose Document
+export interface GeneticaDocument extends Omit<GeneticaType, 'id'>, Document {
+  _id: mongoose.Types.ObjectId;
+}
+
+// Schema principal de Genetica
+const GeneticaSchema = new Schema<GeneticaDocument>({
+  // ===== IDENTIFICACIÓN =====
+  nombre: {
+    type: String,
+    required: [true, 'El nombre de la genética es obligatorio'],
+    trim: true,
+    maxlength: [200, 'El nombre no puede exceder 200 caracteres']
+  },
+  banco: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'El banco no puede exceder 100 caracteres']
+  },
+
+  // ===== PERFIL DE LA VARIEDAD =====
+  porcentajeIndica: {
+    type: Number,
+    min: [0, 'El porcentaje índica no puede ser negativo'],
+    max: [100, 'El porcentaje índica no puede exceder 100']
+  },
+  semanasFloracion: {
+    type: Number,
+    required: [true, 'Las semanas de floración son obligatorias'],
+    min: [4, 'La floración debe durar al menos 4 semanas'],
+    max: [20, 'La floración no puede exceder 20 semanas']
+  },
+  autofloreciente: {
+    type: Boolean,
+    default: false
+  },
+  estiramiento: {
+    type: String,
+    enum: {
+      values: ['bajo', 'medio', 'alto'] as EstiramientoGenetica[],
+      message: 'Estiramiento no válido: {VALUE}'
+    }
+  },
+  notas: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Las notas no pueden exceder 2,000 caracteres']
+  },
+
+  // ===== CONTROL TEMPORAL =====
+  fechaCreacion: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString().split('T')[0]
+  },
+  fechaActualizacion: {
+    type: String
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    trim: true,
+    validate: {
+      validator: function (v: string) {
+        return !v || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+      },
+      message: 'El email del creador no es válido'
+    },
+    index: true
+  },
+  editadoPor: {
+    type: String,
+    trim: true
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'geneticas', // Nombre explícito de la colección
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// ===== ÍNDICES =====
+GeneticaSchema.index(
+  { creadoPor: 1, nombre: 1 },
+  { unique: true, collation: { locale: 'es', strength: 2 } }
+); // Nombre único por usuario sin distinguir mayúsculas
+
+// Crear y exportar el modelo
+const Genetica: Model<GeneticaDocument> = mongoose.models.Genetica || mongoose.model<GeneticaDocument>('Genetica', GeneticaSchema);
+
+export default Genetica;
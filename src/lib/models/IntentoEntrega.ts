@@ -0,0 +1,119 @@
+/**
+ * Modelo de Mongoose para Intentos de Entrega de notificaciones
+ *
+ * Define el esquema y modelo de MongoDB para el registro de cada intento de
+ * enviar un recordatorio por un canal (email, web push o webhook).
+ *
+ * Características:
+ * - Un documento por intento y canal, con el error si falló
+ * - Permite reintentar solo los canales fallidos
+ * - Sirve de marca de envío para ocurrencias virtuales de tareas recurrentes
+ * - También registra los avisos push de tareas vencidas (tipo 'tarea_vencida')
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { IntentoEntrega as IntentoEntregaType, CanalNotificacion, EstadoEntrega, TipoNotificacion } from '@/types/notificacion';
+
+// Extender el tipo base con las propiedades de Mongoose Document
+export interface IntentoEntregaDocument extends Omit<IntentoEntregaType, 'id'>, Document {
+  _id: mongoose.Types.ObjectId;
+}
+
+// Schema principal de IntentoEntrega
+const IntentoEntregaSchema = new Schema<IntentoEntregaDocument>({
+  tipo: {
+    type: String,
+    required: true,
+    enum: {
+      values: ['recordatorio_tarea', 'tarea_vencida', 'comentario_critico'] as TipoNotificacion[],
+      message: 'Tipo de notificación no válido: {VALUE}'
+    },
+    default: 'recordatorio_tarea'
+  },
+
+  // ===== RELACIONES =====
+  tareaId: {
+    type: String,
+    required: [true, 'El ID de la tarea es obligatorio']
+  },
+  fechaOcurrencia: {
+    type: String,
+    required: [true, 'La fecha de la ocurrencia es obligatoria'],
+    validate: {
+      validator: function (v: string) {
+        return /^\d{4}-\d{2}-\d{2}$/.test(v);
+      },
+      message: 'La fecha debe estar en formato YYYY-MM-DD'
+    }
+  },
+  cultivoId: {
+    type: String,
+    required: [true, 'El ID del cultivo es obligatorio']
+  },
+
+  // ===== ENTREGA =====
+  canal: {
+    type: String,
+    required: [true, 'El canal es obligatorio'],
+    enum: {
+      values: ['email', 'push', 'webhook'] as CanalNotificacion[],
+      message: 'Canal no válido: {VALUE}'
+    }
+  },
+  estado: {
+    type: String,
+    required: [true, 'El estado es obligatorio'],
+    enum: {
+      values: ['enviado', 'fallido', 'omitido'] as EstadoEntrega[],
+      message: 'Estado de entrega no válido: {VALUE}'
+    }
+  },
+  intento: {
+    type: Number,
+    required: true,
+    min: [1, 'El número de intento debe ser al menos 1'],
+    default: 1
+  },
+  error: {
+    type: String,
+    maxlength: [1000, 'El error no puede exceder 1,000 caracteres']
+  },
+  fecha: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString()
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    required: [true, 'El email del dueño es obligatorio'],
+    trim: true,
+    index: true
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'intentos_entrega', // Nombre explícito de la colección
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// ===== ÍNDICES COMPUESTOS =====
+IntentoEntregaSchema.index({ tareaId: 1, fechaOcurrencia: 1, tipo: 1, canal: 1 }); // Para saber qué canales ya se resolvieron
+IntentoEntregaSchema.index({ creadoPor: 1, fecha: -1 }); // Para el historial de entregas del usuario
+
+// Crear y exportar el modelo
+const IntentoEntrega: Model<IntentoEntregaDocument> = mongoose.models.IntentoEntrega || mongoose.model<IntentoEntregaDocument>('IntentoEntrega', IntentoEntregaSchema);
+
+export default IntentoEntrega;
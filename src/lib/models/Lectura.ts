@@ -0,0 +1,231 @@
+/**
+ * Modelo de Mongoose para Lecturas Ambientales
+ *
+ * Define el esquema y modelo de MongoDB para las mediciones reales de cada cultivo
+ * (temperatura, humedad, EC, pH y volumen de agua).
+ *
+ * Características:
+ * - Lecturas con marca de tiempo completa (ISO string)
+ * - Validación de rangos físicos razonables
+ * - Índices optimizados para consultas por rango de fechas
+ * - Agregados diarios mediante aggregation pipeline
+ * - Idempotencia por dispositivo para lecturas enviadas por sensores
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type {
+  Lectura as LecturaType,
+  OrigenLectura,
+  AgregadoDiarioLecturas
+} from '@/types/lectura';
+
+// Extender el tipo base con las propiedades de Mongoose Document
+export interface LecturaDocument extends Omit<LecturaType, 'id'>, Document {
+  _id: mongoose.Types.ObjectId;
+}
+
+// Métodos estáticos del modelo
+export interface LecturaModel extends Model<LecturaDocument> {
+  getAgregadosDiarios(cultivoId: string, desde?: string, hasta?: string): Promise<AgregadoDiarioLecturas[]>;
+}
+
+/**
+ * Convierte la fecha de una lectura a ISO en UTC (ej: 2026-10-20T11:30:00.000Z)
+ * Las consultas por rango comparan strings y los agregados diarios toman los
+ * primeros 10 caracteres, así que todas las lecturas se guardan con el mismo
+ * formato aunque lleguen con desfase horario (ej: -03:00)
+ * @returns Fecha normalizada, o null si no es una fecha ISO válida
+ */
+export function normalizarFechaLectura(valor: unknown): string | null {
+  if (typeof valor !== 'string' || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(valor.trim())) return null;
+  const fecha = new Date(valor.trim());
+  return isNaN(fecha.getTime()) ? null : fecha.toISOString();
+}
+
+// Schema principal de Lectura
+const LecturaSchema = new Schema<LecturaDocument>({
+  // ===== RELACIÓN CON CULTIVO =====
+  cultivoId: {
+    type: String,
+    required: [true, 'El ID del cultivo es obligatorio'],
+    index: true
+  },
+
+  // ===== INFORMACIÓN TEMPORAL =====
+  fecha: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString(),
+    validate: {
+      validator: function (v: string) {
+        return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(v);
+      },
+      message: 'La fecha debe estar en formato ISO string'
+    },
+    index: true
+  },
+  fechaCreacion: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString().split('T')[0]
+  },
+
+  // ===== MEDICIONES =====
+  temperatura: {
+    type: Number,
+    min: [-10, 'La temperatura mínima es -10°C'],
+    max: [60, 'La temperatura máxima es 60°C']
+  },
+  humedad: {
+    type: Number,
+    min: [0, 'La humedad no puede ser negativa'],
+    max: [100, 'La humedad máxima es 100%']
+  },
+  ec: {
+    type: Number,
+    min: [0, 'El EC no puede ser negativo'],
+    max: [5000, 'El EC no puede exceder 5000 ppm']
+  },
+  ph: {
+    type: Number,
+    min: [0, 'El pH no puede ser negativo'],
+    max: [14, 'El pH no puede exceder 14']
+  },
+  volumenAgua: {
+    type: Number,
+    min: [0, 'El volumen de agua no puede ser negativo'],
+    max: [10000, 'El volumen de agua no puede exceder 10,000 litros']
+  },
+
+  // ===== METADATOS =====
+  origen: {
+    type: String,
+    enum: {
+      values: ['manual', 'sensor'] as OrigenLectura[],
+      message: 'Origen de lectura no válido: {VALUE}'
+    },
+    default: 'manual'
+  },
+  notas: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Las notas no pueden exceder 500 caracteres']
+  },
+  dispositivoId: {
+    type: String
+  },
+  claveIdempotencia: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'La clave de idempotencia no puede exceder 100 caracteres']
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    trim: true,
+    validate: {
+      validator: function (v: string) {
+        return !v || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+      },
+      message: 'El email del creador no es válido'
+    },
+    index: true
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'lecturas', // Nombre explícito de la colección
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// ===== ÍNDICES COMPUESTOS =====
+LecturaSchema.index({ cultivoId: 1, fecha: -1 }); // Para consultas por rango y última lectura
+LecturaSchema.index(
+  { dispositivoId: 1, claveIdempotencia: 1 },
+  { unique: true, partialFilterExpression: { claveIdempotencia: { $exists: true } } }
+); // Evita lecturas duplicadas cuando un dispositivo reintenta un envío
+
+// ===== VALIDACIÓN PERSONALIZADA =====
+
+// Una lectura debe contener al menos una medición
+LecturaSchema.pre('validate', function (next) {
+  const tieneMedicion = [this.temperatura, this.humedad, this.ec, this.ph, this.volumenAgua]
+    .some(valor => valor !== undefined && valor !== null);
+
+  if (!tieneMedicion) {
+    this.invalidate('temperatura', 'La lectura debe incluir al menos una medición');
+  }
+  next();
+});
+
+// ===== MÉTODOS ESTÁTICOS =====
+
+// Agregados diarios (promedio, mínimo y máximo por variable)
+LecturaSchema.statics.getAgregadosDiarios = async function (cultivoId: string, desde?: string, hasta?: string) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const match: any = { cultivoId };
+  if (desde || hasta) {
+    match.fecha = {};
+    if (desde) match.fecha.$gte = desde;
+    if (hasta) match.fecha.$lte = hasta;
+  }
+
+  const resumen = (campo: string) => ({
+    [`${campo}Promedio`]: { $avg: `$${campo}` },
+    [`${campo}Minimo`]: { $min: `$${campo}` },
+    [`${campo}Maximo`]: { $max: `$${campo}` }
+  });
+
+  const grupos = await this.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: { $substrBytes: ['$fecha', 0, 10] },
+        totalLecturas: { $sum: 1 },
+        ...resumen('temperatura'),
+        ...resumen('humedad'),
+        ...resumen('ec'),
+        ...resumen('ph'),
+        volumenAguaTotal: { $sum: '$volumenAgua' },
+        lecturasConAgua: { $sum: { $cond: [{ $gt: ['$volumenAgua', null] }, 1, 0] } }
+      }
+    },
+    { $sort: { _id: 1 } }
+  ]);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return grupos.map((g: any): AgregadoDiarioLecturas => {
+    const variable = (campo: string) => g[`${campo}Promedio`] === null ? undefined : {
+      promedio: Math.round(g[`${campo}Promedio`] * 100) / 100,
+      minimo: g[`${campo}Minimo`],
+      maximo: g[`${campo}Maximo`]
+    };
+
+    return {
+      fecha: g._id,
+      totalLecturas: g.totalLecturas,
+      temperatura: variable('temperatura'),
+      humedad: variable('humedad'),
+      ec: variable('ec'),
+      ph: variable('ph'),
+      volumenAguaTotal: g.lecturasConAgua > 0 ? g.volumenAguaTotal : undefined
+    };
+  });
+};
+
+// Crear y exportar el modelo
+const Lectura: LecturaModel = (mongoose.models.Lectura as LecturaModel) || mongoose.model<LecturaDocument, LecturaModel>('Lectura', LecturaSchema);
+
+export default Lectura;
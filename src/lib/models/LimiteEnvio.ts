@@ -0,0 +1,59 @@
+/**
+ * Modelo de Mongoose para Límites de Envío de emails de cuenta
+ *
+ * Cuenta los pedidos de emails de cuenta (restablecer contraseña, reenviar la
+ * verificación) por clave y ventana de tiempo. Las rutas que envían esos emails
+ * a cualquier dirección los consultan para frenar abusos por email y por IP.
+ *
+ * Características:
+ * - Un documento por clave (ej: `resetPassword:email:ana@x.com`) y ventana
+ * - Se incrementa de forma atómica con upsert
+ * - Índice TTL: MongoDB borra las ventanas vencidas automáticamente
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Documento de límite de envío
+export interface LimiteEnvioDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  clave: string;                 // Acción y destinatario o IP que se limita
+  ventana: string;               // Inicio de la ventana (ISO)
+  total: number;                 // Pedidos dentro de la ventana
+  expiraEn: Date;                // Fin de la ventana (Date para el índice TTL)
+}
+
+// Schema principal de LimiteEnvio
+const LimiteEnvioSchema = new Schema<LimiteEnvioDocument>({
+  clave: {
+    type: String,
+    required: [true, 'La clave del límite es obligatoria'],
+    trim: true,
+    maxlength: [300, 'La clave no puede exceder 300 caracteres']
+  },
+  ventana: {
+    type: String,
+    required: true
+  },
+  total: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  expiraEn: {
+    type: Date,
+    required: true
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'limites_envio' // Nombre explícito de la colección
+});
+
+// ===== ÍNDICES =====
+LimiteEnvioSchema.index({ clave: 1, ventana: 1 }, { unique: true }); // Un contador por clave y ventana
+LimiteEnvioSchema.index({ expiraEn: 1 }, { expireAfterSeconds: 0 }); // Limpieza automática de ventanas vencidas
+
+// Crear y exportar el modelo
+const LimiteEnvio: Model<LimiteEnvioDocument> = mongoose.models.LimiteEnvio || mongoose.model<LimiteEnvioDocument>('LimiteEnvio', LimiteEnvioSchema);
+
+export default LimiteEnvio;
@@ -24,6 +24,15 @@ import type {
 // Extender el tipo base con las propiedades de Mongoose Document
 export interface MensajeChatDocument extends Omit<MensajeChat, 'id'>, Document {
   _id: mongoose.Types.ObjectId;
+
+  // Califica una respuesta de IA (1-5) con un comentario opcional
+  calificar(puntuacion: number, comentario?: string): Promise<MensajeChatDocument>;
+}
+
+// Métodos estáticos del modelo
+export interface MensajeChatModel extends Model<MensajeChatDocument> {
+  findHistorialByCultivo(cultivoId: string, limite?: number): mongoose.Query<MensajeChatDocument[], MensajeChatDocument>;
+  findConversacion(mensajeId: string): mongoose.Query<MensajeChatDocument[], MensajeChatDocument>;
 }
 
 // Schema para imágenes del mensaje
@@ -101,7 +110,10 @@ const MensajeChatSchema = new Schema<MensajeChatDocument>({
   },
   contenido: {
     type: String,
-    required: [true, 'El contenido del mensaje es obligatorio'],
+    // Los mensajes que solo llevan imágenes pueden no tener texto
+    required: [function (this: MensajeChatDocument) {
+      return !this.imagenes || this.imagenes.length === 0;
+    }, 'El contenido del mensaje es obligatorio'],
     trim: true,
     maxlength: [10000, 'El contenido no puede exceder 10,000 caracteres']
   },
@@ -151,6 +163,10 @@ const MensajeChatSchema = new Schema<MensajeChatDocument>({
     type: String,
     maxlength: [500, 'El mensaje de error no puede exceder 500 caracteres']
   },
+  cancelado: {
+    type: Boolean,
+    default: false // El usuario detuvo la respuesta de la IA a mitad de camino
+  },
 
   // ===== RELACIONES ENTRE MENSAJES =====
   respuestaA: {
@@ -186,6 +202,10 @@ const MensajeChatSchema = new Schema<MensajeChatDocument>({
     type: String,
     maxlength: [50, 'La versión del contexto no puede exceder 50 caracteres']
   },
+  contexto: {
+    type: Schema.Types.Mixed, // Copia del ContextoCultivo enviado (solo mensajes del usuario)
+    select: false // No se devuelve en el historial; lo consulta el reporte de calificaciones
+  },
 
   // ===== CALIDAD Y FEEDBACK =====
   calificacion: {
@@ -209,6 +229,12 @@ const MensajeChatSchema = new Schema<MensajeChatDocument>({
       message: 'El email del usuario no es válido'
     }
   },
+  creadoPor: {
+    type: String,
+    required: [true, 'El dueño del mensaje es obligatorio'],
+    trim: true,
+    index: true // 🔒 Multi-tenancy: autor de la conversación (el historial es personal)
+  },
   ipAddress: {
     type: String,
     validate: {
@@ -308,6 +334,7 @@ MensajeChatSchema.virtual('tieneMetricasTokens').get(function () {
 
 // ===== ÍNDICES COMPUESTOS =====
 MensajeChatSchema.index({ cultivoId: 1, timestamp: -1 }); // Para historial del chat por cultivo
+MensajeChatSchema.index({ creadoPor: 1, cultivoId: 1, timestamp: -1 }); // 🔒 Historial filtrado por dueño
 MensajeChatSchema.index({ tipo: 1, cultivoId: 1, timestamp: -1 }); // Para filtrar por tipo de mensaje
 MensajeChatSchema.index({ procesando: 1, timestamp: 1 }); // Para encontrar mensajes en procesamiento
 MensajeChatSchema.index({ respuestaA: 1 }); // Para cadenas de conversación
@@ -562,6 +589,15 @@ MensajeChatSchema.path('tokensUsados').validate(function (value: any) {
   return true;
 }, 'Solo los mensajes de IA pueden tener métricas de tokens');
 
+// Validar que el contexto solo se guarde en mensajes del usuario
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+MensajeChatSchema.path('contexto').validate(function (value: any) {
+  if (value && this.tipo !== 'user') {
+    return false;
+  }
+  return true;
+}, 'Solo los mensajes del usuario guardan el contexto enviado');
+
 // Validar calificación solo en mensajes assistant
 MensajeChatSchema.path('calificacion').validate(function (value: number) {
   if (value && this.tipo !== 'assistant') {
@@ -571,6 +607,6 @@ MensajeChatSchema.path('calificacion').validate(function (value: number) {
 }, 'Solo las respuestas de IA pueden ser calificadas');
 
 // Crear y exportar el modelo
-const MensajeChat: Model<MensajeChatDocument> = mongoose.models.MensajeChat || mongoose.model<MensajeChatDocument>('MensajeChat', MensajeChatSchema);
+const MensajeChat: MensajeChatModel = (mongoose.models.MensajeChat as MensajeChatModel) || mongoose.model<MensajeChatDocument, MensajeChatModel>('MensajeChat', MensajeChatSchema);
 
 export default MensajeChat;
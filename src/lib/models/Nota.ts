@@ -31,6 +31,7 @@ export interface Note {
   activo: boolean;
   destacado?: boolean;
   creadoPor?: string;
+  organizacionId?: string;
   editadoPor?: string;
 }
 
@@ -164,6 +165,11 @@ const NotaSchema = new Schema<NotaDocument>({
       message: 'El email del creador no es válido'
     }
   },
+  organizacionId: {
+    type: String,
+    trim: true,
+    index: true // 🔒 Para filtrar por organización
+  },
   editadoPor: {
     type: String,
     trim: true,
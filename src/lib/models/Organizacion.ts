@@ -0,0 +1,135 @@
+/**
+ * Modelo de Mongoose para Organizaciones
+ *
+ * Define el esquema y modelo de MongoDB para las organizaciones: el grupo de
+ * usuarios que comparte cultivos, tareas, comentarios y notas. Reemplaza a la
+ * relación implícita Usuario.creadoPor (admin → usuarios creados).
+ *
+ * Características:
+ * - Membresías embebidas con rol (owner, grower, viewer)
+ * - Un usuario puede pertenecer a varias organizaciones; la activa se guarda en
+ *   Usuario.organizacionId
+ * - Los datos compartidos llevan organizacionId y se filtran por él
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { Organizacion as OrganizacionType, MiembroOrganizacion, RolOrganizacion } from '@/types/organizacion';
+
+// Extender el tipo base con las propiedades de Mongoose Document
+export interface OrganizacionDocument extends Omit<OrganizacionType, 'id'>, Document {
+  _id: mongoose.Types.ObjectId;
+}
+
+// Validador de email compartido por los campos de auditoría
+const validarEmail = {
+  validator: function (v: string) {
+    return !v || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+  },
+  message: 'El email no es válido'
+};
+
+// Sub-schema de cada membresía
+const MiembroOrganizacionSchema = new Schema<MiembroOrganizacion>({
+  email: {
+    type: String,
+    required: [true, 'El email del miembro es obligatorio'],
+    lowercase: true,
+    trim: true,
+    validate: validarEmail
+  },
+  rol: {
+    type: String,
+    required: true,
+    enum: {
+      values: ['owner', 'grower', 'viewer'] as RolOrganizacion[],
+      message: 'Rol no válido: {VALUE}'
+    },
+    default: 'grower'
+  },
+  fechaAlta: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString().split('T')[0]
+  },
+  invitadoPor: {
+    type: String,
+    trim: true,
+    validate: validarEmail
+  }
+}, { _id: false });
+
+// Schema principal de Organizacion
+const OrganizacionSchema = new Schema<OrganizacionDocument>({
+  // ===== IDENTIFICACIÓN =====
+  nombre: {
+    type: String,
+    required: [true, 'El nombre de la organización es obligatorio'],
+    trim: true,
+    maxlength: [100, 'El nombre no puede exceder 100 caracteres']
+  },
+
+  // ===== MIEMBROS =====
+  miembros: {
+    type: [MiembroOrganizacionSchema],
+    default: [],
+    validate: [
+      {
+        validator: function (v: MiembroOrganizacion[]) {
+          return v.some(m => m.rol === 'owner');
+        },
+        message: 'La organización debe tener al menos un owner'
+      },
+      {
+        validator: function (v: MiembroOrganizacion[]) {
+          return new Set(v.map(m => m.email)).size === v.length;
+        },
+        message: 'Un usuario no puede figurar dos veces como miembro'
+      }
+    ]
+  },
+  activo: {
+    type: Boolean,
+    default: true
+  },
+
+  // ===== CONTROL TEMPORAL =====
+  fechaCreacion: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString().split('T')[0]
+  },
+  fechaActualizacion: {
+    type: String
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    trim: true,
+    validate: validarEmail
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'organizaciones', // Nombre explícito de la colección
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// ===== ÍNDICES =====
+OrganizacionSchema.index({ 'miembros.email': 1, activo: 1 }); // Para listar las organizaciones de un usuario
+
+// Crear y exportar el modelo
+const Organizacion: Model<OrganizacionDocument> = mongoose.models.Organizacion || mongoose.model<OrganizacionDocument>('Organizacion', OrganizacionSchema);
+
+export default Organizacion;
@@ -0,0 +1,170 @@
+/**
+ * Modelo de Mongoose para Plantas
+ *
+ * Define el esquema y modelo de MongoDB para el seguimiento individual de las
+ * plantas de un cultivo: etiqueta, código para QR, genética, notas de fenotipo,
+ * posición en la grilla y estado.
+ *
+ * Características:
+ * - Etiqueta única dentro del cultivo y código único global
+ * - Una sola planta por posición (fila, columna) del cultivo
+ * - Tareas, comentarios, imágenes y pesos de cosecha la referencian con plantaId
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { Planta as PlantaType, EstadoPlanta } from '@/types/planta';
+
+// Extender el tipo base con las propiedades de Mongoose Document
+export interface PlantaDocument extends Omit<PlantaType, 'id'>, Document {
+  _id: mongoose.Types.ObjectId;
+}
+
+// Definición reutilizable para coordenadas de la grilla
+const coordenada = (nombre: string) => ({
+  type: Number,
+  min: [1, `La ${nombre} debe ser al menos 1`] as [number, string],
+  max: [100, `La ${nombre} no puede exceder 100`] as [number, string],
+  validate: {
+    validator: Number.isInteger,
+    message: `La ${nombre} debe ser un número entero`
+  }
+});
+
+/**
+ * Genera un código corto para imprimir en la etiqueta (sin caracteres ambiguos)
+ */
+const generarCodigo = (): string => {
+  const alfabeto = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  let codigo = 'PL-';
+  for (let i = 0; i < 8; i++) {
+    codigo += alfabeto[Math.floor(Math.random() * alfabeto.length)];
+  }
+  return codigo;
+};
+
+// Schema principal de Planta
+const PlantaSchema = new Schema<PlantaDocument>({
+  // ===== RELACIONES =====
+  cultivoId: {
+    type: String,
+    required: [true, 'El ID del cultivo es obligatorio'],
+    index: true
+  },
+
+  // ===== IDENTIFICACIÓN =====
+  etiqueta: {
+    type: String,
+    required: [true, 'La etiqueta de la planta es obligatoria'],
+    trim: true,
+    maxlength: [30, 'La etiqueta no puede exceder 30 caracteres']
+  },
+  codigo: {
+    type: String,
+    required: true,
+    unique: true,
+    default: generarCodigo
+  },
+  genetica: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'La genética no puede exceder 100 caracteres']
+  },
+  notasFenotipo: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Las notas de fenotipo no pueden exceder 2,000 caracteres']
+  },
+
+  // ===== UBICACIÓN Y ESTADO =====
+  posicion: {
+    type: new Schema({
+      fila: { ...coordenada('fila'), required: true },
+      columna: { ...coordenada('columna'), required: true }
+    }, { _id: false }),
+    default: undefined
+  },
+  estado: {
+    type: String,
+    enum: {
+      values: ['viva', 'madre', 'descartada'] as EstadoPlanta[],
+      message: 'Estado de planta no válido: {VALUE}'
+    },
+    default: 'viva'
+  },
+  fechaDescarte: {
+    type: String,
+    validate: {
+      validator: function (v: string) {
+        return !v || /^\d{4}-\d{2}-\d{2}$/.test(v);
+      },
+      message: 'La fecha debe estar en formato YYYY-MM-DD'
+    }
+  },
+
+  // ===== CONTROL TEMPORAL =====
+  fechaCreacion: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString().split('T')[0]
+  },
+  fechaActualizacion: {
+    type: String
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    trim: true,
+    validate: {
+      validator: function (v: string) {
+        return !v || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+      },
+      message: 'El email del creador no es válido'
+    },
+    index: true
+  },
+  editadoPor: {
+    type: String,
+    trim: true
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'plantas', // Nombre explícito de la colección
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// ===== ÍNDICES =====
+PlantaSchema.index({ cultivoId: 1, etiqueta: 1 }, { unique: true }); // Etiqueta única por cultivo
+PlantaSchema.index(
+  { cultivoId: 1, 'posicion.fila': 1, 'posicion.columna': 1 },
+  { unique: true, partialFilterExpression: { 'posicion.fila': { $exists: true } } }
+); // Una planta por posición
+
+// ===== VALIDACIONES PERSONALIZADAS =====
+
+// La fecha de descarte solo tiene sentido en plantas descartadas
+PlantaSchema.pre('validate', function (next) {
+  if (this.estado === 'descartada' && !this.fechaDescarte) {
+    this.fechaDescarte = new Date().toISOString().split('T')[0];
+  } else if (this.estado !== 'descartada') {
+    this.fechaDescarte = undefined;
+  }
+  next();
+});
+
+// Crear y exportar el modelo
+const Planta: Model<PlantaDocument> = mongoose.models.Planta || mongoose.model<PlantaDocument>('Planta', PlantaSchema);
+
+export default Planta;
@@ -0,0 +1,140 @@
+/**
+ * Modelo de Mongoose para Reglas de Alerta
+ *
+ * Define el esquema y modelo de MongoDB para las reglas que comparan las lecturas
+ * de un cultivo con los objetivos de su fase actual.
+ *
+ * Características:
+ * - Margen absoluto o porcentual sobre el objetivo
+ * - Duración mínima de la desviación antes de disparar
+ * - Generación opcional de comentarios tipo 'problema'
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type {
+  ReglaAlerta as ReglaAlertaType,
+  VariableAlerta,
+  CondicionAlerta,
+  TipoMargenAlerta
+} from '@/types/alerta';
+import type { PrioridadComentario } from '@/types/chat';
+
+// Extender el tipo base con las propiedades de Mongoose Document
+export interface ReglaAlertaDocument extends Omit<ReglaAlertaType, 'id'>, Document {
+  _id: mongoose.Types.ObjectId;
+}
+
+// Schema principal de ReglaAlerta
+const ReglaAlertaSchema = new Schema<ReglaAlertaDocument>({
+  // ===== RELACIÓN CON CULTIVO =====
+  cultivoId: {
+    type: String,
+    required: [true, 'El ID del cultivo es obligatorio'],
+    index: true
+  },
+
+  // ===== DEFINICIÓN DE LA REGLA =====
+  nombre: {
+    type: String,
+    required: [true, 'El nombre de la regla es obligatorio'],
+    trim: true,
+    maxlength: [100, 'El nombre no puede exceder 100 caracteres']
+  },
+  variable: {
+    type: String,
+    required: [true, 'La variable es obligatoria'],
+    enum: {
+      values: ['temperatura', 'humedad', 'ec', 'ph'] as VariableAlerta[],
+      message: 'Variable de alerta no válida: {VALUE}'
+    }
+  },
+  condicion: {
+    type: String,
+    required: [true, 'La condición es obligatoria'],
+    enum: {
+      values: ['mayor', 'menor'] as CondicionAlerta[],
+      message: 'Condición de alerta no válida: {VALUE}'
+    }
+  },
+  margen: {
+    type: Number,
+    required: [true, 'El margen es obligatorio'],
+    min: [0, 'El margen no puede ser negativo'],
+    max: [5000, 'El margen no puede exceder 5000']
+  },
+  tipoMargen: {
+    type: String,
+    enum: {
+      values: ['absoluto', 'porcentaje'] as TipoMargenAlerta[],
+      message: 'Tipo de margen no válido: {VALUE}'
+    },
+    default: 'absoluto'
+  },
+  duracionMinutos: {
+    type: Number,
+    default: 0,
+    min: [0, 'La duración no puede ser negativa'],
+    max: [10080, 'La duración no puede exceder una semana']
+  },
+  prioridad: {
+    type: String,
+    enum: {
+      values: ['baja', 'media', 'alta', 'critica'] as PrioridadComentario[],
+      message: 'Prioridad no válida: {VALUE}'
+    },
+    default: 'alta'
+  },
+  crearComentario: {
+    type: Boolean,
+    default: true
+  },
+
+  // ===== ESTADO =====
+  activa: {
+    type: Boolean,
+    default: true,
+    index: true
+  },
+  fechaCreacion: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString().split('T')[0]
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    trim: true,
+    validate: {
+      validator: function (v: string) {
+        return !v || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+      },
+      message: 'El email del creador no es válido'
+    },
+    index: true
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'reglas_alerta', // Nombre explícito de la colección
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// ===== ÍNDICES COMPUESTOS =====
+ReglaAlertaSchema.index({ cultivoId: 1, activa: 1 }); // Para evaluar las reglas activas de un cultivo
+
+// Crear y exportar el modelo
+const ReglaAlerta: Model<ReglaAlertaDocument> = mongoose.models.ReglaAlerta || mongoose.model<ReglaAlertaDocument>('ReglaAlerta', ReglaAlertaSchema);
+
+export default ReglaAlerta;
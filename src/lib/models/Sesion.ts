@@ -0,0 +1,103 @@
+/**
+ * Modelo de Mongoose para Sesiones de autenticación
+ *
+ * Cada login o registro abre una sesión con un token de refresco rotativo. Solo se
+ * guarda el hash SHA-256 del token vigente; al rotar se reemplaza, y si llega un
+ * token anterior (reutilización) la sesión completa se revoca.
+ *
+ * Características:
+ * - El token de refresco tiene la forma `<idSesion>.<secreto>`
+ * - Los tokens de acceso llevan el id de la sesión (sid) para poder revocarlos
+ * - Índice TTL: MongoDB borra las sesiones vencidas automáticamente
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * Motivo por el que se revocó una sesión
+ */
+export type MotivoRevocacionSesion =
+  | 'logout'          // El usuario cerró sesión
+  | 'reutilizacion'   // Se presentó un token de refresco ya rotado (posible robo)
+  | 'usuario_inactivo' // El usuario fue desactivado o eliminado
+  | 'cambio_password'; // Se restableció la contraseña
+
+// Documento de sesión
+export interface SesionDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  email: string;                 // 🔒 Usuario dueño de la sesión
+  tokenHash: string;             // Hash del token de refresco vigente
+  expiraEn: Date;                // Vencimiento del token de refresco (Date para el índice TTL)
+  revocada: boolean;
+  motivoRevocacion?: MotivoRevocacionSesion;
+  fechaRevocacion?: string;
+  userAgent?: string;            // Navegador que abrió la sesión
+  rotaciones: number;            // Veces que se renovó el token
+  fechaCreacion: string;
+  ultimaRotacion?: string;
+}
+
+// Schema principal de Sesion
+const SesionSchema = new Schema<SesionDocument>({
+  email: {
+    type: String,
+    required: [true, 'El email de la sesión es obligatorio'],
+    trim: true,
+    lowercase: true,
+    index: true
+  },
+  tokenHash: {
+    type: String,
+    required: true
+  },
+  expiraEn: {
+    type: Date,
+    required: true
+  },
+
+  // ===== REVOCACIÓN =====
+  revocada: {
+    type: Boolean,
+    default: false
+  },
+  motivoRevocacion: {
+    type: String,
+    enum: {
+      values: ['logout', 'reutilizacion', 'usuario_inactivo', 'cambio_password'] as MotivoRevocacionSesion[],
+      message: 'Motivo de revocación no válido: {VALUE}'
+    }
+  },
+  fechaRevocacion: {
+    type: String
+  },
+
+  // ===== USO =====
+  userAgent: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'El user agent no puede exceder 500 caracteres']
+  },
+  rotaciones: {
+    type: Number,
+    default: 0
+  },
+  fechaCreacion: {
+    type: String,
+    default: () => new Date().toISOString()
+  },
+  ultimaRotacion: {
+    type: String
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'sesiones' // Nombre explícito de la colección
+});
+
+// ===== ÍNDICES =====
+SesionSchema.index({ expiraEn: 1 }, { expireAfterSeconds: 0 }); // Limpieza automática de sesiones vencidas
+
+// Crear y exportar el modelo
+const Sesion: Model<SesionDocument> = mongoose.models.Sesion || mongoose.model<SesionDocument>('Sesion', SesionSchema);
+
+export default Sesion;
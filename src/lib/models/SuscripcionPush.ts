@@ -0,0 +1,94 @@
+/**
+ * Modelo de Mongoose para Suscripciones Web Push
+ *
+ * Define el esquema y modelo de MongoDB para las suscripciones push de los
+ * navegadores de cada usuario (un usuario puede tener varios dispositivos).
+ *
+ * Características:
+ * - El endpoint es único: si otro usuario inicia sesión en el mismo navegador,
+ *   la suscripción pasa a ser suya
+ * - Las suscripciones rechazadas por el servicio de push (404/410) se eliminan al enviar
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { SuscripcionPush as SuscripcionPushType } from '@/types/notificacion';
+
+// Extender el tipo base con las propiedades de Mongoose Document
+export interface SuscripcionPushDocument extends Omit<SuscripcionPushType, 'id'>, Document {
+  _id: mongoose.Types.ObjectId;
+}
+
+// Schema principal de SuscripcionPush
+const SuscripcionPushSchema = new Schema<SuscripcionPushDocument>({
+  // ===== DATOS DEL NAVEGADOR =====
+  endpoint: {
+    type: String,
+    required: [true, 'El endpoint de la suscripción es obligatorio'],
+    unique: true,
+    maxlength: [2000, 'El endpoint no puede exceder 2,000 caracteres'],
+    validate: {
+      validator: function (v: string) {
+        return /^https:\/\//.test(v);
+      },
+      message: 'El endpoint debe ser una URL https'
+    }
+  },
+  keys: {
+    p256dh: {
+      type: String,
+      required: [true, 'La clave p256dh es obligatoria'],
+      maxlength: [200, 'La clave p256dh no es válida']
+    },
+    auth: {
+      type: String,
+      required: [true, 'La clave auth es obligatoria'],
+      maxlength: [100, 'La clave auth no es válida']
+    }
+  },
+  userAgent: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'El user agent no puede exceder 500 caracteres']
+  },
+
+  // ===== FECHAS =====
+  fechaCreacion: {
+    type: String,
+    required: true,
+    default: () => new Date().toISOString()
+  },
+  ultimoEnvio: {
+    type: String
+  },
+
+  // ===== AUDITORÍA DE PERMISOS =====
+  creadoPor: {
+    type: String,
+    required: [true, 'El email del usuario es obligatorio'],
+    trim: true,
+    index: true
+  }
+}, {
+  // Opciones del schema
+  timestamps: false, // Manejamos fechas manualmente
+  collection: 'suscripciones_push', // Nombre explícito de la colección
+  toJSON: {
+    virtuals: true,
+    transform: function (doc, ret) {
+      ret.id = ret._id.toString(); // Mapear _id a id para compatibilidad
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any)._id;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).__v;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (ret as any).keys; // Las claves del navegador no se devuelven
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// Crear y exportar el modelo
+const SuscripcionPush: Model<SuscripcionPushDocument> = mongoose.models.SuscripcionPush || mongoose.model<SuscripcionPushDocument>('SuscripcionPush', SuscripcionPushSchema);
+
+export default SuscripcionPush;
@@ -6,7 +6,8 @@
  * 
  * Características:
  * - Validaciones estrictas para tipos de tarea
- * - Soporte para tareas recurrentes
+ * - Soporte para tareas recurrentes (las ocurrencias se expanden al consultar,
+ *   ver src/lib/utils/recurrencia.ts)
  * - Gestión automática de recordatorios
  * - Índices optimizados para consultas de calendario
  * - Middleware para auditoría
@@ -34,6 +35,10 @@ const TareaSchema = new Schema<TareaDocument>({
     required: [true, 'El ID del cultivo es obligatorio'],
     index: true // Índice para consultas rápidas por cultivo
   },
+  plantaId: {
+    type: String,
+    index: true // Planta individual a la que se refiere (opcional)
+  },
 
   // ===== INFORMACIÓN BÁSICA =====
   titulo: {
@@ -112,7 +117,7 @@ const TareaSchema = new Schema<TareaDocument>({
   fechaActualizacion: {
     type: String,
     required: true,
-    default: () => new Date().toISOString().split('T')[0]
+    default: () => new Date().toISOString()
   },
   fechaCompletada: {
     type: String,
@@ -146,6 +151,11 @@ const TareaSchema = new Schema<TareaDocument>({
       message: 'El email del creador no es válido'
     }
   },
+  organizacionId: {
+    type: String,
+    trim: true,
+    index: true // 🔒 Para filtrar por organización
+  },
   editadoPor: {
     type: String,
     trim: true,
@@ -195,6 +205,25 @@ const TareaSchema = new Schema<TareaDocument>({
     type: String,
     index: true // Para encontrar tareas generadas automáticamente
   },
+  excepciones: {
+    type: [String],
+    default: undefined,
+    validate: {
+      validator: function (v: string[]) {
+        return !v || v.every(fecha => /^\d{4}-\d{2}-\d{2}$/.test(fecha));
+      },
+      message: 'Las excepciones deben estar en formato YYYY-MM-DD'
+    }
+  },
+  fechaOcurrencia: {
+    type: String,
+    validate: {
+      validator: function (v: string) {
+        return !v || /^\d{4}-\d{2}-\d{2}$/.test(v);
+      },
+      message: 'La fecha debe estar en formato YYYY-MM-DD'
+    }
+  },
 
   // ===== SISTEMA DE RECORDATORIOS =====
   recordatorioActivado: {
@@ -269,6 +298,7 @@ TareaSchema.index({ cultivoId: 1, fechaProgramada: 1 }); // Para calendario por
 TareaSchema.index({ estado: 1, fechaProgramada: 1 }); // Para tareas pendientes por fecha
 TareaSchema.index({ prioridad: 1, fechaProgramada: 1 }); // Para ordenar por prioridad y fecha
 TareaSchema.index({ esRecurrente: 1, fechaFinRepeticion: 1 }); // Para gestión de recurrencias
+TareaSchema.index({ tareaPadreId: 1, fechaOcurrencia: 1 }); // Para reemplazos de ocurrencias
 TareaSchema.index({ recordatorioActivado: 1, recordatorioEnviado: 1, fechaProgramada: 1 }); // Para recordatorios
 TareaSchema.index({ titulo: 'text', descripcion: 'text' }); // Búsqueda full-text
 
@@ -277,7 +307,7 @@ TareaSchema.index({ titulo: 'text', descripcion: 'text' }); // Búsqueda full-te
 // Pre-save: Actualizar fecha de modificación
 TareaSchema.pre('save', function (next) {
   if (this.isModified() && !this.isNew) {
-    this.fechaActualizacion = new Date().toISOString().split('T')[0];
+    this.fechaActualizacion = new Date().toISOString();
   }
   next();
 });
@@ -299,13 +329,6 @@ TareaSchema.pre('save', function (next) {
   next();
 });
 
-// Post-save: Generar siguiente tarea recurrente si es necesario
-TareaSchema.post('save', async function (doc) {
-  if (doc.estado === 'completada' && doc.esRecurrente && !doc.tareaPadreId) {
-    await generarSiguienteTareaRecurrente(doc);
-  }
-});
-
 // ===== MÉTODOS ESTÁTICOS =====
 
 // Buscar tareas por cultivo y rango de fechas
@@ -390,66 +413,6 @@ TareaSchema.path('fechaFinRepeticion').validate(function (value: string) {
   return value >= this.fechaProgramada;
 }, 'La fecha fin de repetición debe ser posterior a la fecha programada');
 
-// ===== FUNCIONES AUXILIARES =====
-
-/**
- * Genera la siguiente tarea en una serie recurrente
- * @param tareaOriginal - Tarea completada que es recurrente
- */
-async function generarSiguienteTareaRecurrente(tareaOriginal: TareaDocument) {
-  const TareaModel = mongoose.model<TareaDocument>('Tarea');
-
-  // Verificar que no hayamos pasado la fecha fin
-  if (tareaOriginal.fechaFinRepeticion) {
-    const fechaFin = new Date(tareaOriginal.fechaFinRepeticion);
-    const fechaActual = new Date(tareaOriginal.fechaProgramada);
-    if (fechaActual >= fechaFin) return; // No generar más tareas
-  }
-
-  // Calcular la siguiente fecha
-  const siguienteFecha = new Date(tareaOriginal.fechaProgramada);
-
-  switch (tareaOriginal.frecuencia) {
-    case 'diaria':
-      siguienteFecha.setDate(siguienteFecha.getDate() + 1);
-      break;
-    case 'semanal':
-      siguienteFecha.setDate(siguienteFecha.getDate() + 7);
-      break;
-    case 'quincenal':
-      siguienteFecha.setDate(siguienteFecha.getDate() + 15);
-      break;
-    case 'mensual':
-      siguienteFecha.setMonth(siguienteFecha.getMonth() + 1);
-      break;
-    case 'personalizada':
-      if (tareaOriginal.intervaloPersonalizado) {
-        siguienteFecha.setDate(siguienteFecha.getDate() + tareaOriginal.intervaloPersonalizado);
-      }
-      break;
-  }
-
-  // Verificar que la nueva fecha no pase la fecha fin
-  if (tareaOriginal.fechaFinRepeticion && siguienteFecha > new Date(tareaOriginal.fechaFinRepeticion)) {
-    return; // No crear la tarea
-  }
-
-  // Crear la nueva tarea
-  const nuevaTarea = new TareaModel({
-    ...tareaOriginal.toObject(),
-    _id: new mongoose.Types.ObjectId(),
-    fechaProgramada: siguienteFecha.toISOString().split('T')[0],
-    estado: 'pendiente',
-    fechaCompletada: undefined,
-    recordatorioEnviado: false,
-    tareaPadreId: tareaOriginal.tareaPadreId || tareaOriginal._id.toString(),
-    fechaCreacion: new Date().toISOString().split('T')[0],
-    fechaActualizacion: new Date().toISOString().split('T')[0]
-  });
-
-  await nuevaTarea.save();
-}
-
 // Crear y exportar el modelo
 const Tarea: Model<TareaDocument> = mongoose.models.Tarea || mongoose.model<TareaDocument>('Tarea', TareaSchema);
 
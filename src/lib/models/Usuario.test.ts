@@ -0,0 +1,84 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
+import Usuario from './Usuario';
+
+// Usuario guardado que lee y actualiza el findOneAndUpdate simulado
+let guardado: Record<string, unknown>;
+
+/**
+ * Indica si el usuario cumple el filtro (igualdad o { $gt } sobre strings ISO)
+ */
+const cumpleFiltro = (filtro: Record<string, unknown>) =>
+  Object.entries(filtro).every(([campo, condicion]) => {
+    const valor = guardado[campo];
+    if (condicion && typeof condicion === 'object' && '$gt' in condicion) {
+      return typeof valor === 'string' && valor > (condicion as { $gt: string }).$gt;
+    }
+    return valor === condicion;
+  });
+
+const sha256 = (texto: string) => crypto.createHash('sha256').update(texto).digest('hex');
+
+describe('tokens de un solo uso del usuario', () => {
+  beforeEach(() => {
+    guardado = { email: 'ana@canopia.test', activo: true, emailVerificado: false };
+
+    vi.spyOn(Usuario, 'findOneAndUpdate').mockImplementation(((filtro: Record<string, unknown>, cambios: Record<string, unknown>) => {
+      if (!cumpleFiltro(filtro)) return Promise.resolve(null);
+      const { $unset, ...campos } = cambios as { $unset?: Record<string, string> };
+      Object.keys($unset ?? {}).forEach(campo => delete guardado[campo]);
+      Object.assign(guardado, campos);
+      return Promise.resolve({ ...guardado });
+    }) as never);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('guarda solo el hash del token y su vencimiento', async () => {
+    const emitido = await Usuario.emitirToken(' Ana@Canopia.test ', 'verificacionEmail');
+
+    expect(emitido?.token).toBeTruthy();
+    expect(guardado.tokenVerificacionEmailHash).toBe(sha256(emitido!.token));
+    expect(JSON.stringify(guardado)).not.toContain(emitido!.token);
+  });
+
+  it('no emite tokens para emails sin cuenta activa', async () => {
+    expect(await Usuario.emitirToken('otra@canopia.test', 'resetPassword')).toBeNull();
+    guardado.activo = false;
+    expect(await Usuario.emitirToken('ana@canopia.test', 'resetPassword')).toBeNull();
+  });
+
+  it('un token solo se puede usar una vez', async () => {
+    const { token } = (await Usuario.emitirToken('ana@canopia.test', 'resetPassword'))!;
+
+    expect(await Usuario.consumirToken(token, 'resetPassword')).toMatchObject({ email: 'ana@canopia.test' });
+    expect(guardado.tokenResetPasswordHash).toBeUndefined();
+    expect(await Usuario.consumirToken(token, 'resetPassword')).toBeNull();
+  });
+
+  it('rechaza un token vencido', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T10:00:00Z'));
+    const { token } = (await Usuario.emitirToken('ana@canopia.test', 'resetPassword'))!;
+
+    vi.setSystemTime(new Date('2026-10-19T11:00:01Z'));
+    expect(await Usuario.consumirToken(token, 'resetPassword')).toBeNull();
+  });
+
+  it('emitir un token nuevo invalida el anterior', async () => {
+    const anterior = (await Usuario.emitirToken('ana@canopia.test', 'verificacionEmail'))!.token;
+    const nuevo = (await Usuario.emitirToken('ana@canopia.test', 'verificacionEmail'))!.token;
+
+    expect(await Usuario.consumirToken(anterior, 'verificacionEmail')).toBeNull();
+    expect(await Usuario.consumirToken(nuevo, 'verificacionEmail')).not.toBeNull();
+  });
+
+  it('un token de un tipo no sirve para el otro', async () => {
+    const { token } = (await Usuario.emitirToken('ana@canopia.test', 'verificacionEmail'))!;
+    expect(await Usuario.consumirToken(token, 'resetPassword')).toBeNull();
+  });
+});
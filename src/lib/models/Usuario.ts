@@ -10,10 +10,35 @@
  * - Sistema de roles (admin/user)
  * - Auditoría de creación (creadoPor)
  * - Soporte para desactivación de usuarios
+ * - Token hasheado para suscribirse al feed iCalendar de tareas
+ * - Verificación de email y restablecimiento de contraseña con tokens hasheados,
+ *   de un solo uso y con vencimiento
  */
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { hashToken } from '@/lib/utils/hash';
+
+// Prefijo de los tokens del feed de calendario
+const PREFIJO_TOKEN_CALENDARIO = 'cal_';
+
+/**
+ * Tokens de un solo uso enviados por email
+ */
+export type TipoTokenUsuario = 'verificacionEmail' | 'resetPassword';
+
+// Vigencia de cada tipo de token (ms)
+const VIGENCIA_TOKEN_USUARIO: Record<TipoTokenUsuario, number> = {
+  verificacionEmail: 48 * 60 * 60 * 1000, // 48 horas
+  resetPassword: 60 * 60 * 1000           // 1 hora
+};
+
+// Campos del usuario que guardan el hash y el vencimiento de cada token
+const CAMPOS_TOKEN_USUARIO: Record<TipoTokenUsuario, { hash: string; expira: string }> = {
+  verificacionEmail: { hash: 'tokenVerificacionEmailHash', expira: 'tokenVerificacionEmailExpira' },
+  resetPassword: { hash: 'tokenResetPasswordHash', expira: 'tokenResetPasswordExpira' }
+};
 
 /**
  * Interfaz para estadísticas de usuarios
@@ -34,6 +59,7 @@ export interface UsuarioDocument extends Document {
   password: string;
   role: 'admin' | 'user';
   creadoPor?: string; // Email del admin que creó este usuario
+  organizacionId?: string; // Organización activa (cultivos, tareas, comentarios y notas que ve)
   fechaCreacion: string;
   activo: boolean;
 
@@ -48,6 +74,22 @@ export interface UsuarioDocument extends Document {
   paymentMethod?: string; // Método de pago (tarjeta, efectivo, etc.)
   exemptFromPayments: boolean; // Usuario exento del sistema de pagos
 
+  // ===== FEED DE CALENDARIO =====
+  calendarioTokenHash?: string; // Hash SHA-256 del token del feed .ics
+  calendarioTokenPrefijo?: string; // Primeros caracteres del token para identificarlo
+
+  // ===== VERIFICACIÓN DE EMAIL Y RESTABLECIMIENTO =====
+  emailVerificado?: boolean; // false hasta confirmar el email (undefined en cuentas anteriores a la verificación)
+  fechaVerificacionEmail?: string;
+  tokenVerificacionEmailHash?: string; // Hash SHA-256 del token enviado por email
+  tokenVerificacionEmailExpira?: string; // Vencimiento del token (ISO)
+  tokenResetPasswordHash?: string;
+  tokenResetPasswordExpira?: string;
+
+  // ===== VIRTUALS =====
+  readonly hasActiveSubscription: boolean; // Exento, suscripción activa o prueba vigente
+  readonly trialExpired: boolean;
+
   // Método para comparar passwords
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
@@ -59,9 +101,25 @@ export interface UsuarioModel extends Model<UsuarioDocument> {
   findActive(): ReturnType<Model<UsuarioDocument>['find']>;
   findCreatedBy(adminEmail: string): ReturnType<Model<UsuarioDocument>['find']>;
   findByEmail(email: string): ReturnType<Model<UsuarioDocument>['findOne']>;
+  findByTokenCalendario(token: string): Promise<UsuarioDocument | null>;
+  emitirToken(email: string, tipo: TipoTokenUsuario): Promise<{ usuario: UsuarioDocument; token: string } | null>;
+  consumirToken(token: string, tipo: TipoTokenUsuario): Promise<UsuarioDocument | null>;
   getStats(): Promise<UsuarioStats>;
 }
 
+/**
+ * Genera un nuevo token para el feed de calendario junto con su hash y prefijo visible
+ * El token viaja en la URL del feed porque los clientes de calendario no envían cookies
+ */
+export function generarTokenCalendario(): { token: string; tokenHash: string; prefijo: string } {
+  const token = `${PREFIJO_TOKEN_CALENDARIO}${crypto.randomBytes(24).toString('hex')}`;
+  return {
+    token,
+    tokenHash: hashToken(token),
+    prefijo: token.slice(0, PREFIJO_TOKEN_CALENDARIO.length + 6)
+  };
+}
+
 /**
  * Schema principal de Usuario
  */
@@ -108,6 +166,10 @@ const UsuarioSchema = new Schema<UsuarioDocument>({
       message: 'El email del creador no es válido'
     }
   },
+  organizacionId: {
+    type: String,
+    trim: true
+  },
 
   fechaCreacion: {
     type: String,
@@ -173,6 +235,46 @@ const UsuarioSchema = new Schema<UsuarioDocument>({
     type: Boolean,
     default: false,
     index: true // Para filtrar usuarios exentos
+  },
+
+  // ===== FEED DE CALENDARIO =====
+  calendarioTokenHash: {
+    type: String,
+    unique: true,
+    sparse: true // Solo los usuarios que generaron un feed tienen token
+  },
+
+  calendarioTokenPrefijo: {
+    type: String
+  },
+
+  // ===== VERIFICACIÓN DE EMAIL Y RESTABLECIMIENTO =====
+  emailVerificado: {
+    type: Boolean
+  },
+
+  fechaVerificacionEmail: {
+    type: String
+  },
+
+  tokenVerificacionEmailHash: {
+    type: String,
+    unique: true,
+    sparse: true
+  },
+
+  tokenVerificacionEmailExpira: {
+    type: String
+  },
+
+  tokenResetPasswordHash: {
+    type: String,
+    unique: true,
+    sparse: true
+  },
+
+  tokenResetPasswordExpira: {
+    type: String
   }
 }, {
   // Opciones del schema
@@ -185,6 +287,9 @@ const UsuarioSchema = new Schema<UsuarioDocument>({
       delete ret._id;
       delete ret.__v;
       delete ret.password; // Nunca incluir password en JSON
+      delete ret.calendarioTokenHash; // Ni el hash del token del feed
+      delete ret.tokenVerificacionEmailHash; // Ni los hashes de tokens enviados por email
+      delete ret.tokenResetPasswordHash;
       return ret;
     }
   },
@@ -259,6 +364,56 @@ UsuarioSchema.statics.findByEmail = function(email: string) {
   return this.findOne({ email, activo: true });
 };
 
+/**
+ * Buscar usuario activo por el token de su feed de calendario
+ * @param token - Token en texto plano recibido en la URL del feed
+ */
+UsuarioSchema.statics.findByTokenCalendario = function(token: string) {
+  return this.findOne({ calendarioTokenHash: hashToken(token), activo: true });
+};
+
+/**
+ * Genera un token de un solo uso para un usuario activo y guarda solo su hash
+ * Un token nuevo reemplaza al anterior del mismo tipo
+ * @param email - Email del usuario
+ * @param tipo - verificacionEmail o resetPassword
+ * @returns Usuario y token en texto plano (para el email), o null si no existe
+ */
+UsuarioSchema.statics.emitirToken = async function(email: string, tipo: TipoTokenUsuario) {
+  const campos = CAMPOS_TOKEN_USUARIO[tipo];
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  const usuario = await this.findOneAndUpdate(
+    { email: email.toLowerCase().trim(), activo: true },
+    {
+      [campos.hash]: hashToken(token),
+      [campos.expira]: new Date(Date.now() + VIGENCIA_TOKEN_USUARIO[tipo]).toISOString()
+    },
+    { new: true }
+  );
+
+  return usuario ? { usuario, token } : null;
+};
+
+/**
+ * Consume un token de un solo uso: si es válido y no venció, lo borra de forma
+ * atómica y devuelve el usuario (un segundo uso ya no lo encuentra)
+ * @param token - Token en texto plano recibido del enlace
+ * @param tipo - verificacionEmail o resetPassword
+ */
+UsuarioSchema.statics.consumirToken = function(token: string, tipo: TipoTokenUsuario) {
+  const campos = CAMPOS_TOKEN_USUARIO[tipo];
+  return this.findOneAndUpdate(
+    {
+      [campos.hash]: hashToken(token),
+      [campos.expira]: { $gt: new Date().toISOString() },
+      activo: true
+    },
+    { $unset: { [campos.hash]: '', [campos.expira]: '' } },
+    { new: true }
+  );
+};
+
 /**
  * Obtener estadísticas de usuarios
  */
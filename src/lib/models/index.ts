@@ -10,6 +10,22 @@
  * - Nota: Sistema de notas y documentación
  * - Comentario: Comentarios específicos de cultivos
  * - MensajeChat: Chat con IA y análisis de imágenes
+ * - Lectura: Lecturas ambientales medidas en cada cultivo
+ * - Dispositivo: Sensores/controladores que envían lecturas con API key
+ * - ReglaAlerta: Reglas de umbral sobre los objetivos del cultivo
+ * - Alerta: Alertas generadas por desviaciones sostenidas
+ * - ConfiguracionNotificaciones: Preferencias de notificación y canales de cada usuario
+ * - IntentoEntrega: Registro de intentos de entrega de recordatorios
+ * - SuscripcionPush: Suscripciones Web Push de los navegadores de cada usuario
+ * - Cosecha: Cosecha de un cultivo con pesos, secado, curado y calidad
+ * - ConsumoIA: Contadores mensuales de tokens e imágenes analizadas por usuario
+ * - Diagnostico: Historial de diagnósticos de salud del Doctor IA por cultivo
+ * - Planta: Plantas individuales de un cultivo (etiqueta, código QR, genética, posición y estado)
+ * - Genetica: Catálogo de genéticas del usuario (banco, índica/sativa, semanas de floración)
+ * - Sesion: Sesiones de autenticación con token de refresco rotativo (hash) y revocación
+ * - Organizacion: Organizaciones con sus miembros y roles (owner, grower, viewer)
+ * - AccesoCultivo: Lista de acceso de un cultivo compartido con personas de fuera de la organización
+ * - LimiteEnvio: Contadores por ventana de los pedidos de emails de cuenta (por email y por IP)
  */
 
 // Importar todos los modelos
@@ -19,9 +35,25 @@ import Nota from './Nota';
 import Comentario from './Comentario';
 import MensajeChat from './MensajeChat';
 import Usuario from './Usuario';
+import Lectura from './Lectura';
+import Dispositivo from './Dispositivo';
+import ReglaAlerta from './ReglaAlerta';
+import Alerta from './Alerta';
+import ConfiguracionNotificaciones from './ConfiguracionNotificaciones';
+import IntentoEntrega from './IntentoEntrega';
+import SuscripcionPush from './SuscripcionPush';
+import Cosecha from './Cosecha';
+import ConsumoIA from './ConsumoIA';
+import Diagnostico from './Diagnostico';
+import Planta from './Planta';
+import Genetica from './Genetica';
+import Sesion from './Sesion';
+import Organizacion from './Organizacion';
+import AccesoCultivo from './AccesoCultivo';
+import LimiteEnvio from './LimiteEnvio';
 
 // Exportar modelos individualmente para importación específica
-export { Cultivo, Tarea, Nota, Comentario, Usuario };
+export { Cultivo, Tarea, Nota, Comentario, Usuario, Lectura, Dispositivo, ReglaAlerta, Alerta, ConfiguracionNotificaciones, IntentoEntrega, SuscripcionPush, Cosecha, ConsumoIA, Diagnostico, Planta, Genetica, Sesion, Organizacion, AccesoCultivo, LimiteEnvio };
 export type { MensajeChat };
 
 // Exportar tipos de documentos para TypeScript
@@ -31,6 +63,22 @@ export type { NotaDocument } from './Nota';
 export type { ComentarioDocument } from './Comentario';
 export type { MensajeChatDocument } from './MensajeChat';
 export type { UsuarioDocument } from './Usuario';
+export type { LecturaDocument } from './Lectura';
+export type { DispositivoDocument } from './Dispositivo';
+export type { ReglaAlertaDocument } from './ReglaAlerta';
+export type { AlertaDocument } from './Alerta';
+export type { ConfiguracionNotificacionesDocument } from './ConfiguracionNotificaciones';
+export type { IntentoEntregaDocument } from './IntentoEntrega';
+export type { SuscripcionPushDocument } from './SuscripcionPush';
+export type { CosechaDocument } from './Cosecha';
+export type { ConsumoIADocument } from './ConsumoIA';
+export type { DiagnosticoDocument } from './Diagnostico';
+export type { PlantaDocument } from './Planta';
+export type { GeneticaDocument } from './Genetica';
+export type { SesionDocument } from './Sesion';
+export type { OrganizacionDocument } from './Organizacion';
+export type { AccesoCultivoDocument } from './AccesoCultivo';
+export type { LimiteEnvioDocument } from './LimiteEnvio';
 
 // Exportar objeto con todos los modelos para facilitar iteración
 export const Models = {
@@ -39,11 +87,27 @@ export const Models = {
   Nota,
   Comentario,
   MensajeChat,
-  Usuario
+  Usuario,
+  Lectura,
+  Dispositivo,
+  ReglaAlerta,
+  Alerta,
+  ConfiguracionNotificaciones,
+  IntentoEntrega,
+  SuscripcionPush,
+  Cosecha,
+  ConsumoIA,
+  Diagnostico,
+  Planta,
+  Genetica,
+  Sesion,
+  Organizacion,
+  AccesoCultivo,
+  LimiteEnvio
 } as const;
 
 // Lista de nombres de modelos para validación y utilidades
-export const ModelNames = ['Cultivo', 'Tarea', 'Nota', 'Comentario', 'MensajeChat', 'Usuario'] as const;
+export const ModelNames = ['Cultivo', 'Tarea', 'Nota', 'Comentario', 'MensajeChat', 'Usuario', 'Lectura', 'Dispositivo', 'ReglaAlerta', 'Alerta', 'ConfiguracionNotificaciones', 'IntentoEntrega', 'SuscripcionPush', 'Cosecha', 'ConsumoIA', 'Diagnostico', 'Planta', 'Genetica', 'Sesion', 'Organizacion', 'AccesoCultivo', 'LimiteEnvio'] as const;
 export type ModelName = typeof ModelNames[number];
 
 /**
@@ -85,7 +149,23 @@ export const CollectionNames = [
   'notas',
   'comentarios',
   'mensajes_chat',
-  'usuarios'
+  'usuarios',
+  'lecturas',
+  'dispositivos',
+  'reglas_alerta',
+  'alertas',
+  'configuracion_notificaciones',
+  'intentos_entrega',
+  'suscripciones_push',
+  'cosechas',
+  'consumos_ia',
+  'diagnosticos',
+  'plantas',
+  'geneticas',
+  'sesiones',
+  'organizaciones',
+  'accesosCultivo',
+  'limites_envio'
 ] as const;
 
 export type CollectionName = typeof CollectionNames[number];
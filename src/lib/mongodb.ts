@@ -14,12 +14,28 @@
 
 import mongoose from 'mongoose';
 import { NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
 import Cultivo from '@/lib/models/Cultivo';
 import Tarea from '@/lib/models/Tarea';
 import Nota from '@/lib/models/Nota';
 import Comentario from '@/lib/models/Comentario';
-import Usuario from '@/lib/models/Usuario';
+import MensajeChat, { type MensajeChatModel } from '@/lib/models/MensajeChat';
+import Usuario, { type UsuarioModel } from '@/lib/models/Usuario';
+import Lectura, { type LecturaModel } from '@/lib/models/Lectura';
+import Dispositivo, { type DispositivoModel, type DispositivoDocument } from '@/lib/models/Dispositivo';
+import ReglaAlerta from '@/lib/models/ReglaAlerta';
+import Alerta from '@/lib/models/Alerta';
+import ConfiguracionNotificaciones, { type ConfiguracionNotificacionesModel } from '@/lib/models/ConfiguracionNotificaciones';
+import IntentoEntrega from '@/lib/models/IntentoEntrega';
+import SuscripcionPush from '@/lib/models/SuscripcionPush';
+import Cosecha from '@/lib/models/Cosecha';
+import ConsumoIA from '@/lib/models/ConsumoIA';
+import Diagnostico from '@/lib/models/Diagnostico';
+import Planta from '@/lib/models/Planta';
+import Genetica from '@/lib/models/Genetica';
+import Sesion from '@/lib/models/Sesion';
+import Organizacion from '@/lib/models/Organizacion';
+import AccesoCultivo, { type AccesoCultivoModel } from '@/lib/models/AccesoCultivo';
+import LimiteEnvio from '@/lib/models/LimiteEnvio';
 
 // Tipos para manejar múltiples conexiones globales
 declare global {
@@ -71,6 +87,57 @@ export function registerModels(mongooseInstance: mongoose.Mongoose): void {
   if (!mongooseInstance.models.Usuario) {
     mongooseInstance.model('Usuario', Usuario.schema);
   }
+  if (!mongooseInstance.models.Lectura) {
+    mongooseInstance.model('Lectura', Lectura.schema);
+  }
+  if (!mongooseInstance.models.Dispositivo) {
+    mongooseInstance.model('Dispositivo', Dispositivo.schema);
+  }
+  if (!mongooseInstance.models.ReglaAlerta) {
+    mongooseInstance.model('ReglaAlerta', ReglaAlerta.schema);
+  }
+  if (!mongooseInstance.models.Alerta) {
+    mongooseInstance.model('Alerta', Alerta.schema);
+  }
+  if (!mongooseInstance.models.ConfiguracionNotificaciones) {
+    mongooseInstance.model('ConfiguracionNotificaciones', ConfiguracionNotificaciones.schema);
+  }
+  if (!mongooseInstance.models.IntentoEntrega) {
+    mongooseInstance.model('IntentoEntrega', IntentoEntrega.schema);
+  }
+  if (!mongooseInstance.models.SuscripcionPush) {
+    mongooseInstance.model('SuscripcionPush', SuscripcionPush.schema);
+  }
+  if (!mongooseInstance.models.Cosecha) {
+    mongooseInstance.model('Cosecha', Cosecha.schema);
+  }
+  if (!mongooseInstance.models.MensajeChat) {
+    mongooseInstance.model('MensajeChat', MensajeChat.schema);
+  }
+  if (!mongooseInstance.models.ConsumoIA) {
+    mongooseInstance.model('ConsumoIA', ConsumoIA.schema);
+  }
+  if (!mongooseInstance.models.Diagnostico) {
+    mongooseInstance.model('Diagnostico', Diagnostico.schema);
+  }
+  if (!mongooseInstance.models.Planta) {
+    mongooseInstance.model('Planta', Planta.schema);
+  }
+  if (!mongooseInstance.models.Genetica) {
+    mongooseInstance.model('Genetica', Genetica.schema);
+  }
+  if (!mongooseInstance.models.Sesion) {
+    mongooseInstance.model('Sesion', Sesion.schema);
+  }
+  if (!mongooseInstance.models.Organizacion) {
+    mongooseInstance.model('Organizacion', Organizacion.schema);
+  }
+  if (!mongooseInstance.models.AccesoCultivo) {
+    mongooseInstance.model('AccesoCultivo', AccesoCultivo.schema);
+  }
+  if (!mongooseInstance.models.LimiteEnvio) {
+    mongooseInstance.model('LimiteEnvio', LimiteEnvio.schema);
+  }
 
   // console.log('✅ Modelos registrados en instancia de Mongoose');
 }
@@ -122,11 +189,130 @@ export function getComentarioModel(connection: mongoose.Connection) {
   return createModelForConnection(Comentario.schema, 'Comentario', connection);
 }
 
+/**
+ * Obtiene el modelo MensajeChat para una conexión específica
+ */
+export function getMensajeChatModel(connection: mongoose.Connection) {
+  return createModelForConnection(MensajeChat.schema, 'MensajeChat', connection) as MensajeChatModel;
+}
+
 /**
  * Obtiene el modelo Usuario para una conexión específica
  */
 export function getUsuarioModel(connection: mongoose.Connection) {
-  return createModelForConnection(Usuario.schema, 'Usuario', connection);
+  return createModelForConnection(Usuario.schema, 'Usuario', connection) as UsuarioModel;
+}
+
+/**
+ * Obtiene el modelo Lectura para una conexión específica
+ */
+export function getLecturaModel(connection: mongoose.Connection) {
+  return createModelForConnection(Lectura.schema, 'Lectura', connection) as LecturaModel;
+}
+
+/**
+ * Obtiene el modelo Dispositivo para una conexión específica
+ */
+export function getDispositivoModel(connection: mongoose.Connection) {
+  return createModelForConnection(Dispositivo.schema, 'Dispositivo', connection) as DispositivoModel;
+}
+
+/**
+ * Obtiene el modelo ReglaAlerta para una conexión específica
+ */
+export function getReglaAlertaModel(connection: mongoose.Connection) {
+  return createModelForConnection(ReglaAlerta.schema, 'ReglaAlerta', connection);
+}
+
+/**
+ * Obtiene el modelo Alerta para una conexión específica
+ */
+export function getAlertaModel(connection: mongoose.Connection) {
+  return createModelForConnection(Alerta.schema, 'Alerta', connection);
+}
+
+/**
+ * Obtiene el modelo ConfiguracionNotificaciones para una conexión específica
+ */
+export function getConfiguracionNotificacionesModel(connection: mongoose.Connection) {
+  return createModelForConnection(ConfiguracionNotificaciones.schema, 'ConfiguracionNotificaciones', connection) as ConfiguracionNotificacionesModel;
+}
+
+/**
+ * Obtiene el modelo IntentoEntrega para una conexión específica
+ */
+export function getIntentoEntregaModel(connection: mongoose.Connection) {
+  return createModelForConnection(IntentoEntrega.schema, 'IntentoEntrega', connection);
+}
+
+/**
+ * Obtiene el modelo SuscripcionPush para una conexión específica
+ */
+export function getSuscripcionPushModel(connection: mongoose.Connection) {
+  return createModelForConnection(SuscripcionPush.schema, 'SuscripcionPush', connection);
+}
+
+/**
+ * Obtiene el modelo Cosecha para una conexión específica
+ */
+export function getCosechaModel(connection: mongoose.Connection) {
+  return createModelForConnection(Cosecha.schema, 'Cosecha', connection);
+}
+
+/**
+ * Obtiene el modelo ConsumoIA para una conexión específica
+ */
+export function getConsumoIAModel(connection: mongoose.Connection) {
+  return createModelForConnection(ConsumoIA.schema, 'ConsumoIA', connection);
+}
+
+/**
+ * Obtiene el modelo Diagnostico para una conexión específica
+ */
+export function getDiagnosticoModel(connection: mongoose.Connection) {
+  return createModelForConnection(Diagnostico.schema, 'Diagnostico', connection);
+}
+
+/**
+ * Obtiene el modelo Planta para una conexión específica
+ */
+export function getPlantaModel(connection: mongoose.Connection) {
+  return createModelForConnection(Planta.schema, 'Planta', connection);
+}
+
+/**
+ * Obtiene el modelo Genetica para una conexión específica
+ */
+export function getGeneticaModel(connection: mongoose.Connection) {
+  return createModelForConnection(Genetica.schema, 'Genetica', connection);
+}
+
+/**
+ * Obtiene el modelo Sesion para una conexión específica
+ */
+export function getSesionModel(connection: mongoose.Connection) {
+  return createModelForConnection(Sesion.schema, 'Sesion', connection);
+}
+
+/**
+ * Obtiene el modelo Organizacion para una conexión específica
+ */
+export function getOrganizacionModel(connection: mongoose.Connection) {
+  return createModelForConnection(Organizacion.schema, 'Organizacion', connection);
+}
+
+/**
+ * Obtiene el modelo AccesoCultivo para una conexión específica
+ */
+export function getAccesoCultivoModel(connection: mongoose.Connection) {
+  return createModelForConnection(AccesoCultivo.schema, 'AccesoCultivo', connection) as AccesoCultivoModel;
+}
+
+/**
+ * Obtiene el modelo LimiteEnvio para una conexión específica
+ */
+export function getLimiteEnvioModel(connection: mongoose.Connection) {
+  return createModelForConnection(LimiteEnvio.schema, 'LimiteEnvio', connection);
 }
 
 /**
@@ -463,103 +649,105 @@ function getConnectionStatusForConn(connection: mongoose.Connection): string {
 }
 
 /**
- * Middleware helper para verificar conexión en API routes con multi-tenancy
+ * Middleware helper para API routes invocadas por dispositivos (sensores)
+ *
+ * Autentica mediante API key (header x-api-key o Authorization: Bearer) en lugar de JWT.
+ * El handler recibe el dispositivo autenticado; su campo creadoPor identifica al dueño.
  *
  * @param handler - Handler de la API route
- * @returns Handler con verificación de conexión y usuario
+ * @returns Handler con verificación de API key y conexión
  */
-export function withUserDB<T = Response>(
-  handler: (req: Request, userEmail: string, context?: unknown) => Promise<T>
+export function withDispositivoDB<T = Response>(
+  handler: (req: Request, dispositivo: DispositivoDocument, context?: unknown) => Promise<T>
 ) {
   return async (req: Request, context?: unknown): Promise<T> => {
-    try {
-      console.log('🔍 withUserDB: Iniciando validación de autenticación...');
-
-      // 🔍 MEJORADO: Extraer token de Authorization header, cookies O header del middleware
-      let token = req.headers.get('authorization')?.replace('Bearer ', '') || null;
-
-      // Si no hay token en Authorization, buscar en cookies
-      if (!token) {
-        const cookies = req.headers.get('cookie');
-        if (cookies) {
-          const cookiePairs = cookies.split(';').map(c => c.trim());
-          for (const pair of cookiePairs) {
-            const [name, ...valueParts] = pair.split('=');
-            if (name === 'auth-token' && valueParts.length > 0) {
-              token = decodeURIComponent(valueParts.join('='));
-              break;
-            }
-          }
-        }
-      }
-
-      // Si tampoco está en cookies, buscar en el header del middleware
-      if (!token) {
-        token = req.headers.get('x-auth-token');
-      }
-
-      if (!token) {
-        // console.error('❌ withUserDB: No se encontró token de autenticación');
-        throw new Error('Token de autenticación requerido');
-      }
-
-      // console.log('🔑 withUserDB: Token encontrado, validando...');
+    const apiKey = req.headers.get('x-api-key') ||
+      req.headers.get('authorization')?.replace('Bearer ', '') ||
+      null;
+
+    if (!apiKey) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No autorizado',
+          message: 'Se requiere la API key del dispositivo (header x-api-key)'
+        },
+        { status: 401 }
+      ) as unknown as T;
+    }
 
-      // Verificar token JWT
-      const JWT_SECRET = process.env.JWT_SECRET || 'bruce-app-development-secret-key-2024';
-      let decoded: { email: string; role: string };
+    const connection = await connectToUserDB(getDatabaseName());
 
-      try {
-        decoded = jwt.verify(token, JWT_SECRET) as { email: string; role: string };
-      } catch (jwtError) {
-        console.error('❌ withUserDB: Error validando JWT:', jwtError);
-        throw new Error('Token inválido o expirado');
-      }
-
-      if (!decoded.email) {
-        console.error('❌ withUserDB: Email faltante en token decodificado');
-        throw new Error('Token inválido - email faltante');
-      }
+    if (connection.readyState === 99) {
+      console.error('❌ withDispositivoDB: DB no disponible (readyState: 99)');
+      throw new Error('Base de datos no disponible temporalmente');
+    }
 
-      // console.log('✅ withUserDB: Token válido para usuario:', decoded.email);
+    const dispositivo = await getDispositivoModel(connection).findByApiKey(apiKey);
+
+    if (!dispositivo) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No autorizado',
+          message: 'API key inválida o dispositivo revocado'
+        },
+        { status: 401 }
+      ) as unknown as T;
+    }
 
-      // Conectar a la DB del usuario (solo para asegurar que existe y está conectado)
-      // La conexión se cachea internamente, así que esto es rápido si ya está conectada
-      // console.log('🔗 withUserDB: Asegurando conexión a DB del usuario...');
-      const userConnection = await connectToUserDB(decoded.email);
+    return await handler(req, dispositivo, context);
+  };
+}
 
-      if (userConnection.readyState === 99) {
-        console.error('❌ withUserDB: DB no disponible (readyState: 99)');
-        throw new Error('Base de datos no disponible temporalmente');
-      }
+/**
+ * Middleware helper para feeds de calendario (.ics)
+ *
+ * Los clientes de calendario (Google Calendar, Thunderbird) no envían cookies ni headers,
+ * por lo que el feed se autentica con el token del parámetro ?token= de la URL.
+ * El handler recibe el email del dueño del token, como el email de la sesión en requireAuth.
+ *
+ * @param handler - Handler de la API route
+ * @returns Handler con verificación de token de calendario y conexión
+ */
+export function withCalendarioDB<T = Response>(
+  handler: (req: Request, userEmail: string, context?: unknown) => Promise<T>
+) {
+  return async (req: Request, context?: unknown): Promise<T> => {
+    const token = new URL(req.url).searchParams.get('token');
+
+    if (!token) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No autorizado',
+          message: 'Se requiere el token del calendario (parámetro token)'
+        },
+        { status: 401 }
+      ) as unknown as T;
+    }
 
-      // console.log('✅ withUserDB: Conexión asegurada, ejecutando handler...');
+    const connection = await connectToUserDB(getDatabaseName());
 
-      // Ejecutar handler entregando solo request y email.
-      // El handler puede llamar a connectToUserDB(email) nuevamente para obtener la conexión
-      // de manera síncrona/rápida gracias al cache.
-      return await handler(req, decoded.email, context);
-    } catch (error) {
-      console.error('💥 withUserDB: Error en middleware:', error);
-
-      // Manejo específico de errores de autenticación
-      if (error instanceof Error && (
-        error.message === 'Token de autenticación requerido' ||
-        error.message === 'Token inválido o expirado' ||
-        error.message === 'Token inválido - email faltante'
-      )) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: 'No autorizado',
-            message: 'Tu sesión ha expirado o no es válida. Por favor inicia sesión nuevamente.'
-          },
-          { status: 401 }
-        ) as unknown as T;
-      }
+    if (connection.readyState === 99) {
+      console.error('❌ withCalendarioDB: DB no disponible (readyState: 99)');
+      throw new Error('Base de datos no disponible temporalmente');
+    }
 
-      throw error;
+    const usuario = await getUsuarioModel(connection).findByTokenCalendario(token);
+
+    if (!usuario) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No autorizado',
+          message: 'Token de calendario inválido o revocado'
+        },
+        { status: 401 }
+      ) as unknown as T;
     }
+
+    return await handler(req, usuario.email, context);
   };
 }
 
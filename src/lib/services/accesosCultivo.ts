@@ -0,0 +1,132 @@
+/**
+ * Servicio para compartir cultivos con personas de fuera de la organización
+ * Proporciona funciones para listar, invitar y revocar accesos de un cultivo
+ * y para aceptar la invitación recibida por email
+ */
+
+import type { AccesoCultivo, ApiResponseAccesos, RolAccesoCultivo } from '@/types/accesoCultivo';
+
+/**
+ * Construye los headers con autenticación opcional
+ */
+const buildHeaders = (token?: string, json = false): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+};
+
+/**
+ * Mensaje de error de una respuesta fallida (incluye los errores de validación)
+ */
+const mensajeError = (response: ApiResponseAccesos, status: number): string => {
+  const detalle = response.details?.length ? `: ${response.details.join(', ')}` : '';
+  return `${response.message || response.error || `HTTP ${status}`}${detalle}`;
+};
+
+/**
+ * Ruta de la lista de acceso de un cultivo
+ */
+const rutaAccesos = (cultivoId: string) => `/api/cultivos/${encodeURIComponent(cultivoId)}/accesos`;
+
+/**
+ * Obtiene las personas invitadas a un cultivo
+ * @param cultivoId - ID del cultivo
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ */
+export async function listarAccesos(cultivoId: string, signal?: AbortSignal, token?: string): Promise<AccesoCultivo[]> {
+  try {
+    const res = await fetch(rutaAccesos(cultivoId), { signal, headers: buildHeaders(token) });
+    const response: ApiResponseAccesos<AccesoCultivo[]> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data || [];
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error(`Error al obtener la lista de acceso del cultivo ${cultivoId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Invita a una persona por email o cambia su rol si ya fue invitada
+ * @param cultivoId - ID del cultivo
+ * @param email - Email de la persona invitada
+ * @param rol - viewer, commenter o editor
+ * @param token - Token de autenticación opcional
+ */
+export async function invitarAcceso(
+  cultivoId: string,
+  email: string,
+  rol: RolAccesoCultivo,
+  token?: string
+): Promise<AccesoCultivo> {
+  try {
+    const res = await fetch(rutaAccesos(cultivoId), {
+      method: 'POST',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify({ email, rol })
+    });
+    const response: ApiResponseAccesos<AccesoCultivo> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data;
+  } catch (error) {
+    console.error(`Error al invitar a ${email} al cultivo ${cultivoId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Revoca el acceso (o la invitación pendiente) de una persona
+ * @param cultivoId - ID del cultivo
+ * @param email - Email de la persona invitada
+ * @param token - Token de autenticación opcional
+ */
+export async function revocarAcceso(cultivoId: string, email: string, token?: string): Promise<void> {
+  try {
+    const res = await fetch(`${rutaAccesos(cultivoId)}?email=${encodeURIComponent(email)}`, {
+      method: 'DELETE',
+      headers: buildHeaders(token)
+    });
+    const response: ApiResponseAccesos = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success) {
+      throw new Error(mensajeError(response, res.status));
+    }
+  } catch (error) {
+    console.error(`Error al revocar el acceso de ${email} al cultivo ${cultivoId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Acepta la invitación recibida por email
+ * @param tokenInvitacion - Token del enlace de invitación
+ * @param token - Token de autenticación opcional
+ * @returns La entrada de acceso aceptada (incluye el cultivoId)
+ */
+export async function aceptarInvitacion(tokenInvitacion: string, token?: string): Promise<AccesoCultivo> {
+  try {
+    const res = await fetch('/api/invitaciones', {
+      method: 'POST',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify({ token: tokenInvitacion })
+    });
+    const response: ApiResponseAccesos<AccesoCultivo> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data;
+  } catch (error) {
+    console.error('Error al aceptar la invitación:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Servicio para gestión de alertas de umbral de cultivos
+ * Proporciona funciones para configurar reglas, listar alertas
+ * y cambiar su estado (reconocer o resolver)
+ */
+
+import type {
+  Alerta,
+  EstadoAlerta,
+  ReglaAlerta,
+  ReglaAlertaCreacion,
+  ApiResponseAlertas
+} from '@/types/alerta';
+
+// Configuración base de la API
+const API_BASE = '/api/cultivos';
+
+/**
+ * Construye los headers de la petición
+ */
+const buildHeaders = (token?: string, json = false): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+};
+
+/**
+ * Lista las alertas de un cultivo
+ * @param cultivoId - ID del cultivo
+ * @param estados - Estados a incluir (todos si se omite)
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ */
+export async function listAlertas(
+  cultivoId: string,
+  estados?: EstadoAlerta[],
+  signal?: AbortSignal,
+  token?: string
+): Promise<Alerta[]> {
+  try {
+    const query = estados && estados.length > 0 ? `?estado=${estados.join(',')}` : '';
+    const res = await fetch(`${API_BASE}/${cultivoId}/alertas${query}`, { signal, headers: buildHeaders(token) });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`HTTP ${res.status}: ${errorText}`);
+    }
+
+    const response: ApiResponseAlertas<Alerta[]> = await res.json();
+    return response.success && Array.isArray(response.data) ? response.data : [];
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error(`Error al listar alertas del cultivo ${cultivoId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Cambia el estado de una alerta
+ * @param cultivoId - ID del cultivo
+ * @param alertaId - ID de la alerta
+ * @param estado - 'reconocida' o 'resuelta'
+ * @param token - Token de autenticación opcional
+ */
+export async function updateEstadoAlerta(
+  cultivoId: string,
+  alertaId: string,
+  estado: Exclude<EstadoAlerta, 'abierta'>,
+  token?: string
+): Promise<Alerta> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/alertas/${alertaId}`, {
+      method: 'PATCH',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify({ estado }),
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo actualizar la alerta: ${errorText}`);
+    }
+
+    const response: ApiResponseAlertas<Alerta> = await res.json();
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error('Error al actualizar alerta: respuesta en formato inesperado');
+  } catch (error) {
+    console.error(`Error al actualizar alerta ${alertaId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Lista las reglas de alerta de un cultivo
+ * @param cultivoId - ID del cultivo
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ */
+export async function listReglasAlerta(cultivoId: string, signal?: AbortSignal, token?: string): Promise<ReglaAlerta[]> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/alertas/reglas`, { signal, headers: buildHeaders(token) });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`HTTP ${res.status}: ${errorText}`);
+    }
+
+    const response: ApiResponseAlertas<ReglaAlerta[]> = await res.json();
+    return response.success && Array.isArray(response.data) ? response.data : [];
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error(`Error al listar reglas de alerta del cultivo ${cultivoId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Crea una regla de alerta para un cultivo
+ * @param cultivoId - ID del cultivo
+ * @param regla - Definición de la regla
+ * @param token - Token de autenticación opcional
+ */
+export async function createReglaAlerta(cultivoId: string, regla: ReglaAlertaCreacion, token?: string): Promise<ReglaAlerta> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/alertas/reglas`, {
+      method: 'POST',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify(regla),
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo crear la regla: ${errorText}`);
+    }
+
+    const response: ApiResponseAlertas<ReglaAlerta> = await res.json();
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error('Error al crear regla: respuesta en formato inesperado');
+  } catch (error) {
+    console.error('Error al crear regla de alerta:', error);
+    throw error;
+  }
+}
+
+/**
+ * Activa o desactiva una regla de alerta
+ * @param cultivoId - ID del cultivo
+ * @param reglaId - ID de la regla
+ * @param activa - Nuevo estado
+ * @param token - Token de autenticación opcional
+ */
+export async function setReglaAlertaActiva(cultivoId: string, reglaId: string, activa: boolean, token?: string): Promise<ReglaAlerta> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/alertas/reglas/${reglaId}`, {
+      method: 'PATCH',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify({ activa }),
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo actualizar la regla: ${errorText}`);
+    }
+
+    const response: ApiResponseAlertas<ReglaAlerta> = await res.json();
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error('Error al actualizar regla: respuesta en formato inesperado');
+  } catch (error) {
+    console.error(`Error al actualizar regla ${reglaId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Elimina una regla de alerta
+ * @param cultivoId - ID del cultivo
+ * @param reglaId - ID de la regla
+ * @param token - Token de autenticación opcional
+ */
+export async function removeReglaAlerta(cultivoId: string, reglaId: string, token?: string): Promise<boolean> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/alertas/reglas/${reglaId}`, { method: 'DELETE', headers: buildHeaders(token) });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo eliminar la regla: ${errorText}`);
+    }
+
+    return true;
+  } catch (error) {
+    console.error(`Error al eliminar regla ${reglaId}:`, error);
+    throw error;
+  }
+}
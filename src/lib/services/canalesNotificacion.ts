@@ -0,0 +1,151 @@
+/**
+ * Canales de entrega de notificaciones (solo servidor)
+ *
+ * Cada canal implementa la interfaz CanalEntrega y se registra por nombre.
+ * El despachador de recordatorios recorre los canales registrados, por lo que
+ * agregar un canal nuevo solo requiere llamar a registrarCanal().
+ *
+ * Canales incluidos:
+ * - email: transporte configurado en email.ts (SMTP con nodemailer, archivo o consola)
+ * - webhook: POST JSON a la URL del usuario, firmado con HMAC SHA-256 si hay secreto
+ * - push: Web Push a las suscripciones del usuario (ver webPush.ts)
+ */
+
+import type mongoose from 'mongoose';
+import crypto from 'crypto';
+import type { ConfiguracionNotificaciones } from '@/types/planificacion';
+import type { CanalNotificacion, MensajeNotificacion } from '@/types/notificacion';
+import { estaConfiguradoWebPush, tieneSuscripcionesPush, enviarPushAUsuario } from './webPush';
+import { enviarEmail, hayTransporteEmailConfigurado, escaparHtml, urlAbsoluta } from './email';
+
+/**
+ * Destinatario de una notificación: el usuario y su configuración
+ */
+export interface DestinoNotificacion {
+  connection: mongoose.Connection;
+  usuarioEmail: string;
+  configuracion: ConfiguracionNotificaciones;
+}
+
+/**
+ * Contrato de un canal de entrega
+ */
+export interface CanalEntrega {
+  /** Nombre del canal (se guarda en cada intento de entrega) */
+  nombre: CanalNotificacion;
+  /** Si el servidor tiene lo necesario para usar el canal (credenciales, claves) */
+  disponible(): boolean;
+  /** Si el usuario activó el canal y tiene un destino configurado */
+  aplicaA(destino: DestinoNotificacion): boolean | Promise<boolean>;
+  /** Entrega el mensaje; lanza un Error si falla */
+  enviar(destino: DestinoNotificacion, mensaje: MensajeNotificacion): Promise<void>;
+}
+
+// Tiempo máximo de espera para el webhook
+const TIMEOUT_WEBHOOK_MS = 10000;
+
+// ===== CANAL EMAIL =====
+
+const canalEmail: CanalEntrega = {
+  nombre: 'email',
+
+  disponible: hayTransporteEmailConfigurado,
+
+  aplicaA: ({ configuracion }) => configuracion.notificacionesEmail,
+
+  async enviar({ usuarioEmail, configuracion }, mensaje) {
+    const enlace = urlAbsoluta(mensaje.url);
+    const texto = enlace ? `${mensaje.cuerpo}\n\nVer en la app: ${enlace}` : mensaje.cuerpo;
+    const html = [
+      `<p>${escaparHtml(mensaje.cuerpo).replace(/\n/g, '<br>')}</p>`,
+      enlace ? `<p><a href="${escaparHtml(enlace)}">Ver en la app</a></p>` : ''
+    ].join('');
+
+    await enviarEmail({
+      para: configuracion.emailDestino || usuarioEmail,
+      asunto: mensaje.titulo,
+      texto,
+      html
+    });
+  }
+};
+
+// ===== CANAL WEBHOOK =====
+
+const canalWebhook: CanalEntrega = {
+  nombre: 'webhook',
+
+  disponible: () => true,
+
+  aplicaA: ({ configuracion }) => configuracion.notificacionesWebhook && Boolean(configuracion.webhookUrl),
+
+  async enviar({ usuarioEmail, configuracion }, mensaje) {
+    const cuerpo = JSON.stringify({
+      evento: mensaje.tipo,
+      titulo: mensaje.titulo,
+      cuerpo: mensaje.cuerpo,
+      url: urlAbsoluta(mensaje.url),
+      datos: mensaje.datos,
+      usuario: usuarioEmail,
+      fecha: new Date().toISOString()
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Canopia-Evento': mensaje.tipo
+    };
+    if (configuracion.webhookSecreto) {
+      const firma = crypto.createHmac('sha256', configuracion.webhookSecreto).update(cuerpo).digest('hex');
+      headers['X-Canopia-Firma'] = `sha256=${firma}`;
+    }
+
+    const res = await fetch(configuracion.webhookUrl!, {
+      method: 'POST',
+      headers,
+      body: cuerpo,
+      signal: AbortSignal.timeout(TIMEOUT_WEBHOOK_MS)
+    });
+
+    if (!res.ok) {
+      throw new Error(`El webhook respondió HTTP ${res.status}`);
+    }
+  }
+};
+
+// ===== CANAL WEB PUSH =====
+
+const canalPush: CanalEntrega = {
+  nombre: 'push',
+
+  disponible: estaConfiguradoWebPush,
+
+  aplicaA: async ({ connection, usuarioEmail, configuracion }) =>
+    configuracion.notificacionesDesktop && await tieneSuscripcionesPush(connection, usuarioEmail),
+
+  async enviar({ connection, usuarioEmail }, mensaje) {
+    await enviarPushAUsuario(connection, usuarioEmail, mensaje);
+  }
+};
+
+// ===== REGISTRO DE CANALES =====
+
+const canales = new Map<CanalNotificacion, CanalEntrega>();
+
+/**
+ * Registra (o reemplaza) un canal de entrega
+ * @param canal - Implementación del canal
+ */
+export function registrarCanal(canal: CanalEntrega): void {
+  canales.set(canal.nombre, canal);
+}
+
+/**
+ * Devuelve los canales registrados que el servidor puede usar
+ */
+export function obtenerCanalesDisponibles(): CanalEntrega[] {
+  return Array.from(canales.values()).filter(canal => canal.disponible());
+}
+
+registrarCanal(canalEmail);
+registrarCanal(canalPush);
+registrarCanal(canalWebhook);
@@ -9,13 +9,51 @@ import type {
   ApiResponseChat,
   ContextoCultivo,
   ImagenMensaje,
-  ImagenPayload
+  ImagenPayload,
+  EventoStreamChat,
+  RespuestaIA,
+  MensajeChatEntrada,
+  ReporteCalificacionesIA,
+  DatosContextoCultivo,
+  ObjetivosContexto,
+  ResumenHistorialContexto,
+  TareaContexto
 } from '@/types/chat';
 import type { Cultivo } from '@/types/cultivo';
+import type { TareaCultivo } from '@/types/planificacion';
+import type { ErrorCuotaIA, UsoCuotaIA } from '@/types/cuotaIA';
+import type { RecomendacionObjetivosIA } from '@/types/recomendacionIA';
+import { calcularMetricasFases } from './cultivos';
+import { listLecturas, getObjetivoVariable, getUltimosValores } from './lecturas';
+import { listTareas } from './planificacion';
+import { obtenerComentariosCultivo } from './comentarios';
+import { MAX_CARACTERES_CONTEXTO, acortar, aplicarPresupuestoContexto } from '@/lib/utils/contextoCultivo';
 
 // Configuración base
 const API_BASE = '/api';
 
+// Cantidad de mensajes anteriores que se envían a la IA como contexto
+const MAX_HISTORIAL_IA = 20;
+
+/**
+ * Construye los headers con autenticación opcional
+ */
+const buildHeaders = (token?: string, json = false): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+};
+
+/**
+ * Mensaje de error de una respuesta fallida de /api/chat
+ * Con la cuota agotada (429) se usa la descripción, que indica el límite y la fecha de renovación;
+ * sin suscripción activa (402), la que explica cómo activarla
+ */
+const mensajeErrorChat = (errorData: Partial<ErrorCuotaIA> & ApiResponseChat & { code?: string }, status: number): string =>
+  (errorData.codigo === 'CUOTA_IA_EXCEDIDA' || errorData.code === 'suscripcion_requerida' ? errorData.message : errorData.error) ||
+  `HTTP ${status}: Error en la petición`;
+
 /**
  * Convierte una URL de imagen a base64
  * Útil para procesar imágenes de la galería
@@ -141,12 +179,47 @@ export async function procesarImagenes(files: FileList): Promise<ImagenMensaje[]
   return imagenes;
 }
 
+/**
+ * Prepara el payload para la API de chat (imágenes en base64 y metadatos)
+ */
+function construirPayloadIA(
+  mensaje: string,
+  contexto: ContextoCultivo,
+  imagenes?: ImagenMensaje[],
+  historial?: MensajeChat[],
+  email?: string,
+  respuestaA?: string
+): PayloadOpenAI {
+  const imagenesPayload: ImagenPayload[] | undefined = imagenes
+    ?.filter((img): img is ImagenMensaje & { base64: string } => Boolean(img.base64))
+    .map((img) => ({
+      base64: img.base64,
+      mimeType: img.mimeType,
+      nombre: img.name
+    }));
+
+  return {
+    message: mensaje,
+    email,
+    cultivoContext: contexto,
+    imagenes: imagenesPayload,
+    // El historial viaja sin imágenes: las fotos guardadas pesan demasiado para reenviarlas
+    historialReciente: historial
+      ?.filter(item => item.tipo !== 'system')
+      .slice(-MAX_HISTORIAL_IA)
+      .map(item => ({ ...item, imagenes: undefined })),
+    respuestaA
+  };
+}
+
 /**
  * Envía mensaje al chat de IA con contexto del cultivo
  * @param mensaje - Texto del mensaje del usuario
  * @param contexto - Contexto completo del cultivo
  * @param imagenes - Imágenes adjuntas (opcional)
  * @param historial - Historial reciente de mensajes (opcional)
+ * @param email - Email del usuario (opcional)
+ * @param token - Token de autenticación (el consumo se descuenta de la cuota del usuario)
  * @returns Promise con la respuesta de la IA
  */
 export async function enviarMensajeIA(
@@ -154,38 +227,22 @@ export async function enviarMensajeIA(
   contexto: ContextoCultivo,
   imagenes?: ImagenMensaje[],
   historial?: MensajeChat[],
-  email?: string
+  email?: string,
+  token?: string
 ): Promise<string> {
   try {
-    // Preparar payload para OpenAI
-    const imagenesPayload: ImagenPayload[] | undefined = imagenes
-      ?.filter((img): img is ImagenMensaje & { base64: string } => Boolean(img.base64))
-      .map((img) => ({
-        base64: img.base64,
-        mimeType: img.mimeType,
-        nombre: img.name
-      }));
-
-    const payload: PayloadOpenAI = {
-      message: mensaje,
-      email,
-      cultivoContext: contexto,
-      imagenes: imagenesPayload,
-      historialReciente: historial
-    };
+    const payload = construirPayloadIA(mensaje, contexto, imagenes, historial, email);
 
     // Enviar petición a la API
     const response = await fetch(`${API_BASE}/chat`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: buildHeaders(token, true),
       body: JSON.stringify(payload)
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP ${response.status}: Error en la petición`);
+      const errorData = await response.json().catch(() => ({ success: false }));
+      throw new Error(mensajeErrorChat(errorData, response.status));
     }
 
     const data: ApiResponseChat<string> = await response.json();
@@ -201,6 +258,283 @@ export async function enviarMensajeIA(
   }
 }
 
+/**
+ * Interpreta un bloque SSE ("event: ...\ndata: ...") como EventoStreamChat
+ * Devuelve null para comentarios keep-alive o bloques sin datos
+ */
+function parsearEventoSSE(bloque: string): EventoStreamChat | null {
+  const datos = bloque
+    .split('\n')
+    .filter(linea => linea.startsWith('data:'))
+    .map(linea => linea.slice(5).trimStart())
+    .join('\n');
+
+  if (!datos) return null;
+  return JSON.parse(datos) as EventoStreamChat;
+}
+
+/**
+ * Envía mensaje al chat de IA y recibe la respuesta en streaming (SSE)
+ * @param mensaje - Texto del mensaje del usuario
+ * @param contexto - Contexto completo del cultivo
+ * @param onFragmento - Callback con cada fragmento de texto recibido
+ * @param imagenes - Imágenes adjuntas (opcional)
+ * @param historial - Historial reciente de mensajes (opcional)
+ * @param email - Email del usuario (opcional)
+ * @param signal - Señal para cancelar la respuesta a mitad de camino
+ * @param token - Token de autenticación (el consumo se descuenta de la cuota del usuario)
+ * @param respuestaA - ID del mensaje del usuario ya guardado: el servidor guarda la respuesta en el historial
+ * @returns Promise con la respuesta completa normalizada y, si se guardó, su ID en el historial
+ */
+export async function enviarMensajeIAStream(
+  mensaje: string,
+  contexto: ContextoCultivo,
+  onFragmento: (texto: string) => void,
+  imagenes?: ImagenMensaje[],
+  historial?: MensajeChat[],
+  email?: string,
+  signal?: AbortSignal,
+  token?: string,
+  respuestaA?: string
+): Promise<RespuestaIA & { mensajeId?: string }> {
+  const payload = construirPayloadIA(mensaje, contexto, imagenes, historial, email, respuestaA);
+
+  const response = await fetch(`${API_BASE}/chat/stream`, {
+    method: 'POST',
+    headers: { ...buildHeaders(token, true), 'Accept': 'text/event-stream' },
+    body: JSON.stringify(payload),
+    signal
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({ success: false }));
+    throw new Error(mensajeErrorChat(errorData, response.status));
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Los eventos SSE se separan con una línea en blanco
+      let separador = buffer.indexOf('\n\n');
+      while (separador !== -1) {
+        const evento = parsearEventoSSE(buffer.slice(0, separador));
+        buffer = buffer.slice(separador + 2);
+
+        if (evento?.tipo === 'fragmento') onFragmento(evento.texto);
+        if (evento?.tipo === 'fin') return { ...evento.respuesta, mensajeId: evento.mensajeId };
+        if (evento?.tipo === 'error') throw new Error(evento.error);
+
+        separador = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  throw new Error('La conexión con la IA se cerró antes de completar la respuesta');
+}
+
+// ===== HISTORIAL DEL CHAT =====
+
+/**
+ * Prepara las imágenes para guardarlas en el historial
+ * Las URLs blob: solo existen en esta pestaña, así que se reemplazan por data URLs
+ */
+function imagenesParaHistorial(imagenes?: ImagenMensaje[]): ImagenMensaje[] | undefined {
+  return imagenes
+    ?.filter(imagen => !imagen.url.startsWith('blob:') || imagen.base64)
+    .map(({ base64, ...imagen }) => ({
+      ...imagen,
+      url: imagen.url.startsWith('blob:') ? `data:${imagen.mimeType};base64,${base64}` : imagen.url
+    }));
+}
+
+/**
+ * Obtiene el historial del chat de un cultivo (orden cronológico)
+ * @param cultivoId - ID del cultivo
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ * @param limite - Cantidad máxima de mensajes (los más recientes)
+ * @returns Mensajes guardados y total del historial
+ */
+export async function obtenerHistorialChat(
+  cultivoId: string,
+  signal?: AbortSignal,
+  token?: string,
+  limite?: number
+): Promise<{ mensajes: MensajeChat[]; total: number }> {
+  try {
+    const params = new URLSearchParams({ cultivoId });
+    if (limite) params.set('limite', String(limite));
+
+    const res = await fetch(`${API_BASE}/chat/mensajes?${params}`, { signal, headers: buildHeaders(token) });
+    const response: ApiResponseChat<MensajeChat[]> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(response.message || response.error || `HTTP ${res.status}`);
+    }
+    return { mensajes: response.data, total: response.total ?? response.data.length };
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error(`Error al obtener el historial del chat del cultivo ${cultivoId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Guarda un mensaje del usuario en el historial del chat
+ * Las respuestas de la IA las guarda el servidor al generarlas (ver enviarMensajeIAStream)
+ * @param mensaje - Mensaje del usuario
+ * @param token - Token de autenticación opcional
+ * @param contexto - Contexto del cultivo enviado con el mensaje (para el reporte de calificaciones)
+ * @returns El mensaje guardado con su ID definitivo
+ */
+export async function guardarMensajeChat(mensaje: MensajeChat, token?: string, contexto?: ContextoCultivo): Promise<MensajeChat> {
+  try {
+    const datos: MensajeChatEntrada = {
+      cultivoId: mensaje.cultivoId,
+      tipo: 'user',
+      contenido: mensaje.contenido,
+      imagenes: imagenesParaHistorial(mensaje.imagenes),
+      versionContexto: mensaje.versionContexto,
+      contexto
+    };
+
+    const res = await fetch(`${API_BASE}/chat/mensajes`, {
+      method: 'POST',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify(datos)
+    });
+    const response: ApiResponseChat<MensajeChat> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      const detalle = response.details?.length ? `: ${response.details.join(', ')}` : '';
+      throw new Error(`${response.message || response.error || `HTTP ${res.status}`}${detalle}`);
+    }
+    return response.data;
+  } catch (error) {
+    console.error('Error al guardar el mensaje del chat:', error);
+    throw error;
+  }
+}
+
+/**
+ * Borra (archiva) el historial del chat de un cultivo; los mensajes destacados se conservan
+ * @param cultivoId - ID del cultivo
+ * @param token - Token de autenticación opcional
+ */
+export async function borrarHistorialChat(cultivoId: string, token?: string): Promise<void> {
+  try {
+    const res = await fetch(`${API_BASE}/chat/mensajes?cultivoId=${encodeURIComponent(cultivoId)}`, {
+      method: 'DELETE',
+      headers: buildHeaders(token)
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo borrar el historial: ${errorText}`);
+    }
+  } catch (error) {
+    console.error(`Error al borrar el historial del chat del cultivo ${cultivoId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Califica una respuesta de la IA
+ * @param mensajeId - ID del mensaje de la IA (guardado en el historial)
+ * @param calificacion - Estrellas de 1 a 5
+ * @param feedback - Comentario opcional sobre la respuesta
+ * @param token - Token de autenticación opcional
+ * @returns El mensaje actualizado
+ */
+export async function calificarMensajeChat(
+  mensajeId: string,
+  calificacion: number,
+  feedback?: string,
+  token?: string
+): Promise<MensajeChat> {
+  try {
+    const res = await fetch(`${API_BASE}/chat/mensajes/${mensajeId}/calificacion`, {
+      method: 'PUT',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify({ calificacion, feedback })
+    });
+    const response: ApiResponseChat<MensajeChat> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(response.message || response.error || `HTTP ${res.status}`);
+    }
+    return response.data;
+  } catch (error) {
+    console.error(`Error al calificar el mensaje ${mensajeId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Obtiene el reporte de respuestas de la IA con calificación baja (solo administradores)
+ * @param umbral - Calificación máxima incluida (1-5)
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ * @returns Resumen de calificaciones y respuestas con su contexto
+ */
+export async function obtenerReporteCalificaciones(
+  umbral: number,
+  signal?: AbortSignal,
+  token?: string
+): Promise<ReporteCalificacionesIA> {
+  try {
+    const res = await fetch(`${API_BASE}/admin/chat/calificaciones?umbral=${umbral}`, {
+      signal,
+      headers: buildHeaders(token)
+    });
+    const response: ApiResponseChat<ReporteCalificacionesIA> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(response.message || response.error || `HTTP ${res.status}`);
+    }
+    return response.data;
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error('Error al obtener el reporte de calificaciones:', error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Obtiene el consumo de IA del mes y los límites del plan del usuario
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ * @returns Tokens e imágenes analizadas con sus límites y la fecha de renovación
+ */
+export async function obtenerUsoIA(signal?: AbortSignal, token?: string): Promise<UsoCuotaIA> {
+  try {
+    const res = await fetch(`${API_BASE}/chat/uso`, { signal, headers: buildHeaders(token) });
+    const response: ApiResponseChat<UsoCuotaIA> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(response.message || response.error || `HTTP ${res.status}`);
+    }
+    return response.data;
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error('Error al obtener el consumo de IA:', error);
+    }
+    throw error;
+  }
+}
+
 /**
  * Crea un nuevo mensaje de chat del usuario
  * @param cultivoId - ID del cultivo
@@ -274,6 +608,28 @@ export function crearMensajeSistema(
   };
 }
 
+/**
+ * Opciones de gestionarConversacionIA
+ */
+export interface OpcionesConversacionIA {
+  /** Recibir la respuesta por SSE, notificando el mensaje parcial en onMensajeActualizado */
+  streaming?: boolean;
+  /**
+   * Callback cuando cambia un mensaje ya creado: llega un fragmento de la respuesta
+   * o el servidor le asigna su ID definitivo (idAnterior es el ID temporal)
+   */
+  onMensajeActualizado?: (mensaje: MensajeChat, idAnterior?: string) => void;
+  /** Señal para cancelar la respuesta; lo recibido hasta ese momento se conserva */
+  signal?: AbortSignal;
+  /**
+   * Guardar el mensaje del usuario y la respuesta en el historial del servidor
+   * (la respuesta la guarda /api/chat/stream, así que solo se persiste con streaming)
+   */
+  persistir?: boolean;
+  /** Token de autenticación para la IA (cuota del usuario) y el historial */
+  token?: string;
+}
+
 /**
  * Gestiona la conversación completa con la IA
  * Incluye crear mensajes del usuario, del sistema, y obtener respuesta de IA
@@ -283,6 +639,8 @@ export function crearMensajeSistema(
  * @param imagenes - Imágenes adjuntas
  * @param historial - Historial de mensajes
  * @param onMensajeCreado - Callback cuando se crea un nuevo mensaje
+ * @param email - Email del usuario (opcional)
+ * @param opciones - Streaming, cancelación y persistencia del historial (opcional)
  * @returns Promise con el mensaje de respuesta de la IA
  */
 export async function gestionarConversacionIA(
@@ -292,10 +650,14 @@ export async function gestionarConversacionIA(
   imagenes: ImagenMensaje[] | undefined,
   historial: MensajeChat[],
   onMensajeCreado: (mensaje: MensajeChat) => void,
-  email?: string
+  email?: string,
+  opciones: OpcionesConversacionIA = {}
 ): Promise<MensajeChat> {
   // 1. Crear y enviar mensaje del usuario
-  const mensajeUsuario = crearMensajeUsuario(cultivoId, mensaje, imagenes);
+  const mensajeUsuario: MensajeChat = {
+    ...crearMensajeUsuario(cultivoId, mensaje, imagenes),
+    versionContexto: contexto.versionContexto
+  };
   onMensajeCreado(mensajeUsuario);
 
   // 2. Crear mensaje del sistema si hay imágenes
@@ -308,19 +670,41 @@ export async function gestionarConversacionIA(
     onMensajeCreado(mensajeSistema);
   }
 
-  try {
-    // 3. Obtener respuesta de la IA
-    const respuestaIA = await enviarMensajeIA(mensaje, contexto, imagenes, historial, email);
-
-    // 4. Crear mensaje de respuesta de la IA
-    const mensajeIA = crearMensajeIA(cultivoId, respuestaIA, mensajeUsuario.id);
-
-    // 5. Remover mensaje del sistema si existe
-    if (mensajeSistema) {
-      // El componente debe manejar la remoción del mensaje del sistema
+  // 3. Guardar el mensaje del usuario en el historial (el servidor vincula la respuesta a su ID)
+  let usuarioGuardado: MensajeChat | null = null;
+  if (opciones.persistir && opciones.streaming) {
+    // El historial no es crítico: si falla, la conversación sigue sin guardarse
+    usuarioGuardado = await guardarMensajeChat(mensajeUsuario, opciones.token, contexto).catch(() => null);
+    if (usuarioGuardado) {
+      opciones.onMensajeActualizado?.({ ...mensajeUsuario, id: usuarioGuardado.id }, mensajeUsuario.id);
     }
+  }
+
+  // 4. Obtener respuesta de la IA
+  return opciones.streaming
+    ? recibirRespuestaEnStreaming(cultivoId, mensaje, contexto, imagenes, historial, usuarioGuardado?.id ?? mensajeUsuario.id, onMensajeCreado, email, {
+      ...opciones,
+      respuestaA: usuarioGuardado?.id
+    })
+    : obtenerRespuestaCompleta(cultivoId, mensaje, contexto, imagenes, historial, mensajeUsuario.id, email, opciones.token);
+}
 
-    return mensajeIA;
+/**
+ * Obtiene la respuesta completa de la IA en una sola petición
+ */
+async function obtenerRespuestaCompleta(
+  cultivoId: string,
+  mensaje: string,
+  contexto: ContextoCultivo,
+  imagenes: ImagenMensaje[] | undefined,
+  historial: MensajeChat[],
+  mensajeUsuarioId: string,
+  email: string | undefined,
+  token: string | undefined
+): Promise<MensajeChat> {
+  try {
+    const respuestaIA = await enviarMensajeIA(mensaje, contexto, imagenes, historial, email, token);
+    return crearMensajeIA(cultivoId, respuestaIA, mensajeUsuarioId);
   } catch (error) {
     // Crear mensaje de error
     const mensajeError = crearMensajeIA(
@@ -333,6 +717,70 @@ export async function gestionarConversacionIA(
   }
 }
 
+/**
+ * Recibe la respuesta de la IA por SSE actualizando un único mensaje parcial
+ * El mensaje se crea vacío (procesando) y se completa fragmento a fragmento
+ */
+async function recibirRespuestaEnStreaming(
+  cultivoId: string,
+  mensaje: string,
+  contexto: ContextoCultivo,
+  imagenes: ImagenMensaje[] | undefined,
+  historial: MensajeChat[],
+  mensajeUsuarioId: string,
+  onMensajeCreado: (mensaje: MensajeChat) => void,
+  email: string | undefined,
+  { onMensajeActualizado, signal, token, respuestaA }: OpcionesConversacionIA & { respuestaA?: string }
+): Promise<MensajeChat> {
+  let mensajeIA: MensajeChat = { ...crearMensajeIA(cultivoId, '', mensajeUsuarioId), procesando: true };
+  onMensajeCreado(mensajeIA);
+
+  try {
+    const respuesta = await enviarMensajeIAStream(
+      mensaje,
+      contexto,
+      (texto) => {
+        mensajeIA = { ...mensajeIA, contenido: mensajeIA.contenido + texto };
+        onMensajeActualizado?.(mensajeIA);
+      },
+      imagenes,
+      historial,
+      email,
+      signal,
+      token,
+      respuestaA
+    );
+
+    const mensajeFinal: MensajeChat = {
+      ...mensajeIA,
+      id: respuesta.mensajeId ?? mensajeIA.id,
+      contenido: respuesta.contenido,
+      procesando: false,
+      tokensUsados: respuesta.tokens
+    };
+    if (respuesta.mensajeId) onMensajeActualizado?.(mensajeFinal, mensajeIA.id);
+    return mensajeFinal;
+  } catch (error) {
+    if (signal?.aborted) {
+      return {
+        ...mensajeIA,
+        contenido: mensajeIA.contenido || 'Respuesta cancelada.',
+        procesando: false,
+        cancelado: true
+      };
+    }
+
+    const detalle = error instanceof Error ? error.message : 'No se pudo obtener respuesta de la IA';
+    return {
+      ...mensajeIA,
+      // Si ya llegó parte de la respuesta se conserva y se marca el error
+      contenido: mensajeIA.contenido || `❌ Error: ${detalle}`,
+      procesando: false,
+      error: detalle
+    };
+  }
+}
+
 /**
  * Libera recursos de imágenes (URLs temporales)
  * @param imagenes - Array de imágenes a limpiar
@@ -354,12 +802,119 @@ export function validarContextoCultivo(contexto: ContextoCultivo): boolean {
   return !!(contexto.id && contexto.nombre);
 }
 
+// ===== CONTEXTO DEL CULTIVO =====
+
+/**
+ * Versión del formato de ContextoCultivo
+ * Se guarda con cada mensaje del usuario para saber qué datos recibió la IA
+ * (v2: fase, objetivos, tareas y resumen del historial)
+ */
+export const VERSION_CONTEXTO = '2';
+
+// Límites de cada sección antes de aplicar el presupuesto
+const MAX_TAREAS_CONTEXTO = 8;
+const DIAS_TAREAS_PROXIMAS = 14;
+const DIAS_HISTORIAL_CONTEXTO = 14;
+const MAX_COMENTARIOS_CONTEXTO = 5;
+const MAX_CARACTERES_RESUMEN = 200;
+const MAX_IMAGENES_GALERIA_CONTEXTO = 10;
+
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+/**
+ * Fecha local en formato YYYY-MM-DD (mismo formato que fechaProgramada)
+ */
+const fechaLocal = (fecha: Date): string =>
+  `${fecha.getFullYear()}-${String(fecha.getMonth() + 1).padStart(2, '0')}-${String(fecha.getDate()).padStart(2, '0')}`;
+
+/**
+ * Resume una tarea para el contexto
+ */
+const resumirTarea = (tarea: TareaCultivo, incluirEstado = false): TareaContexto => ({
+  titulo: tarea.titulo,
+  tipo: tarea.tipo,
+  prioridad: tarea.prioridad,
+  fechaProgramada: tarea.fechaProgramada,
+  ...(incluirEstado && { estado: tarea.estado })
+});
+
+/**
+ * Separa las tareas abiertas en vencidas y próximas
+ */
+function tareasParaContexto(tareas: TareaCultivo[], hoy: Date): ContextoCultivo['tareas'] {
+  const hoyTexto = fechaLocal(hoy);
+  const limiteProximas = fechaLocal(new Date(hoy.getTime() + DIAS_TAREAS_PROXIMAS * MS_POR_DIA));
+  const abiertas = tareas
+    .filter(t => t.estado === 'pendiente' || t.estado === 'en_progreso' || t.estado === 'vencida')
+    .sort((a, b) => a.fechaProgramada.localeCompare(b.fechaProgramada));
+  const estaVencida = (t: TareaCultivo) => t.estado === 'vencida' || t.fechaProgramada < hoyTexto;
+
+  return {
+    // Las más recientes primero: son las que todavía tiene sentido hacer
+    vencidas: abiertas
+      .filter(estaVencida)
+      .reverse()
+      .slice(0, MAX_TAREAS_CONTEXTO)
+      .map(t => resumirTarea(t, true)),
+    proximas: abiertas
+      .filter(t => !estaVencida(t) && t.fechaProgramada <= limiteProximas)
+      .slice(0, MAX_TAREAS_CONTEXTO)
+      .map(t => resumirTarea(t))
+  };
+}
+
+/**
+ * Resume lecturas, tareas completadas y comentarios de los últimos días
+ */
+function historialParaContexto(datos: DatosContextoCultivo, hoy: Date): ResumenHistorialContexto {
+  const desde = new Date(hoy.getTime() - DIAS_HISTORIAL_CONTEXTO * MS_POR_DIA);
+  const desdeTexto = fechaLocal(desde);
+  const resumen: ResumenHistorialContexto = { dias: DIAS_HISTORIAL_CONTEXTO };
+
+  if (datos.lecturas) {
+    resumen.ultimosValores = getUltimosValores(datos.lecturas);
+    resumen.cantidadLecturas = datos.lecturas.filter(l => new Date(l.fecha) >= desde).length;
+  }
+
+  if (datos.tareas) {
+    resumen.tareasCompletadas = datos.tareas
+      .filter(t => t.estado === 'completada' && (t.fechaCompletada || t.fechaProgramada).slice(0, 10) >= desdeTexto)
+      .sort((a, b) => (b.fechaCompletada || b.fechaProgramada).localeCompare(a.fechaCompletada || a.fechaProgramada))
+      .slice(0, MAX_TAREAS_CONTEXTO)
+      .map(t => ({ titulo: t.titulo, tipo: t.tipo, fecha: (t.fechaCompletada || t.fechaProgramada).slice(0, 10) }));
+  }
+
+  if (datos.comentarios) {
+    resumen.comentarios = datos.comentarios
+      .filter(c => c.activo !== false && new Date(c.fecha) >= desde)
+      .sort((a, b) => b.fecha.localeCompare(a.fecha))
+      .slice(0, MAX_COMENTARIOS_CONTEXTO)
+      .map(c => ({
+        fecha: c.fecha.slice(0, 10),
+        tipo: c.tipo,
+        prioridad: c.prioridad,
+        titulo: c.titulo,
+        resumen: acortar(c.contenido, MAX_CARACTERES_RESUMEN)
+      }));
+  }
+
+  return resumen;
+}
+
 /**
  * Prepara el contexto del cultivo desde un objeto Cultivo
+ * Con `datos` agrega tareas vencidas y próximas y un resumen del historial reciente;
+ * el resultado se recorta para no superar MAX_CARACTERES_CONTEXTO
  * @param cultivo - Objeto cultivo completo
+ * @param datos - Tareas, lecturas y comentarios del cultivo (opcional)
+ * @param hoy - Fecha de referencia (por defecto, ahora)
  * @returns Contexto preparado para la IA
  */
-export function prepararContextoCultivo(cultivo: Cultivo): ContextoCultivo {
+export function prepararContextoCultivo(
+  cultivo: Cultivo,
+  datos: DatosContextoCultivo = {},
+  hoy: Date = new Date()
+): ContextoCultivo {
   // Calcular métricas si es posible
   let diasDesdeInicio: number | undefined;
   let plantasPorM2: number | undefined;
@@ -386,7 +941,7 @@ export function prepararContextoCultivo(cultivo: Cultivo): ContextoCultivo {
   }
 
   // Preparar información de la galería para contexto de IA (sin datos de imagen binarios)
-  const galeriaImagenes = cultivo.galeria?.map(imagen => ({
+  const galeriaImagenes = cultivo.galeria?.slice(-MAX_IMAGENES_GALERIA_CONTEXTO).map(imagen => ({
     id: imagen.id,
     nombre: imagen.nombre,
     descripcion: imagen.descripcion,
@@ -394,7 +949,7 @@ export function prepararContextoCultivo(cultivo: Cultivo): ContextoCultivo {
     fechaSubida: imagen.fechaSubida
   }));
 
-  return {
+  const basico: ContextoCultivo = {
     id: cultivo.id,
     nombre: cultivo.nombre,
     genetica: cultivo.genetica,
@@ -412,124 +967,104 @@ export function prepararContextoCultivo(cultivo: Cultivo): ContextoCultivo {
     notas: cultivo.notas,
     galeriaImagenes
   };
-}
-
-/**
- * Consulta recomendación específica de pH a la IA
- * @param contexto - Contexto del cultivo
- * @returns Promise con la recomendación de pH
- */
-export async function consultarRecomendacionPH(contexto: ContextoCultivo): Promise<number | null> {
-  try {
-    const mensaje = `Basado en este cultivo de cannabis, ¿cuál sería el valor óptimo de pH para el agua de riego? Proporciona solo el valor numérico (ej: 6.2). Considera la genética, fase actual, sustrato y condiciones ambientales.`;
 
-    const respuesta = await enviarMensajeIA(mensaje, contexto);
+  // Fase y objetivos
+  const metricasFases = calcularMetricasFases(cultivo);
+  const objetivos: ObjetivosContexto = {
+    ecObjetivo: cultivo.ecObjetivo,
+    phObjetivo: cultivo.phObjetivo,
+    aguaDiariaObjetivo: cultivo.aguaDiariaObjetivo,
+    temperatura: getObjetivoVariable(cultivo, 'temperatura'),
+    humedad: getObjetivoVariable(cultivo, 'humedad')
+  };
 
-    // Extraer el valor numérico de la respuesta
-    const match = respuesta.match(/(\d+\.?\d*)/);
-    if (match) {
-      const valor = parseFloat(match[1]);
-      // Validar que esté en rango típico de pH (0-14)
-      if (valor >= 0 && valor <= 14) {
-        return valor;
-      }
-    }
+  const contexto: ContextoCultivo = {
+    ...basico,
+    versionContexto: VERSION_CONTEXTO,
+    fase: cultivo.fechaComienzo ? {
+      faseActual: metricasFases.faseActual,
+      semanaVegetacion: metricasFases.semanaVegetacion,
+      semanaFloracion: metricasFases.semanaFloracion,
+      diasVegetacion: metricasFases.diasVegetacionActual,
+      diasFloracion: metricasFases.diasFloracionActual,
+      fechaInicioFloracion: cultivo.fechaInicioFloracion
+    } : undefined,
+    objetivos: Object.values(objetivos).some(valor => valor !== undefined) ? objetivos : undefined,
+    tareas: datos.tareas ? tareasParaContexto(datos.tareas, hoy) : undefined,
+    historial: datos.tareas || datos.lecturas || datos.comentarios ? historialParaContexto(datos, hoy) : undefined
+  };
 
-    console.warn('No se pudo extraer un valor de pH válido de la respuesta:', respuesta);
-    return null;
-  } catch (error) {
-    console.error('Error al consultar recomendación de pH:', error);
-    return null;
-  }
+  return aplicarPresupuestoContexto(contexto, MAX_CARACTERES_CONTEXTO);
 }
 
 /**
- * Consulta recomendación específica de EC a la IA
- * @param contexto - Contexto del cultivo
- * @returns Promise con la recomendación de EC
+ * Carga las tareas, lecturas y comentarios con los que se enriquece el contexto del cultivo
+ * Cada fuente es independiente: si una falla, esa sección simplemente no se envía
+ * @param cultivoId - ID del cultivo
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ * @param hoy - Fecha de referencia (por defecto, ahora)
  */
-export async function consultarRecomendacionEC(contexto: ContextoCultivo): Promise<number | null> {
-  try {
-    const mensaje = `Basado en este cultivo de cannabis, ¿cuál sería el valor óptimo de EC (conductividad eléctrica) en mS para el agua de riego? Proporciona solo el valor numérico (ej: 1.8). Considera la genética, fase actual, sustrato y condiciones ambientales.`;
-
-    const respuesta = await enviarMensajeIA(mensaje, contexto);
-
-    // Extraer el valor numérico de la respuesta
-    const match = respuesta.match(/(\d+\.?\d*)/);
-    if (match) {
-      const valor = parseFloat(match[1]);
-      // Validar que esté en rango típico de EC para cannabis (0.8-3.0)
-      if (valor >= 0.1 && valor <= 5.0) {
-        return valor;
-      }
-    }
-
-    console.warn('No se pudo extraer un valor de EC válido de la respuesta:', respuesta);
-    return null;
-  } catch (error) {
-    console.error('Error al consultar recomendación de EC:', error);
-    return null;
-  }
+export async function cargarDatosContextoCultivo(
+  cultivoId: string,
+  signal?: AbortSignal,
+  token?: string,
+  hoy: Date = new Date()
+): Promise<DatosContextoCultivo> {
+  const desde = fechaLocal(new Date(hoy.getTime() - DIAS_HISTORIAL_CONTEXTO * MS_POR_DIA));
+  const hasta = fechaLocal(new Date(hoy.getTime() + DIAS_TAREAS_PROXIMAS * MS_POR_DIA));
+
+  const [tareas, tareasPendientes, tareasVencidas, lecturas, comentarios] = await Promise.allSettled([
+    listTareas({ cultivoId, fechaDesde: desde, fechaHasta: hasta }, signal, token),
+    // Las vencidas pueden ser anteriores a la ventana del historial: pendientes atrasadas
+    // y las que el aviso de vencimiento ya marcó como 'vencida'
+    listTareas({ cultivoId, estado: 'pendiente', fechaHasta: desde, expandir: false }, signal, token),
+    listTareas({ cultivoId, estado: 'vencida', fechaHasta: desde, expandir: false }, signal, token),
+    listLecturas(cultivoId, { desde, _limit: 200 }, signal, token),
+    obtenerComentariosCultivo(cultivoId, signal)
+  ]);
+
+  const valor = <T>(resultado: PromiseSettledResult<T>): T | undefined =>
+    resultado.status === 'fulfilled' ? resultado.value : undefined;
+
+  const todasLasTareas = [...(valor(tareas) ?? []), ...(valor(tareasPendientes) ?? []), ...(valor(tareasVencidas) ?? [])];
+  return {
+    tareas: tareas.status === 'fulfilled' ? [...new Map(todasLasTareas.map(t => [t.id, t])).values()] : undefined,
+    lecturas: valor(lecturas),
+    comentarios: valor(comentarios)
+  };
 }
 
 /**
- * Consulta recomendación de temperatura para una fase específica
+ * Pide a la IA todos los objetivos del cultivo en una sola consulta estructurada
+ * No modifica el cultivo: los valores aceptados se guardan aparte (PATCH del cultivo)
  * @param contexto - Contexto del cultivo
- * @param fase - Fase del cultivo ('vegetacion' | 'floracion')
- * @returns Promise con la recomendación de temperatura
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación (la consulta consume cuota de IA)
+ * @returns Objetivos recomendados con justificación y confianza
  */
-export async function consultarRecomendacionTemperatura(contexto: ContextoCultivo, fase: 'vegetacion' | 'floracion'): Promise<number | null> {
+export async function obtenerRecomendacionObjetivos(
+  contexto: ContextoCultivo,
+  signal?: AbortSignal,
+  token?: string
+): Promise<RecomendacionObjetivosIA> {
   try {
-    const nombreFase = fase === 'vegetacion' ? 'vegetación' : 'floración';
-    const mensaje = `Basado en este cultivo de cannabis en fase de ${nombreFase}, ¿cuál sería la temperatura ambiente óptima en grados Celsius? Proporciona solo el valor numérico (ej: 25). Considera la genética, fase actual, sustrato y otras condiciones ambientales.`;
-
-    const respuesta = await enviarMensajeIA(mensaje, contexto);
-
-    // Extraer el valor numérico de la respuesta
-    const match = respuesta.match(/(\d+\.?\d*)/);
-    if (match) {
-      const valor = parseFloat(match[1]);
-      // Validar que esté en rango típico de temperatura para cannabis (15-35°C)
-      if (valor >= 10 && valor <= 40) {
-        return valor;
-      }
-    }
-
-    console.warn('No se pudo extraer un valor de temperatura válido de la respuesta:', respuesta);
-    return null;
-  } catch (error) {
-    console.error('Error al consultar recomendación de temperatura:', error);
-    return null;
-  }
-}
+    const res = await fetch(`${API_BASE}/chat/recomendaciones`, {
+      method: 'POST',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify({ contexto }),
+      signal
+    });
+    const response = await res.json().catch(() => ({ success: false }));
 
-/**
- * Consulta recomendación de humedad para una fase específica
- * @param contexto - Contexto del cultivo
- * @param fase - Fase del cultivo ('vegetacion' | 'floracion')
- * @returns Promise con la recomendación de humedad
- */
-export async function consultarRecomendacionHumedad(contexto: ContextoCultivo, fase: 'vegetacion' | 'floracion'): Promise<number | null> {
-  try {
-    const nombreFase = fase === 'vegetacion' ? 'vegetación' : 'floración';
-    const mensaje = `Basado en este cultivo de cannabis en fase de ${nombreFase}, ¿cuál sería el porcentaje óptimo de humedad relativa del ambiente? Proporciona solo el valor numérico (ej: 65). Considera la genética, fase actual, sustrato y otras condiciones ambientales.`;
-
-    const respuesta = await enviarMensajeIA(mensaje, contexto);
-
-    // Extraer el valor numérico de la respuesta
-    const match = respuesta.match(/(\d+\.?\d*)/);
-    if (match) {
-      const valor = parseFloat(match[1]);
-      // Validar que esté en rango de humedad (0-100%)
-      if (valor >= 0 && valor <= 100) {
-        return valor;
-      }
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(mensajeErrorChat(response, res.status));
     }
-
-    console.warn('No se pudo extraer un valor de humedad válido de la respuesta:', respuesta);
-    return null;
+    return response.data as RecomendacionObjetivosIA;
   } catch (error) {
-    console.error('Error al consultar recomendación de humedad:', error);
-    return null;
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error('Error al obtener la recomendación de objetivos:', error);
+    }
+    throw error;
   }
 }
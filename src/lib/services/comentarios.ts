@@ -10,12 +10,22 @@ import type {
   TipoComentario,
   PrioridadComentario
 } from '@/types/chat';
+import {
+  conCacheOffline,
+  esErrorDeRed,
+  encolarMutacion,
+  listarMutaciones,
+  comentariosPendientes,
+  PREFIJO_ID_OFFLINE
+} from './offline';
 
 // Configuración base
 const API_BASE = '/api/comentarios';
 
 /**
  * Obtiene comentarios con filtros opcionales
+ * Sin conexión devuelve la última lista guardada en la caché offline
+ * Los comentarios de un cultivo incluyen los creados sin conexión aún no sincronizados
  * @param filtros - Criterios de filtrado y paginación
  * @param signal - Señal de aborto para cancelar petición
  * @returns Promise con array de comentarios
@@ -23,6 +33,23 @@ const API_BASE = '/api/comentarios';
 export async function obtenerComentarios(
   filtros: FiltrosComentarios = {},
   signal?: AbortSignal
+): Promise<ComentarioCultivo[]> {
+  const { datos } = await conCacheOffline(
+    `comentarios:${JSON.stringify(filtros)}`,
+    () => pedirComentarios(filtros, signal)
+  );
+  if (!filtros.cultivoId) return datos;
+
+  const pendientes = comentariosPendientes(await listarMutaciones(filtros.cultivoId));
+  return pendientes.length > 0 ? [...pendientes.reverse(), ...datos] : datos;
+}
+
+/**
+ * Pide los comentarios a la API
+ */
+async function pedirComentarios(
+  filtros: FiltrosComentarios,
+  signal?: AbortSignal
 ): Promise<ComentarioCultivo[]> {
   try {
     // Construir URL con parámetros de consulta
@@ -102,13 +129,43 @@ export async function obtenerComentario(
   }
 }
 
+/**
+ * Indica si un comentario fue creado sin conexión y todavía no se sincronizó
+ * @param comentario - Comentario a verificar
+ */
+export const esComentarioPendiente = (comentario: Pick<ComentarioCultivo, 'id'>): boolean =>
+  comentario.id.startsWith(PREFIJO_ID_OFFLINE);
+
 /**
  * Crea un nuevo comentario
+ * Sin conexión lo encola y devuelve un comentario provisional (ver esComentarioPendiente)
  * @param comentario - Datos del comentario (sin ID)
  * @returns Promise con el comentario creado
  */
 export async function crearComentario(
   comentario: Omit<ComentarioCultivo, 'id' | 'fecha' | 'fechaActualizacion'>
+): Promise<ComentarioCultivo> {
+  try {
+    return await enviarComentario(comentario);
+  } catch (error) {
+    if (!esErrorDeRed(error)) throw error;
+
+    const pendiente = await encolarMutacion({
+      tipo: 'crear_comentario',
+      cultivoId: comentario.cultivoId,
+      descripcion: `Comentario: ${comentario.titulo}`,
+      idTemporal: `${PREFIJO_ID_OFFLINE}${Date.now()}`,
+      datos: comentario
+    });
+    return comentariosPendientes([pendiente])[0];
+  }
+}
+
+/**
+ * Envía un comentario nuevo a la API
+ */
+async function enviarComentario(
+  comentario: Omit<ComentarioCultivo, 'id' | 'fecha' | 'fechaActualizacion'>
 ): Promise<ComentarioCultivo> {
   try {
     const response = await fetch(API_BASE, {
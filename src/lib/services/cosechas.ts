@@ -0,0 +1,104 @@
+/**
+ * Servicio para gestión de la cosecha de un cultivo
+ * Proporciona funciones para registrar pesos, secado, curado y calidad
+ * y obtener las métricas de rendimiento (g/m², g/W, g/planta)
+ */
+
+import type { CosechaConMetricas, CosechaEntrada, ApiResponseCosechas } from '@/types/cosecha';
+
+// Configuración base de la API
+const API_BASE = '/api/cultivos';
+
+/**
+ * Construye los headers con autenticación opcional
+ */
+const buildHeaders = (token?: string, json = false): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+};
+
+/**
+ * Obtiene la cosecha de un cultivo con sus métricas
+ * @param cultivoId - ID del cultivo
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ * @returns La cosecha o null si el cultivo todavía no tiene una registrada
+ */
+export async function getCosecha(
+  cultivoId: string,
+  signal?: AbortSignal,
+  token?: string
+): Promise<CosechaConMetricas | null> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/cosecha`, { signal, headers: buildHeaders(token) });
+    const response: ApiResponseCosechas<CosechaConMetricas> = await res.json().catch(() => ({ success: false }));
+
+    // 404 con el cultivo existente: simplemente no hay cosecha todavía
+    if (res.status === 404 && response.error === 'Cosecha no encontrada') return null;
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(response.message || response.error || `HTTP ${res.status}`);
+    }
+    return response.data;
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error(`Error al obtener la cosecha del cultivo ${cultivoId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Crea o actualiza la cosecha de un cultivo
+ * @param cultivoId - ID del cultivo
+ * @param datos - Pesos, fechas y calidad (null o '' borra un campo)
+ * @param token - Token de autenticación opcional
+ * @returns La cosecha guardada con sus métricas
+ */
+export async function guardarCosecha(
+  cultivoId: string,
+  datos: Partial<CosechaEntrada>,
+  token?: string
+): Promise<CosechaConMetricas> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/cosecha`, {
+      method: 'PUT',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify(datos)
+    });
+    const response: ApiResponseCosechas<CosechaConMetricas> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      const detalle = response.details?.length ? `: ${response.details.join(', ')}` : '';
+      throw new Error(`${response.message || response.error || `HTTP ${res.status}`}${detalle}`);
+    }
+    return response.data;
+  } catch (error) {
+    console.error(`Error al guardar la cosecha del cultivo ${cultivoId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Elimina la cosecha registrada de un cultivo
+ * @param cultivoId - ID del cultivo
+ * @param token - Token de autenticación opcional
+ */
+export async function eliminarCosecha(cultivoId: string, token?: string): Promise<void> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/cosecha`, {
+      method: 'DELETE',
+      headers: buildHeaders(token)
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo eliminar la cosecha: ${errorText}`);
+    }
+  } catch (error) {
+    console.error(`Error al eliminar la cosecha del cultivo ${cultivoId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Servicio para la recuperación de la cuenta
+ * Proporciona funciones para pedir y aplicar el restablecimiento de contraseña
+ * y para reenviar el enlace de verificación de email (no requieren sesión)
+ */
+
+// Configuración base de la API
+const API_BASE = '/api/auth';
+
+/**
+ * Respuesta de los endpoints de cuenta
+ */
+interface ApiResponseCuenta {
+  success: boolean;
+  message?: string;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * POST JSON a un endpoint de cuenta
+ * @returns Mensaje de confirmación del servidor
+ * @throws Error con el mensaje del servidor si la respuesta no es exitosa
+ */
+async function enviar(ruta: string, body: Record<string, string>): Promise<string> {
+  const res = await fetch(`${API_BASE}/${ruta}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const response: ApiResponseCuenta = await res.json().catch(() => ({ success: false }));
+
+  if (!res.ok || !response.success) {
+    throw new Error(response.error || response.message || `HTTP ${res.status}`);
+  }
+  return response.message || '';
+}
+
+/**
+ * Pide el enlace para restablecer la contraseña
+ * @param email - Email de la cuenta
+ */
+export async function solicitarRestablecimiento(email: string): Promise<string> {
+  try {
+    return await enviar('forgot-password', { email });
+  } catch (error) {
+    console.error('Error al pedir el restablecimiento de contraseña:', error);
+    throw error;
+  }
+}
+
+/**
+ * Elige una contraseña nueva con el token recibido por email
+ * @param token - Token del enlace
+ * @param password - Contraseña nueva
+ */
+export async function restablecerPassword(token: string, password: string): Promise<string> {
+  try {
+    return await enviar('reset-password', { token, password });
+  } catch (error) {
+    console.error('Error al restablecer la contraseña:', error);
+    throw error;
+  }
+}
+
+/**
+ * Reenvía el enlace de verificación de email
+ * @param email - Email de la cuenta pendiente de verificación
+ */
+export async function reenviarVerificacionEmail(email: string): Promise<string> {
+  try {
+    return await enviar('verify-email', { email });
+  } catch (error) {
+    console.error('Error al reenviar la verificación de email:', error);
+    throw error;
+  }
+}
@@ -90,6 +90,8 @@ import type {
   ListaCultivosParams,
   ApiResponseCultivos
 } from '@/types/cultivo';
+import type { ResultadoFinalizacion } from '@/types/cosecha';
+import { getCosecha } from './cosechas';
 
 // Configuración base de la API
 // API_BASE: URL base de las rutas API de Next.js (locales)
@@ -356,14 +358,20 @@ export async function removeCultivo(id: string, token?: string): Promise<boolean
 
 /**
  * Marca un cultivo como finalizado (cambia activo a false)
+ * Devuelve también la cosecha registrada con sus métricas de rendimiento
  * @param id - ID del cultivo a finalizar
- * @returns Promise con el cultivo actualizado
+ * @param token - Token de autenticación opcional
+ * @returns Promise con el cultivo actualizado y su cosecha (null si todavía no se registró)
  */
-export async function finalizarCultivo(id: string): Promise<Cultivo> {
-  return updateCultivo(id, { 
+export async function finalizarCultivo(id: string, token?: string): Promise<ResultadoFinalizacion> {
+  const cultivo = await updateCultivo(id, { 
     activo: false, 
     fechaActualizacion: new Date().toISOString().split('T')[0] 
-  });
+  }, token);
+
+  // La cosecha es informativa: si no se puede cargar, el cultivo igual queda finalizado
+  const cosecha = await getCosecha(id, undefined, token).catch(() => null);
+  return { cultivo, cosecha };
 }
 
 /**
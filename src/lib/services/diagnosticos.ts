@@ -0,0 +1,187 @@
+/**
+ * Servicio para el historial de diagnósticos de salud de un cultivo
+ * Proporciona funciones para diagnosticar una imagen con el Doctor IA, consultar el historial,
+ * convertir las acciones sugeridas en tareas y marcar los problemas como resueltos
+ */
+
+import type { ContextoCultivo, ImagenPayload } from '@/types/chat';
+import type { ErrorCuotaIA } from '@/types/cuotaIA';
+import type {
+  ApiResponseDiagnosticos,
+  Diagnostico,
+  EstadoDiagnostico,
+  ResultadoTareasDiagnostico
+} from '@/types/diagnostico';
+
+// Configuración base de la API
+const API_BASE = '/api/cultivos';
+
+/**
+ * Construye los headers con autenticación opcional
+ */
+const buildHeaders = (token?: string, json = false): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+};
+
+/**
+ * Mensaje de error de una respuesta fallida
+ * Con la cuota de IA agotada (429) se usa la descripción, que indica el límite y la fecha de renovación;
+ * lo mismo sin suscripción activa (402)
+ */
+const mensajeError = (
+  response: ApiResponseDiagnosticos & Partial<Pick<ErrorCuotaIA, 'codigo'>> & { code?: string },
+  status: number
+): string => {
+  if ((response.codigo === 'CUOTA_IA_EXCEDIDA' || response.code === 'suscripcion_requerida') && response.message) return response.message;
+  const detalle = response.details?.length ? `: ${response.details.join(', ')}` : '';
+  return `${response.error || response.message || `HTTP ${status}`}${detalle}`;
+};
+
+/**
+ * Obtiene el historial de diagnósticos de un cultivo (más recientes primero)
+ * @param cultivoId - ID del cultivo
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ */
+export async function listarDiagnosticos(
+  cultivoId: string,
+  signal?: AbortSignal,
+  token?: string
+): Promise<Diagnostico[]> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/diagnosticos`, { signal, headers: buildHeaders(token) });
+    const response: ApiResponseDiagnosticos<Diagnostico[]> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data || [];
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error(`Error al obtener los diagnósticos del cultivo ${cultivoId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Analiza una imagen con el Doctor IA y guarda el diagnóstico en el historial del cultivo
+ * @param cultivoId - ID del cultivo
+ * @param datos - Contexto del cultivo, imagen en base64 e ID de la imagen de la galería (si vino de allí)
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ */
+export async function diagnosticarImagen(
+  cultivoId: string,
+  datos: { contexto: ContextoCultivo; imagen: ImagenPayload; imagenId?: string },
+  signal?: AbortSignal,
+  token?: string
+): Promise<Diagnostico> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/diagnosticos`, {
+      method: 'POST',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify(datos),
+      signal
+    });
+    const response: ApiResponseDiagnosticos<Diagnostico> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data;
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error(`Error al diagnosticar la imagen del cultivo ${cultivoId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Convierte acciones sugeridas en tareas del cultivo
+ * @param cultivoId - ID del cultivo
+ * @param diagnosticoId - ID del diagnóstico
+ * @param accionIds - Acciones a convertir (por defecto, todas las que no tienen tarea)
+ * @param token - Token de autenticación opcional
+ */
+export async function crearTareasDiagnostico(
+  cultivoId: string,
+  diagnosticoId: string,
+  accionIds?: string[],
+  token?: string
+): Promise<ResultadoTareasDiagnostico> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/diagnosticos/${diagnosticoId}/tareas`, {
+      method: 'POST',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify(accionIds ? { accionIds } : {})
+    });
+    const response: ApiResponseDiagnosticos<ResultadoTareasDiagnostico> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data;
+  } catch (error) {
+    console.error(`Error al crear tareas del diagnóstico ${diagnosticoId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Cambia el estado de seguimiento de un diagnóstico
+ * @param cultivoId - ID del cultivo
+ * @param diagnosticoId - ID del diagnóstico
+ * @param estado - Nuevo estado
+ * @param token - Token de autenticación opcional
+ */
+export async function actualizarEstadoDiagnostico(
+  cultivoId: string,
+  diagnosticoId: string,
+  estado: EstadoDiagnostico,
+  token?: string
+): Promise<Diagnostico> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/diagnosticos/${diagnosticoId}`, {
+      method: 'PATCH',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify({ estado })
+    });
+    const response: ApiResponseDiagnosticos<Diagnostico> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data;
+  } catch (error) {
+    console.error(`Error al actualizar el diagnóstico ${diagnosticoId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Elimina un diagnóstico del historial (las tareas creadas se conservan)
+ * @param cultivoId - ID del cultivo
+ * @param diagnosticoId - ID del diagnóstico
+ * @param token - Token de autenticación opcional
+ */
+export async function eliminarDiagnostico(cultivoId: string, diagnosticoId: string, token?: string): Promise<void> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/diagnosticos/${diagnosticoId}`, {
+      method: 'DELETE',
+      headers: buildHeaders(token)
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo eliminar el diagnóstico: ${errorText}`);
+    }
+  } catch (error) {
+    console.error(`Error al eliminar el diagnóstico ${diagnosticoId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Servicio para gestión de dispositivos de sensores
+ * Proporciona funciones para registrar controladores, revocar o rotar sus API keys
+ * y listarlos por cultivo
+ */
+
+import type { Dispositivo, DispositivoCreacion, DispositivoRegistrado } from '@/types/dispositivo';
+import type { ApiResponseLecturas } from '@/types/lectura';
+
+// Configuración base de la API
+const API_BASE = '/api/dispositivos';
+
+/**
+ * Construye los headers de la petición
+ */
+const buildHeaders = (token?: string, json = false): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+};
+
+/**
+ * Lista los dispositivos registrados de un cultivo
+ * @param cultivoId - ID del cultivo
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ */
+export async function listDispositivos(cultivoId: string, signal?: AbortSignal, token?: string): Promise<Dispositivo[]> {
+  try {
+    const res = await fetch(`${API_BASE}?cultivoId=${encodeURIComponent(cultivoId)}`, { signal, headers: buildHeaders(token) });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`HTTP ${res.status}: ${errorText}`);
+    }
+
+    const response: ApiResponseLecturas<Dispositivo[]> = await res.json();
+    return response.success && Array.isArray(response.data) ? response.data : [];
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error(`Error al listar dispositivos del cultivo ${cultivoId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Registra un nuevo dispositivo
+ * La API key devuelta solo está disponible en esta respuesta
+ * @param datos - Nombre y cultivo del dispositivo
+ * @param token - Token de autenticación opcional
+ */
+export async function createDispositivo(datos: DispositivoCreacion, token?: string): Promise<DispositivoRegistrado> {
+  try {
+    const res = await fetch(API_BASE, {
+      method: 'POST',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify(datos),
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo registrar el dispositivo: ${errorText}`);
+    }
+
+    const response: ApiResponseLecturas<DispositivoRegistrado> = await res.json();
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error('Error al registrar dispositivo: respuesta en formato inesperado');
+  } catch (error) {
+    console.error('Error al registrar dispositivo:', error);
+    throw error;
+  }
+}
+
+/**
+ * Activa o revoca un dispositivo
+ * @param id - ID del dispositivo
+ * @param activo - false revoca la API key
+ * @param token - Token de autenticación opcional
+ */
+export async function setDispositivoActivo(id: string, activo: boolean, token?: string): Promise<Dispositivo> {
+  try {
+    const res = await fetch(`${API_BASE}/${id}`, {
+      method: 'PATCH',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify({ activo }),
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo actualizar el dispositivo: ${errorText}`);
+    }
+
+    const response: ApiResponseLecturas<Dispositivo> = await res.json();
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error('Error al actualizar dispositivo: respuesta en formato inesperado');
+  } catch (error) {
+    console.error(`Error al actualizar dispositivo ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Genera una nueva API key para el dispositivo e invalida la anterior
+ * @param id - ID del dispositivo
+ * @param token - Token de autenticación opcional
+ */
+export async function rotarApiKeyDispositivo(id: string, token?: string): Promise<DispositivoRegistrado> {
+  try {
+    const res = await fetch(`${API_BASE}/${id}`, {
+      method: 'PATCH',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify({ rotarApiKey: true }),
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo rotar la API key: ${errorText}`);
+    }
+
+    const response: ApiResponseLecturas<DispositivoRegistrado> = await res.json();
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error('Error al rotar API key: respuesta en formato inesperado');
+  } catch (error) {
+    console.error(`Error al rotar API key del dispositivo ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Elimina un dispositivo
+ * @param id - ID del dispositivo
+ * @param token - Token de autenticación opcional
+ */
+export async function removeDispositivo(id: string, token?: string): Promise<boolean> {
+  try {
+    const res = await fetch(`${API_BASE}/${id}`, { method: 'DELETE', headers: buildHeaders(token) });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo eliminar el dispositivo: ${errorText}`);
+    }
+
+    return true;
+  } catch (error) {
+    console.error(`Error al eliminar dispositivo ${id}:`, error);
+    throw error;
+  }
+}
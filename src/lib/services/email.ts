@@ -0,0 +1,180 @@
+/**
+ * Envío de emails (solo servidor)
+ *
+ * Abstrae el transporte para que los emails de autenticación y los recordatorios
+ * usen la misma salida. El transporte se elige con EMAIL_TRANSPORT:
+ * - smtp: nodemailer (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_FROM)
+ * - archivo: guarda cada email como JSON en EMAIL_OUTBOX_DIR (por defecto .emails/)
+ * - consola: imprime el email en el log del servidor
+ * Sin EMAIL_TRANSPORT se usa smtp si hay SMTP_HOST y, si no, consola.
+ * En producción el transporte de consola se rechaza: los enlaces de verificación,
+ * restablecimiento e invitación quedarían en el log del servidor.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer, { type Transporter } from 'nodemailer';
+
+/**
+ * Transportes disponibles
+ */
+export type NombreTransporteEmail = 'smtp' | 'archivo' | 'consola';
+
+/**
+ * Email a enviar
+ */
+export interface MensajeEmail {
+  para: string;
+  asunto: string;
+  texto: string;
+  html?: string;
+}
+
+/**
+ * Contrato de un transporte de email
+ */
+export interface TransporteEmail {
+  nombre: NombreTransporteEmail;
+  /** Entrega el email; lanza un Error si falla */
+  enviar(mensaje: MensajeEmail): Promise<void>;
+}
+
+/**
+ * Convierte un enlace interno (/cultivo/...) en URL absoluta para emails y webhooks
+ */
+export function urlAbsoluta(ruta?: string): string | undefined {
+  if (!ruta) return undefined;
+  const base = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+  return new URL(ruta, base).toString();
+}
+
+/**
+ * Escapa texto para incluirlo en el HTML del email
+ */
+export const escaparHtml = (texto: string): string =>
+  texto.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Remitente configurado
+ */
+const remitente = (): string | undefined => process.env.SMTP_FROM || process.env.SMTP_USER;
+
+// ===== SMTP =====
+
+let transporteSmtp: Transporter | null = null;
+
+/**
+ * Obtiene (y reutiliza) el transporte SMTP configurado por variables de entorno
+ */
+function obtenerTransporteSmtp(): Transporter {
+  if (!transporteSmtp) {
+    const puerto = parseInt(process.env.SMTP_PORT || '587');
+    transporteSmtp = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: puerto,
+      secure: process.env.SMTP_SECURE === 'true' || puerto === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined
+    });
+  }
+  return transporteSmtp;
+}
+
+const transporteSmtpEmail: TransporteEmail = {
+  nombre: 'smtp',
+  async enviar(mensaje) {
+    await obtenerTransporteSmtp().sendMail({
+      from: remitente(),
+      to: mensaje.para,
+      subject: mensaje.asunto,
+      text: mensaje.texto,
+      html: mensaje.html
+    });
+  }
+};
+
+// ===== ARCHIVO (desarrollo y tests) =====
+
+const transporteArchivo: TransporteEmail = {
+  nombre: 'archivo',
+  async enviar(mensaje) {
+    const directorio = path.resolve(process.env.EMAIL_OUTBOX_DIR || '.emails');
+    await fs.mkdir(directorio, { recursive: true });
+
+    const nombreArchivo = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(3).toString('hex')}.json`;
+    const contenido = { de: remitente(), fecha: new Date().toISOString(), ...mensaje };
+    await fs.writeFile(path.join(directorio, nombreArchivo), JSON.stringify(contenido, null, 2), 'utf8');
+
+    console.log(`📧 Email guardado en ${path.join(directorio, nombreArchivo)} (para: ${mensaje.para})`);
+  }
+};
+
+// ===== CONSOLA =====
+
+const transporteConsola: TransporteEmail = {
+  nombre: 'consola',
+  async enviar(mensaje) {
+    console.log([
+      '📧 ===== EMAIL (transporte de consola) =====',
+      `Para: ${mensaje.para}`,
+      `Asunto: ${mensaje.asunto}`,
+      '',
+      mensaje.texto,
+      '📧 ========================================='
+    ].join('\n'));
+  }
+};
+
+const TRANSPORTES: Record<NombreTransporteEmail, TransporteEmail> = {
+  smtp: transporteSmtpEmail,
+  archivo: transporteArchivo,
+  consola: transporteConsola
+};
+
+/**
+ * Transporte configurado (EMAIL_TRANSPORT, o smtp/consola según SMTP_HOST) sin validar el entorno
+ */
+function resolverTransporteEmail(): TransporteEmail {
+  const configurado = process.env.EMAIL_TRANSPORT as NombreTransporteEmail | undefined;
+  if (configurado && TRANSPORTES[configurado]) return TRANSPORTES[configurado];
+  if (configurado) {
+    console.warn(`⚠️ EMAIL_TRANSPORT desconocido (${configurado}), se usa ${process.env.SMTP_HOST ? 'smtp' : 'consola'}`);
+  }
+  return process.env.SMTP_HOST ? transporteSmtpEmail : transporteConsola;
+}
+
+/**
+ * Indica si el transporte resuelto es la consola en producción
+ */
+const esConsolaEnProduccion = (transporte: TransporteEmail): boolean =>
+  transporte.nombre === 'consola' && process.env.NODE_ENV === 'production';
+
+/**
+ * Transporte configurado (EMAIL_TRANSPORT, o smtp/consola según SMTP_HOST)
+ * @throws Error en producción si no hay SMTP ni otro transporte que no sea la consola
+ */
+export function obtenerTransporteEmail(): TransporteEmail {
+  const transporte = resolverTransporteEmail();
+  if (esConsolaEnProduccion(transporte)) {
+    throw new Error('No hay un transporte de email configurado en producción: definir SMTP_HOST (o EMAIL_TRANSPORT=smtp con sus credenciales)');
+  }
+  return transporte;
+}
+
+/**
+ * Indica si hay un transporte elegido explícitamente o un servidor SMTP
+ * (los recordatorios no se "entregan" por consola si nadie lo configuró, ni nunca en producción)
+ */
+export function hayTransporteEmailConfigurado(): boolean {
+  return Boolean(process.env.SMTP_HOST || process.env.EMAIL_TRANSPORT) && !esConsolaEnProduccion(resolverTransporteEmail());
+}
+
+/**
+ * Envía un email con el transporte configurado
+ * @param mensaje - Destinatario, asunto y cuerpo
+ */
+export async function enviarEmail(mensaje: MensajeEmail): Promise<void> {
+  await obtenerTransporteEmail().enviar(mensaje);
+}
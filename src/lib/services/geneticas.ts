@@ -0,0 +1,124 @@
+/**
+ * Servicio para el catálogo de genéticas del usuario
+ * Proporciona funciones para listar, agregar, editar y eliminar genéticas
+ */
+
+import type { ApiResponseGeneticas, Genetica, GeneticaEntrada } from '@/types/genetica';
+
+// Configuración base de la API
+const API_BASE = '/api/geneticas';
+
+/**
+ * Construye los headers con autenticación opcional
+ */
+const buildHeaders = (token?: string, json = false): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+};
+
+/**
+ * Mensaje de error de una respuesta fallida (incluye los errores de validación)
+ */
+const mensajeError = (response: ApiResponseGeneticas, status: number): string => {
+  const detalle = response.details?.length ? `: ${response.details.join(', ')}` : '';
+  return `${response.message || response.error || `HTTP ${status}`}${detalle}`;
+};
+
+/**
+ * Obtiene el catálogo de genéticas en orden alfabético
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ */
+export async function listarGeneticas(signal?: AbortSignal, token?: string): Promise<Genetica[]> {
+  try {
+    const res = await fetch(API_BASE, { signal, headers: buildHeaders(token) });
+    const response: ApiResponseGeneticas<Genetica[]> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data || [];
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error('Error al obtener el catálogo de genéticas:', error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Agrega una genética al catálogo
+ * @param datos - Perfil de la genética
+ * @param token - Token de autenticación opcional
+ */
+export async function crearGenetica(datos: Partial<GeneticaEntrada>, token?: string): Promise<Genetica> {
+  try {
+    const res = await fetch(API_BASE, {
+      method: 'POST',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify(datos)
+    });
+    const response: ApiResponseGeneticas<Genetica> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data;
+  } catch (error) {
+    console.error('Error al agregar la genética al catálogo:', error);
+    throw error;
+  }
+}
+
+/**
+ * Actualiza una genética (null o '' quitan los campos opcionales)
+ * @param id - ID de la genética
+ * @param datos - Campos a modificar
+ * @param token - Token de autenticación opcional
+ */
+export async function actualizarGenetica(
+  id: string,
+  datos: { [K in keyof GeneticaEntrada]?: GeneticaEntrada[K] | null },
+  token?: string
+): Promise<Genetica> {
+  try {
+    const res = await fetch(`${API_BASE}/${id}`, {
+      method: 'PATCH',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify(datos)
+    });
+    const response: ApiResponseGeneticas<Genetica> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data;
+  } catch (error) {
+    console.error(`Error al actualizar la genética ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Elimina una genética del catálogo (los cultivos conservan el nombre)
+ * @param id - ID de la genética
+ * @param token - Token de autenticación opcional
+ */
+export async function eliminarGenetica(id: string, token?: string): Promise<void> {
+  try {
+    const res = await fetch(`${API_BASE}/${id}`, {
+      method: 'DELETE',
+      headers: buildHeaders(token)
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo eliminar la genética: ${errorText}`);
+    }
+  } catch (error) {
+    console.error(`Error al eliminar la genética ${id}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Servicio para gestión de lecturas ambientales de cultivos
+ * Proporciona funciones para registrar y consultar mediciones reales
+ * (temperatura, humedad, EC, pH y agua) y compararlas con los objetivos del cultivo
+ */
+
+import type { Cultivo } from '@/types/cultivo';
+import type {
+  Lectura,
+  LecturaCreacion,
+  ListaLecturasParams,
+  AgregadoDiarioLecturas,
+  ApiResponseLecturas,
+  VariableLectura
+} from '@/types/lectura';
+import { calcularMetricasFases } from './cultivos';
+
+// Configuración base de la API
+const API_BASE = '/api/cultivos';
+
+/**
+ * Construye la URL del recurso de lecturas de un cultivo
+ */
+const buildLecturasUrl = (cultivoId: string, params: ListaLecturasParams = {}): string => {
+  const base = typeof window !== 'undefined'
+    ? window.location.origin
+    : process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+  const url = new URL(`${base}${API_BASE}/${cultivoId}/lecturas`);
+
+  Object.entries(params).forEach(([k, v]) => {
+    if (v !== undefined && v !== null) url.searchParams.set(k, String(v));
+  });
+
+  return url.toString();
+};
+
+/**
+ * Lista las lecturas de un cultivo, de la más reciente a la más antigua
+ * @param cultivoId - ID del cultivo
+ * @param params - Rango de fechas y límite
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ */
+export async function listLecturas(
+  cultivoId: string,
+  params: Omit<ListaLecturasParams, 'agregado'> = {},
+  signal?: AbortSignal,
+  token?: string
+): Promise<Lectura[]> {
+  try {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(buildLecturasUrl(cultivoId, params), { signal, headers });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`HTTP ${res.status}: ${errorText}`);
+    }
+
+    const response: ApiResponseLecturas<Lectura[]> = await res.json();
+    return response.success && Array.isArray(response.data) ? response.data : [];
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error(`Error al listar lecturas del cultivo ${cultivoId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Obtiene los agregados diarios (promedio, mínimo, máximo) de un cultivo
+ * @param cultivoId - ID del cultivo
+ * @param params - Rango de fechas
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ */
+export async function getAgregadosDiarios(
+  cultivoId: string,
+  params: Pick<ListaLecturasParams, 'desde' | 'hasta'> = {},
+  signal?: AbortSignal,
+  token?: string
+): Promise<AgregadoDiarioLecturas[]> {
+  try {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(buildLecturasUrl(cultivoId, { ...params, agregado: 'diario' }), { signal, headers });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`HTTP ${res.status}: ${errorText}`);
+    }
+
+    const response: ApiResponseLecturas<AgregadoDiarioLecturas[]> = await res.json();
+    return response.success && Array.isArray(response.data) ? response.data : [];
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error(`Error al obtener agregados del cultivo ${cultivoId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Registra una nueva lectura para un cultivo
+ * @param cultivoId - ID del cultivo
+ * @param lectura - Valores medidos
+ * @param token - Token de autenticación opcional
+ */
+export async function createLectura(cultivoId: string, lectura: LecturaCreacion, token?: string): Promise<Lectura> {
+  try {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+
+    const res = await fetch(buildLecturasUrl(cultivoId), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(lectura),
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo registrar la lectura: ${errorText}`);
+    }
+
+    const response: ApiResponseLecturas<Lectura> = await res.json();
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error('Error al registrar lectura: respuesta en formato inesperado');
+  } catch (error) {
+    console.error('Error al registrar lectura:', error);
+    throw error;
+  }
+}
+
+/**
+ * Elimina una lectura de un cultivo
+ * @param cultivoId - ID del cultivo
+ * @param lecturaId - ID de la lectura
+ * @param token - Token de autenticación opcional
+ */
+export async function removeLectura(cultivoId: string, lecturaId: string, token?: string): Promise<boolean> {
+  try {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(`${API_BASE}/${cultivoId}/lecturas/${lecturaId}`, { method: 'DELETE', headers });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo eliminar la lectura: ${errorText}`);
+    }
+
+    return true;
+  } catch (error) {
+    console.error(`Error al eliminar lectura ${lecturaId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Obtiene el valor objetivo del cultivo para una variable según la fase actual
+ * @param cultivo - Datos del cultivo
+ * @param variable - Variable medida
+ * @returns Valor objetivo o undefined si no está configurado
+ */
+export function getObjetivoVariable(cultivo: Cultivo, variable: VariableLectura): number | undefined {
+  const { faseActual } = calcularMetricasFases(cultivo);
+
+  switch (variable) {
+    case 'temperatura':
+      return faseActual === 'floracion' ? cultivo.tempObjetivoFloracion : cultivo.tempObjetivoVegetacion;
+    case 'humedad':
+      return faseActual === 'floracion' ? cultivo.humedadObjetivoFloracion : cultivo.humedadObjetivoVegetacion;
+    case 'ec':
+      return cultivo.ecObjetivo;
+    case 'ph':
+      return cultivo.phObjetivo;
+    case 'volumenAgua':
+      return cultivo.aguaDiariaObjetivo;
+  }
+}
+
+/**
+ * Obtiene el último valor medido de cada variable
+ * Recorre las lecturas (ordenadas de más reciente a más antigua) hasta encontrar cada variable
+ * @param lecturas - Lecturas ordenadas por fecha descendente
+ */
+export function getUltimosValores(lecturas: Lectura[]): Partial<Record<VariableLectura, { valor: number; fecha: string }>> {
+  const variables: VariableLectura[] = ['temperatura', 'humedad', 'ec', 'ph', 'volumenAgua'];
+  const ultimos: Partial<Record<VariableLectura, { valor: number; fecha: string }>> = {};
+
+  for (const lectura of lecturas) {
+    for (const variable of variables) {
+      const valor = lectura[variable];
+      if (ultimos[variable] === undefined && typeof valor === 'number') {
+        ultimos[variable] = { valor, fecha: lectura.fecha };
+      }
+    }
+  }
+
+  return ultimos;
+}
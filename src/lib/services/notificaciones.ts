@@ -0,0 +1,255 @@
+/**
+ * Servicio para la configuración de notificaciones
+ * Permite leer y guardar las preferencias de recordatorios y canales de entrega
+ * (email, web push, webhook), consultar el historial de entregas y suscribir
+ * el navegador a notificaciones Web Push
+ */
+
+import type { ConfiguracionNotificaciones } from '@/types/planificacion';
+import type {
+  ConfiguracionNotificacionesPublica,
+  IntentoEntrega,
+  EstadoPush,
+  ApiResponseNotificaciones
+} from '@/types/notificacion';
+// Nota: No usar hooks de React en servicios. Los datos de auth deben ser pasados por parámetro.
+
+// Configuración base de la API
+const API_BASE = '/api';
+const R = 'notificaciones';
+
+/**
+ * Helper para construir URLs absolutas correctamente
+ */
+const buildApiUrl = (path: string): string => {
+  if (typeof window !== 'undefined') {
+    return `${window.location.origin}${path}`;
+  }
+  const baseUrl = process.env.NEXT_PUBLIC_API_URL || process.env.RENDER_API_URL || 'http://localhost:3002';
+  return `${baseUrl}${path}`;
+};
+
+/**
+ * Obtiene la configuración de notificaciones del usuario
+ */
+export async function getConfiguracionNotificaciones(
+  signal?: AbortSignal,
+  token?: string
+): Promise<ConfiguracionNotificacionesPublica> {
+  try {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(buildApiUrl(`${API_BASE}/${R}/configuracion`), { signal, headers });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`HTTP ${res.status}: ${errorText}`);
+    }
+
+    const response: ApiResponseNotificaciones<ConfiguracionNotificacionesPublica> = await res.json();
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error('Error al obtener configuración de notificaciones: respuesta en formato inesperado');
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error('Error al obtener configuración de notificaciones:', error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Actualiza la configuración de notificaciones
+ * Enviar '' en emailDestino, webhookUrl o webhookSecreto los elimina
+ */
+export async function updateConfiguracionNotificaciones(
+  cambios: Partial<ConfiguracionNotificaciones>,
+  token?: string
+): Promise<ConfiguracionNotificacionesPublica> {
+  try {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(buildApiUrl(`${API_BASE}/${R}/configuracion`), {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify(cambios)
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo actualizar la configuración de notificaciones: ${errorText}`);
+    }
+
+    const response: ApiResponseNotificaciones<ConfiguracionNotificacionesPublica> = await res.json();
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error('Error al actualizar configuración de notificaciones: respuesta en formato inesperado');
+  } catch (error) {
+    console.error('Error al actualizar configuración de notificaciones:', error);
+    throw error;
+  }
+}
+
+/**
+ * Lista el historial de entregas de recordatorios del usuario
+ * @param filtros - cultivoId, tareaId, canal o estado
+ */
+export async function listIntentosEntrega(
+  filtros: Partial<Pick<IntentoEntrega, 'cultivoId' | 'tareaId' | 'canal' | 'estado'>> = {},
+  signal?: AbortSignal,
+  token?: string
+): Promise<IntentoEntrega[]> {
+  try {
+    const params = new URLSearchParams();
+    Object.entries(filtros).forEach(([clave, valor]) => {
+      if (valor) params.append(clave, valor);
+    });
+
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(buildApiUrl(`${API_BASE}/${R}/intentos?${params.toString()}`), { signal, headers });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`HTTP ${res.status}: ${errorText}`);
+    }
+
+    const response: ApiResponseNotificaciones<IntentoEntrega[]> = await res.json();
+    return response.success && response.data ? response.data : [];
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error('Error al obtener historial de entregas:', error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Obtiene el estado de Web Push: clave pública VAPID y navegadores suscritos
+ */
+export async function getEstadoPush(signal?: AbortSignal, token?: string): Promise<EstadoPush> {
+  try {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(buildApiUrl(`${API_BASE}/${R}/push`), { signal, headers });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`HTTP ${res.status}: ${errorText}`);
+    }
+
+    const response: ApiResponseNotificaciones<EstadoPush> = await res.json();
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error('Error al obtener estado de notificaciones push: respuesta en formato inesperado');
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error('Error al obtener estado de notificaciones push:', error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Indica si el navegador soporta notificaciones push
+ */
+export function soportaPush(): boolean {
+  return typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window;
+}
+
+/**
+ * Convierte la clave pública VAPID (base64url) al formato de PushManager.subscribe
+ */
+const claveVapidABytes = (clave: string): ArrayBuffer => {
+  const relleno = '='.repeat((4 - (clave.length % 4)) % 4);
+  const base64 = (clave + relleno).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), caracter => caracter.charCodeAt(0)).buffer;
+};
+
+/**
+ * Pide permiso, suscribe este navegador y registra la suscripción en el servidor
+ * @param clavePublica - Clave pública VAPID devuelta por getEstadoPush
+ */
+export async function activarNotificacionesPush(clavePublica: string, token?: string): Promise<void> {
+  if (!soportaPush()) {
+    throw new Error('Este navegador no soporta notificaciones push');
+  }
+
+  const permiso = await Notification.requestPermission();
+  if (permiso !== 'granted') {
+    throw new Error('Permiso de notificaciones denegado. Puedes habilitarlo en la configuración del navegador.');
+  }
+
+  try {
+    const registro = await navigator.serviceWorker.ready;
+    const suscripcion = await registro.pushManager.getSubscription() ||
+      await registro.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: claveVapidABytes(clavePublica)
+      });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(buildApiUrl(`${API_BASE}/${R}/push`), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(suscripcion.toJSON())
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo activar las notificaciones push: ${errorText}`);
+    }
+  } catch (error) {
+    console.error('Error al activar notificaciones push:', error);
+    throw error;
+  }
+}
+
+/**
+ * Cancela la suscripción de este navegador y la elimina del servidor
+ */
+export async function desactivarNotificacionesPush(token?: string): Promise<void> {
+  if (!soportaPush()) return;
+
+  try {
+    const registro = await navigator.serviceWorker.ready;
+    const suscripcion = await registro.pushManager.getSubscription();
+    if (!suscripcion) return;
+
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(
+      buildApiUrl(`${API_BASE}/${R}/push?endpoint=${encodeURIComponent(suscripcion.endpoint)}`),
+      { method: 'DELETE', headers }
+    );
+    await suscripcion.unsubscribe();
+
+    if (!res.ok && res.status !== 404) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo desactivar las notificaciones push: ${errorText}`);
+    }
+  } catch (error) {
+    console.error('Error al desactivar notificaciones push:', error);
+    throw error;
+  }
+}
+
+/**
+ * Devuelve el endpoint de la suscripción push de este navegador (null si no está suscrito)
+ */
+export async function getEndpointPushActual(): Promise<string | null> {
+  if (!soportaPush()) return null;
+  const registro = await navigator.serviceWorker.getRegistration();
+  const suscripcion = await registro?.pushManager.getSubscription();
+  return suscripcion?.endpoint ?? null;
+}
@@ -0,0 +1,454 @@
+/**
+ * Servicio client-side para el modo sin conexión
+ *
+ * Usa IndexedDB para dos cosas:
+ * - Caché de lecturas: la última respuesta de cultivos, tareas y comentarios,
+ *   que se muestra cuando no hay señal
+ * - Cola de cambios: completar tareas, comentar y subir fotos sin conexión.
+ *   Los cambios se reproducen en orden al recuperar la conexión
+ *
+ * Los conflictos se detectan con fechaActualizacion: cada cambio de tarea o
+ * cultivo viaja con la versión sobre la que se editó (fechaActualizacionBase)
+ * y el servidor responde 409 si el registro cambió mientras tanto.
+ */
+
+import type {
+  MutacionOffline,
+  MutacionActualizarTarea,
+  MutacionCrearComentario,
+  MutacionSubirImagen,
+  ResultadoConCache,
+  ResumenSincronizacion
+} from '@/types/offline';
+import type { TareaCultivo } from '@/types/planificacion';
+import type { ComentarioCultivo } from '@/types/chat';
+import type { Cultivo, ImagenCultivo } from '@/types/cultivo';
+import { parsearIdOcurrencia } from '@/lib/utils/recurrencia';
+
+// Configuración de la base local
+const NOMBRE_BD = 'canopia-offline';
+const VERSION_BD = 1;
+const STORE_CACHE = 'cache';
+const STORE_MUTACIONES = 'mutaciones';
+
+/**
+ * Evento de window que se emite cada vez que cambia la cola de cambios
+ */
+export const EVENTO_COLA_OFFLINE = 'canopia:cola-offline';
+
+/**
+ * Prefijo de los IDs provisionales de comentarios creados sin conexión
+ */
+export const PREFIJO_ID_OFFLINE = 'offline_';
+
+/**
+ * Entrada de la caché de lecturas
+ */
+interface EntradaCache<T = unknown> {
+  clave: string;
+  datos: T;
+  fecha: string;
+}
+
+/**
+ * Datos necesarios para encolar un cambio (el resto lo completa encolarMutacion)
+ */
+type NuevaMutacion =
+  | Omit<MutacionActualizarTarea, 'id' | 'creada' | 'estado' | 'intentos'>
+  | Omit<MutacionCrearComentario, 'id' | 'creada' | 'estado' | 'intentos'>
+  | Omit<MutacionSubirImagen, 'id' | 'creada' | 'estado' | 'intentos'>;
+
+/**
+ * Error de la API con su código HTTP (para distinguir conflictos de rechazos)
+ */
+class ErrorRespuestaApi extends Error {
+  constructor(message: string, public readonly status: number, public readonly datos?: unknown) {
+    super(message);
+    this.name = 'ErrorRespuestaApi';
+  }
+}
+
+let conexionBD: Promise<IDBDatabase> | null = null;
+let sincronizacionEnCurso: Promise<ResumenSincronizacion> | null = null;
+
+/**
+ * Indica si el navegador soporta IndexedDB (no existe en SSR)
+ */
+const soportaIndexedDB = (): boolean => typeof window !== 'undefined' && 'indexedDB' in window;
+
+/**
+ * Abre (o crea) la base local una sola vez por pestaña
+ */
+function abrirBD(): Promise<IDBDatabase> {
+  if (!conexionBD) {
+    conexionBD = new Promise((resolve, reject) => {
+      const solicitud = indexedDB.open(NOMBRE_BD, VERSION_BD);
+      solicitud.onupgradeneeded = () => {
+        const bd = solicitud.result;
+        if (!bd.objectStoreNames.contains(STORE_CACHE)) {
+          bd.createObjectStore(STORE_CACHE, { keyPath: 'clave' });
+        }
+        if (!bd.objectStoreNames.contains(STORE_MUTACIONES)) {
+          bd.createObjectStore(STORE_MUTACIONES, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      solicitud.onsuccess = () => resolve(solicitud.result);
+      solicitud.onerror = () => {
+        conexionBD = null;
+        reject(solicitud.error);
+      };
+    });
+  }
+  return conexionBD;
+}
+
+/**
+ * Ejecuta una operación sobre un store y resuelve con su resultado
+ */
+async function operar<T>(
+  store: string,
+  modo: IDBTransactionMode,
+  operacion: (s: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const bd = await abrirBD();
+  return new Promise((resolve, reject) => {
+    const transaccion = bd.transaction(store, modo);
+    const solicitud = operacion(transaccion.objectStore(store));
+    transaccion.oncomplete = () => resolve(solicitud.result);
+    transaccion.onerror = () => reject(transaccion.error);
+    transaccion.onabort = () => reject(transaccion.error);
+  });
+}
+
+/**
+ * Avisa a los componentes suscritos que la cola cambió
+ */
+const notificarCambioCola = (): void => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(EVENTO_COLA_OFFLINE));
+  }
+};
+
+/**
+ * Indica si un error se debe a la falta de conexión (y no a una respuesta del servidor)
+ * fetch rechaza con TypeError cuando no puede llegar al servidor
+ */
+export function esErrorDeRed(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  return error instanceof Error && /failed to fetch|networkerror|load failed|network request failed/i.test(error.message);
+}
+
+// ===== CACHÉ DE LECTURAS =====
+
+/**
+ * Guarda una respuesta en la caché local
+ * @param clave - Identificador de la consulta (ej: 'tareas:<cultivoId>')
+ * @param datos - Datos a guardar
+ */
+export async function guardarEnCache<T>(clave: string, datos: T): Promise<void> {
+  if (!soportaIndexedDB()) return;
+  try {
+    const entrada: EntradaCache<T> = { clave, datos, fecha: new Date().toISOString() };
+    await operar(STORE_CACHE, 'readwrite', s => s.put(entrada));
+  } catch (error) {
+    console.warn('No se pudo guardar en la caché offline:', error);
+  }
+}
+
+/**
+ * Lee una respuesta de la caché local
+ * @param clave - Identificador de la consulta
+ * @returns Entrada guardada o null si no existe
+ */
+export async function leerDeCache<T>(clave: string): Promise<EntradaCache<T> | null> {
+  if (!soportaIndexedDB()) return null;
+  try {
+    const entrada = await operar<EntradaCache<T> | undefined>(STORE_CACHE, 'readonly', s => s.get(clave));
+    return entrada ?? null;
+  } catch (error) {
+    console.warn('No se pudo leer la caché offline:', error);
+    return null;
+  }
+}
+
+/**
+ * Carga datos del servidor guardándolos en caché; sin conexión, devuelve la caché
+ * Los errores que no son de red (401, 500, AbortError) se propagan igual que antes
+ * @param clave - Identificador de la consulta
+ * @param cargar - Función que obtiene los datos del servidor
+ * @returns Datos y si provienen de la caché
+ */
+export async function conCacheOffline<T>(clave: string, cargar: () => Promise<T>): Promise<ResultadoConCache<T>> {
+  try {
+    const datos = await cargar();
+    void guardarEnCache(clave, datos);
+    return { datos, desdeCache: false };
+  } catch (error) {
+    if (!esErrorDeRed(error)) throw error;
+    const entrada = await leerDeCache<T>(clave);
+    if (!entrada) throw error;
+    return { datos: entrada.datos, desdeCache: true, fechaCache: entrada.fecha };
+  }
+}
+
+// ===== COLA DE CAMBIOS =====
+
+/**
+ * Agrega un cambio a la cola para reproducirlo al recuperar la conexión
+ * @param mutacion - Cambio a encolar
+ * @returns Cambio guardado con su ID
+ */
+export async function encolarMutacion(mutacion: NuevaMutacion): Promise<MutacionOffline> {
+  const completa = {
+    ...mutacion,
+    creada: new Date().toISOString(),
+    estado: 'pendiente',
+    intentos: 0
+  } as MutacionOffline;
+  const id = await operar<IDBValidKey>(STORE_MUTACIONES, 'readwrite', s => s.add(completa));
+  notificarCambioCola();
+  return { ...completa, id: Number(id) };
+}
+
+/**
+ * Lista los cambios encolados, en el orden en que se hicieron
+ * @param cultivoId - Filtra los cambios de un cultivo
+ */
+export async function listarMutaciones(cultivoId?: string): Promise<MutacionOffline[]> {
+  if (!soportaIndexedDB()) return [];
+  try {
+    const todas = await operar<MutacionOffline[]>(STORE_MUTACIONES, 'readonly', s => s.getAll());
+    return cultivoId ? todas.filter(m => m.cultivoId === cultivoId) : todas;
+  } catch (error) {
+    console.warn('No se pudo leer la cola offline:', error);
+    return [];
+  }
+}
+
+/**
+ * Guarda el nuevo estado de un cambio encolado
+ */
+async function guardarMutacion(mutacion: MutacionOffline): Promise<void> {
+  await operar(STORE_MUTACIONES, 'readwrite', s => s.put(mutacion));
+}
+
+/**
+ * Quita un cambio de la cola
+ */
+export async function eliminarMutacion(id: number): Promise<void> {
+  await operar(STORE_MUTACIONES, 'readwrite', s => s.delete(id));
+  notificarCambioCola();
+}
+
+/**
+ * Resuelve un conflicto o error de la cola
+ * 'mantener_mios': reintenta el cambio sobre la versión actual del servidor
+ * 'descartar': elimina el cambio y se queda con la versión del servidor
+ * @param id - ID del cambio en la cola
+ * @param decision - Qué hacer con el cambio
+ */
+export async function resolverConflicto(id: number, decision: 'mantener_mios' | 'descartar'): Promise<void> {
+  if (decision === 'descartar') {
+    await eliminarMutacion(id);
+    return;
+  }
+
+  const mutacion = await operar<MutacionOffline | undefined>(STORE_MUTACIONES, 'readonly', s => s.get(id));
+  if (!mutacion) return;
+
+  const reintento: MutacionOffline = { ...mutacion, estado: 'pendiente', error: undefined };
+  if (reintento.tipo === 'actualizar_tarea') {
+    reintento.fechaActualizacionBase = reintento.versionServidor?.fechaActualizacion ?? reintento.fechaActualizacionBase;
+    reintento.versionServidor = undefined;
+  }
+  await guardarMutacion(reintento);
+  notificarCambioCola();
+}
+
+/**
+ * Borra la caché y la cola (al cerrar sesión en un dispositivo compartido)
+ */
+export async function borrarDatosOffline(): Promise<void> {
+  if (!soportaIndexedDB()) return;
+  try {
+    await operar(STORE_CACHE, 'readwrite', s => s.clear());
+    await operar(STORE_MUTACIONES, 'readwrite', s => s.clear());
+    notificarCambioCola();
+  } catch (error) {
+    console.warn('No se pudieron borrar los datos offline:', error);
+  }
+}
+
+// ===== APLICACIÓN LOCAL DE LA COLA =====
+
+/**
+ * Aplica sobre una lista de tareas en caché los cambios todavía no sincronizados
+ * @param tareas - Tareas leídas de la caché
+ * @param mutaciones - Cola actual
+ */
+export function aplicarCambiosPendientesATareas(tareas: TareaCultivo[], mutaciones: MutacionOffline[]): TareaCultivo[] {
+  const cambios = new Map<string, Partial<TareaCultivo>>();
+  for (const m of mutaciones) {
+    if (m.tipo === 'actualizar_tarea') {
+      cambios.set(m.tareaId, { ...cambios.get(m.tareaId), ...m.cambios });
+    }
+  }
+  if (cambios.size === 0) return tareas;
+  return tareas.map(t => (cambios.has(t.id) ? { ...t, ...cambios.get(t.id) } : t));
+}
+
+/**
+ * Comentarios creados sin conexión, con su ID provisional, para mostrarlos en la lista
+ * @param mutaciones - Cola actual
+ */
+export function comentariosPendientes(mutaciones: MutacionOffline[]): ComentarioCultivo[] {
+  return mutaciones
+    .filter((m): m is MutacionCrearComentario => m.tipo === 'crear_comentario')
+    .map(m => ({ ...m.datos, id: m.idTemporal, fecha: m.creada }));
+}
+
+// ===== SINCRONIZACIÓN =====
+
+/**
+ * Ejecuta una petición a la API y devuelve data, o lanza ErrorRespuestaApi con el código HTTP
+ */
+async function pedirApi<T>(ruta: string, init: RequestInit, token?: string): Promise<T> {
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+
+  const res = await fetch(ruta, { ...init, headers });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || json.success === false) {
+    throw new ErrorRespuestaApi(json.message || json.error || `HTTP ${res.status}`, res.status, json.data);
+  }
+  return json.data as T;
+}
+
+/**
+ * Reproduce un cambio de tarea
+ * Las ocurrencias virtuales se guardan como reemplazo de esa fecha (no tienen versión propia)
+ */
+async function reproducirTarea(m: MutacionActualizarTarea, token?: string): Promise<void> {
+  const ocurrencia = parsearIdOcurrencia(m.tareaId);
+  const ruta = ocurrencia
+    ? `/api/tareas/${ocurrencia.tareaId}/ocurrencias/${ocurrencia.fecha}`
+    : `/api/tareas/${m.tareaId}`;
+  const cuerpo = ocurrencia || !m.fechaActualizacionBase
+    ? m.cambios
+    : { ...m.cambios, fechaActualizacionBase: m.fechaActualizacionBase };
+
+  await pedirApi(ruta, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(cuerpo)
+  }, token);
+}
+
+/**
+ * Reproduce un comentario nuevo
+ */
+async function reproducirComentario(m: MutacionCrearComentario, token?: string): Promise<void> {
+  await pedirApi('/api/comentarios', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(m.datos)
+  }, token);
+}
+
+/**
+ * Reproduce una foto: la sube y la agrega a la galería del cultivo
+ * Agregar una foto no pisa cambios ajenos, así que ante un conflicto se relee
+ * el cultivo y se reintenta una vez sobre la versión nueva
+ */
+async function reproducirImagen(m: MutacionSubirImagen, token?: string): Promise<void> {
+  const formData = new FormData();
+  formData.append('file', new File([m.archivo], m.nombreArchivo, { type: m.archivo.type }));
+  const subida = await pedirApi<{ secureUrl: string }>('/api/galeria', { method: 'POST', body: formData }, token);
+
+  const nuevaImagen: ImagenCultivo = {
+    id: `img_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    url: subida.secureUrl,
+    nombre: m.nombreArchivo.split('.')[0],
+    descripcion: '',
+    fechaSubida: m.creada.split('T')[0],
+    tamaño: m.archivo.size,
+    tipo: m.archivo.type
+  };
+
+  for (let intento = 0; ; intento++) {
+    const cultivo = await pedirApi<Cultivo>(`/api/cultivos/${m.cultivoId}`, { method: 'GET' }, token);
+    try {
+      await pedirApi(`/api/cultivos/${m.cultivoId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          galeria: [...(cultivo.galeria || []), nuevaImagen],
+          fechaActualizacionBase: cultivo.fechaActualizacion
+        })
+      }, token);
+      return;
+    } catch (error) {
+      if (!(error instanceof ErrorRespuestaApi) || error.status !== 409 || intento >= 1) throw error;
+    }
+  }
+}
+
+/**
+ * Reproduce en orden los cambios pendientes de la cola
+ * Se detiene al primer error de red (la conexión volvió a caerse); los conflictos
+ * y rechazos quedan en la cola para que el usuario decida
+ * @param token - Token de autenticación opcional
+ * @returns Resumen de la sincronización
+ */
+export function sincronizarMutaciones(token?: string): Promise<ResumenSincronizacion> {
+  // Evita dos sincronizaciones simultáneas (evento 'online' + montaje del componente)
+  if (!sincronizacionEnCurso) {
+    sincronizacionEnCurso = ejecutarSincronizacion(token).finally(() => {
+      sincronizacionEnCurso = null;
+    });
+  }
+  return sincronizacionEnCurso;
+}
+
+async function ejecutarSincronizacion(token?: string): Promise<ResumenSincronizacion> {
+  const resumen: ResumenSincronizacion = { aplicadas: 0, conflictos: 0, errores: 0, pendientes: 0 };
+  const cola = (await listarMutaciones()).filter(m => m.estado === 'pendiente');
+
+  for (let i = 0; i < cola.length; i++) {
+    const mutacion = cola[i];
+    try {
+      if (mutacion.tipo === 'actualizar_tarea') await reproducirTarea(mutacion, token);
+      else if (mutacion.tipo === 'crear_comentario') await reproducirComentario(mutacion, token);
+      else await reproducirImagen(mutacion, token);
+
+      await eliminarMutacion(mutacion.id!);
+      resumen.aplicadas++;
+    } catch (error) {
+      if (esErrorDeRed(error)) {
+        resumen.pendientes = cola.length - i;
+        break;
+      }
+
+      const actualizada: MutacionOffline = {
+        ...mutacion,
+        intentos: mutacion.intentos + 1,
+        error: error instanceof Error ? error.message : 'Error desconocido'
+      };
+      if (error instanceof ErrorRespuestaApi && error.status === 409) {
+        actualizada.estado = 'conflicto';
+        if (actualizada.tipo === 'actualizar_tarea') {
+          actualizada.versionServidor = error.datos as TareaCultivo | undefined;
+        }
+        resumen.conflictos++;
+      } else {
+        actualizada.estado = 'error';
+        resumen.errores++;
+      }
+      await guardarMutacion(actualizada);
+      notificarCambioCola();
+    }
+  }
+
+  return resumen;
+}
@@ -2,6 +2,7 @@
  * Servicio para gestión de planificación de cultivos
  * Proporciona funciones para operaciones CRUD con tareas, recordatorios y eventos de calendario
  * Incluye lógica para tareas recurrentes y recordatorios automáticos
+ * Las ocurrencias de tareas recurrentes se expanden en el servidor (ver src/lib/utils/recurrencia.ts)
  *
  * 🔒 Sistema de permisos implementado:
  * - Solo administradores pueden crear/eliminar tareas
@@ -17,8 +18,10 @@ import type {
   EstadisticasPlanificacion,
   EventoCalendario,
   VistaCalendarioMensual,
-  EstadoTarea,
+  FeedCalendario,
+  ResultadoImportacionICS,
 } from '@/types/planificacion';
+import { parsearIdOcurrencia } from '@/lib/utils/recurrencia';
 // Nota: No usar hooks de React en servicios. Los datos de auth deben ser pasados por parámetro.
 
 // Configuración base de la API
@@ -37,72 +40,6 @@ const buildApiUrl = (path: string): string => {
   return `${baseUrl}${path}`;
 };
 
-/**
- * Calcula la próxima fecha para una tarea recurrente
- */
-function calcularProximaFecha(fechaBase: string, frecuencia: string, intervalo: number = 1): string {
-  const fecha = new Date(fechaBase);
-  const fechaActual = new Date();
-
-  switch (frecuencia) {
-    case 'diaria':
-      fecha.setDate(fecha.getDate() + intervalo);
-      break;
-    case 'semanal':
-      fecha.setDate(fecha.getDate() + (intervalo * 7));
-      break;
-    case 'quincenal':
-      fecha.setDate(fecha.getDate() + (intervalo * 15));
-      break;
-    case 'mensual':
-      fecha.setMonth(fecha.getMonth() + intervalo);
-      break;
-    default:
-      return fechaBase; // Sin cambios para personalizada o desconocida
-  }
-
-  // Asegurar que la fecha no sea en el pasado
-  if (fecha < fechaActual) {
-    return new Date().toISOString().split('T')[0];
-  }
-
-  return fecha.toISOString().split('T')[0];
-}
-
-/**
- * Genera tareas recurrentes para un período de tiempo
- */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function generarTareasRecurrentes(tarea: TareaCultivo, fechaFin: string): TareaCultivo[] {
-  const tareas: TareaCultivo[] = [];
-  let fechaActual = tarea.fechaProgramada;
-
-  while (fechaActual <= fechaFin) {
-    if (fechaActual !== tarea.fechaProgramada) {
-      const nuevaTarea: TareaCultivo = {
-        ...tarea,
-        id: `${tarea.id}_${fechaActual.replace(/-/g, '')}`,
-        fechaProgramada: fechaActual,
-        fechaCreacion: new Date().toISOString().split('T')[0],
-        fechaActualizacion: new Date().toISOString().split('T')[0],
-        estado: 'pendiente' as EstadoTarea,
-        recordatorioEnviado: false,
-        tareaPadreId: tarea.id,
-        // 🔒 Auditoría: heredar creador de la tarea original
-        creadoPor: tarea.creadoPor,
-        editadoPor: tarea.editadoPor
-      };
-      tareas.push(nuevaTarea);
-    }
-
-    if (!tarea.frecuencia || !tarea.fechaFinRepeticion) break;
-
-    fechaActual = calcularProximaFecha(fechaActual, tarea.frecuencia, tarea.intervaloPersonalizado || 1);
-  }
-
-  return tareas;
-}
-
 /**
  * Lista todas las tareas con parámetros opcionales de filtrado, ordenamiento y paginación
  */
@@ -209,8 +146,20 @@ export async function createTarea(tarea: TareaCreacion, token?: string): Promise
   }
 }
 
+/**
+ * Construye la ruta de una tarea o, si el ID es de una ocurrencia virtual,
+ * la ruta de esa ocurrencia dentro de su serie
+ */
+const buildTareaPath = (id: string): string => {
+  const ocurrencia = parsearIdOcurrencia(id);
+  return ocurrencia
+    ? `${API_BASE}/${R}/${ocurrencia.tareaId}/ocurrencias/${ocurrencia.fecha}`
+    : `${API_BASE}/${R}/${id}`;
+};
+
 /**
  * Actualiza parcialmente una tarea existente
+ * Con el ID de una ocurrencia virtual guarda un reemplazo solo para esa fecha
  * @throws Error si el usuario no tiene permisos para editar tareas
  */
 export async function updateTarea(id: string, patch: Partial<TareaCultivo>, token?: string): Promise<TareaCultivo> {
@@ -219,7 +168,7 @@ export async function updateTarea(id: string, patch: Partial<TareaCultivo>, toke
     if (token) headers['Authorization'] = `Bearer ${token}`;
 
     // El servidor agrega auditoría (editadoPor, fechaActualizacion) y valida permisos
-    const res = await fetch(`${API_BASE}/${R}/${id}`, {
+    const res = await fetch(buildTareaPath(id), {
       method: 'PATCH',
       headers,
       body: JSON.stringify(patch),
@@ -249,13 +198,14 @@ export async function updateTarea(id: string, patch: Partial<TareaCultivo>, toke
 
 /**
  * Elimina una tarea del servidor
+ * Con el ID de una ocurrencia virtual solo omite esa fecha de la serie
  * @throws Error si el usuario no tiene permisos para eliminar tareas
  */
 export async function removeTarea(id: string, token?: string): Promise<boolean> {
   try {
     const headers: Record<string, string> = {};
     if (token) headers['Authorization'] = `Bearer ${token}`;
-    const res = await fetch(`${API_BASE}/${R}/${id}`, { method: 'DELETE', headers });
+    const res = await fetch(buildTareaPath(id), { method: 'DELETE', headers });
 
     if (!res.ok) {
       const errorText = await res.text();
@@ -480,6 +430,8 @@ export async function duplicarTarea(tareaId: string, nuevaFecha: string): Promis
 
 /**
  * Obtiene tareas que necesitan recordatorio
+ * Solo para avisos dentro de la app: el envío por email, push y webhook lo hace
+ * el servidor (ver src/lib/utils/recordatorios.ts)
  */
 export async function getTareasParaRecordatorio(token?: string): Promise<TareaCultivo[]> {
   // Nota: No podemos filtrar por recordatorioActivado en la consulta directa
@@ -513,3 +465,131 @@ export async function marcarRecordatoriosEnviados(tareaIds: string[]): Promise<v
   );
   await Promise.all(promises);
 }
+
+/**
+ * Obtiene el estado del feed iCalendar del usuario
+ */
+export async function getFeedCalendario(signal?: AbortSignal, token?: string): Promise<FeedCalendario> {
+  try {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(buildApiUrl(`${API_BASE}/${R}/calendario`), { signal, headers });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`HTTP ${res.status}: ${errorText}`);
+    }
+
+    const response: ApiResponsePlanificacion<FeedCalendario> = await res.json();
+    return response.success && response.data ? response.data : { activo: false };
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error('Error al obtener feed de calendario:', error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Genera (o rota) el token del feed iCalendar
+ * La respuesta incluye la URL completa del feed, que no se vuelve a mostrar
+ */
+export async function generarFeedCalendario(token?: string): Promise<FeedCalendario> {
+  try {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(buildApiUrl(`${API_BASE}/${R}/calendario`), { method: 'POST', headers });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo generar el feed de calendario: ${errorText}`);
+    }
+
+    const response: ApiResponsePlanificacion<FeedCalendario> = await res.json();
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error('Error al generar feed de calendario: respuesta en formato inesperado');
+  } catch (error) {
+    console.error('Error al generar feed de calendario:', error);
+    throw error;
+  }
+}
+
+/**
+ * Revoca el token del feed iCalendar
+ */
+export async function revocarFeedCalendario(token?: string): Promise<void> {
+  try {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(buildApiUrl(`${API_BASE}/${R}/calendario`), { method: 'DELETE', headers });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo revocar el feed de calendario: ${errorText}`);
+    }
+  } catch (error) {
+    console.error('Error al revocar feed de calendario:', error);
+    throw error;
+  }
+}
+
+/**
+ * Construye la URL del feed de un cultivo a partir de la URL del feed general
+ * @param urlFeed - URL devuelta por generarFeedCalendario
+ * @param cultivoId - ID del cultivo
+ */
+export function construirUrlFeedCultivo(urlFeed: string, cultivoId: string): string {
+  const url = new URL(urlFeed);
+  url.pathname = `${API_BASE}/cultivos/${cultivoId}/calendar.ics`;
+  return url.toString();
+}
+
+/**
+ * Importa tareas desde un archivo .ics
+ * @param cultivoId - Cultivo al que se asignan las tareas
+ * @param archivo - Archivo .ics seleccionado por el usuario
+ * @param guardar - Si es false solo devuelve la vista previa sin crear tareas
+ * @param token - Token de autenticación opcional
+ */
+export async function importarTareasICS(
+  cultivoId: string,
+  archivo: File,
+  guardar: boolean,
+  token?: string
+): Promise<ResultadoImportacionICS> {
+  try {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+
+    const formData = new FormData();
+    formData.append('archivo', archivo);
+    formData.append('cultivoId', cultivoId);
+    formData.append('guardar', String(guardar));
+    // Las horas en UTC o con zona horaria del archivo se pasan a la zona de este navegador
+    formData.append('zonaHoraria', Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+    const res = await fetch(buildApiUrl(`${API_BASE}/${R}/importar`), {
+      method: 'POST',
+      headers,
+      body: formData,
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo importar el calendario: ${errorText}`);
+    }
+
+    const response: ApiResponsePlanificacion<ResultadoImportacionICS> = await res.json();
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error('Error al importar calendario: respuesta en formato inesperado');
+  } catch (error) {
+    console.error('Error al importar calendario:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Servicio para las plantas individuales de un cultivo
+ * Proporciona funciones para listar, registrar, generar, editar y eliminar plantas
+ */
+
+import type { ApiResponsePlantas, Planta, PlantaEntrada } from '@/types/planta';
+
+// Configuración base de la API
+const API_BASE = '/api/cultivos';
+
+/**
+ * Construye los headers con autenticación opcional
+ */
+const buildHeaders = (token?: string, json = false): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+};
+
+/**
+ * Mensaje de error de una respuesta fallida (incluye los errores de validación)
+ */
+const mensajeError = (response: ApiResponsePlantas, status: number): string => {
+  const detalle = response.details?.length ? `: ${response.details.join(', ')}` : '';
+  return `${response.message || response.error || `HTTP ${status}`}${detalle}`;
+};
+
+/**
+ * Obtiene las plantas de un cultivo ordenadas por fila y columna
+ * @param cultivoId - ID del cultivo
+ * @param signal - Señal de aborto opcional
+ * @param token - Token de autenticación opcional
+ */
+export async function listarPlantas(cultivoId: string, signal?: AbortSignal, token?: string): Promise<Planta[]> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/plantas`, { signal, headers: buildHeaders(token) });
+    const response: ApiResponsePlantas<Planta[]> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data || [];
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'AbortError') {
+      console.error(`Error al obtener las plantas del cultivo ${cultivoId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Registra una planta (sin etiqueta se asigna la siguiente libre)
+ * @param cultivoId - ID del cultivo
+ * @param datos - Datos de la planta
+ * @param token - Token de autenticación opcional
+ */
+export async function crearPlanta(cultivoId: string, datos: Partial<PlantaEntrada>, token?: string): Promise<Planta> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/plantas`, {
+      method: 'POST',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify(datos)
+    });
+    const response: ApiResponsePlantas<Planta> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data;
+  } catch (error) {
+    console.error(`Error al registrar una planta en el cultivo ${cultivoId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Genera varias plantas con etiquetas P1..Pn en las posiciones libres de la grilla
+ * @param cultivoId - ID del cultivo
+ * @param cantidad - Cantidad de plantas a generar
+ * @param token - Token de autenticación opcional
+ */
+export async function generarPlantas(cultivoId: string, cantidad: number, token?: string): Promise<Planta[]> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/plantas`, {
+      method: 'POST',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify({ cantidad })
+    });
+    const response: ApiResponsePlantas<Planta[]> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data;
+  } catch (error) {
+    console.error(`Error al generar plantas en el cultivo ${cultivoId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Actualiza una planta (null o '' quitan el campo, por ejemplo la posición)
+ * @param cultivoId - ID del cultivo
+ * @param plantaId - ID de la planta
+ * @param datos - Campos a modificar
+ * @param token - Token de autenticación opcional
+ */
+export async function actualizarPlanta(
+  cultivoId: string,
+  plantaId: string,
+  datos: { [K in keyof PlantaEntrada]?: PlantaEntrada[K] | null },
+  token?: string
+): Promise<Planta> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/plantas/${plantaId}`, {
+      method: 'PATCH',
+      headers: buildHeaders(token, true),
+      body: JSON.stringify(datos)
+    });
+    const response: ApiResponsePlantas<Planta> = await res.json().catch(() => ({ success: false }));
+
+    if (!res.ok || !response.success || !response.data) {
+      throw new Error(mensajeError(response, res.status));
+    }
+    return response.data;
+  } catch (error) {
+    console.error(`Error al actualizar la planta ${plantaId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Elimina una planta (tareas, comentarios, imágenes y pesos quedan asociados solo al cultivo)
+ * @param cultivoId - ID del cultivo
+ * @param plantaId - ID de la planta
+ * @param token - Token de autenticación opcional
+ */
+export async function eliminarPlanta(cultivoId: string, plantaId: string, token?: string): Promise<void> {
+  try {
+    const res = await fetch(`${API_BASE}/${cultivoId}/plantas/${plantaId}`, {
+      method: 'DELETE',
+      headers: buildHeaders(token)
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`No se pudo eliminar la planta: ${errorText}`);
+    }
+  } catch (error) {
+    console.error(`Error al eliminar la planta ${plantaId}:`, error);
+    throw error;
+  }
+}
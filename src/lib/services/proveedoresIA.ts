@@ -0,0 +1,471 @@
+/**
+ * Proveedores de IA para el chat (solo servidor)
+ *
+ * Cada proveedor implementa la interfaz ProveedorIA y devuelve siempre una
+ * RespuestaIA normalizada (contenido + tokens), sin importar el formato original.
+ * El proveedor activo se elige con la variable de entorno AI_PROVIDER.
+ *
+ * Proveedores incluidos:
+ * - n8n: POST JSON al workflow (N8N_CHAT_WEBHOOK_URL)
+ * - openai: API de OpenAI directa con soporte de imágenes (OPENAI_API_KEY, OPENAI_MODEL)
+ * - local: respuestas simuladas sin red, para tests y desarrollo
+ *
+ * Si AI_PROVIDER no está definido se usa el primero configurado: n8n, luego openai.
+ *
+ * Los proveedores que lo soportan (openai, local) implementan además
+ * transmitirRespuesta() para emitir el texto a medida que se genera.
+ */
+
+import OpenAI from 'openai';
+import type { ChatCompletionContentPart, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { NombreProveedorIA, PayloadOpenAI, RespuestaIA, TokensUsados } from '@/types/chat';
+import { recomendacionDeReferencia } from '@/lib/utils/recomendacionesIA';
+import { diagnosticoDeReferencia } from '@/lib/utils/diagnosticosIA';
+
+/**
+ * Contrato de un proveedor de IA
+ */
+export interface ProveedorIA {
+  /** Nombre del proveedor (valor de AI_PROVIDER) */
+  nombre: NombreProveedorIA;
+  /** Si el servidor tiene lo necesario para usarlo (URL, credenciales) */
+  disponible(): boolean;
+  /** Genera la respuesta; lanza ErrorProveedorIA si falla */
+  generarRespuesta(payload: PayloadOpenAI, signal?: AbortSignal): Promise<RespuestaIA>;
+  /**
+   * Genera la respuesta emitiendo cada fragmento de texto a medida que llega
+   * Opcional: si no está implementado se emite la respuesta completa en un único fragmento
+   */
+  transmitirRespuesta?(
+    payload: PayloadOpenAI,
+    alFragmento: (texto: string) => void,
+    signal?: AbortSignal
+  ): Promise<RespuestaIA>;
+}
+
+/**
+ * Error de un proveedor de IA con el motivo ya clasificado
+ * esCancelado indica que el cliente abortó la petición (no es un fallo del proveedor)
+ */
+export class ErrorProveedorIA extends Error {
+  constructor(
+    message: string,
+    public readonly proveedor: NombreProveedorIA,
+    public readonly esTimeout = false,
+    public readonly esCancelado = false
+  ) {
+    super(message);
+    this.name = 'ErrorProveedorIA';
+  }
+}
+
+// Tiempo máximo de espera por respuesta (el análisis de imágenes es lento)
+const TIMEOUT_IA_MS = 120000;
+
+// Cantidad máxima de mensajes del historial que se reenvían al modelo
+const MAX_MENSAJES_HISTORIAL = 10;
+
+const TOKENS_VACIOS: TokensUsados = { prompt: 0, completion: 0, total: 0 };
+
+/**
+ * Indica si un error corresponde a un timeout de la petición
+ */
+function esErrorTimeout(error: unknown): boolean {
+  return error instanceof Error && error.name === 'TimeoutError';
+}
+
+/**
+ * Combina la señal de cancelación del cliente con el timeout del proveedor
+ */
+function senalConTimeout(signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(TIMEOUT_IA_MS);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Convierte cualquier error de un proveedor en ErrorProveedorIA
+ */
+function aErrorProveedor(error: unknown, proveedor: NombreProveedorIA, signal?: AbortSignal): ErrorProveedorIA {
+  if (error instanceof ErrorProveedorIA) return error;
+  if (signal?.aborted) {
+    return new ErrorProveedorIA('Petición cancelada por el usuario', proveedor, false, true);
+  }
+  return new ErrorProveedorIA(
+    error instanceof Error ? error.message : `Error desconocido de ${proveedor}`,
+    proveedor,
+    esErrorTimeout(error) || error instanceof OpenAI.APIConnectionTimeoutError
+  );
+}
+
+/**
+ * Convierte un valor desconocido en número de tokens (0 si no es válido)
+ */
+function aNumero(valor: unknown): number {
+  return typeof valor === 'number' && Number.isFinite(valor) && valor >= 0 ? valor : 0;
+}
+
+/**
+ * Normaliza los tokens informados por un proveedor
+ * Acepta el formato propio ({ prompt, completion, total }) y el de OpenAI
+ * ({ prompt_tokens, completion_tokens, total_tokens })
+ */
+export function normalizarTokens(origen: unknown): TokensUsados {
+  if (!origen || typeof origen !== 'object') return { ...TOKENS_VACIOS };
+  const datos = origen as Record<string, unknown>;
+
+  const prompt = aNumero(datos.prompt ?? datos.prompt_tokens);
+  const completion = aNumero(datos.completion ?? datos.completion_tokens);
+  const total = aNumero(datos.total ?? datos.total_tokens) || prompt + completion;
+
+  return { prompt, completion, total };
+}
+
+/**
+ * Estimación aproximada de tokens para proveedores que no los informan (~4 caracteres por token)
+ */
+function estimarTokens(texto: string): number {
+  return Math.ceil(texto.length / 4);
+}
+
+/**
+ * Instrucciones de sistema con el contexto del cultivo
+ */
+function construirPromptSistema(payload: PayloadOpenAI): string {
+  return [
+    'Eres CanopIA, un asistente experto en cultivo de cannabis medicinal.',
+    'Responde en español, de forma concreta y práctica, usando los datos del cultivo cuando sean relevantes.',
+    'Si se adjuntan imágenes, analiza el estado de las plantas (plagas, carencias, excesos, estrés).',
+    'El contexto incluye la fase actual, los objetivos, las tareas vencidas y próximas y un resumen de los últimos días; tenlos en cuenta al recomendar.',
+    '',
+    'Contexto del cultivo (JSON):',
+    JSON.stringify(payload.cultivoContext)
+  ].join('\n');
+}
+
+// ===== PROVEEDOR N8N =====
+
+/**
+ * Extrae el texto y los tokens de la respuesta del workflow de n8n
+ *
+ * Contrato esperado del workflow: { output: string, tokens?: { prompt, completion, total } }
+ * n8n puede envolver el objeto en arrays o en { json: ... }; ambos casos se desenvuelven.
+ */
+function interpretarRespuestaN8n(texto: string): { contenido: string; tokens: TokensUsados } {
+  let datos: unknown;
+  try {
+    datos = JSON.parse(texto);
+  } catch {
+    // HTML en lugar de JSON: error del servidor de n8n (502, páginas de error)
+    const inicio = texto.trim().toLowerCase();
+    if (inicio.startsWith('<!doctype html') || inicio.startsWith('<html')) {
+      throw new ErrorProveedorIA('El servicio de IA no está disponible momentáneamente (Error de servidor).', 'n8n');
+    }
+    // Texto plano: la IA respondió directo sin JSON
+    return { contenido: texto, tokens: { ...TOKENS_VACIOS } };
+  }
+
+  while (Array.isArray(datos) && datos.length > 0) {
+    datos = datos[0];
+  }
+  if (typeof datos === 'string') {
+    return { contenido: datos, tokens: { ...TOKENS_VACIOS } };
+  }
+
+  const item = (datos && typeof datos === 'object' ? datos : {}) as Record<string, unknown>;
+  const cuerpo = (item.json && typeof item.json === 'object' ? item.json : item) as Record<string, unknown>;
+  const contenido = cuerpo.output ?? cuerpo.text;
+
+  if (typeof contenido !== 'string' || !contenido.trim()) {
+    console.error('❌ Respuesta de n8n sin campo output. Keys:', Object.keys(cuerpo));
+    throw new ErrorProveedorIA('El workflow de n8n no devolvió el campo "output"', 'n8n');
+  }
+
+  return { contenido, tokens: normalizarTokens(cuerpo.tokens ?? cuerpo.usage) };
+}
+
+const proveedorN8n: ProveedorIA = {
+  nombre: 'n8n',
+
+  disponible: () => Boolean(process.env.N8N_CHAT_WEBHOOK_URL),
+
+  async generarRespuesta(payload, signal) {
+    const url = process.env.N8N_CHAT_WEBHOOK_URL;
+    if (!url) {
+      throw new ErrorProveedorIA('N8N_CHAT_WEBHOOK_URL no está configurada', 'n8n');
+    }
+
+    let respuesta: Response;
+    try {
+      respuesta = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: payload.email,
+          message: payload.message,
+          contexto: payload.cultivoContext,
+          historial: payload.historialReciente || [],
+          imagenes: payload.imagenes || [],
+          formatoRespuesta: payload.formatoRespuesta || 'texto',
+          timestamp: new Date().toISOString()
+        }),
+        signal: senalConTimeout(signal)
+      });
+    } catch (error) {
+      throw aErrorProveedor(error, 'n8n', signal);
+    }
+
+    const texto = await respuesta.text();
+    if (!respuesta.ok) {
+      console.error(`❌ Error en n8n (${respuesta.status}):`, texto.substring(0, 200));
+      throw new ErrorProveedorIA(`Error en n8n: ${respuesta.status} - ${texto.substring(0, 200)}`, 'n8n');
+    }
+    if (!texto.trim()) {
+      throw new ErrorProveedorIA('Respuesta vacía del servicio n8n', 'n8n');
+    }
+
+    return { ...interpretarRespuestaN8n(texto), proveedor: 'n8n' };
+  }
+};
+
+// ===== PROVEEDOR OPENAI =====
+
+/**
+ * Modelo de OpenAI configurado (OPENAI_MODEL)
+ */
+function modeloOpenAI(): string {
+  return process.env.OPENAI_MODEL || 'gpt-4o-mini';
+}
+
+let clienteOpenAI: OpenAI | null = null;
+
+/**
+ * Obtiene (y reutiliza) el cliente de OpenAI configurado por variables de entorno
+ */
+function obtenerClienteOpenAI(): OpenAI {
+  if (!clienteOpenAI) {
+    clienteOpenAI = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+      timeout: TIMEOUT_IA_MS,
+      maxRetries: 1
+    });
+  }
+  return clienteOpenAI;
+}
+
+/**
+ * Construye la conversación para la API de chat de OpenAI
+ */
+function construirMensajesOpenAI(payload: PayloadOpenAI): ChatCompletionMessageParam[] {
+  const historial: ChatCompletionMessageParam[] = (payload.historialReciente || [])
+    .filter(mensaje => mensaje.tipo !== 'system' && mensaje.contenido && !mensaje.error)
+    .slice(-MAX_MENSAJES_HISTORIAL)
+    .map(mensaje => mensaje.tipo === 'assistant'
+      ? { role: 'assistant', content: mensaje.contenido }
+      : { role: 'user', content: mensaje.contenido });
+
+  const partes: ChatCompletionContentPart[] = [{ type: 'text', text: payload.message }];
+  for (const imagen of payload.imagenes || []) {
+    partes.push({
+      type: 'image_url',
+      image_url: { url: `data:${imagen.mimeType};base64,${imagen.base64}` }
+    });
+  }
+
+  return [
+    { role: 'system', content: construirPromptSistema(payload) },
+    ...historial,
+    { role: 'user', content: partes }
+  ];
+}
+
+const proveedorOpenAI: ProveedorIA = {
+  nombre: 'openai',
+
+  disponible: () => Boolean(process.env.OPENAI_API_KEY),
+
+  async generarRespuesta(payload, signal) {
+    try {
+      const completion = await obtenerClienteOpenAI().chat.completions.create({
+        model: modeloOpenAI(),
+        messages: construirMensajesOpenAI(payload),
+        ...(payload.formatoRespuesta === 'json' && { response_format: { type: 'json_object' as const } })
+      }, { signal });
+
+      const contenido = completion.choices[0]?.message?.content;
+      if (!contenido) {
+        throw new ErrorProveedorIA('OpenAI devolvió una respuesta vacía', 'openai');
+      }
+
+      return {
+        contenido,
+        tokens: normalizarTokens(completion.usage),
+        proveedor: 'openai',
+        modelo: completion.model
+      };
+    } catch (error) {
+      throw aErrorProveedor(error, 'openai', signal);
+    }
+  },
+
+  async transmitirRespuesta(payload, alFragmento, signal) {
+    try {
+      const stream = await obtenerClienteOpenAI().chat.completions.create({
+        model: modeloOpenAI(),
+        messages: construirMensajesOpenAI(payload),
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { signal });
+
+      let contenido = '';
+      let modelo: string | undefined;
+      let tokens: TokensUsados = { ...TOKENS_VACIOS };
+
+      for await (const chunk of stream) {
+        modelo = chunk.model || modelo;
+        // El último chunk trae solo el uso de tokens (sin choices)
+        if (chunk.usage) tokens = normalizarTokens(chunk.usage);
+
+        const texto = chunk.choices[0]?.delta?.content;
+        if (texto) {
+          contenido += texto;
+          alFragmento(texto);
+        }
+      }
+
+      if (!contenido) {
+        throw new ErrorProveedorIA('OpenAI devolvió una respuesta vacía', 'openai');
+      }
+
+      return { contenido, tokens, proveedor: 'openai', modelo };
+    } catch (error) {
+      throw aErrorProveedor(error, 'openai', signal);
+    }
+  }
+};
+
+// ===== PROVEEDOR LOCAL =====
+
+/**
+ * Proveedor simulado: responde sin red de forma determinista
+ * Útil para tests e2e y para desarrollar la UI sin credenciales
+ */
+// Pausa entre palabras al simular streaming
+const PAUSA_FRAGMENTO_LOCAL_MS = 30;
+
+const proveedorLocal: ProveedorIA = {
+  nombre: 'local',
+
+  disponible: () => true,
+
+  async generarRespuesta(payload) {
+    const cantidadImagenes = payload.imagenes?.length || 0;
+    // En JSON, con imagen se pide un diagnóstico y sin imagen una recomendación de objetivos
+    const contenido = payload.formatoRespuesta === 'json'
+      ? (cantidadImagenes > 0 ? diagnosticoDeReferencia : recomendacionDeReferencia)(payload.cultivoContext)
+      : [
+        `Respuesta simulada para el cultivo "${payload.cultivoContext.nombre}".`,
+        `Mensaje recibido: ${payload.message}`,
+        cantidadImagenes > 0 ? `Imágenes recibidas: ${cantidadImagenes}.` : null
+      ].filter(Boolean).join('\n');
+
+    const prompt = estimarTokens(construirPromptSistema(payload) + payload.message);
+    const completion = estimarTokens(contenido);
+
+    return {
+      contenido,
+      tokens: { prompt, completion, total: prompt + completion },
+      proveedor: 'local',
+      modelo: 'local'
+    };
+  },
+
+  async transmitirRespuesta(payload, alFragmento, signal) {
+    const respuesta = await this.generarRespuesta(payload, signal);
+
+    // Emitir la respuesta palabra por palabra para ejercitar el renderizado progresivo
+    for (const fragmento of respuesta.contenido.split(/(?<=\s)/)) {
+      if (signal?.aborted) {
+        throw new ErrorProveedorIA('Petición cancelada por el usuario', 'local', false, true);
+      }
+      alFragmento(fragmento);
+      await new Promise(resolve => setTimeout(resolve, PAUSA_FRAGMENTO_LOCAL_MS));
+    }
+
+    return respuesta;
+  }
+};
+
+// ===== REGISTRO DE PROVEEDORES =====
+
+const proveedores = new Map<NombreProveedorIA, ProveedorIA>();
+
+/**
+ * Registra (o reemplaza) un proveedor de IA
+ * @param proveedor - Implementación del proveedor
+ */
+export function registrarProveedorIA(proveedor: ProveedorIA): void {
+  proveedores.set(proveedor.nombre, proveedor);
+}
+
+/**
+ * Devuelve el proveedor de IA configurado
+ * Usa AI_PROVIDER si está definido; si no, el primero disponible (n8n, openai)
+ * @returns El proveedor, o null si no hay ninguno configurado
+ */
+export function obtenerProveedorIA(): ProveedorIA | null {
+  const configurado = process.env.AI_PROVIDER?.trim().toLowerCase();
+
+  if (configurado) {
+    const proveedor = proveedores.get(configurado as NombreProveedorIA);
+    if (!proveedor) {
+      console.error(`❌ AI_PROVIDER desconocido: "${configurado}". Valores válidos: ${Array.from(proveedores.keys()).join(', ')}`);
+      return null;
+    }
+    return proveedor.disponible() ? proveedor : null;
+  }
+
+  for (const nombre of ['n8n', 'openai'] as const) {
+    const proveedor = proveedores.get(nombre);
+    if (proveedor?.disponible()) return proveedor;
+  }
+  return null;
+}
+
+/**
+ * Genera la respuesta emitiendo fragmentos de texto a medida que se producen
+ * Si el proveedor no soporta streaming, emite la respuesta completa en un único fragmento
+ * @param proveedor - Proveedor de IA a utilizar
+ * @param payload - Mensaje, contexto, historial e imágenes
+ * @param alFragmento - Callback por cada fragmento de texto
+ * @param signal - Señal para cancelar la generación
+ */
+export async function transmitirRespuestaIA(
+  proveedor: ProveedorIA,
+  payload: PayloadOpenAI,
+  alFragmento: (texto: string) => void,
+  signal?: AbortSignal
+): Promise<RespuestaIA> {
+  if (proveedor.transmitirRespuesta) {
+    return proveedor.transmitirRespuesta(payload, alFragmento, signal);
+  }
+
+  const respuesta = await proveedor.generarRespuesta(payload, signal);
+  alFragmento(respuesta.contenido);
+  return respuesta;
+}
+
+/**
+ * Estima los tokens de una respuesta que no llegó a completarse (cancelada o con error)
+ * El proveedor ya procesó el prompt y generó el texto parcial, pero no informó el uso
+ * @param payload - Mensaje y contexto enviados
+ * @param textoParcial - Texto recibido hasta la interrupción
+ */
+export function estimarTokensParciales(payload: PayloadOpenAI, textoParcial: string): TokensUsados {
+  const prompt = estimarTokens(construirPromptSistema(payload) + payload.message);
+  const completion = estimarTokens(textoParcial);
+  return { prompt, completion, total: prompt + completion };
+}
+
+registrarProveedorIA(proveedorN8n);
+registrarProveedorIA(proveedorOpenAI);
+registrarProveedorIA(proveedorLocal);
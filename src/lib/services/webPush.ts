@@ -0,0 +1,125 @@
+/**
+ * Servicio de notificaciones Web Push (solo servidor)
+ *
+ * Envía notificaciones a las suscripciones push de un usuario usando claves VAPID.
+ *
+ * Variables de entorno (generar con `npm run generate-vapid`):
+ * - VAPID_PUBLIC_KEY: clave pública, se entrega a los navegadores al suscribirse
+ * - VAPID_PRIVATE_KEY: clave privada, firma cada envío
+ * - VAPID_SUBJECT: email (mailto:) o URL de contacto para los servicios de push
+ */
+
+import type mongoose from 'mongoose';
+import webpush, { WebPushError } from 'web-push';
+import type { MensajeNotificacion, PayloadPush } from '@/types/notificacion';
+import { getSuscripcionPushModel } from '@/lib/mongodb';
+
+// Tiempo que el servicio de push conserva el mensaje si el dispositivo está desconectado
+const TTL_SEGUNDOS = 24 * 60 * 60;
+
+let vapidConfigurado = false;
+
+/**
+ * Indica si las claves VAPID están configuradas
+ */
+export function estaConfiguradoWebPush(): boolean {
+  return Boolean(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+}
+
+/**
+ * Clave pública VAPID para PushManager.subscribe (null si no está configurada)
+ */
+export function obtenerClavePublicaVapid(): string | null {
+  return estaConfiguradoWebPush() ? process.env.VAPID_PUBLIC_KEY! : null;
+}
+
+/**
+ * Configura web-push con las claves VAPID (una sola vez por proceso)
+ */
+function configurarVapid(): void {
+  if (vapidConfigurado) return;
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT || 'mailto:admin@canopia.app',
+    process.env.VAPID_PUBLIC_KEY!,
+    process.env.VAPID_PRIVATE_KEY!
+  );
+  vapidConfigurado = true;
+}
+
+/**
+ * Convierte un mensaje de notificación en el payload que recibe el service worker
+ * El tag agrupa las notificaciones de una misma tarea o comentario
+ */
+export const construirPayloadPush = (mensaje: MensajeNotificacion): PayloadPush => {
+  const referencia = mensaje.datos?.tareaId ?? mensaje.datos?.comentarioId;
+  const fecha = mensaje.datos?.fechaOcurrencia;
+  return {
+    titulo: mensaje.titulo,
+    cuerpo: mensaje.cuerpo,
+    url: mensaje.url || '/',
+    tag: referencia ? [mensaje.tipo, referencia, fecha].filter(Boolean).join('-') : undefined,
+    tipo: mensaje.tipo
+  };
+};
+
+/**
+ * Indica si un usuario tiene al menos una suscripción push
+ */
+export async function tieneSuscripcionesPush(connection: mongoose.Connection, usuarioEmail: string): Promise<boolean> {
+  return Boolean(await getSuscripcionPushModel(connection).exists({ creadoPor: usuarioEmail }));
+}
+
+/**
+ * Envía una notificación a todas las suscripciones de un usuario
+ * Las suscripciones expiradas (404/410) se eliminan
+ * @param connection - Conexión a la base de datos
+ * @param usuarioEmail - Destinatario
+ * @param mensaje - Mensaje a enviar
+ * @returns Cantidad de navegadores que aceptaron el mensaje
+ * @throws Error si ninguna suscripción aceptó el mensaje
+ */
+export async function enviarPushAUsuario(
+  connection: mongoose.Connection,
+  usuarioEmail: string,
+  mensaje: MensajeNotificacion
+): Promise<number> {
+  if (!estaConfiguradoWebPush()) {
+    throw new Error('Web Push no está configurado (faltan las claves VAPID)');
+  }
+  configurarVapid();
+
+  const SuscripcionModel = getSuscripcionPushModel(connection);
+  const suscripciones = await SuscripcionModel.find({ creadoPor: usuarioEmail });
+  if (suscripciones.length === 0) {
+    throw new Error('El usuario no tiene suscripciones push');
+  }
+
+  const payload = JSON.stringify(construirPayloadPush(mensaje));
+  const errores: string[] = [];
+  let entregados = 0;
+
+  for (const suscripcion of suscripciones) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: suscripcion.endpoint, keys: { p256dh: suscripcion.keys.p256dh, auth: suscripcion.keys.auth } },
+        payload,
+        { TTL: TTL_SEGUNDOS }
+      );
+      entregados++;
+      await SuscripcionModel.updateOne({ _id: suscripcion._id }, { $set: { ultimoEnvio: new Date().toISOString() } });
+    } catch (error) {
+      // El navegador revocó el permiso o la suscripción expiró
+      if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        await SuscripcionModel.deleteOne({ _id: suscripcion._id });
+        errores.push('suscripción expirada');
+      } else {
+        errores.push(error instanceof Error ? error.message : 'error desconocido');
+      }
+    }
+  }
+
+  if (entregados === 0) {
+    throw new Error(`Ninguna suscripción aceptó el push: ${errores.join('; ')}`);
+  }
+  return entregados;
+}
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import type { ReglaAlerta } from '@/types/alerta';
+import { calcularUmbral, evaluarAlertasCultivo, superaUmbral } from './alertas';
+
+/**
+ * Alerta simulada con los campos que usa el motor
+ */
+interface AlertaSimulada {
+  _id: mongoose.Types.ObjectId;
+  reglaId: string;
+  estado: string;
+  valorObservado: number;
+  ultimaDeteccion: string;
+  comentarioId?: string;
+  [campo: string]: unknown;
+}
+
+// Datos que devuelven los modelos simulados
+const db = vi.hoisted(() => ({
+  reglas: [] as object[],
+  lecturas: [] as { fecha: string; temperatura?: number }[],
+  alertas: [] as AlertaSimulada[],
+  comentarios: [] as Record<string, unknown>[],
+  // Alerta que otra evaluación concurrente abre entre la lectura y la inserción
+  alertaConcurrente: false
+}));
+
+const CULTIVO_ID = 'cultivo-1';
+
+/**
+ * Alerta vigente de una regla, como la buscaría findOne
+ */
+const vigente = (reglaId: string) =>
+  db.alertas.find(a => a.reglaId === reglaId && (a.estado === 'abierta' || a.estado === 'reconocida'));
+
+/**
+ * Lecturas de temperatura que cumplen un filtro de fecha ($lt / $gte)
+ */
+const lecturasFiltradas = (filtro: { fecha?: { $lt?: string; $gte?: string } }) =>
+  db.lecturas
+    .filter(l => l.temperatura !== undefined)
+    .filter(l => !filtro.fecha?.$lt || l.fecha < filtro.fecha.$lt)
+    .filter(l => !filtro.fecha?.$gte || l.fecha >= filtro.fecha.$gte);
+
+vi.mock('@/lib/mongodb', () => {
+  // Modelo Alerta: constructor con save() que respeta el índice único parcial
+  class AlertaModel {
+    _id = new mongoose.Types.ObjectId();
+    [campo: string]: unknown;
+
+    constructor(datos: Record<string, unknown>) {
+      Object.assign(this, datos);
+    }
+
+    static findOne = async (filtro: { reglaId: string }) => vigente(filtro.reglaId) ?? null;
+
+    async save() {
+      const alerta = this as unknown as AlertaSimulada;
+      if (db.alertaConcurrente) {
+        db.alertaConcurrente = false;
+        db.alertas.push({ ...alerta, _id: new mongoose.Types.ObjectId() });
+      }
+      const otra = vigente(alerta.reglaId);
+      if (otra && otra !== alerta) throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+      if (!db.alertas.includes(alerta)) db.alertas.push(alerta);
+      return this;
+    }
+  }
+
+  class ComentarioModel {
+    _id = new mongoose.Types.ObjectId();
+
+    static updateOne = async () => ({ modifiedCount: 1 });
+
+    constructor(private datos: Record<string, unknown>) {}
+
+    async save() {
+      db.comentarios.push(this.datos);
+      return this;
+    }
+
+    toJSON() {
+      return this.datos;
+    }
+  }
+
+  return {
+    getReglaAlertaModel: () => ({
+      find: async () => db.reglas.map(regla => ({ toJSON: () => regla }))
+    }),
+    getCultivoModel: () => ({
+      findById: async () => ({ creadoPor: 'ana@canopia.test', organizacionId: 'org-1', toJSON: () => ({ id: CULTIVO_ID }) })
+    }),
+    getLecturaModel: () => ({
+      findOne: (filtro: { fecha?: { $lt?: string } }) => ({
+        sort: async () => lecturasFiltradas(filtro).sort((a, b) => b.fecha.localeCompare(a.fecha))[0] ?? null
+      }),
+      exists: async (filtro: { fecha: { $gte: string }; temperatura: { $lte?: number; $gte?: number } }) =>
+        lecturasFiltradas(filtro).some(l =>
+          filtro.temperatura.$lte !== undefined ? l.temperatura! <= filtro.temperatura.$lte : l.temperatura! >= filtro.temperatura.$gte!
+        ) || null
+    }),
+    getAlertaModel: () => AlertaModel,
+    getComentarioModel: () => ComentarioModel
+  };
+});
+
+vi.mock('@/lib/services/cultivos', () => ({
+  calcularMetricasFases: () => ({ faseActual: 'vegetacion' })
+}));
+
+vi.mock('@/lib/services/lecturas', () => ({
+  getObjetivoVariable: () => 25
+}));
+
+vi.mock('./notificacionesPush', () => ({
+  notificarComentarioCritico: vi.fn(async () => {})
+}));
+
+/**
+ * Regla de temperatura 'mayor' que el objetivo (25 °C) + 2 durante 60 minutos
+ */
+const regla = (datos: Partial<ReglaAlerta> = {}): ReglaAlerta => ({
+  id: 'regla-1',
+  cultivoId: CULTIVO_ID,
+  nombre: 'Calor',
+  variable: 'temperatura',
+  condicion: 'mayor',
+  margen: 2,
+  tipoMargen: 'absoluto',
+  duracionMinutos: 60,
+  prioridad: 'alta',
+  crearComentario: true,
+  activa: true,
+  fechaCreacion: '2026-10-01T00:00:00.000Z',
+  ...datos
+});
+
+/**
+ * Carga lecturas de temperatura a partir de pares [hora UTC, valor]
+ */
+const cargarLecturas = (...lecturas: [string, number][]) => {
+  db.lecturas = lecturas.map(([hora, temperatura]) => ({ fecha: `2026-10-19T${hora}:00.000Z`, temperatura }));
+};
+
+const evaluar = () => evaluarAlertasCultivo({} as mongoose.Connection, CULTIVO_ID);
+
+describe('calcularUmbral', () => {
+  it.each([
+    { condicion: 'mayor', margen: 2, tipoMargen: 'absoluto', objetivo: 25, umbral: 27 },
+    { condicion: 'menor', margen: 2, tipoMargen: 'absoluto', objetivo: 25, umbral: 23 },
+    { condicion: 'mayor', margen: 10, tipoMargen: 'porcentaje', objetivo: 1200, umbral: 1320 },
+    { condicion: 'menor', margen: 10, tipoMargen: 'porcentaje', objetivo: 6.2, umbral: 5.58 },
+    { condicion: 'mayor', margen: 0, tipoMargen: 'absoluto', objetivo: 60, umbral: 60 }
+  ] as const)('$condicion $margen ($tipoMargen) sobre $objetivo → $umbral', ({ objetivo, umbral, ...datos }) => {
+    expect(calcularUmbral(datos, objetivo)).toBe(umbral);
+  });
+});
+
+describe('superaUmbral', () => {
+  it('compara en el sentido de la condición y no cuenta el valor igual al umbral', () => {
+    expect(superaUmbral(27.1, 'mayor', 27)).toBe(true);
+    expect(superaUmbral(27, 'mayor', 27)).toBe(false);
+    expect(superaUmbral(22.9, 'menor', 23)).toBe(true);
+    expect(superaUmbral(23, 'menor', 23)).toBe(false);
+  });
+});
+
+describe('evaluarAlertasCultivo', () => {
+  beforeEach(() => {
+    db.reglas = [regla()];
+    db.lecturas = [];
+    db.alertas = [];
+    db.comentarios = [];
+    db.alertaConcurrente = false;
+  });
+
+  it('abre la alerta y su comentario cuando la desviación cubre toda la ventana', async () => {
+    cargarLecturas(['08:40', 28], ['09:20', 28.5], ['09:50', 29]);
+
+    expect(await evaluar()).toEqual({ abiertas: 1, resueltas: 0 });
+    expect(db.alertas).toHaveLength(1);
+    expect(db.alertas[0]).toMatchObject({ estado: 'abierta', umbral: 27, valorObservado: 29 });
+    expect(db.comentarios).toHaveLength(1);
+    expect(db.alertas[0].comentarioId).toBeDefined();
+  });
+
+  it('no abre la alerta si la lectura previa a la ventana estaba en rango', async () => {
+    cargarLecturas(['08:40', 26], ['09:20', 28.5], ['09:50', 29]);
+
+    expect(await evaluar()).toEqual({ abiertas: 0, resueltas: 0 });
+    expect(db.alertas).toHaveLength(0);
+  });
+
+  it('no abre la alerta si alguna lectura de la ventana volvió al rango', async () => {
+    cargarLecturas(['08:40', 28], ['09:20', 27], ['09:50', 29]);
+
+    expect(await evaluar()).toEqual({ abiertas: 0, resueltas: 0 });
+  });
+
+  it('no abre la alerta sin lecturas anteriores a la ventana', async () => {
+    cargarLecturas(['09:20', 28.5], ['09:50', 29]);
+
+    expect(await evaluar()).toEqual({ abiertas: 0, resueltas: 0 });
+  });
+
+  it('con duración 0 abre la alerta con la última lectura', async () => {
+    db.reglas = [regla({ duracionMinutos: 0 })];
+    cargarLecturas(['08:50', 20], ['09:50', 28]);
+
+    expect(await evaluar()).toEqual({ abiertas: 1, resueltas: 0 });
+  });
+
+  it('actualiza la alerta vigente en lugar de abrir otra', async () => {
+    cargarLecturas(['08:40', 28], ['09:20', 28.5], ['09:50', 29]);
+    await evaluar();
+    cargarLecturas(['08:40', 28], ['09:20', 28.5], ['09:50', 29], ['10:20', 30]);
+
+    expect(await evaluar()).toEqual({ abiertas: 0, resueltas: 0 });
+    expect(db.alertas).toHaveLength(1);
+    expect(db.alertas[0]).toMatchObject({ valorObservado: 30, ultimaDeteccion: '2026-10-19T10:20:00.000Z' });
+    expect(db.comentarios).toHaveLength(1);
+  });
+
+  it('resuelve la alerta vigente cuando la última lectura vuelve al rango', async () => {
+    cargarLecturas(['08:40', 28], ['09:20', 28.5], ['09:50', 29]);
+    await evaluar();
+    cargarLecturas(['08:40', 28], ['09:20', 28.5], ['09:50', 29], ['10:20', 26]);
+
+    expect(await evaluar()).toEqual({ abiertas: 0, resueltas: 1 });
+    expect(db.alertas[0]).toMatchObject({ estado: 'resuelta', resueltaPor: 'sistema' });
+  });
+
+  it('si otra evaluación abrió la alerta primero no la duplica ni comenta', async () => {
+    cargarLecturas(['08:40', 28], ['09:20', 28.5], ['09:50', 29]);
+    db.alertaConcurrente = true;
+
+    expect(await evaluar()).toEqual({ abiertas: 0, resueltas: 0 });
+    expect(db.alertas).toHaveLength(1);
+    expect(db.comentarios).toHaveLength(0);
+  });
+});
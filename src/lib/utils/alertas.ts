@@ -0,0 +1,227 @@
+/**
+ * Motor de alertas por umbral
+ *
+ * Compara las lecturas de un cultivo con los objetivos de su fase actual
+ * (según calcularMetricasFases) y mantiene el ciclo de vida de las alertas.
+ *
+ * Reglas de evaluación:
+ * - El umbral es el objetivo de la fase ± el margen de la regla
+ * - Una alerta se abre cuando todas las lecturas de la ventana (duracionMinutos
+ *   hasta la última lectura) y la lectura previa a la ventana superan el umbral
+ * - Una alerta abierta o reconocida se resuelve sola cuando la última lectura vuelve al rango
+ * - Si la regla lo indica, al abrirse se crea un comentario tipo 'problema'
+ * - Cada regla tiene a lo sumo una alerta vigente (índice único parcial en Alerta)
+ */
+
+import type mongoose from 'mongoose';
+import type { Cultivo } from '@/types/cultivo';
+import type { ReglaAlerta, VariableAlerta } from '@/types/alerta';
+import { getCultivoModel, getLecturaModel, getReglaAlertaModel, getAlertaModel, getComentarioModel } from '@/lib/mongodb';
+import { calcularMetricasFases } from '@/lib/services/cultivos';
+import { getObjetivoVariable } from '@/lib/services/lecturas';
+import { notificarComentarioCritico } from './notificacionesPush';
+
+/**
+ * Autor usado en los comentarios generados automáticamente
+ */
+const AUTOR_ALERTAS = 'Sistema de alertas';
+
+/**
+ * Etiquetas legibles de cada variable vigilada
+ */
+const ETIQUETAS_VARIABLE: Record<VariableAlerta, { nombre: string; unidad: string }> = {
+  temperatura: { nombre: 'Temperatura', unidad: '°C' },
+  humedad: { nombre: 'Humedad', unidad: '%' },
+  ec: { nombre: 'EC', unidad: ' ppm' },
+  ph: { nombre: 'pH', unidad: '' }
+};
+
+/**
+ * Resultado de evaluar las reglas de un cultivo
+ */
+export interface ResultadoEvaluacionAlertas {
+  abiertas: number;              // Alertas nuevas abiertas en esta evaluación
+  resueltas: number;             // Alertas resueltas automáticamente
+}
+
+/**
+ * Calcula el umbral de una regla a partir del objetivo de la fase
+ * @param regla - Regla de alerta
+ * @param objetivo - Objetivo de la variable en la fase actual
+ */
+export function calcularUmbral(regla: Pick<ReglaAlerta, 'condicion' | 'margen' | 'tipoMargen'>, objetivo: number): number {
+  const margen = regla.tipoMargen === 'porcentaje' ? objetivo * regla.margen / 100 : regla.margen;
+  const umbral = regla.condicion === 'mayor' ? objetivo + margen : objetivo - margen;
+  return Math.round(umbral * 100) / 100;
+}
+
+/**
+ * Indica si un valor medido está fuera del umbral de la regla
+ */
+export function superaUmbral(valor: number, condicion: ReglaAlerta['condicion'], umbral: number): boolean {
+  return condicion === 'mayor' ? valor > umbral : valor < umbral;
+}
+
+/**
+ * Marca como resuelto el comentario asociado a una alerta
+ * @param connection - Conexión a la base de datos
+ * @param comentarioId - ID del comentario generado por la alerta
+ * @param resueltoPor - Email de quien resolvió (omitido si fue automática)
+ */
+export async function resolverComentarioAlerta(
+  connection: mongoose.Connection,
+  comentarioId: string | undefined,
+  resueltoPor?: string
+): Promise<void> {
+  if (!comentarioId) return;
+
+  const ahora = new Date().toISOString();
+  await getComentarioModel(connection).updateOne(
+    { _id: comentarioId },
+    { $set: { resuelto: true, fechaResolucion: ahora, fechaActualizacion: ahora, ...(resueltoPor && { resuelto_por: resueltoPor }) } }
+  );
+}
+
+/**
+ * Evalúa todas las reglas activas de un cultivo contra sus lecturas
+ *
+ * Quien llama debe haber verificado el acceso al cultivo: las reglas y lecturas
+ * se toman por cultivo, sin importar qué miembro o invitado las cargó.
+ *
+ * @param connection - Conexión a la base de datos
+ * @param cultivoId - ID del cultivo a evaluar
+ * @returns Cantidad de alertas abiertas y resueltas
+ */
+export async function evaluarAlertasCultivo(
+  connection: mongoose.Connection,
+  cultivoId: string
+): Promise<ResultadoEvaluacionAlertas> {
+  const resultado: ResultadoEvaluacionAlertas = { abiertas: 0, resueltas: 0 };
+
+  const ReglaAlertaModel = getReglaAlertaModel(connection);
+  const reglasDocs = await ReglaAlertaModel.find({ cultivoId, activa: true });
+  if (reglasDocs.length === 0) return resultado;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const CultivoModel = getCultivoModel(connection) as any;
+  const cultivoDoc = await CultivoModel.findById(cultivoId);
+  if (!cultivoDoc) return resultado;
+
+  const cultivo = cultivoDoc.toJSON() as Cultivo;
+  const creadoPor: string = cultivoDoc.creadoPor; // Las alertas quedan a nombre del dueño del cultivo
+  const { faseActual } = calcularMetricasFases(cultivo);
+
+  const LecturaModel = getLecturaModel(connection);
+  const AlertaModel = getAlertaModel(connection);
+
+  for (const reglaDoc of reglasDocs) {
+    const regla = reglaDoc.toJSON() as ReglaAlerta;
+    const { variable } = regla;
+
+    const objetivo = getObjetivoVariable(cultivo, variable);
+    if (objetivo === undefined) continue; // Sin objetivo configurado no hay con qué comparar
+
+    const umbral = calcularUmbral(regla, objetivo);
+    const filtroVariable = { cultivoId, [variable]: { $ne: null } };
+
+    const ultima = await LecturaModel.findOne(filtroVariable).sort({ fecha: -1 });
+    if (!ultima) continue;
+
+    const valorUltimo = ultima[variable] as number;
+    const alertaVigente = await AlertaModel.findOne({ reglaId: regla.id, estado: { $in: ['abierta', 'reconocida'] } });
+
+    // La última lectura volvió al rango: resolver la alerta vigente
+    if (!superaUmbral(valorUltimo, regla.condicion, umbral)) {
+      if (alertaVigente) {
+        alertaVigente.estado = 'resuelta';
+        alertaVigente.fechaResolucion = new Date().toISOString();
+        alertaVigente.resueltaPor = 'sistema';
+        await alertaVigente.save();
+        await resolverComentarioAlerta(connection, alertaVigente.comentarioId);
+        resultado.resueltas++;
+      }
+      continue;
+    }
+
+    // La desviación continúa: actualizar la alerta vigente
+    if (alertaVigente) {
+      alertaVigente.valorObservado = valorUltimo;
+      alertaVigente.ultimaDeteccion = ultima.fecha;
+      await alertaVigente.save();
+      continue;
+    }
+
+    // Verificar que la desviación se sostuvo durante toda la ventana
+    if (regla.duracionMinutos > 0) {
+      const inicioVentana = new Date(new Date(ultima.fecha).getTime() - regla.duracionMinutos * 60000).toISOString();
+
+      const anterior = await LecturaModel.findOne({ ...filtroVariable, fecha: { $lt: inicioVentana } }).sort({ fecha: -1 });
+      if (!anterior || !superaUmbral(anterior[variable] as number, regla.condicion, umbral)) continue;
+
+      const dentroDeRango = await LecturaModel.exists({
+        ...filtroVariable,
+        fecha: { $gte: inicioVentana },
+        [variable]: regla.condicion === 'mayor' ? { $lte: umbral } : { $gte: umbral }
+      });
+      if (dentroDeRango) continue;
+    }
+
+    const { nombre, unidad } = ETIQUETAS_VARIABLE[variable];
+    const sentido = regla.condicion === 'mayor' ? 'por encima de' : 'por debajo de';
+    const mensaje = `${nombre} ${valorUltimo}${unidad} ${sentido} ${umbral}${unidad} (objetivo de ${faseActual === 'floracion' ? 'floración' : 'vegetación'}: ${objetivo}${unidad})` +
+      (regla.duracionMinutos > 0 ? ` durante al menos ${regla.duracionMinutos} minutos` : '');
+
+    const ahora = new Date().toISOString();
+    const nuevaAlerta = new AlertaModel({
+      cultivoId,
+      reglaId: regla.id,
+      variable,
+      fase: faseActual,
+      objetivo,
+      umbral,
+      valorObservado: valorUltimo,
+      mensaje,
+      prioridad: regla.prioridad,
+      estado: 'abierta',
+      fechaApertura: ahora,
+      ultimaDeteccion: ultima.fecha,
+      creadoPor // 🔒 Se asigna al dueño del cultivo
+    });
+
+    // 🔒 El índice único parcial impide una segunda alerta vigente de la misma regla:
+    // si otra evaluación concurrente la abrió primero, no se duplica ni se comenta
+    try {
+      await nuevaAlerta.save();
+    } catch (saveError) {
+      if ((saveError as { code?: number })?.code === 11000) continue;
+      throw saveError;
+    }
+    resultado.abiertas++;
+
+    // Registrar el problema en los comentarios del cultivo
+    if (regla.crearComentario) {
+      const ComentarioModel = getComentarioModel(connection);
+      const comentario = await new ComentarioModel({
+        cultivoId,
+        titulo: `Alerta: ${regla.nombre}`.slice(0, 100),
+        contenido: mensaje,
+        autor: AUTOR_ALERTAS,
+        fecha: ahora,
+        tipo: 'problema',
+        prioridad: regla.prioridad,
+        tags: ['alerta', variable],
+        resuelto: false,
+        activo: true,
+        destacado: false,
+        numeroEdiciones: 0,
+        creadoPor, // 🔒 Se asigna al dueño del cultivo
+        organizacionId: cultivoDoc.organizacionId // 🔒 Y a la organización dueña del cultivo
+      }).save();
+      nuevaAlerta.comentarioId = comentario._id.toString();
+      await nuevaAlerta.save();
+      await notificarComentarioCritico(connection, { ...comentario.toJSON(), id: nuevaAlerta.comentarioId });
+    }
+  }
+
+  return resultado;
+}
@@ -0,0 +1,69 @@
+/**
+ * Presupuesto de tamaño del contexto del cultivo que se envía a la IA
+ *
+ * El cliente arma el contexto (ver prepararContextoCultivo en src/lib/services/chat.ts)
+ * y lo recorta con aplicarPresupuestoContexto; las rutas de IA vuelven a aplicarlo
+ * antes de llamar al proveedor porque el body lo controla el cliente.
+ */
+
+import type { ContextoCultivo } from '@/types/chat';
+
+// Tamaño máximo del contexto serializado (caracteres de JSON)
+export const MAX_CARACTERES_CONTEXTO = 8000;
+
+/**
+ * Acorta un texto a la cantidad de caracteres indicada
+ */
+export const acortar = (texto: string, maximo: number): string =>
+  texto.length > maximo ? `${texto.slice(0, maximo - 1).trimEnd()}…` : texto;
+
+/**
+ * Recortes que se aplican en orden hasta que el contexto entra en el presupuesto
+ * Primero se sacrifica lo más prescindible (galería, detalle de comentarios) y al final las notas
+ */
+const RECORTES_CONTEXTO: [string, (contexto: ContextoCultivo) => ContextoCultivo][] = [
+  ['galeriaImagenes', c => ({ ...c, galeriaImagenes: c.galeriaImagenes?.slice(-3) })],
+  ['historial.comentarios', c => c.historial
+    ? { ...c, historial: { ...c.historial, comentarios: c.historial.comentarios?.slice(0, 2).map(x => ({ ...x, resumen: acortar(x.resumen, 80) })) } }
+    : c],
+  ['tareas', c => c.tareas
+    ? { ...c, tareas: { vencidas: c.tareas.vencidas.slice(0, 3), proximas: c.tareas.proximas.slice(0, 3) } }
+    : c],
+  ['historial.tareasCompletadas', c => c.historial ? { ...c, historial: { ...c.historial, tareasCompletadas: undefined } } : c],
+  ['galeriaImagenes', c => ({ ...c, galeriaImagenes: undefined })],
+  ['notas', c => ({ ...c, notas: c.notas && acortar(c.notas, 500) })],
+  ['historial.comentarios', c => c.historial ? { ...c, historial: { ...c.historial, comentarios: undefined } } : c]
+];
+
+/**
+ * Ajusta el contexto al tamaño máximo, registrando en `recortes` qué secciones se achicaron
+ * Si después de todos los recortes sigue excediendo, el resultado queda por encima del
+ * máximo: quien lo use debe comprobarlo con excedePresupuestoContexto
+ */
+export function aplicarPresupuestoContexto(
+  contexto: ContextoCultivo,
+  maxCaracteres: number = MAX_CARACTERES_CONTEXTO
+): ContextoCultivo {
+  let resultado = contexto;
+  const recortes = new Set<string>(contexto.recortes ?? []);
+
+  let tamano = JSON.stringify(resultado).length;
+
+  for (const [seccion, recortar] of RECORTES_CONTEXTO) {
+    if (tamano <= maxCaracteres) break;
+    resultado = recortar(resultado);
+    const nuevoTamano = JSON.stringify(resultado).length;
+    if (nuevoTamano < tamano) recortes.add(seccion);
+    tamano = nuevoTamano;
+  }
+
+  return recortes.size > 0 ? { ...resultado, recortes: [...recortes] } : resultado;
+}
+
+/**
+ * Indica si el contexto serializado supera el tamaño máximo
+ */
+export const excedePresupuestoContexto = (
+  contexto: ContextoCultivo,
+  maxCaracteres: number = MAX_CARACTERES_CONTEXTO
+): boolean => JSON.stringify(contexto).length > maxCaracteres;
@@ -0,0 +1,84 @@
+/**
+ * Métricas de rendimiento de una cosecha
+ *
+ * Calcula el rendimiento por superficie, por watt y por planta a partir del peso
+ * seco y de los datos del cultivo (metrosCuadrados, potenciaLamparas, numeroplantas),
+ * además de la pérdida de peso en el secado y la duración de secado y curado.
+ * Se usa en la API de cosechas y en el panel del cultivo.
+ */
+
+import type { Cultivo } from '@/types/cultivo';
+import type { Cosecha, CosechaConMetricas, MetricasCosecha } from '@/types/cosecha';
+
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+/**
+ * Redondea a la cantidad de decimales indicada
+ */
+const redondear = (valor: number, decimales = 2): number => {
+  const factor = Math.pow(10, decimales);
+  return Math.round(valor * factor) / factor;
+};
+
+/**
+ * Divide solo si ambos valores existen y el divisor es positivo
+ */
+const dividir = (dividendo?: number, divisor?: number, decimales = 2): number | null => {
+  if (dividendo === undefined || dividendo === null || !divisor || divisor <= 0) return null;
+  return redondear(dividendo / divisor, decimales);
+};
+
+/**
+ * Días entre dos fechas YYYY-MM-DD (null si falta alguna o están invertidas)
+ */
+export const diasEntre = (desde?: string, hasta?: string): number | null => {
+  if (!desde || !hasta) return null;
+  const dias = Math.round((Date.parse(hasta) - Date.parse(desde)) / MS_POR_DIA);
+  return Number.isNaN(dias) || dias < 0 ? null : dias;
+};
+
+/**
+ * Calcula las métricas de rendimiento de una cosecha
+ * @param cosecha - Pesos y fechas registrados
+ * @param cultivo - Datos del cultivo (superficie, potencia y plantas)
+ * @returns Métricas; cada una es null si faltan datos para calcularla
+ */
+export function calcularMetricasCosecha(
+  cosecha: Pick<Cosecha, 'fechaCorte' | 'pesoHumedo' | 'pesoSeco' | 'pesoTrim' | 'fechaInicioSecado' | 'fechaFinSecado' | 'fechaInicioCurado' | 'fechaFinCurado'>,
+  cultivo: Pick<Cultivo, 'metrosCuadrados' | 'potenciaLamparas' | 'numeroplantas' | 'fechaComienzo'>
+): MetricasCosecha {
+  const { pesoHumedo, pesoSeco, pesoTrim } = cosecha;
+
+  const porcentajePerdidaSecado = pesoHumedo && pesoSeco !== undefined && pesoSeco !== null && pesoHumedo > 0
+    ? redondear((1 - pesoSeco / pesoHumedo) * 100, 1)
+    : null;
+
+  const totalSeco = (pesoSeco ?? 0) + (pesoTrim ?? 0);
+  const proporcionTrim = pesoTrim !== undefined && pesoTrim !== null && totalSeco > 0
+    ? redondear((pesoTrim / totalSeco) * 100, 1)
+    : null;
+
+  return {
+    gramosPorM2: dividir(pesoSeco, cultivo.metrosCuadrados, 1),
+    gramosPorWatt: dividir(pesoSeco, cultivo.potenciaLamparas),
+    gramosPorPlanta: dividir(pesoSeco, cultivo.numeroplantas, 1),
+    porcentajePerdidaSecado,
+    proporcionTrim,
+    diasSecado: diasEntre(cosecha.fechaInicioSecado ?? cosecha.fechaCorte, cosecha.fechaFinSecado),
+    diasCurado: diasEntre(cosecha.fechaInicioCurado, cosecha.fechaFinCurado),
+    diasCicloTotal: diasEntre(cultivo.fechaComienzo, cosecha.fechaCorte)
+  };
+}
+
+/**
+ * Agrega las métricas calculadas a una cosecha
+ * @param cosecha - Cosecha guardada
+ * @param cultivo - Cultivo al que pertenece
+ */
+export const conMetricas = (
+  cosecha: Cosecha,
+  cultivo: Pick<Cultivo, 'metrosCuadrados' | 'potenciaLamparas' | 'numeroplantas' | 'fechaComienzo'>
+): CosechaConMetricas => ({
+  ...cosecha,
+  metricas: calcularMetricasCosecha(cosecha, cultivo)
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type mongoose from 'mongoose';
+import type { UsoCuotaIA } from '@/types/cuotaIA';
+import {
+  CUOTAS_IA_POR_PLAN,
+  limitesParaUsuario,
+  obtenerUsoIA,
+  periodoActual,
+  registrarConsumoIA,
+  reservarCuotaIA,
+  verificarCuotaIA
+} from './cuotasIA';
+
+/**
+ * Contador mensual simulado con los campos que usa cuotasIA.ts
+ */
+interface ConsumoSimulado {
+  usuarioEmail: string;
+  periodo: string;
+  tokensTotal: number;
+  analisisImagenes: number;
+  mensajes: number;
+}
+
+// Datos que devuelven los modelos simulados
+const db = vi.hoisted(() => ({
+  consumos: [] as ConsumoSimulado[],
+  usuarios: [] as Record<string, unknown>[]
+}));
+
+/**
+ * Indica si un contador cumple el filtro (igualdad, $lt y $lte)
+ */
+const cumpleFiltro = (consumo: ConsumoSimulado, filtro: Record<string, unknown>) =>
+  Object.entries(filtro).every(([campo, condicion]) => {
+    const valor = consumo[campo as keyof ConsumoSimulado];
+    if (condicion && typeof condicion === 'object') {
+      const { $lt, $lte } = condicion as { $lt?: number; $lte?: number };
+      return ($lt === undefined || (valor as number) < $lt) && ($lte === undefined || (valor as number) <= $lte);
+    }
+    return valor === condicion;
+  });
+
+/**
+ * Aplica un $inc al contador
+ */
+const incrementar = (consumo: ConsumoSimulado, $inc: Record<string, number> = {}) => {
+  Object.entries($inc).forEach(([campo, cantidad]) => {
+    const actual = (consumo as unknown as Record<string, number>)[campo] ?? 0;
+    (consumo as unknown as Record<string, number>)[campo] = actual + cantidad;
+  });
+};
+
+vi.mock('@/lib/mongodb', () => ({
+  getUsuarioModel: () => ({
+    findOne: (filtro: { email: string }) => {
+      const query = { select: () => query, lean: async () => db.usuarios.find(u => u.email === filtro.email) ?? null };
+      return query;
+    }
+  }),
+  getConsumoIAModel: () => ({
+    findOne: (filtro: Record<string, unknown>) => ({
+      lean: async () => db.consumos.find(c => cumpleFiltro(c, filtro)) ?? null
+    }),
+    updateOne: async (filtro: { usuarioEmail: string; periodo: string }, cambios: { $inc?: Record<string, number> }) => {
+      let consumo = db.consumos.find(c => cumpleFiltro(c, filtro));
+      if (!consumo) {
+        consumo = { ...filtro, tokensTotal: 0, analisisImagenes: 0, mensajes: 0 };
+        db.consumos.push(consumo);
+      }
+      incrementar(consumo, cambios.$inc);
+    },
+    findOneAndUpdate: (filtro: Record<string, unknown>, cambios: { $inc: Record<string, number> }) => ({
+      lean: async () => {
+        const consumo = db.consumos.find(c => cumpleFiltro(c, filtro));
+        if (!consumo) return null;
+        incrementar(consumo, cambios.$inc);
+        return { ...consumo };
+      }
+    })
+  })
+}));
+
+const EMAIL = 'ana@canopia.test';
+const conexion = {} as mongoose.Connection;
+
+/**
+ * Uso del período con los contadores y límites indicados
+ */
+const uso = (tokens: [number, number | null], imagenes: [number, number | null]): UsoCuotaIA => ({
+  periodo: '2026-10',
+  plan: 'trial',
+  tokens: { usados: tokens[0], limite: tokens[1] },
+  analisisImagenes: { usados: imagenes[0], limite: imagenes[1] },
+  mensajes: 0,
+  reinicio: '2026-11-01T00:00:00.000Z'
+});
+
+describe('limitesParaUsuario', () => {
+  const AHORA = new Date('2026-10-19T12:00:00Z');
+
+  it.each(['trial', 'active', 'past_due', 'canceled', 'unpaid'] as const)('aplica los límites del plan %s', plan => {
+    expect(limitesParaUsuario({ subscriptionStatus: plan }, AHORA)).toEqual({ plan, limites: CUOTAS_IA_POR_PLAN[plan] });
+  });
+
+  it('sin estado de suscripción usa el plan de prueba', () => {
+    expect(limitesParaUsuario({}, AHORA)).toEqual({ plan: 'trial', limites: CUOTAS_IA_POR_PLAN.trial });
+    expect(limitesParaUsuario(null, AHORA)).toEqual({ plan: 'trial', limites: CUOTAS_IA_POR_PLAN.trial });
+  });
+
+  it('con la prueba vencida no queda cuota', () => {
+    const resultado = limitesParaUsuario({ subscriptionStatus: 'trial', trialEndDate: '2026-10-19T11:59:59Z' }, AHORA);
+    expect(resultado.limites).toEqual({ tokensMensuales: 0, analisisImagenesMensuales: 0 });
+  });
+
+  it('con la prueba vigente mantiene la cuota de prueba', () => {
+    const resultado = limitesParaUsuario({ subscriptionStatus: 'trial', trialEndDate: '2026-10-20T00:00:00Z' }, AHORA);
+    expect(resultado.limites).toEqual(CUOTAS_IA_POR_PLAN.trial);
+  });
+
+  it('los usuarios exentos no tienen límite sea cual sea su suscripción', () => {
+    expect(limitesParaUsuario({ exemptFromPayments: true, subscriptionStatus: 'canceled' }, AHORA)).toEqual({
+      plan: 'exento',
+      limites: { tokensMensuales: null, analisisImagenesMensuales: null }
+    });
+  });
+});
+
+describe('verificarCuotaIA', () => {
+  it('agota los tokens al llegar al límite, sin esperar a superarlo', () => {
+    expect(verificarCuotaIA(uso([49_999, 50_000], [0, 10]))).toBeNull();
+    expect(verificarCuotaIA(uso([50_000, 50_000], [0, 10]))).toBe('tokens');
+  });
+
+  it('cuenta las imágenes pedidas junto con las ya analizadas', () => {
+    expect(verificarCuotaIA(uso([0, 50_000], [8, 10]), 2)).toBeNull();
+    expect(verificarCuotaIA(uso([0, 50_000], [9, 10]), 2)).toBe('analisisImagenes');
+    expect(verificarCuotaIA(uso([0, 50_000], [10, 10]))).toBeNull(); // Sin imágenes no se controla ese recurso
+  });
+
+  it('no limita los recursos sin límite', () => {
+    expect(verificarCuotaIA(uso([5_000_000, null], [500, null]), 3)).toBeNull();
+  });
+});
+
+describe('cambio de mes', () => {
+  beforeEach(() => {
+    db.consumos = [];
+    db.usuarios = [{ email: EMAIL, role: 'admin', subscriptionStatus: 'trial', activo: true }];
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('el período es el mes UTC', () => {
+    expect(periodoActual(new Date('2026-10-31T23:59:59Z'))).toBe('2026-10');
+    expect(periodoActual(new Date('2026-11-01T00:00:00Z'))).toBe('2026-11');
+    expect(periodoActual(new Date('2026-12-31T23:30:00-03:00'))).toBe('2027-01');
+  });
+
+  it('la cuota agotada en un mes se renueva al empezar el siguiente', async () => {
+    vi.setSystemTime(new Date('2026-10-31T23:59:00Z'));
+    await registrarConsumoIA(conexion, EMAIL, { prompt: 40_000, completion: 10_000, total: 50_000 });
+
+    const octubre = await obtenerUsoIA(conexion, EMAIL);
+    expect(octubre.reinicio).toBe('2026-11-01T00:00:00.000Z');
+    expect(verificarCuotaIA(octubre)).toBe('tokens');
+
+    vi.setSystemTime(new Date('2026-11-01T00:00:01Z'));
+    const noviembre = await obtenerUsoIA(conexion, EMAIL);
+    expect(noviembre).toMatchObject({ periodo: '2026-11', tokens: { usados: 0, limite: 50_000 } });
+    expect(verificarCuotaIA(noviembre)).toBeNull();
+  });
+});
+
+describe('reservarCuotaIA', () => {
+  beforeEach(() => {
+    db.consumos = [];
+    db.usuarios = [{ email: EMAIL, role: 'admin', subscriptionStatus: 'trial', activo: true }];
+  });
+
+  it('reserva la imagen y el mensaje mientras queda saldo', async () => {
+    const { uso: reservado, recursoAgotado } = await reservarCuotaIA(conexion, EMAIL, 1);
+
+    expect(recursoAgotado).toBeNull();
+    expect(reservado).toMatchObject({ mensajes: 1, analisisImagenes: { usados: 1, limite: 10 } });
+  });
+
+  it('rechaza la reserva con los tokens en el límite y no descuenta nada', async () => {
+    db.consumos = [{ usuarioEmail: EMAIL, periodo: periodoActual(), tokensTotal: 50_000, analisisImagenes: 0, mensajes: 7 }];
+
+    const { uso: actual, recursoAgotado } = await reservarCuotaIA(conexion, EMAIL);
+
+    expect(recursoAgotado).toBe('tokens');
+    expect(actual.tokens).toEqual({ usados: 50_000, limite: 50_000 });
+    expect(db.consumos[0].mensajes).toBe(7);
+  });
+
+  it('rechaza la reserva si las imágenes pedidas superan el saldo', async () => {
+    db.consumos = [{ usuarioEmail: EMAIL, periodo: periodoActual(), tokensTotal: 0, analisisImagenes: 9, mensajes: 3 }];
+
+    const { recursoAgotado } = await reservarCuotaIA(conexion, EMAIL, 2);
+
+    expect(recursoAgotado).toBe('analisisImagenes');
+    expect(db.consumos[0]).toMatchObject({ analisisImagenes: 9, mensajes: 3 });
+  });
+
+  it('los usuarios creados por un admin usan la cuota de su suscripción', async () => {
+    db.usuarios = [
+      { email: 'admin@canopia.test', role: 'admin', subscriptionStatus: 'canceled', activo: true },
+      { email: EMAIL, role: 'user', creadoPor: 'admin@canopia.test', subscriptionStatus: 'active', activo: true }
+    ];
+
+    const { uso: actual, recursoAgotado } = await reservarCuotaIA(conexion, EMAIL);
+
+    expect(actual.plan).toBe('canceled');
+    expect(recursoAgotado).toBe('tokens');
+  });
+});
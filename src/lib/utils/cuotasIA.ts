@@ -0,0 +1,236 @@
+/**
+ * Cuotas mensuales de IA por plan
+ *
+ * Cada usuario acumula en ConsumoIA los tokens y las imágenes analizadas del mes.
+ * Los límites dependen de la suscripción efectiva (la del admin que lo creó, para
+ * los usuarios de una organización, igual que en requireAuth): el trial vigente
+ * tiene una cuota reducida, una suscripción activa una amplia y los usuarios
+ * exentos de pagos no tienen límite. Se usa en /api/chat, /api/chat/stream,
+ * /api/chat/recomendaciones, los diagnósticos y /api/chat/uso.
+ *
+ * Flujo de una petición: reservarCuotaIA verifica y descuenta la imagen y el mensaje
+ * en una sola operación atómica; registrarConsumoIA suma los tokens cuando se conocen.
+ */
+
+import mongoose from 'mongoose';
+import { getConsumoIAModel, getUsuarioModel } from '@/lib/mongodb';
+import type { TokensUsados } from '@/types/chat';
+import type { EstadoSuscripcion, ErrorCuotaIA, LimitesCuotaIA, RecursoCuotaIA, UsoCuotaIA } from '@/types/cuotaIA';
+
+/**
+ * Límites mensuales por estado de suscripción
+ * Con pagos pendientes se mantiene una cuota mínima para no cortar de golpe el servicio
+ */
+export const CUOTAS_IA_POR_PLAN: Record<EstadoSuscripcion, LimitesCuotaIA> = {
+  trial: { tokensMensuales: 50_000, analisisImagenesMensuales: 10 },
+  active: { tokensMensuales: 1_000_000, analisisImagenesMensuales: 200 },
+  past_due: { tokensMensuales: 10_000, analisisImagenesMensuales: 2 },
+  canceled: { tokensMensuales: 0, analisisImagenesMensuales: 0 },
+  unpaid: { tokensMensuales: 0, analisisImagenesMensuales: 0 }
+};
+
+// Sin límite para usuarios exentos de pagos
+const SIN_LIMITE: LimitesCuotaIA = { tokensMensuales: null, analisisImagenesMensuales: null };
+
+// Prueba vencida: sin cuota hasta activar la suscripción
+const SIN_CUOTA: LimitesCuotaIA = { tokensMensuales: 0, analisisImagenesMensuales: 0 };
+
+// Campos del usuario que determinan los límites
+const CAMPOS_SUSCRIPCION = 'role creadoPor subscriptionStatus trialEndDate exemptFromPayments';
+
+/**
+ * Período de consumo (mes UTC) de una fecha, en formato YYYY-MM
+ */
+export const periodoActual = (fecha: Date = new Date()): string =>
+  `${fecha.getUTCFullYear()}-${String(fecha.getUTCMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * Fecha en que se reinician los contadores (primer día del mes siguiente, UTC)
+ */
+const inicioPeriodoSiguiente = (fecha: Date = new Date()): string =>
+  new Date(Date.UTC(fecha.getUTCFullYear(), fecha.getUTCMonth() + 1, 1)).toISOString();
+
+/**
+ * Plan y límites que corresponden a la suscripción de un usuario
+ * Con la prueba vencida (trialEndDate pasado) no queda cuota
+ */
+export const limitesParaUsuario = (usuario: {
+  subscriptionStatus?: EstadoSuscripcion;
+  trialEndDate?: string;
+  exemptFromPayments?: boolean;
+} | null, ahora: Date = new Date()): { plan: UsoCuotaIA['plan']; limites: LimitesCuotaIA } => {
+  if (usuario?.exemptFromPayments) {
+    return { plan: 'exento', limites: SIN_LIMITE };
+  }
+  const plan = usuario?.subscriptionStatus ?? 'trial';
+  if (plan === 'trial' && usuario?.trialEndDate && new Date(usuario.trialEndDate) <= ahora) {
+    return { plan, limites: SIN_CUOTA };
+  }
+  return { plan, limites: CUOTAS_IA_POR_PLAN[plan] ?? CUOTAS_IA_POR_PLAN.trial };
+};
+
+/**
+ * Plan y límites de la suscripción efectiva del usuario
+ * Los usuarios creados por un admin usan la suscripción de ese admin (como requireAuth)
+ */
+async function limitesEfectivos(
+  connection: mongoose.Connection,
+  email: string
+): Promise<{ plan: UsoCuotaIA['plan']; limites: LimitesCuotaIA }> {
+  const UsuarioModel = getUsuarioModel(connection);
+  const usuario = await UsuarioModel
+    .findOne({ email: email.toLowerCase(), activo: true })
+    .select(CAMPOS_SUSCRIPCION)
+    .lean();
+
+  const titular = usuario?.role === 'user' && usuario.creadoPor
+    ? await UsuarioModel.findOne({ email: usuario.creadoPor, activo: true }).select(CAMPOS_SUSCRIPCION).lean()
+    : usuario;
+
+  return limitesParaUsuario(titular);
+}
+
+/**
+ * Arma el uso del período a partir del contador y los límites
+ */
+const construirUso = (
+  periodo: string,
+  { plan, limites }: { plan: UsoCuotaIA['plan']; limites: LimitesCuotaIA },
+  consumo: { tokensTotal?: number; analisisImagenes?: number; mensajes?: number } | null
+): UsoCuotaIA => ({
+  periodo,
+  plan,
+  tokens: { usados: consumo?.tokensTotal ?? 0, limite: limites.tokensMensuales },
+  analisisImagenes: { usados: consumo?.analisisImagenes ?? 0, limite: limites.analisisImagenesMensuales },
+  mensajes: consumo?.mensajes ?? 0,
+  reinicio: inicioPeriodoSiguiente()
+});
+
+/**
+ * Obtiene el uso del período actual y los límites del plan del usuario
+ */
+export async function obtenerUsoIA(connection: mongoose.Connection, email: string): Promise<UsoCuotaIA> {
+  const periodo = periodoActual();
+  const [limites, consumo] = await Promise.all([
+    limitesEfectivos(connection, email),
+    getConsumoIAModel(connection)
+      .findOne({ usuarioEmail: email.toLowerCase(), periodo })
+      .lean()
+  ]);
+
+  return construirUso(periodo, limites, consumo);
+}
+
+/**
+ * Verifica si una petición entra en la cuota
+ * Los tokens se controlan sobre lo ya consumido (no se conoce de antemano el costo de la respuesta);
+ * las imágenes, sobre lo consumido más las que trae la petición.
+ *
+ * @returns El recurso agotado, o null si la petición puede continuar
+ */
+export const verificarCuotaIA = (uso: UsoCuotaIA, imagenesSolicitadas = 0): RecursoCuotaIA | null => {
+  if (uso.tokens.limite !== null && uso.tokens.usados >= uso.tokens.limite) {
+    return 'tokens';
+  }
+  if (
+    imagenesSolicitadas > 0 &&
+    uso.analisisImagenes.limite !== null &&
+    uso.analisisImagenes.usados + imagenesSolicitadas > uso.analisisImagenes.limite
+  ) {
+    return 'analisisImagenes';
+  }
+  return null;
+};
+
+/**
+ * Cuerpo de la respuesta 429 cuando se agota la cuota
+ */
+export const crearErrorCuotaIA = (recurso: RecursoCuotaIA, uso: UsoCuotaIA): ErrorCuotaIA => {
+  const reinicio = new Date(uso.reinicio).toLocaleDateString('es-ES', { timeZone: 'UTC' });
+  return {
+    success: false,
+    error: 'Cuota de IA agotada',
+    codigo: 'CUOTA_IA_EXCEDIDA',
+    recurso,
+    message: recurso === 'tokens'
+      ? `Alcanzaste el límite mensual de ${uso.tokens.limite?.toLocaleString('es-ES')} tokens de tu plan. Se renueva el ${reinicio}.`
+      : `Alcanzaste el límite mensual de ${uso.analisisImagenes.limite} análisis de imágenes de tu plan (te quedan ${Math.max((uso.analisisImagenes.limite ?? 0) - uso.analisisImagenes.usados, 0)}). Se renueva el ${reinicio}.`,
+    cuota: uso
+  };
+};
+
+/**
+ * Verifica la cuota y reserva la petición en una sola operación
+ * El $inc condicional (findOneAndUpdate) evita que dos peticiones simultáneas pasen
+ * la verificación con el mismo saldo. Las imágenes y el mensaje se descuentan al
+ * reservar: una vez enviados al proveedor cuentan aunque la respuesta falle.
+ *
+ * @returns El uso actualizado y el recurso agotado (null si la petición puede continuar)
+ */
+export async function reservarCuotaIA(
+  connection: mongoose.Connection,
+  email: string,
+  imagenes = 0
+): Promise<{ uso: UsoCuotaIA; recursoAgotado: RecursoCuotaIA | null }> {
+  const ahora = new Date();
+  const periodo = periodoActual(ahora);
+  const filtro = { usuarioEmail: email.toLowerCase(), periodo };
+  const ConsumoIAModel = getConsumoIAModel(connection);
+  const limites = await limitesEfectivos(connection, email);
+
+  // Crear el contador del mes si no existe (el $inc condicional no puede hacer upsert)
+  await ConsumoIAModel.updateOne(
+    filtro,
+    { $setOnInsert: { fechaCreacion: ahora.toISOString() } },
+    { upsert: true }
+  );
+
+  // 🔒 Condiciones de saldo: los tokens sobre lo consumido, las imágenes sobre lo consumido más las pedidas
+  const { tokensMensuales, analisisImagenesMensuales } = limites.limites;
+  const reservado = await ConsumoIAModel.findOneAndUpdate(
+    {
+      ...filtro,
+      ...(tokensMensuales !== null && { tokensTotal: { $lt: tokensMensuales } }),
+      ...(imagenes > 0 && analisisImagenesMensuales !== null && {
+        analisisImagenes: { $lte: analisisImagenesMensuales - imagenes }
+      })
+    },
+    {
+      $inc: { analisisImagenes: imagenes, mensajes: 1 },
+      $set: { fechaActualizacion: ahora.toISOString() }
+    },
+    { new: true }
+  ).lean();
+
+  if (reservado) {
+    return { uso: construirUso(periodo, limites, reservado), recursoAgotado: null };
+  }
+
+  const uso = construirUso(periodo, limites, await ConsumoIAModel.findOne(filtro).lean());
+  return { uso, recursoAgotado: verificarCuotaIA(uso, imagenes) ?? 'tokens' };
+}
+
+/**
+ * Suma los tokens de una respuesta al contador del mes (upsert atómico)
+ * La imagen y el mensaje ya se descontaron en reservarCuotaIA
+ */
+export async function registrarConsumoIA(
+  connection: mongoose.Connection,
+  email: string,
+  tokens: TokensUsados
+): Promise<void> {
+  const ahora = new Date();
+  await getConsumoIAModel(connection).updateOne(
+    { usuarioEmail: email.toLowerCase(), periodo: periodoActual(ahora) },
+    {
+      $inc: {
+        tokensPrompt: tokens.prompt,
+        tokensCompletion: tokens.completion,
+        tokensTotal: tokens.total
+      },
+      $set: { fechaActualizacion: ahora.toISOString() },
+      $setOnInsert: { fechaCreacion: ahora.toISOString() }
+    },
+    { upsert: true }
+  );
+}
@@ -0,0 +1,185 @@
+/**
+ * Diagnósticos de salud de las plantas con IA
+ *
+ * Define el contrato JSON que se pide a la IA al analizar una imagen (problemas
+ * detectados, severidad y acciones sugeridas), lo valida y convierte las acciones
+ * en tareas del cultivo. Se usa en /api/cultivos/[id]/diagnosticos.
+ */
+
+import type { ContextoCultivo } from '@/types/chat';
+import type { TareaCreacion, PrioridadTarea } from '@/types/planificacion';
+import type {
+  AccionSugerida,
+  CategoriaProblema,
+  Diagnostico,
+  ProblemaDetectado,
+  SeveridadDiagnostico
+} from '@/types/diagnostico';
+import { calcularFechaOcurrencia } from '@/lib/utils/recurrencia';
+
+export const SEVERIDADES_DIAGNOSTICO: SeveridadDiagnostico[] = ['baja', 'media', 'alta', 'critica'];
+const CATEGORIAS_PROBLEMA: CategoriaProblema[] = ['plaga', 'enfermedad', 'deficiencia', 'ambiental', 'otro'];
+const PRIORIDADES: PrioridadTarea[] = ['baja', 'media', 'alta', 'urgente'];
+
+const MAX_PROBLEMAS = 10;
+const MAX_ACCIONES = 10;
+const MAX_PLAZO_DIAS = 90;
+
+/**
+ * Etiquetas para mostrar la severidad
+ */
+export const ETIQUETAS_SEVERIDAD: Record<SeveridadDiagnostico, string> = {
+  baja: 'Baja',
+  media: 'Media',
+  alta: 'Alta',
+  critica: 'Crítica'
+};
+
+/**
+ * Mensaje que se envía a la IA junto con la imagen pidiendo el diagnóstico en JSON
+ */
+export function construirPedidoDiagnostico(): string {
+  return [
+    'Actúa como un agrónomo experto. Analiza la imagen para detectar plagas, enfermedades, deficiencias de nutrientes o estrés ambiental, teniendo en cuenta el contexto del cultivo.',
+    'Responde ÚNICAMENTE con un objeto JSON, sin texto adicional, con esta forma:',
+    '{"resumen": "<diagnóstico general en dos o tres oraciones>", "problemas": [{"nombre": "<problema>", "categoria": "plaga|enfermedad|deficiencia|ambiental|otro", "severidad": "baja|media|alta|critica", "descripcion": "<síntomas y causas probables>"}], "acciones": [{"descripcion": "<acción concreta>", "tipoTarea": "monitoreo|mantenimiento", "prioridad": "baja|media|alta|urgente", "plazoDias": <días desde hoy>}]}',
+    'Usa "mantenimiento" para tratamientos y correcciones, y "monitoreo" para revisar la evolución del problema.',
+    'Si la planta se ve sana, devuelve "problemas": [] y acciones de monitoreo preventivo.'
+  ].join('\n');
+}
+
+/**
+ * Devuelve el valor si pertenece a la lista o el valor por defecto
+ */
+const enLista = <T extends string>(valor: unknown, lista: readonly T[], porDefecto: T): T =>
+  typeof valor === 'string' && (lista as readonly string[]).includes(valor.toLowerCase())
+    ? valor.toLowerCase() as T
+    : porDefecto;
+
+/**
+ * Texto recortado o undefined si está vacío
+ */
+const texto = (valor: unknown, max: number): string | undefined =>
+  typeof valor === 'string' && valor.trim() ? valor.trim().slice(0, max) : undefined;
+
+/**
+ * Severidad más alta de una lista (baja si está vacía)
+ */
+export function severidadMaxima(severidades: SeveridadDiagnostico[]): SeveridadDiagnostico {
+  return severidades.reduce<SeveridadDiagnostico>(
+    (max, actual) => SEVERIDADES_DIAGNOSTICO.indexOf(actual) > SEVERIDADES_DIAGNOSTICO.indexOf(max) ? actual : max,
+    'baja'
+  );
+}
+
+/**
+ * Extrae el objeto JSON de la respuesta (los modelos a veces lo envuelven en ```json ... ```)
+ */
+function extraerJSON(contenido: string): unknown {
+  const inicio = contenido.indexOf('{');
+  const fin = contenido.lastIndexOf('}');
+  if (inicio === -1 || fin <= inicio) {
+    throw new Error('La respuesta de la IA no contiene un objeto JSON');
+  }
+  return JSON.parse(contenido.slice(inicio, fin + 1));
+}
+
+/**
+ * Interpreta la respuesta de la IA según el contrato de construirPedidoDiagnostico
+ * Los problemas y acciones sin descripción se descartan; los valores desconocidos toman un valor por defecto
+ * @throws Error si la respuesta no es JSON o no trae un resumen
+ */
+export function interpretarDiagnostico(
+  contenido: string
+): Pick<Diagnostico, 'resumen' | 'severidad' | 'problemas' | 'acciones'> {
+  const datos = extraerJSON(contenido);
+  if (!datos || typeof datos !== 'object') {
+    throw new Error('La respuesta de la IA no tiene el formato esperado');
+  }
+
+  const { resumen, problemas: problemasCrudos, acciones: accionesCrudas } = datos as Record<string, unknown>;
+  const resumenValido = texto(resumen, 2000);
+  if (!resumenValido) {
+    throw new Error('La IA no devolvió un resumen del diagnóstico');
+  }
+
+  const problemas: ProblemaDetectado[] = (Array.isArray(problemasCrudos) ? problemasCrudos : [])
+    .filter((p): p is Record<string, unknown> => Boolean(p) && typeof p === 'object')
+    .map(p => ({
+      nombre: texto(p.nombre, 200) ?? '',
+      categoria: enLista(p.categoria, CATEGORIAS_PROBLEMA, 'otro'),
+      severidad: enLista(p.severidad, SEVERIDADES_DIAGNOSTICO, 'media'),
+      descripcion: texto(p.descripcion, 1000)
+    }))
+    .filter(p => p.nombre)
+    .slice(0, MAX_PROBLEMAS);
+
+  const acciones: AccionSugerida[] = (Array.isArray(accionesCrudas) ? accionesCrudas : [])
+    .filter((a): a is Record<string, unknown> => Boolean(a) && typeof a === 'object')
+    .map(a => {
+      const plazo = typeof a.plazoDias === 'number' && Number.isFinite(a.plazoDias) ? Math.round(a.plazoDias) : 0;
+      return {
+        id: '',
+        descripcion: texto(a.descripcion, 500) ?? '',
+        tipoTarea: enLista(a.tipoTarea, ['monitoreo', 'mantenimiento'] as const, 'monitoreo'),
+        prioridad: enLista(a.prioridad, PRIORIDADES, 'media'),
+        plazoDias: Math.min(Math.max(plazo, 0), MAX_PLAZO_DIAS)
+      };
+    })
+    .filter(a => a.descripcion)
+    .slice(0, MAX_ACCIONES)
+    .map((a, indice) => ({ ...a, id: `accion-${indice + 1}` }));
+
+  return {
+    resumen: resumenValido,
+    severidad: severidadMaxima(problemas.map(p => p.severidad)),
+    problemas,
+    acciones
+  };
+}
+
+/**
+ * Convierte acciones de un diagnóstico en tareas del cultivo
+ * La fecha programada es la del diagnóstico más el plazo de cada acción
+ * @param diagnostico - Diagnóstico de origen
+ * @param acciones - Acciones a convertir (sin tarea asignada)
+ * @param hoy - Fecha de referencia (YYYY-MM-DD)
+ */
+export function accionesATareas(
+  diagnostico: Pick<Diagnostico, 'cultivoId' | 'resumen'>,
+  acciones: AccionSugerida[],
+  hoy: string
+): TareaCreacion[] {
+  return acciones.map(accion => ({
+    cultivoId: diagnostico.cultivoId,
+    titulo: accion.descripcion.length > 100 ? `${accion.descripcion.slice(0, 97)}...` : accion.descripcion,
+    descripcion: `Acción sugerida por el Doctor IA. Diagnóstico: ${diagnostico.resumen}`.slice(0, 500),
+    tipo: accion.tipoTarea,
+    estado: 'pendiente',
+    prioridad: accion.prioridad,
+    fechaProgramada: calcularFechaOcurrencia(hoy, 'diaria', accion.plazoDias),
+    esRecurrente: false,
+    recordatorioActivado: false
+  }));
+}
+
+/**
+ * Diagnóstico determinista (proveedor local, sin red)
+ */
+export function diagnosticoDeReferencia(contexto: ContextoCultivo): string {
+  return JSON.stringify({
+    resumen: `Diagnóstico de referencia para "${contexto.nombre}": hojas inferiores con leve clorosis, compatible con una carencia incipiente de nitrógeno.`,
+    problemas: [
+      {
+        nombre: 'Deficiencia de nitrógeno',
+        categoria: 'deficiencia',
+        severidad: 'media',
+        descripcion: 'Amarilleo uniforme que avanza desde las hojas inferiores.'
+      }
+    ],
+    acciones: [
+      { descripcion: 'Ajustar la fertilización con un aporte de nitrógeno', tipoTarea: 'mantenimiento', prioridad: 'alta', plazoDias: 0 },
+      { descripcion: 'Revisar si el amarilleo avanza hacia las hojas nuevas', tipoTarea: 'monitoreo', prioridad: 'media', plazoDias: 3 }
+    ]
+  });
+}
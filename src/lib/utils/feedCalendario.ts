@@ -0,0 +1,76 @@
+/**
+ * Feed iCalendar de tareas
+ *
+ * Carga las tareas de la organización del usuario (opcionalmente de un solo cultivo) y las
+ * devuelve como respuesta text/calendar para suscribirse desde clientes externos.
+ *
+ * Contenido del feed:
+ * - Tareas programadas desde hace DIAS_HISTORIAL_FEED días
+ * - Todas las series recurrentes vigentes (se exportan con RRULE, sin expandir)
+ * - Los reemplazos de ocurrencias, como ocurrencias modificadas de su serie
+ */
+
+import type mongoose from 'mongoose';
+import type { TareaCultivo } from '@/types/planificacion';
+import { getTareaModel } from '@/lib/mongodb';
+import { generarCalendarioICS } from './ical';
+import { construirFiltroUsuario, type ContextoOrganizacion } from './multiTenancy';
+
+/**
+ * Días hacia atrás que se incluyen en el feed para tareas no recurrentes
+ */
+export const DIAS_HISTORIAL_FEED = 365;
+
+/**
+ * Convierte un documento lean de tarea al formato de la API (id en lugar de _id)
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const serializarTarea = (tarea: any): TareaCultivo => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { _id, __v, ...resto } = tarea;
+  return { ...resto, id: _id.toString() };
+};
+
+/**
+ * Genera la respuesta .ics con las tareas de la organización
+ * @param connection - Conexión a la base de datos
+ * @param contexto - Organización activa del dueño del token
+ * @param opciones - Cultivo a filtrar, nombre del calendario y URL de la petición
+ */
+export async function responderFeedTareas(
+  connection: mongoose.Connection,
+  contexto: ContextoOrganizacion,
+  opciones: { cultivoId?: string; nombre: string; request: Request }
+): Promise<Response> {
+  const desde = new Date(Date.now() - DIAS_HISTORIAL_FEED * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query: any = {
+    ...construirFiltroUsuario(contexto), // 🔒 FILTRO DE SEGURIDAD
+    $or: [
+      { fechaProgramada: { $gte: desde } },
+      { esRecurrente: true, tareaPadreId: { $exists: false } }
+    ]
+  };
+  if (opciones.cultivoId) query.cultivoId = opciones.cultivoId;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const TareaModel = getTareaModel(connection) as any;
+  const documentos = await TareaModel.find(query).sort({ fechaProgramada: 1, horaProgramada: 1 }).lean();
+
+  const tareas: TareaCultivo[] = documentos.map(serializarTarea);
+
+  const contenido = generarCalendarioICS(tareas, {
+    nombre: opciones.nombre,
+    dominio: new URL(opciones.request.url).hostname
+  });
+
+  return new Response(contenido, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="tareas.ics"',
+      'Cache-Control': 'private, max-age=300'
+    }
+  });
+}
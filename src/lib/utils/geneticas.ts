@@ -0,0 +1,134 @@
+/**
+ * Utilidades del catálogo de genéticas
+ *
+ * Relaciona un cultivo con el perfil de su genética y estima la fase actual y la
+ * fecha de cosecha con la duración de floración de la variedad. Sin perfil se usan
+ * los umbrales genéricos (60 días de vegetación y 8 semanas de floración).
+ * Se usa en el formulario de cultivo, la academia y las recomendaciones.
+ */
+
+import type { Cultivo } from '@/types/cultivo';
+import type { Genetica, EstiramientoGenetica, EstimacionCosecha } from '@/types/genetica';
+import { calcularFechaOcurrencia } from '@/lib/utils/recurrencia';
+import { diasEntre } from '@/lib/utils/cosecha';
+
+export const DIAS_GERMINACION = 10;
+export const DIAS_VEGETACION_GENERICOS = 60;
+export const DIAS_VEGETACION_AUTOFLORECIENTE = 28;
+export const SEMANAS_FLORACION_GENERICAS = 8;
+
+/**
+ * Etiquetas para mostrar el estiramiento típico de una variedad
+ */
+export const ETIQUETAS_ESTIRAMIENTO: Record<EstiramientoGenetica, string> = {
+  bajo: 'Bajo (hasta x1,5)',
+  medio: 'Medio (x1,5 - x2)',
+  alto: 'Alto (más de x2)'
+};
+
+/**
+ * Fase estimada del cultivo según su edad y el perfil de la genética
+ */
+export type FaseEstimada = 'germinacion' | 'vegetacion' | 'floracion' | 'cosecha';
+
+/**
+ * Fecha de hoy en formato YYYY-MM-DD
+ */
+const fechaHoy = (): string => new Date().toISOString().split('T')[0];
+
+/**
+ * Busca el perfil de la genética de un cultivo
+ * Usa geneticaId y, para cultivos anteriores al catálogo, el nombre sin distinguir mayúsculas
+ */
+export function buscarGeneticaDeCultivo(
+  cultivo: Pick<Cultivo, 'geneticaId' | 'genetica'>,
+  geneticas: Genetica[]
+): Genetica | undefined {
+  if (cultivo.geneticaId) {
+    const porId = geneticas.find(g => g.id === cultivo.geneticaId);
+    if (porId) return porId;
+  }
+  const nombre = cultivo.genetica?.trim().toLowerCase();
+  return nombre ? geneticas.find(g => g.nombre.toLowerCase() === nombre) : undefined;
+}
+
+/**
+ * Filtra el catálogo por nombre o banco para el autocompletado
+ */
+export function filtrarGeneticas(geneticas: Genetica[], texto: string, limite = 8): Genetica[] {
+  const busqueda = texto.trim().toLowerCase();
+  const coincidencias = busqueda
+    ? geneticas.filter(g => g.nombre.toLowerCase().includes(busqueda) || g.banco?.toLowerCase().includes(busqueda))
+    : geneticas;
+  return [...coincidencias]
+    .sort((a, b) => Number(!a.nombre.toLowerCase().startsWith(busqueda)) - Number(!b.nombre.toLowerCase().startsWith(busqueda))
+      || a.nombre.localeCompare(b.nombre))
+    .slice(0, limite);
+}
+
+/**
+ * Describe la proporción índica/sativa (ej: "70% índica / 30% sativa")
+ */
+export function describirProporcion(porcentajeIndica?: number): string | null {
+  if (porcentajeIndica === undefined || porcentajeIndica === null) return null;
+  return `${porcentajeIndica}% índica / ${100 - porcentajeIndica}% sativa`;
+}
+
+/**
+ * Días de vegetación esperados antes de florecer
+ */
+const diasVegetacion = (genetica?: Genetica): number =>
+  genetica?.autofloreciente ? DIAS_VEGETACION_AUTOFLORECIENTE : DIAS_VEGETACION_GENERICOS;
+
+/**
+ * Estima la fecha de cosecha de un cultivo
+ * Con fecha de inicio de floración se suman las semanas de floración de la variedad;
+ * si no, se parte de la fecha de comienzo más la vegetación esperada
+ * @returns La estimación, o null si el cultivo no tiene fechas para calcularla
+ */
+export function estimarCosecha(
+  cultivo: Pick<Cultivo, 'fechaComienzo' | 'fechaInicioFloracion'>,
+  genetica?: Genetica,
+  hoy: string = fechaHoy()
+): EstimacionCosecha | null {
+  const semanasFloracion = genetica?.semanasFloracion ?? SEMANAS_FLORACION_GENERICAS;
+  const diasFloracion = Math.round(semanasFloracion * 7);
+
+  let fechaEstimada: string;
+  if (cultivo.fechaInicioFloracion) {
+    fechaEstimada = calcularFechaOcurrencia(cultivo.fechaInicioFloracion, 'diaria', diasFloracion);
+  } else if (cultivo.fechaComienzo) {
+    fechaEstimada = calcularFechaOcurrencia(cultivo.fechaComienzo, 'diaria', diasVegetacion(genetica) + diasFloracion);
+  } else {
+    return null;
+  }
+
+  return {
+    fechaEstimada,
+    diasRestantes: diasEntre(hoy, fechaEstimada) ?? -(diasEntre(fechaEstimada, hoy) ?? 0),
+    semanasFloracion,
+    fuente: genetica ? 'genetica' : 'generica',
+    desdeInicioFloracion: Boolean(cultivo.fechaInicioFloracion)
+  };
+}
+
+/**
+ * Estima la fase actual del cultivo
+ * La floración empieza en la fecha registrada o, sin ella, al terminar la vegetación
+ * esperada; la fase de cosecha llega al cumplirse las semanas de floración
+ */
+export function estimarFase(
+  cultivo: Pick<Cultivo, 'fechaComienzo' | 'fechaInicioFloracion'>,
+  genetica?: Genetica,
+  hoy: string = fechaHoy()
+): FaseEstimada | null {
+  const estimacion = estimarCosecha(cultivo, genetica, hoy);
+  if (!estimacion) return null;
+  if (estimacion.diasRestantes <= 0) return 'cosecha';
+  if (cultivo.fechaInicioFloracion && cultivo.fechaInicioFloracion <= hoy) return 'floracion';
+
+  const edad = diasEntre(cultivo.fechaComienzo, hoy) ?? 0;
+  if (edad < DIAS_GERMINACION) return 'germinacion';
+  if (edad < diasVegetacion(genetica)) return 'vegetacion';
+  return 'floracion';
+}
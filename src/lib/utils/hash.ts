@@ -0,0 +1,17 @@
+/**
+ * Hash de tokens y secretos de alta entropía
+ *
+ * Lo usan los modelos y la autenticación para guardar API keys de dispositivos,
+ * tokens de calendario, de invitación, de verificación y de sesión sin el texto plano.
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Calcula el hash SHA-256 (hex) de un token
+ * Los tokens aleatorios tienen alta entropía, por lo que no requieren un hash lento como bcrypt
+ * @param token - Token en texto plano
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,68 @@
+/**
+ * Historial del chat en el servidor
+ *
+ * Las respuestas de la IA, con sus tokens, las guarda /api/chat/stream al terminar
+ * (o al cancelarse o fallar) la generación; el cliente solo guarda sus propios
+ * mensajes en /api/chat/mensajes. Así el consumo registrado en el historial no
+ * depende de lo que informe el navegador.
+ */
+
+import mongoose from 'mongoose';
+import { getMensajeChatModel } from '@/lib/mongodb';
+import type { MensajeChat, TokensUsados } from '@/types/chat';
+
+/**
+ * Indica si el mensaje del usuario existe en su historial de ese cultivo
+ * @param connection - Conexión de MongoDB
+ * @param cultivoId - Cultivo del chat
+ * @param mensajeId - ID del mensaje del usuario al que se responde
+ * @param userEmail - Autor de la conversación
+ */
+export async function existeMensajeUsuario(
+  connection: mongoose.Connection,
+  cultivoId: string,
+  mensajeId: string,
+  userEmail: string
+): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(mensajeId)) return false;
+  const existe = await getMensajeChatModel(connection).exists({
+    _id: mensajeId,
+    cultivoId,
+    tipo: 'user',
+    creadoPor: userEmail, // 🔒 FILTRO DE SEGURIDAD
+    activo: true
+  });
+  return Boolean(existe);
+}
+
+/**
+ * Guarda la respuesta de la IA vinculada al mensaje del usuario
+ * @returns El mensaje guardado en formato JSON
+ */
+export async function guardarRespuestaIA(
+  connection: mongoose.Connection,
+  datos: {
+    cultivoId: string;
+    respuestaA: string;
+    contenido: string;
+    tokensUsados: TokensUsados;
+    error?: string;
+    cancelado?: boolean;
+    creadoPor: string;
+  }
+): Promise<MensajeChat> {
+  const MensajeChatModel = getMensajeChatModel(connection);
+  const guardado = await new MensajeChatModel({
+    cultivoId: datos.cultivoId,
+    tipo: 'assistant',
+    contenido: datos.contenido,
+    respuestaA: datos.respuestaA,
+    tokensUsados: datos.tokensUsados,
+    error: datos.error?.substring(0, 500),
+    cancelado: datos.cancelado,
+    usuarioId: datos.creadoPor,
+    creadoPor: datos.creadoPor // 🔒 El historial es personal
+  }).save();
+
+  return guardado.toJSON() as MensajeChat;
+}
@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import type { TareaCultivo } from '@/types/planificacion';
+import { construirRRule, generarCalendarioICS, parsearCalendarioICS, parsearDuracionMinutos } from './ical';
+
+/**
+ * Tarea guardada con los campos mínimos
+ */
+const tarea = (datos: Partial<TareaCultivo>): TareaCultivo => ({
+  id: 't1',
+  cultivoId: 'cultivo1',
+  titulo: 'Riego',
+  tipo: 'riego',
+  estado: 'pendiente',
+  prioridad: 'media',
+  fechaProgramada: '2026-01-01',
+  fechaCreacion: '2026-01-01',
+  fechaActualizacion: '2026-01-01',
+  esRecurrente: false,
+  recordatorioActivado: false,
+  recordatorioEnviado: false,
+  ...datos
+});
+
+/**
+ * Arma un calendario .ics con los VEVENT indicados
+ */
+const calendario = (...eventos: string[][]): string =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...eventos.flatMap(e => ['BEGIN:VEVENT', ...e, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+
+const OPCIONES = { nombre: 'Tareas de prueba', dominio: 'canopia.test' };
+
+describe('construirRRule', () => {
+  it('traduce cada frecuencia', () => {
+    expect(construirRRule(tarea({ frecuencia: 'diaria' }))).toBe('RRULE:FREQ=DAILY');
+    expect(construirRRule(tarea({ frecuencia: 'semanal' }))).toBe('RRULE:FREQ=WEEKLY');
+    expect(construirRRule(tarea({ frecuencia: 'quincenal' }))).toBe('RRULE:FREQ=DAILY;INTERVAL=15');
+    expect(construirRRule(tarea({ frecuencia: 'personalizada', intervaloPersonalizado: 10 }))).toBe('RRULE:FREQ=DAILY;INTERVAL=10');
+    expect(construirRRule(tarea({}))).toBeNull();
+  });
+
+  it('las series mensuales del 31 usan el último día disponible', () => {
+    expect(construirRRule(tarea({ frecuencia: 'mensual', fechaProgramada: '2026-01-31' })))
+      .toBe('RRULE:FREQ=MONTHLY;BYMONTHDAY=28,29,30,31;BYSETPOS=-1');
+    expect(construirRRule(tarea({ frecuencia: 'mensual', fechaProgramada: '2026-01-15' }))).toBe('RRULE:FREQ=MONTHLY');
+  });
+
+  it('agrega UNTIL con hora solo si la tarea tiene hora', () => {
+    expect(construirRRule(tarea({ frecuencia: 'diaria', fechaFinRepeticion: '2026-02-01' })))
+      .toBe('RRULE:FREQ=DAILY;UNTIL=20260201');
+    expect(construirRRule(tarea({ frecuencia: 'diaria', fechaFinRepeticion: '2026-02-01', horaProgramada: '08:00' })))
+      .toBe('RRULE:FREQ=DAILY;UNTIL=20260201T235959');
+  });
+});
+
+describe('generarCalendarioICS', () => {
+  it('exporta una serie con hora, duración, excepciones y recordatorio', () => {
+    const ics = generarCalendarioICS([
+      tarea({
+        esRecurrente: true,
+        frecuencia: 'semanal',
+        horaProgramada: '08:30',
+        duracionEstimada: 45,
+        excepciones: ['2026-01-08'],
+        recordatorioActivado: true,
+        minutosRecordatorio: 30
+      })
+    ], OPCIONES);
+    const lineas = ics.split('\r\n');
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(lineas).toContain('X-WR-CALNAME:Tareas de prueba');
+    expect(lineas).toContain('UID:tarea-t1@canopia.test');
+    expect(lineas).toContain('DTSTART:20260101T083000');
+    expect(lineas).toContain('DURATION:PT45M');
+    expect(lineas).toContain('RRULE:FREQ=WEEKLY');
+    expect(lineas).toContain('EXDATE:20260108T083000');
+    expect(lineas).toContain('CATEGORIES:RIEGO');
+    expect(lineas).toContain('BEGIN:VALARM');
+    expect(lineas).toContain('TRIGGER:-PT30M');
+  });
+
+  it('exporta las tareas sin hora como fechas de día completo', () => {
+    const lineas = generarCalendarioICS([tarea({ estado: 'cancelada' })], OPCIONES).split('\r\n');
+    expect(lineas).toContain('DTSTART;VALUE=DATE:20260101');
+    expect(lineas).toContain('STATUS:CANCELLED');
+    expect(lineas.some(l => l.startsWith('RRULE'))).toBe(false);
+  });
+
+  it('exporta los reemplazos como ocurrencias de su serie y omite las virtuales', () => {
+    const serie = tarea({ id: 's1', esRecurrente: true, frecuencia: 'diaria' });
+    const reemplazo = tarea({ id: 'r1', tareaPadreId: 's1', fechaOcurrencia: '2026-01-03', fechaProgramada: '2026-01-04' });
+    const virtual = tarea({ id: 's1_20260102', tareaPadreId: 's1', esOcurrenciaVirtual: true, fechaProgramada: '2026-01-02' });
+
+    const lineas = generarCalendarioICS([serie, reemplazo, virtual], OPCIONES).split('\r\n');
+
+    expect(lineas.filter(l => l === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lineas.filter(l => l === 'UID:tarea-s1@canopia.test')).toHaveLength(2);
+    expect(lineas).toContain('RECURRENCE-ID;VALUE=DATE:20260103');
+    expect(lineas).toContain('DTSTART;VALUE=DATE:20260104');
+  });
+
+  it('escapa el texto y pliega las líneas largas', () => {
+    const ics = generarCalendarioICS([tarea({ titulo: 'Poda, limpieza; revisión', descripcion: 'x'.repeat(200) })], OPCIONES);
+    expect(ics).toContain('SUMMARY:Poda\\, limpieza\\; revisión');
+    expect(ics.split('\r\n').every(l => new TextEncoder().encode(l).length <= 75)).toBe(true);
+  });
+});
+
+describe('parsearDuracionMinutos', () => {
+  it('convierte duraciones de iCalendar a minutos', () => {
+    expect(parsearDuracionMinutos('PT1H30M')).toBe(90);
+    expect(parsearDuracionMinutos('-PT15M')).toBe(-15);
+    expect(parsearDuracionMinutos('P1D')).toBe(1440);
+    expect(parsearDuracionMinutos('1 hora')).toBeNull();
+  });
+});
+
+describe('parsearCalendarioICS', () => {
+  it('importa un evento con tipo, prioridad, descripción y recordatorio', () => {
+    const { tareas, omitidos } = parsearCalendarioICS(calendario([
+      'DTSTART:20261020T083000',
+      'DTEND:20261020T093000',
+      'SUMMARY:Fertilizar\\, fase 2',
+      'DESCRIPTION:Línea 1\\nLínea 2',
+      'CATEGORIES:TRABAJO,FERTILIZACION',
+      'PRIORITY:1',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-PT1H',
+      'END:VALARM'
+    ]), 'cultivo1', 'Europe/Madrid');
+
+    expect(omitidos).toEqual([]);
+    expect(tareas).toEqual([expect.objectContaining({
+      cultivoId: 'cultivo1',
+      titulo: 'Fertilizar, fase 2',
+      descripcion: 'Línea 1\nLínea 2',
+      tipo: 'fertilizacion',
+      prioridad: 'urgente',
+      fechaProgramada: '2026-10-20',
+      horaProgramada: '08:30',
+      duracionEstimada: 60,
+      esRecurrente: false,
+      recordatorioActivado: true,
+      minutosRecordatorio: 60
+    })]);
+  });
+
+  it('pasa las horas UTC y con TZID a la zona de quien importa', () => {
+    const { tareas } = parsearCalendarioICS(calendario(
+      ['DTSTART:20261020T083000Z', 'DTEND:20261020T093000Z', 'SUMMARY:UTC'],
+      ['DTSTART;TZID=America/New_York:20261101T013000', 'SUMMARY:Nueva York'],
+      ['DTSTART;TZID=Zona/Inexistente:20261101T013000', 'SUMMARY:Zona desconocida']
+    ), 'cultivo1', 'Europe/Madrid');
+
+    expect(tareas.map(t => [t.fechaProgramada, t.horaProgramada])).toEqual([
+      ['2026-10-20', '10:30'],
+      ['2026-11-01', '06:30'],
+      ['2026-11-01', '01:30']
+    ]);
+    expect(tareas[0].duracionEstimada).toBe(60);
+  });
+
+  it('la conversión puede cambiar el día', () => {
+    const { tareas } = parsearCalendarioICS(calendario(['DTSTART:20261020T230000Z', 'SUMMARY:Tarde']), 'cultivo1', 'Europe/Madrid');
+    expect(tareas[0]).toMatchObject({ fechaProgramada: '2026-10-21', horaProgramada: '01:00' });
+  });
+
+  it('importa series con COUNT, UNTIL y EXDATE', () => {
+    const { tareas } = parsearCalendarioICS(calendario(
+      ['DTSTART;VALUE=DATE:20260131', 'RRULE:FREQ=MONTHLY;COUNT=3', 'SUMMARY:Mensual'],
+      ['DTSTART:20260105T080000', 'RRULE:FREQ=WEEKLY;INTERVAL=2;UNTIL=20260301T235959', 'EXDATE:20260119T080000,20260202T080000', 'SUMMARY:Quincenal']
+    ), 'cultivo1', 'Europe/Madrid');
+
+    expect(tareas[0]).toMatchObject({ esRecurrente: true, frecuencia: 'mensual', fechaFinRepeticion: '2026-03-31' });
+    expect(tareas[1]).toMatchObject({
+      esRecurrente: true,
+      frecuencia: 'personalizada',
+      intervaloPersonalizado: 14,
+      fechaFinRepeticion: '2026-03-01',
+      excepciones: ['2026-01-19', '2026-02-02']
+    });
+  });
+
+  it('registra las reglas no soportadas y los eventos omitidos', () => {
+    const { tareas, omitidos } = parsearCalendarioICS(calendario(
+      ['DTSTART;VALUE=DATE:20260105', 'RRULE:FREQ=WEEKLY;BYDAY=MO,WE', 'SUMMARY:Lunes y miércoles'],
+      ['DTSTART;VALUE=DATE:20260105', 'RRULE:FREQ=YEARLY', 'SUMMARY:Anual'],
+      ['RECURRENCE-ID;VALUE=DATE:20260106', 'DTSTART;VALUE=DATE:20260107', 'SUMMARY:Movida'],
+      ['SUMMARY:Sin fecha']
+    ), 'cultivo1', 'Europe/Madrid');
+
+    expect(tareas.map(t => [t.titulo, t.esRecurrente])).toEqual([['Lunes y miércoles', false], ['Anual', false]]);
+    expect(omitidos).toEqual([
+      '"Lunes y miércoles": regla de repetición no soportada (BYDAY); se importó como tarea única',
+      '"Anual": frecuencia YEARLY no soportada; se importó como tarea única',
+      '"Movida": las ocurrencias modificadas no se importan',
+      '"Sin fecha": no tiene una fecha de inicio válida'
+    ]);
+  });
+
+  it('vuelve a importar lo que exporta', () => {
+    const original = tarea({
+      titulo: 'Poda, limpieza; revisión',
+      tipo: 'poda',
+      prioridad: 'alta',
+      esRecurrente: true,
+      frecuencia: 'mensual',
+      fechaProgramada: '2026-01-31',
+      fechaFinRepeticion: '2026-06-30',
+      excepciones: ['2026-03-31']
+    });
+
+    const { tareas, omitidos } = parsearCalendarioICS(generarCalendarioICS([original], OPCIONES), 'cultivo2', 'Europe/Madrid');
+
+    expect(omitidos).toEqual([]);
+    expect(tareas[0]).toMatchObject({
+      cultivoId: 'cultivo2',
+      titulo: original.titulo,
+      tipo: 'poda',
+      prioridad: 'alta',
+      fechaProgramada: '2026-01-31',
+      frecuencia: 'mensual',
+      fechaFinRepeticion: '2026-06-30',
+      excepciones: ['2026-03-31']
+    });
+  });
+});
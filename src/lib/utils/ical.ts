@@ -0,0 +1,574 @@
+/**
+ * Utilidades de iCalendar (RFC 5545) para tareas de cultivo
+ * Genera feeds .ics a partir de tareas (VEVENT con RRULE, EXDATE y VALARM)
+ * y convierte archivos .ics importados en tareas listas para crear.
+ *
+ * Las horas se exportan como hora local "flotante" (sin zona horaria), igual que
+ * se guardan en horaProgramada, para que el calendario las muestre tal cual.
+ * Al importar, las horas en UTC (sufijo Z) o con TZID se pasan a la zona horaria
+ * de quien importa; las flotantes se toman tal como están escritas.
+ */
+
+import type {
+  TareaCultivo,
+  TareaCreacion,
+  TipoTarea,
+  PrioridadTarea,
+  FrecuenciaRepeticion,
+  ResultadoImportacionICS
+} from '@/types/planificacion';
+import { calcularFechaOcurrencia, esFechaValida, fechaOcurrenciaDeReemplazo } from './recurrencia';
+
+const PRODID = '-//Canopia//Planificacion de cultivos//ES';
+const LARGO_MAXIMO_LINEA = 75;
+
+const TIPOS_TAREA: TipoTarea[] = ['siembra', 'riego', 'fertilizacion', 'poda', 'cosecha', 'mantenimiento', 'monitoreo', 'otro'];
+
+// Prioridad iCalendar: 1 = máxima, 9 = mínima
+const PRIORIDAD_ICS: Record<PrioridadTarea, number> = {
+  urgente: 1,
+  alta: 3,
+  media: 5,
+  baja: 9
+};
+
+/**
+ * Opciones del calendario generado
+ */
+export interface OpcionesCalendarioICS {
+  nombre: string;                // Nombre visible del calendario (X-WR-CALNAME)
+  dominio: string;               // Dominio para construir UIDs únicos
+}
+
+// ===== GENERACIÓN =====
+
+/**
+ * Escapa un texto según las reglas de TEXT de iCalendar
+ */
+const escaparTexto = (texto: string): string =>
+  texto
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Pliega una línea a 75 octetos; las continuaciones empiezan con un espacio
+ */
+const plegarLinea = (linea: string): string => {
+  const codificador = new TextEncoder();
+  if (codificador.encode(linea).length <= LARGO_MAXIMO_LINEA) return linea;
+
+  const partes: string[] = [];
+  let actual = '';
+  let largoActual = 0;
+  for (const caracter of linea) {
+    const largo = codificador.encode(caracter).length;
+    const limite = partes.length === 0 ? LARGO_MAXIMO_LINEA : LARGO_MAXIMO_LINEA - 1;
+    if (largoActual + largo > limite) {
+      partes.push(actual);
+      actual = '';
+      largoActual = 0;
+    }
+    actual += caracter;
+    largoActual += largo;
+  }
+  partes.push(actual);
+
+  return partes.join('\r\n ');
+};
+
+/**
+ * Fecha YYYY-MM-DD a formato DATE (YYYYMMDD)
+ */
+const aFechaICS = (fecha: string): string => fecha.replace(/-/g, '');
+
+/**
+ * Fecha y hora local a formato DATE-TIME flotante (YYYYMMDDTHHMMSS)
+ */
+const aFechaHoraICS = (fecha: string, hora: string): string => {
+  const [horas, minutos] = hora.split(':');
+  return `${aFechaICS(fecha)}T${horas.padStart(2, '0')}${minutos}00`;
+};
+
+/**
+ * Momento actual en formato DATE-TIME UTC (para DTSTAMP)
+ */
+const ahoraUTC = (): string => new Date().toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+/**
+ * Propiedad de fecha (DTSTART, RECURRENCE-ID, EXDATE) según la tarea tenga hora o no
+ */
+const propiedadFecha = (nombre: string, fecha: string, hora?: string): string =>
+  hora ? `${nombre}:${aFechaHoraICS(fecha, hora)}` : `${nombre};VALUE=DATE:${aFechaICS(fecha)}`;
+
+/**
+ * Construye la RRULE de una tarea recurrente
+ * Las series mensuales que empiezan después del día 28 usan el último día
+ * disponible del mes, igual que el motor de recurrencia
+ */
+export const construirRRule = (tarea: Pick<TareaCultivo, 'frecuencia' | 'intervaloPersonalizado' | 'fechaFinRepeticion' | 'fechaProgramada' | 'horaProgramada'>): string | null => {
+  let regla: string;
+
+  switch (tarea.frecuencia) {
+    case 'diaria':
+      regla = 'FREQ=DAILY';
+      break;
+    case 'semanal':
+      regla = 'FREQ=WEEKLY';
+      break;
+    case 'quincenal':
+      regla = 'FREQ=DAILY;INTERVAL=15';
+      break;
+    case 'personalizada':
+      regla = `FREQ=DAILY;INTERVAL=${tarea.intervaloPersonalizado || 1}`;
+      break;
+    case 'mensual': {
+      const dia = Number(tarea.fechaProgramada.split('-')[2]);
+      regla = 'FREQ=MONTHLY';
+      if (dia > 28) {
+        const dias = Array.from({ length: dia - 27 }, (_, i) => 28 + i).join(',');
+        regla += `;BYMONTHDAY=${dias};BYSETPOS=-1`;
+      }
+      break;
+    }
+    default:
+      return null;
+  }
+
+  if (tarea.fechaFinRepeticion) {
+    regla += tarea.horaProgramada
+      ? `;UNTIL=${aFechaICS(tarea.fechaFinRepeticion)}T235959`
+      : `;UNTIL=${aFechaICS(tarea.fechaFinRepeticion)}`;
+  }
+
+  return `RRULE:${regla}`;
+};
+
+/**
+ * Genera las líneas de un VEVENT para una tarea
+ * @param tarea - Tarea a exportar
+ * @param uid - UID del evento (las ocurrencias editadas usan el UID de su serie)
+ * @param serie - Tarea original cuando la tarea reemplaza una ocurrencia
+ */
+const generarEvento = (tarea: TareaCultivo, uid: string, serie?: TareaCultivo): string[] => {
+  const lineas = [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${ahoraUTC()}`,
+    propiedadFecha('DTSTART', tarea.fechaProgramada, tarea.horaProgramada)
+  ];
+
+  if (tarea.horaProgramada && tarea.duracionEstimada) {
+    lineas.push(`DURATION:PT${tarea.duracionEstimada}M`);
+  }
+
+  if (serie) {
+    lineas.push(propiedadFecha('RECURRENCE-ID', fechaOcurrenciaDeReemplazo(tarea), serie.horaProgramada));
+  } else if (tarea.esRecurrente && !tarea.tareaPadreId) {
+    const rrule = construirRRule(tarea);
+    if (rrule) lineas.push(rrule);
+    for (const fecha of tarea.excepciones || []) {
+      lineas.push(propiedadFecha('EXDATE', fecha, tarea.horaProgramada));
+    }
+  }
+
+  lineas.push(`SUMMARY:${escaparTexto(tarea.titulo)}`);
+  if (tarea.descripcion) lineas.push(`DESCRIPTION:${escaparTexto(tarea.descripcion)}`);
+  lineas.push(`CATEGORIES:${tarea.tipo.toUpperCase()}`);
+  lineas.push(`PRIORITY:${PRIORIDAD_ICS[tarea.prioridad] ?? 5}`);
+  lineas.push(`STATUS:${tarea.estado === 'cancelada' ? 'CANCELLED' : 'CONFIRMED'}`);
+
+  if (tarea.recordatorioActivado && tarea.minutosRecordatorio) {
+    lineas.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escaparTexto(tarea.titulo)}`,
+      `TRIGGER:-PT${tarea.minutosRecordatorio}M`,
+      'END:VALARM'
+    );
+  }
+
+  lineas.push('END:VEVENT');
+  return lineas;
+};
+
+/**
+ * Genera un calendario iCalendar completo a partir de tareas
+ * Las tareas recurrentes se exportan como una serie (RRULE) y sus reemplazos
+ * como ocurrencias modificadas (RECURRENCE-ID) de esa serie
+ * @param tareas - Tareas guardadas (no incluir ocurrencias virtuales)
+ * @param opciones - Nombre del calendario y dominio para los UIDs
+ * @returns Contenido del archivo .ics con saltos de línea CRLF
+ */
+export const generarCalendarioICS = (tareas: TareaCultivo[], opciones: OpcionesCalendarioICS): string => {
+  const uidDe = (id: string) => `tarea-${id}@${opciones.dominio}`;
+  const series = new Map(
+    tareas
+      .filter(t => t.esRecurrente && !t.tareaPadreId)
+      .map(t => [t.id, t])
+  );
+
+  const lineas = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escaparTexto(opciones.nombre)}`
+  ];
+
+  for (const tarea of tareas) {
+    if (tarea.esOcurrenciaVirtual) continue;
+
+    const serie = tarea.tareaPadreId ? series.get(tarea.tareaPadreId) : undefined;
+    lineas.push(...generarEvento(
+      serie ? { ...tarea, esRecurrente: false } : tarea,
+      uidDe(serie ? serie.id : tarea.id),
+      serie
+    ));
+  }
+
+  lineas.push('END:VCALENDAR');
+  return lineas.map(plegarLinea).join('\r\n') + '\r\n';
+};
+
+// ===== IMPORTACIÓN =====
+
+/**
+ * Propiedad de un componente iCalendar ya desplegada
+ */
+interface PropiedadICS {
+  nombre: string;
+  parametros: Record<string, string>;
+  valor: string;
+}
+
+/**
+ * Componente iCalendar (VEVENT, VALARM, ...) con sus propiedades y subcomponentes
+ */
+interface ComponenteICS {
+  tipo: string;
+  propiedades: PropiedadICS[];
+  componentes: ComponenteICS[];
+}
+
+/**
+ * Revierte el escape de un valor TEXT
+ */
+const desescaparTexto = (texto: string): string =>
+  texto.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+/**
+ * Interpreta una línea de contenido: NOMBRE;PARAM=valor:VALOR
+ */
+const parsearLinea = (linea: string): PropiedadICS | null => {
+  // El separador es el primer ":" fuera de comillas
+  let enComillas = false;
+  let separador = -1;
+  for (let i = 0; i < linea.length; i++) {
+    if (linea[i] === '"') enComillas = !enComillas;
+    if (linea[i] === ':' && !enComillas) {
+      separador = i;
+      break;
+    }
+  }
+  if (separador < 0) return null;
+
+  const [nombre, ...parametros] = linea.slice(0, separador).split(';');
+  return {
+    nombre: nombre.toUpperCase(),
+    parametros: Object.fromEntries(parametros.map(p => {
+      const [clave, ...valor] = p.split('=');
+      return [clave.toUpperCase(), valor.join('=').replace(/^"|"$/g, '')];
+    })),
+    valor: linea.slice(separador + 1)
+  };
+};
+
+/**
+ * Convierte el texto de un archivo .ics en un árbol de componentes
+ */
+const parsearComponentes = (contenido: string): ComponenteICS[] => {
+  const lineas = contenido
+    .replace(/\r?\n[ \t]/g, '') // Desplegar líneas continuadas
+    .split(/\r?\n/)
+    .filter(linea => linea.trim() !== '');
+
+  const raiz: ComponenteICS = { tipo: 'RAIZ', propiedades: [], componentes: [] };
+  const pila: ComponenteICS[] = [raiz];
+
+  for (const linea of lineas) {
+    const propiedad = parsearLinea(linea);
+    if (!propiedad) continue;
+
+    const actual = pila[pila.length - 1];
+    if (propiedad.nombre === 'BEGIN') {
+      const componente: ComponenteICS = { tipo: propiedad.valor.toUpperCase(), propiedades: [], componentes: [] };
+      actual.componentes.push(componente);
+      pila.push(componente);
+    } else if (propiedad.nombre === 'END') {
+      if (pila.length > 1) pila.pop();
+    } else {
+      actual.propiedades.push(propiedad);
+    }
+  }
+
+  return raiz.componentes;
+};
+
+/**
+ * Busca recursivamente todos los componentes de un tipo
+ */
+const buscarComponentes = (componentes: ComponenteICS[], tipo: string): ComponenteICS[] =>
+  componentes.flatMap(c => (c.tipo === tipo ? [c] : buscarComponentes(c.componentes, tipo)));
+
+/**
+ * Indica si el runtime reconoce la zona horaria IANA (ej: Europe/Madrid)
+ */
+export const esZonaHorariaValida = (zona: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zona });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Fecha y hora de pared de un instante en una zona horaria
+ */
+const horaEnZona = (instante: number, zona: string): { fecha: string; hora: string } => {
+  const partes = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone: zona,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(new Date(instante)).map(p => [p.type, p.value])
+  );
+  return { fecha: `${partes.year}-${partes.month}-${partes.day}`, hora: `${partes.hour}:${partes.minute}` };
+};
+
+/**
+ * Desfase (ms) de una zona horaria respecto de UTC en un instante
+ */
+const desfaseZona = (instante: number, zona: string): number => {
+  const { fecha, hora } = horaEnZona(instante, zona);
+  return Date.parse(`${fecha}T${hora}:00Z`) - Math.floor(instante / 60000) * 60000;
+};
+
+/**
+ * Convierte DATE o DATE-TIME de iCalendar a fecha y hora en la zona de destino
+ * Las horas en UTC (Z) o con un TZID reconocido se convierten; las flotantes y las
+ * de zonas desconocidas se toman tal como están escritas
+ * @param valor - Valor de la propiedad (YYYYMMDD o YYYYMMDDTHHMMSS[Z])
+ * @param zonaDestino - Zona horaria IANA de quien importa
+ * @param tzid - Parámetro TZID de la propiedad, si lo tiene
+ */
+const parsearFechaICS = (valor: string, zonaDestino: string, tzid?: string): { fecha: string; hora?: string } | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/.exec(valor.trim());
+  if (!match) return null;
+
+  const fecha = `${match[1]}-${match[2]}-${match[3]}`;
+  if (!esFechaValida(fecha)) return null;
+  if (!match[4]) return { fecha };
+
+  const hora = `${match[4]}:${match[5]}`;
+  const zonaOrigen = match[6] ? 'UTC' : tzid && esZonaHorariaValida(tzid) ? tzid : null;
+  if (!zonaOrigen) return { fecha, hora };
+
+  // El desfase se recalcula en el instante estimado por si cae del otro lado de un cambio de horario
+  const pared = Date.parse(`${fecha}T${hora}:00Z`);
+  const estimado = pared - desfaseZona(pared, zonaOrigen);
+  return horaEnZona(pared - desfaseZona(estimado, zonaOrigen), zonaDestino);
+};
+
+/**
+ * Convierte una duración de iCalendar (ej: PT1H30M, -PT15M, P1D) a minutos
+ */
+export const parsearDuracionMinutos = (valor: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(valor.trim());
+  if (!match) return null;
+
+  const [, , semanas, dias, horas, minutos, segundos] = match;
+  const total =
+    Number(semanas || 0) * 7 * 24 * 60 +
+    Number(dias || 0) * 24 * 60 +
+    Number(horas || 0) * 60 +
+    Number(minutos || 0) +
+    Math.round(Number(segundos || 0) / 60);
+
+  return match[1] === '-' ? -total : total;
+};
+
+/**
+ * Minutos entre dos fechas/horas locales
+ */
+const minutosEntre = (inicio: { fecha: string; hora?: string }, fin: { fecha: string; hora?: string }): number => {
+  const aMs = (f: { fecha: string; hora?: string }) => new Date(`${f.fecha}T${f.hora || '00:00'}:00Z`).getTime();
+  return Math.round((aMs(fin) - aMs(inicio)) / 60000);
+};
+
+/**
+ * Traduce una RRULE a la configuración de repetición de la tarea
+ * @returns Configuración o un motivo si la regla no se puede representar
+ */
+const parsearRRule = (
+  valor: string,
+  fechaInicio: string,
+  zonaDestino: string
+): { frecuencia: FrecuenciaRepeticion; intervaloPersonalizado?: number; fechaFinRepeticion?: string } | string => {
+  const partes = Object.fromEntries(valor.split(';').map(p => {
+    const [clave, ...resto] = p.split('=');
+    return [clave.toUpperCase(), resto.join('=').toUpperCase()];
+  }));
+
+  const intervalo = Number(partes.INTERVAL || 1);
+  const reglasNoSoportadas = ['BYDAY', 'BYHOUR', 'BYWEEKNO', 'BYYEARDAY', 'BYMONTH'].filter(r => partes[r]);
+  if (reglasNoSoportadas.length > 0) {
+    return `regla de repetición no soportada (${reglasNoSoportadas.join(', ')})`;
+  }
+
+  let configuracion: { frecuencia: FrecuenciaRepeticion; intervaloPersonalizado?: number };
+  switch (partes.FREQ) {
+    case 'DAILY':
+      configuracion = intervalo === 1
+        ? { frecuencia: 'diaria' }
+        : intervalo === 15
+          ? { frecuencia: 'quincenal' }
+          : { frecuencia: 'personalizada', intervaloPersonalizado: intervalo };
+      break;
+    case 'WEEKLY':
+      configuracion = intervalo === 1
+        ? { frecuencia: 'semanal' }
+        : { frecuencia: 'personalizada', intervaloPersonalizado: intervalo * 7 };
+      break;
+    case 'MONTHLY':
+      if (intervalo !== 1) return 'repetición cada varios meses no soportada';
+      configuracion = { frecuencia: 'mensual' };
+      break;
+    default:
+      return `frecuencia ${partes.FREQ || 'desconocida'} no soportada`;
+  }
+
+  if (configuracion.intervaloPersonalizado && configuracion.intervaloPersonalizado > 365) {
+    return 'el intervalo de repetición supera 365 días';
+  }
+
+  let fechaFinRepeticion: string | undefined;
+  if (partes.UNTIL) {
+    fechaFinRepeticion = parsearFechaICS(partes.UNTIL, zonaDestino)?.fecha;
+  } else if (partes.COUNT) {
+    fechaFinRepeticion = calcularFechaOcurrencia(
+      fechaInicio,
+      configuracion.frecuencia,
+      Math.max(0, Number(partes.COUNT) - 1),
+      configuracion.intervaloPersonalizado
+    );
+  }
+
+  return { ...configuracion, fechaFinRepeticion };
+};
+
+/**
+ * Convierte los VEVENT de un archivo .ics en tareas listas para crear
+ * Las ocurrencias modificadas (RECURRENCE-ID) y los eventos sin fecha se omiten
+ * @param contenido - Texto del archivo .ics
+ * @param cultivoId - Cultivo al que se asignan las tareas importadas
+ * @param zonaHoraria - Zona horaria IANA de quien importa (por defecto, la del runtime)
+ * @returns Tareas convertidas y motivos de los eventos omitidos
+ */
+export const parsearCalendarioICS = (contenido: string, cultivoId: string, zonaHoraria?: string): ResultadoImportacionICS => {
+  const resultado: ResultadoImportacionICS = { tareas: [], omitidos: [] };
+  const zonaDestino = zonaHoraria && esZonaHorariaValida(zonaHoraria)
+    ? zonaHoraria
+    : Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const fechaDe = (propiedad?: PropiedadICS) =>
+    propiedad ? parsearFechaICS(propiedad.valor, zonaDestino, propiedad.parametros.TZID) : null;
+
+  buscarComponentes(parsearComponentes(contenido), 'VEVENT').forEach((evento, indice) => {
+    const prop = (nombre: string) => evento.propiedades.find(p => p.nombre === nombre);
+    const titulo = desescaparTexto(prop('SUMMARY')?.valor || '').trim() || `Evento importado ${indice + 1}`;
+    const nombreEvento = `"${titulo}"`;
+
+    if (prop('RECURRENCE-ID')) {
+      resultado.omitidos.push(`${nombreEvento}: las ocurrencias modificadas no se importan`);
+      return;
+    }
+
+    const inicio = fechaDe(prop('DTSTART'));
+    if (!inicio) {
+      resultado.omitidos.push(`${nombreEvento}: no tiene una fecha de inicio válida`);
+      return;
+    }
+
+    const tarea: TareaCreacion = {
+      cultivoId,
+      titulo: titulo.slice(0, 100),
+      tipo: 'otro',
+      estado: prop('STATUS')?.valor.toUpperCase() === 'CANCELLED' ? 'cancelada' : 'pendiente',
+      prioridad: 'media',
+      fechaProgramada: inicio.fecha,
+      esRecurrente: false,
+      recordatorioActivado: false
+    };
+
+    if (inicio.hora) tarea.horaProgramada = inicio.hora;
+
+    const descripcion = prop('DESCRIPTION');
+    if (descripcion) tarea.descripcion = desescaparTexto(descripcion.valor).slice(0, 1000);
+
+    // El primer valor de CATEGORIES que coincida con un tipo de tarea
+    const categorias = (prop('CATEGORIES')?.valor || '').toLowerCase().split(',').map(c => c.trim());
+    tarea.tipo = TIPOS_TAREA.find(t => categorias.includes(t)) || 'otro';
+
+    const prioridad = Number(prop('PRIORITY')?.valor);
+    if (prioridad >= 1 && prioridad <= 9) {
+      tarea.prioridad = prioridad <= 2 ? 'urgente' : prioridad <= 4 ? 'alta' : prioridad <= 6 ? 'media' : 'baja';
+    }
+
+    // Duración: DURATION o diferencia con DTEND (solo eventos con hora)
+    if (inicio.hora) {
+      const duracion = prop('DURATION') ? parsearDuracionMinutos(prop('DURATION')!.valor) : null;
+      const fin = fechaDe(prop('DTEND'));
+      const minutos = duracion ?? (fin ? minutosEntre(inicio, fin) : null);
+      if (minutos && minutos > 0) tarea.duracionEstimada = Math.min(minutos, 1440);
+    }
+
+    const rrule = prop('RRULE');
+    if (rrule) {
+      const repeticion = parsearRRule(rrule.valor, inicio.fecha, zonaDestino);
+      if (typeof repeticion === 'string') {
+        resultado.omitidos.push(`${nombreEvento}: ${repeticion}; se importó como tarea única`);
+      } else {
+        Object.assign(tarea, { esRecurrente: true, ...repeticion });
+        const excepciones = evento.propiedades
+          .filter(p => p.nombre === 'EXDATE')
+          .flatMap(p => p.valor.split(',').map(v => parsearFechaICS(v, zonaDestino, p.parametros.TZID)?.fecha))
+          .filter((f): f is string => Boolean(f));
+        if (excepciones.length > 0) tarea.excepciones = excepciones;
+      }
+    }
+
+    // Primer recordatorio relativo al inicio del evento
+    for (const alarma of evento.componentes.filter(c => c.tipo === 'VALARM')) {
+      const trigger = alarma.propiedades.find(p => p.nombre === 'TRIGGER');
+      if (!trigger || trigger.parametros.VALUE === 'DATE-TIME' || trigger.parametros.RELATED === 'END') continue;
+
+      const minutos = parsearDuracionMinutos(trigger.valor);
+      if (minutos !== null && minutos < 0) {
+        tarea.recordatorioActivado = true;
+        tarea.minutosRecordatorio = Math.min(-minutos, 10080);
+        break;
+      }
+    }
+
+    resultado.tareas.push(tarea);
+  });
+
+  return resultado;
+};
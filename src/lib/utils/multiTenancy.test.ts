@@ -0,0 +1,349 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import type { RolOrganizacion } from '@/types/organizacion';
+import type { RolAccesoCultivo } from '@/types/accesoCultivo';
+import {
+  buscarCultivoAccesible,
+  construirFiltroCultivos,
+  construirFiltroUsuario,
+  obtenerContextoOrganizacion,
+  permisosCultivo,
+  puedeAccederARecurso,
+  puedeCrearRecursos,
+  puedeEditarRecurso,
+  puedeEliminarRecurso,
+  puedeCompartirRecurso,
+  type ContextoOrganizacion
+} from './multiTenancy';
+
+/**
+ * Organización simulada: documento con miembros y save()
+ */
+interface OrganizacionSimulada {
+  _id: mongoose.Types.ObjectId;
+  nombre: string;
+  miembros: { email: string; rol: string; invitadoPor?: string }[];
+  activo: boolean;
+  creadoPor: string;
+  save: () => Promise<OrganizacionSimulada>;
+}
+
+// Datos que devuelven los modelos simulados
+const db = vi.hoisted(() => ({
+  cultivos: new Map<string, Record<string, unknown>>(),
+  accesos: [] as { cultivoId: string; email: string; rol: string; estado: string }[],
+  usuarios: [] as { email: string; role: string; creadoPor?: string; organizacionId?: string; activo: boolean }[],
+  organizaciones: [] as OrganizacionSimulada[],
+  adopciones: [] as { email: string; organizacionId: string }[]
+}));
+
+/**
+ * Consulta simulada de Mongoose: encadena select() y resuelve en lean()
+ */
+const consulta = <T>(resultado: () => T) => {
+  const query = { select: () => query, lean: async () => resultado() };
+  return query;
+};
+
+/**
+ * Indica si una organización simulada cumple el filtro (_id, activo, miembros.email)
+ */
+const cumpleFiltro = (organizacion: OrganizacionSimulada, filtro: Record<string, unknown>) =>
+  (filtro._id === undefined || organizacion._id.toString() === String(filtro._id)) &&
+  (filtro.activo === undefined || organizacion.activo === filtro.activo) &&
+  (filtro['miembros.email'] === undefined || organizacion.miembros.some(m => m.email === filtro['miembros.email']));
+
+/**
+ * Crea una organización simulada y la agrega a la base
+ */
+const crearOrganizacion = (datos: { miembros: OrganizacionSimulada['miembros']; creadoPor: string; nombre?: string }) => {
+  const organizacion: OrganizacionSimulada = {
+    _id: new mongoose.Types.ObjectId(),
+    nombre: datos.nombre ?? `Organización de ${datos.creadoPor}`,
+    miembros: datos.miembros,
+    activo: true,
+    creadoPor: datos.creadoPor,
+    save: async () => organizacion
+  };
+  db.organizaciones.push(organizacion);
+  return organizacion;
+};
+
+// Registra las adopciones de datos sin organización (updateMany por creador)
+const adopcion = () => ({
+  updateMany: async (filtro: { creadoPor?: string; author?: string }, cambios: { $set: { organizacionId: string } }) => {
+    db.adopciones.push({ email: (filtro.creadoPor ?? filtro.author)!, organizacionId: cambios.$set.organizacionId });
+  }
+});
+
+vi.mock('@/lib/mongodb', () => ({
+  getCultivoModel: () => ({
+    ...adopcion(),
+    findById: (id: string) => consulta(() => db.cultivos.get(id) ?? null)
+  }),
+  getTareaModel: () => adopcion(),
+  getComentarioModel: () => adopcion(),
+  getNotaModel: () => adopcion(),
+  getUsuarioModel: () => ({
+    findOne: (filtro: { email: string; role?: string; activo?: boolean }) =>
+      consulta(() => db.usuarios.find(u =>
+        u.email === filtro.email &&
+        (filtro.role === undefined || u.role === filtro.role) &&
+        (filtro.activo === undefined || u.activo === filtro.activo)
+      ) ?? null),
+    updateOne: async (filtro: { email: string }, cambios: { $set: { organizacionId: string } }) => {
+      const usuario = db.usuarios.find(u => u.email === filtro.email);
+      if (usuario) usuario.organizacionId = cambios.$set.organizacionId;
+    }
+  }),
+  getOrganizacionModel: () => ({
+    findOne: (filtro: Record<string, unknown>) => {
+      const encontrada = db.organizaciones.find(o => cumpleFiltro(o, filtro)) ?? null;
+      return Object.assign(Promise.resolve(encontrada), { sort: () => Promise.resolve(encontrada) });
+    },
+    create: async (datos: { miembros: OrganizacionSimulada['miembros']; creadoPor: string; nombre: string }) => crearOrganizacion(datos)
+  }),
+  getAccesoCultivoModel: () => ({
+    findOne: (filtro: { cultivoId: string; email: string; estado: string }) =>
+      consulta(() => db.accesos.find(a =>
+        a.cultivoId === filtro.cultivoId && a.email === filtro.email && a.estado === filtro.estado
+      ) ?? null),
+    find: (filtro: { email: string; estado: string }) =>
+      consulta(() => db.accesos.filter(a => a.email === filtro.email && a.estado === filtro.estado))
+  })
+}));
+
+const connection = {} as mongoose.Connection;
+
+const ORGANIZACION = 'org-1';
+
+/**
+ * Contexto de un miembro de la organización de prueba
+ */
+const miembro = (rol: RolOrganizacion, email = `${rol}@canopia.test`): ContextoOrganizacion => ({
+  email,
+  organizacionId: ORGANIZACION,
+  rol
+});
+
+const propio = (contexto: ContextoOrganizacion) => ({ organizacionId: ORGANIZACION, creadoPor: contexto.email });
+const deOtroMiembro = { organizacionId: ORGANIZACION, creadoPor: 'otro@canopia.test' };
+const deOtraOrganizacion = { organizacionId: 'org-2', creadoPor: 'owner@canopia.test' };
+
+describe('construirFiltroUsuario', () => {
+  it('filtra por la organización activa', () => {
+    expect(construirFiltroUsuario(miembro('grower'))).toEqual({ organizacionId: ORGANIZACION });
+  });
+});
+
+describe('permisos por rol de organización', () => {
+  it('todos los miembros leen los recursos de su organización y ninguno los de otra', () => {
+    for (const rol of ['owner', 'grower', 'viewer'] as const) {
+      expect(puedeAccederARecurso(miembro(rol), deOtroMiembro)).toBe(true);
+      expect(puedeAccederARecurso(miembro(rol), deOtraOrganizacion)).toBe(false);
+    }
+  });
+
+  it('los recursos sin organización no son de nadie', () => {
+    expect(puedeAccederARecurso(miembro('owner'), { creadoPor: 'owner@canopia.test' })).toBe(false);
+  });
+
+  it('owner y grower crean y editan cualquier recurso de la organización; viewer no', () => {
+    expect(puedeCrearRecursos(miembro('owner'))).toBe(true);
+    expect(puedeCrearRecursos(miembro('grower'))).toBe(true);
+    expect(puedeCrearRecursos(miembro('viewer'))).toBe(false);
+
+    expect(puedeEditarRecurso(miembro('owner'), deOtroMiembro)).toBe(true);
+    expect(puedeEditarRecurso(miembro('grower'), deOtroMiembro)).toBe(true);
+    expect(puedeEditarRecurso(miembro('viewer'), propio(miembro('viewer')))).toBe(false);
+    expect(puedeEditarRecurso(miembro('owner'), deOtraOrganizacion)).toBe(false);
+  });
+
+  it('owner elimina cualquier recurso de la organización', () => {
+    expect(puedeEliminarRecurso(miembro('owner'), deOtroMiembro)).toBe(true);
+    expect(puedeEliminarRecurso(miembro('owner'), deOtraOrganizacion)).toBe(false);
+  });
+
+  it('grower solo elimina lo que creó', () => {
+    const grower = miembro('grower');
+    expect(puedeEliminarRecurso(grower, propio(grower))).toBe(true);
+    expect(puedeEliminarRecurso(grower, deOtroMiembro)).toBe(false);
+  });
+
+  it('viewer no elimina ni lo que figura como suyo', () => {
+    const viewer = miembro('viewer');
+    expect(puedeEliminarRecurso(viewer, propio(viewer))).toBe(false);
+  });
+
+  it('solo owner y grower administran la lista de acceso', () => {
+    expect(puedeCompartirRecurso(miembro('owner'), deOtroMiembro)).toBe(true);
+    expect(puedeCompartirRecurso(miembro('grower'), deOtroMiembro)).toBe(true);
+    expect(puedeCompartirRecurso(miembro('viewer'), deOtroMiembro)).toBe(false);
+  });
+});
+
+describe('invitados de un cultivo', () => {
+  const consultor = (): ContextoOrganizacion => ({ email: 'consultor@externo.test', organizacionId: 'org-consultora', rol: 'owner' });
+  const compartido = (rol: RolAccesoCultivo) => ({
+    ...deOtroMiembro,
+    accesos: [{ email: 'consultor@externo.test', rol }]
+  });
+
+  it('cada rol de invitado suma permisos sobre el anterior', () => {
+    expect(permisosCultivo(consultor(), compartido('viewer'))).toEqual({
+      editar: false, comentar: false, eliminar: false, compartir: false, acceso: 'viewer'
+    });
+    expect(permisosCultivo(consultor(), compartido('commenter'))).toEqual({
+      editar: false, comentar: true, eliminar: false, compartir: false, acceso: 'commenter'
+    });
+    expect(permisosCultivo(consultor(), compartido('editor'))).toEqual({
+      editar: true, comentar: true, eliminar: false, compartir: false, acceso: 'editor'
+    });
+  });
+
+  it('ser owner de otra organización no da permisos sobre el cultivo', () => {
+    expect(puedeAccederARecurso(consultor(), deOtroMiembro)).toBe(false);
+    expect(puedeEliminarRecurso(consultor(), compartido('editor'))).toBe(false);
+  });
+
+  it('los miembros no reciben rol de acceso', () => {
+    expect(permisosCultivo(miembro('grower'), deOtroMiembro)).toEqual({
+      editar: true, comentar: true, eliminar: false, compartir: true, acceso: undefined
+    });
+  });
+});
+
+describe('buscarCultivoAccesible', () => {
+  const CULTIVO_ID = '64b7f0a1c2d3e4f5a6b7c8d9';
+  const consultor: ContextoOrganizacion = { email: 'consultor@externo.test', organizacionId: 'org-consultora', rol: 'owner' };
+
+  beforeEach(() => {
+    db.cultivos.clear();
+    db.cultivos.set(CULTIVO_ID, { _id: CULTIVO_ID, nombre: 'Carpa 1', ...deOtroMiembro });
+    db.accesos = [];
+  });
+
+  it('devuelve el cultivo y los permisos a los miembros de la organización', async () => {
+    const resultado = await buscarCultivoAccesible(connection, miembro('owner'), CULTIVO_ID);
+    expect(resultado?.cultivo).toMatchObject({ nombre: 'Carpa 1' });
+    expect(resultado?.permisos).toMatchObject({ editar: true, eliminar: true, compartir: true });
+  });
+
+  it.each([
+    ['viewer', { editar: false, comentar: false }],
+    ['commenter', { editar: false, comentar: true }],
+    ['editor', { editar: true, comentar: true }]
+  ] as const)('da acceso %s a quien aceptó la invitación', async (rol, permisos) => {
+    db.accesos = [{ cultivoId: CULTIVO_ID, email: consultor.email, rol, estado: 'aceptada' }];
+
+    const resultado = await buscarCultivoAccesible(connection, consultor, CULTIVO_ID);
+
+    expect(resultado?.permisos).toEqual({ ...permisos, eliminar: false, compartir: false, acceso: rol });
+  });
+
+  it('no da acceso con la invitación pendiente', async () => {
+    db.accesos = [{ cultivoId: CULTIVO_ID, email: consultor.email, rol: 'editor', estado: 'pendiente' }];
+    expect(await buscarCultivoAccesible(connection, consultor, CULTIVO_ID)).toBeNull();
+  });
+
+  it('no da acceso con una invitación a otro cultivo', async () => {
+    db.accesos = [{ cultivoId: '64b7f0a1c2d3e4f5a6b7c8da', email: consultor.email, rol: 'editor', estado: 'aceptada' }];
+    expect(await buscarCultivoAccesible(connection, consultor, CULTIVO_ID)).toBeNull();
+  });
+
+  it('devuelve null con IDs inválidos o cultivos inexistentes', async () => {
+    expect(await buscarCultivoAccesible(connection, miembro('owner'), 'no-es-un-id')).toBeNull();
+    expect(await buscarCultivoAccesible(connection, miembro('owner'), null)).toBeNull();
+    expect(await buscarCultivoAccesible(connection, miembro('owner'), '64b7f0a1c2d3e4f5a6b7c8db')).toBeNull();
+  });
+
+  it('construirFiltroCultivos suma los cultivos compartidos a los de la organización', async () => {
+    db.accesos = [
+      { cultivoId: CULTIVO_ID, email: consultor.email, rol: 'viewer', estado: 'aceptada' },
+      { cultivoId: '64b7f0a1c2d3e4f5a6b7c8da', email: consultor.email, rol: 'viewer', estado: 'pendiente' }
+    ];
+
+    expect(await construirFiltroCultivos(connection, consultor)).toEqual({
+      $or: [{ organizacionId: 'org-consultora' }, { _id: { $in: [CULTIVO_ID] } }]
+    });
+    expect(await construirFiltroCultivos(connection, miembro('owner'))).toEqual({ organizacionId: ORGANIZACION });
+  });
+});
+
+describe('obtenerContextoOrganizacion', () => {
+  const ADMIN = 'admin@canopia.test';
+  const GROWER = 'grower@canopia.test';
+
+  beforeEach(() => {
+    db.usuarios = [];
+    db.organizaciones = [];
+    db.adopciones = [];
+  });
+
+  it('mantiene la organización activa guardada si sigue siendo miembro', async () => {
+    const organizacion = crearOrganizacion({ miembros: [{ email: GROWER, rol: 'grower' }], creadoPor: ADMIN });
+    db.usuarios = [{ email: GROWER, role: 'user', organizacionId: organizacion._id.toString(), activo: true }];
+
+    expect(await obtenerContextoOrganizacion(connection, GROWER)).toEqual({
+      email: GROWER,
+      organizacionId: organizacion._id.toString(),
+      rol: 'grower'
+    });
+    expect(db.organizaciones).toHaveLength(1);
+  });
+
+  it('suma como grower a la organización del admin creador a quien entra antes de la migración', async () => {
+    const delAdmin = crearOrganizacion({ miembros: [{ email: ADMIN, rol: 'owner' }], creadoPor: ADMIN });
+    db.usuarios = [
+      { email: ADMIN, role: 'admin', organizacionId: delAdmin._id.toString(), activo: true },
+      { email: GROWER, role: 'user', creadoPor: ADMIN, activo: true }
+    ];
+
+    const contexto = await obtenerContextoOrganizacion(connection, GROWER);
+
+    expect(contexto).toEqual({ email: GROWER, organizacionId: delAdmin._id.toString(), rol: 'grower' });
+    expect(db.organizaciones).toHaveLength(1);
+    expect(delAdmin.miembros).toContainEqual(expect.objectContaining({ email: GROWER, rol: 'grower', invitadoPor: ADMIN }));
+    expect(db.usuarios[1].organizacionId).toBe(delAdmin._id.toString());
+    expect(db.adopciones).toContainEqual({ email: GROWER, organizacionId: delAdmin._id.toString() });
+  });
+
+  it('crea primero la organización del admin si todavía no tiene una', async () => {
+    db.usuarios = [
+      { email: ADMIN, role: 'admin', activo: true },
+      { email: GROWER, role: 'user', creadoPor: ADMIN, activo: true }
+    ];
+
+    const contexto = await obtenerContextoOrganizacion(connection, GROWER);
+
+    expect(db.organizaciones).toHaveLength(1);
+    expect(db.organizaciones[0].miembros).toEqual([
+      expect.objectContaining({ email: ADMIN, rol: 'owner' }),
+      expect.objectContaining({ email: GROWER, rol: 'grower' })
+    ]);
+    expect(contexto.organizacionId).toBe(db.organizaciones[0]._id.toString());
+    expect(await obtenerContextoOrganizacion(connection, ADMIN)).toMatchObject({ organizacionId: contexto.organizacionId, rol: 'owner' });
+  });
+
+  it('crea una organización personal a quien se registró por su cuenta', async () => {
+    db.usuarios = [{ email: GROWER, role: 'user', activo: true }];
+
+    const contexto = await obtenerContextoOrganizacion(connection, GROWER);
+
+    expect(contexto.rol).toBe('owner');
+    expect(db.organizaciones).toEqual([expect.objectContaining({ creadoPor: GROWER, miembros: [{ email: GROWER, rol: 'owner' }] })]);
+    expect(db.adopciones).toContainEqual({ email: GROWER, organizacionId: contexto.organizacionId });
+  });
+
+  it('crea una organización personal si el admin creador ya no está activo', async () => {
+    db.usuarios = [
+      { email: ADMIN, role: 'admin', activo: false },
+      { email: GROWER, role: 'user', creadoPor: ADMIN, activo: true }
+    ];
+
+    const contexto = await obtenerContextoOrganizacion(connection, GROWER);
+
+    expect(contexto.rol).toBe('owner');
+    expect(db.organizaciones).toEqual([expect.objectContaining({ creadoPor: GROWER })]);
+  });
+});
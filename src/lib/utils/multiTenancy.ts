@@ -1,205 +1,446 @@
 /**
- * Utilidades para Multi-tenancy y Filtrado por Usuario
+ * Utilidades para Multi-tenancy por Organización
  *
- * Este módulo proporciona funciones helper para implementar el sistema de multi-tenancy
- * donde cada usuario solo puede ver y gestionar sus propios datos y los de sus sub-usuarios.
+ * Este módulo resuelve a qué organización pertenece el usuario de cada request y
+ * construye los filtros y verificaciones de permisos de cultivos, tareas,
+ * comentarios y notas. Reemplaza a la regla anterior basada en Usuario.creadoPor
+ * (admin ve lo de sus usuarios creados; usuario ve lo de su admin), que no
+ * soportaba dos admins ni cambios de equipo.
  *
  * Reglas de Multi-tenancy:
- * - Admin: Ve sus datos + datos de usuarios que creó
- * - User: Ve sus datos + datos del admin que lo creó
+ * - Cada dato compartido lleva organizacionId y solo lo ven los miembros de esa organización
+ * - owner: lee, crea, edita y elimina todo; administra los miembros
+ * - grower: lee, crea y edita todo; solo elimina lo que creó
+ * - viewer: solo lectura
+ *
+ * Además, un cultivo puede compartirse con personas de fuera de la organización
+ * mediante su lista de acceso (AccesoCultivo): viewer lee, commenter además
+ * comenta y editor además edita el cultivo. Eliminar y compartir siguen siendo
+ * exclusivos de la organización.
  */
 
-import Usuario from '@/lib/models/Usuario';
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import {
+  getUsuarioModel,
+  getOrganizacionModel,
+  getCultivoModel,
+  getTareaModel,
+  getComentarioModel,
+  getNotaModel,
+  getAccesoCultivoModel
+} from '@/lib/mongodb';
+import type { OrganizacionDocument } from '@/lib/models/Organizacion';
+import type { RolOrganizacion } from '@/types/organizacion';
+import type { PermisosCultivo, RolAccesoCultivo } from '@/types/accesoCultivo';
 
 /**
- * Tipo para representar un usuario validado
+ * Organización activa del usuario de la request y su rol en ella
  */
-export type UsuarioValidado = {
+export interface ContextoOrganizacion {
   email: string;
-  role: 'admin' | 'user';
-};
+  organizacionId: string;
+  rol: RolOrganizacion;
+}
 
 /**
- * Función helper para obtener emails de usuarios creados por un admin
- * @param adminEmail - Email del admin
- * @returns Array de emails de usuarios creados por este admin
+ * Datos de un recurso necesarios para decidir permisos
  */
-export async function getUsuariosCreadosPor(adminEmail: string): Promise<string[]> {
-  try {
-    const usuarios = await Usuario.find({
-      creadoPor: adminEmail,
-      activo: true
-    }).select('email').lean();
+export interface RecursoOrganizacion {
+  organizacionId?: string;
+  creadoPor?: string;
+  accesos?: { email: string; rol: RolAccesoCultivo }[]; // Invitaciones aceptadas del cultivo
+}
 
-    return usuarios.map(u => u.email);
-  } catch (error) {
-    console.error('Error obteniendo usuarios creados por admin:', error);
-    return [];
-  }
+/**
+ * Asigna a la organización los recursos del usuario que todavía no tienen una
+ * (datos creados antes de las organizaciones o de correr la migración)
+ */
+async function adoptarRecursosSinOrganizacion(
+  connection: mongoose.Connection,
+  email: string,
+  organizacionId: string
+): Promise<void> {
+  const sinOrganizacion = { organizacionId: { $exists: false } };
+
+  await Promise.all([
+    getCultivoModel(connection).updateMany({ creadoPor: email, ...sinOrganizacion }, { $set: { organizacionId } }),
+    getTareaModel(connection).updateMany({ creadoPor: email, ...sinOrganizacion }, { $set: { organizacionId } }),
+    getComentarioModel(connection).updateMany({ creadoPor: email, ...sinOrganizacion }, { $set: { organizacionId } }),
+    getNotaModel(connection).updateMany({ author: email, ...sinOrganizacion }, { $set: { organizacionId } })
+  ]);
 }
 
 /**
- * Construye el filtro de MongoDB para multi-tenancy basado en el usuario
+ * Suma al usuario como grower a la organización del admin que lo creó
+ * (regla anterior a las organizaciones: el usuario ve lo de su admin). Así un
+ * usuario que entra antes de correr la migración no queda en una organización
+ * propia, separado de su equipo.
  *
- * Reglas:
- * - Admin: Puede ver sus propios datos + datos de usuarios que creó
- * - User: Puede ver sus propios datos + datos del admin que lo creó
- *
- * @param user - Usuario validado con email y role
- * @returns Objeto de filtro para MongoDB
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export async function construirFiltroUsuario(user: UsuarioValidado): Promise<any> {
-  if (user.role === 'admin') {
-    // Admin ve sus datos y los de usuarios que creó
-    const usuariosCreados = await getUsuariosCreadosPor(user.email);
-
-    return {
-      $or: [
-        { creadoPor: user.email },           // Datos que creó él
-        { creadoPor: { $in: usuariosCreados } } // Datos de usuarios que creó
-      ]
-    };
-  } else {
-    // User normal ve sus datos y los de su admin creador
-    try {
-      const usuarioDoc = await Usuario.findOne({
-        email: user.email,
-        activo: true
-      }).select('creadoPor').lean();
-
-      const adminCreador = usuarioDoc?.creadoPor;
-
-      if (adminCreador) {
-        return {
-          $or: [
-            { creadoPor: user.email },           // Sus propios datos
-            { creadoPor: adminCreador }          // Datos de su admin
-          ]
-        };
-      } else {
-        // Si no tiene admin creador, solo ve sus propios datos
-        return { creadoPor: user.email };
-      }
-    } catch (error) {
-      console.error('Error obteniendo admin creador:', error);
-      // En caso de error, solo mostrar sus propios datos
-      return { creadoPor: user.email };
-    }
-  }
+ * @returns La organización del admin, o null si el usuario no tiene un admin creador activo
+ */
+async function unirAOrganizacionDelCreador(
+  connection: mongoose.Connection,
+  usuario: { email: string; role?: string; creadoPor?: string }
+): Promise<OrganizacionDocument | null> {
+  if (usuario.role === 'admin' || !usuario.creadoPor || usuario.creadoPor === usuario.email) return null;
+
+  const creador = await getUsuarioModel(connection)
+    .findOne({ email: usuario.creadoPor, role: 'admin', activo: true })
+    .select('email')
+    .lean();
+  if (!creador) return null;
+
+  const contextoCreador = await obtenerContextoOrganizacion(connection, creador.email);
+  return await agregarMiembroOrganizacion(connection, contextoCreador.organizacionId, usuario.email, 'grower', creador.email);
 }
 
 /**
- * Verifica si un usuario puede acceder a un recurso específico
+ * Obtiene la organización activa del usuario y su rol
+ *
+ * Si la organización guardada en Usuario.organizacionId ya no lo incluye, usa la
+ * primera a la que pertenezca. Si no pertenece a ninguna, se suma como grower a
+ * la organización de su admin creador; solo quien se registró por su cuenta (o
+ * cuyo admin ya no está activo) recibe una organización personal como owner. En
+ * ambos casos se le asignan los datos que tenga sin organización.
  *
- * @param user - Usuario que intenta acceder
- * @param recursoCreadoPor - Email del usuario que creó el recurso
- * @returns true si puede acceder, false si no
+ * @param connection - Conexión a la base principal
+ * @param email - Email del usuario autenticado
+ * @returns Contexto con organizacionId y rol
  */
-export async function puedeAccederARecurso(
-  user: UsuarioValidado,
-  recursoCreadoPor: string
-): Promise<boolean> {
+export async function obtenerContextoOrganizacion(
+  connection: mongoose.Connection,
+  email: string
+): Promise<ContextoOrganizacion> {
+  const UsuarioModel = getUsuarioModel(connection);
+  const OrganizacionModel = getOrganizacionModel(connection);
+
+  const usuario = await UsuarioModel.findOne({ email }).select('organizacionId role creadoPor').lean();
+
+  // Organización activa guardada, si todavía es miembro
+  let organizacion: OrganizacionDocument | null = usuario?.organizacionId && mongoose.isValidObjectId(usuario.organizacionId)
+    ? await OrganizacionModel.findOne({ _id: usuario.organizacionId, activo: true, 'miembros.email': email })
+    : null;
+
+  // Si no, la primera organización a la que pertenezca
+  if (!organizacion) {
+    organizacion = await OrganizacionModel
+      .findOne({ activo: true, 'miembros.email': email })
+      .sort({ fechaCreacion: 1 });
+  }
 
-  // Si el recurso fue creado por el mismo usuario, siempre puede acceder
-  if (recursoCreadoPor === user.email) {
-    return true;
+  // Si no pertenece a ninguna, sumarlo a la de su admin creador
+  if (!organizacion && usuario) {
+    organizacion = await unirAOrganizacionDelCreador(connection, { email, role: usuario.role, creadoPor: usuario.creadoPor });
+    if (organizacion) await adoptarRecursosSinOrganizacion(connection, email, organizacion._id.toString());
   }
 
-  if (user.role === 'admin') {
-    // Admin puede acceder a recursos de usuarios que creó
-    const usuariosCreados = await getUsuariosCreadosPor(user.email);
-    return usuariosCreados.includes(recursoCreadoPor);
+  // Registrado por su cuenta: crear su organización personal
+  if (!organizacion) {
+    organizacion = await OrganizacionModel.create({
+      nombre: `Organización de ${email}`,
+      miembros: [{ email, rol: 'owner' }],
+      creadoPor: email
+    });
+    await adoptarRecursosSinOrganizacion(connection, email, organizacion._id.toString());
+  }
+
+  const organizacionId = organizacion._id.toString();
+  if (usuario?.organizacionId !== organizacionId) {
+    await UsuarioModel.updateOne({ email }, { $set: { organizacionId } });
+  }
+
+  const miembro = organizacion.miembros.find(m => m.email === email);
+
+  return {
+    email,
+    organizacionId,
+    rol: miembro?.rol ?? 'viewer'
+  };
+}
+
+/**
+ * Agrega un usuario a la organización (o cambia su rol si ya es miembro)
+ *
+ * @param connection - Conexión a la base principal
+ * @param organizacionId - Organización destino
+ * @param email - Email del usuario que se incorpora
+ * @param rol - Rol dentro de la organización
+ * @param invitadoPor - Email del owner que lo agrega
+ * @returns La organización actualizada, o null si no existe
+ */
+export async function agregarMiembroOrganizacion(
+  connection: mongoose.Connection,
+  organizacionId: string,
+  email: string,
+  rol: RolOrganizacion,
+  invitadoPor?: string
+): Promise<OrganizacionDocument | null> {
+  const organizacion = await getOrganizacionModel(connection).findOne({ _id: organizacionId, activo: true });
+  if (!organizacion) return null;
+
+  const miembro = organizacion.miembros.find(m => m.email === email);
+  if (miembro) {
+    miembro.rol = rol;
   } else {
-    // User puede acceder a recursos de su admin creador
-    try {
-      const usuarioDoc = await Usuario.findOne({
-        email: user.email,
-        activo: true
-      }).select('creadoPor').lean();
-
-      return usuarioDoc?.creadoPor === recursoCreadoPor;
-    } catch (error) {
-      console.error('Error verificando acceso a recurso:', error);
-      return false;
-    }
+    organizacion.miembros.push({ email, rol, fechaAlta: new Date().toISOString().split('T')[0], invitadoPor });
   }
+  organizacion.fechaActualizacion = new Date().toISOString();
+
+  return await organizacion.save();
+}
+
+/**
+ * Construye el filtro de MongoDB para multi-tenancy
+ *
+ * @param contexto - Organización activa del usuario
+ * @returns Filtro por organizacionId para cultivos, tareas, comentarios y notas
+ */
+export function construirFiltroUsuario(contexto: ContextoOrganizacion): { organizacionId: string } {
+  return { organizacionId: contexto.organizacionId };
+}
+
+/**
+ * Verifica si el recurso pertenece a la organización activa del usuario
+ */
+function esDeLaOrganizacion(contexto: ContextoOrganizacion, recurso: RecursoOrganizacion): boolean {
+  return !!recurso.organizacionId && recurso.organizacionId === contexto.organizacionId;
+}
+
+/**
+ * Rol del usuario en la lista de acceso del recurso, si fue invitado
+ */
+function rolDeAcceso(contexto: ContextoOrganizacion, recurso: RecursoOrganizacion): RolAccesoCultivo | undefined {
+  return recurso.accesos?.find(a => a.email === contexto.email)?.rol;
+}
+
+/**
+ * Verifica si un usuario puede acceder (leer) un recurso específico
+ *
+ * @param contexto - Organización activa del usuario
+ * @param recurso - organizacionId, creadoPor y lista de acceso del recurso
+ * @returns true si el recurso es de su organización o fue compartido con él
+ */
+export function puedeAccederARecurso(
+  contexto: ContextoOrganizacion,
+  recurso: RecursoOrganizacion
+): boolean {
+  return esDeLaOrganizacion(contexto, recurso) || !!rolDeAcceso(contexto, recurso);
 }
 
 /**
- * Verifica si un usuario puede crear recursos
- * Solo admins pueden crear recursos
+ * Verifica si un usuario puede crear o modificar recursos en su organización
+ * Todos menos los viewers
  *
- * @param user - Usuario a verificar
- * @returns true si puede crear, false si no
+ * @param contexto - Organización activa del usuario
+ * @returns true si puede escribir, false si no
  */
-export function puedeCrearRecursos(user: UsuarioValidado | null): boolean {
-  return user?.role === 'admin';
+export function puedeCrearRecursos(contexto: ContextoOrganizacion): boolean {
+  return contexto.rol !== 'viewer';
 }
 
 /**
  * Verifica si un usuario puede editar un recurso específico
  *
  * Reglas:
- * - Admin: Puede editar cualquier recurso al que tenga acceso
- * - User: Puede editar solo sus propios recursos
+ * - owner y grower: cualquier recurso de la organización
+ * - viewer: ninguno
+ * - invitados: solo con rol editor en la lista de acceso
  *
- * @param user - Usuario que intenta editar
- * @param recursoCreadoPor - Email del creador del recurso
+ * @param contexto - Organización activa del usuario
+ * @param recurso - organizacionId, creadoPor y lista de acceso del recurso
  * @returns true si puede editar, false si no
  */
-export async function puedeEditarRecurso(
-  user: UsuarioValidado,
-  recursoCreadoPor: string
-): Promise<boolean> {
-
-  // Solo puede editar si puede acceder al recurso
-  const puedeAcceder = await puedeAccederARecurso(user, recursoCreadoPor);
-  if (!puedeAcceder) return false;
-
-  // Para usuarios normales, solo pueden editar sus propios recursos
-  if (user.role === 'user') {
-    return recursoCreadoPor === user.email;
-  }
+export function puedeEditarRecurso(
+  contexto: ContextoOrganizacion,
+  recurso: RecursoOrganizacion
+): boolean {
+  if (esDeLaOrganizacion(contexto, recurso) && puedeCrearRecursos(contexto)) return true;
+  return rolDeAcceso(contexto, recurso) === 'editor';
+}
 
-  // Admins pueden editar cualquier recurso al que tengan acceso
-  return true;
+/**
+ * Verifica si un usuario puede comentar un recurso específico
+ *
+ * Reglas:
+ * - owner y grower: cualquier recurso de la organización
+ * - invitados: con rol commenter o editor en la lista de acceso
+ *
+ * @param contexto - Organización activa del usuario
+ * @param recurso - organizacionId, creadoPor y lista de acceso del recurso
+ * @returns true si puede comentar, false si no
+ */
+export function puedeComentarRecurso(
+  contexto: ContextoOrganizacion,
+  recurso: RecursoOrganizacion
+): boolean {
+  if (puedeEditarRecurso(contexto, recurso)) return true;
+  return rolDeAcceso(contexto, recurso) === 'commenter';
 }
 
 /**
  * Verifica si un usuario puede eliminar un recurso específico
  *
  * Reglas:
- * - Admin: Puede eliminar cualquier recurso al que tenga acceso
- * - User: NO puede eliminar recursos (solo lectura)
+ * - owner: cualquier recurso de la organización
+ * - grower: solo los que creó
+ * - viewer e invitados: ninguno
  *
- * @param user - Usuario que intenta eliminar
- * @param recursoCreadoPor - Email del creador del recurso
+ * @param contexto - Organización activa del usuario
+ * @param recurso - organizacionId y creadoPor del recurso
  * @returns true si puede eliminar, false si no
  */
-export async function puedeEliminarRecurso(
-  user: UsuarioValidado,
-  recursoCreadoPor: string
-): Promise<boolean> {
+export function puedeEliminarRecurso(
+  contexto: ContextoOrganizacion,
+  recurso: RecursoOrganizacion
+): boolean {
+  if (!esDeLaOrganizacion(contexto, recurso)) return false;
+  if (contexto.rol === 'owner') return true;
+  return contexto.rol === 'grower' && recurso.creadoPor === contexto.email;
+}
+
+/**
+ * Verifica si un usuario puede administrar la lista de acceso de un recurso
+ * Solo owners y growers de la organización dueña; los invitados no pueden re-compartir
+ *
+ * @param contexto - Organización activa del usuario
+ * @param recurso - organizacionId del recurso
+ * @returns true si puede invitar y revocar accesos
+ */
+export function puedeCompartirRecurso(
+  contexto: ContextoOrganizacion,
+  recurso: RecursoOrganizacion
+): boolean {
+  return esDeLaOrganizacion(contexto, recurso) && puedeCrearRecursos(contexto);
+}
 
-  // Solo admins pueden eliminar recursos
-  if (user.role !== 'admin') return false;
+/**
+ * Resume los permisos del usuario sobre un cultivo para la interfaz
+ *
+ * @param contexto - Organización activa del usuario
+ * @param recurso - organizacionId, creadoPor y lista de acceso del cultivo
+ */
+export function permisosCultivo(
+  contexto: ContextoOrganizacion,
+  recurso: RecursoOrganizacion
+): PermisosCultivo {
+  return {
+    editar: puedeEditarRecurso(contexto, recurso),
+    comentar: puedeComentarRecurso(contexto, recurso),
+    eliminar: puedeEliminarRecurso(contexto, recurso),
+    compartir: puedeCompartirRecurso(contexto, recurso),
+    acceso: esDeLaOrganizacion(contexto, recurso) ? undefined : rolDeAcceso(contexto, recurso)
+  };
+}
 
-  // Solo puede eliminar si puede acceder al recurso
-  return await puedeAccederARecurso(user, recursoCreadoPor);
+/**
+ * IDs de los cultivos compartidos con el usuario (invitaciones aceptadas)
+ *
+ * @param connection - Conexión a la base principal
+ * @param contexto - Organización activa del usuario
+ */
+export async function obtenerCultivosCompartidos(
+  connection: mongoose.Connection,
+  contexto: ContextoOrganizacion
+): Promise<string[]> {
+  const accesos = await getAccesoCultivoModel(connection)
+    .find({ email: contexto.email, estado: 'aceptada' })
+    .select('cultivoId')
+    .lean();
+  return accesos.map(a => a.cultivoId);
 }
 
 /**
- * Función helper para obtener el filtro de usuarios disponibles para un admin
- * Útil para mostrar listas de usuarios que un admin puede gestionar
+ * Construye el filtro de cultivos: los de la organización más los compartidos
+ * con el usuario por su lista de acceso
  *
- * @param adminEmail - Email del admin
- * @returns Filtro MongoDB para usuarios que este admin puede ver
+ * @param connection - Conexión a la base principal
+ * @param contexto - Organización activa del usuario
  */
-export function getFiltroUsuariosVisibles(adminEmail: string) {
-  // Un admin solo puede ver usuarios que él mismo creó
+export async function construirFiltroCultivos(
+  connection: mongoose.Connection,
+  contexto: ContextoOrganizacion
+): Promise<Record<string, unknown>> {
+  const compartidos = await obtenerCultivosCompartidos(connection, contexto);
+  if (compartidos.length === 0) return construirFiltroUsuario(contexto);
+
   return {
-    creadoPor: adminEmail,
-    activo: true
+    $or: [
+      construirFiltroUsuario(contexto),
+      { _id: { $in: compartidos.filter(id => mongoose.isValidObjectId(id)) } }
+    ]
+  };
+}
+
+/**
+ * Busca un cultivo si el usuario puede verlo (por su organización o por la lista
+ * de acceso) y calcula sus permisos sobre él
+ *
+ * @param connection - Conexión a la base principal
+ * @param contexto - Organización activa del usuario
+ * @param cultivoId - ID del cultivo
+ * @returns El cultivo (lean) y los permisos, o null si no existe o no tiene acceso
+ */
+export async function buscarCultivoAccesible(
+  connection: mongoose.Connection,
+  contexto: ContextoOrganizacion,
+  cultivoId: string | null | undefined
+) {
+  if (!cultivoId || !mongoose.isValidObjectId(cultivoId)) return null;
+
+  const cultivo = await getCultivoModel(connection).findById(cultivoId).lean();
+  if (!cultivo) return null;
+
+  const acceso = await getAccesoCultivoModel(connection)
+    .findOne({ cultivoId, email: contexto.email, estado: 'aceptada' })
+    .select('email rol')
+    .lean();
+
+  const recurso: RecursoOrganizacion = {
+    organizacionId: cultivo.organizacionId,
+    creadoPor: cultivo.creadoPor,
+    accesos: acceso ? [{ email: acceso.email, rol: acceso.rol }] : []
   };
+  if (!puedeAccederARecurso(contexto, recurso)) return null;
+
+  return { cultivo, permisos: permisosCultivo(contexto, recurso) };
+}
+
+/**
+ * Filtro para listar datos de un cultivo (tareas, comentarios): si el cultivo fue
+ * compartido con el usuario, filtra por la organización dueña del cultivo; si no,
+ * por la organización activa del usuario
+ *
+ * @param connection - Conexión a la base principal
+ * @param contexto - Organización activa del usuario
+ * @param cultivoId - ID del cultivo consultado (opcional)
+ */
+export async function construirFiltroCultivo(
+  connection: mongoose.Connection,
+  contexto: ContextoOrganizacion,
+  cultivoId: string | null | undefined
+): Promise<{ organizacionId: string }> {
+  const accesible = cultivoId ? await buscarCultivoAccesible(connection, contexto, cultivoId) : null;
+  if (accesible?.cultivo.organizacionId) {
+    return { organizacionId: accesible.cultivo.organizacionId };
+  }
+  return construirFiltroUsuario(contexto);
+}
+
+/**
+ * Respuesta 403 para operaciones que el rol del usuario no permite
+ * Mismo formato que los errores de requireAuth
+ *
+ * @param message - Explicación para el usuario
+ */
+export function respuestaSinPermisos(message: string): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Permisos insuficientes',
+      message,
+      code: 'sin_permisos'
+    },
+    { status: 403 }
+  );
 }
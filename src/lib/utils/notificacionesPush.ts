@@ -0,0 +1,165 @@
+/**
+ * Avisos push de tareas vencidas y comentarios críticos
+ *
+ * Complementa al despachador de recordatorios con dos eventos que solo se
+ * envían por Web Push, con enlace profundo a /cultivo/[id]:
+ * - Tareas vencidas: tareas pendientes cuya fecha ya pasó (se marcan 'vencida',
+ *   igual que el pre-save del modelo Tarea). Se avisa una vez por tarea.
+ * - Comentarios críticos: al crear un comentario con prioridad 'critica'
+ *   (o al subirlo a esa prioridad), incluidos los generados por alertas.
+ *
+ * Se respeta notificacionesDesktop de la configuración del dueño del cultivo.
+ */
+
+import type mongoose from 'mongoose';
+import type { ComentarioCultivo } from '@/types/chat';
+import type { MensajeNotificacion } from '@/types/notificacion';
+import {
+  getTareaModel,
+  getCultivoModel,
+  getConfiguracionNotificacionesModel,
+  getIntentoEntregaModel
+} from '@/lib/mongodb';
+import { estaConfiguradoWebPush, tieneSuscripcionesPush, enviarPushAUsuario } from '@/lib/services/webPush';
+import { MAX_INTENTOS_POR_CANAL } from './recordatorios';
+
+/**
+ * Días hacia atrás en los que una tarea vencida todavía se notifica
+ * Evita una avalancha de avisos la primera vez que se activa el push
+ */
+export const DIAS_AVISO_TAREA_VENCIDA = 7;
+
+/**
+ * Indica si corresponde enviar push a un usuario
+ */
+async function aceptaPush(connection: mongoose.Connection, usuarioEmail: string): Promise<boolean> {
+  const configuracion = await getConfiguracionNotificacionesModel(connection).obtenerParaUsuario(usuarioEmail);
+  return configuracion.notificacionesDesktop && await tieneSuscripcionesPush(connection, usuarioEmail);
+}
+
+/**
+ * Marca como vencidas las tareas pendientes atrasadas y avisa por push a sus dueños
+ * @param connection - Conexión a la base de datos
+ * @param ahora - Momento de referencia (por defecto, el actual)
+ * @returns Cantidad de tareas notificadas
+ */
+export async function notificarTareasVencidas(
+  connection: mongoose.Connection,
+  ahora: Date = new Date()
+): Promise<number> {
+  const hoy = ahora.toISOString().split('T')[0];
+  const desde = new Date(ahora.getTime() - DIAS_AVISO_TAREA_VENCIDA * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const TareaModel = getTareaModel(connection) as any;
+
+  // Mismo criterio que el pre-save de Tarea
+  await TareaModel.updateMany(
+    { fechaProgramada: { $lt: hoy }, estado: 'pendiente' },
+    { $set: { estado: 'vencida' } }
+  );
+
+  if (!estaConfiguradoWebPush()) return 0;
+
+  const vencidas = await TareaModel.find({
+    estado: 'vencida',
+    fechaProgramada: { $gte: desde, $lt: hoy }
+  }).select('cultivoId titulo fechaProgramada creadoPor').lean();
+  if (vencidas.length === 0) return 0;
+
+  // Intentos previos: se omiten las tareas ya avisadas o sin reintentos disponibles
+  const IntentoModel = getIntentoEntregaModel(connection);
+  const previos = await IntentoModel.find({
+    tipo: 'tarea_vencida',
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    tareaId: { $in: vencidas.map((t: any) => t._id.toString()) }
+  }).select('tareaId estado').lean();
+
+  const historial = new Map<string, { enviado: boolean; fallidos: number }>();
+  for (const previo of previos) {
+    const estado = historial.get(previo.tareaId) || { enviado: false, fallidos: 0 };
+    if (previo.estado === 'enviado') estado.enviado = true;
+    if (previo.estado === 'fallido') estado.fallidos++;
+    historial.set(previo.tareaId, estado);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const CultivoModel = getCultivoModel(connection) as any;
+  const aceptan = new Map<string, boolean>();
+  let notificadas = 0;
+
+  for (const tarea of vencidas) {
+    const tareaId = tarea._id.toString();
+    const previo = historial.get(tareaId) || { enviado: false, fallidos: 0 };
+    if (previo.enviado || previo.fallidos >= MAX_INTENTOS_POR_CANAL || !tarea.creadoPor) continue;
+
+    if (!aceptan.has(tarea.creadoPor)) {
+      aceptan.set(tarea.creadoPor, await aceptaPush(connection, tarea.creadoPor));
+    }
+    if (!aceptan.get(tarea.creadoPor)) continue;
+
+    const cultivo = await CultivoModel.findById(tarea.cultivoId).select('nombre').lean();
+    const mensaje: MensajeNotificacion = {
+      tipo: 'tarea_vencida',
+      titulo: `Tarea vencida: ${tarea.titulo}`,
+      cuerpo: `Estaba programada para el ${tarea.fechaProgramada}${cultivo ? ` en ${cultivo.nombre}` : ''}.`,
+      url: `/cultivo/${tarea.cultivoId}`,
+      datos: { tareaId, cultivoId: tarea.cultivoId, fechaOcurrencia: tarea.fechaProgramada }
+    };
+
+    let error: string | undefined;
+    try {
+      await enviarPushAUsuario(connection, tarea.creadoPor, mensaje);
+      notificadas++;
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Error desconocido';
+    }
+
+    // Los fallidos se reintentan en los próximos despachos, igual que los recordatorios
+    await IntentoModel.create({
+      tipo: 'tarea_vencida',
+      tareaId,
+      fechaOcurrencia: tarea.fechaProgramada,
+      cultivoId: tarea.cultivoId,
+      canal: 'push',
+      estado: error ? 'fallido' : 'enviado',
+      intento: previo.fallidos + 1,
+      error: error?.slice(0, 1000),
+      fecha: new Date().toISOString(),
+      creadoPor: tarea.creadoPor
+    });
+  }
+
+  return notificadas;
+}
+
+/**
+ * Avisa por push al dueño del cultivo que se registró un comentario crítico
+ * No lanza errores: un fallo del push no debe afectar al guardado del comentario
+ * @param connection - Conexión a la base de datos
+ * @param comentario - Comentario recién guardado o actualizado
+ */
+export async function notificarComentarioCritico(
+  connection: mongoose.Connection,
+  comentario: Pick<ComentarioCultivo, 'cultivoId' | 'titulo' | 'contenido' | 'autor' | 'prioridad'> & { id: string }
+): Promise<void> {
+  if (comentario.prioridad !== 'critica' || !estaConfiguradoWebPush()) return;
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const CultivoModel = getCultivoModel(connection) as any;
+    const cultivo = await CultivoModel.findById(comentario.cultivoId).select('nombre creadoPor').lean();
+    if (!cultivo?.creadoPor || !(await aceptaPush(connection, cultivo.creadoPor))) return;
+
+    const contenido = comentario.contenido.length > 140 ? `${comentario.contenido.slice(0, 137)}...` : comentario.contenido;
+    await enviarPushAUsuario(connection, cultivo.creadoPor, {
+      tipo: 'comentario_critico',
+      titulo: `⚠️ ${cultivo.nombre}: ${comentario.titulo}`,
+      cuerpo: `${comentario.autor}: ${contenido}`,
+      url: `/cultivo/${comentario.cultivoId}`,
+      datos: { comentarioId: comentario.id, cultivoId: comentario.cultivoId }
+    });
+  } catch (error) {
+    console.error('Error al notificar comentario crítico:', error);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Utilidades para el seguimiento individual de plantas
+ * Etiquetas automáticas y distribución de las plantas en la grilla del cultivo
+ */
+
+import type { Planta, PosicionPlanta } from '@/types/planta';
+
+export const MAX_PLANTAS_POR_CULTIVO = 500;
+
+/**
+ * Etiquetas para mostrar el estado de una planta
+ */
+export const ETIQUETAS_ESTADO_PLANTA: Record<Planta['estado'], string> = {
+  viva: 'Viva',
+  madre: 'Madre',
+  descartada: 'Descartada'
+};
+
+/**
+ * Genera las siguientes etiquetas libres con el formato P1, P2, ...
+ * @param existentes - Etiquetas ya usadas en el cultivo
+ * @param cantidad - Cantidad de etiquetas a generar
+ */
+export function siguientesEtiquetas(existentes: string[], cantidad: number): string[] {
+  const usadas = new Set(existentes.map(e => e.toUpperCase()));
+  const etiquetas: string[] = [];
+  for (let n = 1; etiquetas.length < cantidad; n++) {
+    const etiqueta = `P${n}`;
+    if (!usadas.has(etiqueta)) etiquetas.push(etiqueta);
+  }
+  return etiquetas;
+}
+
+/**
+ * Cantidad de columnas de la grilla: la mayor columna usada o una grilla
+ * aproximadamente cuadrada para la cantidad de plantas
+ */
+export function columnasGrilla(plantas: Pick<Planta, 'posicion'>[], totalPlantas = plantas.length): number {
+  const maxColumna = Math.max(0, ...plantas.map(p => p.posicion?.columna ?? 0));
+  return Math.max(maxColumna, Math.ceil(Math.sqrt(Math.max(totalPlantas, 1))));
+}
+
+/**
+ * Devuelve posiciones libres recorriendo la grilla por filas
+ * @param ocupadas - Posiciones ya asignadas
+ * @param cantidad - Cantidad de posiciones necesarias
+ * @param columnas - Columnas de la grilla
+ */
+export function posicionesLibres(ocupadas: PosicionPlanta[], cantidad: number, columnas: number): PosicionPlanta[] {
+  const claves = new Set(ocupadas.map(p => `${p.fila}:${p.columna}`));
+  const libres: PosicionPlanta[] = [];
+  for (let indice = 0; libres.length < cantidad; indice++) {
+    const posicion = { fila: Math.floor(indice / columnas) + 1, columna: (indice % columnas) + 1 };
+    if (!claves.has(`${posicion.fila}:${posicion.columna}`)) libres.push(posicion);
+  }
+  return libres;
+}
+
+/**
+ * Arma la grilla de celdas (fila por fila) con la planta de cada posición
+ * Las plantas sin posición se devuelven aparte
+ */
+export function armarGrilla<T extends Pick<Planta, 'posicion'>>(plantas: T[]): {
+  filas: (T | null)[][];
+  sinPosicion: T[];
+} {
+  const ubicadas = plantas.filter(p => p.posicion);
+  const sinPosicion = plantas.filter(p => !p.posicion);
+  const columnas = columnasGrilla(ubicadas, plantas.length);
+  const totalFilas = Math.max(1, ...ubicadas.map(p => p.posicion!.fila));
+
+  const filas: (T | null)[][] = Array.from({ length: totalFilas }, () => Array<T | null>(columnas).fill(null));
+  for (const planta of ubicadas) {
+    filas[planta.posicion!.fila - 1][planta.posicion!.columna - 1] = planta;
+  }
+  return { filas, sinPosicion };
+}
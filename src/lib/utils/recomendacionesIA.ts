@@ -0,0 +1,189 @@
+/**
+ * Recomendaciones estructuradas de objetivos del cultivo
+ *
+ * Define el contrato JSON que se pide a la IA para recomendar todos los objetivos
+ * (pH, EC, agua, temperatura y humedad por fase) en una sola consulta, lo valida
+ * contra los rangos del modelo Cultivo y calcula la diferencia con los valores actuales.
+ * Se usa en /api/chat/recomendaciones y en el componente de revisión de recomendaciones.
+ */
+
+import type { Cultivo } from '@/types/cultivo';
+import type { ContextoCultivo } from '@/types/chat';
+import type {
+  CampoObjetivoCultivo,
+  DiferenciaObjetivoIA,
+  RecomendacionObjetivosIA,
+  ValorRecomendadoIA
+} from '@/types/recomendacionIA';
+
+/**
+ * Metadatos de cada campo objetivo (rangos iguales a los del schema de Cultivo)
+ */
+export const CAMPOS_OBJETIVO: Record<CampoObjetivoCultivo, {
+  etiqueta: string;
+  unidad: string;
+  min: number;
+  max: number;
+  decimales: number;
+}> = {
+  phObjetivo: { etiqueta: 'pH objetivo', unidad: '', min: 0, max: 14, decimales: 1 },
+  ecObjetivo: { etiqueta: 'EC objetivo', unidad: 'ppm', min: 0, max: 5000, decimales: 0 },
+  aguaDiariaObjetivo: { etiqueta: 'Agua diaria', unidad: 'L', min: 0, max: 10000, decimales: 1 },
+  tempObjetivoVegetacion: { etiqueta: 'Temperatura en vegetación', unidad: '°C', min: 10, max: 50, decimales: 1 },
+  tempObjetivoFloracion: { etiqueta: 'Temperatura en floración', unidad: '°C', min: 10, max: 50, decimales: 1 },
+  humedadObjetivoVegetacion: { etiqueta: 'Humedad en vegetación', unidad: '%', min: 10, max: 100, decimales: 0 },
+  humedadObjetivoFloracion: { etiqueta: 'Humedad en floración', unidad: '%', min: 10, max: 100, decimales: 0 }
+};
+
+export const CAMPOS_OBJETIVO_LISTA = Object.keys(CAMPOS_OBJETIVO) as CampoObjetivoCultivo[];
+
+const MAX_CARACTERES_JUSTIFICACION = 500;
+
+/**
+ * Indica si un valor es un nombre de campo objetivo
+ */
+export const esCampoObjetivo = (valor: unknown): valor is CampoObjetivoCultivo =>
+  typeof valor === 'string' && valor in CAMPOS_OBJETIVO;
+
+/**
+ * Mensaje que se envía a la IA pidiendo la recomendación en JSON
+ */
+export function construirPedidoRecomendacion(): string {
+  const campos = CAMPOS_OBJETIVO_LISTA
+    .map(campo => {
+      const { etiqueta, unidad, min, max } = CAMPOS_OBJETIVO[campo];
+      return `- ${campo}: ${etiqueta}${unidad ? ` en ${unidad}` : ''} (entre ${min} y ${max})`;
+    })
+    .join('\n');
+
+  return [
+    'Recomienda los valores objetivo para este cultivo considerando la genética, la fase actual, el sustrato, el espacio y las lecturas recientes.',
+    'Responde ÚNICAMENTE con un objeto JSON, sin texto adicional, con esta forma:',
+    '{"objetivos": {"<campo>": {"valor": <número>, "justificacion": "<una o dos oraciones>", "confianza": <número entre 0 y 1>}}, "resumen": "<comentario general breve>"}',
+    'Campos posibles:',
+    campos,
+    'Omite los campos que no puedas recomendar con fundamento.'
+  ].join('\n');
+}
+
+/**
+ * Redondea a la cantidad de decimales indicada
+ */
+const redondear = (valor: number, decimales: number): number => {
+  const factor = Math.pow(10, decimales);
+  return Math.round(valor * factor) / factor;
+};
+
+/**
+ * Extrae el objeto JSON de la respuesta (los modelos a veces lo envuelven en ```json ... ```)
+ */
+function extraerJSON(texto: string): unknown {
+  const inicio = texto.indexOf('{');
+  const fin = texto.lastIndexOf('}');
+  if (inicio === -1 || fin <= inicio) {
+    throw new Error('La respuesta de la IA no contiene un objeto JSON');
+  }
+  return JSON.parse(texto.slice(inicio, fin + 1));
+}
+
+/**
+ * Valida un valor recomendado; devuelve null si no respeta el contrato o el rango del campo
+ */
+function validarValor(campo: CampoObjetivoCultivo, datos: unknown): ValorRecomendadoIA | null {
+  if (!datos || typeof datos !== 'object') return null;
+  const { valor, justificacion, confianza } = datos as Record<string, unknown>;
+  const { min, max, decimales } = CAMPOS_OBJETIVO[campo];
+
+  const numero = typeof valor === 'string' ? parseFloat(valor) : valor;
+  if (typeof numero !== 'number' || !Number.isFinite(numero) || numero < min || numero > max) return null;
+
+  // La confianza se acepta también en porcentaje (0-100)
+  let nivel = typeof confianza === 'number' && Number.isFinite(confianza) ? confianza : 0.5;
+  if (nivel > 1) nivel = nivel / 100;
+
+  return {
+    valor: redondear(numero, decimales),
+    justificacion: typeof justificacion === 'string' && justificacion.trim()
+      ? justificacion.trim().slice(0, MAX_CARACTERES_JUSTIFICACION)
+      : 'Sin justificación',
+    confianza: redondear(Math.min(Math.max(nivel, 0), 1), 2)
+  };
+}
+
+/**
+ * Interpreta la respuesta de la IA según el contrato de construirPedidoRecomendacion
+ * Los campos desconocidos o fuera de rango se descartan
+ * @throws Error si la respuesta no es JSON o no trae ningún objetivo válido
+ */
+export function interpretarRecomendacion(texto: string): Pick<RecomendacionObjetivosIA, 'objetivos' | 'resumen'> {
+  const datos = extraerJSON(texto);
+  if (!datos || typeof datos !== 'object') {
+    throw new Error('La respuesta de la IA no tiene el formato esperado');
+  }
+
+  const { objetivos: objetivosCrudos, resumen } = datos as Record<string, unknown>;
+  const objetivos: RecomendacionObjetivosIA['objetivos'] = {};
+
+  if (objetivosCrudos && typeof objetivosCrudos === 'object') {
+    for (const [campo, valor] of Object.entries(objetivosCrudos)) {
+      if (!esCampoObjetivo(campo)) continue;
+      const validado = validarValor(campo, valor);
+      if (validado) objetivos[campo] = validado;
+    }
+  }
+
+  if (Object.keys(objetivos).length === 0) {
+    throw new Error('La IA no devolvió ningún objetivo válido');
+  }
+
+  return {
+    objetivos,
+    resumen: typeof resumen === 'string' && resumen.trim() ? resumen.trim().slice(0, MAX_CARACTERES_JUSTIFICACION) : undefined
+  };
+}
+
+/**
+ * Compara la recomendación con los valores actuales del cultivo
+ * @param actuales - Valores actuales (el Cultivo guardado o los del formulario)
+ * @param objetivos - Objetivos recomendados
+ */
+export function calcularDiferencias(
+  actuales: Partial<Pick<Cultivo, CampoObjetivoCultivo>>,
+  objetivos: RecomendacionObjetivosIA['objetivos']
+): DiferenciaObjetivoIA[] {
+  return CAMPOS_OBJETIVO_LISTA
+    .filter(campo => objetivos[campo])
+    .map(campo => {
+      const recomendado = objetivos[campo] as ValorRecomendadoIA;
+      const actual = typeof actuales[campo] === 'number' ? actuales[campo] : undefined;
+      return { campo, actual, recomendado, cambia: actual !== recomendado.valor };
+    });
+}
+
+/**
+ * Recomendación determinista a partir del contexto (proveedor local, sin red)
+ * Valores de referencia habituales según la fase actual
+ */
+export function recomendacionDeReferencia(contexto: ContextoCultivo): string {
+  const enFloracion = contexto.fase?.faseActual === 'floracion';
+  const objetivos: Record<string, ValorRecomendadoIA> = {
+    phObjetivo: { valor: 6.2, justificacion: 'Rango óptimo de absorción de nutrientes en sustratos comunes.', confianza: 0.8 },
+    ecObjetivo: enFloracion
+      ? { valor: 1400, justificacion: 'La floración demanda más nutrientes.', confianza: 0.6 }
+      : { valor: 1000, justificacion: 'Demanda moderada de nutrientes en vegetación.', confianza: 0.6 },
+    tempObjetivoVegetacion: { valor: 25, justificacion: 'Temperatura de referencia para crecimiento vegetativo.', confianza: 0.7 },
+    tempObjetivoFloracion: { valor: 23, justificacion: 'Temperaturas algo menores favorecen la producción de resina.', confianza: 0.7 },
+    humedadObjetivoVegetacion: { valor: 65, justificacion: 'Humedad alta favorece el crecimiento vegetativo.', confianza: 0.7 },
+    humedadObjetivoFloracion: { valor: 50, justificacion: 'Humedad baja reduce el riesgo de moho en los cogollos.', confianza: 0.7 }
+  };
+
+  if (contexto.litrosTotales) {
+    objetivos.aguaDiariaObjetivo = {
+      valor: redondear(contexto.litrosTotales * 0.15, 1),
+      justificacion: 'Aproximadamente un 15% del volumen total de sustrato por día.',
+      confianza: 0.4
+    };
+  }
+
+  return JSON.stringify({ objetivos, resumen: `Recomendación de referencia para "${contexto.nombre}".` });
+}
@@ -0,0 +1,310 @@
+/**
+ * Despachador de recordatorios de tareas
+ *
+ * Busca los recordatorios vencidos de todos los usuarios y los entrega por los
+ * canales registrados en canalesNotificacion (email, web push, webhook).
+ * Se ejecuta periódicamente desde /api/cron/recordatorios.
+ *
+ * Reglas de despacho:
+ * - Momento del aviso: fecha y hora de la tarea menos minutosRecordatorio
+ *   (o tiempoRecordatorioDefecto de la configuración del usuario)
+ * - Las tareas recurrentes se expanden en ocurrencias virtuales, igual que en GET /api/tareas
+ * - Cada canal se registra en IntentoEntrega; los fallidos se reintentan
+ *   hasta MAX_INTENTOS_POR_CANAL veces en despachos posteriores
+ * - Un recordatorio se cierra (recordatorioEnviado) cuando todos sus canales
+ *   quedan resueltos: enviados o sin reintentos disponibles
+ * - Los recordatorios de tareas pasadas hace más de HORAS_VIGENCIA_RECORDATORIO se descartan
+ */
+
+import type mongoose from 'mongoose';
+import type { TareaCultivo, ConfiguracionNotificaciones } from '@/types/planificacion';
+import type { MensajeNotificacion, ResumenDespacho } from '@/types/notificacion';
+import {
+  getTareaModel,
+  getCultivoModel,
+  getConfiguracionNotificacionesModel,
+  getIntentoEntregaModel
+} from '@/lib/mongodb';
+import { obtenerCanalesDisponibles, type CanalEntrega } from '@/lib/services/canalesNotificacion';
+import { expandirOcurrencias, fechaOcurrenciaDeReemplazo } from './recurrencia';
+
+/**
+ * Máximo de intentos por recordatorio y canal
+ */
+export const MAX_INTENTOS_POR_CANAL = 3;
+
+/**
+ * Horas después de la tarea en las que todavía se envía su recordatorio
+ */
+export const HORAS_VIGENCIA_RECORDATORIO = 24;
+
+/**
+ * Días hacia adelante en los que se buscan recordatorios (cubre el máximo de minutosRecordatorio)
+ */
+const DIAS_ANTICIPACION = 8;
+
+const MS_DIA = 24 * 60 * 60 * 1000;
+
+/**
+ * Recordatorio pendiente de una tarea concreta o de una ocurrencia virtual
+ */
+interface Recordatorio {
+  tarea: TareaCultivo;
+  tareaId: string;               // ID de la tarea (o de la tarea original si es virtual)
+  fechaOcurrencia: string;       // Fecha notificada (YYYY-MM-DD)
+  momento: Date;                 // Fecha y hora de la tarea
+}
+
+/**
+ * Convierte un documento lean de tarea al formato de la API (id en lugar de _id)
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const serializarTarea = (tarea: any): TareaCultivo => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { _id, __v, ...resto } = tarea;
+  return { ...resto, id: _id.toString() };
+};
+
+/**
+ * Momento de la tarea, con la misma convención que Tarea.findParaRecordatorio
+ */
+export const calcularMomentoTarea = (tarea: Pick<TareaCultivo, 'fechaProgramada' | 'horaProgramada'>): Date =>
+  new Date(`${tarea.fechaProgramada}T${tarea.horaProgramada || '12:00'}:00.000Z`);
+
+/**
+ * Momento en que corresponde enviar el recordatorio de una tarea
+ */
+export const calcularMomentoAviso = (
+  tarea: Pick<TareaCultivo, 'fechaProgramada' | 'horaProgramada' | 'minutosRecordatorio'>,
+  configuracion: Pick<ConfiguracionNotificaciones, 'tiempoRecordatorioDefecto'>
+): Date => {
+  const minutos = tarea.minutosRecordatorio ?? configuracion.tiempoRecordatorioDefecto;
+  return new Date(calcularMomentoTarea(tarea).getTime() - minutos * 60 * 1000);
+};
+
+/**
+ * Construye el mensaje del recordatorio, con enlace al cultivo
+ */
+const construirMensaje = (recordatorio: Recordatorio, nombreCultivo?: string): MensajeNotificacion => {
+  const { tarea } = recordatorio;
+  const cuando = `${recordatorio.fechaOcurrencia}${tarea.horaProgramada ? ` a las ${tarea.horaProgramada}` : ''}`;
+  const lineas = [
+    `${tarea.titulo} está programada para el ${cuando}${nombreCultivo ? ` en ${nombreCultivo}` : ''}.`,
+    tarea.descripcion
+  ].filter(Boolean);
+
+  return {
+    tipo: 'recordatorio_tarea',
+    titulo: `Recordatorio: ${tarea.titulo}`,
+    cuerpo: lineas.join('\n'),
+    url: `/cultivo/${tarea.cultivoId}`,
+    datos: {
+      tareaId: recordatorio.tareaId,
+      fechaOcurrencia: recordatorio.fechaOcurrencia,
+      cultivoId: tarea.cultivoId,
+      tipo: tarea.tipo,
+      prioridad: tarea.prioridad,
+      horaProgramada: tarea.horaProgramada
+    }
+  };
+};
+
+/**
+ * Busca los recordatorios candidatos: tareas concretas y ocurrencias virtuales
+ * con recordatorio activo dentro de la ventana de despacho
+ */
+async function buscarRecordatorios(connection: mongoose.Connection, ahora: Date): Promise<Recordatorio[]> {
+  const desde = new Date(ahora.getTime() - MS_DIA).toISOString().split('T')[0];
+  const hasta = new Date(ahora.getTime() + DIAS_ANTICIPACION * MS_DIA).toISOString().split('T')[0];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const TareaModel = getTareaModel(connection) as any;
+
+  // Tareas concretas (incluye reemplazos de ocurrencias) aún no notificadas
+  const concretas: TareaCultivo[] = (await TareaModel.find({
+    recordatorioActivado: true,
+    recordatorioEnviado: false,
+    estado: { $in: ['pendiente', 'en_progreso'] },
+    fechaProgramada: { $lte: hasta }
+  }).lean()).map(serializarTarea);
+
+  // Series recurrentes vigentes y sus reemplazos en el rango
+  const maestras: TareaCultivo[] = (await TareaModel.find({
+    recordatorioActivado: true,
+    esRecurrente: true,
+    tareaPadreId: { $exists: false },
+    fechaProgramada: { $lte: hasta },
+    $or: [
+      { fechaFinRepeticion: { $exists: false } },
+      { fechaFinRepeticion: null },
+      { fechaFinRepeticion: { $gte: desde } }
+    ]
+  }).lean()).map(serializarTarea);
+
+  const reemplazos: TareaCultivo[] = maestras.length > 0
+    ? (await TareaModel.find({ tareaPadreId: { $in: maestras.map(m => m.id) } }).lean()).map(serializarTarea)
+    : [];
+
+  const recordatorios: Recordatorio[] = concretas.map(tarea => ({
+    tarea,
+    tareaId: tarea.id,
+    fechaOcurrencia: tarea.tareaPadreId ? fechaOcurrenciaDeReemplazo(tarea) : tarea.fechaProgramada,
+    momento: calcularMomentoTarea(tarea)
+  }));
+
+  for (const ocurrencia of expandirOcurrencias(maestras, reemplazos, desde, hasta)) {
+    recordatorios.push({
+      tarea: ocurrencia,
+      tareaId: ocurrencia.tareaPadreId!,
+      fechaOcurrencia: ocurrencia.fechaProgramada,
+      momento: calcularMomentoTarea(ocurrencia)
+    });
+  }
+
+  return recordatorios;
+}
+
+/**
+ * Ejecuta un despacho de recordatorios
+ * @param connection - Conexión a la base de datos
+ * @param ahora - Momento de referencia (por defecto, el actual)
+ * @returns Resumen de la ejecución
+ */
+export async function despacharRecordatorios(
+  connection: mongoose.Connection,
+  ahora: Date = new Date()
+): Promise<ResumenDespacho> {
+  const resumen: ResumenDespacho = { recordatorios: 0, enviados: 0, fallidos: 0, omitidos: 0, completados: 0 };
+
+  const canales = obtenerCanalesDisponibles();
+  const candidatos = await buscarRecordatorios(connection, ahora);
+  if (candidatos.length === 0) return resumen;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const TareaModel = getTareaModel(connection) as any;
+  const ConfiguracionModel = getConfiguracionNotificacionesModel(connection);
+  const IntentoModel = getIntentoEntregaModel(connection);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const CultivoModel = getCultivoModel(connection) as any;
+
+  // Agrupar por dueño para cargar su configuración una sola vez
+  const porUsuario = new Map<string, Recordatorio[]>();
+  for (const recordatorio of candidatos) {
+    const dueno = recordatorio.tarea.creadoPor;
+    if (!dueno) continue;
+    porUsuario.set(dueno, [...(porUsuario.get(dueno) || []), recordatorio]);
+  }
+
+  const vigencia = HORAS_VIGENCIA_RECORDATORIO * 60 * 60 * 1000;
+  const nombresCultivo = new Map<string, string>();
+
+  for (const [usuarioEmail, recordatorios] of porUsuario) {
+    const configuracion = await ConfiguracionModel.obtenerParaUsuario(usuarioEmail);
+    if (!configuracion.recordatoriosActivados) continue;
+
+    const destino = { connection, usuarioEmail, configuracion };
+
+    const vencidos: Recordatorio[] = [];
+    for (const recordatorio of recordatorios) {
+      if (ahora < calcularMomentoAviso(recordatorio.tarea, configuracion)) continue;
+
+      // Tareas demasiado antiguas: se cierran sin enviar
+      if (ahora.getTime() - recordatorio.momento.getTime() > vigencia) {
+        if (!recordatorio.tarea.esOcurrenciaVirtual) {
+          await TareaModel.updateOne({ _id: recordatorio.tareaId }, { $set: { recordatorioEnviado: true } });
+        }
+        resumen.omitidos++;
+        continue;
+      }
+      vencidos.push(recordatorio);
+    }
+
+    resumen.recordatorios += vencidos.length;
+    if (vencidos.length === 0) continue;
+
+    const canalesUsuario: CanalEntrega[] = [];
+    for (const canal of canales) {
+      if (await canal.aplicaA(destino)) canalesUsuario.push(canal);
+    }
+    if (canalesUsuario.length === 0) continue;
+
+    // Historial de intentos previos de estos recordatorios
+    const previos = await IntentoModel.find({
+      creadoPor: usuarioEmail,
+      tipo: 'recordatorio_tarea',
+      tareaId: { $in: Array.from(new Set(vencidos.map(r => r.tareaId))) },
+      fechaOcurrencia: { $in: Array.from(new Set(vencidos.map(r => r.fechaOcurrencia))) }
+    }).select('tareaId fechaOcurrencia canal estado').lean();
+
+    const historial = new Map<string, { enviado: boolean; fallidos: number }>();
+    for (const previo of previos) {
+      const clave = `${previo.tareaId}|${previo.fechaOcurrencia}|${previo.canal}`;
+      const estado = historial.get(clave) || { enviado: false, fallidos: 0 };
+      if (previo.estado === 'enviado') estado.enviado = true;
+      if (previo.estado === 'fallido') estado.fallidos++;
+      historial.set(clave, estado);
+    }
+
+    // Nombres de los cultivos para el texto del mensaje
+    const cultivosFaltantes = Array.from(new Set(vencidos.map(r => r.tarea.cultivoId)))
+      .filter(id => !nombresCultivo.has(id));
+    if (cultivosFaltantes.length > 0) {
+      const cultivos = await CultivoModel.find({ _id: { $in: cultivosFaltantes } }).select('nombre').lean();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      cultivos.forEach((cultivo: any) => nombresCultivo.set(cultivo._id.toString(), cultivo.nombre));
+    }
+
+    for (const recordatorio of vencidos) {
+      const mensaje = construirMensaje(recordatorio, nombresCultivo.get(recordatorio.tarea.cultivoId));
+      let resuelto = true;
+      let intentado = false;
+
+      for (const canal of canalesUsuario) {
+        const clave = `${recordatorio.tareaId}|${recordatorio.fechaOcurrencia}|${canal.nombre}`;
+        const previo = historial.get(clave) || { enviado: false, fallidos: 0 };
+        if (previo.enviado || previo.fallidos >= MAX_INTENTOS_POR_CANAL) continue;
+
+        intentado = true;
+        let error: string | undefined;
+        try {
+          await canal.enviar(destino, mensaje);
+        } catch (e) {
+          error = e instanceof Error ? e.message : 'Error desconocido';
+        }
+
+        await IntentoModel.create({
+          tipo: 'recordatorio_tarea',
+          tareaId: recordatorio.tareaId,
+          fechaOcurrencia: recordatorio.fechaOcurrencia,
+          cultivoId: recordatorio.tarea.cultivoId,
+          canal: canal.nombre,
+          estado: error ? 'fallido' : 'enviado',
+          intento: previo.fallidos + 1,
+          error: error?.slice(0, 1000),
+          fecha: new Date().toISOString(),
+          creadoPor: usuarioEmail
+        });
+
+        if (error) {
+          resumen.fallidos++;
+          // Queda pendiente solo si le quedan reintentos
+          if (previo.fallidos + 1 < MAX_INTENTOS_POR_CANAL) resuelto = false;
+        } else {
+          resumen.enviados++;
+        }
+      }
+
+      // Las ocurrencias virtuales no guardan marca: su historial ya las cierra
+      if (recordatorio.tarea.esOcurrenciaVirtual && !intentado) continue;
+
+      if (resuelto) {
+        if (!recordatorio.tarea.esOcurrenciaVirtual) {
+          await TareaModel.updateOne({ _id: recordatorio.tareaId }, { $set: { recordatorioEnviado: true } });
+        }
+        resumen.completados++;
+      }
+    }
+  }
+
+  return resumen;
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { TareaCultivo } from '@/types/planificacion';
+import {
+  calcularFechaOcurrencia,
+  calcularFechasSerie,
+  esFechaDeSerie,
+  esFechaValida,
+  construirIdOcurrencia,
+  parsearIdOcurrencia,
+  expandirOcurrencias
+} from './recurrencia';
+
+/**
+ * Tarea maestra recurrente con los campos mínimos
+ */
+const serie = (datos: Partial<TareaCultivo>): TareaCultivo => ({
+  id: 'abc123',
+  cultivoId: 'cultivo1',
+  titulo: 'Riego',
+  tipo: 'riego',
+  estado: 'pendiente',
+  prioridad: 'media',
+  fechaProgramada: '2026-01-01',
+  fechaCreacion: '2026-01-01',
+  fechaActualizacion: '2026-01-01',
+  esRecurrente: true,
+  frecuencia: 'diaria',
+  recordatorioActivado: false,
+  recordatorioEnviado: false,
+  ...datos
+});
+
+describe('esFechaValida', () => {
+  it('acepta fechas reales en formato YYYY-MM-DD', () => {
+    expect(esFechaValida('2028-02-29')).toBe(true);
+  });
+
+  it('rechaza fechas inexistentes o con otro formato', () => {
+    expect(esFechaValida('2026-02-29')).toBe(false);
+    expect(esFechaValida('2026-13-01')).toBe(false);
+    expect(esFechaValida('01/02/2026')).toBe(false);
+    expect(esFechaValida(null)).toBe(false);
+  });
+});
+
+describe('calcularFechaOcurrencia', () => {
+  it('avanza por días según la frecuencia', () => {
+    expect(calcularFechaOcurrencia('2026-01-01', 'diaria', 3)).toBe('2026-01-04');
+    expect(calcularFechaOcurrencia('2026-01-01', 'semanal', 2)).toBe('2026-01-15');
+    expect(calcularFechaOcurrencia('2026-01-01', 'quincenal', 1)).toBe('2026-01-16');
+    expect(calcularFechaOcurrencia('2026-01-01', 'personalizada', 2, 10)).toBe('2026-01-21');
+  });
+
+  it('una serie mensual del 31 usa el último día de los meses más cortos', () => {
+    const fechas = [0, 1, 2, 3, 4].map(i => calcularFechaOcurrencia('2026-01-31', 'mensual', i));
+    expect(fechas).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30', '2026-05-31']);
+  });
+
+  it('respeta los años bisiestos y el cambio de año', () => {
+    expect(calcularFechaOcurrencia('2027-12-31', 'mensual', 2)).toBe('2028-02-29');
+    expect(calcularFechaOcurrencia('2026-11-30', 'mensual', 3)).toBe('2027-02-28');
+  });
+});
+
+describe('cambios de horario (DST)', () => {
+  const zonaOriginal = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = 'Europe/Madrid';
+  });
+
+  afterAll(() => {
+    process.env.TZ = zonaOriginal;
+  });
+
+  it('una serie diaria no repite ni saltea días al cambiar la hora', () => {
+    // En Europa la hora cambia el 29 de marzo y el 25 de octubre de 2026
+    const tarea = serie({ fechaProgramada: '2026-03-27' });
+    expect(calcularFechasSerie(tarea, '2026-03-27', '2026-03-31')).toEqual([
+      '2026-03-27', '2026-03-28', '2026-03-29', '2026-03-30', '2026-03-31'
+    ]);
+    expect(calcularFechasSerie(tarea, '2026-10-24', '2026-10-26')).toEqual([
+      '2026-10-24', '2026-10-25', '2026-10-26'
+    ]);
+  });
+
+  it('una serie semanal conserva el día de la semana después del cambio', () => {
+    const tarea = serie({ fechaProgramada: '2026-03-23', frecuencia: 'semanal' });
+    expect(calcularFechasSerie(tarea, '2026-03-23', '2026-04-13')).toEqual([
+      '2026-03-23', '2026-03-30', '2026-04-06', '2026-04-13'
+    ]);
+  });
+});
+
+describe('calcularFechasSerie', () => {
+  it('devuelve solo las fechas dentro del rango', () => {
+    const tarea = serie({ frecuencia: 'semanal' });
+    expect(calcularFechasSerie(tarea, '2026-01-10', '2026-01-31')).toEqual(['2026-01-15', '2026-01-22', '2026-01-29']);
+  });
+
+  it('corta en la fecha fin de repetición y omite las excepciones', () => {
+    const tarea = serie({ fechaFinRepeticion: '2026-01-05', excepciones: ['2026-01-03'] });
+    expect(calcularFechasSerie(tarea, '2026-01-01', '2026-01-31')).toEqual(['2026-01-01', '2026-01-02', '2026-01-04', '2026-01-05']);
+  });
+
+  it('no salta los días ajustados a fin de mes al empezar el rango a mitad de la serie', () => {
+    const tarea = serie({ fechaProgramada: '2026-01-31', frecuencia: 'mensual' });
+    expect(calcularFechasSerie(tarea, '2026-02-01', '2026-04-30')).toEqual(['2026-02-28', '2026-03-31', '2026-04-30']);
+  });
+
+  it('respeta el límite de ocurrencias', () => {
+    expect(calcularFechasSerie(serie({}), '2026-01-01', '2026-12-31', 3)).toHaveLength(3);
+  });
+
+  it('no expande tareas no recurrentes', () => {
+    expect(calcularFechasSerie(serie({ esRecurrente: false }), '2026-01-01', '2026-01-31')).toEqual([]);
+  });
+});
+
+describe('esFechaDeSerie', () => {
+  it('reconoce las fechas de la serie aunque sean excepciones', () => {
+    const tarea = serie({ frecuencia: 'semanal', excepciones: ['2026-01-08'] });
+    expect(esFechaDeSerie(tarea, '2026-01-08')).toBe(true);
+    expect(esFechaDeSerie(tarea, '2026-01-09')).toBe(false);
+  });
+});
+
+describe('IDs de ocurrencia', () => {
+  it('construye y vuelve a interpretar el ID', () => {
+    const id = construirIdOcurrencia('abc123', '2026-02-28');
+    expect(id).toBe('abc123_20260228');
+    expect(parsearIdOcurrencia(id)).toEqual({ tareaId: 'abc123', fecha: '2026-02-28' });
+  });
+
+  it('rechaza IDs sin fecha o con fechas inexistentes', () => {
+    expect(parsearIdOcurrencia('abc123')).toBeNull();
+    expect(parsearIdOcurrencia('abc123_20260230')).toBeNull();
+  });
+});
+
+describe('expandirOcurrencias', () => {
+  it('omite la maestra y las fechas con reemplazo guardado', () => {
+    const maestra = serie({ fechaProgramada: '2026-01-01', fechaFinRepeticion: '2026-01-04' });
+    const reemplazo = serie({ id: 'r1', esRecurrente: false, tareaPadreId: 'abc123', fechaOcurrencia: '2026-01-03', fechaProgramada: '2026-01-10' });
+
+    const ocurrencias = expandirOcurrencias([maestra], [reemplazo], '2026-01-01', '2026-01-31');
+
+    expect(ocurrencias.map(o => o.fechaProgramada)).toEqual(['2026-01-02', '2026-01-04']);
+    expect(ocurrencias[0]).toMatchObject({
+      id: 'abc123_20260102',
+      tareaPadreId: 'abc123',
+      esOcurrenciaVirtual: true
+    });
+  });
+});
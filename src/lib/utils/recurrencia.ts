@@ -0,0 +1,235 @@
+/**
+ * Motor de recurrencia de tareas
+ * Expande la configuración de repetición de una tarea (frecuencia, intervalo y
+ * fecha fin) en ocurrencias virtuales para un rango de fechas, al estilo RRULE,
+ * sin necesidad de guardarlas en la base de datos.
+ *
+ * Una serie recurrente se compone de:
+ * - La tarea maestra (esRecurrente y sin tareaPadreId), que es la primera ocurrencia
+ * - Excepciones: fechas de la serie que se omitieron (excepciones de la maestra)
+ * - Reemplazos: tareas guardadas con tareaPadreId que sustituyen una ocurrencia puntual
+ */
+
+import type { TareaCultivo, FrecuenciaRepeticion } from '@/types/planificacion';
+
+/**
+ * Cantidad máxima de ocurrencias que se generan por serie en una sola expansión
+ * Evita respuestas enormes con rangos muy amplios y frecuencias diarias
+ */
+export const MAX_OCURRENCIAS_POR_SERIE = 500;
+
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+const REGEX_FECHA = /^\d{4}-\d{2}-\d{2}$/;
+const REGEX_ID_OCURRENCIA = /^([a-zA-Z0-9]+)_(\d{4})(\d{2})(\d{2})$/;
+
+/**
+ * Convierte una fecha YYYY-MM-DD a milisegundos UTC (sin efectos de zona horaria)
+ */
+const aUTC = (fecha: string): number => {
+  const [anio, mes, dia] = fecha.split('-').map(Number);
+  return Date.UTC(anio, mes - 1, dia);
+};
+
+/**
+ * Convierte milisegundos UTC a fecha YYYY-MM-DD
+ */
+const desdeUTC = (ms: number): string => new Date(ms).toISOString().split('T')[0];
+
+/**
+ * Indica si un texto es una fecha válida en formato YYYY-MM-DD
+ */
+export const esFechaValida = (fecha: string | null | undefined): fecha is string => {
+  if (!fecha || !REGEX_FECHA.test(fecha)) return false;
+  return desdeUTC(aUTC(fecha)) === fecha;
+};
+
+/**
+ * Obtiene el paso en días de una frecuencia, o null si se repite por meses
+ */
+const pasoEnDias = (frecuencia: FrecuenciaRepeticion, intervalo?: number): number | null => {
+  switch (frecuencia) {
+    case 'diaria':
+      return 1;
+    case 'semanal':
+      return 7;
+    case 'quincenal':
+      return 15;
+    case 'mensual':
+      return null;
+    case 'personalizada':
+      return intervalo && intervalo > 0 ? intervalo : 1;
+  }
+};
+
+/**
+ * Calcula la fecha de la n-ésima ocurrencia de una serie (n = 0 es la fecha inicial)
+ * Las series mensuales conservan el día del mes de inicio y, en meses más cortos,
+ * usan el último día del mes (ej: 31 de enero → 28/29 de febrero → 31 de marzo)
+ */
+export const calcularFechaOcurrencia = (
+  fechaInicio: string,
+  frecuencia: FrecuenciaRepeticion,
+  indice: number,
+  intervalo?: number
+): string => {
+  const paso = pasoEnDias(frecuencia, intervalo);
+
+  if (paso !== null) {
+    return desdeUTC(aUTC(fechaInicio) + indice * paso * MS_POR_DIA);
+  }
+
+  const [anio, mes, dia] = fechaInicio.split('-').map(Number);
+  const totalMeses = (mes - 1) + indice;
+  const anioDestino = anio + Math.floor(totalMeses / 12);
+  const mesDestino = totalMeses % 12;
+  const ultimoDia = new Date(Date.UTC(anioDestino, mesDestino + 1, 0)).getUTCDate();
+
+  return desdeUTC(Date.UTC(anioDestino, mesDestino, Math.min(dia, ultimoDia)));
+};
+
+/**
+ * Calcula el índice de la primera ocurrencia que puede caer en o después de una fecha
+ */
+const indiceInicial = (
+  fechaInicio: string,
+  frecuencia: FrecuenciaRepeticion,
+  desde: string,
+  intervalo?: number
+): number => {
+  if (desde <= fechaInicio) return 0;
+
+  const paso = pasoEnDias(frecuencia, intervalo);
+  if (paso !== null) {
+    const dias = Math.round((aUTC(desde) - aUTC(fechaInicio)) / MS_POR_DIA);
+    return Math.ceil(dias / paso);
+  }
+
+  // Por meses: partir del mes anterior para no saltear días ajustados a fin de mes
+  const [anioInicio, mesInicio] = fechaInicio.split('-').map(Number);
+  const [anioDesde, mesDesde] = desde.split('-').map(Number);
+  return Math.max(0, (anioDesde - anioInicio) * 12 + (mesDesde - mesInicio) - 1);
+};
+
+/**
+ * Calcula las fechas de una serie recurrente que caen dentro de un rango
+ * Respeta la fecha fin de repetición y omite las excepciones de la serie
+ * @param tarea - Tarea maestra con la configuración de repetición
+ * @param desde - Fecha inicial del rango (YYYY-MM-DD, inclusive)
+ * @param hasta - Fecha final del rango (YYYY-MM-DD, inclusive)
+ * @param limite - Máximo de fechas a devolver
+ * @returns Fechas ordenadas en formato YYYY-MM-DD
+ */
+export const calcularFechasSerie = (
+  tarea: Pick<TareaCultivo, 'fechaProgramada' | 'esRecurrente' | 'frecuencia' | 'intervaloPersonalizado' | 'fechaFinRepeticion' | 'excepciones'>,
+  desde: string,
+  hasta: string,
+  limite: number = MAX_OCURRENCIAS_POR_SERIE
+): string[] => {
+  if (!tarea.esRecurrente || !tarea.frecuencia || !esFechaValida(tarea.fechaProgramada)) return [];
+
+  const fin = tarea.fechaFinRepeticion && tarea.fechaFinRepeticion < hasta ? tarea.fechaFinRepeticion : hasta;
+  const excepciones = new Set(tarea.excepciones || []);
+  const fechas: string[] = [];
+
+  let indice = indiceInicial(tarea.fechaProgramada, tarea.frecuencia, desde, tarea.intervaloPersonalizado);
+  let fecha = calcularFechaOcurrencia(tarea.fechaProgramada, tarea.frecuencia, indice, tarea.intervaloPersonalizado);
+
+  while (fecha <= fin && fechas.length < limite) {
+    if (fecha >= desde && !excepciones.has(fecha)) {
+      fechas.push(fecha);
+    }
+    indice++;
+    fecha = calcularFechaOcurrencia(tarea.fechaProgramada, tarea.frecuencia, indice, tarea.intervaloPersonalizado);
+  }
+
+  return fechas;
+};
+
+/**
+ * Indica si una fecha corresponde a una ocurrencia de la serie (sin considerar excepciones)
+ */
+export const esFechaDeSerie = (
+  tarea: Pick<TareaCultivo, 'fechaProgramada' | 'esRecurrente' | 'frecuencia' | 'intervaloPersonalizado' | 'fechaFinRepeticion'>,
+  fecha: string
+): boolean => {
+  return calcularFechasSerie({ ...tarea, excepciones: [] }, fecha, fecha, 1).length === 1;
+};
+
+/**
+ * Construye el ID de una ocurrencia virtual: `<idMaestra>_<YYYYMMDD>`
+ */
+export const construirIdOcurrencia = (tareaId: string, fecha: string): string => {
+  return `${tareaId}_${fecha.replace(/-/g, '')}`;
+};
+
+/**
+ * Interpreta el ID de una ocurrencia virtual
+ * @returns ID de la tarea maestra y fecha de la ocurrencia, o null si no es un ID de ocurrencia
+ */
+export const parsearIdOcurrencia = (id: string): { tareaId: string; fecha: string } | null => {
+  const match = REGEX_ID_OCURRENCIA.exec(id);
+  if (!match) return null;
+
+  const fecha = `${match[2]}-${match[3]}-${match[4]}`;
+  return esFechaValida(fecha) ? { tareaId: match[1], fecha } : null;
+};
+
+/**
+ * Fecha de la serie a la que corresponde un reemplazo
+ * Los reemplazos antiguos (generados al completar) no guardaban fechaOcurrencia
+ */
+export const fechaOcurrenciaDeReemplazo = (tarea: Pick<TareaCultivo, 'fechaOcurrencia' | 'fechaProgramada'>): string => {
+  return tarea.fechaOcurrencia || tarea.fechaProgramada;
+};
+
+/**
+ * Expande series recurrentes en ocurrencias virtuales para un rango de fechas
+ * No incluye la propia tarea maestra (primera ocurrencia) ni las fechas que ya
+ * tienen un reemplazo guardado o fueron marcadas como excepción
+ * @param maestras - Tareas maestras recurrentes
+ * @param reemplazos - Tareas guardadas que reemplazan ocurrencias de esas series
+ * @param desde - Fecha inicial del rango (YYYY-MM-DD)
+ * @param hasta - Fecha final del rango (YYYY-MM-DD)
+ * @returns Ocurrencias virtuales ordenadas por fecha
+ */
+export const expandirOcurrencias = (
+  maestras: TareaCultivo[],
+  reemplazos: TareaCultivo[],
+  desde: string,
+  hasta: string
+): TareaCultivo[] => {
+  const hoy = new Date().toISOString().split('T')[0];
+  const ocupadas = new Set(
+    reemplazos
+      .filter(r => r.tareaPadreId)
+      .map(r => `${r.tareaPadreId}|${fechaOcurrenciaDeReemplazo(r)}`)
+  );
+  const ocurrencias: TareaCultivo[] = [];
+
+  for (const maestra of maestras) {
+    if (!maestra.esRecurrente || maestra.tareaPadreId) continue;
+
+    for (const fecha of calcularFechasSerie(maestra, desde, hasta)) {
+      if (fecha === maestra.fechaProgramada || ocupadas.has(`${maestra.id}|${fecha}`)) continue;
+
+      ocurrencias.push({
+        ...maestra,
+        id: construirIdOcurrencia(maestra.id, fecha),
+        fechaProgramada: fecha,
+        fechaOcurrencia: fecha,
+        estado: fecha < hoy ? 'vencida' : 'pendiente',
+        fechaCompletada: undefined,
+        notas: undefined,
+        recordatorioEnviado: false,
+        excepciones: undefined,
+        tareaPadreId: maestra.id,
+        esOcurrenciaVirtual: true
+      });
+    }
+  }
+
+  return ocurrencias.sort((a, b) =>
+    a.fechaProgramada.localeCompare(b.fechaProgramada) ||
+    (a.horaProgramada || '').localeCompare(b.horaProgramada || '')
+  );
+};
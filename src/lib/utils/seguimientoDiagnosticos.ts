@@ -0,0 +1,46 @@
+/**
+ * Seguimiento de diagnósticos en el servidor
+ *
+ * Completa las acciones de los diagnósticos con el estado actual de las tareas
+ * creadas a partir de ellas. Se usa en las rutas de /api/cultivos/[id]/diagnosticos.
+ */
+
+import mongoose from 'mongoose';
+import { getTareaModel } from '@/lib/mongodb';
+import type { Diagnostico } from '@/types/diagnostico';
+import type { EstadoTarea } from '@/types/planificacion';
+
+/**
+ * Agrega estadoTarea a cada acción que ya tiene una tarea asignada
+ * Las tareas eliminadas se informan sin estado (la acción puede volver a convertirse)
+ * @param connection - Conexión de MongoDB
+ * @param diagnosticos - Diagnósticos en formato JSON
+ * @param cultivoId - Cultivo de los diagnósticos (las tareas se crean en el mismo cultivo)
+ */
+export async function adjuntarEstadoTareas(
+  connection: mongoose.Connection,
+  diagnosticos: Diagnostico[],
+  cultivoId: string
+): Promise<Diagnostico[]> {
+  const tareaIds = diagnosticos
+    .flatMap(d => d.acciones.map(a => a.tareaId))
+    .filter((id): id is string => Boolean(id) && mongoose.Types.ObjectId.isValid(id as string));
+
+  if (tareaIds.length === 0) return diagnosticos;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const TareaModel = getTareaModel(connection) as any;
+  const tareas: { _id: mongoose.Types.ObjectId; estado: EstadoTarea }[] = await TareaModel
+    .find({ _id: { $in: tareaIds }, cultivoId }) // 🔒 FILTRO DE SEGURIDAD
+    .select('estado')
+    .lean();
+
+  const estados = new Map(tareas.map(t => [t._id.toString(), t.estado]));
+
+  return diagnosticos.map(diagnostico => ({
+    ...diagnostico,
+    acciones: diagnostico.acciones.map(accion => accion.tareaId && estados.has(accion.tareaId)
+      ? { ...accion, estadoTarea: estados.get(accion.tareaId) }
+      : { ...accion, tareaId: undefined })
+  }));
+}
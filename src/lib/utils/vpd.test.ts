@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analizarAmbiente,
+  calcularHumedadAbsoluta,
+  calcularHumedadParaVPD,
+  calcularPuntoRocio,
+  calcularVPD,
+  evaluarVPD,
+  OFFSET_HOJA_POR_DEFECTO
+} from './vpd';
+
+describe('calcularVPD', () => {
+  // VPD del aire (hoja a la misma temperatura) según las tablas psicrométricas habituales
+  it.each([
+    { temperatura: 25, humedad: 60, vpd: 1.27 },
+    { temperatura: 20, humedad: 50, vpd: 1.17 },
+    { temperatura: 24, humedad: 55, vpd: 1.34 },
+    { temperatura: 26, humedad: 50, vpd: 1.68 },
+    { temperatura: 30, humedad: 70, vpd: 1.27 },
+    { temperatura: 25, humedad: 100, vpd: 0 }
+  ])('$temperatura °C y $humedad % → $vpd kPa', ({ temperatura, humedad, vpd }) => {
+    expect(calcularVPD(temperatura, humedad, 0)).toBe(vpd);
+  });
+
+  it('con la hoja más fría que el aire el VPD baja', () => {
+    expect(OFFSET_HOJA_POR_DEFECTO).toBe(-2);
+    expect(calcularVPD(25, 60)).toBe(0.91);
+    expect(calcularVPD(25, 60, -2)).toBe(0.91);
+    expect(calcularVPD(30, 70, -2)).toBe(0.81);
+  });
+
+  it('con la hoja más caliente que el aire el VPD sube', () => {
+    expect(calcularVPD(25, 60, 1)).toBe(1.46);
+  });
+
+  it('es negativo cuando la hoja queda por debajo del punto de rocío', () => {
+    expect(calcularVPD(22, 90, -2)).toBe(-0.04);
+  });
+});
+
+describe('punto de rocío y humedad absoluta', () => {
+  it.each([
+    { temperatura: 25, humedad: 60, rocio: 16.7, absoluta: 13.8 },
+    { temperatura: 20, humedad: 50, rocio: 9.3, absoluta: 8.6 }
+  ])('$temperatura °C y $humedad %', ({ temperatura, humedad, rocio, absoluta }) => {
+    expect(calcularPuntoRocio(temperatura, humedad)).toBe(rocio);
+    expect(calcularHumedadAbsoluta(temperatura, humedad)).toBe(absoluta);
+  });
+
+  it('con 100 % de humedad el punto de rocío es la temperatura del aire', () => {
+    expect(calcularPuntoRocio(25, 100)).toBe(25);
+  });
+});
+
+describe('calcularHumedadParaVPD', () => {
+  it('es la inversa de calcularVPD', () => {
+    expect(calcularHumedadParaVPD(25, 1.27, 0)).toBe(60);
+    expect(calcularHumedadParaVPD(25, 0.91)).toBe(60);
+  });
+
+  it('limita la humedad a 0-100 %', () => {
+    expect(calcularHumedadParaVPD(25, -1, 0)).toBe(100);
+    expect(calcularHumedadParaVPD(25, 10, 0)).toBe(0);
+  });
+});
+
+describe('evaluarVPD', () => {
+  it('clasifica respecto al rango de la fase con los extremos incluidos', () => {
+    expect(evaluarVPD(0.79, 'vegetacion')).toBe('bajo');
+    expect(evaluarVPD(0.8, 'vegetacion')).toBe('optimo');
+    expect(evaluarVPD(1.2, 'vegetacion')).toBe('optimo');
+    expect(evaluarVPD(1.21, 'vegetacion')).toBe('alto');
+  });
+
+  it('analizarAmbiente recomienda la humedad para el rango de la fase con la hoja más fría', () => {
+    const ambiente = analizarAmbiente(25, 60, 'floracion');
+
+    expect(ambiente).toMatchObject({
+      temperaturaHoja: 23,
+      vpd: 0.91,
+      estado: 'bajo',
+      rango: { minimo: 1.2, maximo: 1.6 },
+      humedadRecomendada: { minimo: 38, maximo: 51 }
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Utilidades psicrométricas para el ambiente de cultivo
+ *
+ * Calcula el déficit de presión de vapor (VPD) a nivel de hoja, el punto de rocío
+ * y la humedad absoluta, y clasifica el VPD según el rango objetivo de cada fase.
+ * Se usa en el simulador de ambiente, en las recomendaciones y en el panel de cada cultivo.
+ */
+
+import type { Cultivo } from '@/types/cultivo';
+import type { FaseVPD, RangoVPD, EstadoVPD, CondicionesAmbiente } from '@/types/vpd';
+import { calcularMetricasFases } from '@/lib/services/cultivos';
+
+/**
+ * Diferencia típica entre la temperatura de la hoja y la del aire (°C)
+ * Bajo luces LED la hoja suele estar ~2°C por debajo del aire
+ */
+export const OFFSET_HOJA_POR_DEFECTO = -2;
+
+/**
+ * Semanas de vegetación consideradas propagación
+ */
+const SEMANAS_PROPAGACION = 2;
+
+/**
+ * Rangos de VPD objetivo por fase (kPa)
+ */
+export const RANGOS_VPD: Record<FaseVPD, RangoVPD> = {
+  propagacion: { minimo: 0.4, maximo: 0.8 },
+  vegetacion: { minimo: 0.8, maximo: 1.2 },
+  floracion: { minimo: 1.2, maximo: 1.6 }
+};
+
+/**
+ * Redondea a la cantidad de decimales indicada
+ */
+const redondear = (valor: number, decimales = 2): number => {
+  const factor = Math.pow(10, decimales);
+  return Math.round(valor * factor) / factor;
+};
+
+/**
+ * Presión de vapor de saturación (fórmula de Tetens)
+ * @param temperatura - Temperatura en °C
+ * @returns Presión de saturación en kPa
+ */
+export const presionVaporSaturacion = (temperatura: number): number => {
+  return 0.61078 * Math.exp((17.27 * temperatura) / (temperatura + 237.3));
+};
+
+/**
+ * Presión de vapor real del aire
+ * @param temperatura - Temperatura del aire en °C
+ * @param humedad - Humedad relativa en %
+ * @returns Presión de vapor en kPa
+ */
+export const presionVaporReal = (temperatura: number, humedad: number): number => {
+  return presionVaporSaturacion(temperatura) * (humedad / 100);
+};
+
+/**
+ * VPD a nivel de hoja
+ * Usa la presión de saturación a la temperatura de la hoja y la presión real del aire
+ * @param temperatura - Temperatura del aire en °C
+ * @param humedad - Humedad relativa en %
+ * @param offsetHoja - Diferencia temperatura hoja - aire en °C
+ * @returns VPD en kPa (negativo indica condensación sobre la hoja)
+ */
+export const calcularVPD = (temperatura: number, humedad: number, offsetHoja = OFFSET_HOJA_POR_DEFECTO): number => {
+  const vpd = presionVaporSaturacion(temperatura + offsetHoja) - presionVaporReal(temperatura, humedad);
+  return redondear(vpd);
+};
+
+/**
+ * Punto de rocío (aproximación de Magnus)
+ * @param temperatura - Temperatura del aire en °C
+ * @param humedad - Humedad relativa en %
+ * @returns Temperatura de rocío en °C
+ */
+export const calcularPuntoRocio = (temperatura: number, humedad: number): number => {
+  const gamma = Math.log(Math.max(humedad, 0.1) / 100) + (17.27 * temperatura) / (237.3 + temperatura);
+  return redondear((237.3 * gamma) / (17.27 - gamma), 1);
+};
+
+/**
+ * Humedad absoluta del aire
+ * @param temperatura - Temperatura del aire en °C
+ * @param humedad - Humedad relativa en %
+ * @returns Gramos de vapor por metro cúbico
+ */
+export const calcularHumedadAbsoluta = (temperatura: number, humedad: number): number => {
+  return redondear((2167 * presionVaporReal(temperatura, humedad)) / (temperatura + 273.15), 1);
+};
+
+/**
+ * Humedad relativa necesaria para alcanzar un VPD a una temperatura dada
+ * @param temperatura - Temperatura del aire en °C
+ * @param vpdObjetivo - VPD deseado en kPa
+ * @param offsetHoja - Diferencia temperatura hoja - aire en °C
+ * @returns Humedad relativa en % (limitada a 0-100)
+ */
+export const calcularHumedadParaVPD = (temperatura: number, vpdObjetivo: number, offsetHoja = OFFSET_HOJA_POR_DEFECTO): number => {
+  const presionReal = presionVaporSaturacion(temperatura + offsetHoja) - vpdObjetivo;
+  const humedad = (presionReal / presionVaporSaturacion(temperatura)) * 100;
+  return Math.round(Math.min(100, Math.max(0, humedad)));
+};
+
+/**
+ * Clasifica un VPD respecto al rango de la fase
+ */
+export const evaluarVPD = (vpd: number, fase: FaseVPD): EstadoVPD => {
+  const { minimo, maximo } = RANGOS_VPD[fase];
+  if (vpd < minimo) return 'bajo';
+  if (vpd > maximo) return 'alto';
+  return 'optimo';
+};
+
+/**
+ * Determina la fase de VPD de un cultivo a partir de calcularMetricasFases
+ * Las primeras semanas de vegetación se tratan como propagación
+ */
+export const obtenerFaseVPD = (cultivo: Cultivo): FaseVPD => {
+  const { faseActual, semanaVegetacion } = calcularMetricasFases(cultivo);
+  if (faseActual === 'floracion') return 'floracion';
+  return semanaVegetacion > 0 && semanaVegetacion <= SEMANAS_PROPAGACION ? 'propagacion' : 'vegetacion';
+};
+
+/**
+ * Análisis psicrométrico completo de una combinación de temperatura y humedad
+ * @param temperatura - Temperatura del aire en °C
+ * @param humedad - Humedad relativa en %
+ * @param fase - Fase para el rango objetivo
+ * @param offsetHoja - Diferencia temperatura hoja - aire en °C
+ */
+export const analizarAmbiente = (
+  temperatura: number,
+  humedad: number,
+  fase: FaseVPD,
+  offsetHoja = OFFSET_HOJA_POR_DEFECTO
+): CondicionesAmbiente => {
+  const vpd = calcularVPD(temperatura, humedad, offsetHoja);
+  const rango = RANGOS_VPD[fase];
+
+  return {
+    temperatura,
+    humedad,
+    temperaturaHoja: redondear(temperatura + offsetHoja, 1),
+    vpd,
+    puntoRocio: calcularPuntoRocio(temperatura, humedad),
+    humedadAbsoluta: calcularHumedadAbsoluta(temperatura, humedad),
+    fase,
+    rango,
+    estado: evaluarVPD(vpd, fase),
+    humedadRecomendada: {
+      minimo: calcularHumedadParaVPD(temperatura, rango.maximo, offsetHoja),
+      maximo: calcularHumedadParaVPD(temperatura, rango.minimo, offsetHoja)
+    }
+  };
+};
+
+/**
+ * Etiquetas legibles de cada fase
+ */
+export const ETIQUETAS_FASE_VPD: Record<FaseVPD, string> = {
+  propagacion: 'Propagación',
+  vegetacion: 'Vegetación',
+  floracion: 'Floración'
+};
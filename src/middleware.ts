@@ -1,41 +1,51 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { getTokenFromCookies } from './lib/auth/storage';
+import { getTokenFromCookies, getRefreshTokenFromCookies } from './lib/auth/storage';
+import { verificarTokenAcceso, ErrorTokenAcceso } from './lib/auth/tokens';
+import { urlLogin } from './lib/auth/redireccion';
 
 /**
  * 🛡️ MIDDLEWARE DE AUTENTICACIÓN PARA NEXT.JS
  *
  * Funcionalidad:
  * - Protege rutas que requieren autenticación (/cultivo, /notas)
- * - Verifica tokens JWT desde cookies HTTP-only
+ * - Verifica tokens JWT desde cookies HTTP-only con jose (compatible con Edge Runtime)
+ * - Si el token de acceso venció y hay token de refresco, renueva vía /api/auth/refresh
  * - Redirige automáticamente al login si no hay sesión válida
- * - Preserva la URL destino para redirect post-login
+ * - Preserva la URL destino para redirect post-login (sin bucles: /login es pública)
  * - Permite acceso público a rutas como /, /login, /register, etc.
  *
  * Flujo de protección:
  * 1. Verifica si la ruta actual requiere protección
- * 2. Si requiere protección, valida el token JWT desde cookies
+ * 2. Si requiere protección, valida el token JWT desde cookies (o header en APIs)
  * 3. Si el token es válido, permite el acceso
- * 4. Si el token no es válido, redirige al login con URL de retorno
+ * 4. Si no es válido: las APIs responden 401; las páginas pasan por
+ *    /api/auth/refresh (si hay token de refresco) o van al login con URL de retorno
+ *
+ * La revocación de sesiones se comprueba en las API routes (requireAuth), que sí
+ * tienen acceso a la base de datos; aquí solo se valida firma y expiración.
  */
 
 // 📋 RUTAS QUE REQUIEREN AUTENTICACIÓN
-const protectedRoutes = ['/cultivo', '/notas'];
+const protectedRoutes = ['/cultivo', '/notas', '/invitaciones'];
 
 // 🚫 RUTAS PÚBLICAS (no requieren autenticación)
-const publicRoutes = ['/', '/login', '/register', '/blog', '/subscription-required'];
+const publicRoutes = ['/', '/login', '/register', '/reset-password', '/blog', '/subscription-required'];
 
 // 🔍 RUTAS DE API PROTEGIDAS
-const protectedApiRoutes = ['/api/cultivos', '/api/notas', '/api/tareas', '/api/comentarios', '/api/galeria'];
+const protectedApiRoutes = ['/api/cultivos', '/api/geneticas', '/api/notas', '/api/tareas', '/api/comentarios', '/api/galeria', '/api/dispositivos', '/api/notificaciones', '/api/chat/mensajes', '/api/chat/uso', '/api/chat/recomendaciones', '/api/organizaciones', '/api/invitaciones', '/api/admin'];
 
 // 🌐 RUTAS DE API PÚBLICAS
-const publicApiRoutes = ['/api/login', '/api/register', '/api/verify-token', '/api/subscription'];
+const publicApiRoutes = ['/api/login', '/api/register', '/api/auth', '/api/verify-token', '/api/subscription', '/api/ingesta', '/api/cron'];
+
+// 📅 FEEDS DE CALENDARIO (se autentican con ?token= en la URL, los clientes no envían cookies)
+const publicApiSuffixes = ['/calendar.ics'];
 
 
 /**
  * 🎯 FUNCIÓN PRINCIPAL DEL MIDDLEWARE
  */
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
   // 🔍 Determinar si es una ruta protegida
@@ -48,7 +58,11 @@ export function middleware(request: NextRequest) {
   );
 
   // ✅ Si es ruta pública, permitir acceso
-  if (publicRoutes.includes(pathname) || publicApiRoutes.some(route => pathname.startsWith(route))) {
+  if (
+    publicRoutes.includes(pathname) ||
+    publicApiRoutes.some(route => pathname.startsWith(route)) ||
+    (pathname.startsWith('/api/') && publicApiSuffixes.some(suffix => pathname.endsWith(suffix)))
+  ) {
     return NextResponse.next();
   }
 
@@ -57,57 +71,48 @@ export function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
-  // 🔑 Intentar obtener token de las cookies usando la función utilitaria
-  const token = getTokenFromCookies(request);
-
-  if (!token) {
-    // 🚨 Sin token - Redirigir al login
-    console.log('🚨 Middleware: Acceso denegado - sin token para ruta:', pathname);
-
-    if (isProtectedApiRoute) {
-      // Para APIs, devolver error 401
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    } else {
-      // Para páginas, redirigir al login
-      const loginUrl = new URL('/login', request.url);
-      loginUrl.searchParams.set('next', pathname);
-      console.log('🔄 Redirigiendo a:', loginUrl.toString());
-      return NextResponse.redirect(loginUrl);
+  // 🔑 Obtener token de las cookies (las APIs también aceptan Authorization: Bearer)
+  const authHeader = request.headers.get('authorization');
+  const token = (isProtectedApiRoute && authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null)
+    || getTokenFromCookies(request);
+
+  // ✅ Validar token de acceso
+  let error = 'Authentication required';
+  let expirado = false;
+  if (token) {
+    try {
+      await verificarTokenAcceso(token);
+      return NextResponse.next();
+    } catch (validationError) {
+      error = validationError instanceof ErrorTokenAcceso ? validationError.message : 'Invalid token';
+      expirado = validationError instanceof ErrorTokenAcceso && validationError.expirado;
     }
   }
 
-  // 🚨 TEMPORAL: BYPASS TOTAL PARA DETENER LOOP INMEDIATAMENTE
-  // El Edge Runtime no soporta jwt.verify() con crypto de Node.js
-  console.log('⚠️ TEMPORAL: Bypass completo del middleware para detener loop');
-  return NextResponse.next();
-
-  /* ✅ Validar token (DESHABILITADO - EDGE RUNTIME ERROR)
-  const validation = validateTokenDirect(token);
-
-  if (!validation.valid) {
-    // 🚨 Token inválido - Redirigir al login
-    console.log('🚨 Middleware: Token inválido para ruta:', pathname, '| Error:', validation.error);
-
-    if (isProtectedApiRoute) {
-      // Para APIs, devolver error 401
-      return NextResponse.json(
-        { error: 'Invalid token', details: validation.error },
-        { status: 401 }
-      );
-    } else {
-      // Para páginas, redirigir al login
-      const loginUrl = new URL('/login', request.url);
-      loginUrl.searchParams.set('next', pathname);
-      return NextResponse.redirect(loginUrl);
-    }
+  console.log('🚨 Middleware: Acceso denegado para ruta:', pathname, '| Motivo:', error);
+
+  if (isProtectedApiRoute) {
+    // Para APIs, devolver error 401 (el cliente renueva con POST /api/auth/refresh)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'No autorizado',
+        message: 'Tu sesión ha expirado o no es válida. Por favor inicia sesión nuevamente.',
+        expired: expirado
+      },
+      { status: 401 }
+    );
+  }
+
+  // Para páginas: renovar con el token de refresco si existe, si no ir al login
+  const destino = `${pathname}${request.nextUrl.search}`;
+  if (getRefreshTokenFromCookies(request)) {
+    const refreshUrl = new URL('/api/auth/refresh', request.url);
+    refreshUrl.searchParams.set('next', destino);
+    return NextResponse.redirect(refreshUrl);
   }
 
-  // ✅ Token válido - Permitir acceso
-  return NextResponse.next();
-  */
+  return NextResponse.redirect(new URL(urlLogin(destino), request.url));
 }
 
 /**
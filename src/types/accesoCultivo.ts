@@ -0,0 +1,63 @@
+/**
+ * Tipos de datos para el acceso compartido a un cultivo
+ * Permiten dar acceso a un único cultivo a alguien de fuera de la organización
+ * (por ejemplo un consultor) sin sumarlo como miembro
+ */
+
+/**
+ * Rol de una persona invitada a un cultivo
+ */
+export type RolAccesoCultivo =
+  | 'viewer'         // Solo lectura
+  | 'commenter'      // Lectura y comentarios
+  | 'editor';        // Lectura, comentarios y edición del cultivo
+
+/**
+ * Estado de la invitación
+ */
+export type EstadoAccesoCultivo =
+  | 'pendiente'      // Invitación enviada por email, todavía no aceptada
+  | 'aceptada';      // La persona invitada aceptó y ya tiene acceso
+
+/**
+ * Entrada de la lista de acceso de un cultivo
+ */
+export interface AccesoCultivo {
+  id: string;                    // Identificador único de la entrada
+  cultivoId: string;             // Cultivo compartido
+  organizacionId: string;        // Organización dueña del cultivo
+  email: string;                 // Email de la persona invitada
+  rol: RolAccesoCultivo;         // Permisos sobre el cultivo
+  estado: EstadoAccesoCultivo;
+
+  tokenExpira?: string;          // Vencimiento de la invitación pendiente (ISO)
+  fechaCreacion: string;         // Fecha de la invitación (automática)
+  fechaAceptacion?: string;      // Fecha en que se aceptó (ISO)
+
+  // 🔒 Auditoría de permisos
+  invitadoPor: string;           // Email de quien compartió el cultivo
+}
+
+/**
+ * Permisos del usuario actual sobre un cultivo, calculados por la API
+ * para que la interfaz muestre u oculte los controles de edición
+ */
+export interface PermisosCultivo {
+  editar: boolean;               // Editar datos, fases y estado del cultivo
+  comentar: boolean;             // Crear comentarios
+  eliminar: boolean;             // Eliminar el cultivo
+  compartir: boolean;            // Administrar la lista de acceso
+  acceso?: RolAccesoCultivo;     // Rol de invitado, si accede por la lista y no por su organización
+}
+
+/**
+ * Respuesta de la API de accesos e invitaciones
+ */
+export interface ApiResponseAccesos<T = unknown> {
+  success: boolean;              // Indica si la operación fue exitosa
+  data?: T;                      // Entrada o lista de entradas de acceso
+  message?: string;              // Mensaje descriptivo de la operación
+  error?: string;                // Mensaje de error en caso de fallo
+  total?: number;                // Total de entradas
+  details?: string[];            // Errores de validación
+}
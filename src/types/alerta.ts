@@ -0,0 +1,103 @@
+/**
+ * Tipos de datos para el motor de alertas por umbral
+ * Define las reglas que comparan lecturas con los objetivos del cultivo
+ * y las alertas generadas cuando una medición se desvía de forma sostenida
+ */
+
+import type { VariableLectura } from './lectura';
+import type { PrioridadComentario } from './chat';
+
+/**
+ * Variables que pueden vigilarse con una regla
+ * El agua se excluye porque se evalúa como total diario, no como medición puntual
+ */
+export type VariableAlerta = Exclude<VariableLectura, 'volumenAgua'>;
+
+/**
+ * Sentido de la desviación que dispara la alerta
+ * 'mayor': la medición supera el objetivo + margen
+ * 'menor': la medición cae por debajo del objetivo - margen
+ */
+export type CondicionAlerta = 'mayor' | 'menor';
+
+/**
+ * Forma de expresar el margen de tolerancia
+ * 'absoluto': en la unidad de la variable (ej: 5 puntos de humedad)
+ * 'porcentaje': relativo al objetivo (ej: 10% del EC objetivo)
+ */
+export type TipoMargenAlerta = 'absoluto' | 'porcentaje';
+
+/**
+ * Estados del ciclo de vida de una alerta
+ */
+export type EstadoAlerta =
+  | 'abierta'                    // Desviación detectada y sin atender
+  | 'reconocida'                 // El usuario la vio pero la condición sigue activa
+  | 'resuelta';                  // La medición volvió al rango o se cerró manualmente
+
+/**
+ * Regla de alerta configurada para un cultivo
+ * Ejemplo: humedad 'mayor' que el objetivo de la fase + 5 durante 120 minutos
+ */
+export interface ReglaAlerta {
+  id: string;                    // Identificador único de la regla
+  cultivoId: string;             // ID del cultivo vigilado
+  nombre: string;                // Nombre descriptivo de la regla
+  variable: VariableAlerta;      // Variable medida que se compara
+  condicion: CondicionAlerta;    // Sentido de la desviación
+  margen: number;                // Tolerancia sobre el objetivo
+  tipoMargen: TipoMargenAlerta;  // Unidad del margen
+  duracionMinutos: number;       // Tiempo que debe sostenerse la desviación (0 = inmediata)
+  prioridad: PrioridadComentario; // Prioridad de la alerta y del comentario generado
+  crearComentario: boolean;      // Si genera un comentario tipo 'problema' al abrirse
+  activa: boolean;               // Si la regla se evalúa
+  fechaCreacion: string;         // Fecha de creación (automática)
+
+  // 🔒 Auditoría de permisos
+  creadoPor?: string;            // Email del usuario dueño de la regla
+}
+
+/**
+ * Datos para crear una nueva regla de alerta
+ */
+export type ReglaAlertaCreacion = Omit<ReglaAlerta, 'id' | 'cultivoId' | 'fechaCreacion' | 'creadoPor' | 'tipoMargen' | 'duracionMinutos' | 'prioridad' | 'crearComentario' | 'activa'> &
+  Partial<Pick<ReglaAlerta, 'tipoMargen' | 'duracionMinutos' | 'prioridad' | 'crearComentario' | 'activa'>>;
+
+/**
+ * Alerta generada por una regla
+ */
+export interface Alerta {
+  id: string;                    // Identificador único de la alerta
+  cultivoId: string;             // ID del cultivo afectado
+  reglaId: string;               // Regla que la generó
+  variable: VariableAlerta;      // Variable desviada
+  fase: 'vegetacion' | 'floracion'; // Fase del cultivo al detectarse
+  objetivo: number;              // Objetivo de la fase al detectarse
+  umbral: number;                // Límite que se superó (objetivo ± margen)
+  valorObservado: number;        // Última medición fuera del umbral
+  mensaje: string;               // Descripción legible de la desviación
+  prioridad: PrioridadComentario; // Prioridad heredada de la regla
+  estado: EstadoAlerta;          // Estado actual
+  fechaApertura: string;         // Momento en que se abrió (ISO string)
+  ultimaDeteccion: string;       // Última lectura que confirmó la desviación (ISO string)
+  fechaReconocimiento?: string;  // Momento en que se reconoció
+  reconocidaPor?: string;        // Email de quien la reconoció
+  fechaResolucion?: string;      // Momento en que se resolvió
+  resueltaPor?: string;          // Email de quien la resolvió o 'sistema' si fue automática
+  comentarioId?: string;         // Comentario tipo 'problema' asociado
+
+  // 🔒 Auditoría de permisos
+  creadoPor?: string;            // Email del usuario dueño del cultivo
+}
+
+/**
+ * Respuesta de la API para operaciones de alertas
+ * Mantiene el mismo formato que ApiResponseCultivos
+ */
+export interface ApiResponseAlertas<T = unknown> {
+  success: boolean;              // Indica si la operación fue exitosa
+  data?: T;                      // Regla, alerta o listas
+  message?: string;              // Mensaje descriptivo de la operación
+  error?: string;                // Mensaje de error en caso de fallo
+  total?: number;                // Total de registros
+}
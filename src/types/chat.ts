@@ -3,6 +3,9 @@
  * Define estructuras para mensajes, conversaciones y análisis de imágenes
  */
 
+import type { TareaCultivo } from './planificacion';
+import type { Lectura, VariableLectura } from './lectura';
+
 /**
  * Tipo de mensaje en el chat
  * 'user': Mensaje enviado por el usuario
@@ -47,17 +50,16 @@ export interface MensajeChat {
   timestamp: string;             // Fecha y hora del mensaje (ISO string)
   procesando?: boolean;          // Indica si el mensaje se está procesando
   error?: string;                // Mensaje de error si hubo problemas
+  cancelado?: boolean;           // El usuario detuvo la respuesta antes de que terminara
   respuestaA?: string;           // ID del mensaje al que responde (solo para mensajes de IA)
-  tokensUsados?: {               // Métricas de tokens de OpenAI (solo para mensajes assistant)
-    prompt: number;
-    completion: number;
-    total: number;
-  };
+  tokensUsados?: TokensUsados;   // Métricas de tokens (solo para mensajes assistant)
   contextoEnviado?: boolean;     // Indica si se envió contexto del cultivo con este mensaje
   versionContexto?: string;      // Versión del contexto del cultivo enviado
+  contexto?: ContextoCultivo;    // Contexto enviado a la IA (solo se guarda en mensajes del usuario)
   calificacion?: number;         // Calificación del usuario (1-5 estrellas)
   feedback?: string;             // Feedback del usuario sobre la respuesta
   usuarioId?: string;            // ID del usuario que envió el mensaje
+  creadoPor?: string;            // 🔒 Email del dueño del cultivo (multi-tenancy)
   ipAddress?: string;            // IP del usuario para analytics
   activo: boolean;               // Indica si el mensaje está activo
   destacado?: boolean;           // Indica si es un mensaje destacado
@@ -108,6 +110,82 @@ export interface ContextoCultivo {
 
   // Comentarios recientes del cultivo
   comentariosRecientes?: ComentarioCultivo[];
+
+  // Versión del formato del contexto (se guarda con cada mensaje del usuario)
+  versionContexto?: string;
+
+  // Fase actual (según calcularMetricasFases)
+  fase?: FaseContexto;
+
+  // Objetivos del cultivo para la fase actual
+  objetivos?: ObjetivosContexto;
+
+  // Tareas vencidas y próximas
+  tareas?: {
+    vencidas: TareaContexto[];
+    proximas: TareaContexto[];
+  };
+
+  // Resumen compacto de lo ocurrido recientemente
+  historial?: ResumenHistorialContexto;
+
+  // Secciones omitidas o recortadas para respetar el tamaño máximo del contexto
+  recortes?: string[];
+}
+
+/**
+ * Fase actual del cultivo incluida en el contexto
+ */
+export interface FaseContexto {
+  faseActual: 'vegetacion' | 'floracion';
+  semanaVegetacion: number;
+  semanaFloracion: number;
+  diasVegetacion: number;
+  diasFloracion: number;
+  fechaInicioFloracion?: string;
+}
+
+/**
+ * Objetivos del cultivo (temperatura y humedad según la fase actual)
+ */
+export interface ObjetivosContexto {
+  ecObjetivo?: number;           // EC objetivo en ppm
+  phObjetivo?: number;           // pH objetivo
+  aguaDiariaObjetivo?: number;   // Litros de agua por día
+  temperatura?: number;          // °C objetivo para la fase actual
+  humedad?: number;              // % de humedad objetivo para la fase actual
+}
+
+/**
+ * Tarea resumida para el contexto de la IA
+ */
+export interface TareaContexto {
+  titulo: string;
+  tipo: string;
+  prioridad: string;
+  fechaProgramada: string;       // YYYY-MM-DD
+  estado?: string;               // Solo en tareas vencidas (pendiente / en_progreso)
+}
+
+/**
+ * Resumen del historial reciente del cultivo
+ */
+export interface ResumenHistorialContexto {
+  dias: number;                  // Ventana del resumen en días
+  ultimosValores?: Partial<Record<VariableLectura, { valor: number; fecha: string }>>;
+  cantidadLecturas?: number;     // Lecturas registradas en la ventana
+  tareasCompletadas?: { titulo: string; tipo: string; fecha: string }[];
+  comentarios?: { fecha: string; tipo: string; prioridad: string; titulo: string; resumen: string }[];
+}
+
+/**
+ * Datos adicionales con los que se arma el contexto
+ * ChatIA los carga al abrir el chat; si alguno falla, esa sección se omite
+ */
+export interface DatosContextoCultivo {
+  tareas?: TareaCultivo[];
+  lecturas?: Lectura[];
+  comentarios?: ComentarioCultivo[];
 }
 
 /**
@@ -130,6 +208,36 @@ export interface PayloadOpenAI {
   email?: string;                     // Email del usuario (opcional)
   imagenes?: ImagenPayload[];         // Imágenes con base64 y metadatos
   historialReciente?: MensajeChat[];  // Últimos mensajes para contexto
+  formatoRespuesta?: 'texto' | 'json'; // 'json' pide al proveedor un único objeto JSON (recomendaciones)
+  respuestaA?: string;                // Mensaje del usuario ya guardado: /api/chat/stream guarda la respuesta en el historial
+}
+
+/**
+ * Tokens consumidos por una respuesta de la IA
+ */
+export interface TokensUsados {
+  prompt: number;                // Tokens de entrada (contexto + mensaje)
+  completion: number;            // Tokens generados en la respuesta
+  total: number;                 // Suma de ambos
+}
+
+/**
+ * Proveedores de IA disponibles para el chat
+ * 'n8n': Webhook de un workflow de n8n
+ * 'openai': Llamada directa a la API de OpenAI
+ * 'local': Respuestas simuladas sin red (tests y desarrollo)
+ */
+export type NombreProveedorIA = 'n8n' | 'openai' | 'local';
+
+/**
+ * Respuesta normalizada de cualquier proveedor de IA
+ * Todos los adaptadores devuelven este mismo contrato
+ */
+export interface RespuestaIA {
+  contenido: string;             // Texto de la respuesta
+  tokens: TokensUsados;          // Tokens consumidos (0 si el proveedor no los informa)
+  proveedor: NombreProveedorIA;  // Proveedor que generó la respuesta
+  modelo?: string;               // Modelo utilizado, si el proveedor lo informa
 }
 
 /**
@@ -141,13 +249,59 @@ export interface ApiResponseChat<T = unknown> {
   data?: T;                      // Datos retornados
   message?: string;              // Mensaje descriptivo
   error?: string;                // Mensaje de error si hubo problemas
-  tokens?: {                     // Información de tokens usados (OpenAI)
-    prompt: number;
-    completion: number;
-    total: number;
+  tokens?: TokensUsados;         // Información de tokens usados
+  proveedor?: NombreProveedorIA; // Proveedor de IA que respondió
+  modelo?: string;               // Modelo utilizado
+  total?: number;                // Total de mensajes (historial)
+  details?: string[];            // Errores de validación
+}
+
+/**
+ * Datos para guardar un mensaje en el historial del chat (POST /api/chat/mensajes)
+ * id, timestamp y auditoría los asigna el servidor
+ */
+export type MensajeChatEntrada = Pick<MensajeChat,
+  'cultivoId' | 'tipo' | 'contenido' | 'imagenes' | 'versionContexto' | 'contexto'
+>;
+
+/**
+ * Respuesta de la IA calificada, con la pregunta y el contexto que la originaron
+ * Se usa en el reporte de calificaciones para ajustar los prompts del proveedor
+ */
+export interface RespuestaCalificadaIA {
+  mensaje: MensajeChat;          // Respuesta de la IA con calificacion y feedback
+  pregunta?: Pick<MensajeChat, 'id' | 'contenido' | 'timestamp' | 'tipoContenido'>; // Mensaje del usuario
+  contexto?: ContextoCultivo;    // Contexto del cultivo enviado con la pregunta
+  versionContexto?: string;      // Versión del contexto enviado
+}
+
+/**
+ * Reporte de calificaciones de las respuestas de la IA (panel de administración)
+ */
+export interface ReporteCalificacionesIA {
+  resumen: {
+    totalCalificadas: number;    // Respuestas con calificación
+    promedio: number | null;     // Calificación promedio (1-5)
+    distribucion: Record<1 | 2 | 3 | 4 | 5, number>; // Cantidad por estrella
   };
+  umbral: number;                // Calificación máxima incluida en el listado
+  respuestas: RespuestaCalificadaIA[]; // Respuestas con calificación <= umbral (más recientes primero)
+  total: number;                 // Total de respuestas que cumplen el filtro
 }
 
+/**
+ * Eventos emitidos por /api/chat/stream (server-sent events)
+ * 'inicio': el proveedor empezó a generar la respuesta
+ * 'fragmento': trozo de texto a concatenar al mensaje parcial
+ * 'fin': respuesta completa con tokens consumidos
+ * 'error': la generación falló; el mensaje parcial queda incompleto
+ */
+export type EventoStreamChat =
+  | { tipo: 'inicio'; proveedor: NombreProveedorIA }
+  | { tipo: 'fragmento'; texto: string }
+  | { tipo: 'fin'; respuesta: RespuestaIA; mensajeId?: string } // mensajeId: respuesta guardada en el historial
+  | { tipo: 'error'; error: string; message?: string };
+
 /**
  * Comentario/nota específica de un cultivo
  * Sistema para agregar observaciones y notas al cultivo
@@ -155,6 +309,7 @@ export interface ApiResponseChat<T = unknown> {
 export interface ComentarioCultivo {
   id: string;                    // ID único del comentario
   cultivoId: string;             // ID del cultivo al que pertenece
+  plantaId?: string;             // Planta individual a la que se refiere (opcional)
   titulo: string;                // Título breve del comentario
   contenido: string;             // Contenido detallado del comentario
   autor: string;                 // Usuario que creó el comentario
@@ -172,6 +327,8 @@ export interface ComentarioCultivo {
   activo: boolean;               // Indica si el comentario está activo
   destacado?: boolean;           // Indica si es un comentario destacado
   numeroEdiciones?: number;      // Número de veces que se editó
+  creadoPor?: string;            // 🔒 Email del usuario dueño del comentario
+  organizacionId?: string;       // 🔒 Organización dueña del comentario
 }
 
 /**
@@ -201,6 +358,7 @@ export type PrioridadComentario = 'baja' | 'media' | 'alta' | 'critica';
  */
 export interface FiltrosComentarios {
   cultivoId?: string;            // Filtrar por cultivo específico
+  plantaId?: string;             // Filtrar por planta individual
   tipo?: TipoComentario;         // Filtrar por tipo de comentario
   prioridad?: PrioridadComentario; // Filtrar por prioridad
   autor?: string;                // Filtrar por autor
@@ -0,0 +1,96 @@
+/**
+ * Tipos de datos para el registro de cosechas
+ * Define lo cosechado en un cultivo (pesos, secado, curado y calidad)
+ * y las métricas de rendimiento derivadas
+ */
+
+import type { Cultivo } from './cultivo';
+
+/**
+ * Registro de la cosecha de un cultivo
+ * Cada cultivo tiene como máximo una cosecha; los pesos se expresan en gramos
+ */
+export interface Cosecha {
+  id: string;                    // Identificador único de la cosecha
+  cultivoId: string;             // ID del cultivo cosechado
+  fechaCorte: string;            // Día en que se cortaron las plantas (YYYY-MM-DD)
+  pesoHumedo?: number;           // Peso en húmedo recién cortado (g)
+  pesoSeco?: number;             // Peso final seco de flor (g)
+  pesoTrim?: number;             // Peso seco de recorte / trim (g)
+
+  // Secado y curado
+  fechaInicioSecado?: string;    // Inicio del secado (YYYY-MM-DD, normalmente el día de corte)
+  fechaFinSecado?: string;       // Fin del secado (YYYY-MM-DD)
+  fechaInicioCurado?: string;    // Inicio del curado en frascos (YYYY-MM-DD)
+  fechaFinCurado?: string;       // Fin del curado (YYYY-MM-DD)
+
+  // Calidad
+  calidad?: number;              // Valoración general de 1 a 5
+  notasCalidad?: string;         // Aroma, densidad, tricomas, problemas detectados, etc.
+
+  // Desglose por planta (fenotipos distintos en el mismo cultivo)
+  pesosPorPlanta?: PesoPlanta[];
+
+  fechaCreacion: string;         // Fecha de registro (automática)
+  fechaActualizacion?: string;   // Última modificación (automática)
+
+  // 🔒 Auditoría de permisos
+  creadoPor?: string;            // Email del usuario dueño del cultivo
+  editadoPor?: string;           // Email del usuario que editó por última vez
+}
+
+/**
+ * Pesos cosechados de una planta individual (g)
+ */
+export interface PesoPlanta {
+  plantaId: string;              // ID de la planta
+  pesoHumedo?: number;           // Peso en húmedo de la planta
+  pesoSeco?: number;             // Peso seco de flor de la planta
+}
+
+/**
+ * Datos editables de una cosecha (sin campos automáticos)
+ */
+export type CosechaEntrada = Omit<Cosecha, 'id' | 'cultivoId' | 'fechaCreacion' | 'fechaActualizacion' | 'creadoPor' | 'editadoPor'>;
+
+/**
+ * Métricas de rendimiento calculadas a partir de la cosecha y el cultivo
+ * Cada métrica es null cuando falta alguno de los datos necesarios
+ */
+export interface MetricasCosecha {
+  gramosPorM2: number | null;           // Peso seco / metrosCuadrados
+  gramosPorWatt: number | null;         // Peso seco / potenciaLamparas
+  gramosPorPlanta: number | null;       // Peso seco / numeroplantas
+  porcentajePerdidaSecado: number | null; // Agua perdida en el secado (% del peso húmedo)
+  proporcionTrim: number | null;        // Trim respecto del total seco (flor + trim, %)
+  diasSecado: number | null;            // Días entre inicio y fin del secado
+  diasCurado: number | null;            // Días entre inicio y fin del curado
+  diasCicloTotal: number | null;        // Días desde fechaComienzo hasta el corte
+}
+
+/**
+ * Cosecha junto con sus métricas derivadas (formato que devuelve la API)
+ */
+export interface CosechaConMetricas extends Cosecha {
+  metricas: MetricasCosecha;
+}
+
+/**
+ * Resultado de finalizar un cultivo: el cultivo actualizado y su cosecha (si ya se registró)
+ */
+export interface ResultadoFinalizacion {
+  cultivo: Cultivo;              // Cultivo con activo = false
+  cosecha: CosechaConMetricas | null; // Cosecha y rendimiento, o null si falta registrarla
+}
+
+/**
+ * Respuesta de la API para operaciones de cosechas
+ * Mantiene el mismo formato que ApiResponseCultivos
+ */
+export interface ApiResponseCosechas<T = unknown> {
+  success: boolean;              // Indica si la operación fue exitosa
+  data?: T;                      // Cosecha con métricas
+  message?: string;              // Mensaje descriptivo de la operación
+  error?: string;                // Mensaje de error en caso de fallo
+  details?: string[];            // Errores de validación
+}
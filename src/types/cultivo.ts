@@ -3,6 +3,8 @@
  * Define la estructura de datos y tipos relacionados con los cultivos
  */
 
+import type { PermisosCultivo } from './accesoCultivo';
+
 /**
  * Interfaz para las notas del sistema
  * Notas agrícolas para documentar observaciones, tareas y conocimientos
@@ -23,6 +25,7 @@ export interface Nota {
   activo: boolean;               // Indica si la nota está activa
   destacado?: boolean;           // Indica si es una nota destacada
   creadoPor?: string;            // Email del usuario que creó la nota
+  organizacionId?: string;       // 🔒 Organización dueña de la nota
   editadoPor?: string;           // Email del usuario que editó por última vez
 }
 
@@ -39,6 +42,7 @@ export interface ImagenCultivo {
   fechaSubida: string;           // Fecha cuando se subió la imagen (automática)
   tamaño?: number;               // Tamaño del archivo en bytes
   tipo?: string;                 // Tipo MIME de la imagen (ej: "image/jpeg")
+  plantaId?: string;             // Planta individual fotografiada (opcional)
 }
 
 /**
@@ -55,6 +59,7 @@ export interface Cultivo {
   litrosMaceta?: number;         // Capacidad en litros de cada maceta/contenedor
   potenciaLamparas?: number;     // Potencia total de las lámparas en watts
   genetica?: string;             // Información sobre la genética/variedad de la planta
+  geneticaId?: string;           // Perfil del catálogo de genéticas (opcional)
   fechaCreacion?: string;        // Fecha de creación del registro (automática)
   fechaActualizacion?: string;   // Fecha de última actualización (automática)
   activo?: boolean;              // Indica si el cultivo está activo o finalizado
@@ -63,7 +68,9 @@ export interface Cultivo {
 
   // 🔒 Auditoría de permisos - Sistema de rastreo de ediciones
   creadoPor?: string;            // Email del usuario que creó el cultivo
+  organizacionId?: string;       // 🔒 Organización dueña del cultivo
   editadoPor?: string;           // Email del usuario que editó por última vez
+  permisos?: PermisosCultivo;    // Lo que el usuario actual puede hacer (solo en GET/PATCH por ID)
 
   // Control de fases del cultivo
   fechaInicioFloracion?: string; // Fecha cuando comenzó la fase de floración (formato YYYY-MM-DD)
@@ -0,0 +1,55 @@
+/**
+ * Tipos de datos para el consumo y las cuotas de IA
+ * Cada usuario tiene contadores mensuales de tokens y análisis de imágenes,
+ * con límites que dependen del estado de su suscripción
+ */
+
+/**
+ * Estados de suscripción del usuario (mismo enum que Usuario.subscriptionStatus)
+ */
+export type EstadoSuscripcion = 'trial' | 'active' | 'past_due' | 'canceled' | 'unpaid';
+
+/**
+ * Límites mensuales de un plan (null = sin límite)
+ */
+export interface LimitesCuotaIA {
+  tokensMensuales: number | null;          // Tokens totales (prompt + respuesta) por mes
+  analisisImagenesMensuales: number | null; // Imágenes analizadas por mes
+}
+
+/**
+ * Contador de un recurso con su límite
+ */
+export interface ContadorCuotaIA {
+  usados: number;                // Consumo del período actual
+  limite: number | null;         // Límite del plan (null = ilimitado)
+}
+
+/**
+ * Uso de IA del usuario en el período actual
+ */
+export interface UsoCuotaIA {
+  periodo: string;               // Mes del consumo (YYYY-MM, UTC)
+  plan: EstadoSuscripcion | 'exento'; // Plan que determina los límites
+  tokens: ContadorCuotaIA;       // Tokens consumidos
+  analisisImagenes: ContadorCuotaIA; // Imágenes analizadas
+  mensajes: number;              // Respuestas generadas en el período
+  reinicio: string;              // Fecha en que se reinician los contadores (ISO)
+}
+
+/**
+ * Recurso cuya cuota se agotó
+ */
+export type RecursoCuotaIA = 'tokens' | 'analisisImagenes';
+
+/**
+ * Error estructurado que devuelve /api/chat cuando se agota la cuota (HTTP 429)
+ */
+export interface ErrorCuotaIA {
+  success: false;
+  error: string;                 // Título del error
+  codigo: 'CUOTA_IA_EXCEDIDA';   // Código estable para que el cliente lo identifique
+  recurso: RecursoCuotaIA;       // Qué límite se alcanzó
+  message: string;               // Descripción para mostrar al usuario
+  cuota: UsoCuotaIA;             // Uso actual y límites del plan
+}
@@ -0,0 +1,102 @@
+/**
+ * Tipos de datos para el historial de diagnósticos de salud de las plantas
+ * Cada diagnóstico del Doctor IA queda guardado junto al cultivo y la imagen analizada,
+ * con los problemas detectados, su severidad y las acciones sugeridas, que pueden
+ * convertirse en tareas para seguir si el problema se resolvió
+ */
+
+import type { NombreProveedorIA, TokensUsados } from './chat';
+import type { EstadoTarea, PrioridadTarea, TipoTarea } from './planificacion';
+
+/**
+ * Severidad de un diagnóstico o de un problema detectado
+ */
+export type SeveridadDiagnostico = 'baja' | 'media' | 'alta' | 'critica';
+
+/**
+ * Categoría de un problema detectado en la planta
+ */
+export type CategoriaProblema =
+  | 'plaga'          // Insectos, ácaros, etc.
+  | 'enfermedad'     // Hongos, bacterias, virus
+  | 'deficiencia'    // Carencia o exceso de nutrientes
+  | 'ambiental'      // Estrés por temperatura, luz, riego, etc.
+  | 'otro';
+
+/**
+ * Estado de seguimiento de un diagnóstico
+ */
+export type EstadoDiagnostico =
+  | 'abierto'        // Problema sin tratar
+  | 'en_seguimiento' // Hay tareas creadas a partir de las acciones
+  | 'resuelto';      // El problema se dio por resuelto
+
+/**
+ * Problema detectado en la imagen
+ */
+export interface ProblemaDetectado {
+  nombre: string;                // Nombre del problema (ej: "Deficiencia de nitrógeno")
+  categoria: CategoriaProblema;
+  severidad: SeveridadDiagnostico;
+  descripcion?: string;          // Síntomas observados y posibles causas
+}
+
+/**
+ * Acción sugerida por la IA para tratar o vigilar un problema
+ */
+export interface AccionSugerida {
+  id: string;                    // Identificador de la acción dentro del diagnóstico
+  descripcion: string;           // Qué hacer
+  tipoTarea: Extract<TipoTarea, 'monitoreo' | 'mantenimiento'>; // Tipo de la tarea que se crea
+  prioridad: PrioridadTarea;
+  plazoDias: number;             // En cuántos días conviene hacerla (0 = hoy)
+  tareaId?: string;              // Tarea creada a partir de la acción
+  estadoTarea?: EstadoTarea;     // Estado actual de esa tarea (calculado al leer)
+}
+
+/**
+ * Diagnóstico guardado de una imagen del cultivo
+ */
+export interface Diagnostico {
+  id: string;                    // Identificador único del diagnóstico
+  cultivoId: string;             // ID del cultivo diagnosticado
+  imagenId?: string;             // ID de la ImagenCultivo analizada (si vino de la galería)
+  imagenUrl?: string;            // URL de la imagen analizada (si vino de la galería)
+  resumen: string;               // Diagnóstico general en pocas oraciones
+  severidad: SeveridadDiagnostico; // Severidad general (la mayor de los problemas)
+  problemas: ProblemaDetectado[];
+  acciones: AccionSugerida[];
+  estado: EstadoDiagnostico;
+  fechaResolucion?: string;      // Fecha en que se marcó como resuelto (ISO)
+  proveedor: NombreProveedorIA;  // Proveedor de IA que generó el diagnóstico
+  modelo?: string;               // Modelo utilizado
+  tokens?: TokensUsados;         // Consumo del análisis
+
+  fechaCreacion: string;         // Fecha del diagnóstico (ISO)
+  fechaActualizacion?: string;   // Última modificación (ISO)
+
+  // 🔒 Auditoría de permisos
+  creadoPor?: string;            // Email del usuario que pidió el diagnóstico
+  editadoPor?: string;           // Email del usuario que editó por última vez
+}
+
+/**
+ * Resultado de convertir acciones en tareas
+ */
+export interface ResultadoTareasDiagnostico {
+  diagnostico: Diagnostico;      // Diagnóstico con los tareaId asignados
+  creadas: number;               // Cantidad de tareas nuevas
+}
+
+/**
+ * Respuesta de la API para operaciones de diagnósticos
+ * Mantiene el mismo formato que ApiResponseCultivos
+ */
+export interface ApiResponseDiagnosticos<T = unknown> {
+  success: boolean;              // Indica si la operación fue exitosa
+  data?: T;                      // Diagnóstico o lista de diagnósticos
+  message?: string;              // Mensaje descriptivo
+  error?: string;                // Mensaje de error si falló
+  total?: number;                // Total de diagnósticos
+  details?: string[];            // Errores de validación
+}
@@ -0,0 +1,79 @@
+/**
+ * Tipos de datos para dispositivos de sensores (controladores de cultivo)
+ * Define la estructura de los dispositivos que envían lecturas automáticamente
+ * y el formato de la ingesta en lote
+ */
+
+import type { LecturaCreacion } from './lectura';
+
+/**
+ * Interfaz principal de un dispositivo registrado
+ * La API key nunca se expone: solo se guarda su hash y un prefijo identificable
+ */
+export interface Dispositivo {
+  id: string;                    // Identificador único del dispositivo
+  nombre: string;                // Nombre descriptivo (ej: "ESP32 carpa 1")
+  cultivoId: string;             // ID del cultivo al que reporta lecturas
+  prefijoApiKey: string;         // Primeros caracteres de la API key para identificarla
+  activo: boolean;               // Si está revocado no puede enviar lecturas
+  fechaCreacion: string;         // Fecha de registro (automática)
+  ultimaConexion?: string;       // Última ingesta recibida (ISO string)
+  totalLecturas?: number;        // Lecturas aceptadas desde el registro
+
+  // 🔒 Auditoría de permisos
+  creadoPor: string;             // Email del usuario dueño del cultivo
+}
+
+/**
+ * Datos para registrar un nuevo dispositivo
+ */
+export type DispositivoCreacion = Pick<Dispositivo, 'nombre' | 'cultivoId'>;
+
+/**
+ * Respuesta al registrar un dispositivo
+ * Incluye la API key en texto plano: solo se muestra una vez
+ */
+export interface DispositivoRegistrado {
+  dispositivo: Dispositivo;      // Dispositivo creado
+  apiKey: string;                // API key en texto plano (no se puede recuperar luego)
+}
+
+/**
+ * Lectura enviada por un dispositivo en una ingesta en lote
+ */
+export type LecturaIngesta = Omit<LecturaCreacion, 'origen'> & {
+  claveIdempotencia: string;     // Clave única por dispositivo para evitar duplicados en reintentos
+};
+
+/**
+ * Cuerpo esperado por el endpoint de ingesta
+ */
+export interface PayloadIngestaLecturas {
+  lecturas: LecturaIngesta[];    // Lote de lecturas (máximo definido por la API)
+}
+
+/**
+ * Resultado individual de una lectura del lote
+ * Sigue el mismo formato que ApiResponseCultivos para cada elemento
+ */
+export interface ResultadoIngestaLectura {
+  success: boolean;              // Indica si la lectura quedó registrada
+  indice: number;                // Posición de la lectura en el lote recibido
+  claveIdempotencia?: string;    // Clave enviada por el dispositivo
+  estado: 'creada' | 'duplicada' | 'rechazada';
+  data?: { id: string };         // ID de la lectura (creada o ya existente)
+  message?: string;              // Mensaje descriptivo
+  error?: string;                // Motivo del rechazo
+  details?: string[];            // Errores de validación por campo
+}
+
+/**
+ * Resumen de una ingesta en lote
+ */
+export interface ResumenIngestaLecturas {
+  recibidas: number;             // Lecturas recibidas en el lote
+  creadas: number;               // Lecturas nuevas registradas
+  duplicadas: number;            // Lecturas ya registradas previamente (idempotencia)
+  rechazadas: number;            // Lecturas inválidas o fuera de rango
+  resultados: ResultadoIngestaLectura[]; // Detalle por lectura, en el orden recibido
+}
@@ -0,0 +1,64 @@
+/**
+ * Tipos de datos para el catálogo de genéticas
+ * Cada usuario guarda perfiles reutilizables de las variedades que cultiva (banco,
+ * proporción índica/sativa, semanas de floración, autofloreciente y estiramiento)
+ * para asociarlos a sus cultivos y estimar la fecha de cosecha
+ */
+
+/**
+ * Estiramiento típico de la variedad al pasar a floración
+ */
+export type EstiramientoGenetica =
+  | 'bajo'           // Crece hasta 1,5 veces su altura
+  | 'medio'          // Entre 1,5 y 2 veces
+  | 'alto';          // Más del doble (típico de sativas)
+
+/**
+ * Perfil de una genética del catálogo
+ */
+export interface Genetica {
+  id: string;                    // Identificador único de la genética
+  nombre: string;                // Nombre de la variedad (ej: "White Widow"), único por usuario
+  banco?: string;                // Banco o criador (breeder)
+  porcentajeIndica?: number;     // Proporción índica (0-100); la sativa es el resto
+  semanasFloracion: number;      // Duración esperada de la floración en semanas
+  autofloreciente: boolean;      // true si florece por edad y no por fotoperiodo
+  estiramiento?: EstiramientoGenetica;
+  notas?: string;                // Observaciones propias sobre la variedad
+
+  fechaCreacion: string;         // Fecha de registro (automática)
+  fechaActualizacion?: string;   // Última modificación (automática)
+
+  // 🔒 Auditoría de permisos
+  creadoPor?: string;            // Email del usuario dueño del catálogo
+  editadoPor?: string;           // Email del usuario que editó por última vez
+}
+
+/**
+ * Datos editables de una genética (sin campos automáticos)
+ */
+export type GeneticaEntrada = Omit<Genetica, 'id' | 'fechaCreacion' | 'fechaActualizacion' | 'creadoPor' | 'editadoPor'>;
+
+/**
+ * Fecha de cosecha estimada para un cultivo
+ */
+export interface EstimacionCosecha {
+  fechaEstimada: string;         // Fecha probable de corte (YYYY-MM-DD)
+  diasRestantes: number;         // Días hasta la fecha estimada (negativo si ya pasó)
+  semanasFloracion: number;      // Semanas de floración usadas en el cálculo
+  fuente: 'genetica' | 'generica'; // Si se usó el perfil de la genética o los valores genéricos
+  desdeInicioFloracion: boolean; // true si se contó desde la fecha real de inicio de floración
+}
+
+/**
+ * Respuesta de la API para operaciones de genéticas
+ * Mantiene el mismo formato que ApiResponseCultivos
+ */
+export interface ApiResponseGeneticas<T = unknown> {
+  success: boolean;              // Indica si la operación fue exitosa
+  data?: T;                      // Genética o lista de genéticas
+  message?: string;              // Mensaje descriptivo de la operación
+  error?: string;                // Mensaje de error en caso de fallo
+  total?: number;                // Total de genéticas
+  details?: string[];            // Errores de validación
+}
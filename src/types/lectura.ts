@@ -0,0 +1,100 @@
+/**
+ * Tipos de datos para el registro de lecturas ambientales de cultivos
+ * Define la estructura de las mediciones reales (temperatura, humedad, EC, pH, agua)
+ * que complementan los objetivos definidos en el cultivo
+ */
+
+/**
+ * Origen de una lectura
+ * 'manual': Cargada por un usuario desde la interfaz
+ * 'sensor': Enviada automáticamente por un controlador o sensor
+ */
+export type OrigenLectura = 'manual' | 'sensor';
+
+/**
+ * Variables ambientales que se pueden medir en una lectura
+ * Se usa para recorrer y comparar mediciones de forma genérica
+ */
+export type VariableLectura =
+  | 'temperatura'                // Temperatura ambiente (°C)
+  | 'humedad'                    // Humedad relativa (%)
+  | 'ec'                         // Conductividad eléctrica (ppm, misma escala que ecObjetivo)
+  | 'ph'                         // pH de la solución
+  | 'volumenAgua';               // Volumen de agua aplicado (litros)
+
+/**
+ * Interfaz principal de una lectura ambiental
+ * Cada lectura es una medición puntual con marca de tiempo
+ */
+export interface Lectura {
+  id: string;                    // Identificador único de la lectura
+  cultivoId: string;             // ID del cultivo al que pertenece
+  fecha: string;                 // Momento de la medición (ISO string)
+  temperatura?: number;          // Temperatura ambiente en °C
+  humedad?: number;              // Humedad relativa en %
+  ec?: number;                   // Conductividad eléctrica en ppm
+  ph?: number;                   // pH medido
+  volumenAgua?: number;          // Volumen de agua aplicado en litros
+  origen: OrigenLectura;         // Origen de la lectura
+  notas?: string;                // Observaciones opcionales
+  dispositivoId?: string;        // ID del dispositivo que envió la lectura (origen 'sensor')
+  claveIdempotencia?: string;    // Clave única por dispositivo para descartar reenvíos
+  fechaCreacion: string;         // Fecha de registro (automática)
+
+  // 🔒 Auditoría de permisos
+  creadoPor?: string;            // Email del usuario dueño de la lectura
+}
+
+/**
+ * Tipo para registrar una nueva lectura (sin campos automáticos)
+ */
+export type LecturaCreacion = Omit<Lectura, 'id' | 'cultivoId' | 'fecha' | 'fechaCreacion' | 'origen' | 'creadoPor' | 'dispositivoId' | 'claveIdempotencia'> & {
+  fecha?: string;                // Si no se envía, se usa el momento actual
+  origen?: OrigenLectura;        // Por defecto 'manual'
+};
+
+/**
+ * Parámetros para consultar lecturas de un cultivo
+ * Permite consultas por rango de fechas y agregados diarios
+ */
+export interface ListaLecturasParams {
+  desde?: string;                // Fecha/hora inicial del rango (ISO o YYYY-MM-DD)
+  hasta?: string;                // Fecha/hora final del rango (ISO o YYYY-MM-DD)
+  agregado?: 'diario';           // Si se indica, devuelve agregados por día
+  _limit?: number;               // Límite de lecturas devueltas
+}
+
+/**
+ * Estadísticas de una variable dentro de un agregado
+ */
+export interface ResumenVariable {
+  promedio: number;              // Valor promedio del período
+  minimo: number;                // Valor mínimo del período
+  maximo: number;                // Valor máximo del período
+}
+
+/**
+ * Agregado diario de lecturas
+ * Resume todas las mediciones de un día para un cultivo
+ */
+export interface AgregadoDiarioLecturas {
+  fecha: string;                 // Día agregado (formato YYYY-MM-DD)
+  totalLecturas: number;         // Cantidad de lecturas del día
+  temperatura?: ResumenVariable;
+  humedad?: ResumenVariable;
+  ec?: ResumenVariable;
+  ph?: ResumenVariable;
+  volumenAguaTotal?: number;     // Suma del agua aplicada en el día (litros)
+}
+
+/**
+ * Respuesta de la API para operaciones de lecturas
+ * Mantiene el mismo formato que ApiResponseCultivos
+ */
+export interface ApiResponseLecturas<T = unknown> {
+  success: boolean;              // Indica si la operación fue exitosa
+  data?: T;                      // Lectura, lista de lecturas o agregados
+  message?: string;              // Mensaje descriptivo de la operación
+  error?: string;                // Mensaje de error en caso de fallo
+  total?: number;                // Total de registros
+}
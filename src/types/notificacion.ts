@@ -0,0 +1,134 @@
+/**
+ * Tipos de datos para el envío de notificaciones
+ * Define los canales de entrega (email, web push, webhook), los mensajes
+ * y el registro de cada intento de entrega de un recordatorio
+ */
+
+import type { ConfiguracionNotificaciones } from './planificacion';
+
+/**
+ * Canales por los que se puede entregar una notificación
+ * 'email': correo por SMTP
+ * 'push': notificación Web Push al navegador o PWA
+ * 'webhook': POST JSON a una URL configurada por el usuario
+ */
+export type CanalNotificacion = 'email' | 'push' | 'webhook';
+
+/**
+ * Resultado de un intento de entrega
+ */
+export type EstadoEntrega =
+  | 'enviado'                    // El canal aceptó la notificación
+  | 'fallido'                    // Error al entregar; se reintenta en el próximo despacho
+  | 'omitido';                   // No se envió (ej: el recordatorio ya no tenía sentido)
+
+/**
+ * Tipos de notificación que genera el sistema
+ * 'recordatorio_tarea': aviso previo a una tarea (todos los canales)
+ * 'tarea_vencida': una tarea pendiente pasó su fecha (solo push)
+ * 'comentario_critico': se registró un comentario de prioridad crítica (solo push)
+ */
+export type TipoNotificacion = 'recordatorio_tarea' | 'tarea_vencida' | 'comentario_critico';
+
+/**
+ * Mensaje a entregar, independiente del canal
+ */
+export interface MensajeNotificacion {
+  tipo: TipoNotificacion;        // Tipo de notificación
+  titulo: string;                // Título corto (asunto del email, título del push)
+  cuerpo: string;                // Texto principal
+  url?: string;                  // Enlace profundo dentro de la app (ej: /cultivo/[id])
+  datos?: Record<string, unknown>; // Datos estructurados (se envían completos al webhook)
+}
+
+/**
+ * Registro de un intento de entrega de un recordatorio
+ * Las ocurrencias virtuales de tareas recurrentes se identifican por
+ * el ID de la tarea original y la fecha de la ocurrencia
+ */
+export interface IntentoEntrega {
+  id: string;                    // Identificador único del intento
+  tipo: TipoNotificacion;        // Notificación a la que corresponde el intento
+  tareaId: string;               // ID de la tarea (o de la tarea original de la serie)
+  fechaOcurrencia: string;       // Fecha de la ocurrencia notificada (YYYY-MM-DD)
+  cultivoId: string;             // Cultivo de la tarea
+  canal: CanalNotificacion;      // Canal utilizado
+  estado: EstadoEntrega;         // Resultado del intento
+  intento: number;               // Número de intento para este canal (1, 2, ...)
+  error?: string;                // Detalle del error o motivo de la omisión
+  fecha: string;                 // Momento del intento (ISO string)
+
+  // 🔒 Auditoría de permisos
+  creadoPor: string;             // Email del dueño de la tarea
+}
+
+/**
+ * Resumen de una ejecución del despachador de recordatorios
+ */
+export interface ResumenDespacho {
+  recordatorios: number;         // Recordatorios vencidos encontrados
+  enviados: number;              // Intentos entregados
+  fallidos: number;              // Intentos con error
+  omitidos: number;              // Recordatorios descartados por antiguos
+  completados: number;           // Recordatorios cerrados (todos los canales resueltos)
+  tareasVencidas?: number;       // Tareas vencidas notificadas por push
+}
+
+/**
+ * Suscripción Web Push de un navegador o PWA instalada
+ * Las claves vienen de PushSubscription.toJSON() en el cliente
+ */
+export interface SuscripcionPush {
+  id: string;                    // Identificador único de la suscripción
+  endpoint: string;              // URL del servicio de push del navegador
+  keys: {
+    p256dh: string;              // Clave pública del cliente (cifrado del mensaje)
+    auth: string;                // Secreto de autenticación del cliente
+  };
+  userAgent?: string;            // Navegador que se suscribió (para mostrar en la lista)
+  fechaCreacion: string;         // Fecha de suscripción (ISO string)
+  ultimoEnvio?: string;          // Último push entregado (ISO string)
+
+  // 🔒 Auditoría de permisos
+  creadoPor: string;             // Email del usuario suscrito
+}
+
+/**
+ * Estado de Web Push para el usuario (GET /api/notificaciones/push)
+ */
+export interface EstadoPush {
+  configurado: boolean;          // Si el servidor tiene claves VAPID
+  clavePublica: string | null;   // Clave pública VAPID para PushManager.subscribe
+  suscripciones: Omit<SuscripcionPush, 'keys'>[]; // Navegadores suscritos
+}
+
+/**
+ * Datos que recibe el service worker en cada push
+ */
+export interface PayloadPush {
+  titulo: string;                // Título de la notificación
+  cuerpo: string;                // Texto de la notificación
+  url: string;                   // Enlace profundo al abrir (ej: /cultivo/[id])
+  tag?: string;                  // Agrupa notificaciones del mismo elemento (reemplaza la anterior)
+  tipo: TipoNotificacion;        // Tipo de notificación
+}
+
+/**
+ * Configuración de notificaciones tal como la devuelve la API
+ * El secreto del webhook nunca se devuelve: solo se indica si está configurado
+ */
+export type ConfiguracionNotificacionesPublica = Omit<ConfiguracionNotificaciones, 'webhookSecreto'> & {
+  webhookSecretoConfigurado: boolean;
+};
+
+/**
+ * Respuesta de la API para operaciones de notificaciones
+ * Mantiene el mismo formato que ApiResponseCultivos
+ */
+export interface ApiResponseNotificaciones<T = unknown> {
+  success: boolean;              // Indica si la operación fue exitosa
+  data?: T;                      // Configuración, intentos o resumen
+  message?: string;              // Mensaje descriptivo de la operación
+  error?: string;                // Mensaje de error en caso de fallo
+  total?: number;                // Total de registros
+}
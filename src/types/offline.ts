@@ -0,0 +1,83 @@
+/**
+ * Tipos de datos para el modo sin conexión
+ * Define la caché local de lecturas y la cola de cambios hechos sin señal
+ * que se reproducen contra la API al recuperar la conexión
+ */
+
+import type { TareaCultivo } from './planificacion';
+import type { ComentarioCultivo } from './chat';
+
+/**
+ * Estado de un cambio encolado
+ * 'pendiente': se enviará en la próxima sincronización
+ * 'conflicto': el servidor tenía una versión más nueva (fechaActualizacion distinta)
+ * 'error': el servidor rechazó el cambio (validación, permisos, etc.)
+ */
+export type EstadoMutacionOffline = 'pendiente' | 'conflicto' | 'error';
+
+/**
+ * Campos comunes a todos los cambios encolados
+ */
+interface MutacionOfflineBase {
+  id?: number;                   // Clave autoincremental de IndexedDB
+  cultivoId: string;             // Cultivo al que afecta el cambio
+  descripcion: string;           // Texto corto para mostrar en la cola
+  creada: string;                // Momento en que se hizo el cambio (ISO)
+  estado: EstadoMutacionOffline; // Estado actual en la cola
+  intentos: number;              // Veces que se intentó reproducir
+  error?: string;                // Último error devuelto por el servidor
+}
+
+/**
+ * Cambio de una tarea (completar, iniciar, cancelar, editar)
+ */
+export interface MutacionActualizarTarea extends MutacionOfflineBase {
+  tipo: 'actualizar_tarea';
+  tareaId: string;                         // ID real o de ocurrencia virtual
+  cambios: Partial<TareaCultivo>;          // Campos modificados
+  fechaActualizacionBase?: string;         // Versión sobre la que se editó (no aplica a ocurrencias virtuales)
+  versionServidor?: TareaCultivo;          // Versión actual del servidor cuando hay conflicto
+}
+
+/**
+ * Comentario nuevo
+ */
+export interface MutacionCrearComentario extends MutacionOfflineBase {
+  tipo: 'crear_comentario';
+  idTemporal: string;                      // ID provisional mostrado en la lista
+  datos: Omit<ComentarioCultivo, 'id' | 'fecha' | 'fechaActualizacion'>;
+}
+
+/**
+ * Foto nueva para la galería del cultivo
+ * El archivo se guarda en IndexedDB hasta que se pueda subir
+ */
+export interface MutacionSubirImagen extends MutacionOfflineBase {
+  tipo: 'subir_imagen';
+  archivo: Blob;                           // Imagen (ya comprimida)
+  nombreArchivo: string;                   // Nombre original del archivo
+}
+
+/**
+ * Cualquier cambio que puede quedar en la cola
+ */
+export type MutacionOffline = MutacionActualizarTarea | MutacionCrearComentario | MutacionSubirImagen;
+
+/**
+ * Resultado de leer datos con respaldo en la caché local
+ */
+export interface ResultadoConCache<T> {
+  datos: T;                      // Datos del servidor o de la caché
+  desdeCache: boolean;           // true si no hubo conexión y se usó la caché
+  fechaCache?: string;           // Momento en que se guardaron los datos en caché (ISO)
+}
+
+/**
+ * Resumen de una sincronización de la cola
+ */
+export interface ResumenSincronizacion {
+  aplicadas: number;             // Cambios aceptados por el servidor
+  conflictos: number;            // Cambios que quedaron en conflicto
+  errores: number;               // Cambios rechazados
+  pendientes: number;            // Cambios que siguen en cola (se perdió la conexión)
+}
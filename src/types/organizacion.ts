@@ -0,0 +1,39 @@
+/**
+ * Tipos de datos para organizaciones
+ * Una organización agrupa a los usuarios que trabajan sobre los mismos cultivos,
+ * tareas, comentarios y notas; cada miembro tiene un rol que define qué puede hacer
+ */
+
+/**
+ * Rol de un miembro dentro de la organización
+ */
+export type RolOrganizacion =
+  | 'owner'          // Administra la organización y sus miembros; puede todo
+  | 'grower'         // Crea y edita datos; solo elimina lo que creó
+  | 'viewer';        // Solo lectura
+
+/**
+ * Membresía de un usuario en la organización
+ */
+export interface MiembroOrganizacion {
+  email: string;                 // Email del usuario miembro
+  rol: RolOrganizacion;          // Permisos dentro de la organización
+  fechaAlta: string;             // Fecha de incorporación (automática)
+  invitadoPor?: string;          // Email del owner que lo agregó
+}
+
+/**
+ * Organización con sus miembros
+ */
+export interface Organizacion {
+  id: string;                    // Identificador único de la organización
+  nombre: string;                // Nombre visible (ej: "Indoor de Juan")
+  miembros: MiembroOrganizacion[];
+  activo: boolean;               // false si la organización fue dada de baja
+
+  fechaCreacion: string;         // Fecha de creación (automática)
+  fechaActualizacion?: string;   // Última modificación (automática)
+
+  // 🔒 Auditoría de permisos
+  creadoPor?: string;            // Email del usuario que creó la organización
+}
@@ -56,6 +56,7 @@ export type FrecuenciaRepeticion =
 export interface TareaCultivo {
   id: string;                    // Identificador único de la tarea
   cultivoId: string;             // ID del cultivo al que pertenece
+  plantaId?: string;             // Planta individual a la que se refiere (opcional)
   titulo: string;                // Título descriptivo de la tarea
   descripcion?: string;          // Descripción detallada opcional
   tipo: TipoTarea;               // Categoría de la tarea
@@ -71,6 +72,7 @@ export interface TareaCultivo {
 
   // 🔒 Auditoría de permisos - Sistema de rastreo de ediciones
   creadoPor?: string;            // Email del usuario que creó la tarea
+  organizacionId?: string;       // 🔒 Organización dueña de la tarea
   editadoPor?: string;           // Email del usuario que editó por última vez
 
   // Configuración de repetición
@@ -79,6 +81,9 @@ export interface TareaCultivo {
   intervaloPersonalizado?: number; // Días entre repeticiones (para personalizada)
   fechaFinRepeticion?: string;   // Fecha hasta la cual se repite
   tareaPadreId?: string;         // ID de la tarea original (para tareas generadas)
+  excepciones?: string[];        // Fechas de la serie omitidas (YYYY-MM-DD, solo en la tarea original)
+  fechaOcurrencia?: string;      // Fecha de la serie que reemplaza esta tarea (para ocurrencias editadas)
+  esOcurrenciaVirtual?: boolean; // Ocurrencia calculada a partir de la serie, no guardada
 
   // Recordatorios
   recordatorioActivado: boolean; // Si tiene recordatorios activados
@@ -109,17 +114,38 @@ export type TareaCreacion = Omit<TareaCultivo,
  */
 export type TareaActualizacion = Partial<Omit<TareaCultivo, 'id'>> & { id: string };
 
+/**
+ * Resultado de convertir un archivo .ics en tareas
+ */
+export interface ResultadoImportacionICS {
+  tareas: TareaCreacion[];       // Tareas listas para crear
+  omitidos: string[];            // Eventos omitidos o importados parcialmente, con el motivo
+}
+
+/**
+ * Estado del feed iCalendar del usuario
+ * El token solo se devuelve completo al generarlo
+ */
+export interface FeedCalendario {
+  activo: boolean;               // Si el usuario tiene un token de suscripción vigente
+  prefijo?: string;              // Primeros caracteres del token para identificarlo
+  token?: string;                // Token completo (solo al generarlo)
+  url?: string;                  // URL del feed de todas las tareas (solo al generarlo)
+}
+
 /**
  * Parámetros para filtrar tareas de cultivo
  * Permite búsquedas y filtrados avanzados
  */
 export interface ListaTareasParams {
   cultivoId?: string;            // Filtrar por cultivo específico
+  plantaId?: string;             // Filtrar por planta individual
   tipo?: TipoTarea;              // Filtrar por tipo de tarea
   estado?: EstadoTarea;          // Filtrar por estado
   prioridad?: PrioridadTarea;    // Filtrar por prioridad
   fechaDesde?: string;           // Tareas desde esta fecha
   fechaHasta?: string;           // Tareas hasta esta fecha
+  expandir?: boolean;            // Incluir ocurrencias virtuales de series (requiere fechaDesde y fechaHasta, por defecto true)
   esRecurrente?: boolean;        // Solo tareas recurrentes o no recurrentes
   q?: string;                    // Búsqueda por texto en título/descripción
   _sort?: keyof TareaCultivo;    // Campo por ordenar
@@ -219,8 +245,13 @@ export interface ConfiguracionNotificaciones {
   recordatoriosActivados: boolean; // Si los recordatorios están activos
   tiempoRecordatorioDefecto: number; // Minutos por defecto para recordar
   notificacionesSonido: boolean;   // Si usar sonido en notificaciones
-  notificacionesDesktop: boolean;  // Si mostrar notificaciones del sistema
+  notificacionesDesktop: boolean;  // Si mostrar notificaciones del sistema (canal Web Push)
   diasAnticipacion: number;        // Días de anticipación para mostrar tareas
+  notificacionesEmail: boolean;    // Si enviar recordatorios por email
+  emailDestino?: string;           // Email alternativo (por defecto el de la cuenta)
+  notificacionesWebhook: boolean;  // Si enviar recordatorios al webhook
+  webhookUrl?: string;             // URL que recibe un POST JSON por recordatorio
+  webhookSecreto?: string;         // Secreto para firmar el webhook (HMAC SHA-256), no se devuelve
 }
 
 /**
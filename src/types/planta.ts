@@ -0,0 +1,62 @@
+/**
+ * Tipos de datos para el seguimiento individual de plantas
+ * Un cultivo puede tener fenotipos distintos en el mismo espacio: cada planta tiene
+ * su etiqueta, código para imprimir como QR, genética, posición y estado, y se le
+ * pueden asociar tareas, comentarios, imágenes de la galería y pesos de cosecha
+ */
+
+/**
+ * Estado de una planta dentro del cultivo
+ */
+export type EstadoPlanta =
+  | 'viva'           // Planta en producción
+  | 'madre'          // Planta madre que se conserva para esquejes
+  | 'descartada';    // Planta eliminada del cultivo (macho, enferma, fenotipo no deseado)
+
+/**
+ * Posición de la planta en la grilla del espacio de cultivo (desde 1)
+ */
+export interface PosicionPlanta {
+  fila: number;
+  columna: number;
+}
+
+/**
+ * Interfaz principal de una planta
+ */
+export interface Planta {
+  id: string;                    // Identificador único de la planta
+  cultivoId: string;             // ID del cultivo al que pertenece
+  etiqueta: string;              // Nombre corto visible (ej: "P3"), único en el cultivo
+  codigo: string;                // Código único para imprimir en la etiqueta o QR (se genera al crear)
+  genetica?: string;             // Genética de la planta (si difiere de la del cultivo)
+  notasFenotipo?: string;        // Observaciones del fenotipo (estructura, aroma, vigor)
+  posicion?: PosicionPlanta;     // Ubicación en la grilla
+  estado: EstadoPlanta;
+  fechaDescarte?: string;        // Fecha en que se descartó (YYYY-MM-DD)
+
+  fechaCreacion: string;         // Fecha de registro (automática)
+  fechaActualizacion?: string;   // Última modificación (automática)
+
+  // 🔒 Auditoría de permisos
+  creadoPor?: string;            // Email del usuario dueño del cultivo
+  editadoPor?: string;           // Email del usuario que editó por última vez
+}
+
+/**
+ * Datos editables de una planta (sin campos automáticos)
+ */
+export type PlantaEntrada = Omit<Planta, 'id' | 'cultivoId' | 'codigo' | 'fechaCreacion' | 'fechaActualizacion' | 'creadoPor' | 'editadoPor'>;
+
+/**
+ * Respuesta de la API para operaciones de plantas
+ * Mantiene el mismo formato que ApiResponseCultivos
+ */
+export interface ApiResponsePlantas<T = unknown> {
+  success: boolean;              // Indica si la operación fue exitosa
+  data?: T;                      // Planta o lista de plantas
+  message?: string;              // Mensaje descriptivo de la operación
+  error?: string;                // Mensaje de error en caso de fallo
+  total?: number;                // Total de plantas
+  details?: string[];            // Errores de validación
+}
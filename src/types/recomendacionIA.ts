@@ -0,0 +1,50 @@
+/**
+ * Tipos de datos para las recomendaciones estructuradas de la IA
+ * La IA propone todos los objetivos del cultivo en una sola respuesta JSON;
+ * el usuario revisa la diferencia con los valores actuales y acepta o rechaza cada uno
+ */
+
+import type { NombreProveedorIA, TokensUsados } from './chat';
+
+/**
+ * Campos objetivo del cultivo que la IA puede recomendar
+ */
+export type CampoObjetivoCultivo =
+  | 'phObjetivo'
+  | 'ecObjetivo'
+  | 'aguaDiariaObjetivo'
+  | 'tempObjetivoVegetacion'
+  | 'tempObjetivoFloracion'
+  | 'humedadObjetivoVegetacion'
+  | 'humedadObjetivoFloracion';
+
+/**
+ * Valor recomendado para un campo, con su justificación
+ */
+export interface ValorRecomendadoIA {
+  valor: number;                 // Valor propuesto (en la unidad del campo)
+  justificacion: string;         // Por qué la IA recomienda este valor
+  confianza: number;             // Confianza de la IA entre 0 y 1
+}
+
+/**
+ * Recomendación completa devuelta por POST /api/chat/recomendaciones
+ */
+export interface RecomendacionObjetivosIA {
+  objetivos: Partial<Record<CampoObjetivoCultivo, ValorRecomendadoIA>>; // Solo los campos que la IA pudo recomendar
+  resumen?: string;              // Comentario general de la IA
+  proveedor: NombreProveedorIA;  // Proveedor que generó la recomendación
+  modelo?: string;               // Modelo utilizado
+  tokens: TokensUsados;          // Consumo de la consulta
+  generadaEn: string;            // Fecha de generación (ISO)
+}
+
+/**
+ * Diferencia entre el valor actual del cultivo y el recomendado
+ */
+export interface DiferenciaObjetivoIA {
+  campo: CampoObjetivoCultivo;
+  actual?: number;               // Valor actual del cultivo (undefined si no está configurado)
+  recomendado: ValorRecomendadoIA;
+  cambia: boolean;               // false si la IA recomienda el mismo valor
+}
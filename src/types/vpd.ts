@@ -0,0 +1,45 @@
+/**
+ * Tipos de datos para cálculos psicrométricos del ambiente de cultivo
+ * Define las fases con rango de VPD propio y el resultado de analizar
+ * una combinación de temperatura y humedad
+ */
+
+/**
+ * Fases del cultivo con un rango de VPD objetivo distinto
+ * 'propagacion': esquejes y plántulas (primeras semanas de vegetación)
+ */
+export type FaseVPD = 'propagacion' | 'vegetacion' | 'floracion';
+
+/**
+ * Rango de VPD objetivo para una fase (kPa)
+ */
+export interface RangoVPD {
+  minimo: number;                // Límite inferior recomendado (kPa)
+  maximo: number;                // Límite superior recomendado (kPa)
+}
+
+/**
+ * Clasificación de un VPD respecto al rango de la fase
+ * 'bajo': transpiración lenta, riesgo de hongos
+ * 'alto': transpiración excesiva, estrés hídrico
+ */
+export type EstadoVPD = 'bajo' | 'optimo' | 'alto';
+
+/**
+ * Resultado completo del análisis psicrométrico
+ */
+export interface CondicionesAmbiente {
+  temperatura: number;           // Temperatura del aire (°C)
+  humedad: number;               // Humedad relativa (%)
+  temperaturaHoja: number;       // Temperatura estimada de la hoja (°C)
+  vpd: number;                   // Déficit de presión de vapor a nivel de hoja (kPa)
+  puntoRocio: number;            // Punto de rocío (°C)
+  humedadAbsoluta: number;       // Humedad absoluta (g/m³)
+  fase: FaseVPD;                 // Fase usada para el rango objetivo
+  rango: RangoVPD;               // Rango de VPD objetivo de la fase
+  estado: EstadoVPD;             // Clasificación del VPD
+  humedadRecomendada: {          // Humedad que lleva el VPD al rango a esta temperatura
+    minimo: number;              // Humedad para alcanzar el VPD máximo (%)
+    maximo: number;              // Humedad para alcanzar el VPD mínimo (%)
+  };
+}
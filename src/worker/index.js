@@ -0,0 +1,65 @@
+/**
+ * Service worker personalizado (Web Push)
+ *
+ * next-pwa compila este archivo como worker-*.js y lo importa desde public/sw.js.
+ * Recibe los push enviados por src/lib/services/webPush.ts (payload PayloadPush)
+ * y al tocar la notificación abre o enfoca la pestaña del enlace profundo.
+ */
+
+// Muestra la notificación recibida del servidor
+self.addEventListener('push', (event) => {
+  let payload = { titulo: 'CanopIA', cuerpo: '', url: '/' };
+  try {
+    if (event.data) payload = { ...payload, ...event.data.json() };
+  } catch {
+    if (event.data) payload.cuerpo = event.data.text();
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.titulo, {
+      body: payload.cuerpo,
+      icon: '/icon-192x192.png',
+      badge: '/icon-192x192.png',
+      tag: payload.tag,
+      renotify: Boolean(payload.tag),
+      data: { url: payload.url, tipo: payload.tipo }
+    })
+  );
+});
+
+// Abre el enlace profundo, reutilizando una pestaña de la app si ya existe
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const destino = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((ventanas) => {
+      const exacta = ventanas.find((ventana) => ventana.url === destino);
+      if (exacta) return exacta.focus();
+
+      const deLaApp = ventanas.find((ventana) => new URL(ventana.url).origin === self.location.origin);
+      if (deLaApp) return deLaApp.navigate(destino).then((ventana) => (ventana || deLaApp).focus());
+
+      return self.clients.openWindow(destino);
+    })
+  );
+});
+
+// El navegador renovó la suscripción: se reemplaza en el servidor
+self.addEventListener('pushsubscriptionchange', (event) => {
+  const anterior = event.oldSubscription;
+  if (!anterior?.options?.applicationServerKey) return;
+
+  event.waitUntil(
+    self.registration.pushManager
+      .subscribe({ userVisibleOnly: true, applicationServerKey: anterior.options.applicationServerKey })
+      .then((nueva) =>
+        fetch('/api/notificaciones/push', {
+          method: 'POST',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(nueva.toJSON())
+        })
+      )
+  );
+});
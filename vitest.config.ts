@@ -1,4 +1,4 @@
-import { defineConfig } from 'vitest/config';
+import { configDefaults, defineConfig } from 'vitest/config';
 import path from 'node:path';
 export default defineConfig({
   test: {
@@ -6,6 +6,8 @@ export default defineConfig({
     setupFiles: ['./vitest.setup.ts'],
     globals: true,
     css: false,
+    // Las specs de Playwright en tests/ se corren con su propio runner
+    exclude: [...configDefaults.exclude, 'tests/**'],
   },
   resolve: {
     alias: {